@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { pruneSourceCache } from "../../lib/source-cache.js";
+import { logger } from "../../utils/logger.js";
+import { cachePruneCommand } from "./cache.js";
+
+vi.mock("../../lib/source-cache.js");
+vi.mock("../../utils/logger.js");
+
+describe("cachePruneCommand", () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should prune entries older than 30 days by default", async () => {
+    vi.mocked(pruneSourceCache).mockResolvedValue({ removedCount: 3, remainingCount: 5 });
+
+    await cachePruneCommand({});
+
+    expect(pruneSourceCache).toHaveBeenCalledWith({ maxAgeDays: 30 });
+    expect(logger.success).toHaveBeenCalledWith(
+      "Removed 3 cached entries unused for more than 30 day(s); 5 remaining.",
+    );
+  });
+
+  it("should pass --max-age", async () => {
+    vi.mocked(pruneSourceCache).mockResolvedValue({ removedCount: 1, remainingCount: 0 });
+
+    await cachePruneCommand({ maxAge: "0" });
+
+    expect(pruneSourceCache).toHaveBeenCalledWith({ maxAgeDays: 0 });
+    expect(logger.success).toHaveBeenCalledWith(
+      "Removed 1 cached entry unused for more than 0 day(s); 0 remaining.",
+    );
+  });
+
+  it("should reject an invalid --max-age", async () => {
+    await expect(cachePruneCommand({ maxAge: "soon" })).rejects.toThrow(
+      'Invalid --max-age "soon": expected a number of days.',
+    );
+    expect(pruneSourceCache).not.toHaveBeenCalled();
+  });
+});
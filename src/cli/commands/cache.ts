@@ -0,0 +1,31 @@
+import { pruneSourceCache } from "../../lib/source-cache.js";
+import { logger } from "../../utils/logger.js";
+
+export type CachePruneCommandOptions = {
+  /** Remove entries not used for more than this many days. Defaults to 30. */
+  maxAge?: string;
+  verbose?: boolean;
+  silent?: boolean;
+};
+
+const DEFAULT_MAX_AGE_DAYS = 30;
+
+/**
+ * Remove stale entries from the source cache shared by all projects.
+ */
+export async function cachePruneCommand(options: CachePruneCommandOptions): Promise<void> {
+  logger.configure({
+    verbose: options.verbose ?? false,
+    silent: options.silent ?? false,
+  });
+
+  const maxAgeDays = options.maxAge === undefined ? DEFAULT_MAX_AGE_DAYS : Number(options.maxAge);
+  if (!Number.isFinite(maxAgeDays) || maxAgeDays < 0) {
+    throw new Error(`Invalid --max-age "${options.maxAge}": expected a number of days.`);
+  }
+
+  const { removedCount, remainingCount } = await pruneSourceCache({ maxAgeDays });
+  logger.success(
+    `Removed ${removedCount} cached entr${removedCount === 1 ? "y" : "ies"} unused for more than ${maxAgeDays} day(s); ${remainingCount} remaining.`,
+  );
+}
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { ConfigResolver } from "../../config/config-resolver.js";
+import { checkRulesyncDirExists, generate, type GenerateResult } from "../../lib/generate.js";
+import { logger } from "../../utils/logger.js";
+import { diffCommand } from "./diff.js";
+
+vi.mock("../../config/config-resolver.js");
+vi.mock("../../lib/generate.js");
+vi.mock("../../utils/logger.js");
+
+function createGenerateResult(diff: string): GenerateResult {
+  return {
+    rulesCount: 0,
+    rulesPaths: [],
+    ignoreCount: 0,
+    ignorePaths: [],
+    mcpCount: 0,
+    mcpPaths: [],
+    commandsCount: 0,
+    commandsPaths: [],
+    subagentsCount: 0,
+    subagentsPaths: [],
+    skillsCount: 0,
+    skillsPaths: [],
+    hooksCount: 0,
+    hooksPaths: [],
+    skills: [],
+    hasDiff: diff !== "",
+    diff,
+    deletedPaths: [],
+  };
+}
+
+describe("diffCommand", () => {
+  let mockConfig: any;
+
+  beforeEach(() => {
+    vi.spyOn(process, "cwd").mockReturnValue("/test/project");
+    vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("Process exit");
+    }) as any);
+
+    mockConfig = {
+      getVerbose: vi.fn().mockReturnValue(false),
+      getSilent: vi.fn().mockReturnValue(false),
+      getBaseDirs: vi.fn().mockReturnValue(["."]),
+      getFeatures: vi.fn().mockReturnValue(["rules", "mcp"]),
+    };
+    vi.mocked(ConfigResolver.resolve).mockResolvedValue(mockConfig);
+    vi.mocked(checkRulesyncDirExists).mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it("should resolve config in dry-run mode and print the diff", async () => {
+    const diff = "--- a/CLAUDE.md\n+++ b/CLAUDE.md\n@@ -1 +1 @@\n-old\n+new\n";
+    vi.mocked(generate).mockResolvedValue(createGenerateResult(diff));
+
+    await diffCommand({ targets: ["claudecode"], features: ["rules"] });
+
+    expect(ConfigResolver.resolve).toHaveBeenCalledWith({
+      targets: ["claudecode"],
+      features: ["rules"],
+      dryRun: true,
+      check: false,
+    });
+    expect(logger.configure).toHaveBeenCalledWith({ verbose: false, silent: false, stderr: true });
+    expect(generate).toHaveBeenCalledWith({ config: mockConfig, diff: true });
+    expect(logger.print).toHaveBeenCalledWith(diff);
+  });
+
+  it("should report up to date when there is no diff", async () => {
+    vi.mocked(generate).mockResolvedValue(createGenerateResult(""));
+
+    await diffCommand({});
+
+    expect(logger.print).not.toHaveBeenCalled();
+    expect(logger.info).toHaveBeenCalledWith("✓ All files are up to date (rules, mcp)");
+  });
+
+  it("should exit when .rulesync directory does not exist", async () => {
+    vi.mocked(checkRulesyncDirExists).mockResolvedValue(false);
+
+    await expect(diffCommand({})).rejects.toThrow("Process exit");
+
+    expect(logger.error).toHaveBeenCalledWith(
+      "❌ .rulesync directory not found. Run 'rulesync init' first.",
+    );
+    expect(generate).not.toHaveBeenCalled();
+  });
+});
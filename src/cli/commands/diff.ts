@@ -0,0 +1,35 @@
+import { ConfigResolver, type ConfigResolverResolveParams } from "../../config/config-resolver.js";
+import { checkRulesyncDirExists, generate } from "../../lib/generate.js";
+import { logger } from "../../utils/logger.js";
+
+export type DiffOptions = Omit<ConfigResolverResolveParams, "dryRun" | "check">;
+
+/**
+ * Show a unified diff of what `rulesync generate` would change, without writing files.
+ */
+export async function diffCommand(options: DiffOptions): Promise<void> {
+  const config = await ConfigResolver.resolve({ ...options, dryRun: true, check: false });
+
+  // Keep stdout for the patch, so that it can be redirected to a file
+  logger.configure({
+    verbose: config.getVerbose(),
+    silent: config.getSilent(),
+    stderr: true,
+  });
+
+  if (!(await checkRulesyncDirExists({ baseDir: process.cwd() }))) {
+    logger.error("❌ .rulesync directory not found. Run 'rulesync init' first.");
+    process.exit(1);
+  }
+
+  logger.debug(`Base directories: ${config.getBaseDirs().join(", ")}`);
+
+  const result = await generate({ config, diff: true });
+
+  if (!result.diff) {
+    logger.info(`✓ All files are up to date (${config.getFeatures().join(", ")})`);
+    return;
+  }
+
+  logger.print(result.diff);
+}
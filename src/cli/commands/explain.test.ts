@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { ConfigResolver } from "../../config/config-resolver.js";
+import {
+  buildConversionReport,
+  type ConversionReportEntry,
+  formatConversionReport,
+} from "../../lib/conversion-report.js";
+import { checkRulesyncDirExists } from "../../lib/generate.js";
+import { logger } from "../../utils/logger.js";
+import { explainCommand } from "./explain.js";
+
+vi.mock("../../config/config-resolver.js");
+vi.mock("../../lib/conversion-report.js");
+vi.mock("../../lib/generate.js");
+vi.mock("../../utils/logger.js");
+
+describe("explainCommand", () => {
+  let mockConfig: any;
+
+  beforeEach(() => {
+    vi.spyOn(process, "cwd").mockReturnValue("/test/project");
+    vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("Process exit");
+    }) as any);
+
+    mockConfig = {
+      getVerbose: vi.fn().mockReturnValue(false),
+      getSilent: vi.fn().mockReturnValue(false),
+    };
+    vi.mocked(ConfigResolver.resolve).mockResolvedValue(mockConfig);
+    vi.mocked(checkRulesyncDirExists).mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it("should print the formatted report", async () => {
+    const entries: ConversionReportEntry[] = [
+      {
+        target: "cursor",
+        feature: "skills",
+        file: ".rulesync/skills/a/SKILL.md",
+        kind: "dropped",
+        item: "cursor.allowed-tools",
+        reason: "Not supported by cursor",
+      },
+    ];
+    vi.mocked(buildConversionReport).mockResolvedValue(entries);
+    vi.mocked(formatConversionReport).mockReturnValue("formatted report");
+
+    await explainCommand({ targets: ["cursor"], simulateSkills: true });
+
+    expect(ConfigResolver.resolve).toHaveBeenCalledWith({
+      targets: ["cursor"],
+      simulateSkills: true,
+      readOnly: true,
+    });
+    expect(buildConversionReport).toHaveBeenCalledWith({ config: mockConfig });
+    expect(formatConversionReport).toHaveBeenCalledWith(entries);
+    expect(logger.print).toHaveBeenCalledWith("formatted report");
+  });
+
+  it("should report success when nothing is lost", async () => {
+    vi.mocked(buildConversionReport).mockResolvedValue([]);
+
+    await explainCommand({});
+
+    expect(logger.success).toHaveBeenCalledWith(
+      "✓ Nothing is dropped or approximated for the configured targets.",
+    );
+    expect(logger.print).not.toHaveBeenCalled();
+  });
+
+  it("should exit with error when .rulesync directory does not exist", async () => {
+    vi.mocked(checkRulesyncDirExists).mockResolvedValue(false);
+
+    await expect(explainCommand({})).rejects.toThrow("Process exit");
+
+    expect(logger.error).toHaveBeenCalledWith(
+      "❌ .rulesync directory not found. Run 'rulesync init' first.",
+    );
+    expect(buildConversionReport).not.toHaveBeenCalled();
+  });
+});
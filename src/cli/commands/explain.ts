@@ -0,0 +1,45 @@
+import { ConfigResolver, type ConfigResolverResolveParams } from "../../config/config-resolver.js";
+import { buildConversionReport, formatConversionReport } from "../../lib/conversion-report.js";
+import { checkRulesyncDirExists } from "../../lib/generate.js";
+import { logger } from "../../utils/logger.js";
+
+export type ExplainOptions = Pick<
+  ConfigResolverResolveParams,
+  | "targets"
+  | "features"
+  | "verbose"
+  | "silent"
+  | "configPath"
+  | "global"
+  | "simulateCommands"
+  | "simulateSubagents"
+  | "simulateSkills"
+  | "profile"
+>;
+
+/**
+ * Explain what generation would lose: every field, hook event and feature of the rulesync
+ * files that is dropped or approximated per target, without writing files.
+ */
+export async function explainCommand(options: ExplainOptions): Promise<void> {
+  const config = await ConfigResolver.resolve({ ...options, readOnly: true });
+
+  logger.configure({
+    verbose: config.getVerbose(),
+    silent: config.getSilent(),
+  });
+
+  if (!(await checkRulesyncDirExists({ baseDir: process.cwd() }))) {
+    logger.error("❌ .rulesync directory not found. Run 'rulesync init' first.");
+    process.exit(1);
+  }
+
+  const entries = await buildConversionReport({ config });
+
+  if (entries.length === 0) {
+    logger.success("✓ Nothing is dropped or approximated for the configured targets.");
+    return;
+  }
+
+  logger.print(formatConversionReport(entries));
+}
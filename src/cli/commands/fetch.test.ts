@@ -1,6 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
+import { ConfigResolver } from "../../config/config-resolver.js";
+import type { FetchSpec, GitHost } from "../../config/config.js";
+import { Config } from "../../config/config.js";
 import { fetchFiles, formatFetchSummary } from "../../lib/fetch.js";
+import { GitProviderClientError } from "../../lib/git-provider-client.js";
 import { GitHubClientError } from "../../lib/github-client.js";
 import type { FetchSummary } from "../../types/fetch.js";
 import { logger } from "../../utils/logger.js";
@@ -8,6 +12,7 @@ import { fetchCommand } from "./fetch.js";
 
 // Mock dependencies
 vi.mock("../../lib/fetch.js");
+vi.mock("../../config/config-resolver.js");
 vi.mock("../../lib/github-client.js", async () => {
   const actual = await vi.importActual<typeof import("../../lib/github-client.js")>(
     "../../lib/github-client.js",
@@ -19,10 +24,40 @@ vi.mock("../../lib/github-client.js", async () => {
 });
 vi.mock("../../utils/logger.js");
 
+function createMockConfig(gitHosts: Record<string, GitHost>, fetchSpecs: FetchSpec[]): Config {
+  return {
+    getGitHosts: () => gitHosts,
+    getFetchSpecs: () => fetchSpecs,
+  } as unknown as Config;
+}
+
+function createSummary(overrides: Partial<FetchSummary> = {}): FetchSummary {
+  return {
+    source: "owner/repo",
+    ref: "main",
+    files: [],
+    created: 0,
+    overwritten: 0,
+    skipped: 0,
+    merged: 0,
+    conflicted: 0,
+    removed: 0,
+    ...overrides,
+  };
+}
+
 describe("fetchCommand", () => {
   let mockExit: ReturnType<typeof vi.spyOn>;
+  let gitHosts: Record<string, GitHost>;
+  let fetchSpecs: FetchSpec[];
 
   beforeEach(() => {
+    gitHosts = {};
+    fetchSpecs = [];
+    vi.mocked(ConfigResolver.resolve).mockImplementation(async () =>
+      createMockConfig(gitHosts, fetchSpecs),
+    );
+
     mockExit = vi.spyOn(process, "exit").mockImplementation(function () {
       throw new Error("Process exit");
     } as never);
@@ -50,6 +85,9 @@ describe("fetchCommand", () => {
         created: 2,
         overwritten: 0,
         skipped: 0,
+        merged: 0,
+        conflicted: 0,
+        removed: 0,
       };
 
       vi.mocked(fetchFiles).mockResolvedValue(mockSummary);
@@ -72,6 +110,7 @@ describe("fetchCommand", () => {
           verbose: undefined,
           silent: undefined,
         },
+        hosts: {},
       });
       expect(logger.success).toHaveBeenCalledWith("Fetched 2 files");
     });
@@ -84,6 +123,9 @@ describe("fetchCommand", () => {
         created: 0,
         overwritten: 0,
         skipped: 0,
+        merged: 0,
+        conflicted: 0,
+        removed: 0,
       };
 
       vi.mocked(fetchFiles).mockResolvedValue(mockSummary);
@@ -115,7 +157,33 @@ describe("fetchCommand", () => {
           verbose: true,
           silent: false,
         },
+        hosts: {},
+      });
+    });
+
+    it("should pass the configured Git hosts to fetchFiles", async () => {
+      gitHosts = { "git.example.com": { provider: "gitea", tokenEnv: "FORGE_TOKEN" } };
+      vi.mocked(fetchFiles).mockResolvedValue({
+        source: "team/rules",
+        ref: "main",
+        files: [],
+        created: 0,
+        overwritten: 0,
+        skipped: 0,
+        merged: 0,
+        conflicted: 0,
+        removed: 0,
       });
+      vi.mocked(formatFetchSummary).mockReturnValue("");
+
+      await fetchCommand({ source: "git.example.com:team/rules" });
+
+      expect(fetchFiles).toHaveBeenCalledWith(
+        expect.objectContaining({
+          source: "git.example.com:team/rules",
+          hosts: { "git.example.com": { provider: "gitea", tokenEnv: "FORGE_TOKEN" } },
+        }),
+      );
     });
 
     it("should warn when no files were fetched", async () => {
@@ -126,6 +194,9 @@ describe("fetchCommand", () => {
         created: 0,
         overwritten: 0,
         skipped: 0,
+        merged: 0,
+        conflicted: 0,
+        removed: 0,
       };
 
       vi.mocked(fetchFiles).mockResolvedValue(mockSummary);
@@ -137,6 +208,90 @@ describe("fetchCommand", () => {
 
       expect(logger.warn).toHaveBeenCalledWith("No files were fetched.");
     });
+
+    it("should print the summary and exit with code 1 when a merge conflicted", async () => {
+      vi.mocked(fetchFiles).mockResolvedValue({
+        source: "owner/repo",
+        ref: "main",
+        files: [{ relativePath: "rules/overview.md", status: "conflicted" }],
+        created: 0,
+        overwritten: 0,
+        skipped: 0,
+        merged: 0,
+        conflicted: 1,
+        removed: 0,
+      });
+      vi.mocked(formatFetchSummary).mockReturnValue("1 conflicted");
+
+      await expect(fetchCommand({ source: "owner/repo", conflict: "merge" })).rejects.toThrow(
+        "Process exit",
+      );
+
+      expect(logger.success).toHaveBeenCalledWith("1 conflicted");
+      expect(logger.error).toHaveBeenCalledWith(
+        expect.stringContaining("1 file(s) could not be merged cleanly"),
+      );
+      expect(mockExit).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe("--all", () => {
+    it("should fetch every spec with pruning, spec options taking precedence", async () => {
+      fetchSpecs = [
+        { source: "owner/rules", features: ["rules"], conflict: "merge" },
+        { source: "owner/skills", features: ["skills"] },
+      ];
+      vi.mocked(fetchFiles).mockResolvedValue(createSummary());
+      vi.mocked(formatFetchSummary).mockReturnValue("");
+
+      await fetchCommand({ all: true, token: "secret", conflict: "skip" });
+
+      expect(fetchFiles).toHaveBeenCalledTimes(2);
+      expect(fetchFiles).toHaveBeenNthCalledWith(1, {
+        source: "owner/rules",
+        options: { token: "secret", conflict: "merge", features: ["rules"] },
+        hosts: {},
+        prune: true,
+      });
+      expect(fetchFiles).toHaveBeenNthCalledWith(2, {
+        source: "owner/skills",
+        options: { token: "secret", conflict: "skip", features: ["skills"] },
+        hosts: {},
+        prune: true,
+      });
+      expect(mockExit).not.toHaveBeenCalled();
+    });
+
+    it("should fetch the remaining specs when one fails and exit with code 1", async () => {
+      fetchSpecs = [{ source: "owner/missing" }, { source: "owner/rules" }];
+      vi.mocked(fetchFiles)
+        .mockRejectedValueOnce(new Error("Repository not found"))
+        .mockResolvedValueOnce(createSummary());
+      vi.mocked(formatFetchSummary).mockReturnValue("");
+
+      await expect(fetchCommand({ all: true })).rejects.toThrow("Process exit");
+
+      expect(fetchFiles).toHaveBeenCalledTimes(2);
+      expect(logger.error).toHaveBeenCalledWith(expect.stringContaining("Repository not found"));
+      expect(mockExit).toHaveBeenCalledWith(1);
+    });
+
+    it("should warn when no fetch specs are configured", async () => {
+      await fetchCommand({ all: true });
+
+      expect(fetchFiles).not.toHaveBeenCalled();
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('"fetch"'));
+    });
+
+    it("should require either a source or --all", async () => {
+      await expect(fetchCommand({})).rejects.toThrow("Process exit");
+      await expect(fetchCommand({ source: "owner/repo", all: true })).rejects.toThrow(
+        "Process exit",
+      );
+
+      expect(fetchFiles).not.toHaveBeenCalled();
+      expect(logger.error).toHaveBeenCalledWith("Specify either a source or --all, not both.");
+    });
   });
 
   describe("error handling", () => {
@@ -177,6 +332,22 @@ describe("fetchCommand", () => {
       expect(mockExit).toHaveBeenCalledWith(1);
     });
 
+    it("should handle GitProviderClientError with a hint about host tokens", async () => {
+      vi.mocked(fetchFiles).mockRejectedValue(
+        new GitProviderClientError("Authentication failed: Unauthorized.", 401),
+      );
+
+      await expect(fetchCommand({ source: "git.example.com:team/rules" })).rejects.toThrow(
+        "Process exit",
+      );
+
+      expect(logger.error).toHaveBeenCalledWith(
+        "GitProviderClientError: Authentication failed: Unauthorized.",
+      );
+      expect(logger.info).toHaveBeenCalledWith(expect.stringContaining("RULESYNC_TOKEN_<HOST>"));
+      expect(mockExit).toHaveBeenCalledWith(1);
+    });
+
     it("should handle generic errors", async () => {
       vi.mocked(fetchFiles).mockRejectedValue(new Error("Network error"));
 
@@ -196,6 +367,9 @@ describe("fetchCommand", () => {
         created: 0,
         overwritten: 0,
         skipped: 0,
+        merged: 0,
+        conflicted: 0,
+        removed: 0,
       });
       vi.mocked(formatFetchSummary).mockReturnValue("");
 
@@ -218,6 +392,9 @@ describe("fetchCommand", () => {
         created: 0,
         overwritten: 0,
         skipped: 0,
+        merged: 0,
+        conflicted: 0,
+        removed: 0,
       });
       vi.mocked(formatFetchSummary).mockReturnValue("");
 
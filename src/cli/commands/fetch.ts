@@ -1,15 +1,79 @@
+import { ConfigResolver } from "../../config/config-resolver.js";
+import type { Config } from "../../config/config.js";
 import { fetchFiles, formatFetchSummary } from "../../lib/fetch.js";
+import { GitProviderClientError } from "../../lib/git-provider-client.js";
 import { GitHubClientError, logGitHubAuthHints } from "../../lib/github-client.js";
-import type { FetchOptions } from "../../types/fetch.js";
+import type { FetchOptions, FetchSummary } from "../../types/fetch.js";
 import { formatError } from "../../utils/error.js";
 import { logger } from "../../utils/logger.js";
 
 export type FetchCommandOptions = FetchOptions & {
-  source: string;
+  source?: string;
+  /** Fetch every source listed in `fetch` of the config file. */
+  all?: boolean;
 };
 
+function logFetchError(error: unknown): void {
+  if (error instanceof GitHubClientError) {
+    logGitHubAuthHints(error);
+  } else if (error instanceof GitProviderClientError) {
+    logger.error(formatError(error));
+    if (error.statusCode === 401 || error.statusCode === 403) {
+      logger.info(
+        'Tip: Set RULESYNC_TOKEN_<HOST> (e.g. RULESYNC_TOKEN_GIT_EXAMPLE_COM), or the variable named by "tokenEnv" of the host in "gitHosts", for private repositories.',
+      );
+    }
+  } else {
+    logger.error(formatError(error));
+  }
+}
+
+function logFetchSummary(summary: FetchSummary): void {
+  logger.success(formatFetchSummary(summary));
+  if (summary.files.length === 0) {
+    logger.warn("No files were fetched.");
+  }
+}
+
+/**
+ * Replay the fetch specs of the config file, removing files no longer upstream.
+ * A failing spec does not stop the others.
+ * @returns The number of conflicted files and whether any spec failed
+ */
+async function fetchAll(params: {
+  config: Config;
+  fetchOptions: FetchOptions;
+}): Promise<{ conflicted: number; failed: boolean }> {
+  const { config, fetchOptions } = params;
+  const specs = config.getFetchSpecs();
+  if (specs.length === 0) {
+    logger.warn('No sources to fetch. List them in "fetch" of rulesync.jsonc.');
+    return { conflicted: 0, failed: false };
+  }
+
+  let conflicted = 0;
+  let failed = false;
+  for (const { source, ...specOptions } of specs) {
+    logger.debug(`Fetching files from ${source}...`);
+    try {
+      const summary = await fetchFiles({
+        source,
+        options: { ...fetchOptions, ...specOptions },
+        hosts: config.getGitHosts(),
+        prune: true,
+      });
+      logFetchSummary(summary);
+      conflicted += summary.conflicted;
+    } catch (error) {
+      logFetchError(error);
+      failed = true;
+    }
+  }
+  return { conflicted, failed };
+}
+
 export async function fetchCommand(options: FetchCommandOptions): Promise<void> {
-  const { source, ...fetchOptions } = options;
+  const { source, all = false, ...fetchOptions } = options;
 
   // Configure logger early for error messages
   logger.configure({
@@ -17,28 +81,47 @@ export async function fetchCommand(options: FetchCommandOptions): Promise<void>
     silent: fetchOptions.silent ?? false,
   });
 
-  logger.debug(`Fetching files from ${source}...`);
+  if (all === (source !== undefined)) {
+    logger.error(
+      all
+        ? "Specify either a source or --all, not both."
+        : 'Specify a source to fetch, or --all to fetch the sources listed in "fetch" of rulesync.jsonc.',
+    );
+    process.exit(1);
+  }
 
+  let conflicted = 0;
+  let failed = false;
   try {
-    const summary = await fetchFiles({
-      source,
-      options: fetchOptions,
+    // Self-hosted Git hosts and fetch specs are configured in rulesync.jsonc
+    const config = await ConfigResolver.resolve({
+      verbose: fetchOptions.verbose,
+      silent: fetchOptions.silent,
     });
 
-    const output = formatFetchSummary(summary);
-
-    logger.success(output);
-
-    // Exit with appropriate code
-    if (summary.created + summary.overwritten === 0 && summary.skipped === 0) {
-      logger.warn("No files were fetched.");
+    if (all) {
+      ({ conflicted, failed } = await fetchAll({ config, fetchOptions }));
+    } else if (source !== undefined) {
+      logger.debug(`Fetching files from ${source}...`);
+      const summary = await fetchFiles({
+        source,
+        options: fetchOptions,
+        hosts: config.getGitHosts(),
+      });
+      logFetchSummary(summary);
+      conflicted = summary.conflicted;
     }
   } catch (error) {
-    if (error instanceof GitHubClientError) {
-      logGitHubAuthHints(error);
-    } else {
-      logger.error(formatError(error));
-    }
+    logFetchError(error);
+    process.exit(1);
+  }
+
+  if (conflicted > 0) {
+    logger.error(
+      `${conflicted} file(s) could not be merged cleanly. Resolve the conflict markers, then run "rulesync generate".`,
+    );
+  }
+  if (conflicted > 0 || failed) {
     process.exit(1);
   }
 }
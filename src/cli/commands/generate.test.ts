@@ -7,6 +7,7 @@ import { IgnoreProcessor } from "../../features/ignore/ignore-processor.js";
 import { McpProcessor } from "../../features/mcp/mcp-processor.js";
 import { RulesProcessor } from "../../features/rules/rules-processor.js";
 import { SubagentsProcessor } from "../../features/subagents/subagents-processor.js";
+import { buildConversionReport, formatConversionReport } from "../../lib/conversion-report.js";
 import { fileExists } from "../../utils/file.js";
 import { logger } from "../../utils/logger.js";
 import type { GenerateOptions } from "./generate.js";
@@ -19,6 +20,7 @@ vi.mock("../../features/ignore/ignore-processor.js");
 vi.mock("../../features/mcp/mcp-processor.js");
 vi.mock("../../features/subagents/subagents-processor.js");
 vi.mock("../../features/commands/commands-processor.js");
+vi.mock("../../lib/conversion-report.js");
 vi.mock("../../utils/file.js");
 vi.mock("../../utils/logger.js");
 vi.mock("es-toolkit", () => ({
@@ -51,6 +53,9 @@ describe("generateCommand", () => {
       getSimulateCommands: vi.fn().mockReturnValue(false),
       getSimulateSubagents: vi.fn().mockReturnValue(false),
       getSimulateSkills: vi.fn().mockReturnValue(false),
+      getVars: vi.fn().mockReturnValue({}),
+      getResolveMcpEnv: vi.fn().mockReturnValue(false),
+      getMergeMcp: vi.fn().mockReturnValue(false),
       getDryRun: vi.fn().mockReturnValue(false),
       getCheck: vi.fn().mockReturnValue(false),
       isPreviewMode: vi.fn().mockReturnValue(false),
@@ -73,10 +78,10 @@ describe("generateCommand", () => {
     // Setup default processor mock instance
     mockProcessorInstance = {
       loadToolFiles: vi.fn().mockResolvedValue([]),
-      removeOrphanAiFiles: vi.fn().mockResolvedValue(undefined),
+      removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
       loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
       convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([{ tool: "converted" }]),
-      writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [] }),
+      writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [], changes: [] }),
     };
 
     // Setup processor static method mocks
@@ -90,46 +95,46 @@ describe("generateCommand", () => {
     vi.mocked(RulesProcessor).mockImplementation(function () {
       return {
         loadToolFiles: vi.fn().mockResolvedValue([]),
-        removeOrphanAiFiles: vi.fn().mockResolvedValue(undefined),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
         convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([{ tool: "converted" }]),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [] }),
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [], changes: [] }),
       } as any;
     });
     vi.mocked(IgnoreProcessor).mockImplementation(function () {
       return {
         loadToolFiles: vi.fn().mockResolvedValue([]),
-        removeOrphanAiFiles: vi.fn().mockResolvedValue(undefined),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
         convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([{ tool: "converted" }]),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [] }),
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [], changes: [] }),
       } as any;
     });
     vi.mocked(McpProcessor).mockImplementation(function () {
       return {
         loadToolFiles: vi.fn().mockResolvedValue([]),
-        removeOrphanAiFiles: vi.fn().mockResolvedValue(undefined),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
         convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([{ tool: "converted" }]),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [] }),
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [], changes: [] }),
       } as any;
     });
     vi.mocked(SubagentsProcessor).mockImplementation(function () {
       return {
         loadToolFiles: vi.fn().mockResolvedValue([]),
-        removeOrphanAiFiles: vi.fn().mockResolvedValue(undefined),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
         convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([{ tool: "converted" }]),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [] }),
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [], changes: [] }),
       } as any;
     });
     vi.mocked(CommandsProcessor).mockImplementation(function () {
       return {
         loadToolFiles: vi.fn().mockResolvedValue([]),
-        removeOrphanAiFiles: vi.fn().mockResolvedValue(undefined),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
         convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([{ tool: "converted" }]),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [] }),
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [], changes: [] }),
       } as any;
     });
   });
@@ -211,6 +216,7 @@ describe("generateCommand", () => {
         simulateSkills: false,
         skills: [],
         dryRun: false,
+        templateVars: {},
       });
     });
 
@@ -230,6 +236,7 @@ describe("generateCommand", () => {
         simulateSkills: false,
         skills: [],
         dryRun: false,
+        templateVars: {},
       });
     });
 
@@ -240,10 +247,10 @@ describe("generateCommand", () => {
       // Create a custom mock instance for this test
       const customMockInstance = {
         loadToolFiles: vi.fn().mockResolvedValue(oldFiles),
-        removeOrphanAiFiles: vi.fn().mockResolvedValue(undefined),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
         convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([{ tool: "converted" }]),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [] }),
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [], changes: [] }),
       };
       vi.mocked(RulesProcessor).mockImplementation(function () {
         return customMockInstance as any;
@@ -272,6 +279,7 @@ describe("generateCommand", () => {
         simulateSkills: false,
         skills: [],
         dryRun: false,
+        templateVars: {},
       });
       expect(RulesProcessor).toHaveBeenCalledWith({
         baseDir: "dir2",
@@ -282,6 +290,7 @@ describe("generateCommand", () => {
         simulateSkills: false,
         skills: [],
         dryRun: false,
+        templateVars: {},
       });
     });
 
@@ -311,6 +320,9 @@ describe("generateCommand", () => {
         toolTarget: "claudecode",
         global: false,
         dryRun: false,
+        resolveEnv: false,
+        merge: false,
+        manifest: expect.anything(),
       });
     });
 
@@ -334,10 +346,10 @@ describe("generateCommand", () => {
       // Create a custom mock instance for this test
       const customMockInstance = {
         loadToolFiles: vi.fn().mockResolvedValue(oldFiles),
-        removeOrphanAiFiles: vi.fn().mockResolvedValue(undefined),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
         convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([{ tool: "converted" }]),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [] }),
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [], changes: [] }),
       };
       vi.mocked(McpProcessor).mockImplementation(function () {
         return customMockInstance as any;
@@ -377,6 +389,7 @@ describe("generateCommand", () => {
         toolTarget: "claudecode",
         global: false,
         dryRun: false,
+        templateVars: {},
       });
     });
 
@@ -574,10 +587,10 @@ describe("generateCommand", () => {
       vi.mocked(RulesProcessor).mockImplementation(function () {
         return {
           loadToolFiles: vi.fn().mockResolvedValue([]),
-          removeOrphanAiFiles: vi.fn().mockResolvedValue(undefined),
+          removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
           loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
           convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([{ tool: "converted" }]),
-          writeAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [] }),
+          writeAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         } as any;
       });
 
@@ -594,24 +607,24 @@ describe("generateCommand", () => {
       // Create custom mock instances with specific return values
       const rulesMock = {
         loadToolFiles: vi.fn().mockResolvedValue([]),
-        removeOrphanAiFiles: vi.fn().mockResolvedValue(undefined),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
         convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([{ tool: "converted" }]),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 2, paths: [] }),
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 2, paths: [], changes: [] }),
       };
       const mcpMock = {
         loadToolFiles: vi.fn().mockResolvedValue([]),
-        removeOrphanAiFiles: vi.fn().mockResolvedValue(undefined),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
         convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([{ tool: "converted" }]),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 3, paths: [] }),
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 3, paths: [], changes: [] }),
       };
       const commandsMock = {
         loadToolFiles: vi.fn().mockResolvedValue([]),
-        removeOrphanAiFiles: vi.fn().mockResolvedValue(undefined),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
         convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([{ tool: "converted" }]),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [] }),
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [], changes: [] }),
       };
 
       vi.mocked(RulesProcessor).mockImplementation(function () {
@@ -663,10 +676,10 @@ describe("generateCommand", () => {
       // Create a custom mock instance that returns 3
       const customMockInstance = {
         loadToolFiles: vi.fn().mockResolvedValue([]),
-        removeOrphanAiFiles: vi.fn().mockResolvedValue(undefined),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
         convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([{ tool: "converted" }]),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 3, paths: [] }),
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 3, paths: [], changes: [] }),
       };
       vi.mocked(RulesProcessor).mockImplementation(function () {
         return customMockInstance as any;
@@ -755,6 +768,7 @@ describe("generateCommand", () => {
         simulateSkills: false,
         skills: [],
         dryRun: false,
+        templateVars: {},
       });
     });
 
@@ -767,10 +781,10 @@ describe("generateCommand", () => {
       // Create a custom mock instance to track calls
       const customMockInstance = {
         loadToolFiles: vi.fn().mockResolvedValue([{ file: "old" }]),
-        removeOrphanAiFiles: vi.fn().mockResolvedValue(undefined),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
         convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([{ tool: "converted" }]),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [] }),
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [], changes: [] }),
       };
       vi.mocked(RulesProcessor).mockImplementation(function () {
         return customMockInstance as any;
@@ -802,6 +816,7 @@ describe("generateCommand", () => {
         simulateSkills: false,
         skills: [],
         dryRun: false,
+        templateVars: {},
       });
       expect(RulesProcessor).toHaveBeenCalledWith({
         baseDir: "dir2",
@@ -812,6 +827,7 @@ describe("generateCommand", () => {
         simulateSkills: false,
         skills: [],
         dryRun: false,
+        templateVars: {},
       });
       expect(RulesProcessor).toHaveBeenCalledWith({
         baseDir: "dir3",
@@ -822,6 +838,7 @@ describe("generateCommand", () => {
         simulateSkills: false,
         skills: [],
         dryRun: false,
+        templateVars: {},
       });
       expect(RulesProcessor).toHaveBeenCalledTimes(3); // Once for each baseDir
     });
@@ -848,6 +865,7 @@ describe("generateCommand", () => {
         toolTarget: "claudecode",
         global: true,
         dryRun: false,
+        templateVars: {},
       });
       expect(CommandsProcessor.getToolTargets).toHaveBeenCalledWith(
         expect.objectContaining({ global: true }),
@@ -887,10 +905,10 @@ describe("generateCommand", () => {
       // Create a custom mock instance that returns 5
       const customMockInstance = {
         loadToolFiles: vi.fn().mockResolvedValue([]),
-        removeOrphanAiFiles: vi.fn().mockResolvedValue(undefined),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
         convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([{ tool: "converted" }]),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 5, paths: [] }),
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 5, paths: [], changes: [] }),
       };
       vi.mocked(RulesProcessor).mockImplementation(function () {
         return customMockInstance as any;
@@ -920,37 +938,37 @@ describe("generateCommand", () => {
       vi.mocked(RulesProcessor).mockImplementation(function () {
         return {
           loadToolFiles: vi.fn().mockResolvedValue([]),
-          removeOrphanAiFiles: vi.fn().mockResolvedValue(undefined),
+          removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
           loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
           convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([{ tool: "converted" }]),
-          writeAiFiles: vi.fn().mockResolvedValue({ count: 3, paths: [] }),
+          writeAiFiles: vi.fn().mockResolvedValue({ count: 3, paths: [], changes: [] }),
         } as any;
       });
       vi.mocked(McpProcessor).mockImplementation(function () {
         return {
           loadToolFiles: vi.fn().mockResolvedValue([]),
-          removeOrphanAiFiles: vi.fn().mockResolvedValue(undefined),
+          removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
           loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
           convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([{ tool: "converted" }]),
-          writeAiFiles: vi.fn().mockResolvedValue({ count: 3, paths: [] }),
+          writeAiFiles: vi.fn().mockResolvedValue({ count: 3, paths: [], changes: [] }),
         } as any;
       });
       vi.mocked(CommandsProcessor).mockImplementation(function () {
         return {
           loadToolFiles: vi.fn().mockResolvedValue([]),
-          removeOrphanAiFiles: vi.fn().mockResolvedValue(undefined),
+          removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
           loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
           convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([{ tool: "converted" }]),
-          writeAiFiles: vi.fn().mockResolvedValue({ count: 3, paths: [] }),
+          writeAiFiles: vi.fn().mockResolvedValue({ count: 3, paths: [], changes: [] }),
         } as any;
       });
       vi.mocked(SubagentsProcessor).mockImplementation(function () {
         return {
           loadToolFiles: vi.fn().mockResolvedValue([]),
-          removeOrphanAiFiles: vi.fn().mockResolvedValue(undefined),
+          removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
           loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
           convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([{ tool: "converted" }]),
-          writeAiFiles: vi.fn().mockResolvedValue({ count: 3, paths: [] }),
+          writeAiFiles: vi.fn().mockResolvedValue({ count: 3, paths: [], changes: [] }),
         } as any;
       });
 
@@ -976,10 +994,10 @@ describe("generateCommand", () => {
       // Set up rules processor to succeed
       const mockRulesProcessor = {
         loadToolFiles: vi.fn().mockResolvedValue([]),
-        removeOrphanAiFiles: vi.fn().mockResolvedValue(undefined),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
         convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([{ tool: "converted" }]),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 2, paths: [] }),
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 2, paths: [], changes: [] }),
       };
       vi.mocked(RulesProcessor).mockImplementation(function () {
         return mockRulesProcessor as any;
@@ -1016,4 +1034,44 @@ describe("generateCommand", () => {
       expect(logger.success).toHaveBeenCalledWith("🎉 All done! Written 4 file(s) total (4 rules)");
     });
   });
+
+  describe("conversion report", () => {
+    it("should not build the report by default", async () => {
+      await generateCommand({});
+
+      expect(buildConversionReport).not.toHaveBeenCalled();
+    });
+
+    it("should print the report after generating when requested", async () => {
+      const entries = [
+        {
+          target: "claudecode" as const,
+          feature: "rules" as const,
+          file: ".rulesync/rules/a.md",
+          kind: "dropped" as const,
+          item: "description",
+          reason: "claudecode rule files have no description",
+        },
+      ];
+      vi.mocked(buildConversionReport).mockResolvedValue(entries);
+      vi.mocked(formatConversionReport).mockReturnValue("formatted report");
+
+      await generateCommand({ targets: ["claudecode"], report: true });
+
+      expect(ConfigResolver.resolve).toHaveBeenCalledWith({ targets: ["claudecode"] });
+      expect(buildConversionReport).toHaveBeenCalledWith({ config: mockConfig });
+      expect(formatConversionReport).toHaveBeenCalledWith(entries);
+      expect(logger.info).toHaveBeenCalledWith("Conversion report:\nformatted report");
+    });
+
+    it("should say so when nothing is lost", async () => {
+      vi.mocked(buildConversionReport).mockResolvedValue([]);
+
+      await generateCommand({ report: true });
+
+      expect(logger.info).toHaveBeenCalledWith(
+        "Conversion report: nothing is dropped or approximated.",
+      );
+    });
+  });
 });
@@ -1,9 +1,12 @@
 import { ConfigResolver, type ConfigResolverResolveParams } from "../../config/config-resolver.js";
+import { buildConversionReport, formatConversionReport } from "../../lib/conversion-report.js";
 import { checkRulesyncDirExists, generate } from "../../lib/generate.js";
 import { logger } from "../../utils/logger.js";
 import { calculateTotalCount } from "../../utils/result.js";
 
-export type GenerateOptions = ConfigResolverResolveParams;
+export type GenerateOptions = ConfigResolverResolveParams & {
+  report?: boolean;
+};
 
 /**
  * Log feature generation result with appropriate prefix based on dry run mode.
@@ -29,7 +32,8 @@ function logFeatureResult(params: {
 }
 
 export async function generateCommand(options: GenerateOptions): Promise<void> {
-  const config = await ConfigResolver.resolve(options);
+  const { report = false, ...configOptions } = options;
+  const config = await ConfigResolver.resolve(configOptions);
 
   logger.configure({
     verbose: config.getVerbose(),
@@ -126,6 +130,15 @@ export async function generateCommand(options: GenerateOptions): Promise<void> {
     modePrefix,
   });
 
+  if (report) {
+    const entries = await buildConversionReport({ config });
+    if (entries.length === 0) {
+      logger.info("Conversion report: nothing is dropped or approximated.");
+    } else {
+      logger.info(`Conversion report:\n${formatConversionReport(entries)}`);
+    }
+  }
+
   const totalGenerated = calculateTotalCount(result);
 
   if (totalGenerated === 0) {
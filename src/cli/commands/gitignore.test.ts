@@ -191,6 +191,10 @@ dist/`;
     it("should report that .gitignore is already up to date", async () => {
       const rulesyncBlock = `# Generated by Rulesync
 .rulesync/skills/.curated/
+.rulesync/rules/.curated/
+.rulesync/commands/.curated/
+.rulesync/subagents/.curated/
+.rulesync/.curated/
 **/AGENTS.md
 **/.agents/
 **/.augmentignore
@@ -322,6 +326,10 @@ rulesync.local.jsonc
     it("should not log Antigravity workaround info when already up to date", async () => {
       const rulesyncBlock = `# Generated by Rulesync
 .rulesync/skills/.curated/
+.rulesync/rules/.curated/
+.rulesync/commands/.curated/
+.rulesync/subagents/.curated/
+.rulesync/.curated/
 **/AGENTS.md
 **/.agents/
 **/.augmentignore
@@ -1,6 +1,12 @@
 import { join } from "node:path";
 
-import { RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH } from "../../constants/rulesync-paths.js";
+import {
+  RULESYNC_CURATED_COMMANDS_RELATIVE_DIR_PATH,
+  RULESYNC_CURATED_RELATIVE_DIR_PATH,
+  RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH,
+  RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH,
+  RULESYNC_CURATED_SUBAGENTS_RELATIVE_DIR_PATH,
+} from "../../constants/rulesync-paths.js";
 import { fileExists, readFileContent, writeFileContent } from "../../utils/file.js";
 import { logger } from "../../utils/logger.js";
 
@@ -8,8 +14,12 @@ const RULESYNC_HEADER = "# Generated by Rulesync";
 const LEGACY_RULESYNC_HEADER = "# Generated by rulesync - AI tool configuration files";
 
 const RULESYNC_IGNORE_ENTRIES = [
-  // Rulesync curated (fetched) skills
+  // Rulesync curated (fetched) skills, rules, commands, subagents, MCP servers and hooks
   `${RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH}/`,
+  `${RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH}/`,
+  `${RULESYNC_CURATED_COMMANDS_RELATIVE_DIR_PATH}/`,
+  `${RULESYNC_CURATED_SUBAGENTS_RELATIVE_DIR_PATH}/`,
+  `${RULESYNC_CURATED_RELATIVE_DIR_PATH}/`,
   // AGENTS.md
   "**/AGENTS.md",
   "**/.agents/",
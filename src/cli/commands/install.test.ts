@@ -15,6 +15,7 @@ vi.mock("../../utils/logger.js");
 function createMockConfig(sources: SourceEntry[]): Config {
   return {
     getSources: () => sources,
+    getAllowedSigners: () => ".rulesync/allowed_signers",
   } as unknown as Config;
 }
 
@@ -38,6 +39,7 @@ describe("installCommand", () => {
       vi.mocked(ConfigResolver.resolve).mockResolvedValue(createMockConfig(sources));
       vi.mocked(resolveAndFetchSources).mockResolvedValue({
         fetchedSkillCount: 3,
+        fetchedItemCounts: {},
         sourcesProcessed: 1,
       });
 
@@ -47,25 +49,48 @@ describe("installCommand", () => {
         sources,
         baseDir: process.cwd(),
         options: {
-          updateSources: undefined,
+          updateSources: false,
+          updateSourceKeys: undefined,
           frozen: undefined,
+          repair: undefined,
+          offline: undefined,
           token: undefined,
+          allowedSigners: ".rulesync/allowed_signers",
         },
       });
       expect(logger.success).toHaveBeenCalledWith("Installed 3 skill(s) from 1 source(s).");
     });
 
-    it("should report all up to date when no skills fetched", async () => {
+    it("should list fetched rules, commands, subagents, MCP servers and hooks", async () => {
+      const sources: SourceEntry[] = [
+        { source: "owner/repo", skills: [], rules: ["*"], mcp: ["*"] },
+      ];
+      vi.mocked(ConfigResolver.resolve).mockResolvedValue(createMockConfig(sources));
+      vi.mocked(resolveAndFetchSources).mockResolvedValue({
+        fetchedSkillCount: 0,
+        fetchedItemCounts: { rules: 2, mcp: 1, hooks: 0 },
+        sourcesProcessed: 1,
+      });
+
+      await installCommand({});
+
+      expect(logger.success).toHaveBeenCalledWith(
+        "Installed 2 rule(s), 1 MCP server(s) from 1 source(s).",
+      );
+    });
+
+    it("should report all up to date when nothing fetched", async () => {
       const sources: SourceEntry[] = [{ source: "owner/repo" }];
       vi.mocked(ConfigResolver.resolve).mockResolvedValue(createMockConfig(sources));
       vi.mocked(resolveAndFetchSources).mockResolvedValue({
         fetchedSkillCount: 0,
+        fetchedItemCounts: {},
         sourcesProcessed: 1,
       });
 
       await installCommand({});
 
-      expect(logger.success).toHaveBeenCalledWith("All skills up to date (1 source(s) checked).");
+      expect(logger.success).toHaveBeenCalledWith("All sources up to date (1 source(s) checked).");
     });
 
     it("should warn and return early when no sources defined", async () => {
@@ -86,6 +111,7 @@ describe("installCommand", () => {
       vi.mocked(ConfigResolver.resolve).mockResolvedValue(createMockConfig(sources));
       vi.mocked(resolveAndFetchSources).mockResolvedValue({
         fetchedSkillCount: 0,
+        fetchedItemCounts: {},
         sourcesProcessed: 1,
       });
 
@@ -98,11 +124,37 @@ describe("installCommand", () => {
       );
     });
 
+    it("should pass the sources given to --update", async () => {
+      const sources: SourceEntry[] = [{ source: "owner/repo" }, { source: "owner/other" }];
+      vi.mocked(ConfigResolver.resolve).mockResolvedValue(createMockConfig(sources));
+      vi.mocked(resolveAndFetchSources).mockResolvedValue({
+        fetchedSkillCount: 0,
+        fetchedItemCounts: {},
+        sourcesProcessed: 2,
+      });
+
+      await installCommand({ update: ["owner/repo"] });
+
+      expect(resolveAndFetchSources).toHaveBeenCalledWith(
+        expect.objectContaining({
+          options: expect.objectContaining({
+            updateSources: false,
+            updateSourceKeys: ["owner/repo"],
+          }),
+        }),
+      );
+      // Presets are only updated when all sources are
+      expect(ConfigResolver.resolve).toHaveBeenCalledWith(
+        expect.objectContaining({ updatePresets: false }),
+      );
+    });
+
     it("should pass --frozen option", async () => {
       const sources: SourceEntry[] = [{ source: "owner/repo" }];
       vi.mocked(ConfigResolver.resolve).mockResolvedValue(createMockConfig(sources));
       vi.mocked(resolveAndFetchSources).mockResolvedValue({
         fetchedSkillCount: 0,
+        fetchedItemCounts: {},
         sourcesProcessed: 1,
       });
 
@@ -115,11 +167,68 @@ describe("installCommand", () => {
       );
     });
 
+    it("should pass --repair option", async () => {
+      const sources: SourceEntry[] = [{ source: "owner/repo" }];
+      vi.mocked(ConfigResolver.resolve).mockResolvedValue(createMockConfig(sources));
+      vi.mocked(resolveAndFetchSources).mockResolvedValue({
+        fetchedSkillCount: 1,
+        fetchedItemCounts: {},
+        sourcesProcessed: 1,
+      });
+
+      await installCommand({ repair: true });
+
+      expect(resolveAndFetchSources).toHaveBeenCalledWith(
+        expect.objectContaining({
+          options: expect.objectContaining({ repair: true }),
+        }),
+      );
+    });
+
+    it("should pass --offline option", async () => {
+      const sources: SourceEntry[] = [{ source: "owner/repo" }];
+      vi.mocked(ConfigResolver.resolve).mockResolvedValue(createMockConfig(sources));
+      vi.mocked(resolveAndFetchSources).mockResolvedValue({
+        fetchedSkillCount: 0,
+        fetchedItemCounts: {},
+        sourcesProcessed: 1,
+      });
+
+      await installCommand({ offline: true });
+
+      expect(resolveAndFetchSources).toHaveBeenCalledWith(
+        expect.objectContaining({
+          options: expect.objectContaining({ offline: true }),
+        }),
+      );
+    });
+
+    it("should pass --update and --frozen to the config resolver for presets", async () => {
+      vi.mocked(ConfigResolver.resolve).mockResolvedValue(createMockConfig([]));
+
+      await installCommand({ update: true, frozen: false });
+
+      expect(ConfigResolver.resolve).toHaveBeenCalledWith(
+        expect.objectContaining({ updatePresets: true, frozenPresets: false }),
+      );
+    });
+
+    it("should pass --profile to the config resolver", async () => {
+      vi.mocked(ConfigResolver.resolve).mockResolvedValue(createMockConfig([]));
+
+      await installCommand({ profile: "ci" });
+
+      expect(ConfigResolver.resolve).toHaveBeenCalledWith(
+        expect.objectContaining({ profile: "ci" }),
+      );
+    });
+
     it("should pass --token option", async () => {
       const sources: SourceEntry[] = [{ source: "owner/repo" }];
       vi.mocked(ConfigResolver.resolve).mockResolvedValue(createMockConfig(sources));
       vi.mocked(resolveAndFetchSources).mockResolvedValue({
         fetchedSkillCount: 0,
+        fetchedItemCounts: {},
         sourcesProcessed: 1,
       });
 
@@ -1,12 +1,19 @@
 import { ConfigResolver } from "../../config/config-resolver.js";
+import { SOURCE_FEATURE_DEFINITIONS, SOURCE_FEATURES } from "../../lib/source-features.js";
 import { resolveAndFetchSources } from "../../lib/sources.js";
 import { logger } from "../../utils/logger.js";
 
 export type InstallCommandOptions = {
-  update?: boolean;
+  /** `true` to update all sources, or the keys of the sources to update. */
+  update?: boolean | string[];
   frozen?: boolean;
+  /** Restore curated skills that were modified since they were installed. */
+  repair?: boolean;
+  /** Install from the source cache only, failing instead of touching the network. */
+  offline?: boolean;
   token?: string;
   configPath?: string;
+  profile?: string;
   verbose?: boolean;
   silent?: boolean;
 };
@@ -19,8 +26,11 @@ export async function installCommand(options: InstallCommandOptions): Promise<vo
 
   const config = await ConfigResolver.resolve({
     configPath: options.configPath,
+    profile: options.profile,
     verbose: options.verbose,
     silent: options.silent,
+    updatePresets: options.update === true,
+    frozenPresets: options.frozen,
   });
 
   const sources = config.getSources();
@@ -30,23 +40,32 @@ export async function installCommand(options: InstallCommandOptions): Promise<vo
     return;
   }
 
-  logger.debug(`Installing skills from ${sources.length} source(s)...`);
+  logger.debug(`Installing from ${sources.length} source(s)...`);
 
   const result = await resolveAndFetchSources({
     sources,
     baseDir: process.cwd(),
     options: {
-      updateSources: options.update,
+      updateSources: options.update === true,
+      updateSourceKeys: Array.isArray(options.update) ? options.update : undefined,
       frozen: options.frozen,
+      repair: options.repair,
+      offline: options.offline,
       token: options.token,
+      allowedSigners: config.getAllowedSigners(),
     },
   });
 
-  if (result.fetchedSkillCount > 0) {
-    logger.success(
-      `Installed ${result.fetchedSkillCount} skill(s) from ${result.sourcesProcessed} source(s).`,
-    );
+  const installed = [
+    ...(result.fetchedSkillCount > 0 ? [`${result.fetchedSkillCount} skill(s)`] : []),
+    ...SOURCE_FEATURES.flatMap((feature) => {
+      const count = result.fetchedItemCounts[feature] ?? 0;
+      return count > 0 ? [`${count} ${SOURCE_FEATURE_DEFINITIONS[feature].label}(s)`] : [];
+    }),
+  ];
+  if (installed.length > 0) {
+    logger.success(`Installed ${installed.join(", ")} from ${result.sourcesProcessed} source(s).`);
   } else {
-    logger.success(`All skills up to date (${result.sourcesProcessed} source(s) checked).`);
+    logger.success(`All sources up to date (${result.sourcesProcessed} source(s) checked).`);
   }
 }
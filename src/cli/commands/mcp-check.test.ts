@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { RulesyncMcp } from "../../features/mcp/rulesync-mcp.js";
+import { checkMcpServers, formatMcpServerChecks } from "../../lib/mcp-check.js";
+import { logger } from "../../utils/logger.js";
+import { mcpCheckCommand } from "./mcp-check.js";
+
+vi.mock("../../features/mcp/rulesync-mcp.js");
+vi.mock("../../lib/mcp-check.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../lib/mcp-check.js")>()),
+  checkMcpServers: vi.fn(),
+  formatMcpServerChecks: vi.fn(),
+}));
+vi.mock("../../utils/logger.js");
+
+function createMockRulesyncMcp(mcpServers: Record<string, object>): RulesyncMcp {
+  return {
+    getMcpServers: () => mcpServers,
+  } as unknown as RulesyncMcp;
+}
+
+describe("mcpCheckCommand", () => {
+  const mcpServers = {
+    github: { type: "stdio", command: "npx" },
+    docs: { type: "http", url: "https://example.com/mcp" },
+  };
+
+  beforeEach(() => {
+    vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("Process exit");
+    }) as any);
+    vi.mocked(RulesyncMcp.fromFileWithCurated).mockResolvedValue(createMockRulesyncMcp(mcpServers));
+    vi.mocked(formatMcpServerChecks).mockReturnValue("table");
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it("should check every server and print the table", async () => {
+    vi.mocked(checkMcpServers).mockResolvedValue([
+      { serverName: "github", transport: "stdio", status: "ok", tools: [] },
+      { serverName: "docs", transport: "http", status: "disabled" },
+    ]);
+
+    await mcpCheckCommand({ version: "1.0.0" });
+
+    expect(checkMcpServers).toHaveBeenCalledWith({
+      mcpServers,
+      timeoutMs: 10_000,
+      version: "1.0.0",
+    });
+    expect(logger.print).toHaveBeenCalledWith("table");
+    expect(logger.success).toHaveBeenCalledWith("All MCP servers are reachable.");
+    expect(process.exit).not.toHaveBeenCalled();
+  });
+
+  it("should check only the given servers with the given timeout", async () => {
+    vi.mocked(checkMcpServers).mockResolvedValue([]);
+
+    await mcpCheckCommand({ servers: ["docs"], timeout: "500", version: "1.0.0" });
+
+    expect(checkMcpServers).toHaveBeenCalledWith({
+      mcpServers: { docs: mcpServers.docs },
+      timeoutMs: 500,
+      version: "1.0.0",
+    });
+  });
+
+  it("should output JSON and exit with an error when a server failed", async () => {
+    const results = [
+      { serverName: "github", status: "failed" as const, error: "spawn npx ENOENT" },
+    ];
+    vi.mocked(checkMcpServers).mockResolvedValue(results);
+
+    await expect(mcpCheckCommand({ json: true, version: "1.0.0" })).rejects.toThrow("Process exit");
+
+    expect(logger.configure).toHaveBeenCalledWith({ verbose: false, silent: false, stderr: true });
+    expect(logger.print).toHaveBeenCalledWith(JSON.stringify(results, null, 2));
+    expect(formatMcpServerChecks).not.toHaveBeenCalled();
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+
+  it("should exit with an error when a server lists unknown tools", async () => {
+    vi.mocked(checkMcpServers).mockResolvedValue([
+      { serverName: "github", status: "invalid", tools: [], error: "unknown" },
+    ]);
+
+    await expect(mcpCheckCommand({ version: "1.0.0" })).rejects.toThrow("Process exit");
+
+    expect(logger.success).not.toHaveBeenCalled();
+  });
+
+  it("should reject unknown server names and invalid timeouts", async () => {
+    await expect(mcpCheckCommand({ servers: ["missing"], version: "1.0.0" })).rejects.toThrow(
+      "Unknown MCP server(s): missing. Servers in .rulesync/mcp.json: github, docs.",
+    );
+    await expect(mcpCheckCommand({ timeout: "soon", version: "1.0.0" })).rejects.toThrow(
+      'Invalid --timeout "soon"',
+    );
+    expect(checkMcpServers).not.toHaveBeenCalled();
+  });
+
+  it("should warn when there is no MCP file", async () => {
+    vi.mocked(RulesyncMcp.fromFileWithCurated).mockResolvedValue(null);
+
+    await mcpCheckCommand({ version: "1.0.0" });
+
+    expect(logger.warn).toHaveBeenCalledWith("No .rulesync/mcp.json found. Nothing to check.");
+    expect(checkMcpServers).not.toHaveBeenCalled();
+  });
+});
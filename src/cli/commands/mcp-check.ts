@@ -0,0 +1,80 @@
+import { RULESYNC_MCP_RELATIVE_FILE_PATH } from "../../constants/rulesync-paths.js";
+import { RulesyncMcp } from "../../features/mcp/rulesync-mcp.js";
+import {
+  DEFAULT_MCP_CHECK_TIMEOUT_MS,
+  checkMcpServers,
+  formatMcpServerChecks,
+} from "../../lib/mcp-check.js";
+import { logger } from "../../utils/logger.js";
+
+export type McpCheckCommandOptions = {
+  /** Names of the servers to check. Defaults to every server. */
+  servers?: string[];
+  /** Milliseconds a server has to answer each request. */
+  timeout?: string;
+  json?: boolean;
+  version: string;
+  verbose?: boolean;
+  silent?: boolean;
+};
+
+/**
+ * Start or reach each server of `.rulesync/mcp.json` and report whether it answers and which
+ * tools it has. Exits with a non-zero code when a server failed or its config names unknown tools.
+ */
+export async function mcpCheckCommand(options: McpCheckCommandOptions): Promise<void> {
+  // Keep stdout for the JSON report, so that it can be parsed
+  logger.configure({
+    verbose: options.verbose ?? false,
+    silent: options.silent ?? false,
+    stderr: options.json ?? false,
+  });
+
+  const timeoutMs =
+    options.timeout === undefined ? DEFAULT_MCP_CHECK_TIMEOUT_MS : Number(options.timeout);
+  if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+    throw new Error(`Invalid --timeout "${options.timeout}": expected a number of milliseconds.`);
+  }
+
+  const rulesyncMcp = await RulesyncMcp.fromFileWithCurated({});
+  if (!rulesyncMcp) {
+    logger.warn(`No ${RULESYNC_MCP_RELATIVE_FILE_PATH} found. Nothing to check.`);
+    return;
+  }
+
+  const allServers = rulesyncMcp.getMcpServers();
+  const serverNames = options.servers?.length ? options.servers : Object.keys(allServers);
+  const unknownNames = serverNames.filter((name) => !(name in allServers));
+  if (unknownNames.length > 0) {
+    throw new Error(
+      `Unknown MCP server(s): ${unknownNames.join(", ")}. Servers in ${RULESYNC_MCP_RELATIVE_FILE_PATH}: ${Object.keys(allServers).join(", ") || "(none)"}.`,
+    );
+  }
+  if (serverNames.length === 0) {
+    logger.warn(`No MCP servers defined in ${RULESYNC_MCP_RELATIVE_FILE_PATH}. Nothing to check.`);
+    return;
+  }
+
+  logger.debug(`Checking MCP servers: ${serverNames.join(", ")}`);
+  const results = await checkMcpServers({
+    mcpServers: Object.fromEntries(serverNames.map((name) => [name, allServers[name] ?? {}])),
+    timeoutMs,
+    version: options.version,
+  });
+  const failed = results.some(
+    (result) => result.status === "failed" || result.status === "invalid",
+  );
+
+  if (options.json) {
+    logger.print(JSON.stringify(results, null, 2));
+  } else {
+    logger.print(formatMcpServerChecks(results));
+    if (!failed) {
+      logger.success("All MCP servers are reachable.");
+    }
+  }
+
+  if (failed) {
+    process.exit(1);
+  }
+}
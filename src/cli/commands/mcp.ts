@@ -1,5 +1,6 @@
 import { FastMCP } from "fastmcp";
 
+import { McpProxy, loadExposedMcpServers } from "../../mcp/proxy.js";
 import { rulesyncTool } from "../../mcp/tools.js";
 import { logger } from "../../utils/logger.js";
 
@@ -17,6 +18,21 @@ export async function mcpCommand({ version }: { version: string }): Promise<void
 
   server.addTool(rulesyncTool);
 
+  // Re-export the servers marked `exposed: true`, for tools that only take one MCP server
+  const proxy = await McpProxy.connect({ mcpServers: await loadExposedMcpServers(), version });
+  await proxy.addTo(server);
+  if (proxy.getServerNames().length > 0) {
+    logger.info(`Proxying MCP servers: ${proxy.getServerNames().join(", ")}`);
+  }
+
+  // Stop the proxied servers this process spawned when the client disconnects or stops it
+  const shutdown = () => {
+    void proxy.close().finally(() => process.exit(0));
+  };
+  process.stdin.once("end", shutdown);
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+
   // Start server with stdio transport (for spawned processes)
   logger.info("Rulesync MCP server started via stdio");
 
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { ConfigResolver } from "../../config/config-resolver.js";
+import type { SourceEntry } from "../../config/config.js";
+import { Config } from "../../config/config.js";
+import { checkOutdatedSources, formatOutdatedSources } from "../../lib/outdated.js";
+import { logger } from "../../utils/logger.js";
+import { outdatedCommand } from "./outdated.js";
+
+vi.mock("../../config/config-resolver.js");
+vi.mock("../../lib/outdated.js");
+vi.mock("../../utils/logger.js");
+
+function createMockConfig(sources: SourceEntry[]): Config {
+  return {
+    getSources: () => sources,
+  } as unknown as Config;
+}
+
+describe("outdatedCommand", () => {
+  const sources: SourceEntry[] = [{ source: "owner/repo" }, { source: "owner/other" }];
+
+  beforeEach(() => {
+    vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("Process exit");
+    }) as any);
+    vi.mocked(ConfigResolver.resolve).mockResolvedValue(createMockConfig(sources));
+    vi.mocked(formatOutdatedSources).mockReturnValue("table");
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it("should print the table and suggest updating outdated sources", async () => {
+    vi.mocked(checkOutdatedSources).mockResolvedValue([
+      { source: "owner/repo", lockedRef: "a", latestRef: "b", status: "outdated" },
+      { source: "owner/other", lockedRef: "c", latestRef: "c", status: "up-to-date" },
+    ]);
+
+    await outdatedCommand({ token: "my-token" });
+
+    expect(checkOutdatedSources).toHaveBeenCalledWith({
+      sources,
+      baseDir: process.cwd(),
+      token: "my-token",
+    });
+    expect(logger.print).toHaveBeenCalledWith("table");
+    expect(logger.info).toHaveBeenCalledWith(
+      "1 source(s) can be updated. Run 'rulesync install --update owner/repo' to update them.",
+    );
+    expect(process.exit).not.toHaveBeenCalled();
+  });
+
+  it("should report when all sources are up to date", async () => {
+    vi.mocked(checkOutdatedSources).mockResolvedValue([
+      { source: "owner/repo", lockedRef: "a", latestRef: "a", status: "up-to-date" },
+    ]);
+
+    await outdatedCommand({});
+
+    expect(logger.success).toHaveBeenCalledWith("All sources are up to date.");
+  });
+
+  it("should output JSON and exit with an error when a source could not be checked", async () => {
+    const results = [{ source: "owner/repo", status: "error" as const, error: "Not Found" }];
+    vi.mocked(checkOutdatedSources).mockResolvedValue(results);
+
+    await expect(outdatedCommand({ json: true })).rejects.toThrow("Process exit");
+
+    expect(logger.configure).toHaveBeenCalledWith({ verbose: false, silent: false, stderr: true });
+    expect(logger.print).toHaveBeenCalledWith(JSON.stringify(results, null, 2));
+    expect(formatOutdatedSources).not.toHaveBeenCalled();
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+
+  it("should warn when no sources are defined", async () => {
+    vi.mocked(ConfigResolver.resolve).mockResolvedValue(createMockConfig([]));
+
+    await outdatedCommand({});
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      "No sources defined in configuration. Nothing to check.",
+    );
+    expect(checkOutdatedSources).not.toHaveBeenCalled();
+  });
+});
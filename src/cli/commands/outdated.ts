@@ -0,0 +1,68 @@
+import { ConfigResolver } from "../../config/config-resolver.js";
+import { checkOutdatedSources, formatOutdatedSources } from "../../lib/outdated.js";
+import { logger } from "../../utils/logger.js";
+
+export type OutdatedCommandOptions = {
+  json?: boolean;
+  token?: string;
+  configPath?: string;
+  profile?: string;
+  verbose?: boolean;
+  silent?: boolean;
+};
+
+/**
+ * Show which declared sources have moved on since they were locked.
+ * Exits with a non-zero code when a source could not be checked.
+ */
+export async function outdatedCommand(options: OutdatedCommandOptions): Promise<void> {
+  // Keep stdout for the JSON report, so that it can be parsed
+  logger.configure({
+    verbose: options.verbose ?? false,
+    silent: options.silent ?? false,
+    stderr: options.json ?? false,
+  });
+
+  const config = await ConfigResolver.resolve({
+    configPath: options.configPath,
+    profile: options.profile,
+    verbose: options.verbose,
+    silent: options.silent,
+    readOnly: true,
+  });
+
+  const sources = config.getSources();
+
+  if (sources.length === 0) {
+    logger.warn("No sources defined in configuration. Nothing to check.");
+    return;
+  }
+
+  const results = await checkOutdatedSources({
+    sources,
+    baseDir: process.cwd(),
+    token: options.token,
+  });
+  const failed = results.some((result) => result.status === "error");
+
+  if (options.json) {
+    logger.print(JSON.stringify(results, null, 2));
+  } else {
+    logger.print(formatOutdatedSources(results));
+
+    const updatable = results.filter(
+      (result) => result.status === "outdated" || result.status === "not-installed",
+    );
+    if (updatable.length > 0) {
+      logger.info(
+        `${updatable.length} source(s) can be updated. Run 'rulesync install --update ${updatable.map((result) => result.source).join(" ")}' to update them.`,
+      );
+    } else if (!failed) {
+      logger.success("All sources are up to date.");
+    }
+  }
+
+  if (failed) {
+    process.exit(1);
+  }
+}
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { ConfigResolver } from "../../config/config-resolver.js";
+import { checkRulesyncDirExists } from "../../lib/generate.js";
+import { validate, type ValidateResult } from "../../lib/validate.js";
+import { logger } from "../../utils/logger.js";
+import { validateCommand } from "./validate.js";
+
+vi.mock("../../config/config-resolver.js");
+vi.mock("../../lib/generate.js");
+vi.mock("../../lib/validate.js");
+vi.mock("../../utils/logger.js");
+
+function createValidateResult(issues: ValidateResult["issues"]): ValidateResult {
+  return {
+    files: [".rulesync/rules/overview.md"],
+    issues,
+    errorCount: issues.filter((issue) => issue.severity === "error").length,
+    warningCount: issues.filter((issue) => issue.severity === "warning").length,
+  };
+}
+
+describe("validateCommand", () => {
+  let mockConfig: any;
+
+  beforeEach(() => {
+    vi.spyOn(process, "cwd").mockReturnValue("/test/project");
+    vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("Process exit");
+    }) as any);
+
+    mockConfig = {
+      getVerbose: vi.fn().mockReturnValue(false),
+      getSilent: vi.fn().mockReturnValue(false),
+    };
+    vi.mocked(ConfigResolver.resolve).mockResolvedValue(mockConfig);
+    vi.mocked(checkRulesyncDirExists).mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it("should report success when there are no issues", async () => {
+    vi.mocked(validate).mockResolvedValue(createValidateResult([]));
+
+    await validateCommand({});
+
+    expect(validate).toHaveBeenCalledWith({ config: mockConfig });
+    expect(logger.success).toHaveBeenCalledWith("✓ 1 file(s) checked: 0 error(s), 0 warning(s)");
+    expect(process.exit).not.toHaveBeenCalled();
+  });
+
+  it("should pass config options without the json flag to the resolver", async () => {
+    vi.mocked(validate).mockResolvedValue(createValidateResult([]));
+
+    await validateCommand({ targets: ["claudecode"], json: true });
+
+    expect(ConfigResolver.resolve).toHaveBeenCalledWith({
+      targets: ["claudecode"],
+      readOnly: true,
+    });
+  });
+
+  it("should log each issue with its location and exit with 1 on errors", async () => {
+    vi.mocked(validate).mockResolvedValue(
+      createValidateResult([
+        {
+          severity: "error",
+          rule: "unknown-target",
+          file: ".rulesync/rules/a.md",
+          line: 3,
+          column: 5,
+          message: 'Unknown target "foo" in targets',
+        },
+        {
+          severity: "warning",
+          rule: "unmatched-glob",
+          file: ".rulesync/rules/b.md",
+          message: 'Glob "lib/**" does not match any file',
+        },
+      ]),
+    );
+
+    await expect(validateCommand({})).rejects.toThrow("Process exit");
+
+    expect(logger.error).toHaveBeenCalledWith(
+      '.rulesync/rules/a.md:3:5 Unknown target "foo" in targets (unknown-target)',
+    );
+    expect(logger.warn).toHaveBeenCalledWith(
+      '.rulesync/rules/b.md Glob "lib/**" does not match any file (unmatched-glob)',
+    );
+    expect(logger.error).toHaveBeenCalledWith("❌ 1 file(s) checked: 1 error(s), 1 warning(s)");
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+
+  it("should not fail on warnings alone", async () => {
+    vi.mocked(validate).mockResolvedValue(
+      createValidateResult([
+        {
+          severity: "warning",
+          rule: "unmatched-glob",
+          file: ".rulesync/rules/b.md",
+          message: 'Glob "lib/**" does not match any file',
+        },
+      ]),
+    );
+
+    await validateCommand({});
+
+    expect(logger.warn).toHaveBeenCalledWith("1 file(s) checked: 0 error(s), 1 warning(s)");
+    expect(process.exit).not.toHaveBeenCalled();
+  });
+
+  it("should print the result as JSON in json mode", async () => {
+    const issue = {
+      severity: "error" as const,
+      rule: "schema" as const,
+      file: ".rulesync/rules/a.md",
+      line: 2,
+      column: 1,
+      message: "description: Invalid input",
+    };
+    vi.mocked(validate).mockResolvedValue(createValidateResult([issue]));
+
+    await expect(validateCommand({ json: true })).rejects.toThrow("Process exit");
+
+    expect(logger.print).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(vi.mocked(logger.print).mock.calls[0]![0])).toEqual({
+      valid: false,
+      errorCount: 1,
+      warningCount: 0,
+      files: [".rulesync/rules/overview.md"],
+      issues: [issue],
+    });
+    expect(logger.error).not.toHaveBeenCalled();
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+
+  it("should send logs to stderr in json mode, even when verbose", async () => {
+    mockConfig.getVerbose.mockReturnValue(true);
+    vi.mocked(validate).mockResolvedValue(createValidateResult([]));
+
+    await validateCommand({ json: true });
+
+    expect(logger.configure).toHaveBeenCalledWith({ verbose: true, silent: false, stderr: true });
+  });
+
+  it("should exit with error when .rulesync directory does not exist", async () => {
+    vi.mocked(checkRulesyncDirExists).mockResolvedValue(false);
+
+    await expect(validateCommand({})).rejects.toThrow("Process exit");
+
+    expect(logger.error).toHaveBeenCalledWith(
+      "❌ .rulesync directory not found. Run 'rulesync init' first.",
+    );
+    expect(validate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,78 @@
+import { ConfigResolver, type ConfigResolverResolveParams } from "../../config/config-resolver.js";
+import { checkRulesyncDirExists } from "../../lib/generate.js";
+import { validate, type ValidationIssue } from "../../lib/validate.js";
+import { logger } from "../../utils/logger.js";
+
+export type ValidateOptions = Pick<
+  ConfigResolverResolveParams,
+  "targets" | "features" | "verbose" | "silent" | "configPath" | "global" | "profile"
+> & {
+  json?: boolean;
+};
+
+function formatIssue(issue: ValidationIssue): string {
+  const location = issue.line
+    ? `${issue.file}:${issue.line}${issue.column ? `:${issue.column}` : ""}`
+    : issue.file;
+  return `${location} ${issue.message} (${issue.rule})`;
+}
+
+/**
+ * Validate every file in `.rulesync/` and report schema errors and semantic problems.
+ * Exits with a non-zero code when any error is found; warnings alone do not fail.
+ */
+export async function validateCommand(options: ValidateOptions): Promise<void> {
+  const { json = false, ...configOptions } = options;
+  const config = await ConfigResolver.resolve({ ...configOptions, readOnly: true });
+
+  // Keep stdout for the JSON report, so that it can be parsed
+  logger.configure({
+    verbose: config.getVerbose(),
+    silent: config.getSilent(),
+    stderr: json,
+  });
+
+  if (!(await checkRulesyncDirExists({ baseDir: process.cwd() }))) {
+    logger.error("❌ .rulesync directory not found. Run 'rulesync init' first.");
+    process.exit(1);
+  }
+
+  const result = await validate({ config });
+
+  if (json) {
+    logger.print(
+      JSON.stringify(
+        {
+          valid: result.errorCount === 0,
+          errorCount: result.errorCount,
+          warningCount: result.warningCount,
+          files: result.files,
+          issues: result.issues,
+        },
+        null,
+        2,
+      ),
+    );
+  } else {
+    for (const issue of result.issues) {
+      if (issue.severity === "error") {
+        logger.error(formatIssue(issue));
+      } else {
+        logger.warn(formatIssue(issue));
+      }
+    }
+
+    const summary = `${result.files.length} file(s) checked: ${result.errorCount} error(s), ${result.warningCount} warning(s)`;
+    if (result.errorCount > 0) {
+      logger.error(`❌ ${summary}`);
+    } else if (result.warningCount > 0) {
+      logger.warn(summary);
+    } else {
+      logger.success(`✓ ${summary}`);
+    }
+  }
+
+  if (result.errorCount > 0) {
+    process.exit(1);
+  }
+}
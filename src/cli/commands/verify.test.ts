@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { formatCuratedSkillIssue, verifyCuratedSkills } from "../../lib/verify.js";
+import { logger } from "../../utils/logger.js";
+import { verifyCommand } from "./verify.js";
+
+vi.mock("../../lib/verify.js");
+vi.mock("../../utils/logger.js");
+
+describe("verifyCommand", () => {
+  beforeEach(() => {
+    vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("Process exit");
+    }) as any);
+    vi.mocked(formatCuratedSkillIssue).mockImplementation(
+      (issue) => `${issue.skill} ${issue.status}`,
+    );
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it("should report success when all curated skills match", async () => {
+    vi.mocked(verifyCuratedSkills).mockResolvedValue({ checkedCount: 2, issues: [] });
+
+    await verifyCommand({});
+
+    expect(verifyCuratedSkills).toHaveBeenCalledWith({ baseDir: process.cwd() });
+    expect(logger.success).toHaveBeenCalledWith("Verified 2 curated skill(s).");
+    expect(process.exit).not.toHaveBeenCalled();
+  });
+
+  it("should report when there is nothing to verify", async () => {
+    vi.mocked(verifyCuratedSkills).mockResolvedValue({ checkedCount: 0, issues: [] });
+
+    await verifyCommand({});
+
+    expect(logger.info).toHaveBeenCalledWith(
+      "No curated skills with integrity hashes in rulesync.lock. Nothing to verify.",
+    );
+  });
+
+  it("should list issues and exit with an error", async () => {
+    vi.mocked(verifyCuratedSkills).mockResolvedValue({
+      checkedCount: 2,
+      issues: [
+        { source: "org/repo", skill: "a", status: "modified", expected: "x", actual: "y" },
+        { source: "org/repo", skill: "b", status: "missing", expected: "z" },
+      ],
+    });
+
+    await expect(verifyCommand({})).rejects.toThrow("Process exit");
+
+    expect(logger.error).toHaveBeenCalledWith("a modified");
+    expect(logger.error).toHaveBeenCalledWith("b missing");
+    expect(logger.info).toHaveBeenCalledWith(
+      "2 of 2 curated skill(s) do not match rulesync.lock. Run 'rulesync install --repair' to restore them.",
+    );
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+});
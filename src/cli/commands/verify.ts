@@ -0,0 +1,38 @@
+import { formatCuratedSkillIssue, verifyCuratedSkills } from "../../lib/verify.js";
+import { logger } from "../../utils/logger.js";
+
+export type VerifyCommandOptions = {
+  verbose?: boolean;
+  silent?: boolean;
+};
+
+/**
+ * Check that the curated skills on disk match the integrity hashes in the lockfile.
+ * Exits with a non-zero code when a skill is missing or was modified.
+ */
+export async function verifyCommand(options: VerifyCommandOptions): Promise<void> {
+  logger.configure({
+    verbose: options.verbose ?? false,
+    silent: options.silent ?? false,
+  });
+
+  const { checkedCount, issues } = await verifyCuratedSkills({ baseDir: process.cwd() });
+
+  if (checkedCount === 0) {
+    logger.info("No curated skills with integrity hashes in rulesync.lock. Nothing to verify.");
+    return;
+  }
+
+  if (issues.length === 0) {
+    logger.success(`Verified ${checkedCount} curated skill(s).`);
+    return;
+  }
+
+  for (const issue of issues) {
+    logger.error(formatCuratedSkillIssue(issue));
+  }
+  logger.info(
+    `${issues.length} of ${checkedCount} curated skill(s) do not match rulesync.lock. Run 'rulesync install --repair' to restore them.`,
+  );
+  process.exit(1);
+}
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { ConfigResolver } from "../../config/config-resolver.js";
+import { checkRulesyncDirExists, generate, type GenerateResult } from "../../lib/generate.js";
+import { watchRulesyncSources } from "../../lib/watch.js";
+import { ALL_FEATURES } from "../../types/features.js";
+import { logger } from "../../utils/logger.js";
+import { watchCommand } from "./watch.js";
+
+vi.mock("../../config/config-resolver.js");
+vi.mock("../../lib/generate.js");
+vi.mock("../../lib/watch.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../../lib/watch.js")>();
+  return {
+    ...actual,
+    watchRulesyncSources: vi.fn(),
+  };
+});
+vi.mock("../../utils/logger.js");
+
+function createGenerateResult(overrides: Partial<GenerateResult> = {}): GenerateResult {
+  return {
+    rulesCount: 0,
+    rulesPaths: [],
+    ignoreCount: 0,
+    ignorePaths: [],
+    mcpCount: 0,
+    mcpPaths: [],
+    commandsCount: 0,
+    commandsPaths: [],
+    subagentsCount: 0,
+    subagentsPaths: [],
+    skillsCount: 0,
+    skillsPaths: [],
+    hooksCount: 0,
+    hooksPaths: [],
+    skills: [],
+    hasDiff: false,
+    diff: "",
+    deletedPaths: [],
+    ...overrides,
+  };
+}
+
+async function stop({ done }: { done: Promise<void> }): Promise<void> {
+  process.emit("SIGINT");
+  await done;
+}
+
+describe("watchCommand", () => {
+  let mockConfig: any;
+  let stopWatching: ReturnType<typeof vi.fn<() => void>>;
+  let onChange: ((changedPaths: string[]) => void) | undefined;
+
+  beforeEach(() => {
+    vi.spyOn(process, "cwd").mockReturnValue("/test/project");
+    vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("Process exit");
+    }) as any);
+
+    mockConfig = {
+      getVerbose: vi.fn().mockReturnValue(false),
+      getSilent: vi.fn().mockReturnValue(false),
+      getTargets: vi.fn().mockReturnValue(["claudecode", "cursor"]),
+      getFeatures: vi.fn((target: string) =>
+        target === "claudecode" ? ["rules", "skills"] : ["mcp"],
+      ),
+    };
+    vi.mocked(ConfigResolver.resolve).mockResolvedValue(mockConfig);
+    vi.mocked(checkRulesyncDirExists).mockResolvedValue(true);
+    vi.mocked(generate).mockResolvedValue(createGenerateResult());
+
+    stopWatching = vi.fn<() => void>();
+    onChange = undefined;
+    vi.mocked(watchRulesyncSources).mockImplementation(async (params) => {
+      onChange = params.onChange;
+      return stopWatching;
+    });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  // Wrapped in an object so that awaiting the start does not wait for the command to finish
+  async function startWatching(): Promise<{ done: Promise<void> }> {
+    const done = watchCommand({ configPath: "rulesync.jsonc" });
+    await vi.waitFor(() => expect(onChange).toBeDefined());
+    return { done };
+  }
+
+  it("should generate all features initially and stop watching on SIGINT", async () => {
+    const watching = await startWatching();
+
+    expect(generate).toHaveBeenCalledWith({
+      config: mockConfig,
+      features: [...ALL_FEATURES],
+      skills: [],
+    });
+    expect(watchRulesyncSources).toHaveBeenCalledWith(
+      expect.objectContaining({ baseDir: "/test/project", configPath: "rulesync.jsonc" }),
+    );
+
+    await stop(watching);
+
+    expect(stopWatching).toHaveBeenCalled();
+  });
+
+  it("should regenerate only the affected features and print a summary", async () => {
+    const watching = await startWatching();
+    vi.mocked(generate).mockResolvedValue(
+      createGenerateResult({ rulesPaths: ["CLAUDE.md"], deletedPaths: [".claude/rules/old.md"] }),
+    );
+
+    onChange?.([".rulesync/rules/overview.md"]);
+    await vi.waitFor(() => expect(generate).toHaveBeenCalledTimes(2));
+    await stop(watching);
+
+    expect(generate).toHaveBeenLastCalledWith({
+      config: mockConfig,
+      features: ["rules"],
+      skills: [],
+    });
+    expect(logger.info).toHaveBeenCalledWith(
+      "Changed: .rulesync/rules/overview.md. Regenerating rules for claudecode...",
+    );
+    expect(logger.success).toHaveBeenCalledWith("Written 1 file(s), deleted 1 file(s)");
+    expect(logger.info).toHaveBeenCalledWith("    + CLAUDE.md");
+    expect(logger.info).toHaveBeenCalledWith("    - .claude/rules/old.md");
+  });
+
+  it("should reuse skills from the previous cycle when only rules are regenerated", async () => {
+    const skill = { name: "skill" };
+    vi.mocked(generate).mockResolvedValueOnce(createGenerateResult({ skills: [skill as never] }));
+    const watching = await startWatching();
+
+    onChange?.([".rulesync/rules/overview.md"]);
+    await vi.waitFor(() => expect(generate).toHaveBeenCalledTimes(2));
+    await stop(watching);
+
+    expect(generate).toHaveBeenLastCalledWith(expect.objectContaining({ skills: [skill] }));
+  });
+
+  it("should skip changes that no target generates", async () => {
+    const watching = await startWatching();
+
+    onChange?.([".rulesync/hooks.json"]);
+    await stop(watching);
+
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reload config when config files change", async () => {
+    const watching = await startWatching();
+
+    onChange?.(["rulesync.jsonc"]);
+    await vi.waitFor(() => expect(generate).toHaveBeenCalledTimes(2));
+    await stop(watching);
+
+    expect(ConfigResolver.resolve).toHaveBeenCalledTimes(2);
+  });
+
+  it("should keep watching when a cycle fails", async () => {
+    const watching = await startWatching();
+    vi.mocked(generate).mockRejectedValueOnce(new Error("boom"));
+
+    onChange?.([".rulesync/mcp.json"]);
+    await vi.waitFor(() =>
+      expect(logger.error).toHaveBeenCalledWith("Failed to regenerate: Error: boom"),
+    );
+    onChange?.([".rulesync/mcp.json"]);
+    await vi.waitFor(() => expect(generate).toHaveBeenCalledTimes(3));
+    await stop(watching);
+  });
+
+  it("should exit when .rulesync directory does not exist", async () => {
+    vi.mocked(checkRulesyncDirExists).mockResolvedValue(false);
+
+    await expect(watchCommand({})).rejects.toThrow("Process exit");
+
+    expect(generate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,127 @@
+import { ConfigResolver, type ConfigResolverResolveParams } from "../../config/config-resolver.js";
+import { RulesyncSkill } from "../../features/skills/rulesync-skill.js";
+import { checkRulesyncDirExists, generate, type GenerateResult } from "../../lib/generate.js";
+import { getWatchChangeScope, watchRulesyncSources } from "../../lib/watch.js";
+import type { Feature } from "../../types/features.js";
+import { ALL_FEATURES } from "../../types/features.js";
+import { formatError } from "../../utils/error.js";
+import { logger } from "../../utils/logger.js";
+
+export type WatchOptions = Omit<ConfigResolverResolveParams, "dryRun" | "check">;
+
+/**
+ * Log the paths written and deleted in one generation cycle.
+ */
+function logCycleSummary(result: GenerateResult): void {
+  const writtenPaths = [
+    ...result.ignorePaths,
+    ...result.mcpPaths,
+    ...result.commandsPaths,
+    ...result.subagentsPaths,
+    ...result.skillsPaths,
+    ...result.hooksPaths,
+    ...result.rulesPaths,
+  ];
+
+  if (writtenPaths.length === 0 && result.deletedPaths.length === 0) {
+    logger.info("✓ All files are up to date");
+    return;
+  }
+
+  logger.success(
+    `Written ${writtenPaths.length} file(s), deleted ${result.deletedPaths.length} file(s)`,
+  );
+  for (const path of writtenPaths) {
+    logger.info(`    + ${path}`);
+  }
+  for (const path of result.deletedPaths) {
+    logger.info(`    - ${path}`);
+  }
+}
+
+/**
+ * Watch `.rulesync/` and the configuration files, and regenerate the affected features on change.
+ * Resolves when the process receives SIGINT.
+ */
+export async function watchCommand(options: WatchOptions): Promise<void> {
+  let config = await ConfigResolver.resolve(options);
+
+  logger.configure({
+    verbose: config.getVerbose(),
+    silent: config.getSilent(),
+  });
+
+  if (!(await checkRulesyncDirExists({ baseDir: process.cwd() }))) {
+    logger.error("❌ .rulesync directory not found. Run 'rulesync init' first.");
+    process.exit(1);
+  }
+
+  // Skills are kept between cycles so that rules can be regenerated without regenerating skills
+  let skills: RulesyncSkill[] = [];
+  const runGeneration = async (features: Feature[]): Promise<void> => {
+    const result = await generate({ config, features, skills });
+    if (features.includes("skills")) {
+      skills = result.skills;
+    }
+    logCycleSummary(result);
+  };
+
+  const handleChange = async (changedPaths: string[]): Promise<void> => {
+    const scope = getWatchChangeScope(changedPaths);
+    if (scope.features.length === 0) {
+      return;
+    }
+
+    if (scope.reloadConfig) {
+      config = await ConfigResolver.resolve(options);
+      logger.configure({
+        verbose: config.getVerbose(),
+        silent: config.getSilent(),
+      });
+    }
+
+    const targets = config
+      .getTargets()
+      .filter((target) =>
+        scope.features.some((feature) => config.getFeatures(target).includes(feature)),
+      );
+    if (targets.length === 0) {
+      logger.debug(`No target generates ${scope.features.join(", ")}. Skipping.`);
+      return;
+    }
+
+    logger.info(
+      `Changed: ${changedPaths.join(", ")}. Regenerating ${scope.features.join(", ")} for ${targets.join(", ")}...`,
+    );
+    await runGeneration(scope.features);
+  };
+
+  logger.info("Generating files...");
+  await runGeneration([...ALL_FEATURES]);
+
+  // Changes are handled one cycle at a time, in the order they were detected
+  let queue = Promise.resolve();
+  const stopWatching = await watchRulesyncSources({
+    baseDir: process.cwd(),
+    configPath: options.configPath,
+    onChange: (changedPaths) => {
+      queue = queue
+        .then(() => handleChange(changedPaths))
+        .catch((error) => {
+          logger.error(`Failed to regenerate: ${formatError(error)}`);
+        });
+    },
+  });
+
+  logger.info(
+    "Watching for changes in .rulesync/ and the configuration files. Press Ctrl+C to stop.",
+  );
+
+  await new Promise<void>((resolve) => {
+    process.once("SIGINT", () => {
+      stopWatching();
+      resolve();
+    });
+  });
+  await queue;
+}
@@ -6,14 +6,22 @@ import { ANNOUNCEMENT } from "../constants/announcements.js";
 import { ALL_FEATURES } from "../types/features.js";
 import { formatError } from "../utils/error.js";
 import { logger } from "../utils/logger.js";
+import { cachePruneCommand } from "./commands/cache.js";
+import { diffCommand } from "./commands/diff.js";
+import { explainCommand } from "./commands/explain.js";
 import { fetchCommand } from "./commands/fetch.js";
 import { generateCommand } from "./commands/generate.js";
 import { gitignoreCommand } from "./commands/gitignore.js";
 import { importCommand } from "./commands/import.js";
 import { initCommand } from "./commands/init.js";
 import { installCommand } from "./commands/install.js";
+import { mcpCheckCommand } from "./commands/mcp-check.js";
 import { mcpCommand } from "./commands/mcp.js";
+import { outdatedCommand } from "./commands/outdated.js";
 import { updateCommand } from "./commands/update.js";
+import { validateCommand } from "./commands/validate.js";
+import { verifyCommand } from "./commands/verify.js";
+import { watchCommand } from "./commands/watch.js";
 
 const getVersion = () => "7.15.0";
 
@@ -44,8 +52,8 @@ const main = async () => {
     .action(gitignoreCommand);
 
   program
-    .command("fetch <source>")
-    .description("Fetch files from a Git repository (GitHub/GitLab)")
+    .command("fetch [source]")
+    .description("Fetch files from a Git repository (GitHub, GitLab, Gitea, Bitbucket)")
     .option(
       "-t, --target <target>",
       "Target format to interpret files as (e.g., 'rulesync', 'claudecode'). Default: rulesync",
@@ -62,14 +70,19 @@ const main = async () => {
     .option("-o, --output <dir>", "Output directory (default: .rulesync)")
     .option(
       "-c, --conflict <strategy>",
-      "Conflict resolution strategy: skip, overwrite (default: overwrite)",
+      "Conflict resolution strategy: skip, overwrite, merge (default: overwrite)",
     )
     .option("--token <token>", "Git provider token for private repositories")
+    .option(
+      "--all",
+      'Fetch every source listed in "fetch" of rulesync.jsonc and remove files no longer upstream',
+    )
     .option("-V, --verbose", "Verbose output")
     .option("-s, --silent", "Suppress all output")
     .action(async (source, options) => {
       await fetchCommand({
         source,
+        all: options.all,
         target: options.target,
         features: options.features,
         ref: options.ref,
@@ -102,6 +115,7 @@ const main = async () => {
     .option("-V, --verbose", "Verbose output")
     .option("-s, --silent", "Suppress all output")
     .option("-g, --global", "Import for global(user scope) configuration files")
+    .option("--profile <name>", "Apply a profile defined in the configuration file")
     .action(async (options) => {
       try {
         await importCommand({
@@ -111,6 +125,7 @@ const main = async () => {
           silent: options.silent,
           configPath: options.config,
           global: options.global,
+          profile: options.profile,
         });
       } catch (error) {
         logger.error(formatError(error));
@@ -118,7 +133,7 @@ const main = async () => {
       }
     });
 
-  program
+  const mcp = program
     .command("mcp")
     .description("Start MCP server for rulesync")
     .action(async () => {
@@ -130,16 +145,54 @@ const main = async () => {
       }
     });
 
+  mcp
+    .command("check [servers...]")
+    .description(
+      "Start each server of .rulesync/mcp.json and report whether it answers and its tools",
+    )
+    .option(
+      "--timeout <ms>",
+      "Milliseconds each server has to answer the handshake and tool listing",
+      "10000",
+    )
+    .option("--json", "Output the result as JSON")
+    .option("-V, --verbose", "Verbose output")
+    .option("-s, --silent", "Suppress all output")
+    .action(async (servers: string[], options) => {
+      try {
+        await mcpCheckCommand({
+          servers,
+          timeout: options.timeout,
+          json: options.json,
+          version,
+          verbose: options.verbose,
+          silent: options.silent,
+        });
+      } catch (error) {
+        logger.error(formatError(error));
+        process.exit(1);
+      }
+    });
+
   program
     .command("install")
     .description("Install skills from declarative sources in rulesync.jsonc")
-    .option("--update", "Force re-resolve all source refs, ignoring lockfile")
+    .option(
+      "--update [sources...]",
+      "Re-resolve the refs of the given sources, or of all sources when none are given, ignoring lockfile",
+    )
     .option(
       "--frozen",
       "Fail if lockfile is missing or out of sync (for CI); fetches missing skills using locked refs",
     )
+    .option("--repair", "Restore curated skills that no longer match their lockfile integrity")
+    .option(
+      "--offline",
+      "Install locked refs from the source cache only; fail instead of fetching what is missing",
+    )
     .option("--token <token>", "GitHub token for private repos")
     .option("-c, --config <path>", "Path to configuration file")
+    .option("--profile <name>", "Apply a profile defined in the configuration file")
     .option("-V, --verbose", "Verbose output")
     .option("-s, --silent", "Suppress all output")
     .action(async (options) => {
@@ -147,8 +200,76 @@ const main = async () => {
         await installCommand({
           update: options.update,
           frozen: options.frozen,
+          repair: options.repair,
+          offline: options.offline,
+          token: options.token,
+          configPath: options.config,
+          profile: options.profile,
+          verbose: options.verbose,
+          silent: options.silent,
+        });
+      } catch (error) {
+        logger.error(formatError(error));
+        process.exit(1);
+      }
+    });
+
+  program
+    .command("outdated")
+    .description("Show declared sources whose refs have moved on since they were locked")
+    .option("--json", "Output the result as JSON")
+    .option("--token <token>", "GitHub token for private repos")
+    .option("-c, --config <path>", "Path to configuration file")
+    .option("--profile <name>", "Apply a profile defined in the configuration file")
+    .option("-V, --verbose", "Verbose output")
+    .option("-s, --silent", "Suppress all output")
+    .action(async (options) => {
+      try {
+        await outdatedCommand({
+          json: options.json,
           token: options.token,
           configPath: options.config,
+          profile: options.profile,
+          verbose: options.verbose,
+          silent: options.silent,
+        });
+      } catch (error) {
+        logger.error(formatError(error));
+        process.exit(1);
+      }
+    });
+
+  program
+    .command("verify")
+    .description("Check curated skills against the integrity hashes in rulesync.lock")
+    .option("-V, --verbose", "Verbose output")
+    .option("-s, --silent", "Suppress all output")
+    .action(async (options) => {
+      try {
+        await verifyCommand({
+          verbose: options.verbose,
+          silent: options.silent,
+        });
+      } catch (error) {
+        logger.error(formatError(error));
+        process.exit(1);
+      }
+    });
+
+  const cache = program
+    .command("cache")
+    .description("Manage the source cache shared by all projects");
+
+  cache
+    .command("prune")
+    .description("Remove cached source files that have not been used recently")
+    .option("--max-age <days>", "Remove entries unused for more than this many days", "30")
+    .option("-V, --verbose", "Verbose output")
+    .option("-s, --silent", "Suppress all output")
+    .action(async (options) => {
+      try {
+        await cachePruneCommand({
+          maxAge: options.maxAge,
           verbose: options.verbose,
           silent: options.silent,
         });
@@ -186,6 +307,7 @@ const main = async () => {
     .option("-V, --verbose", "Verbose output")
     .option("-s, --silent", "Suppress all output")
     .option("-c, --config <path>", "Path to configuration file")
+    .option("--profile <name>", "Apply a profile defined in the configuration file")
     .option("-g, --global", "Generate for global(user scope) configuration files")
     .option(
       "--simulate-commands",
@@ -201,6 +323,7 @@ const main = async () => {
     )
     .option("--dry-run", "Dry run: show changes without writing files")
     .option("--check", "Check if files are up to date (exits with code 1 if changes needed)")
+    .option("--report", "Report fields and features that are dropped or approximated per target")
     .action(async (options) => {
       try {
         await generateCommand({
@@ -217,6 +340,206 @@ const main = async () => {
           simulateSkills: options.simulateSkills,
           dryRun: options.dryRun,
           check: options.check,
+          profile: options.profile,
+          report: options.report,
+        });
+      } catch (error) {
+        logger.error(formatError(error));
+        process.exit(1);
+      }
+    });
+
+  program
+    .command("diff")
+    .description("Show a unified diff of the changes 'generate' would make, without writing files")
+    .option(
+      "-t, --targets <tools>",
+      "Comma-separated list of tools to diff (e.g., 'copilot,cursor,cline' or '*' for all)",
+      (value) => {
+        return value.split(",").map((t) => t.trim());
+      },
+    )
+    .option(
+      "-f, --features <features>",
+      `Comma-separated list of features to diff (${ALL_FEATURES.join(",")}) or '*' for all`,
+      (value) => {
+        return value.split(",").map((f) => f.trim());
+      },
+    )
+    .option("--delete", "Include deletions of orphan files in the diff")
+    .option(
+      "-b, --base-dir <paths>",
+      "Base directories to diff (comma-separated for multiple paths)",
+      (value) => {
+        return value.split(",").map((p) => p.trim());
+      },
+    )
+    .option("-V, --verbose", "Verbose output")
+    .option("-s, --silent", "Suppress all output")
+    .option("-c, --config <path>", "Path to configuration file")
+    .option("--profile <name>", "Apply a profile defined in the configuration file")
+    .option("-g, --global", "Diff global(user scope) configuration files")
+    .option("--simulate-commands", "Include simulated commands")
+    .option("--simulate-subagents", "Include simulated subagents")
+    .option("--simulate-skills", "Include simulated skills")
+    .action(async (options) => {
+      try {
+        await diffCommand({
+          targets: options.targets,
+          features: options.features,
+          verbose: options.verbose,
+          silent: options.silent,
+          delete: options.delete,
+          baseDirs: options.baseDir,
+          configPath: options.config,
+          global: options.global,
+          simulateCommands: options.simulateCommands,
+          simulateSubagents: options.simulateSubagents,
+          simulateSkills: options.simulateSkills,
+          profile: options.profile,
+        });
+      } catch (error) {
+        logger.error(formatError(error));
+        process.exit(1);
+      }
+    });
+
+  program
+    .command("explain")
+    .description(
+      "Explain which fields and features of .rulesync/ files are dropped or approximated per target",
+    )
+    .option(
+      "-t, --targets <tools>",
+      "Comma-separated list of tools to explain (e.g., 'copilot,cursor,cline' or '*' for all)",
+      (value) => {
+        return value.split(",").map((t) => t.trim());
+      },
+    )
+    .option(
+      "-f, --features <features>",
+      `Comma-separated list of features to explain (${ALL_FEATURES.join(",")}) or '*' for all`,
+      (value) => {
+        return value.split(",").map((f) => f.trim());
+      },
+    )
+    .option("-V, --verbose", "Verbose output")
+    .option("-s, --silent", "Suppress all output")
+    .option("-c, --config <path>", "Path to configuration file")
+    .option("--profile <name>", "Apply a profile defined in the configuration file")
+    .option("-g, --global", "Explain global(user scope) configuration files")
+    .option("--simulate-commands", "Include simulated commands")
+    .option("--simulate-subagents", "Include simulated subagents")
+    .option("--simulate-skills", "Include simulated skills")
+    .action(async (options) => {
+      try {
+        await explainCommand({
+          targets: options.targets,
+          features: options.features,
+          verbose: options.verbose,
+          silent: options.silent,
+          configPath: options.config,
+          global: options.global,
+          simulateCommands: options.simulateCommands,
+          simulateSubagents: options.simulateSubagents,
+          simulateSkills: options.simulateSkills,
+          profile: options.profile,
+        });
+      } catch (error) {
+        logger.error(formatError(error));
+        process.exit(1);
+      }
+    });
+
+  program
+    .command("validate")
+    .description("Validate .rulesync/ files and report schema errors and semantic problems")
+    .option(
+      "-t, --targets <tools>",
+      "Comma-separated list of tools to validate against (e.g., 'copilot,cursor,cline' or '*' for all)",
+      (value) => {
+        return value.split(",").map((t) => t.trim());
+      },
+    )
+    .option(
+      "-f, --features <features>",
+      `Comma-separated list of features to validate against (${ALL_FEATURES.join(",")}) or '*' for all`,
+      (value) => {
+        return value.split(",").map((f) => f.trim());
+      },
+    )
+    .option("--json", "Output the result as JSON")
+    .option("-V, --verbose", "Verbose output")
+    .option("-s, --silent", "Suppress all output except errors")
+    .option("-c, --config <path>", "Path to configuration file")
+    .option("--profile <name>", "Apply a profile defined in the configuration file")
+    .option("-g, --global", "Validate against global(user scope) configuration")
+    .action(async (options) => {
+      try {
+        await validateCommand({
+          targets: options.targets,
+          features: options.features,
+          json: options.json,
+          verbose: options.verbose,
+          silent: options.silent,
+          configPath: options.config,
+          global: options.global,
+          profile: options.profile,
+        });
+      } catch (error) {
+        logger.error(formatError(error));
+        process.exit(1);
+      }
+    });
+
+  program
+    .command("watch")
+    .description("Watch .rulesync/ and the configuration files, and regenerate on changes")
+    .option(
+      "-t, --targets <tools>",
+      "Comma-separated list of tools to generate for (e.g., 'copilot,cursor,cline' or '*' for all)",
+      (value) => {
+        return value.split(",").map((t) => t.trim());
+      },
+    )
+    .option(
+      "-f, --features <features>",
+      `Comma-separated list of features to generate (${ALL_FEATURES.join(",")}) or '*' for all`,
+      (value) => {
+        return value.split(",").map((f) => f.trim());
+      },
+    )
+    .option("--delete", "Delete orphan files previously generated by rulesync")
+    .option(
+      "-b, --base-dir <paths>",
+      "Base directories to generate files (comma-separated for multiple paths)",
+      (value) => {
+        return value.split(",").map((p) => p.trim());
+      },
+    )
+    .option("-V, --verbose", "Verbose output")
+    .option("-s, --silent", "Suppress all output")
+    .option("-c, --config <path>", "Path to configuration file")
+    .option("--profile <name>", "Apply a profile defined in the configuration file")
+    .option("-g, --global", "Generate for global(user scope) configuration files")
+    .option("--simulate-commands", "Generate simulated commands")
+    .option("--simulate-subagents", "Generate simulated subagents")
+    .option("--simulate-skills", "Generate simulated skills")
+    .action(async (options) => {
+      try {
+        await watchCommand({
+          targets: options.targets,
+          features: options.features,
+          verbose: options.verbose,
+          silent: options.silent,
+          delete: options.delete,
+          baseDirs: options.baseDir,
+          configPath: options.config,
+          global: options.global,
+          simulateCommands: options.simulateCommands,
+          simulateSubagents: options.simulateSubagents,
+          simulateSkills: options.simulateSkills,
+          profile: options.profile,
         });
       } catch (error) {
         logger.error(formatError(error));
@@ -0,0 +1,276 @@
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { RULESYNC_SOURCES_LOCK_RELATIVE_FILE_PATH } from "../constants/rulesync-paths.js";
+import { fetchFileAtCommit, resolveDefaultRef, resolveRefToSha } from "../lib/git-client.js";
+import { SourceCache } from "../lib/source-cache.js";
+import { setupTestDirectory } from "../test-utils/test-directories.js";
+import { fileExists, readFileContent, writeFileContent } from "../utils/file.js";
+import { logger } from "../utils/logger.js";
+import {
+  createPresetContext,
+  loadConfigFileWithPresets,
+  mergePresetConfigs,
+  savePresetLock,
+} from "./config-presets.js";
+
+vi.mock("../lib/git-client.js");
+
+const SHA = "a".repeat(40);
+const NEW_SHA = "b".repeat(40);
+
+describe("config-presets", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  const writeJson = (relativePath: string, data: unknown) =>
+    writeFileContent(join(testDir, relativePath), JSON.stringify(data));
+
+  const load = async (options: { update?: boolean; frozen?: boolean } = {}) => {
+    const context = await createPresetContext({
+      baseDir: testDir,
+      cache: new SourceCache({ cacheDir: join(testDir, "cache") }),
+      ...options,
+    });
+    const config = await loadConfigFileWithPresets({
+      filePath: join(testDir, "rulesync.jsonc"),
+      context,
+    });
+    await savePresetLock(context);
+    return config;
+  };
+
+  const readLock = async () =>
+    JSON.parse(await readFileContent(join(testDir, RULESYNC_SOURCES_LOCK_RELATIVE_FILE_PATH)));
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+    vi.spyOn(process, "cwd").mockReturnValue(testDir);
+  });
+
+  afterEach(async () => {
+    await cleanup();
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+  });
+
+  describe("mergePresetConfigs", () => {
+    it("should replace scalars and arrays with later values", () => {
+      expect(
+        mergePresetConfigs(
+          { targets: ["cursor", "copilot"], delete: true, simulateCommands: true },
+          { targets: ["claudecode"], delete: false },
+        ),
+      ).toEqual(
+        expect.objectContaining({
+          targets: ["claudecode"],
+          delete: false,
+          simulateCommands: true,
+        }),
+      );
+    });
+
+    it("should merge per-target features by target", () => {
+      expect(
+        mergePresetConfigs(
+          { features: { cursor: ["rules"], copilot: ["rules", "mcp"] } },
+          { features: { copilot: ["*"] } },
+        ).features,
+      ).toEqual({ cursor: ["rules"], copilot: ["*"] });
+      expect(
+        mergePresetConfigs({ features: { cursor: ["rules"] } }, { features: ["mcp"] }).features,
+      ).toEqual(["mcp"]);
+    });
+
+    it("should concatenate sources, letting later entries replace the same source", () => {
+      expect(
+        mergePresetConfigs(
+          { sources: [{ source: "org/skills", skills: ["a"] }, { source: "org/other" }] },
+          { sources: [{ source: "https://github.com/Org/skills", skills: ["b"] }] },
+        ).sources,
+      ).toEqual([
+        { source: "org/other" },
+        { source: "https://github.com/Org/skills", skills: ["b"] },
+      ]);
+    });
+  });
+
+  describe("loadConfigFileWithPresets", () => {
+    it("should return an empty config when the file does not exist", async () => {
+      expect(await load()).toEqual({});
+      expect(await fileExists(join(testDir, RULESYNC_SOURCES_LOCK_RELATIVE_FILE_PATH))).toBe(false);
+    });
+
+    it("should merge local presets in order under the file's own values", async () => {
+      await writeJson("presets/base.jsonc", {
+        targets: ["cursor"],
+        features: ["rules"],
+        simulateCommands: true,
+      });
+      await writeJson("presets/team.jsonc", { extends: "./base.jsonc", features: ["*"] });
+      await writeJson("presets/strict.jsonc", { delete: true, targets: ["copilot"] });
+      await writeJson("rulesync.jsonc", {
+        extends: ["./presets/team.jsonc", "./presets/strict.jsonc"],
+        delete: false,
+      });
+
+      expect(await load()).toEqual(
+        expect.objectContaining({
+          targets: ["copilot"],
+          features: ["*"],
+          simulateCommands: true,
+          delete: false,
+        }),
+      );
+    });
+
+    it("should fail when a local preset does not exist", async () => {
+      await writeJson("rulesync.jsonc", { extends: "./missing.jsonc" });
+
+      await expect(load()).rejects.toThrow('Preset "./missing.jsonc" extended by');
+    });
+
+    it("should detect circular extends", async () => {
+      await writeJson("a.jsonc", { extends: "./b.jsonc" });
+      await writeJson("b.jsonc", { extends: "./a.jsonc" });
+      await writeJson("rulesync.jsonc", { extends: "./a.jsonc" });
+
+      await expect(load()).rejects.toThrow("Circular extends detected");
+    });
+
+    it("should resolve git presets and record them in the lockfile", async () => {
+      vi.mocked(resolveRefToSha).mockResolvedValue(SHA);
+      vi.mocked(fetchFileAtCommit).mockResolvedValue(JSON.stringify({ targets: ["cursor"] }));
+      await writeJson("rulesync.jsonc", { extends: "org/presets@v1:presets/base.jsonc" });
+
+      expect(await load()).toEqual(expect.objectContaining({ targets: ["cursor"] }));
+      expect(resolveRefToSha).toHaveBeenCalledWith("https://github.com/org/presets.git", "v1");
+      expect(fetchFileAtCommit).toHaveBeenCalledWith({
+        url: "https://github.com/org/presets.git",
+        sha: SHA,
+        path: "presets/base.jsonc",
+      });
+      expect((await readLock()).presets).toEqual({
+        "org/presets:presets/base.jsonc": {
+          requestedRef: "v1",
+          resolvedRef: SHA,
+          resolvedAt: expect.any(String),
+        },
+      });
+    });
+
+    it("should ignore settings of git presets that only local config files can set", async () => {
+      const warnSpy = vi.spyOn(logger, "warn");
+      vi.mocked(resolveRefToSha).mockResolvedValue(SHA);
+      vi.mocked(fetchFileAtCommit).mockResolvedValue(
+        JSON.stringify({
+          targets: ["cursor"],
+          gitHosts: {
+            "git.example.com": { provider: "gitea", apiUrl: "https://git.example.com/api" },
+          },
+          allowedSigners: "evil_signers",
+          resolveMcpEnv: true,
+        }),
+      );
+      await writeJson("presets/local.jsonc", { allowedSigners: "team_signers" });
+      await writeJson("rulesync.jsonc", {
+        extends: ["./presets/local.jsonc", "org/presets@v1"],
+      });
+
+      const config = await load();
+
+      expect(config).toEqual(
+        expect.objectContaining({ targets: ["cursor"], allowedSigners: "team_signers" }),
+      );
+      expect(config.gitHosts).toBeUndefined();
+      expect(config.resolveMcpEnv).toBeUndefined();
+      expect(warnSpy).toHaveBeenCalledWith(
+        `Ignoring "gitHosts", "allowedSigners", "resolveMcpEnv" of remote preset org/presets:rulesync.jsonc@${SHA}: only local config files can set them.`,
+      );
+    });
+
+    it("should use locked commits and read relative presets from the same commit", async () => {
+      await writeJson(RULESYNC_SOURCES_LOCK_RELATIVE_FILE_PATH, {
+        lockfileVersion: 1,
+        sources: {},
+        presets: { "org/presets:rulesync.jsonc": { resolvedRef: SHA } },
+      });
+      vi.mocked(fetchFileAtCommit).mockImplementation(async ({ path }) =>
+        path === "rulesync.jsonc"
+          ? JSON.stringify({ extends: "./shared/base.jsonc", delete: true })
+          : JSON.stringify({ targets: ["copilot"] }),
+      );
+      await writeJson("rulesync.jsonc", { extends: "github:org/presets" });
+
+      expect(await load()).toEqual(expect.objectContaining({ targets: ["copilot"], delete: true }));
+      expect(resolveDefaultRef).not.toHaveBeenCalled();
+      expect(fetchFileAtCommit).toHaveBeenCalledWith(
+        expect.objectContaining({ sha: SHA, path: "shared/base.jsonc" }),
+      );
+    });
+
+    it("should read locked presets from the source cache", async () => {
+      await writeJson(RULESYNC_SOURCES_LOCK_RELATIVE_FILE_PATH, {
+        lockfileVersion: 1,
+        sources: {},
+        presets: { "org/presets:rulesync.jsonc": { resolvedRef: SHA } },
+      });
+      vi.mocked(fetchFileAtCommit).mockResolvedValue(JSON.stringify({ targets: ["cursor"] }));
+      await writeJson("rulesync.jsonc", { extends: "org/presets" });
+
+      await load();
+      expect(await load()).toEqual(expect.objectContaining({ targets: ["cursor"] }));
+
+      expect(fetchFileAtCommit).toHaveBeenCalledTimes(1);
+    });
+
+    it("should re-resolve locked presets when updating", async () => {
+      await writeJson(RULESYNC_SOURCES_LOCK_RELATIVE_FILE_PATH, {
+        lockfileVersion: 1,
+        sources: {},
+        presets: { "org/presets:rulesync.jsonc": { resolvedRef: SHA } },
+      });
+      vi.mocked(resolveDefaultRef).mockResolvedValue({ ref: "main", sha: NEW_SHA });
+      vi.mocked(fetchFileAtCommit).mockResolvedValue("{}");
+      await writeJson("rulesync.jsonc", { extends: "org/presets" });
+
+      await load({ update: true });
+
+      expect((await readLock()).presets["org/presets:rulesync.jsonc"].resolvedRef).toBe(NEW_SHA);
+    });
+
+    it("should reject remote presets that escape their repository", async () => {
+      vi.mocked(resolveDefaultRef).mockResolvedValue({ ref: "main", sha: SHA });
+      vi.mocked(fetchFileAtCommit).mockResolvedValue(JSON.stringify({ extends: "../x.jsonc" }));
+      await writeJson("rulesync.jsonc", { extends: "org/presets" });
+
+      await expect(load()).rejects.toThrow("is outside its repository");
+    });
+
+    it("should fail in frozen mode when a git preset is not locked", async () => {
+      await writeJson("rulesync.jsonc", { extends: "org/presets" });
+
+      await expect(load({ frozen: true })).rejects.toThrow(
+        'lockfile is missing an entry for preset "org/presets"',
+      );
+      expect(resolveDefaultRef).not.toHaveBeenCalled();
+    });
+
+    it("should drop presets that are no longer extended from the lockfile", async () => {
+      await writeJson(RULESYNC_SOURCES_LOCK_RELATIVE_FILE_PATH, {
+        lockfileVersion: 1,
+        sources: { "org/skills": { resolvedRef: SHA, skills: {} } },
+        presets: { "org/presets:rulesync.jsonc": { resolvedRef: SHA } },
+      });
+      await writeJson("rulesync.jsonc", { targets: ["cursor"] });
+
+      await load();
+
+      expect(await readLock()).toEqual({
+        lockfileVersion: 1,
+        sources: { "org/skills": { resolvedRef: SHA, skills: {} } },
+      });
+    });
+  });
+});
@@ -0,0 +1,320 @@
+import { dirname, isAbsolute, posix, resolve } from "node:path";
+
+import { parse as parseJsonc } from "jsonc-parser";
+import { z } from "zod/mini";
+
+import { RULESYNC_CONFIG_RELATIVE_FILE_PATH } from "../constants/rulesync-paths.js";
+import { fetchFileAtCommit, resolveDefaultRef, resolveRefToSha } from "../lib/git-client.js";
+import { SourceCache } from "../lib/source-cache.js";
+import { parseSource } from "../lib/source-parser.js";
+import {
+  type LockedPreset,
+  type SourcesLock,
+  normalizeSourceKey,
+  readLockFile,
+  writeLockFile,
+} from "../lib/sources-lock.js";
+import { GIT_PROVIDER_DEFAULT_HOSTS } from "../types/git-provider.js";
+import { fileExists, readFileContent } from "../utils/file.js";
+import { logger } from "../utils/logger.js";
+import {
+  type ConfigExtends,
+  type ConfigFileParams,
+  type PartialConfigParams,
+  type SourceEntry,
+  ConfigFileSchema,
+} from "./config.js";
+
+/**
+ * Shared state while resolving the presets of the config files of one project.
+ * Remote presets are pinned to the commits recorded in `rulesync.lock`.
+ */
+export type PresetContext = {
+  baseDir: string;
+  lock: SourcesLock;
+  /** Presets used while resolving, keyed like the lockfile. */
+  usedPresets: Record<string, LockedPreset>;
+  /** Re-resolve the refs of remote presets, ignoring the lockfile. */
+  update: boolean;
+  /** Fail instead of resolving remote presets that are not in the lockfile. */
+  frozen: boolean;
+  /** Cache of remote presets, which are read at a commit and so never change. */
+  cache: SourceCache;
+};
+
+type PresetLocation =
+  | { kind: "local"; filePath: string }
+  | { kind: "git"; lockKey: string; url: string; sha: string; path: string };
+
+export async function createPresetContext(params: {
+  baseDir: string;
+  update?: boolean;
+  frozen?: boolean;
+  cache?: SourceCache;
+}): Promise<PresetContext> {
+  return {
+    baseDir: params.baseDir,
+    lock: await readLockFile({ baseDir: params.baseDir }),
+    usedPresets: {},
+    update: params.update ?? false,
+    frozen: params.frozen ?? false,
+    cache: params.cache ?? new SourceCache(),
+  };
+}
+
+/**
+ * Write the remote presets used while resolving to the lockfile, dropping presets that are
+ * no longer extended. Nothing is written in frozen mode or when the lockfile is unchanged.
+ */
+export async function savePresetLock(context: PresetContext): Promise<void> {
+  const { lock, usedPresets, frozen, baseDir } = context;
+  if (frozen || JSON.stringify(lock.presets ?? {}) === JSON.stringify(usedPresets)) {
+    return;
+  }
+  const { presets: _presets, ...rest } = lock;
+  await writeLockFile({
+    baseDir,
+    lock: Object.keys(usedPresets).length > 0 ? { ...rest, presets: usedPresets } : rest,
+  });
+}
+
+/**
+ * Load a config file and the presets it extends, merged in order under the file's own values.
+ * A missing file resolves to an empty config.
+ */
+export async function loadConfigFileWithPresets(params: {
+  filePath: string;
+  context: PresetContext;
+}): Promise<ConfigFileParams> {
+  if (!(await fileExists(params.filePath))) {
+    return {};
+  }
+  return loadPreset({
+    location: { kind: "local", filePath: params.filePath },
+    context: params.context,
+    chain: [],
+  });
+}
+
+/**
+ * Merge two configs where `override` comes later in the `extends` chain:
+ * - `sources` are concatenated; an override entry replaces a base entry for the same source
+ * - per-target `features` objects are merged by target
+ * - `vars` are merged by name
+ * - `gitHosts` are merged by host name
+ * - `profiles` are merged by name; an override profile replaces a base profile of the same name
+ * - every other field, including arrays such as `targets`, is replaced when set
+ */
+export function mergePresetConfigs(
+  base: ConfigFileParams,
+  override: ConfigFileParams,
+): ConfigFileParams {
+  return {
+    targets: override.targets ?? base.targets,
+    features: mergeFeatures(base.features, override.features),
+    verbose: override.verbose ?? base.verbose,
+    delete: override.delete ?? base.delete,
+    baseDirs: override.baseDirs ?? base.baseDirs,
+    global: override.global ?? base.global,
+    silent: override.silent ?? base.silent,
+    simulateCommands: override.simulateCommands ?? base.simulateCommands,
+    simulateSubagents: override.simulateSubagents ?? base.simulateSubagents,
+    simulateSkills: override.simulateSkills ?? base.simulateSkills,
+    dryRun: override.dryRun ?? base.dryRun,
+    check: override.check ?? base.check,
+    sources: mergeSources(base.sources, override.sources),
+    vars: base.vars || override.vars ? { ...base.vars, ...override.vars } : undefined,
+    integrityCheck: override.integrityCheck ?? base.integrityCheck,
+    gitHosts:
+      base.gitHosts || override.gitHosts ? { ...base.gitHosts, ...override.gitHosts } : undefined,
+    fetch: override.fetch ?? base.fetch,
+    allowedSigners: override.allowedSigners ?? base.allowedSigners,
+    resolveMcpEnv: override.resolveMcpEnv ?? base.resolveMcpEnv,
+    mergeMcp: override.mergeMcp ?? base.mergeMcp,
+    profiles:
+      base.profiles || override.profiles ? { ...base.profiles, ...override.profiles } : undefined,
+  };
+}
+
+function mergeFeatures(
+  base: PartialConfigParams["features"],
+  override: PartialConfigParams["features"],
+): PartialConfigParams["features"] {
+  if (base && override && !Array.isArray(base) && !Array.isArray(override)) {
+    return { ...base, ...override };
+  }
+  return override ?? base;
+}
+
+function mergeSources(
+  base: SourceEntry[] | undefined,
+  override: SourceEntry[] | undefined,
+): SourceEntry[] | undefined {
+  if (!base || !override) {
+    return override ?? base;
+  }
+  const overrideKeys = new Set(override.map((entry) => normalizeSourceKey(entry.source)));
+  return [
+    ...base.filter((entry) => !overrideKeys.has(normalizeSourceKey(entry.source))),
+    ...override,
+  ];
+}
+
+async function loadPreset({
+  location,
+  context,
+  chain,
+}: {
+  location: PresetLocation;
+  context: PresetContext;
+  chain: string[];
+}): Promise<ConfigFileParams> {
+  const id = getLocationId(location);
+  if (chain.includes(id)) {
+    throw new Error(`Circular extends detected: ${[...chain, id].join(" -> ")}`);
+  }
+
+  const content =
+    location.kind === "local"
+      ? await readFileContent(location.filePath)
+      : await fetchPreset({ location, cache: context.cache });
+  const {
+    $schema: _schema,
+    extends: extendsField,
+    ...parsedParams
+  } = ConfigFileSchema.parse(parseJsonc(content));
+  const configParams =
+    location.kind === "local" ? parsedParams : omitLocalOnlyParams(parsedParams, id);
+
+  let merged: ConfigFileParams = {};
+  for (const spec of toPresetSpecs(extendsField)) {
+    const presetLocation = await locatePreset({ spec, from: location, context });
+    logger.debug(`Extending ${id} with preset ${getLocationId(presetLocation)}`);
+    const preset = await loadPreset({
+      location: presetLocation,
+      context,
+      chain: [...chain, id],
+    });
+    merged = mergePresetConfigs(merged, preset);
+  }
+  return mergePresetConfigs(merged, configParams);
+}
+
+/**
+ * Drop the settings that a remote preset must not control, because they decide where tokens
+ * are sent (`gitHosts`), whose signatures are trusted (`allowedSigners`) and whether secrets
+ * are written to disk (`resolveMcpEnv`). They are only read from local config files.
+ */
+function omitLocalOnlyParams(params: ConfigFileParams, id: string): ConfigFileParams {
+  const { gitHosts, allowedSigners, resolveMcpEnv, ...rest } = params;
+  const ignored = Object.entries({ gitHosts, allowedSigners, resolveMcpEnv })
+    .filter(([, value]) => value !== undefined)
+    .map(([key]) => `"${key}"`);
+  if (ignored.length > 0) {
+    logger.warn(
+      `Ignoring ${ignored.join(", ")} of remote preset ${id}: only local config files can set them.`,
+    );
+  }
+  return rest;
+}
+
+/**
+ * Read a remote preset at its commit through the source cache, so that it is fetched once.
+ */
+async function fetchPreset({
+  location,
+  cache,
+}: {
+  location: Extract<PresetLocation, { kind: "git" }>;
+  cache: SourceCache;
+}): Promise<string> {
+  const { url, sha, path } = location;
+  const content = await cache.remember({
+    sha,
+    kind: "content",
+    path,
+    schema: z.string(),
+    fetch: () => fetchFileAtCommit({ url, sha, path }),
+  });
+  if (content === null) {
+    throw new Error(`Preset "${path}" does not exist at ${sha} of ${url}`);
+  }
+  return content;
+}
+
+function toPresetSpecs(extendsField: ConfigExtends | undefined): string[] {
+  if (extendsField === undefined) {
+    return [];
+  }
+  return typeof extendsField === "string" ? [extendsField] : extendsField;
+}
+
+function isLocalPresetSpec(spec: string): boolean {
+  return spec.startsWith("./") || spec.startsWith("../") || isAbsolute(spec);
+}
+
+function getLocationId(location: PresetLocation): string {
+  return location.kind === "local" ? location.filePath : `${location.lockKey}@${location.sha}`;
+}
+
+async function locatePreset({
+  spec,
+  from,
+  context,
+}: {
+  spec: string;
+  from: PresetLocation;
+  context: PresetContext;
+}): Promise<PresetLocation> {
+  if (isLocalPresetSpec(spec)) {
+    if (from.kind === "local") {
+      const filePath = resolve(dirname(from.filePath), spec);
+      if (!(await fileExists(filePath))) {
+        throw new Error(`Preset "${spec}" extended by ${from.filePath} does not exist`);
+      }
+      return { kind: "local", filePath };
+    }
+    // Relative presets of a remote preset are read from the same commit
+    const path = posix.normalize(posix.join(posix.dirname(from.path), spec));
+    if (isAbsolute(spec) || path.startsWith("../")) {
+      throw new Error(`Preset "${spec}" extended by ${from.lockKey} is outside its repository`);
+    }
+    return { ...from, lockKey: getPresetLockKey(from.url, path), path };
+  }
+
+  const parsed = parseSource(spec);
+  const path = parsed.path ?? RULESYNC_CONFIG_RELATIVE_FILE_PATH;
+  if (path.split("/").includes("..") || isAbsolute(path)) {
+    throw new Error(`Preset "${spec}" has an invalid path: ${path}`);
+  }
+  const host = parsed.host ?? GIT_PROVIDER_DEFAULT_HOSTS[parsed.provider];
+  const url = `https://${host}/${parsed.owner}/${parsed.repo}.git`;
+  const lockKey = getPresetLockKey(url, path);
+
+  const locked = context.lock.presets?.[lockKey];
+  let preset: LockedPreset;
+  if (locked && !context.update && locked.requestedRef === parsed.ref) {
+    preset = locked;
+  } else if (context.frozen) {
+    throw new Error(
+      `Frozen install failed: lockfile is missing an entry for preset "${spec}". Run 'rulesync install' to update the lockfile.`,
+    );
+  } else {
+    const resolvedRef = parsed.ref
+      ? await resolveRefToSha(url, parsed.ref)
+      : (await resolveDefaultRef(url)).sha;
+    preset = {
+      requestedRef: parsed.ref,
+      resolvedRef,
+      resolvedAt: new Date().toISOString(),
+    };
+    logger.debug(`Resolved preset "${spec}" to ${resolvedRef}`);
+  }
+  context.usedPresets[lockKey] = preset;
+
+  return { kind: "git", lockKey, url, sha: preset.resolvedRef, path };
+}
+
+function getPresetLockKey(url: string, path: string): string {
+  return `${normalizeSourceKey(url)}:${path}`;
+}
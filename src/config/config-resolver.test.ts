@@ -2,8 +2,9 @@ import { join, resolve } from "node:path";
 
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
+import { RULESYNC_SOURCES_LOCK_RELATIVE_FILE_PATH } from "../constants/rulesync-paths.js";
 import { setupTestDirectory } from "../test-utils/test-directories.js";
-import { writeFileContent } from "../utils/file.js";
+import { readFileContent, writeFileContent } from "../utils/file.js";
 import { ConfigResolver } from "./config-resolver.js";
 
 const { getHomeDirectoryMock } = vi.hoisted(() => {
@@ -305,6 +306,233 @@ describe("config-resolver", () => {
     });
   });
 
+  describe("extends", () => {
+    it("should merge presets under rulesync.jsonc, rulesync.local.jsonc and CLI options", async () => {
+      await writeFileContent(
+        join(testDir, "presets", "org.jsonc"),
+        JSON.stringify({ targets: ["cursor", "copilot"], simulateCommands: true, delete: true }),
+      );
+      await writeFileContent(
+        join(testDir, "rulesync.jsonc"),
+        JSON.stringify({ baseDirs: ["./"], extends: "./presets/org.jsonc", delete: false }),
+      );
+      await writeFileContent(
+        join(testDir, "rulesync.local.jsonc"),
+        JSON.stringify({ targets: ["claudecode"] }),
+      );
+
+      const config = await ConfigResolver.resolve({
+        configPath: join(testDir, "rulesync.jsonc"),
+        verbose: true,
+      });
+
+      expect(config.getTargets()).toEqual(["claudecode"]);
+      expect(config.getSimulateCommands()).toBe(true);
+      expect(config.getDelete()).toBe(false);
+      expect(config.getVerbose()).toBe(true);
+    });
+
+    it("should not update the lockfile in preview mode or for read-only commands", async () => {
+      const lockPath = join(testDir, RULESYNC_SOURCES_LOCK_RELATIVE_FILE_PATH);
+      const lockContent = JSON.stringify({
+        lockfileVersion: 1,
+        sources: {},
+        presets: { "org/presets:rulesync.jsonc": { resolvedRef: "a".repeat(40) } },
+      });
+      await writeFileContent(lockPath, lockContent);
+      await writeFileContent(join(testDir, "rulesync.jsonc"), JSON.stringify({}));
+
+      await ConfigResolver.resolve({ dryRun: true });
+      await ConfigResolver.resolve({ check: true });
+      await ConfigResolver.resolve({ readOnly: true });
+      expect(await readFileContent(lockPath)).toBe(lockContent);
+
+      // The preset that is no longer extended is dropped otherwise
+      await ConfigResolver.resolve({});
+      expect(JSON.parse(await readFileContent(lockPath)).presets).toBeUndefined();
+    });
+  });
+
+  describe("vars", () => {
+    it("should default to no variables", async () => {
+      const config = await ConfigResolver.resolve({});
+
+      expect(config.getVars()).toEqual({});
+    });
+
+    it("should merge vars from rulesync.local.jsonc by name", async () => {
+      await writeFileContent(
+        join(testDir, "rulesync.jsonc"),
+        JSON.stringify({ vars: { packageManager: "npm", nodeVersion: 22 } }),
+      );
+      await writeFileContent(
+        join(testDir, "rulesync.local.jsonc"),
+        JSON.stringify({ vars: { packageManager: "pnpm" } }),
+      );
+
+      const config = await ConfigResolver.resolve({
+        configPath: join(testDir, "rulesync.jsonc"),
+      });
+
+      expect(config.getVars()).toEqual({ packageManager: "pnpm", nodeVersion: 22 });
+    });
+  });
+
+  describe("fetch", () => {
+    it("should load fetch specs from the config file", async () => {
+      const fetch = [
+        { source: "owner/rules", features: ["rules"], conflict: "merge" },
+        { source: "owner/tools", target: "claudecode", path: "config", output: "vendor" },
+      ];
+      await writeFileContent(join(testDir, "rulesync.jsonc"), JSON.stringify({ fetch }));
+
+      const config = await ConfigResolver.resolve({
+        configPath: join(testDir, "rulesync.jsonc"),
+      });
+
+      expect(config.getFetchSpecs()).toEqual(fetch);
+    });
+
+    it("should reject fetch specs with an unknown conflict strategy", async () => {
+      await writeFileContent(
+        join(testDir, "rulesync.jsonc"),
+        JSON.stringify({ fetch: [{ source: "owner/rules", conflict: "theirs" }] }),
+      );
+
+      await expect(
+        ConfigResolver.resolve({ configPath: join(testDir, "rulesync.jsonc") }),
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("gitHosts", () => {
+    const resolveWithGitHosts = async (gitHosts: unknown) => {
+      await writeFileContent(join(testDir, "rulesync.jsonc"), JSON.stringify({ gitHosts }));
+      return ConfigResolver.resolve({ configPath: join(testDir, "rulesync.jsonc") });
+    };
+
+    it("should load self-hosted instances", async () => {
+      const gitHosts = {
+        "git.example.com:8443": {
+          provider: "gitea",
+          apiUrl: "https://git.example.com:8443/api/v1",
+          tokenEnv: "FORGE_TOKEN",
+        },
+      };
+
+      expect((await resolveWithGitHosts(gitHosts)).getGitHosts()).toEqual(gitHosts);
+    });
+
+    it("should reject the public hosts of the providers", async () => {
+      await expect(
+        resolveWithGitHosts({ "GitHub.com": { provider: "github", tokenEnv: "GITHUB_TOKEN" } }),
+      ).rejects.toThrow('gitHosts cannot configure the public host "GitHub.com"');
+    });
+
+    it("should reject an apiUrl on another host", async () => {
+      await expect(
+        resolveWithGitHosts({
+          "git.example.com": { provider: "gitea", apiUrl: "https://collector.example.net/api" },
+        }),
+      ).rejects.toThrow(
+        'apiUrl of "git.example.com" in gitHosts must be on that host: https://collector.example.net/api',
+      );
+    });
+
+    it("should reject a tokenEnv that is not named like a token", async () => {
+      await expect(
+        resolveWithGitHosts({
+          "git.example.com": { provider: "gitea", tokenEnv: "AWS_SECRET_ACCESS_KEY" },
+        }),
+      ).rejects.toThrow("tokenEnv must be named RULESYNC_TOKEN_* or *_TOKEN");
+    });
+  });
+
+  describe("profiles", () => {
+    beforeEach(async () => {
+      await writeFileContent(
+        join(testDir, "rulesync.jsonc"),
+        JSON.stringify({
+          baseDirs: ["./"],
+          targets: ["claudecode", "cursor"],
+          features: ["*"],
+          profiles: {
+            ci: { targets: ["copilot"], delete: true, simulateCommands: true },
+            minimal: { features: ["rules"] },
+          },
+        }),
+      );
+    });
+
+    it("should ignore profiles when none is selected", async () => {
+      const config = await ConfigResolver.resolve({
+        configPath: join(testDir, "rulesync.jsonc"),
+      });
+
+      expect(config.getTargets()).toEqual(["claudecode", "cursor"]);
+      expect(config.getDelete()).toBe(false);
+    });
+
+    it("should apply the selected profile over the config files", async () => {
+      await writeFileContent(
+        join(testDir, "rulesync.local.jsonc"),
+        JSON.stringify({ targets: ["cline"], features: ["mcp"] }),
+      );
+
+      const config = await ConfigResolver.resolve({
+        configPath: join(testDir, "rulesync.jsonc"),
+        profile: "ci",
+      });
+
+      expect(config.getTargets()).toEqual(["copilot"]);
+      expect(config.getFeatures()).toEqual(["mcp"]);
+      expect(config.getDelete()).toBe(true);
+      expect(config.getSimulateCommands()).toBe(true);
+    });
+
+    it("should let CLI options take precedence over the profile", async () => {
+      const config = await ConfigResolver.resolve({
+        configPath: join(testDir, "rulesync.jsonc"),
+        profile: "ci",
+        targets: ["cursor"],
+        delete: false,
+      });
+
+      expect(config.getTargets()).toEqual(["cursor"]);
+      expect(config.getDelete()).toBe(false);
+    });
+
+    it("should merge profiles from rulesync.local.jsonc by name", async () => {
+      await writeFileContent(
+        join(testDir, "rulesync.local.jsonc"),
+        JSON.stringify({ profiles: { mine: { targets: ["cline"] } } }),
+      );
+
+      const mine = await ConfigResolver.resolve({
+        configPath: join(testDir, "rulesync.jsonc"),
+        profile: "mine",
+      });
+      const minimal = await ConfigResolver.resolve({
+        configPath: join(testDir, "rulesync.jsonc"),
+        profile: "minimal",
+      });
+
+      expect(mine.getTargets()).toEqual(["cline"]);
+      expect(minimal.getFeatures()).toEqual(["rules"]);
+    });
+
+    it("should throw for an unknown profile", async () => {
+      await expect(
+        ConfigResolver.resolve({
+          configPath: join(testDir, "rulesync.jsonc"),
+          profile: "unknown",
+        }),
+      ).rejects.toThrow(
+        'Profile "unknown" is not defined in the configuration. Available profiles: ci, minimal',
+      );
+    });
+  });
+
   describe("configPath security", () => {
     it("should accept configPath within current directory", async () => {
       const configContent = JSON.stringify({
@@ -1,35 +1,51 @@
 import { dirname, join, resolve } from "node:path";
 
-import { parse as parseJsonc } from "jsonc-parser";
-
 import {
+  RULESYNC_ALLOWED_SIGNERS_RELATIVE_FILE_PATH,
   RULESYNC_CONFIG_RELATIVE_FILE_PATH,
   RULESYNC_LOCAL_CONFIG_RELATIVE_FILE_PATH,
 } from "../constants/rulesync-paths.js";
 import { formatError } from "../utils/error.js";
-import {
-  fileExists,
-  getHomeDirectory,
-  readFileContent,
-  resolvePath,
-  validateBaseDir,
-} from "../utils/file.js";
+import { getHomeDirectory, resolvePath, validateBaseDir } from "../utils/file.js";
 import { logger } from "../utils/logger.js";
+import {
+  type PresetContext,
+  createPresetContext,
+  loadConfigFileWithPresets,
+  savePresetLock,
+} from "./config-presets.js";
 import {
   Config,
-  ConfigFile,
-  ConfigFileSchema,
+  ConfigFileParams,
   ConfigParams,
   PartialConfigParams,
   RequiredConfigParams,
 } from "./config.js";
 
 /**
- * CLI-resolvable params exclude `sources` — sources are config-file-only.
+ * CLI-resolvable params exclude `sources`, `vars`, `integrityCheck`, `gitHosts`, `fetch`,
+ * `allowedSigners`, `resolveMcpEnv` and `mergeMcp` — they are config-file-only.
+ * `profile` selects one of the config file's `profiles`.
+ * `updatePresets` and `frozenPresets` control how git presets in `extends` use the lockfile.
  */
 export type ConfigResolverResolveParams = Partial<
-  Omit<ConfigParams, "sources"> & {
+  Omit<
+    ConfigParams,
+    | "sources"
+    | "vars"
+    | "integrityCheck"
+    | "gitHosts"
+    | "fetch"
+    | "allowedSigners"
+    | "resolveMcpEnv"
+    | "mergeMcp"
+  > & {
     configPath: string;
+    profile: string;
+    updatePresets: boolean;
+    frozenPresets: boolean;
+    /** Do not write `rulesync.lock`, for commands that only read the configuration. */
+    readOnly: boolean;
   }
 >;
 
@@ -48,20 +64,22 @@ const getDefaults = (): RequiredConfigParams & { configPath: string } => ({
   dryRun: false,
   check: false,
   sources: [],
+  vars: {},
+  integrityCheck: "warn",
+  gitHosts: {},
+  fetch: [],
+  allowedSigners: RULESYNC_ALLOWED_SIGNERS_RELATIVE_FILE_PATH,
+  resolveMcpEnv: false,
+  mergeMcp: false,
 });
 
-const loadConfigFromFile = async (filePath: string): Promise<PartialConfigParams> => {
-  if (!(await fileExists(filePath))) {
-    return {};
-  }
+const loadConfigFromFile = async (
+  filePath: string,
+  presetContext: PresetContext,
+): Promise<ConfigFileParams> => {
   try {
-    const fileContent = await readFileContent(filePath);
-    const jsonData = parseJsonc(fileContent);
-    // Parse with ConfigFileSchema to allow $schema property, then extract config params
-    const parsed: ConfigFile = ConfigFileSchema.parse(jsonData);
-    // Exclude $schema from config params
-    const { $schema: _schema, ...configParams } = parsed;
-    return configParams;
+    // Presets in `extends` are merged under the file's own values
+    return await loadConfigFileWithPresets({ filePath, context: presetContext });
   } catch (error) {
     logger.error(`Failed to load config file "${filePath}": ${formatError(error)}`);
     throw error;
@@ -69,9 +87,9 @@ const loadConfigFromFile = async (filePath: string): Promise<PartialConfigParams
 };
 
 const mergeConfigs = (
-  baseConfig: PartialConfigParams,
-  localConfig: PartialConfigParams,
-): PartialConfigParams => {
+  baseConfig: ConfigFileParams,
+  localConfig: ConfigFileParams,
+): ConfigFileParams => {
   // Local config takes precedence over base config
   // Only override if the value is explicitly set (not undefined)
   return {
@@ -88,9 +106,44 @@ const mergeConfigs = (
     dryRun: localConfig.dryRun ?? baseConfig.dryRun,
     check: localConfig.check ?? baseConfig.check,
     sources: localConfig.sources ?? baseConfig.sources,
+    vars:
+      baseConfig.vars || localConfig.vars ? { ...baseConfig.vars, ...localConfig.vars } : undefined,
+    integrityCheck: localConfig.integrityCheck ?? baseConfig.integrityCheck,
+    gitHosts:
+      baseConfig.gitHosts || localConfig.gitHosts
+        ? { ...baseConfig.gitHosts, ...localConfig.gitHosts }
+        : undefined,
+    fetch: localConfig.fetch ?? baseConfig.fetch,
+    allowedSigners: localConfig.allowedSigners ?? baseConfig.allowedSigners,
+    resolveMcpEnv: localConfig.resolveMcpEnv ?? baseConfig.resolveMcpEnv,
+    mergeMcp: localConfig.mergeMcp ?? baseConfig.mergeMcp,
+    profiles:
+      baseConfig.profiles || localConfig.profiles
+        ? { ...baseConfig.profiles, ...localConfig.profiles }
+        : undefined,
   };
 };
 
+/**
+ * Apply the selected profile on top of the config file values.
+ */
+const applyProfile = (
+  { profiles, ...configParams }: ConfigFileParams,
+  profile: string | undefined,
+): PartialConfigParams => {
+  if (profile === undefined) {
+    return configParams;
+  }
+  const selected = profiles?.[profile];
+  if (!selected) {
+    const available = Object.keys(profiles ?? {});
+    throw new Error(
+      `Profile "${profile}" is not defined in the configuration. Available profiles: ${available.length > 0 ? available.join(", ") : "(none)"}`,
+    );
+  }
+  return mergeConfigs(configParams, selected);
+};
+
 // oxlint-disable-next-line no-extraneous-class
 export class ConfigResolver {
   public static async resolve({
@@ -107,21 +160,32 @@ export class ConfigResolver {
     simulateSkills,
     dryRun,
     check,
+    profile,
+    updatePresets,
+    frozenPresets,
+    readOnly = false,
   }: ConfigResolverResolveParams): Promise<Config> {
     // Validate configPath to prevent path traversal attacks
     const validatedConfigPath = resolvePath(configPath, process.cwd());
 
+    // Git presets are pinned in rulesync.lock, which lives next to the sources' entries
+    const presetContext = await createPresetContext({
+      baseDir: process.cwd(),
+      update: updatePresets,
+      frozen: frozenPresets,
+    });
+
     // Load base config (rulesync.jsonc)
-    const baseConfig = await loadConfigFromFile(validatedConfigPath);
+    const baseConfig = await loadConfigFromFile(validatedConfigPath, presetContext);
 
     // Load local config (rulesync.local.jsonc) from the same directory as the base config
     const configDir = dirname(validatedConfigPath);
     const localConfigPath = join(configDir, RULESYNC_LOCAL_CONFIG_RELATIVE_FILE_PATH);
-    const localConfig = await loadConfigFromFile(localConfigPath);
+    const localConfig = await loadConfigFromFile(localConfigPath, presetContext);
 
-    // Merge configs: local config takes precedence over base config
-    // Priority: CLI options > rulesync.local.jsonc > rulesync.jsonc > defaults
-    const configByFile = mergeConfigs(baseConfig, localConfig);
+    // Merge configs: local config takes precedence over base config, and the profile over both
+    // Priority: CLI options > profile > rulesync.local.jsonc > rulesync.jsonc > defaults
+    const configByFile = applyProfile(mergeConfigs(baseConfig, localConfig), profile);
 
     const resolvedGlobal = global ?? configByFile.global ?? getDefaults().global;
     const resolvedSimulateCommands =
@@ -149,8 +213,22 @@ export class ConfigResolver {
       dryRun: dryRun ?? configByFile.dryRun ?? getDefaults().dryRun,
       check: check ?? configByFile.check ?? getDefaults().check,
       sources: configByFile.sources ?? getDefaults().sources,
+      vars: configByFile.vars ?? getDefaults().vars,
+      integrityCheck: configByFile.integrityCheck ?? getDefaults().integrityCheck,
+      gitHosts: configByFile.gitHosts ?? getDefaults().gitHosts,
+      fetch: configByFile.fetch ?? getDefaults().fetch,
+      allowedSigners: configByFile.allowedSigners ?? getDefaults().allowedSigners,
+      resolveMcpEnv: configByFile.resolveMcpEnv ?? getDefaults().resolveMcpEnv,
+      mergeMcp: configByFile.mergeMcp ?? getDefaults().mergeMcp,
     };
-    return new Config(configParams);
+    const config = new Config(configParams);
+
+    // Previews and read-only commands must not change the lockfile
+    if (!readOnly && !config.isPreviewMode()) {
+      await savePresetLock(presetContext);
+    }
+
+    return config;
   }
 }
 
@@ -2,14 +2,21 @@ import { isAbsolute } from "node:path";
 
 import { minLength, optional, refine, z } from "zod/mini";
 
+import { RULESYNC_ALLOWED_SIGNERS_RELATIVE_FILE_PATH } from "../constants/rulesync-paths.js";
+import { isPublicGitHost } from "../lib/source-parser.js";
 import {
   ALL_FEATURES,
+  ALL_FEATURES_WITH_WILDCARD,
   Feature,
   Features,
   PerTargetFeatures,
   RulesyncFeatures,
   RulesyncFeaturesSchema,
 } from "../types/features.js";
+import { FetchTargetSchema } from "../types/fetch-targets.js";
+import { ConflictStrategySchema } from "../types/fetch.js";
+import { GitProviderSchema } from "../types/git-provider.js";
+import type { TemplateVars } from "../types/template.js";
 import {
   ALL_TOOL_TARGETS,
   RulesyncTargets,
@@ -17,6 +24,7 @@ import {
   ToolTarget,
   ToolTargets,
 } from "../types/tool-targets.js";
+import { isSemverRange, isValidSemverRange } from "../utils/semver.js";
 
 function hasControlCharacters(value: string): boolean {
   for (let i = 0; i < value.length; i++) {
@@ -28,16 +36,23 @@ function hasControlCharacters(value: string): boolean {
 
 /**
  * Schema for a single source entry in the sources array.
- * Declares an external repository from which skills can be fetched.
+ * Declares an external repository, local directory or `.tar.gz` file from which skills, rules,
+ * commands, subagents, MCP servers and hooks can be fetched. Each selector lists the names to fetch, or `"*"` for all.
  */
 export const SourceEntrySchema = z.object({
   source: z.string().check(minLength(1, "source must be a non-empty string")),
   skills: optional(z.array(z.string())),
-  transport: optional(z.enum(["github", "git"])),
+  rules: optional(z.array(z.string())),
+  commands: optional(z.array(z.string())),
+  subagents: optional(z.array(z.string())),
+  mcp: optional(z.array(z.string())),
+  hooks: optional(z.array(z.string())),
+  transport: optional(z.enum(["github", "git", "local", "tarball"])),
   ref: optional(
     z.string().check(
       refine((v) => !v.startsWith("-"), 'ref must not start with "-"'),
       refine((v) => !hasControlCharacters(v), "ref must not contain control characters"),
+      refine((v) => !isSemverRange(v) || isValidSemverRange(v), "ref is not a valid semver range"),
     ),
   ),
   path: optional(
@@ -47,9 +62,66 @@ export const SourceEntrySchema = z.object({
       refine((v) => !hasControlCharacters(v), "path must not contain control characters"),
     ),
   ),
+  // Refuse to install commits or tags not signed by a key of `allowedSigners`
+  requireSignature: optional(z.boolean()),
 });
 export type SourceEntry = z.infer<typeof SourceEntrySchema>;
 
+/**
+ * Schema for a self-hosted Git host, keyed by host name in `gitHosts`.
+ * Maps the host to a provider so that `fetch` can read sources from it, optionally with the URL
+ * of its API and the environment variable holding its token. The token is sent to `apiUrl`, so
+ * `tokenEnv` is limited to names that are meant to hold tokens.
+ */
+export const GitHostSchema = z.object({
+  provider: GitProviderSchema,
+  apiUrl: optional(
+    z.string().check(refine((v) => v.startsWith("https://"), "apiUrl must use HTTPS")),
+  ),
+  tokenEnv: optional(
+    z
+      .string()
+      .check(
+        refine(
+          (v) => /^(RULESYNC_TOKEN_[A-Z0-9_]+|[A-Z0-9_]+_TOKEN)$/.test(v),
+          "tokenEnv must be named RULESYNC_TOKEN_* or *_TOKEN",
+        ),
+      ),
+  ),
+});
+export type GitHost = z.infer<typeof GitHostSchema>;
+
+function isApiUrlOnHost(apiUrl: string, host: string): boolean {
+  try {
+    return new URL(apiUrl).hostname === new URL(`https://${host}`).hostname;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Schema for a fetch spec in the `fetch` array: the source and options of a `rulesync fetch` run,
+ * replayed by `rulesync fetch --all`.
+ */
+export const FetchSpecSchema = z.object({
+  source: z.string().check(minLength(1, "source must be a non-empty string")),
+  target: optional(FetchTargetSchema),
+  features: optional(z.array(z.enum(ALL_FEATURES_WITH_WILDCARD))),
+  path: optional(z.string()),
+  ref: optional(z.string()),
+  output: optional(z.string()),
+  conflict: optional(ConflictStrategySchema),
+});
+export type FetchSpec = z.infer<typeof FetchSpecSchema>;
+
+/**
+ * Schema for template variables, available in rule, command and skill bodies as `{{vars.<name>}}`.
+ */
+export const TemplateVarsSchema = z.record(
+  z.string(),
+  z.union([z.string(), z.number(), z.boolean()]),
+);
+
 export const ConfigParamsSchema = z.object({
   baseDirs: z.array(z.string()),
   targets: RulesyncTargetsSchema,
@@ -66,19 +138,68 @@ export const ConfigParamsSchema = z.object({
   check: optional(z.boolean()),
   // Declarative skill sources
   sources: optional(z.array(SourceEntrySchema)),
+  // Template variables for bodies
+  vars: optional(TemplateVarsSchema),
+  // How `generate` reacts to curated skills that no longer match their lockfile integrity
+  integrityCheck: optional(z.enum(["warn", "fail"])),
+  // Self-hosted Git hosts by host name
+  gitHosts: optional(z.record(z.string(), GitHostSchema)),
+  // Sources replayed by `fetch --all`
+  fetch: optional(z.array(FetchSpecSchema)),
+  // Allowed-signers file for sources with `requireSignature`
+  allowedSigners: optional(z.string()),
+  // Write the values of `${env:NAME}` MCP placeholders that a tool cannot reference
+  resolveMcpEnv: optional(z.boolean()),
+  // Merge MCP servers into tool MCP files, keeping the servers rulesync did not write
+  mergeMcp: optional(z.boolean()),
 });
 export type ConfigParams = z.infer<typeof ConfigParamsSchema>;
+export type IntegrityCheckMode = NonNullable<ConfigParams["integrityCheck"]>;
 
 export const PartialConfigParamsSchema = z.partial(ConfigParamsSchema);
 export type PartialConfigParams = z.infer<typeof PartialConfigParamsSchema>;
 
+/**
+ * Schema for the `extends` field: one preset or a list of presets merged in order.
+ * Each preset is a path relative to the config file or a git source (owner/repo[@ref][:path]).
+ */
+export const ConfigExtendsSchema = z.union([
+  z.string().check(minLength(1, "extends must be a non-empty string")),
+  z.array(z.string().check(minLength(1, "extends entries must be non-empty strings"))),
+]);
+export type ConfigExtends = z.infer<typeof ConfigExtendsSchema>;
+
+/**
+ * Schema for a named profile, selected with `--profile <name>`.
+ * A profile overrides the config file values it sets; CLI options still take precedence.
+ */
+export const ConfigProfileSchema = z.partial(
+  z.pick(ConfigParamsSchema, {
+    targets: true,
+    features: true,
+    baseDirs: true,
+    delete: true,
+    simulateCommands: true,
+    simulateSubagents: true,
+    simulateSkills: true,
+  }),
+);
+export type ConfigProfile = z.infer<typeof ConfigProfileSchema>;
+
 // Schema for config file that includes $schema property for editor support
 export const ConfigFileSchema = z.object({
   $schema: optional(z.string()),
+  extends: optional(ConfigExtendsSchema),
   ...z.partial(ConfigParamsSchema).shape,
+  profiles: optional(z.record(z.string(), ConfigProfileSchema)),
 });
 export type ConfigFile = z.infer<typeof ConfigFileSchema>;
 
+/**
+ * Config file values after resolving `extends`, without the editor-only `$schema`.
+ */
+export type ConfigFileParams = Omit<ConfigFile, "$schema" | "extends">;
+
 export const RequiredConfigParamsSchema = z.required(ConfigParamsSchema);
 export type RequiredConfigParams = z.infer<typeof RequiredConfigParamsSchema>;
 
@@ -110,6 +231,13 @@ export class Config {
   private readonly dryRun: boolean;
   private readonly check: boolean;
   private readonly sources: SourceEntry[];
+  private readonly vars: TemplateVars;
+  private readonly integrityCheck: IntegrityCheckMode;
+  private readonly gitHosts: Record<string, GitHost>;
+  private readonly fetch: FetchSpec[];
+  private readonly allowedSigners: string;
+  private readonly resolveMcpEnv: boolean;
+  private readonly mergeMcp: boolean;
 
   constructor({
     baseDirs,
@@ -125,9 +253,17 @@ export class Config {
     dryRun,
     check,
     sources,
+    vars,
+    integrityCheck,
+    gitHosts,
+    fetch,
+    allowedSigners,
+    resolveMcpEnv,
+    mergeMcp,
   }: ConfigParams) {
     // Validate conflicting targets
     this.validateConflictingTargets(targets);
+    this.validateGitHosts(gitHosts ?? {});
 
     // Validate --dry-run and --check are mutually exclusive
     if (dryRun && check) {
@@ -148,6 +284,28 @@ export class Config {
     this.dryRun = dryRun ?? false;
     this.check = check ?? false;
     this.sources = sources ?? [];
+    this.vars = vars ?? {};
+    this.integrityCheck = integrityCheck ?? "warn";
+    this.gitHosts = gitHosts ?? {};
+    this.fetch = fetch ?? [];
+    this.allowedSigners = allowedSigners ?? RULESYNC_ALLOWED_SIGNERS_RELATIVE_FILE_PATH;
+    this.resolveMcpEnv = resolveMcpEnv ?? false;
+    this.mergeMcp = mergeMcp ?? false;
+  }
+
+  /**
+   * Tokens are sent to the API of a host in `gitHosts`, so the public hosts of the providers
+   * cannot be remapped and the API must be served from the host itself.
+   */
+  private validateGitHosts(gitHosts: Record<string, GitHost>): void {
+    for (const [host, { apiUrl }] of Object.entries(gitHosts)) {
+      if (isPublicGitHost(host)) {
+        throw new Error(`gitHosts cannot configure the public host "${host}"`);
+      }
+      if (apiUrl !== undefined && !isApiUrlOnHost(apiUrl, host)) {
+        throw new Error(`apiUrl of "${host}" in gitHosts must be on that host: ${apiUrl}`);
+      }
+    }
   }
 
   private validateConflictingTargets(targets: RulesyncTargets): void {
@@ -275,6 +433,34 @@ export class Config {
     return this.sources;
   }
 
+  public getVars(): TemplateVars {
+    return this.vars;
+  }
+
+  public getIntegrityCheck(): IntegrityCheckMode {
+    return this.integrityCheck;
+  }
+
+  public getGitHosts(): Record<string, GitHost> {
+    return this.gitHosts;
+  }
+
+  public getFetchSpecs(): FetchSpec[] {
+    return this.fetch;
+  }
+
+  public getAllowedSigners(): string {
+    return this.allowedSigners;
+  }
+
+  public getResolveMcpEnv(): boolean {
+    return this.resolveMcpEnv;
+  }
+
+  public getMergeMcp(): boolean {
+    return this.mergeMcp;
+  }
+
   /**
    * Returns true if either dry-run or check mode is enabled.
    * In both modes, no files should be written.
@@ -4,6 +4,11 @@ export const RULESYNC_CONFIG_RELATIVE_FILE_PATH = "rulesync.jsonc";
 export const RULESYNC_LOCAL_CONFIG_RELATIVE_FILE_PATH = "rulesync.local.jsonc";
 export const RULESYNC_RELATIVE_DIR_PATH = ".rulesync";
 export const RULESYNC_RULES_RELATIVE_DIR_PATH = join(RULESYNC_RELATIVE_DIR_PATH, "rules");
+export const RULESYNC_PARTIALS_DIR_NAME = "partials";
+export const RULESYNC_PARTIALS_RELATIVE_DIR_PATH = join(
+  RULESYNC_RELATIVE_DIR_PATH,
+  RULESYNC_PARTIALS_DIR_NAME,
+);
 export const RULESYNC_COMMANDS_RELATIVE_DIR_PATH = join(RULESYNC_RELATIVE_DIR_PATH, "commands");
 export const RULESYNC_SUBAGENTS_RELATIVE_DIR_PATH = join(RULESYNC_RELATIVE_DIR_PATH, "subagents");
 export const RULESYNC_MCP_RELATIVE_FILE_PATH = join(RULESYNC_RELATIVE_DIR_PATH, "mcp.json");
@@ -17,7 +22,44 @@ export const RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH = join(
   RULESYNC_SKILLS_RELATIVE_DIR_PATH,
   ".curated",
 );
+export const RULESYNC_SKILL_OVERLAYS_RELATIVE_DIR_PATH = join(
+  RULESYNC_SKILLS_RELATIVE_DIR_PATH,
+  ".overlays",
+);
+export const RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH = join(
+  RULESYNC_RULES_RELATIVE_DIR_PATH,
+  ".curated",
+);
+export const RULESYNC_CURATED_COMMANDS_RELATIVE_DIR_PATH = join(
+  RULESYNC_COMMANDS_RELATIVE_DIR_PATH,
+  ".curated",
+);
+export const RULESYNC_CURATED_SUBAGENTS_RELATIVE_DIR_PATH = join(
+  RULESYNC_SUBAGENTS_RELATIVE_DIR_PATH,
+  ".curated",
+);
+export const RULESYNC_CURATED_RELATIVE_DIR_PATH = join(RULESYNC_RELATIVE_DIR_PATH, ".curated");
+export const RULESYNC_CURATED_MCP_RELATIVE_FILE_PATH = join(
+  RULESYNC_CURATED_RELATIVE_DIR_PATH,
+  "mcp.json",
+);
+export const RULESYNC_CURATED_HOOKS_RELATIVE_FILE_PATH = join(
+  RULESYNC_CURATED_RELATIVE_DIR_PATH,
+  "hooks.json",
+);
 export const RULESYNC_SOURCES_LOCK_RELATIVE_FILE_PATH = "rulesync.lock";
+export const RULESYNC_GENERATED_MANIFEST_RELATIVE_FILE_PATH = join(
+  RULESYNC_RELATIVE_DIR_PATH,
+  ".generated.json",
+);
+export const RULESYNC_FETCH_BASE_RELATIVE_FILE_PATH = join(
+  RULESYNC_RELATIVE_DIR_PATH,
+  ".fetch-base.json",
+);
+export const RULESYNC_ALLOWED_SIGNERS_RELATIVE_FILE_PATH = join(
+  RULESYNC_RELATIVE_DIR_PATH,
+  "allowed_signers",
+);
 
 // File names (without path)
 export const RULESYNC_MCP_FILE_NAME = "mcp.json";
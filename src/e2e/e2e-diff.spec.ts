@@ -0,0 +1,41 @@
+import { join } from "node:path";
+
+import { describe, expect, it } from "vitest";
+
+import {
+  RULESYNC_OVERVIEW_FILE_NAME,
+  RULESYNC_RULES_RELATIVE_DIR_PATH,
+} from "../constants/rulesync-paths.js";
+import { writeFileContent } from "../utils/file.js";
+import { execFileAsync, rulesyncArgs, rulesyncCmd, useTestDirectory } from "./e2e-helper.js";
+
+describe("E2E: diff", () => {
+  const { getTestDir } = useTestDirectory();
+
+  it("should write only the patch to stdout", async () => {
+    const testDir = getTestDir();
+    await writeFileContent(
+      join(testDir, RULESYNC_RULES_RELATIVE_DIR_PATH, RULESYNC_OVERVIEW_FILE_NAME),
+      `---
+root: true
+targets: ["*"]
+---
+
+# Test Rule
+`,
+    );
+
+    // Enable logging in the CLI, which is disabled in the test environment
+    const { NODE_ENV: _nodeEnv, TEST: _test, ...env } = process.env;
+    const { stdout, stderr } = await execFileAsync(
+      rulesyncCmd,
+      [...rulesyncArgs, "diff", "--targets", "claudecode", "--features", "rules"],
+      { env },
+    );
+
+    expect(stdout).toBe(
+      ["--- /dev/null", "+++ b/CLAUDE.md", "@@ -0,0 +1 @@", "+# Test Rule", ""].join("\n"),
+    );
+    expect(stderr).toContain("[DRY RUN] Would write:");
+  });
+});
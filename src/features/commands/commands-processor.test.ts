@@ -2,7 +2,10 @@ import { join } from "node:path";
 
 import { afterEach, beforeEach, describe, expect, it, MockedFunction, vi } from "vitest";
 
-import { RULESYNC_COMMANDS_RELATIVE_DIR_PATH } from "../../constants/rulesync-paths.js";
+import {
+  RULESYNC_COMMANDS_RELATIVE_DIR_PATH,
+  RULESYNC_CURATED_COMMANDS_RELATIVE_DIR_PATH,
+} from "../../constants/rulesync-paths.js";
 import { setupTestDirectory } from "../../test-utils/test-directories.js";
 import { findFilesByGlobs } from "../../utils/file.js";
 import { logger } from "../../utils/logger.js";
@@ -86,6 +89,7 @@ vi.mocked(RulesyncCommand).mockImplementation(function (config: any) {
   Object.assign(instance, config);
   instance.getRelativeFilePath = () => config.relativeFilePath;
   instance.getRelativeDirPath = () => config.relativeDirPath;
+  instance.getRelativePathFromCwd = () => join(config.relativeDirPath, config.relativeFilePath);
   instance.getBaseDir = () => config.baseDir;
   instance.getFrontmatter = () => config.frontmatter;
   instance.getBody = () => config.body;
@@ -205,6 +209,8 @@ describe("CommandsProcessor", () => {
     ({ testDir, cleanup } = await setupTestDirectory());
     vi.spyOn(process, "cwd").mockReturnValue(testDir);
     vi.clearAllMocks();
+    // RulesyncCommand is auto-mocked; give its body a value for template rendering
+    vi.mocked(RulesyncCommand.prototype.getBody).mockReturnValue("test content");
   });
 
   afterEach(async () => {
@@ -627,6 +633,63 @@ describe("CommandsProcessor", () => {
     });
   });
 
+  describe("getConversionLosses", () => {
+    const createCommand = (frontmatter: Record<string, unknown>) =>
+      new RulesyncCommand({
+        baseDir: testDir,
+        relativeDirPath: RULESYNC_COMMANDS_RELATIVE_DIR_PATH,
+        relativeFilePath: "review.md",
+        fileContent: "",
+        frontmatter: { targets: ["*"], ...frontmatter },
+        body: "Review the code",
+      });
+
+    it("should keep the tool's own section and not report sections of other tools", () => {
+      processor = new CommandsProcessor({ baseDir: testDir, toolTarget: "claudecode" });
+      const command = createCommand({
+        description: "Review",
+        claudecode: { "allowed-tools": ["Bash"] },
+        geminicli: { model: "flash" },
+      });
+
+      expect(processor.getConversionLosses([command])).toEqual([]);
+    });
+
+    it("should report fields of the tool's own section it cannot write", () => {
+      processor = new CommandsProcessor({ baseDir: testDir, toolTarget: "antigravity" });
+      const command = createCommand({ antigravity: { trigger: "/review", model: "flash" } });
+
+      expect(processor.getConversionLosses([command])).toEqual([
+        {
+          file: join(RULESYNC_COMMANDS_RELATIVE_DIR_PATH, "review.md"),
+          kind: "dropped",
+          item: "antigravity.model",
+          reason: "Not supported by antigravity",
+        },
+      ]);
+    });
+
+    it("should report a description the tool cannot write", () => {
+      processor = new CommandsProcessor({ baseDir: testDir, toolTarget: "cline" });
+
+      expect(processor.getConversionLosses([createCommand({ description: "Review" })])).toEqual([
+        expect.objectContaining({
+          kind: "dropped",
+          item: "description",
+          reason: "cline command files have no description",
+        }),
+      ]);
+    });
+
+    it("should report simulated commands as approximated", () => {
+      processor = new CommandsProcessor({ baseDir: testDir, toolTarget: "agentsmd" });
+
+      expect(processor.getConversionLosses([createCommand({})])).toEqual([
+        expect.objectContaining({ kind: "approximated", item: "command" }),
+      ]);
+    });
+  });
+
   describe("convertToolFilesToRulesyncFiles", () => {
     beforeEach(() => {
       processor = new CommandsProcessor({
@@ -751,7 +814,7 @@ describe("CommandsProcessor", () => {
         }),
       ];
 
-      mockFindFilesByGlobs.mockResolvedValue(mockPaths);
+      mockFindFilesByGlobs.mockResolvedValueOnce(mockPaths).mockResolvedValueOnce([]);
       vi.mocked(RulesyncCommand.fromFile)
         .mockResolvedValueOnce(mockRulesyncCommands[0]!)
         .mockResolvedValueOnce(mockRulesyncCommands[1]!);
@@ -785,7 +848,7 @@ describe("CommandsProcessor", () => {
         body: "content1",
       });
 
-      mockFindFilesByGlobs.mockResolvedValue(mockPaths);
+      mockFindFilesByGlobs.mockResolvedValueOnce(mockPaths).mockResolvedValueOnce([]);
       vi.mocked(RulesyncCommand.fromFile)
         .mockResolvedValueOnce(mockRulesyncCommand)
         .mockRejectedValueOnce(new Error("Failed to load"));
@@ -832,7 +895,7 @@ describe("CommandsProcessor", () => {
         }),
       ];
 
-      mockFindFilesByGlobs.mockResolvedValue(mockPaths);
+      mockFindFilesByGlobs.mockResolvedValueOnce(mockPaths).mockResolvedValueOnce([]);
       vi.mocked(RulesyncCommand.fromFile)
         .mockResolvedValueOnce(mockRulesyncCommands[0]!)
         .mockResolvedValueOnce(mockRulesyncCommands[1]!);
@@ -846,6 +909,27 @@ describe("CommandsProcessor", () => {
       expect(result).toEqual(mockRulesyncCommands);
     });
 
+    it("should load curated commands that are not shadowed by local commands", async () => {
+      mockFindFilesByGlobs
+        .mockResolvedValueOnce([join(RULESYNC_COMMANDS_RELATIVE_DIR_PATH, "review.md")])
+        .mockResolvedValueOnce([
+          join(RULESYNC_CURATED_COMMANDS_RELATIVE_DIR_PATH, "review.md"),
+          join(RULESYNC_CURATED_COMMANDS_RELATIVE_DIR_PATH, "deploy.md"),
+        ]);
+
+      await processor.loadRulesyncFiles();
+
+      expect(mockFindFilesByGlobs).toHaveBeenCalledWith(
+        join(RULESYNC_CURATED_COMMANDS_RELATIVE_DIR_PATH, "**", "*.md"),
+      );
+      expect(RulesyncCommand.fromFile).toHaveBeenCalledTimes(2);
+      expect(RulesyncCommand.fromFile).toHaveBeenCalledWith({ relativeFilePath: "review.md" });
+      expect(RulesyncCommand.fromFile).toHaveBeenCalledWith({
+        relativeDirPath: RULESYNC_CURATED_COMMANDS_RELATIVE_DIR_PATH,
+        relativeFilePath: "deploy.md",
+      });
+    });
+
     it("should reject path traversal in loadRulesyncFiles", async () => {
       mockFindFilesByGlobs.mockResolvedValue([
         join(RULESYNC_COMMANDS_RELATIVE_DIR_PATH, "..", "..", "etc", "passwd"),
@@ -2,13 +2,18 @@ import { basename, join, relative } from "node:path";
 
 import { z } from "zod/mini";
 
+import { RULESYNC_CURATED_COMMANDS_RELATIVE_DIR_PATH } from "../../constants/rulesync-paths.js";
+import type { ConversionLoss } from "../../types/conversion-loss.js";
 import { FeatureProcessor } from "../../types/feature-processor.js";
 import { RulesyncFile } from "../../types/rulesync-file.js";
+import type { TemplateVars } from "../../types/template.js";
 import { ToolFile } from "../../types/tool-file.js";
 import type { ToolTarget } from "../../types/tool-targets.js";
+import { getToolSectionLosses, type ToolSectionSupport } from "../../utils/conversion-loss.js";
 import { formatError } from "../../utils/error.js";
 import { checkPathTraversal, findFilesByGlobs } from "../../utils/file.js";
 import { logger } from "../../utils/logger.js";
+import { renderTemplate } from "../../utils/template.js";
 import { AgentsmdCommand } from "./agentsmd-command.js";
 import { AntigravityCommand } from "./antigravity-command.js";
 import { ClaudecodeCommand } from "./claudecode-command.js";
@@ -54,6 +59,10 @@ type ToolCommandFactory = {
     isSimulated: boolean;
     /** Whether the tool supports subdirectory paths in commands */
     supportsSubdirectory: boolean;
+    /** Common frontmatter fields not written to the tool's command files */
+    unsupportedFields?: readonly "description"[];
+    /** Tool-specific frontmatter section read by the tool */
+    toolSection?: ToolSectionSupport;
   };
 };
 
@@ -111,6 +120,7 @@ const toolCommandFactories = new Map<CommandsProcessorToolTarget, ToolCommandFac
         supportsGlobal: false,
         isSimulated: false,
         supportsSubdirectory: false,
+        toolSection: { name: "antigravity", fields: ["trigger", "turbo"] },
       },
     },
   ],
@@ -124,6 +134,7 @@ const toolCommandFactories = new Map<CommandsProcessorToolTarget, ToolCommandFac
         supportsGlobal: true,
         isSimulated: false,
         supportsSubdirectory: true,
+        toolSection: { name: "claudecode", fields: "*" },
       },
     },
   ],
@@ -137,6 +148,7 @@ const toolCommandFactories = new Map<CommandsProcessorToolTarget, ToolCommandFac
         supportsGlobal: true,
         isSimulated: false,
         supportsSubdirectory: true,
+        toolSection: { name: "claudecode", fields: "*" },
       },
     },
   ],
@@ -150,6 +162,7 @@ const toolCommandFactories = new Map<CommandsProcessorToolTarget, ToolCommandFac
         supportsGlobal: true,
         isSimulated: false,
         supportsSubdirectory: false,
+        unsupportedFields: ["description"],
       },
     },
   ],
@@ -163,6 +176,7 @@ const toolCommandFactories = new Map<CommandsProcessorToolTarget, ToolCommandFac
         supportsGlobal: true,
         isSimulated: false,
         supportsSubdirectory: false,
+        unsupportedFields: ["description"],
       },
     },
   ],
@@ -176,6 +190,7 @@ const toolCommandFactories = new Map<CommandsProcessorToolTarget, ToolCommandFac
         supportsGlobal: false,
         isSimulated: false,
         supportsSubdirectory: false,
+        toolSection: { name: "copilot", fields: "*" },
       },
     },
   ],
@@ -189,6 +204,7 @@ const toolCommandFactories = new Map<CommandsProcessorToolTarget, ToolCommandFac
         supportsGlobal: true,
         isSimulated: false,
         supportsSubdirectory: false,
+        toolSection: { name: "cursor", fields: "*" },
       },
     },
   ],
@@ -228,6 +244,7 @@ const toolCommandFactories = new Map<CommandsProcessorToolTarget, ToolCommandFac
         supportsGlobal: true,
         isSimulated: false,
         supportsSubdirectory: false,
+        unsupportedFields: ["description"],
       },
     },
   ],
@@ -241,6 +258,7 @@ const toolCommandFactories = new Map<CommandsProcessorToolTarget, ToolCommandFac
         supportsGlobal: false,
         isSimulated: false,
         supportsSubdirectory: false,
+        unsupportedFields: ["description"],
       },
     },
   ],
@@ -254,6 +272,7 @@ const toolCommandFactories = new Map<CommandsProcessorToolTarget, ToolCommandFac
         supportsGlobal: true,
         isSimulated: false,
         supportsSubdirectory: true,
+        toolSection: { name: "opencode", fields: "*" },
       },
     },
   ],
@@ -267,6 +286,7 @@ const toolCommandFactories = new Map<CommandsProcessorToolTarget, ToolCommandFac
         supportsGlobal: false,
         isSimulated: false,
         supportsSubdirectory: true,
+        toolSection: { name: "roo", fields: "*" },
       },
     },
   ],
@@ -310,18 +330,21 @@ export class CommandsProcessor extends FeatureProcessor {
   private readonly toolTarget: CommandsProcessorToolTarget;
   private readonly global: boolean;
   private readonly getFactory: GetFactory;
+  private readonly templateVars: TemplateVars;
 
   constructor({
     baseDir = process.cwd(),
     toolTarget,
     global = false,
     getFactory = defaultGetFactory,
+    templateVars = {},
     dryRun = false,
   }: {
     baseDir?: string;
     toolTarget: ToolTarget;
     global?: boolean;
     getFactory?: GetFactory;
+    templateVars?: TemplateVars;
     dryRun?: boolean;
   }) {
     super({ baseDir, dryRun });
@@ -334,12 +357,22 @@ export class CommandsProcessor extends FeatureProcessor {
     this.toolTarget = result.data;
     this.global = global;
     this.getFactory = getFactory;
+    this.templateVars = templateVars;
   }
 
   async convertRulesyncFilesToToolFiles(rulesyncFiles: RulesyncFile[]): Promise<ToolFile[]> {
-    const rulesyncCommands = rulesyncFiles.filter(
-      (file): file is RulesyncCommand => file instanceof RulesyncCommand,
-    );
+    const rulesyncCommands = rulesyncFiles
+      .filter((file): file is RulesyncCommand => file instanceof RulesyncCommand)
+      .map((rulesyncCommand) => {
+        const body = renderTemplate({
+          content: rulesyncCommand.getBody(),
+          context: { target: this.toolTarget, global: this.global, vars: this.templateVars },
+          filePath: rulesyncCommand.getRelativePathFromCwd(),
+        });
+        return body === rulesyncCommand.getBody()
+          ? rulesyncCommand
+          : rulesyncCommand.withBody(body);
+      });
 
     const factory = this.getFactory(this.toolTarget);
     const flattenedPathOrigins = new Map<string, string>();
@@ -375,6 +408,55 @@ export class CommandsProcessor extends FeatureProcessor {
     return toolCommands;
   }
 
+  /**
+   * List the frontmatter fields of the given commands that the tool's command files cannot
+   * represent. Simulated commands are reported as approximated as a whole.
+   */
+  getConversionLosses(rulesyncFiles: RulesyncFile[]): ConversionLoss[] {
+    const factory = this.getFactory(this.toolTarget);
+    const { meta } = factory;
+
+    const losses: ConversionLoss[] = [];
+    for (const rulesyncCommand of rulesyncFiles) {
+      if (
+        !(rulesyncCommand instanceof RulesyncCommand) ||
+        !factory.class.isTargetedByRulesyncCommand(rulesyncCommand)
+      ) {
+        continue;
+      }
+      const frontmatter = rulesyncCommand.getFrontmatter();
+      const file = rulesyncCommand.getRelativePathFromCwd();
+
+      if (meta.isSimulated) {
+        losses.push({
+          file,
+          kind: "approximated",
+          item: "command",
+          reason: `Simulated through the ${this.toolTarget} rules`,
+        });
+      }
+      for (const field of meta.unsupportedFields ?? []) {
+        if (frontmatter[field] !== undefined) {
+          losses.push({
+            file,
+            kind: "dropped",
+            item: field,
+            reason: `${this.toolTarget} command files have no ${field}`,
+          });
+        }
+      }
+      losses.push(
+        ...getToolSectionLosses({
+          file,
+          frontmatter,
+          toolTarget: this.toolTarget,
+          section: meta.toolSection,
+        }),
+      );
+    }
+    return losses;
+  }
+
   async convertToolFilesToRulesyncFiles(toolFiles: ToolFile[]): Promise<RulesyncFile[]> {
     const toolCommands = toolFiles.filter(
       (file): file is ToolCommand => file instanceof ToolCommand,
@@ -405,13 +487,23 @@ export class CommandsProcessor extends FeatureProcessor {
    */
   async loadRulesyncFiles(): Promise<RulesyncFile[]> {
     const basePath = RulesyncCommand.getSettablePaths().relativeDirPath;
-    const rulesyncCommandPaths = await findFilesByGlobs(join(basePath, "**", "*.md"));
+    const localFilePaths = (await findFilesByGlobs(join(basePath, "**", "*.md"))).map((path) =>
+      this.safeRelativePath(basePath, path),
+    );
 
-    const rulesyncCommands = await Promise.all(
-      rulesyncCommandPaths.map((path) =>
-        RulesyncCommand.fromFile({ relativeFilePath: this.safeRelativePath(basePath, path) }),
+    // Commands fetched from sources are used unless a local command has the same path
+    const curatedBasePath = RULESYNC_CURATED_COMMANDS_RELATIVE_DIR_PATH;
+    const localFilePathSet = new Set(localFilePaths);
+    const curatedFilePaths = (await findFilesByGlobs(join(curatedBasePath, "**", "*.md")))
+      .map((path) => this.safeRelativePath(curatedBasePath, path))
+      .filter((relativeFilePath) => !localFilePathSet.has(relativeFilePath));
+
+    const rulesyncCommands = await Promise.all([
+      ...localFilePaths.map((relativeFilePath) => RulesyncCommand.fromFile({ relativeFilePath })),
+      ...curatedFilePaths.map((relativeFilePath) =>
+        RulesyncCommand.fromFile({ relativeDirPath: curatedBasePath, relativeFilePath }),
       ),
-    );
+    ]);
 
     logger.debug(`Successfully loaded ${rulesyncCommands.length} rulesync commands`);
     return rulesyncCommands;
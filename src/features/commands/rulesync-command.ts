@@ -78,6 +78,17 @@ export class RulesyncCommand extends RulesyncFile {
     return this.body;
   }
 
+  withBody(newBody: string): RulesyncCommand {
+    return new RulesyncCommand({
+      baseDir: this.getBaseDir(),
+      relativeDirPath: this.getRelativeDirPath(),
+      relativeFilePath: this.getRelativeFilePath(),
+      frontmatter: this.getFrontmatter(),
+      body: newBody,
+      fileContent: this.getFileContent(),
+    });
+  }
+
   withRelativeFilePath(newRelativeFilePath: string): RulesyncCommand {
     return new RulesyncCommand({
       baseDir: this.getBaseDir(),
@@ -110,14 +121,11 @@ export class RulesyncCommand extends RulesyncFile {
   }
 
   static async fromFile({
+    relativeDirPath = RulesyncCommand.getSettablePaths().relativeDirPath,
     relativeFilePath,
   }: RulesyncFileFromFileParams): Promise<RulesyncCommand> {
     // Read file content
-    const filePath = join(
-      process.cwd(),
-      RulesyncCommand.getSettablePaths().relativeDirPath,
-      relativeFilePath,
-    );
+    const filePath = join(process.cwd(), relativeDirPath, relativeFilePath);
     const fileContent = await readFileContent(filePath);
     const { frontmatter, body: content } = parseFrontmatter(fileContent, filePath);
 
@@ -129,7 +137,7 @@ export class RulesyncCommand extends RulesyncFile {
 
     return new RulesyncCommand({
       baseDir: process.cwd(),
-      relativeDirPath: RulesyncCommand.getSettablePaths().relativeDirPath,
+      relativeDirPath,
       relativeFilePath,
       frontmatter: result.data,
       body: content.trim(),
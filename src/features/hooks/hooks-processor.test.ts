@@ -2,9 +2,13 @@ import { join } from "node:path";
 
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-import { RULESYNC_HOOKS_RELATIVE_FILE_PATH } from "../../constants/rulesync-paths.js";
+import {
+  RULESYNC_CURATED_HOOKS_RELATIVE_FILE_PATH,
+  RULESYNC_HOOKS_RELATIVE_FILE_PATH,
+} from "../../constants/rulesync-paths.js";
 import { RULESYNC_RELATIVE_DIR_PATH } from "../../constants/rulesync-paths.js";
 import { setupTestDirectory } from "../../test-utils/test-directories.js";
+import { COPILOT_HOOK_EVENTS } from "../../types/hooks.js";
 import { ensureDir, writeFileContent } from "../../utils/file.js";
 import { logger } from "../../utils/logger.js";
 import { ClaudecodeHooks } from "./claudecode-hooks.js";
@@ -99,6 +103,47 @@ describe("HooksProcessor", () => {
       expect((files[0] as RulesyncHooks).getJson().hooks.sessionStart).toHaveLength(1);
     });
 
+    it("should merge curated hook events, with local events taking precedence", async () => {
+      await writeFileContent(
+        join(testDir, RULESYNC_HOOKS_RELATIVE_FILE_PATH),
+        JSON.stringify({
+          version: 1,
+          hooks: { sessionStart: [{ type: "command", command: "local" }] },
+        }),
+      );
+      await writeFileContent(
+        join(testDir, RULESYNC_CURATED_HOOKS_RELATIVE_FILE_PATH),
+        JSON.stringify({
+          version: 1,
+          hooks: {
+            sessionStart: [{ type: "command", command: "curated" }],
+            stop: [{ type: "command", command: "curated" }],
+          },
+        }),
+      );
+
+      const processor = new HooksProcessor({ baseDir: testDir, toolTarget: "cursor" });
+      const [file] = await processor.loadRulesyncFiles();
+
+      expect((file as RulesyncHooks).getJson().hooks).toEqual({
+        sessionStart: [{ type: "command", command: "local" }],
+        stop: [{ type: "command", command: "curated" }],
+      });
+    });
+
+    it("should load curated hooks when there is no local hooks file", async () => {
+      await writeFileContent(
+        join(testDir, RULESYNC_CURATED_HOOKS_RELATIVE_FILE_PATH),
+        JSON.stringify({ version: 1, hooks: { stop: [{ type: "command", command: "curated" }] } }),
+      );
+
+      const processor = new HooksProcessor({ baseDir: testDir, toolTarget: "cursor" });
+      const files = await processor.loadRulesyncFiles();
+
+      expect(files).toHaveLength(1);
+      expect((files[0] as RulesyncHooks).getJson().hooks.stop).toHaveLength(1);
+    });
+
     it("should return empty array when hooks file does not exist", async () => {
       const processor = new HooksProcessor({ baseDir: testDir, toolTarget: "cursor" });
       const files = await processor.loadRulesyncFiles();
@@ -444,4 +489,63 @@ describe("HooksProcessor", () => {
       expect(targets).toEqual(["claudecode", "factorydroid", "geminicli"]);
     });
   });
+
+  describe("getConversionLosses", () => {
+    it("should report unsupported events, hook types and matchers", () => {
+      const rulesyncHooks = new RulesyncHooks({
+        baseDir: testDir,
+        relativeDirPath: RULESYNC_RELATIVE_DIR_PATH,
+        relativeFilePath: "hooks.json",
+        fileContent: JSON.stringify({
+          version: 1,
+          hooks: {
+            afterFileEdit: [{ command: "format.sh" }],
+            sessionStart: [{ type: "prompt", prompt: "Say hello" }],
+            preToolUse: [{ command: "check.sh", matcher: "Bash" }],
+          },
+        }),
+        validate: false,
+      });
+
+      const processor = new HooksProcessor({ baseDir: testDir, toolTarget: "copilot" });
+
+      expect(processor.getConversionLosses([rulesyncHooks])).toEqual([
+        {
+          file: RULESYNC_HOOKS_RELATIVE_FILE_PATH,
+          kind: "dropped",
+          item: "hooks.afterFileEdit",
+          reason: "copilot has no afterFileEdit event",
+        },
+        {
+          file: RULESYNC_HOOKS_RELATIVE_FILE_PATH,
+          kind: "dropped",
+          item: "hooks.sessionStart",
+          reason: "copilot does not support prompt-type hooks",
+        },
+        {
+          file: RULESYNC_HOOKS_RELATIVE_FILE_PATH,
+          kind: "dropped",
+          item: "hooks.preToolUse.matcher",
+          reason: "copilot hooks have no matcher",
+        },
+      ]);
+      expect(logger.warn).not.toHaveBeenCalled();
+    });
+
+    it("should return no losses without a hooks file", () => {
+      const processor = new HooksProcessor({ baseDir: testDir, toolTarget: "cursor" });
+
+      expect(processor.getConversionLosses([])).toEqual([]);
+    });
+  });
+
+  describe("getSupportedEvents", () => {
+    it("should return the events supported by a hooks target", () => {
+      expect(HooksProcessor.getSupportedEvents("copilot")).toEqual(COPILOT_HOOK_EVENTS);
+    });
+
+    it("should return an empty list for targets without hooks support", () => {
+      expect(HooksProcessor.getSupportedEvents("cline")).toEqual([]);
+    });
+  });
 });
@@ -1,6 +1,7 @@
 import { z } from "zod/mini";
 
 import { RULESYNC_HOOKS_RELATIVE_FILE_PATH } from "../../constants/rulesync-paths.js";
+import type { ConversionLoss } from "../../types/conversion-loss.js";
 import { FeatureProcessor } from "../../types/feature-processor.js";
 import {
   CLAUDE_HOOK_EVENTS,
@@ -9,6 +10,7 @@ import {
   FACTORYDROID_HOOK_EVENTS,
   OPENCODE_HOOK_EVENTS,
   GEMINICLI_HOOK_EVENTS,
+  type HookDefinition,
   type HookEvent,
   type HookType,
 } from "../../types/hooks.js";
@@ -161,6 +163,51 @@ const hooksProcessorToolTargetsGlobalImportable: ToolTarget[] = [...toolHooksFac
   .filter(([, f]) => f.meta.supportsGlobal && f.meta.supportsImport)
   .map(([t]) => t);
 
+/**
+ * Shared hooks merged with the tool-specific overrides of the target.
+ */
+function getEffectiveHooks(
+  rulesyncHooks: RulesyncHooks,
+  toolTarget: HooksProcessorToolTarget,
+): Record<string, HookDefinition[]> {
+  const config = rulesyncHooks.getJson();
+  return { ...config.hooks, ...config[toolTarget]?.hooks };
+}
+
+/**
+ * Find the events, hook types (with the events using them) and matchers (by event) that
+ * the tool does not support.
+ */
+function findUnsupportedHooks({
+  hooks,
+  factory,
+}: {
+  hooks: Record<string, HookDefinition[]>;
+  factory: ToolHooksFactory;
+}): { events: string[]; hookTypes: Map<string, Set<string>>; matcherEvents: Set<string> } {
+  const supportedEvents: Set<string> = new Set(factory.supportedEvents);
+  const supportedHookTypes: Set<string> = new Set(factory.supportedHookTypes);
+  const events = Object.keys(hooks).filter((event) => !supportedEvents.has(event));
+  const hookTypes = new Map<string, Set<string>>();
+  const matcherEvents = new Set<string>();
+
+  for (const [event, defs] of Object.entries(hooks)) {
+    for (const def of defs) {
+      const hookType = def.type ?? "command";
+      if (!supportedHookTypes.has(hookType)) {
+        const typeEvents = hookTypes.get(hookType) ?? new Set<string>();
+        typeEvents.add(event);
+        hookTypes.set(hookType, typeEvents);
+      }
+      if (!factory.supportsMatcher && def.matcher) {
+        matcherEvents.add(event);
+      }
+    }
+  }
+
+  return { events, hookTypes, matcherEvents };
+}
+
 export class HooksProcessor extends FeatureProcessor {
   private readonly toolTarget: HooksProcessorToolTarget;
   private readonly global: boolean;
@@ -189,12 +236,19 @@ export class HooksProcessor extends FeatureProcessor {
 
   async loadRulesyncFiles(): Promise<RulesyncFile[]> {
     try {
-      return [
-        await RulesyncHooks.fromFile({
-          baseDir: process.cwd(),
-          validate: true,
-        }),
-      ];
+      // Hooks fetched from sources are merged in, with local hook events taking precedence
+      const curated = await RulesyncHooks.fromCuratedFile({
+        baseDir: process.cwd(),
+        validate: true,
+      });
+      if (curated && !(await RulesyncHooks.exists({ baseDir: process.cwd() }))) {
+        return [curated];
+      }
+      const hooks = await RulesyncHooks.fromFile({
+        baseDir: process.cwd(),
+        validate: true,
+      });
+      return [curated ? hooks.withCuratedHooks(curated) : hooks];
     } catch (error) {
       logger.error(
         `Failed to load Rulesync hooks file (${RULESYNC_HOOKS_RELATIVE_FILE_PATH}): ${formatError(error)}`,
@@ -252,61 +306,27 @@ export class HooksProcessor extends FeatureProcessor {
     const factory = toolHooksFactories.get(this.toolTarget);
     if (!factory) throw new Error(`Unsupported tool target: ${this.toolTarget}`);
 
-    const config = rulesyncHooks.getJson();
-    const sharedHooks = config.hooks;
-    const overrideHooks = config[this.toolTarget]?.hooks ?? {};
-    const effectiveHooks = { ...sharedHooks, ...overrideHooks };
+    const unsupported = findUnsupportedHooks({
+      hooks: getEffectiveHooks(rulesyncHooks, this.toolTarget),
+      factory,
+    });
 
-    // Warn about unsupported events
-    {
-      const supportedEvents: Set<string> = new Set(factory.supportedEvents);
-      const configEventNames = new Set<string>(Object.keys(effectiveHooks));
-      const skipped = [...configEventNames].filter((e) => !supportedEvents.has(e));
-      if (skipped.length > 0) {
-        logger.warn(
-          `Skipped hook event(s) for ${this.toolTarget} (not supported): ${skipped.join(", ")}`,
-        );
-      }
+    if (unsupported.events.length > 0) {
+      logger.warn(
+        `Skipped hook event(s) for ${this.toolTarget} (not supported): ${unsupported.events.join(", ")}`,
+      );
     }
 
-    // Warn about unsupported hook types
-    {
-      const supportedHookTypes: Set<string> = new Set(factory.supportedHookTypes);
-      const unsupportedTypeToEvents = new Map<string, Set<string>>();
-      for (const [event, defs] of Object.entries(effectiveHooks)) {
-        for (const def of defs) {
-          const hookType = def.type ?? "command";
-          if (!supportedHookTypes.has(hookType)) {
-            const events = unsupportedTypeToEvents.get(hookType) ?? new Set<string>();
-            events.add(event);
-            unsupportedTypeToEvents.set(hookType, events);
-          }
-        }
-      }
-
-      for (const [hookType, events] of unsupportedTypeToEvents) {
-        logger.warn(
-          `Skipped ${hookType}-type hook(s) for ${this.toolTarget} (not supported): ${Array.from(events).join(", ")}`,
-        );
-      }
+    for (const [hookType, events] of unsupported.hookTypes) {
+      logger.warn(
+        `Skipped ${hookType}-type hook(s) for ${this.toolTarget} (not supported): ${Array.from(events).join(", ")}`,
+      );
     }
 
-    // Warn about unsupported matcher
-    if (!factory.supportsMatcher) {
-      const eventsWithMatcher = new Set<string>();
-      for (const [event, defs] of Object.entries(effectiveHooks)) {
-        for (const def of defs) {
-          if (def.matcher) {
-            eventsWithMatcher.add(event);
-          }
-        }
-      }
-
-      if (eventsWithMatcher.size > 0) {
-        logger.warn(
-          `Skipped matcher hook(s) for ${this.toolTarget} (not supported): ${Array.from(eventsWithMatcher).join(", ")}`,
-        );
-      }
+    if (unsupported.matcherEvents.size > 0) {
+      logger.warn(
+        `Skipped matcher hook(s) for ${this.toolTarget} (not supported): ${Array.from(unsupported.matcherEvents).join(", ")}`,
+      );
     }
 
     const toolHooks = await factory.class.fromRulesyncHooks({
@@ -318,11 +338,64 @@ export class HooksProcessor extends FeatureProcessor {
     return [toolHooks];
   }
 
+  /**
+   * List the hook events, hook types and matchers of the hooks file that the tool cannot run.
+   */
+  getConversionLosses(rulesyncFiles: RulesyncFile[]): ConversionLoss[] {
+    const rulesyncHooks = rulesyncFiles.find((f): f is RulesyncHooks => f instanceof RulesyncHooks);
+    const factory = toolHooksFactories.get(this.toolTarget);
+    if (!rulesyncHooks || !factory) {
+      return [];
+    }
+
+    const file = rulesyncHooks.getRelativePathFromCwd();
+    const unsupported = findUnsupportedHooks({
+      hooks: getEffectiveHooks(rulesyncHooks, this.toolTarget),
+      factory,
+    });
+    const losses: ConversionLoss[] = unsupported.events.map((event) => ({
+      file,
+      kind: "dropped",
+      item: `hooks.${event}`,
+      reason: `${this.toolTarget} has no ${event} event`,
+    }));
+    for (const [hookType, events] of unsupported.hookTypes) {
+      for (const event of events) {
+        losses.push({
+          file,
+          kind: "dropped",
+          item: `hooks.${event}`,
+          reason: `${this.toolTarget} does not support ${hookType}-type hooks`,
+        });
+      }
+    }
+    for (const event of unsupported.matcherEvents) {
+      losses.push({
+        file,
+        kind: "dropped",
+        item: `hooks.${event}.matcher`,
+        reason: `${this.toolTarget} hooks have no matcher`,
+      });
+    }
+    return losses;
+  }
+
   async convertToolFilesToRulesyncFiles(toolFiles: ToolFile[]): Promise<RulesyncFile[]> {
     const hooks = toolFiles.filter((f): f is ToolHooks => f instanceof ToolHooks);
     return hooks.map((h) => h.toRulesyncHooks());
   }
 
+  /**
+   * Canonical hook events supported by a tool target. Empty for targets without hooks support.
+   */
+  static getSupportedEvents(toolTarget: ToolTarget): readonly HookEvent[] {
+    const result = HooksProcessorToolTargetSchema.safeParse(toolTarget);
+    if (!result.success) {
+      return [];
+    }
+    return toolHooksFactories.get(result.data)?.supportedEvents ?? [];
+  }
+
   static getToolTargets({
     global = false,
     importOnly = false,
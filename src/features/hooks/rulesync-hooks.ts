@@ -1,6 +1,8 @@
 import { join } from "node:path";
 
 import {
+  RULESYNC_CURATED_HOOKS_RELATIVE_FILE_PATH,
+  RULESYNC_CURATED_RELATIVE_DIR_PATH,
   RULESYNC_HOOKS_RELATIVE_FILE_PATH,
   RULESYNC_RELATIVE_DIR_PATH,
 } from "../../constants/rulesync-paths.js";
@@ -70,6 +72,49 @@ export class RulesyncHooks extends RulesyncFile {
     });
   }
 
+  static async exists({ baseDir = process.cwd() }: { baseDir?: string } = {}): Promise<boolean> {
+    const paths = RulesyncHooks.getSettablePaths();
+    return fileExists(join(baseDir, paths.relativeDirPath, paths.relativeFilePath));
+  }
+
+  /**
+   * Load the hooks fetched from declarative sources, or null when none were fetched.
+   */
+  static async fromCuratedFile({
+    baseDir = process.cwd(),
+    validate = true,
+  }: RulesyncHooksFromFileParams): Promise<RulesyncHooks | null> {
+    const filePath = join(baseDir, RULESYNC_CURATED_HOOKS_RELATIVE_FILE_PATH);
+    if (!(await fileExists(filePath))) {
+      return null;
+    }
+
+    return new RulesyncHooks({
+      baseDir,
+      relativeDirPath: RULESYNC_CURATED_RELATIVE_DIR_PATH,
+      relativeFilePath: "hooks.json",
+      fileContent: await readFileContent(filePath),
+      validate,
+    });
+  }
+
+  /**
+   * Create a new RulesyncHooks that also has the hook events of `curated`.
+   * Events defined in this file take precedence over curated events of the same name.
+   */
+  withCuratedHooks(curated: RulesyncHooks): RulesyncHooks {
+    return new RulesyncHooks({
+      baseDir: this.baseDir,
+      relativeDirPath: this.relativeDirPath,
+      relativeFilePath: this.relativeFilePath,
+      fileContent: JSON.stringify(
+        { ...this.json, hooks: { ...curated.getJson().hooks, ...this.json.hooks } },
+        null,
+        2,
+      ),
+    });
+  }
+
   getJson(): HooksConfig {
     return this.json;
   }
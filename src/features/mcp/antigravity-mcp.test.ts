@@ -0,0 +1,77 @@
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { RULESYNC_RELATIVE_DIR_PATH } from "../../constants/rulesync-paths.js";
+import { setupTestDirectory } from "../../test-utils/test-directories.js";
+import { AntigravityMcp } from "./antigravity-mcp.js";
+import { RulesyncMcp } from "./rulesync-mcp.js";
+
+describe("AntigravityMcp", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+    vi.spyOn(process, "cwd").mockReturnValue(testDir);
+  });
+
+  afterEach(async () => {
+    await cleanup();
+    vi.restoreAllMocks();
+  });
+
+  describe("getSettablePaths", () => {
+    it("should return global path", () => {
+      expect(AntigravityMcp.getSettablePaths({ global: true })).toEqual({
+        relativeDirPath: join(".gemini", "antigravity"),
+        relativeFilePath: "mcp_config.json",
+      });
+    });
+
+    it("should throw in project mode", () => {
+      expect(() => AntigravityMcp.getSettablePaths()).toThrow(
+        "AntigravityMcp only supports global mode. Please pass { global: true }.",
+      );
+    });
+  });
+
+  describe("fromRulesyncMcp", () => {
+    it("should convert remote servers to serverUrl", async () => {
+      const rulesyncMcp = new RulesyncMcp({
+        baseDir: testDir,
+        relativeDirPath: RULESYNC_RELATIVE_DIR_PATH,
+        relativeFilePath: ".mcp.json",
+        fileContent: JSON.stringify({
+          mcpServers: {
+            remote: { type: "sse", url: "https://example.com/sse" },
+          },
+        }),
+        validate: true,
+      });
+
+      const antigravityMcp = await AntigravityMcp.fromRulesyncMcp({
+        baseDir: testDir,
+        rulesyncMcp,
+        global: true,
+      });
+
+      expect(antigravityMcp.getFilePath()).toBe(
+        join(testDir, ".gemini", "antigravity", "mcp_config.json"),
+      );
+      expect(JSON.parse(antigravityMcp.getFileContent())).toEqual({
+        mcpServers: {
+          remote: { serverUrl: "https://example.com/sse" },
+        },
+      });
+    });
+  });
+
+  describe("fromFile", () => {
+    it("should initialize missing global file", async () => {
+      const antigravityMcp = await AntigravityMcp.fromFile({ baseDir: testDir, global: true });
+
+      expect(antigravityMcp.toRulesyncMcp().getMcpServers()).toEqual({});
+    });
+  });
+});
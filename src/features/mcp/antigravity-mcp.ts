@@ -0,0 +1,115 @@
+import { join } from "node:path";
+
+import { ValidationResult } from "../../types/ai-file.js";
+import { readFileContentOrNull } from "../../utils/file.js";
+import { RulesyncMcp } from "./rulesync-mcp.js";
+import {
+  ToolMcp,
+  ToolMcpForDeletionParams,
+  ToolMcpFromFileParams,
+  ToolMcpFromRulesyncMcpParams,
+  ToolMcpParams,
+  ToolMcpSettablePaths,
+} from "./tool-mcp.js";
+import { convertFromWindsurfFormat, convertToWindsurfFormat } from "./windsurf-mcp.js";
+
+/**
+ * Google Antigravity reads the MCP servers of ~/.gemini/antigravity/mcp_config.json, in the same
+ * format as Windsurf: remote servers are given by `serverUrl`.
+ */
+export class AntigravityMcp extends ToolMcp {
+  private readonly json: Record<string, unknown>;
+
+  constructor(params: ToolMcpParams) {
+    super(params);
+    this.json = JSON.parse(this.fileContent || "{}");
+  }
+
+  getJson(): Record<string, unknown> {
+    return this.json;
+  }
+
+  static getSettablePaths({ global }: { global?: boolean } = {}): ToolMcpSettablePaths {
+    if (!global) {
+      throw new Error("AntigravityMcp only supports global mode. Please pass { global: true }.");
+    }
+    return {
+      relativeDirPath: join(".gemini", "antigravity"),
+      relativeFilePath: "mcp_config.json",
+    };
+  }
+
+  static async fromFile({
+    baseDir = process.cwd(),
+    validate = true,
+    global = false,
+  }: ToolMcpFromFileParams): Promise<AntigravityMcp> {
+    const paths = this.getSettablePaths({ global });
+    const fileContent =
+      (await readFileContentOrNull(join(baseDir, paths.relativeDirPath, paths.relativeFilePath))) ??
+      '{"mcpServers":{}}';
+
+    return new AntigravityMcp({
+      baseDir,
+      relativeDirPath: paths.relativeDirPath,
+      relativeFilePath: paths.relativeFilePath,
+      fileContent,
+      validate,
+      global,
+    });
+  }
+
+  static async fromRulesyncMcp({
+    baseDir = process.cwd(),
+    rulesyncMcp,
+    validate = true,
+    global = false,
+  }: ToolMcpFromRulesyncMcpParams): Promise<AntigravityMcp> {
+    const paths = this.getSettablePaths({ global });
+
+    const fileContent =
+      (await readFileContentOrNull(join(baseDir, paths.relativeDirPath, paths.relativeFilePath))) ??
+      "{}";
+    const json = JSON.parse(fileContent);
+    const newJson = { ...json, mcpServers: convertToWindsurfFormat(rulesyncMcp.getMcpServers()) };
+
+    return new AntigravityMcp({
+      baseDir,
+      relativeDirPath: paths.relativeDirPath,
+      relativeFilePath: paths.relativeFilePath,
+      fileContent: JSON.stringify(newJson, null, 2),
+      validate,
+      global,
+    });
+  }
+
+  toRulesyncMcp(): RulesyncMcp {
+    return this.toRulesyncMcpDefault({
+      fileContent: JSON.stringify(
+        { mcpServers: convertFromWindsurfFormat(this.json.mcpServers) },
+        null,
+        2,
+      ),
+    });
+  }
+
+  validate(): ValidationResult {
+    return { success: true, error: null };
+  }
+
+  static forDeletion({
+    baseDir = process.cwd(),
+    relativeDirPath,
+    relativeFilePath,
+    global = false,
+  }: ToolMcpForDeletionParams): AntigravityMcp {
+    return new AntigravityMcp({
+      baseDir,
+      relativeDirPath,
+      relativeFilePath,
+      fileContent: "{}",
+      validate: false,
+      global,
+    });
+  }
+}
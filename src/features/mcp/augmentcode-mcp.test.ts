@@ -0,0 +1,82 @@
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { RULESYNC_RELATIVE_DIR_PATH } from "../../constants/rulesync-paths.js";
+import { setupTestDirectory } from "../../test-utils/test-directories.js";
+import { ensureDir, writeFileContent } from "../../utils/file.js";
+import { AugmentcodeMcp } from "./augmentcode-mcp.js";
+import { RulesyncMcp } from "./rulesync-mcp.js";
+
+describe("AugmentcodeMcp", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+    vi.spyOn(process, "cwd").mockReturnValue(testDir);
+  });
+
+  afterEach(async () => {
+    await cleanup();
+    vi.restoreAllMocks();
+  });
+
+  describe("getSettablePaths", () => {
+    it("should return global path", () => {
+      expect(AugmentcodeMcp.getSettablePaths({ global: true })).toEqual({
+        relativeDirPath: ".augment",
+        relativeFilePath: "settings.json",
+      });
+    });
+
+    it("should throw in project mode", () => {
+      expect(() => AugmentcodeMcp.getSettablePaths()).toThrow(
+        "AugmentcodeMcp only supports global mode. Please pass { global: true }.",
+      );
+    });
+  });
+
+  describe("fromRulesyncMcp", () => {
+    it("should replace mcpServers and keep other settings", async () => {
+      await ensureDir(join(testDir, ".augment"));
+      await writeFileContent(
+        join(testDir, ".augment", "settings.json"),
+        JSON.stringify({ model: "sonnet", mcpServers: { old: { command: "old" } } }),
+      );
+      const rulesyncMcp = new RulesyncMcp({
+        baseDir: testDir,
+        relativeDirPath: RULESYNC_RELATIVE_DIR_PATH,
+        relativeFilePath: ".mcp.json",
+        fileContent: JSON.stringify({
+          mcpServers: { api: { command: "node", args: ["server.js"] } },
+        }),
+        validate: true,
+      });
+
+      const augmentcodeMcp = await AugmentcodeMcp.fromRulesyncMcp({
+        baseDir: testDir,
+        rulesyncMcp,
+        global: true,
+      });
+
+      expect(JSON.parse(augmentcodeMcp.getFileContent())).toEqual({
+        model: "sonnet",
+        mcpServers: { api: { command: "node", args: ["server.js"] } },
+      });
+    });
+  });
+
+  describe("isDeletable", () => {
+    it("should not be deletable", () => {
+      const augmentcodeMcp = AugmentcodeMcp.forDeletion({
+        baseDir: testDir,
+        relativeDirPath: ".augment",
+        relativeFilePath: "settings.json",
+        global: true,
+      });
+
+      expect(augmentcodeMcp.isDeletable()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { join } from "node:path";
+
+import { ValidationResult } from "../../types/ai-file.js";
+import { readFileContentOrNull } from "../../utils/file.js";
+import { RulesyncMcp } from "./rulesync-mcp.js";
+import {
+  ToolMcp,
+  ToolMcpForDeletionParams,
+  ToolMcpFromFileParams,
+  ToolMcpFromRulesyncMcpParams,
+  ToolMcpParams,
+  ToolMcpSettablePaths,
+} from "./tool-mcp.js";
+
+/**
+ * AugmentCode reads `mcpServers` from ~/.augment/settings.json, in the standard MCP format.
+ */
+export class AugmentcodeMcp extends ToolMcp {
+  private readonly json: Record<string, unknown>;
+
+  constructor(params: ToolMcpParams) {
+    super(params);
+    this.json = JSON.parse(this.fileContent || "{}");
+  }
+
+  getJson(): Record<string, unknown> {
+    return this.json;
+  }
+
+  /**
+   * settings.json contains other AugmentCode settings, so it should not be deleted.
+   */
+  override isDeletable(): boolean {
+    return false;
+  }
+
+  static getSettablePaths({ global }: { global?: boolean } = {}): ToolMcpSettablePaths {
+    if (!global) {
+      throw new Error("AugmentcodeMcp only supports global mode. Please pass { global: true }.");
+    }
+    return {
+      relativeDirPath: ".augment",
+      relativeFilePath: "settings.json",
+    };
+  }
+
+  static async fromFile({
+    baseDir = process.cwd(),
+    validate = true,
+    global = false,
+  }: ToolMcpFromFileParams): Promise<AugmentcodeMcp> {
+    const paths = this.getSettablePaths({ global });
+    const fileContent =
+      (await readFileContentOrNull(join(baseDir, paths.relativeDirPath, paths.relativeFilePath))) ??
+      '{"mcpServers":{}}';
+
+    return new AugmentcodeMcp({
+      baseDir,
+      relativeDirPath: paths.relativeDirPath,
+      relativeFilePath: paths.relativeFilePath,
+      fileContent,
+      validate,
+      global,
+    });
+  }
+
+  static async fromRulesyncMcp({
+    baseDir = process.cwd(),
+    rulesyncMcp,
+    validate = true,
+    global = false,
+  }: ToolMcpFromRulesyncMcpParams): Promise<AugmentcodeMcp> {
+    const paths = this.getSettablePaths({ global });
+
+    const fileContent =
+      (await readFileContentOrNull(join(baseDir, paths.relativeDirPath, paths.relativeFilePath))) ??
+      "{}";
+    const json = JSON.parse(fileContent);
+    const newJson = { ...json, mcpServers: rulesyncMcp.getMcpServers() };
+
+    return new AugmentcodeMcp({
+      baseDir,
+      relativeDirPath: paths.relativeDirPath,
+      relativeFilePath: paths.relativeFilePath,
+      fileContent: JSON.stringify(newJson, null, 2),
+      validate,
+      global,
+    });
+  }
+
+  toRulesyncMcp(): RulesyncMcp {
+    return this.toRulesyncMcpDefault({
+      fileContent: JSON.stringify({ mcpServers: this.json.mcpServers ?? {} }, null, 2),
+    });
+  }
+
+  validate(): ValidationResult {
+    return { success: true, error: null };
+  }
+
+  static forDeletion({
+    baseDir = process.cwd(),
+    relativeDirPath,
+    relativeFilePath,
+    global = false,
+  }: ToolMcpForDeletionParams): AugmentcodeMcp {
+    return new AugmentcodeMcp({
+      baseDir,
+      relativeDirPath,
+      relativeFilePath,
+      fileContent: "{}",
+      validate: false,
+      global,
+    });
+  }
+}
@@ -653,6 +653,42 @@ fontSize = 14
     });
   });
 
+  describe("mergeFileContent", () => {
+    it("should keep servers added by hand and other settings", () => {
+      const existingFileContent = [
+        'model = "gpt-5"',
+        "",
+        "[mcp_servers.local]",
+        'command = "node"',
+        "",
+        "[mcp_servers.removed]",
+        'command = "removed"',
+      ].join("\n");
+      const generatedFileContent = [
+        'model = "gpt-5"',
+        "",
+        "[mcp_servers.github]",
+        'command = "github"',
+      ].join("\n");
+
+      const merged = CodexcliMcp.mergeFileContent({
+        existingFileContent,
+        generatedFileContent,
+        managedServerNames: ["removed"],
+      });
+
+      const codexcliMcp = new CodexcliMcp({
+        relativeDirPath: ".codex",
+        relativeFilePath: "config.toml",
+        fileContent: merged,
+      });
+      expect(codexcliMcp.getToml()).toEqual({
+        model: "gpt-5",
+        mcp_servers: { local: { command: "node" }, github: { command: "github" } },
+      });
+    });
+  });
+
   describe("toRulesyncMcp", () => {
     it("should convert to RulesyncMcp with default configuration", () => {
       const tomlContent = `[mcp_servers.filesystem]
@@ -6,12 +6,15 @@ import { RULESYNC_RELATIVE_DIR_PATH } from "../../constants/rulesync-paths.js";
 import { ValidationResult } from "../../types/ai-file.js";
 import { McpServers } from "../../types/mcp.js";
 import { readFileContentOrNull, readOrInitializeFileContent } from "../../utils/file.js";
+import { isRecord } from "../../utils/type-guards.js";
 import { RulesyncMcp } from "./rulesync-mcp.js";
 import {
   ToolMcp,
+  mergeMcpServers,
   ToolMcpForDeletionParams,
   ToolMcpFromFileParams,
   ToolMcpFromRulesyncMcpParams,
+  type ToolMcpMergeFileContentParams,
   type ToolMcpParams,
   ToolMcpSettablePaths,
 } from "./tool-mcp.js";
@@ -160,6 +163,30 @@ export class CodexcliMcp extends ToolMcp {
     });
   }
 
+  /**
+   * Keep servers added by hand to the `mcp_servers` table of config.toml.
+   */
+  static override mergeFileContent({
+    existingFileContent,
+    generatedFileContent,
+    managedServerNames,
+  }: ToolMcpMergeFileContentParams): string {
+    const existingToml = smolToml.parse(existingFileContent);
+    const generatedToml = smolToml.parse(generatedFileContent);
+    const existingServers = existingToml["mcp_servers"];
+    const generatedServers = generatedToml["mcp_servers"];
+
+    return smolToml.stringify({
+      ...existingToml,
+      ...generatedToml,
+      mcp_servers: mergeMcpServers({
+        existingServers: isRecord(existingServers) ? existingServers : {},
+        generatedServers: isRecord(generatedServers) ? generatedServers : {},
+        managedServerNames,
+      }),
+    });
+  }
+
   toRulesyncMcp(): RulesyncMcp {
     // eslint-disable-next-line no-type-assertion/no-type-assertion
     const mcpServers = (this.toml.mcp_servers ?? {}) as Record<string, unknown>;
@@ -336,6 +336,27 @@ describe("CopilotMcp", () => {
     });
   });
 
+  describe("mergeFileContent", () => {
+    it("should keep inputs and servers added by hand", () => {
+      const inputs = [{ type: "promptString", id: "api-key", password: true }];
+      const existingFileContent = JSON.stringify({
+        inputs,
+        servers: { local: { command: "node" }, github: { command: "old-github" } },
+      });
+
+      const merged = CopilotMcp.mergeFileContent({
+        existingFileContent,
+        generatedFileContent: JSON.stringify({ servers: { github: { command: "github" } } }),
+        managedServerNames: ["github"],
+      });
+
+      expect(JSON.parse(merged)).toEqual({
+        inputs,
+        servers: { local: { command: "node" }, github: { command: "github" } },
+      });
+    });
+  });
+
   describe("toRulesyncMcp", () => {
     it("should convert servers key to mcpServers key", () => {
       const inputServers = {
@@ -9,6 +9,7 @@ import {
   ToolMcpForDeletionParams,
   ToolMcpFromFileParams,
   ToolMcpFromRulesyncMcpParams,
+  ToolMcpMergeFileContentParams,
   ToolMcpParams,
   ToolMcpSettablePaths,
 } from "./tool-mcp.js";
@@ -81,6 +82,13 @@ export class CopilotMcp extends ToolMcp {
     });
   }
 
+  /**
+   * Keep servers added by hand and the other keys of `.vscode/mcp.json`, such as `inputs`.
+   */
+  static override mergeFileContent(params: ToolMcpMergeFileContentParams): string {
+    return this.mergeJsonFileContent({ ...params, serversKey: "servers" });
+  }
+
   toRulesyncMcp(): RulesyncMcp {
     const mcpServers = convertFromCopilotFormat(this.json);
     return this.toRulesyncMcpDefault({
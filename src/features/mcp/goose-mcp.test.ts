@@ -0,0 +1,178 @@
+import { join } from "node:path";
+
+import { load } from "js-yaml";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { RULESYNC_RELATIVE_DIR_PATH } from "../../constants/rulesync-paths.js";
+import { setupTestDirectory } from "../../test-utils/test-directories.js";
+import { ensureDir, writeFileContent } from "../../utils/file.js";
+import { GooseMcp } from "./goose-mcp.js";
+import { RulesyncMcp } from "./rulesync-mcp.js";
+
+describe("GooseMcp", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+    vi.spyOn(process, "cwd").mockReturnValue(testDir);
+  });
+
+  afterEach(async () => {
+    await cleanup();
+    vi.restoreAllMocks();
+  });
+
+  describe("getSettablePaths", () => {
+    it("should return global path", () => {
+      expect(GooseMcp.getSettablePaths({ global: true })).toEqual({
+        relativeDirPath: join(".config", "goose"),
+        relativeFilePath: "config.yaml",
+      });
+    });
+
+    it("should throw in project mode", () => {
+      expect(() => GooseMcp.getSettablePaths()).toThrow(
+        "GooseMcp only supports global mode. Please pass { global: true }.",
+      );
+    });
+  });
+
+  describe("fromRulesyncMcp", () => {
+    it("should convert servers to extensions and keep Goose's own extensions", async () => {
+      await ensureDir(join(testDir, ".config", "goose"));
+      await writeFileContent(
+        join(testDir, ".config", "goose", "config.yaml"),
+        [
+          "GOOSE_PROVIDER: anthropic",
+          "extensions:",
+          "  developer:",
+          "    name: developer",
+          "    type: builtin",
+          "    enabled: true",
+          "  old:",
+          "    name: old",
+          "    type: stdio",
+          "    cmd: old",
+          "",
+        ].join("\n"),
+      );
+      const rulesyncMcp = new RulesyncMcp({
+        baseDir: testDir,
+        relativeDirPath: RULESYNC_RELATIVE_DIR_PATH,
+        relativeFilePath: ".mcp.json",
+        fileContent: JSON.stringify({
+          mcpServers: {
+            local: {
+              command: ["npx", "-y", "server"],
+              env: { TOKEN: "secret" },
+              timeout: 30000,
+            },
+            remote: { type: "sse", url: "https://example.com/sse", disabled: true },
+          },
+        }),
+        validate: true,
+      });
+
+      const gooseMcp = await GooseMcp.fromRulesyncMcp({
+        baseDir: testDir,
+        rulesyncMcp,
+        global: true,
+      });
+
+      expect(load(gooseMcp.getFileContent())).toEqual({
+        GOOSE_PROVIDER: "anthropic",
+        extensions: {
+          developer: { name: "developer", type: "builtin", enabled: true },
+          local: {
+            name: "local",
+            enabled: true,
+            envs: { TOKEN: "secret" },
+            timeout: 30,
+            type: "stdio",
+            cmd: "npx",
+            args: ["-y", "server"],
+          },
+          remote: {
+            name: "remote",
+            enabled: false,
+            type: "sse",
+            uri: "https://example.com/sse",
+          },
+        },
+      });
+    });
+  });
+
+  describe("toRulesyncMcp", () => {
+    it("should convert only MCP server extensions", () => {
+      const gooseMcp = new GooseMcp({
+        baseDir: testDir,
+        relativeDirPath: join(".config", "goose"),
+        relativeFilePath: "config.yaml",
+        fileContent: [
+          "extensions:",
+          "  developer:",
+          "    type: builtin",
+          "  local:",
+          "    type: stdio",
+          "    cmd: node",
+          "    args: [server.js]",
+          "    timeout: 300",
+          "  remote:",
+          "    type: streamable_http",
+          "    uri: https://example.com/mcp",
+          "    enabled: false",
+          "",
+        ].join("\n"),
+        global: true,
+      });
+
+      expect(gooseMcp.toRulesyncMcp().getMcpServers()).toEqual({
+        local: { type: "stdio", command: "node", args: ["server.js"], timeout: 300000 },
+        remote: { type: "http", url: "https://example.com/mcp", disabled: true },
+      });
+    });
+  });
+
+  describe("mergeFileContent", () => {
+    it("should keep extensions added by hand and other settings", () => {
+      const merged = GooseMcp.mergeFileContent({
+        existingFileContent: [
+          "GOOSE_MODEL: claude",
+          "extensions:",
+          "  mine:",
+          "    type: stdio",
+          "    cmd: mine",
+          "  old:",
+          "    type: stdio",
+          "    cmd: old",
+          "",
+        ].join("\n"),
+        generatedFileContent: "extensions:\n  api:\n    type: stdio\n    cmd: node\n",
+        managedServerNames: ["old"],
+      });
+
+      expect(load(merged)).toEqual({
+        GOOSE_MODEL: "claude",
+        extensions: {
+          mine: { type: "stdio", cmd: "mine" },
+          api: { type: "stdio", cmd: "node" },
+        },
+      });
+    });
+  });
+
+  describe("isDeletable", () => {
+    it("should not be deletable", () => {
+      const gooseMcp = GooseMcp.forDeletion({
+        baseDir: testDir,
+        relativeDirPath: join(".config", "goose"),
+        relativeFilePath: "config.yaml",
+        global: true,
+      });
+
+      expect(gooseMcp.isDeletable()).toBe(false);
+    });
+  });
+});
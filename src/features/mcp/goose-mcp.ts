@@ -0,0 +1,268 @@
+import { join } from "node:path";
+
+import { dump, load } from "js-yaml";
+
+import { ValidationResult } from "../../types/ai-file.js";
+import { McpServers } from "../../types/mcp.js";
+import { readFileContentOrNull } from "../../utils/file.js";
+import { isRecord } from "../../utils/type-guards.js";
+import { RulesyncMcp } from "./rulesync-mcp.js";
+import {
+  ToolMcp,
+  ToolMcpForDeletionParams,
+  ToolMcpFromFileParams,
+  ToolMcpFromRulesyncMcpParams,
+  ToolMcpMergeFileContentParams,
+  ToolMcpParams,
+  ToolMcpSettablePaths,
+  mergeMcpServers,
+} from "./tool-mcp.js";
+
+// Goose keeps MCP servers as "extensions" in config.yaml:
+// cmd instead of command, envs instead of env, uri instead of url,
+// "enabled" instead of "disabled", and timeouts in seconds instead of milliseconds
+
+/** Extension types that are MCP servers; others, such as `builtin`, are Goose's own. */
+const GOOSE_MCP_EXTENSION_TYPES = ["stdio", "sse", "streamable_http"];
+
+type GooseExtensions = Record<string, Record<string, unknown>>;
+
+function parseGooseConfig(fileContent: string): Record<string, unknown> {
+  const config = load(fileContent);
+  return isRecord(config) ? config : {};
+}
+
+function stringifyGooseConfig(config: Record<string, unknown>): string {
+  return dump(config, { lineWidth: -1 });
+}
+
+function isGooseMcpExtension(extension: unknown): boolean {
+  return (
+    isRecord(extension) &&
+    typeof extension.type === "string" &&
+    GOOSE_MCP_EXTENSION_TYPES.includes(extension.type)
+  );
+}
+
+/**
+ * Convert Rulesync MCP format to Goose extensions
+ * - command (array) -> cmd (first element) + args (rest)
+ * - url / httpUrl -> uri, with type "sse" or "streamable_http"
+ * - disabled -> enabled
+ * - timeout in milliseconds -> timeout in seconds
+ */
+function convertToGooseFormat(mcpServers: McpServers): GooseExtensions {
+  return Object.fromEntries(
+    Object.entries(mcpServers).map(([serverName, serverConfig]) => {
+      const enabled = serverConfig.disabled !== true;
+      const timeout =
+        serverConfig.timeout !== undefined ? Math.ceil(serverConfig.timeout / 1000) : undefined;
+      const common = {
+        name: serverName,
+        enabled,
+        ...(serverConfig.env && { envs: serverConfig.env }),
+        ...(timeout !== undefined && { timeout }),
+      };
+
+      const type = serverConfig.type ?? serverConfig.transport;
+      if (serverConfig.command !== undefined && type !== "sse" && type !== "http") {
+        const [cmd, ...commandArgs] =
+          typeof serverConfig.command === "string" ? [serverConfig.command] : serverConfig.command;
+        return [
+          serverName,
+          {
+            ...common,
+            type: "stdio",
+            cmd,
+            args: [...commandArgs, ...(serverConfig.args ?? [])],
+          },
+        ];
+      }
+
+      const uri = serverConfig.httpUrl ?? serverConfig.url;
+      return [
+        serverName,
+        {
+          ...common,
+          type: type === "sse" && serverConfig.httpUrl === undefined ? "sse" : "streamable_http",
+          ...(uri !== undefined && { uri }),
+          ...(serverConfig.headers && { headers: serverConfig.headers }),
+        },
+      ];
+    }),
+  );
+}
+
+/**
+ * Convert the MCP server extensions of Goose back to Rulesync MCP format.
+ * Goose's own extensions, such as `builtin` ones, are left out.
+ */
+function convertFromGooseFormat(extensions: unknown): McpServers {
+  if (!isRecord(extensions)) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(extensions)
+      .filter((entry): entry is [string, Record<string, unknown>] => isGooseMcpExtension(entry[1]))
+      .map(([serverName, extension]) => {
+        const converted: Record<string, unknown> = {};
+        if (extension.type === "stdio") {
+          converted.type = "stdio";
+          converted.command = extension.cmd;
+          if (Array.isArray(extension.args) && extension.args.length > 0) {
+            converted.args = extension.args;
+          }
+        } else {
+          converted.type = extension.type === "sse" ? "sse" : "http";
+          converted.url = extension.uri;
+          if (isRecord(extension.headers)) converted.headers = extension.headers;
+        }
+        if (isRecord(extension.envs) && Object.keys(extension.envs).length > 0) {
+          converted.env = extension.envs;
+        }
+        if (typeof extension.timeout === "number") {
+          converted.timeout = extension.timeout * 1000;
+        }
+        if (extension.enabled === false) {
+          converted.disabled = true;
+        }
+        return [serverName, converted];
+      }),
+  );
+}
+
+export class GooseMcp extends ToolMcp {
+  private readonly config: Record<string, unknown>;
+
+  constructor(params: ToolMcpParams) {
+    super(params);
+    this.config = parseGooseConfig(this.fileContent);
+  }
+
+  getConfig(): Record<string, unknown> {
+    return this.config;
+  }
+
+  /**
+   * config.yaml contains other Goose settings, so it should not be deleted.
+   */
+  override isDeletable(): boolean {
+    return false;
+  }
+
+  static getSettablePaths({ global }: { global?: boolean } = {}): ToolMcpSettablePaths {
+    if (!global) {
+      throw new Error("GooseMcp only supports global mode. Please pass { global: true }.");
+    }
+    return {
+      relativeDirPath: join(".config", "goose"),
+      relativeFilePath: "config.yaml",
+    };
+  }
+
+  static async fromFile({
+    baseDir = process.cwd(),
+    validate = true,
+    global = false,
+  }: ToolMcpFromFileParams): Promise<GooseMcp> {
+    const paths = this.getSettablePaths({ global });
+    const fileContent =
+      (await readFileContentOrNull(join(baseDir, paths.relativeDirPath, paths.relativeFilePath))) ??
+      "";
+
+    return new GooseMcp({
+      baseDir,
+      relativeDirPath: paths.relativeDirPath,
+      relativeFilePath: paths.relativeFilePath,
+      fileContent,
+      validate,
+      global,
+    });
+  }
+
+  /**
+   * Replace the MCP server extensions of config.yaml, keeping Goose's own extensions and the
+   * other settings.
+   */
+  static async fromRulesyncMcp({
+    baseDir = process.cwd(),
+    rulesyncMcp,
+    validate = true,
+    global = false,
+  }: ToolMcpFromRulesyncMcpParams): Promise<GooseMcp> {
+    const paths = this.getSettablePaths({ global });
+
+    const fileContent =
+      (await readFileContentOrNull(join(baseDir, paths.relativeDirPath, paths.relativeFilePath))) ??
+      "";
+    const config = parseGooseConfig(fileContent);
+    const ownExtensions = Object.entries(
+      isRecord(config.extensions) ? config.extensions : {},
+    ).filter(([, extension]) => !isGooseMcpExtension(extension));
+    const extensions = {
+      ...Object.fromEntries(ownExtensions),
+      ...convertToGooseFormat(rulesyncMcp.getMcpServers()),
+    };
+
+    return new GooseMcp({
+      baseDir,
+      relativeDirPath: paths.relativeDirPath,
+      relativeFilePath: paths.relativeFilePath,
+      fileContent: stringifyGooseConfig({ ...config, extensions }),
+      validate,
+      global,
+    });
+  }
+
+  /**
+   * Keep extensions added by hand and the other settings of config.yaml.
+   */
+  static override mergeFileContent({
+    existingFileContent,
+    generatedFileContent,
+    managedServerNames,
+  }: ToolMcpMergeFileContentParams): string {
+    const existingConfig = parseGooseConfig(existingFileContent);
+    const generatedConfig = parseGooseConfig(generatedFileContent);
+
+    return stringifyGooseConfig({
+      ...existingConfig,
+      ...generatedConfig,
+      extensions: mergeMcpServers({
+        existingServers: isRecord(existingConfig.extensions) ? existingConfig.extensions : {},
+        generatedServers: isRecord(generatedConfig.extensions) ? generatedConfig.extensions : {},
+        managedServerNames,
+      }),
+    });
+  }
+
+  toRulesyncMcp(): RulesyncMcp {
+    return this.toRulesyncMcpDefault({
+      fileContent: JSON.stringify(
+        { mcpServers: convertFromGooseFormat(this.config.extensions) },
+        null,
+        2,
+      ),
+    });
+  }
+
+  validate(): ValidationResult {
+    return { success: true, error: null };
+  }
+
+  static forDeletion({
+    baseDir = process.cwd(),
+    relativeDirPath,
+    relativeFilePath,
+    global = false,
+  }: ToolMcpForDeletionParams): GooseMcp {
+    return new GooseMcp({
+      baseDir,
+      relativeDirPath,
+      relativeFilePath,
+      fileContent: "",
+      validate: false,
+      global,
+    });
+  }
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  ENV_PLACEHOLDER_SYNTAXES,
+  McpEnvPlaceholderError,
+  translateEnvPlaceholders,
+} from "./mcp-env-placeholders.js";
+
+describe("translateEnvPlaceholders", () => {
+  const mcpServers = {
+    github: {
+      command: "npx",
+      args: ["-y", "server-github", "--token=${env:GITHUB_TOKEN}"],
+      env: { GITHUB_TOKEN: "${env:GITHUB_TOKEN}", PLAIN: "value" },
+    },
+    remote: {
+      url: "https://${env:API_HOST}/mcp",
+      headers: { Authorization: "Bearer ${env:API_KEY}" },
+    },
+  };
+
+  it("should return the same servers when there is no placeholder", () => {
+    const servers = { plain: { command: "node", args: ["server.js"], env: { A: "${A}" } } };
+
+    const result = translateEnvPlaceholders({
+      mcpServers: servers,
+      syntax: null,
+      toolTarget: "codexcli",
+      resolveEnv: false,
+    });
+
+    expect(result.mcpServers).toBe(servers);
+    expect(result.resolvedNames).toEqual([]);
+  });
+
+  it("should write placeholders in the syntax of each tool", () => {
+    const translate = (syntax: keyof typeof ENV_PLACEHOLDER_SYNTAXES) =>
+      translateEnvPlaceholders({
+        mcpServers,
+        syntax: ENV_PLACEHOLDER_SYNTAXES[syntax],
+        toolTarget: "claudecode",
+        resolveEnv: false,
+      }).mcpServers;
+
+    expect(translate("shell")).toEqual({
+      github: {
+        command: "npx",
+        args: ["-y", "server-github", "--token=${GITHUB_TOKEN}"],
+        env: { GITHUB_TOKEN: "${GITHUB_TOKEN}", PLAIN: "value" },
+      },
+      remote: {
+        url: "https://${API_HOST}/mcp",
+        headers: { Authorization: "Bearer ${API_KEY}" },
+      },
+    });
+    expect(translate("vscode")).toMatchObject({
+      github: { env: { GITHUB_TOKEN: "${env:GITHUB_TOKEN}", PLAIN: "value" } },
+    });
+    expect(translate("braced")).toMatchObject({ remote: { url: "https://${API_HOST}/mcp" } });
+    expect(translate("opencode")).toMatchObject({
+      remote: { headers: { Authorization: "Bearer {env:API_KEY}" } },
+    });
+  });
+
+  it("should keep default values in the shell syntax", () => {
+    const result = translateEnvPlaceholders({
+      mcpServers: { local: { command: ["${env:NODE_BIN:-node}", "server.js"] } },
+      syntax: ENV_PLACEHOLDER_SYNTAXES.shell,
+      toolTarget: "claudecode",
+      resolveEnv: false,
+    });
+
+    expect(result.mcpServers.local?.command).toEqual(["${NODE_BIN:-node}", "server.js"]);
+  });
+
+  it("should throw when the tool cannot express a default value", () => {
+    expect(() =>
+      translateEnvPlaceholders({
+        mcpServers: { local: { command: "node", cwd: "${env:WORKDIR:-/tmp}" } },
+        syntax: ENV_PLACEHOLDER_SYNTAXES.vscode,
+        toolTarget: "cursor",
+        resolveEnv: false,
+      }),
+    ).toThrow(
+      'mcpServers.local.cwd uses "${env:WORKDIR:-/tmp}", but cursor MCP files cannot express default values.',
+    );
+  });
+
+  it("should throw when the tool has no syntax for environment variables", () => {
+    expect(() =>
+      translateEnvPlaceholders({
+        mcpServers,
+        syntax: null,
+        toolTarget: "codexcli",
+        resolveEnv: false,
+      }),
+    ).toThrow(McpEnvPlaceholderError);
+    expect(() =>
+      translateEnvPlaceholders({
+        mcpServers,
+        syntax: null,
+        toolTarget: "codexcli",
+        resolveEnv: false,
+      }),
+    ).toThrow("codexcli MCP files have no syntax for environment variables");
+  });
+
+  it("should write values from the environment when resolveEnv is set", () => {
+    const result = translateEnvPlaceholders({
+      mcpServers: {
+        ...mcpServers,
+        local: { command: "node", cwd: "${env:WORKDIR:-/tmp}" },
+      },
+      syntax: null,
+      toolTarget: "codexcli",
+      resolveEnv: true,
+      env: { GITHUB_TOKEN: "ghp_secret", API_HOST: "api.example.com", API_KEY: "key" },
+    });
+
+    expect(result.mcpServers).toEqual({
+      github: {
+        command: "npx",
+        args: ["-y", "server-github", "--token=ghp_secret"],
+        env: { GITHUB_TOKEN: "ghp_secret", PLAIN: "value" },
+      },
+      remote: {
+        url: "https://api.example.com/mcp",
+        headers: { Authorization: "Bearer key" },
+      },
+      local: { command: "node", cwd: "/tmp" },
+    });
+    expect(result.resolvedNames).toEqual(["API_HOST", "API_KEY", "GITHUB_TOKEN", "WORKDIR"]);
+  });
+
+  it("should only resolve the placeholders the tool cannot express", () => {
+    const result = translateEnvPlaceholders({
+      mcpServers: { local: { command: "node", env: { A: "${env:A}", B: "${env:B:-b}" } } },
+      syntax: ENV_PLACEHOLDER_SYNTAXES.vscode,
+      toolTarget: "cursor",
+      resolveEnv: true,
+      env: { B: "from-env" },
+    });
+
+    expect(result.mcpServers.local?.env).toEqual({ A: "${env:A}", B: "from-env" });
+    expect(result.resolvedNames).toEqual(["B"]);
+  });
+
+  it("should throw when a variable to resolve is not set", () => {
+    expect(() =>
+      translateEnvPlaceholders({
+        mcpServers,
+        syntax: null,
+        toolTarget: "codexcli",
+        resolveEnv: true,
+        env: {},
+      }),
+    ).toThrow("Environment variable GITHUB_TOKEN used by mcpServers.github.args is not set.");
+  });
+});
@@ -0,0 +1,130 @@
+import type { McpServers } from "../../types/mcp.js";
+
+/**
+ * Matches `${env:NAME}` and `${env:NAME:-default}` placeholders in `.rulesync/mcp.json`.
+ */
+const ENV_PLACEHOLDER_PATTERN = /\$\{env:([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * Writes a reference to an environment variable in the interpolation syntax of a tool.
+ * Returns null when the syntax cannot express the reference, such as one with a default value.
+ */
+export type EnvPlaceholderSyntax = (
+  name: string,
+  defaultValue: string | undefined,
+) => string | null;
+
+export const ENV_PLACEHOLDER_SYNTAXES = {
+  /** `${NAME}` and `${NAME:-default}`, as in Claude Code. */
+  shell: (name, defaultValue) =>
+    defaultValue === undefined ? `\${${name}}` : `\${${name}:-${defaultValue}}`,
+  /** `${NAME}` without default values, as in Gemini CLI. */
+  braced: (name, defaultValue) => (defaultValue === undefined ? `\${${name}}` : null),
+  /** `${env:NAME}` without default values, as in VS Code and Cursor. */
+  vscode: (name, defaultValue) => (defaultValue === undefined ? `\${env:${name}}` : null),
+  /** `{env:NAME}` without default values, as in OpenCode. */
+  opencode: (name, defaultValue) => (defaultValue === undefined ? `{env:${name}}` : null),
+} satisfies Record<string, EnvPlaceholderSyntax>;
+
+export class McpEnvPlaceholderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "McpEnvPlaceholderError";
+  }
+}
+
+/**
+ * Server fields whose strings may contain placeholders.
+ */
+type PlaceholderField = "command" | "args" | "url" | "httpUrl" | "cwd" | "env" | "headers";
+
+export type TranslateEnvPlaceholdersOptions = {
+  /** Syntax of the tool, or null when it has no interpolation of environment variables. */
+  syntax: EnvPlaceholderSyntax | null;
+  toolTarget: string;
+  /** Write the value of placeholders the tool cannot express, read from `env`. */
+  resolveEnv: boolean;
+  env?: Record<string, string | undefined>;
+};
+
+/**
+ * Rewrite the `${env:NAME}` placeholders of MCP servers in the syntax of a tool, so that secrets
+ * stay in the environment. Placeholders the tool cannot express are replaced by their value when
+ * `resolveEnv` is set, and are an error otherwise.
+ * @returns The servers (the given object when none has a placeholder), and the names of the variables whose values were written into them
+ * @throws McpEnvPlaceholderError if a placeholder cannot be expressed or resolved
+ */
+export function translateEnvPlaceholders<T extends McpServers[string]>({
+  mcpServers,
+  syntax,
+  toolTarget,
+  resolveEnv,
+  env = process.env,
+}: TranslateEnvPlaceholdersOptions & { mcpServers: Record<string, T> }): {
+  mcpServers: Record<string, T>;
+  resolvedNames: string[];
+} {
+  if (!JSON.stringify(mcpServers).includes("${env:")) {
+    return { mcpServers, resolvedNames: [] };
+  }
+
+  const resolvedNames = new Set<string>();
+
+  const translateServer = (serverName: string, server: T): T => {
+    const translate = (field: PlaceholderField, value: string): string =>
+      value.replace(ENV_PLACEHOLDER_PATTERN, (placeholder, name: string, defaultValue?: string) => {
+        const native = syntax?.(name, defaultValue) ?? null;
+        if (native !== null) {
+          return native;
+        }
+        const location = `mcpServers.${serverName}.${field}`;
+        if (!resolveEnv) {
+          const reason = syntax
+            ? "cannot express default values"
+            : "have no syntax for environment variables";
+          throw new McpEnvPlaceholderError(
+            `${location} uses "${placeholder}", but ${toolTarget} MCP files ${reason}. Set "resolveMcpEnv": true in rulesync.jsonc to write the value from the environment instead, and keep the generated file out of version control.`,
+          );
+        }
+        const resolved = env[name] ?? defaultValue;
+        if (resolved === undefined) {
+          throw new McpEnvPlaceholderError(
+            `Environment variable ${name} used by ${location} is not set.`,
+          );
+        }
+        resolvedNames.add(name);
+        return resolved;
+      });
+    const translateRecord = (field: PlaceholderField, record: Record<string, string>) =>
+      Object.fromEntries(
+        Object.entries(record).map(([key, value]) => [key, translate(field, value)]),
+      );
+
+    const { command, args, url, httpUrl, cwd, env: serverEnv, headers } = server;
+    return {
+      ...server,
+      ...(command !== undefined && {
+        command:
+          typeof command === "string"
+            ? translate("command", command)
+            : command.map((value) => translate("command", value)),
+      }),
+      ...(args && { args: args.map((value) => translate("args", value)) }),
+      ...(url !== undefined && { url: translate("url", url) }),
+      ...(httpUrl !== undefined && { httpUrl: translate("httpUrl", httpUrl) }),
+      ...(cwd !== undefined && { cwd: translate("cwd", cwd) }),
+      ...(serverEnv && { env: translateRecord("env", serverEnv) }),
+      ...(headers && { headers: translateRecord("headers", headers) }),
+    };
+  };
+
+  return {
+    mcpServers: Object.fromEntries(
+      Object.entries(mcpServers).map(([serverName, server]) => [
+        serverName,
+        translateServer(serverName, server),
+      ]),
+    ),
+    resolvedNames: [...resolvedNames].toSorted(),
+  };
+}
@@ -1,16 +1,21 @@
+import { join } from "node:path";
+
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import {
   RULESYNC_MCP_RELATIVE_FILE_PATH,
   RULESYNC_RELATIVE_DIR_PATH,
 } from "../../constants/rulesync-paths.js";
+import { GeneratedManifest } from "../../lib/generated-manifest.js";
 import { setupTestDirectory } from "../../test-utils/test-directories.js";
+import { writeFileContent } from "../../utils/file.js";
 import { ClaudecodeMcp } from "./claudecode-mcp.js";
 import { ClineMcp } from "./cline-mcp.js";
 import { CodexcliMcp } from "./codexcli-mcp.js";
 import { CopilotMcp } from "./copilot-mcp.js";
 import { CursorMcp } from "./cursor-mcp.js";
 import { GeminiCliMcp } from "./geminicli-mcp.js";
+import { ENV_PLACEHOLDER_SYNTAXES } from "./mcp-env-placeholders.js";
 import {
   McpProcessor,
   type McpProcessorToolTarget,
@@ -111,6 +116,9 @@ describe("McpProcessor", () => {
     (RulesyncMcp as any).fromFile = vi.fn();
     // stripMcpServerFields returns the same instance by default (no-op for mocked tests)
     (RulesyncMcp.prototype as any).stripMcpServerFields = vi.fn().mockReturnThis();
+    (RulesyncMcp.prototype as any).translateEnvPlaceholders = vi.fn(function (this: RulesyncMcp) {
+      return { rulesyncMcp: this, resolvedNames: [] };
+    });
   });
 
   afterEach(async () => {
@@ -900,6 +908,207 @@ describe("McpProcessor", () => {
 
       expect(rulesyncMcp.stripMcpServerFields).toHaveBeenCalledWith([]);
     });
+
+    it("should translate env placeholders in the syntax of the tool", async () => {
+      const rulesyncMcp = new RulesyncMcp({
+        baseDir: testDir,
+        relativeDirPath: RULESYNC_RELATIVE_DIR_PATH,
+        relativeFilePath: ".mcp.json",
+        fileContent: JSON.stringify({ mcpServers: {} }),
+      });
+
+      vi.mocked(CursorMcp.fromRulesyncMcp).mockResolvedValue({} as any);
+
+      const processor = new McpProcessor({
+        baseDir: testDir,
+        toolTarget: "cursor",
+        resolveEnv: true,
+      });
+
+      await processor.convertRulesyncFilesToToolFiles([rulesyncMcp]);
+
+      expect(rulesyncMcp.translateEnvPlaceholders).toHaveBeenCalledWith({
+        syntax: ENV_PLACEHOLDER_SYNTAXES.vscode,
+        toolTarget: "cursor",
+        resolveEnv: true,
+      });
+    });
+
+    it("should pass the translated file to the tool", async () => {
+      const rulesyncMcp = new RulesyncMcp({
+        baseDir: testDir,
+        relativeDirPath: RULESYNC_RELATIVE_DIR_PATH,
+        relativeFilePath: ".mcp.json",
+        fileContent: JSON.stringify({ mcpServers: {} }),
+      });
+      const translatedMcp = new RulesyncMcp({
+        baseDir: testDir,
+        relativeDirPath: RULESYNC_RELATIVE_DIR_PATH,
+        relativeFilePath: ".mcp.json",
+        fileContent: JSON.stringify({ mcpServers: {} }),
+      });
+      vi.mocked(rulesyncMcp.translateEnvPlaceholders).mockReturnValue({
+        rulesyncMcp: translatedMcp,
+        resolvedNames: ["API_KEY"],
+      });
+
+      vi.mocked(CodexcliMcp.fromRulesyncMcp).mockResolvedValue({
+        getRelativePathFromCwd: () => ".codex/config.toml",
+      } as any);
+
+      const processor = new McpProcessor({
+        baseDir: testDir,
+        toolTarget: "codexcli",
+        resolveEnv: true,
+      });
+
+      await processor.convertRulesyncFilesToToolFiles([rulesyncMcp]);
+
+      expect(CodexcliMcp.fromRulesyncMcp).toHaveBeenCalledWith({
+        baseDir: testDir,
+        rulesyncMcp: translatedMcp,
+        global: false,
+      });
+    });
+
+    describe("merge mode", () => {
+      const createMergeFixture = () => {
+        const filePath = join(testDir, ".vscode", "mcp.json");
+        const rulesyncMcp = new RulesyncMcp({
+          baseDir: testDir,
+          relativeDirPath: RULESYNC_RELATIVE_DIR_PATH,
+          relativeFilePath: ".mcp.json",
+          fileContent: "",
+        });
+        vi.mocked(rulesyncMcp.getMcpServers).mockReturnValue({ github: { command: "github" } });
+        const generatedToolMcp = {
+          getFilePath: () => filePath,
+          getFileContent: () => '{"servers":{"github":{"command":"github"}}}',
+          getBaseDir: () => testDir,
+          getRelativeDirPath: () => ".vscode",
+          getRelativeFilePath: () => "mcp.json",
+          getRelativePathFromCwd: () => ".vscode/mcp.json",
+        } as any;
+        vi.mocked(CopilotMcp.fromRulesyncMcp).mockReturnValue(generatedToolMcp);
+        (CopilotMcp as any).mergeFileContent = vi.fn().mockReturnValue("merged");
+        const manifest = new GeneratedManifest({
+          baseDir: testDir,
+          files: { ".vscode/mcp.json": { hash: "sha256-old", mcpServers: ["removed"] } },
+        });
+        return { filePath, rulesyncMcp, generatedToolMcp, manifest };
+      };
+
+      it("should merge the generated servers into the existing file", async () => {
+        const { filePath, rulesyncMcp, manifest } = createMergeFixture();
+        const existingFileContent = '{"servers":{"local":{"command":"node"}}}\n';
+        await writeFileContent(filePath, existingFileContent);
+
+        const processor = new McpProcessor({
+          baseDir: testDir,
+          toolTarget: "copilot",
+          merge: true,
+          manifest,
+        });
+        const toolFiles = await processor.convertRulesyncFilesToToolFiles([rulesyncMcp]);
+
+        expect(CopilotMcp.mergeFileContent).toHaveBeenCalledWith({
+          existingFileContent,
+          generatedFileContent: '{"servers":{"github":{"command":"github"}}}',
+          managedServerNames: ["removed"],
+        });
+        expect(toolFiles[0]).toBeInstanceOf(CopilotMcp);
+        expect(CopilotMcp).toHaveBeenCalledWith({
+          baseDir: testDir,
+          relativeDirPath: ".vscode",
+          relativeFilePath: "mcp.json",
+          fileContent: "merged",
+          validate: true,
+          global: false,
+        });
+        expect(manifest.getMcpServerNames(filePath)).toEqual(["github"]);
+        // Servers added by hand are not reported as edits to overwrite
+        expect(manifest.isModified({ filePath, content: existingFileContent })).toBe(false);
+      });
+
+      it("should write the generated file as is when there is no file to merge into", async () => {
+        const { filePath, rulesyncMcp, generatedToolMcp, manifest } = createMergeFixture();
+
+        const processor = new McpProcessor({
+          baseDir: testDir,
+          toolTarget: "copilot",
+          merge: true,
+          manifest,
+        });
+        const toolFiles = await processor.convertRulesyncFilesToToolFiles([rulesyncMcp]);
+
+        expect(toolFiles[0]).toBe(generatedToolMcp);
+        expect(CopilotMcp.mergeFileContent).not.toHaveBeenCalled();
+        expect(manifest.getMcpServerNames(filePath)).toEqual(["github"]);
+      });
+
+      it("should name the file that cannot be merged into", async () => {
+        const { filePath, rulesyncMcp, manifest } = createMergeFixture();
+        await writeFileContent(filePath, "{");
+        vi.mocked(CopilotMcp.mergeFileContent).mockImplementation(() => {
+          throw new SyntaxError("Unexpected end of JSON input");
+        });
+
+        const processor = new McpProcessor({
+          baseDir: testDir,
+          toolTarget: "copilot",
+          merge: true,
+          manifest,
+        });
+
+        await expect(processor.convertRulesyncFilesToToolFiles([rulesyncMcp])).rejects.toThrow(
+          "Failed to merge MCP servers into .vscode/mcp.json: SyntaxError: Unexpected end of JSON input",
+        );
+      });
+    });
+  });
+
+  describe("getConversionLosses", () => {
+    const createRulesyncMcp = () => {
+      const rulesyncMcp = new RulesyncMcp({
+        baseDir: testDir,
+        relativeDirPath: RULESYNC_RELATIVE_DIR_PATH,
+        relativeFilePath: "mcp.json",
+        fileContent: "",
+      });
+      vi.mocked(rulesyncMcp.getRelativePathFromCwd).mockReturnValue(".rulesync/mcp.json");
+      vi.mocked(rulesyncMcp.getJson).mockReturnValue({
+        mcpServers: {
+          serena: { command: "serena", enabledTools: ["find_symbol"] },
+          github: { command: "github", disabledTools: ["delete_repo"] },
+        },
+      });
+      return rulesyncMcp;
+    };
+
+    it("should report enabledTools and disabledTools the tool does not support", () => {
+      const processor = new McpProcessor({ baseDir: testDir, toolTarget: "claudecode" });
+
+      expect(processor.getConversionLosses([createRulesyncMcp()])).toEqual([
+        {
+          file: ".rulesync/mcp.json",
+          kind: "dropped",
+          item: "mcpServers.serena.enabledTools",
+          reason: "claudecode does not support enabledTools",
+        },
+        {
+          file: ".rulesync/mcp.json",
+          kind: "dropped",
+          item: "mcpServers.github.disabledTools",
+          reason: "claudecode does not support disabledTools",
+        },
+      ]);
+    });
+
+    it("should report nothing for tools supporting both fields", () => {
+      const processor = new McpProcessor({ baseDir: testDir, toolTarget: "codexcli" });
+
+      expect(processor.getConversionLosses([createRulesyncMcp()])).toEqual([]);
+    });
   });
 
   describe("convertToolFilesToRulesyncFiles", () => {
@@ -928,6 +1137,23 @@ describe("McpProcessor", () => {
       expect(targets).toContain("cursor");
       expect(targets).toContain("roo");
       expect(targets).toContain("codexcli"); // codexcli supports both project and global
+      expect(targets).toContain("qwencode");
+      expect(targets).toContain("zed");
+      expect(targets).not.toContain("windsurf"); // windsurf only supports global mode
+    });
+
+    it("should return global tool targets", () => {
+      const targets = McpProcessor.getToolTargets({ global: true });
+      expect(targets).toEqual(
+        expect.arrayContaining([
+          "antigravity",
+          "augmentcode",
+          "goose",
+          "qwencode",
+          "windsurf",
+          "zed",
+        ]),
+      );
     });
   });
 
@@ -1,12 +1,17 @@
 import { z } from "zod/mini";
 
 import { RULESYNC_MCP_RELATIVE_FILE_PATH } from "../../constants/rulesync-paths.js";
+import type { GeneratedManifest } from "../../lib/generated-manifest.js";
+import type { ConversionLoss } from "../../types/conversion-loss.js";
 import { FeatureProcessor } from "../../types/feature-processor.js";
 import { RulesyncFile } from "../../types/rulesync-file.js";
 import { ToolFile } from "../../types/tool-file.js";
 import { ToolTarget } from "../../types/tool-targets.js";
 import { formatError } from "../../utils/error.js";
+import { readFileContentOrNull } from "../../utils/file.js";
 import { logger } from "../../utils/logger.js";
+import { AntigravityMcp } from "./antigravity-mcp.js";
+import { AugmentcodeMcp } from "./augmentcode-mcp.js";
 import { ClaudecodeMcp } from "./claudecode-mcp.js";
 import { ClineMcp } from "./cline-mcp.js";
 import { CodexcliMcp } from "./codexcli-mcp.js";
@@ -14,10 +19,13 @@ import { CopilotMcp } from "./copilot-mcp.js";
 import { CursorMcp } from "./cursor-mcp.js";
 import { FactorydroidMcp } from "./factorydroid-mcp.js";
 import { GeminiCliMcp } from "./geminicli-mcp.js";
+import { GooseMcp } from "./goose-mcp.js";
 import { JunieMcp } from "./junie-mcp.js";
 import { KiloMcp } from "./kilo-mcp.js";
 import { KiroMcp } from "./kiro-mcp.js";
+import { ENV_PLACEHOLDER_SYNTAXES, EnvPlaceholderSyntax } from "./mcp-env-placeholders.js";
 import { OpencodeMcp } from "./opencode-mcp.js";
+import { QwencodeMcp } from "./qwencode-mcp.js";
 import { RooMcp } from "./roo-mcp.js";
 import { RulesyncMcp } from "./rulesync-mcp.js";
 import {
@@ -25,14 +33,20 @@ import {
   ToolMcpForDeletionParams,
   ToolMcpFromFileParams,
   ToolMcpFromRulesyncMcpParams,
+  ToolMcpMergeFileContentParams,
+  ToolMcpParams,
   ToolMcpSettablePaths,
 } from "./tool-mcp.js";
+import { WindsurfMcp } from "./windsurf-mcp.js";
+import { ZedMcp } from "./zed-mcp.js";
 
 /**
  * Supported tool targets for McpProcessor.
  * Using a tuple to preserve order for consistent iteration.
  */
 const mcpProcessorToolTargetTuple = [
+  "antigravity",
+  "augmentcode",
   "claudecode",
   "claudecode-legacy",
   "cline",
@@ -41,11 +55,15 @@ const mcpProcessorToolTargetTuple = [
   "cursor",
   "factorydroid",
   "geminicli",
+  "goose",
   "kilo",
   "kiro",
   "junie",
   "opencode",
+  "qwencode",
   "roo",
+  "windsurf",
+  "zed",
 ] as const;
 
 export type McpProcessorToolTarget = (typeof mcpProcessorToolTargetTuple)[number];
@@ -59,12 +77,14 @@ export const McpProcessorToolTargetSchema = z.enum(mcpProcessorToolTargetTuple);
  */
 type ToolMcpFactory = {
   class: {
+    new (params: ToolMcpParams): ToolMcp;
     fromRulesyncMcp(
       params: ToolMcpFromRulesyncMcpParams & { global?: boolean },
     ): ToolMcp | Promise<ToolMcp>;
     fromFile(params: ToolMcpFromFileParams): Promise<ToolMcp>;
     forDeletion(params: ToolMcpForDeletionParams): ToolMcp;
     getSettablePaths(options?: { global?: boolean }): ToolMcpSettablePaths;
+    mergeFileContent(params: ToolMcpMergeFileContentParams): string;
   };
   meta: {
     /** Whether the tool supports project-level MCP configuration */
@@ -75,6 +95,8 @@ type ToolMcpFactory = {
     supportsEnabledTools: boolean;
     /** Whether the tool supports disabledTools per MCP server */
     supportsDisabledTools: boolean;
+    /** How the tool references environment variables, or null when its MCP file cannot */
+    envPlaceholderSyntax: EnvPlaceholderSyntax | null;
   };
 };
 
@@ -83,6 +105,32 @@ type ToolMcpFactory = {
  * Using Map to preserve insertion order for consistent iteration.
  */
 const toolMcpFactories = new Map<McpProcessorToolTarget, ToolMcpFactory>([
+  [
+    "antigravity",
+    {
+      class: AntigravityMcp,
+      meta: {
+        supportsProject: false,
+        supportsGlobal: true,
+        supportsEnabledTools: false,
+        supportsDisabledTools: false,
+        envPlaceholderSyntax: null,
+      },
+    },
+  ],
+  [
+    "augmentcode",
+    {
+      class: AugmentcodeMcp,
+      meta: {
+        supportsProject: false,
+        supportsGlobal: true,
+        supportsEnabledTools: false,
+        supportsDisabledTools: false,
+        envPlaceholderSyntax: null,
+      },
+    },
+  ],
   [
     "claudecode",
     {
@@ -92,6 +140,7 @@ const toolMcpFactories = new Map<McpProcessorToolTarget, ToolMcpFactory>([
         supportsGlobal: true,
         supportsEnabledTools: false,
         supportsDisabledTools: false,
+        envPlaceholderSyntax: ENV_PLACEHOLDER_SYNTAXES.shell,
       },
     },
   ],
@@ -104,6 +153,7 @@ const toolMcpFactories = new Map<McpProcessorToolTarget, ToolMcpFactory>([
         supportsGlobal: true,
         supportsEnabledTools: false,
         supportsDisabledTools: false,
+        envPlaceholderSyntax: ENV_PLACEHOLDER_SYNTAXES.shell,
       },
     },
   ],
@@ -116,6 +166,7 @@ const toolMcpFactories = new Map<McpProcessorToolTarget, ToolMcpFactory>([
         supportsGlobal: false,
         supportsEnabledTools: false,
         supportsDisabledTools: false,
+        envPlaceholderSyntax: null,
       },
     },
   ],
@@ -128,6 +179,7 @@ const toolMcpFactories = new Map<McpProcessorToolTarget, ToolMcpFactory>([
         supportsGlobal: true,
         supportsEnabledTools: true,
         supportsDisabledTools: true,
+        envPlaceholderSyntax: null,
       },
     },
   ],
@@ -140,6 +192,7 @@ const toolMcpFactories = new Map<McpProcessorToolTarget, ToolMcpFactory>([
         supportsGlobal: false,
         supportsEnabledTools: false,
         supportsDisabledTools: false,
+        envPlaceholderSyntax: ENV_PLACEHOLDER_SYNTAXES.vscode,
       },
     },
   ],
@@ -152,6 +205,7 @@ const toolMcpFactories = new Map<McpProcessorToolTarget, ToolMcpFactory>([
         supportsGlobal: false,
         supportsEnabledTools: false,
         supportsDisabledTools: false,
+        envPlaceholderSyntax: ENV_PLACEHOLDER_SYNTAXES.vscode,
       },
     },
   ],
@@ -164,6 +218,7 @@ const toolMcpFactories = new Map<McpProcessorToolTarget, ToolMcpFactory>([
         supportsGlobal: true,
         supportsEnabledTools: false,
         supportsDisabledTools: false,
+        envPlaceholderSyntax: null,
       },
     },
   ],
@@ -176,6 +231,20 @@ const toolMcpFactories = new Map<McpProcessorToolTarget, ToolMcpFactory>([
         supportsGlobal: true,
         supportsEnabledTools: false,
         supportsDisabledTools: false,
+        envPlaceholderSyntax: ENV_PLACEHOLDER_SYNTAXES.braced,
+      },
+    },
+  ],
+  [
+    "goose",
+    {
+      class: GooseMcp,
+      meta: {
+        supportsProject: false,
+        supportsGlobal: true,
+        supportsEnabledTools: false,
+        supportsDisabledTools: false,
+        envPlaceholderSyntax: null,
       },
     },
   ],
@@ -188,6 +257,7 @@ const toolMcpFactories = new Map<McpProcessorToolTarget, ToolMcpFactory>([
         supportsGlobal: false,
         supportsEnabledTools: false,
         supportsDisabledTools: false,
+        envPlaceholderSyntax: ENV_PLACEHOLDER_SYNTAXES.vscode,
       },
     },
   ],
@@ -200,6 +270,7 @@ const toolMcpFactories = new Map<McpProcessorToolTarget, ToolMcpFactory>([
         supportsGlobal: false,
         supportsEnabledTools: false,
         supportsDisabledTools: false,
+        envPlaceholderSyntax: null,
       },
     },
   ],
@@ -212,6 +283,7 @@ const toolMcpFactories = new Map<McpProcessorToolTarget, ToolMcpFactory>([
         supportsGlobal: false,
         supportsEnabledTools: false,
         supportsDisabledTools: false,
+        envPlaceholderSyntax: null,
       },
     },
   ],
@@ -224,6 +296,20 @@ const toolMcpFactories = new Map<McpProcessorToolTarget, ToolMcpFactory>([
         supportsGlobal: true,
         supportsEnabledTools: true,
         supportsDisabledTools: true,
+        envPlaceholderSyntax: ENV_PLACEHOLDER_SYNTAXES.opencode,
+      },
+    },
+  ],
+  [
+    "qwencode",
+    {
+      class: QwencodeMcp,
+      meta: {
+        supportsProject: true,
+        supportsGlobal: true,
+        supportsEnabledTools: false,
+        supportsDisabledTools: false,
+        envPlaceholderSyntax: ENV_PLACEHOLDER_SYNTAXES.braced,
       },
     },
   ],
@@ -236,6 +322,33 @@ const toolMcpFactories = new Map<McpProcessorToolTarget, ToolMcpFactory>([
         supportsGlobal: false,
         supportsEnabledTools: false,
         supportsDisabledTools: false,
+        envPlaceholderSyntax: ENV_PLACEHOLDER_SYNTAXES.vscode,
+      },
+    },
+  ],
+  [
+    "windsurf",
+    {
+      class: WindsurfMcp,
+      meta: {
+        supportsProject: false,
+        supportsGlobal: true,
+        supportsEnabledTools: false,
+        supportsDisabledTools: true,
+        envPlaceholderSyntax: ENV_PLACEHOLDER_SYNTAXES.vscode,
+      },
+    },
+  ],
+  [
+    "zed",
+    {
+      class: ZedMcp,
+      meta: {
+        supportsProject: true,
+        supportsGlobal: true,
+        supportsEnabledTools: false,
+        supportsDisabledTools: false,
+        envPlaceholderSyntax: null,
       },
     },
   ],
@@ -272,6 +385,9 @@ export class McpProcessor extends FeatureProcessor {
   private readonly toolTarget: McpProcessorToolTarget;
   private readonly global: boolean;
   private readonly getFactory: GetFactory;
+  private readonly resolveEnv: boolean;
+  private readonly merge: boolean;
+  private readonly manifest?: GeneratedManifest;
 
   constructor({
     baseDir = process.cwd(),
@@ -279,12 +395,21 @@ export class McpProcessor extends FeatureProcessor {
     global = false,
     getFactory = defaultGetFactory,
     dryRun = false,
+    resolveEnv = false,
+    merge = false,
+    manifest,
   }: {
     baseDir?: string;
     toolTarget: ToolTarget;
     global?: boolean;
     getFactory?: GetFactory;
     dryRun?: boolean;
+    /** Write the values of `${env:NAME}` placeholders that the tool cannot reference. */
+    resolveEnv?: boolean;
+    /** Merge the generated servers into the tool MCP file instead of replacing its servers. */
+    merge?: boolean;
+    /** Record of generated files, which tells the servers rulesync owns in a merged file. */
+    manifest?: GeneratedManifest;
   }) {
     super({ baseDir, dryRun });
     const result = McpProcessorToolTargetSchema.safeParse(toolTarget);
@@ -296,6 +421,9 @@ export class McpProcessor extends FeatureProcessor {
     this.toolTarget = result.data;
     this.global = global;
     this.getFactory = getFactory;
+    this.resolveEnv = resolveEnv;
+    this.merge = merge;
+    this.manifest = manifest;
   }
 
   /**
@@ -304,7 +432,13 @@ export class McpProcessor extends FeatureProcessor {
    */
   async loadRulesyncFiles(): Promise<RulesyncFile[]> {
     try {
-      return [await RulesyncMcp.fromFile({})];
+      // Servers fetched from sources are merged in, with local servers taking precedence
+      const curated = await RulesyncMcp.fromCuratedFile({});
+      if (curated && !(await RulesyncMcp.exists())) {
+        return [curated];
+      }
+      const mcp = await RulesyncMcp.fromFile({});
+      return [curated ? mcp.withCuratedMcpServers(curated) : mcp];
     } catch (error) {
       logger.error(
         `Failed to load a Rulesync MCP file (${RULESYNC_MCP_RELATIVE_FILE_PATH}): ${formatError(error)}`,
@@ -381,17 +515,122 @@ export class McpProcessor extends FeatureProcessor {
         if (!factory.meta.supportsDisabledTools) fieldsToStrip.push("disabledTools");
         const filteredRulesyncMcp = mcp.stripMcpServerFields(fieldsToStrip);
 
-        return await factory.class.fromRulesyncMcp({
+        // Keep secrets in the environment by referencing them in the tool's own syntax
+        const { rulesyncMcp: translatedMcp, resolvedNames } =
+          filteredRulesyncMcp.translateEnvPlaceholders({
+            syntax: factory.meta.envPlaceholderSyntax,
+            toolTarget: this.toolTarget,
+            resolveEnv: this.resolveEnv,
+          });
+
+        const toolMcp = await factory.class.fromRulesyncMcp({
           baseDir: this.baseDir,
-          rulesyncMcp: filteredRulesyncMcp,
+          rulesyncMcp: translatedMcp,
           global: this.global,
         });
+        if (resolvedNames.length > 0) {
+          logger.warn(
+            `Wrote the values of ${resolvedNames.join(", ")} from the environment into ${toolMcp.getRelativePathFromCwd()}. Keep it out of version control.`,
+          );
+        }
+        if (!this.merge) {
+          return toolMcp;
+        }
+        return this.mergeIntoExistingFile({
+          factory,
+          toolMcp,
+          serverNames: Object.keys(translatedMcp.getMcpServers()),
+        });
       }),
     );
 
     return toolMcps;
   }
 
+  /**
+   * Merge a generated tool MCP file into the existing one. Only the servers rulesync wrote before,
+   * as recorded in the manifest, are replaced or removed; servers added by hand and the other keys
+   * of the file are kept. The servers written are recorded for the next generation.
+   */
+  private async mergeIntoExistingFile({
+    factory,
+    toolMcp,
+    serverNames,
+  }: {
+    factory: ToolMcpFactory;
+    toolMcp: ToolMcp;
+    serverNames: string[];
+  }): Promise<ToolMcp> {
+    const filePath = toolMcp.getFilePath();
+    const existingFileContent = await readFileContentOrNull(filePath);
+    const managedServerNames = this.manifest?.getMcpServerNames(filePath) ?? [];
+    this.manifest?.recordMcpServerNames({ filePath, serverNames });
+    if (existingFileContent === null) {
+      return toolMcp;
+    }
+
+    let fileContent: string;
+    try {
+      fileContent = factory.class.mergeFileContent({
+        existingFileContent,
+        generatedFileContent: toolMcp.getFileContent(),
+        managedServerNames,
+      });
+    } catch (error) {
+      throw new Error(
+        `Failed to merge MCP servers into ${toolMcp.getRelativePathFromCwd()}: ${formatError(error)}`,
+        { cause: error },
+      );
+    }
+
+    // Servers added by hand are expected in a merged file, so its current content is adopted
+    // and writing the merge is not reported as overwriting edits made by hand
+    this.manifest?.record({ filePath, content: existingFileContent });
+
+    return new factory.class({
+      baseDir: toolMcp.getBaseDir(),
+      relativeDirPath: toolMcp.getRelativeDirPath(),
+      relativeFilePath: toolMcp.getRelativeFilePath(),
+      fileContent,
+      validate: true,
+      global: this.global,
+    });
+  }
+
+  /**
+   * List the MCP server fields that the tool's MCP configuration cannot represent.
+   */
+  getConversionLosses(rulesyncFiles: RulesyncFile[]): ConversionLoss[] {
+    const rulesyncMcp = rulesyncFiles.find(
+      (file): file is RulesyncMcp => file instanceof RulesyncMcp,
+    );
+    if (!rulesyncMcp) {
+      return [];
+    }
+
+    const { meta } = this.getFactory(this.toolTarget);
+    const unsupportedFields = [
+      ...(meta.supportsEnabledTools ? [] : ["enabledTools"]),
+      ...(meta.supportsDisabledTools ? [] : ["disabledTools"]),
+    ];
+    const file = rulesyncMcp.getRelativePathFromCwd();
+
+    const losses: ConversionLoss[] = [];
+    for (const [serverName, serverConfig] of Object.entries(rulesyncMcp.getJson().mcpServers)) {
+      for (const field of unsupportedFields) {
+        if (field in serverConfig) {
+          losses.push({
+            file,
+            kind: "dropped",
+            item: `mcpServers.${serverName}.${field}`,
+            reason: `${this.toolTarget} does not support ${field}`,
+          });
+        }
+      }
+    }
+    return losses;
+  }
+
   /**
    * Implementation of abstract method from FeatureProcessor
    * Convert ToolFile[] to RulesyncFile[]
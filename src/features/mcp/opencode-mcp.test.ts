@@ -1136,6 +1136,40 @@ describe("OpencodeMcp", () => {
     });
   });
 
+  describe("mergeFileContent", () => {
+    it("should keep servers added by hand and the tool entries that are not of managed servers", () => {
+      const existingFileContent = `{
+  // Added by hand
+  "model": "anthropic/claude",
+  "mcp": {
+    "local": { "type": "local", "command": ["node"] },
+    "github": { "type": "local", "command": ["old-github"] }
+  },
+  "tools": { "write": false, "local_run": true, "github_delete": false }
+}`;
+      const generatedFileContent = JSON.stringify({
+        model: "anthropic/claude",
+        mcp: { github: { type: "local", command: ["github"] } },
+        tools: { github_search: true },
+      });
+
+      const merged = OpencodeMcp.mergeFileContent({
+        existingFileContent,
+        generatedFileContent,
+        managedServerNames: ["github"],
+      });
+
+      expect(JSON.parse(merged)).toEqual({
+        model: "anthropic/claude",
+        mcp: {
+          local: { type: "local", command: ["node"] },
+          github: { type: "local", command: ["github"] },
+        },
+        tools: { write: false, local_run: true, github_search: true },
+      });
+    });
+  });
+
   describe("toRulesyncMcp", () => {
     it("should convert to RulesyncMcp with standard format (local -> stdio)", () => {
       const jsonData = {
@@ -6,12 +6,15 @@ import { z } from "zod/mini";
 import { ValidationResult } from "../../types/ai-file.js";
 import { McpServers } from "../../types/mcp.js";
 import { readFileContentOrNull } from "../../utils/file.js";
+import { isRecord } from "../../utils/type-guards.js";
 import { RulesyncMcp } from "./rulesync-mcp.js";
 import {
   ToolMcp,
+  mergeMcpServers,
   ToolMcpForDeletionParams,
   ToolMcpFromFileParams,
   ToolMcpFromRulesyncMcpParams,
+  ToolMcpMergeFileContentParams,
   ToolMcpParams,
   ToolMcpSettablePaths,
 } from "./tool-mcp.js";
@@ -308,6 +311,45 @@ export class OpencodeMcp extends ToolMcp {
     });
   }
 
+  /**
+   * Keep servers added by hand under `mcp`, and the entries of `tools` that do not belong to a
+   * server rulesync manages.
+   */
+  static override mergeFileContent({
+    existingFileContent,
+    generatedFileContent,
+    managedServerNames,
+  }: ToolMcpMergeFileContentParams): string {
+    const existingJson: unknown = parseJsonc(existingFileContent);
+    const generatedJson: unknown = JSON.parse(generatedFileContent);
+    const existing = isRecord(existingJson) ? existingJson : {};
+    const generated = isRecord(generatedJson) ? generatedJson : {};
+    const generatedServers = isRecord(generated.mcp) ? generated.mcp : {};
+
+    // Tool entries are named `<server>_<tool>`; those of replaced servers are regenerated
+    const replacedServerNames = [...managedServerNames, ...Object.keys(generatedServers)];
+    const { tools: existingTools, ...existingWithoutTools } = existing;
+    const keptTools = Object.entries(isRecord(existingTools) ? existingTools : {}).filter(
+      ([key]) => !replacedServerNames.some((name) => key.startsWith(`${name}_`)),
+    );
+    const tools = {
+      ...Object.fromEntries(keptTools),
+      ...(isRecord(generated.tools) ? generated.tools : {}),
+    };
+
+    const merged = {
+      ...existingWithoutTools,
+      ...generated,
+      mcp: mergeMcpServers({
+        existingServers: isRecord(existing.mcp) ? existing.mcp : {},
+        generatedServers,
+        managedServerNames,
+      }),
+      ...(Object.keys(tools).length > 0 && { tools }),
+    };
+    return JSON.stringify(merged, null, 2);
+  }
+
   toRulesyncMcp(): RulesyncMcp {
     const convertedMcpServers = convertFromOpencodeFormat(this.json.mcp ?? {}, this.json.tools);
     return this.toRulesyncMcpDefault({
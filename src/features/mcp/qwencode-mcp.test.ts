@@ -0,0 +1,89 @@
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { RULESYNC_RELATIVE_DIR_PATH } from "../../constants/rulesync-paths.js";
+import { setupTestDirectory } from "../../test-utils/test-directories.js";
+import { ensureDir, writeFileContent } from "../../utils/file.js";
+import { QwencodeMcp } from "./qwencode-mcp.js";
+import { RulesyncMcp } from "./rulesync-mcp.js";
+
+describe("QwencodeMcp", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+    vi.spyOn(process, "cwd").mockReturnValue(testDir);
+  });
+
+  afterEach(async () => {
+    await cleanup();
+    vi.restoreAllMocks();
+  });
+
+  describe("getSettablePaths", () => {
+    it("should return the same path for project and global mode", () => {
+      const expected = { relativeDirPath: ".qwen", relativeFilePath: "settings.json" };
+      expect(QwencodeMcp.getSettablePaths()).toEqual(expected);
+      expect(QwencodeMcp.getSettablePaths({ global: true })).toEqual(expected);
+    });
+  });
+
+  describe("fromRulesyncMcp", () => {
+    it("should replace mcpServers and keep other settings", async () => {
+      await ensureDir(join(testDir, ".qwen"));
+      await writeFileContent(
+        join(testDir, ".qwen", "settings.json"),
+        JSON.stringify({ theme: "Default", mcpServers: { old: { command: "old" } } }),
+      );
+      const rulesyncMcp = new RulesyncMcp({
+        baseDir: testDir,
+        relativeDirPath: RULESYNC_RELATIVE_DIR_PATH,
+        relativeFilePath: ".mcp.json",
+        fileContent: JSON.stringify({
+          mcpServers: { api: { httpUrl: "https://example.com/mcp" } },
+        }),
+        validate: true,
+      });
+
+      const qwencodeMcp = await QwencodeMcp.fromRulesyncMcp({ baseDir: testDir, rulesyncMcp });
+
+      expect(JSON.parse(qwencodeMcp.getFileContent())).toEqual({
+        theme: "Default",
+        mcpServers: { api: { httpUrl: "https://example.com/mcp" } },
+      });
+    });
+  });
+
+  describe("toRulesyncMcp", () => {
+    it("should convert to Rulesync format", () => {
+      const qwencodeMcp = new QwencodeMcp({
+        baseDir: testDir,
+        relativeDirPath: ".qwen",
+        relativeFilePath: "settings.json",
+        fileContent: JSON.stringify({
+          theme: "Default",
+          mcpServers: { api: { command: "node", args: ["server.js"] } },
+        }),
+        validate: true,
+      });
+
+      expect(qwencodeMcp.toRulesyncMcp().getMcpServers()).toEqual({
+        api: { command: "node", args: ["server.js"] },
+      });
+    });
+  });
+
+  describe("isDeletable", () => {
+    it("should not be deletable", () => {
+      const qwencodeMcp = QwencodeMcp.forDeletion({
+        baseDir: testDir,
+        relativeDirPath: ".qwen",
+        relativeFilePath: "settings.json",
+      });
+
+      expect(qwencodeMcp.isDeletable()).toBe(false);
+    });
+  });
+});
@@ -3,6 +3,7 @@ import { basename, join } from "node:path";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import {
+  RULESYNC_CURATED_MCP_RELATIVE_FILE_PATH,
   RULESYNC_MCP_RELATIVE_FILE_PATH,
   RULESYNC_RELATIVE_DIR_PATH,
 } from "../../constants/rulesync-paths.js";
@@ -460,6 +461,34 @@ describe("RulesyncMcp", () => {
     });
   });
 
+  describe("fromCuratedFile", () => {
+    it("should return null when no servers were fetched", async () => {
+      expect(await RulesyncMcp.fromCuratedFile({})).toBeNull();
+    });
+
+    it("should merge curated servers, with local servers taking precedence", async () => {
+      await writeFileContent(
+        join(testDir, RULESYNC_MCP_RELATIVE_FILE_PATH),
+        JSON.stringify({ mcpServers: { github: { command: "local-github" } } }),
+      );
+      await writeFileContent(
+        join(testDir, RULESYNC_CURATED_MCP_RELATIVE_FILE_PATH),
+        JSON.stringify({
+          mcpServers: { github: { command: "curated-github" }, linear: { command: "linear" } },
+        }),
+      );
+
+      const curated = await RulesyncMcp.fromCuratedFile({});
+      const merged = (await RulesyncMcp.fromFile({})).withCuratedMcpServers(curated!);
+
+      expect(merged.getMcpServers()).toEqual({
+        github: { command: "local-github" },
+        linear: { command: "linear" },
+      });
+      expect(merged.getRelativePathFromCwd()).toBe(RULESYNC_MCP_RELATIVE_FILE_PATH);
+    });
+  });
+
   describe("fromFile", () => {
     it("should create RulesyncMcp from existing file", async () => {
       const mcpJsonPath = join(
@@ -1125,4 +1154,51 @@ describe("RulesyncMcp", () => {
       expect(rulesyncMcp.getJson()).toEqual(deeplyNestedData);
     });
   });
+
+  describe("translateEnvPlaceholders", () => {
+    it("should return the same instance when no server has a placeholder", () => {
+      const rulesyncMcp = new RulesyncMcp({
+        relativeDirPath: RULESYNC_RELATIVE_DIR_PATH,
+        relativeFilePath: ".mcp.json",
+        fileContent: JSON.stringify({ mcpServers: { local: { command: "node" } } }),
+      });
+
+      const result = rulesyncMcp.translateEnvPlaceholders({
+        syntax: null,
+        toolTarget: "codexcli",
+        resolveEnv: false,
+      });
+
+      expect(result.rulesyncMcp).toBe(rulesyncMcp);
+      expect(result.resolvedNames).toEqual([]);
+    });
+
+    it("should create a new instance with the translated servers", () => {
+      const rulesyncMcp = new RulesyncMcp({
+        baseDir: testDir,
+        relativeDirPath: RULESYNC_RELATIVE_DIR_PATH,
+        relativeFilePath: ".mcp.json",
+        fileContent: JSON.stringify({
+          mcpServers: { github: { command: "npx", env: { TOKEN: "${env:GITHUB_TOKEN}" } } },
+        }),
+      });
+
+      const result = rulesyncMcp.translateEnvPlaceholders({
+        syntax: null,
+        toolTarget: "codexcli",
+        resolveEnv: true,
+        env: { GITHUB_TOKEN: "ghp_secret" },
+      });
+
+      expect(result.rulesyncMcp).not.toBe(rulesyncMcp);
+      expect(result.rulesyncMcp.getJson().mcpServers).toEqual({
+        github: { command: "npx", env: { TOKEN: "ghp_secret" } },
+      });
+      expect(result.rulesyncMcp.getRelativeFilePath()).toBe(".mcp.json");
+      expect(result.resolvedNames).toEqual(["GITHUB_TOKEN"]);
+      expect(rulesyncMcp.getJson().mcpServers.github?.env).toEqual({
+        TOKEN: "${env:GITHUB_TOKEN}",
+      });
+    });
+  });
 });
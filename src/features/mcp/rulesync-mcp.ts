@@ -3,7 +3,11 @@ import { join } from "node:path";
 import { omit } from "es-toolkit/object";
 import { z } from "zod/mini";
 
-import { RULESYNC_RELATIVE_DIR_PATH } from "../../constants/rulesync-paths.js";
+import {
+  RULESYNC_CURATED_MCP_RELATIVE_FILE_PATH,
+  RULESYNC_CURATED_RELATIVE_DIR_PATH,
+  RULESYNC_RELATIVE_DIR_PATH,
+} from "../../constants/rulesync-paths.js";
 import { ValidationResult } from "../../types/ai-file.js";
 import { McpServerSchema, McpServers } from "../../types/mcp.js";
 import {
@@ -14,6 +18,10 @@ import {
 import { RulesyncTargetsSchema } from "../../types/tool-targets.js";
 import { fileExists, readFileContent } from "../../utils/file.js";
 import { logger } from "../../utils/logger.js";
+import {
+  TranslateEnvPlaceholdersOptions,
+  translateEnvPlaceholders,
+} from "./mcp-env-placeholders.js";
 
 // Schema for rulesync MCP server (extends base schema with optional targets)
 // Note: targets defaults to ["*"] when omitted (applied during filtering, not at parse time)
@@ -23,7 +31,7 @@ const RulesyncMcpServerSchema = z.extend(McpServerSchema, {
   exposed: z.optional(z.boolean()),
 });
 
-const RulesyncMcpConfigSchema = z.object({
+export const RulesyncMcpConfigSchema = z.object({
   mcpServers: z.record(z.string(), RulesyncMcpServerSchema),
 });
 type RulesyncMcpConfig = z.infer<typeof RulesyncMcpConfigSchema>;
@@ -128,6 +136,66 @@ export class RulesyncMcp extends RulesyncFile {
     });
   }
 
+  static async exists(): Promise<boolean> {
+    const baseDir = process.cwd();
+    const { recommended, legacy } = this.getSettablePaths();
+    return (
+      (await fileExists(
+        join(baseDir, recommended.relativeDirPath, recommended.relativeFilePath),
+      )) || (await fileExists(join(baseDir, legacy.relativeDirPath, legacy.relativeFilePath)))
+    );
+  }
+
+  /**
+   * Load the MCP servers fetched from declarative sources, or null when none were fetched.
+   */
+  static async fromCuratedFile({
+    validate = true,
+  }: RulesyncMcpFromFileParams): Promise<RulesyncMcp | null> {
+    const baseDir = process.cwd();
+    const filePath = join(baseDir, RULESYNC_CURATED_MCP_RELATIVE_FILE_PATH);
+    if (!(await fileExists(filePath))) {
+      return null;
+    }
+
+    return new RulesyncMcp({
+      baseDir,
+      relativeDirPath: RULESYNC_CURATED_RELATIVE_DIR_PATH,
+      relativeFilePath: "mcp.json",
+      fileContent: await readFileContent(filePath),
+      validate,
+    });
+  }
+
+  /**
+   * Load `.rulesync/mcp.json` with the servers fetched from declarative sources merged in, or null
+   * when neither file exists.
+   */
+  static async fromFileWithCurated({
+    validate = true,
+  }: RulesyncMcpFromFileParams): Promise<RulesyncMcp | null> {
+    const curated = await this.fromCuratedFile({ validate });
+    const mcp = (await this.exists()) ? await this.fromFile({ validate }) : null;
+    return mcp && curated ? mcp.withCuratedMcpServers(curated) : (mcp ?? curated);
+  }
+
+  /**
+   * Create a new RulesyncMcp that also has the servers of `curated`.
+   * Servers defined in this file take precedence over curated servers of the same name.
+   */
+  withCuratedMcpServers(curated: RulesyncMcp): RulesyncMcp {
+    return new RulesyncMcp({
+      baseDir: this.baseDir,
+      relativeDirPath: this.relativeDirPath,
+      relativeFilePath: this.relativeFilePath,
+      fileContent: JSON.stringify(
+        { ...this.json, mcpServers: { ...curated.getJson().mcpServers, ...this.json.mcpServers } },
+        null,
+        2,
+      ),
+    });
+  }
+
   getMcpServers(): McpServers {
     const entries = Object.entries(this.json.mcpServers);
 
@@ -138,6 +206,18 @@ export class RulesyncMcp extends RulesyncFile {
     );
   }
 
+  /**
+   * The servers marked `exposed: true`, which `rulesync mcp` proxies. Disabled servers are left out.
+   */
+  getExposedMcpServers(): McpServers {
+    return Object.fromEntries(
+      Object.entries(this.getMcpServers()).filter(
+        ([serverName, serverConfig]) =>
+          this.json.mcpServers[serverName]?.exposed === true && serverConfig.disabled !== true,
+      ),
+    );
+  }
+
   /**
    * Create a new RulesyncMcp with specified fields stripped from each server config.
    * Returns the same instance if no fields need stripping.
@@ -157,6 +237,32 @@ export class RulesyncMcp extends RulesyncFile {
     });
   }
 
+  /**
+   * Create a new RulesyncMcp with the `${env:NAME}` placeholders of each server written in the
+   * syntax of a tool. Returns the same instance if no server has a placeholder.
+   * @returns The instance and the names of the variables whose values were written into it
+   */
+  translateEnvPlaceholders(options: TranslateEnvPlaceholdersOptions): {
+    rulesyncMcp: RulesyncMcp;
+    resolvedNames: string[];
+  } {
+    const { mcpServers, resolvedNames } = translateEnvPlaceholders({
+      ...options,
+      mcpServers: this.json.mcpServers,
+    });
+    if (mcpServers === this.json.mcpServers) {
+      return { rulesyncMcp: this, resolvedNames };
+    }
+
+    const rulesyncMcp = new RulesyncMcp({
+      baseDir: this.baseDir,
+      relativeDirPath: this.relativeDirPath,
+      relativeFilePath: this.relativeFilePath,
+      fileContent: JSON.stringify({ ...this.json, mcpServers }, null, 2),
+    });
+    return { rulesyncMcp, resolvedNames };
+  }
+
   getJson(): RulesyncMcpConfig {
     return this.json;
   }
@@ -11,6 +11,7 @@ import {
   type ToolMcpFromFileParams,
   type ToolMcpFromRulesyncMcpParams,
   type ToolMcpParams,
+  mergeMcpServers,
 } from "./tool-mcp.js";
 
 // Create a concrete test implementation of the abstract ToolMcp class
@@ -493,6 +494,59 @@ describe("ToolMcp", () => {
     });
   });
 
+  describe("mergeFileContent", () => {
+    it("should replace and remove managed servers and keep the others", () => {
+      const existingFileContent = JSON.stringify({
+        mcpServers: {
+          local: { command: "node", args: ["local.js"] },
+          github: { command: "old-github" },
+          removed: { command: "removed" },
+        },
+        theme: "dark",
+      });
+      const generatedFileContent = JSON.stringify({
+        mcpServers: { github: { command: "github" }, context7: { url: "https://context7.dev" } },
+      });
+
+      const merged = ToolMcp.mergeFileContent({
+        existingFileContent,
+        generatedFileContent,
+        managedServerNames: ["github", "removed"],
+      });
+
+      expect(JSON.parse(merged)).toEqual({
+        mcpServers: {
+          local: { command: "node", args: ["local.js"] },
+          github: { command: "github" },
+          context7: { url: "https://context7.dev" },
+        },
+        theme: "dark",
+      });
+    });
+
+    it("should add the generated servers to a file without servers", () => {
+      const merged = ToolMcp.mergeFileContent({
+        existingFileContent: "{}",
+        generatedFileContent: JSON.stringify({ mcpServers: { github: { command: "github" } } }),
+        managedServerNames: [],
+      });
+
+      expect(JSON.parse(merged)).toEqual({ mcpServers: { github: { command: "github" } } });
+    });
+  });
+
+  describe("mergeMcpServers", () => {
+    it("should let a generated server replace a server added by hand with the same name", () => {
+      expect(
+        mergeMcpServers({
+          existingServers: { github: { command: "by-hand" }, local: { command: "local" } },
+          generatedServers: { github: { command: "generated" } },
+          managedServerNames: [],
+        }),
+      ).toEqual({ local: { command: "local" }, github: { command: "generated" } });
+    });
+  });
+
   describe("concrete implementation methods", () => {
     it("should allow TestToolMcp.fromRulesyncMcp to work correctly", () => {
       const jsonData = {
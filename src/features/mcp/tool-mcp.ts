@@ -1,6 +1,7 @@
 import { RULESYNC_RELATIVE_DIR_PATH } from "../../constants/rulesync-paths.js";
 import { AiFileFromFileParams, AiFileParams } from "../../types/ai-file.js";
 import { ToolFile } from "../../types/tool-file.js";
+import { isRecord } from "../../utils/type-guards.js";
 import { RulesyncMcp } from "./rulesync-mcp.js";
 
 export type ToolMcpParams = AiFileParams;
@@ -26,6 +27,35 @@ export type ToolMcpSettablePaths = {
   relativeFilePath: string;
 };
 
+export type ToolMcpMergeFileContentParams = {
+  /** Current content of the tool MCP file. */
+  existingFileContent: string;
+  /** Content generated from the Rulesync MCP file. */
+  generatedFileContent: string;
+  /** Servers rulesync wrote into the file before, which it may replace or remove. */
+  managedServerNames: string[];
+};
+
+/**
+ * Merge generated servers into the servers of an existing tool MCP file. Servers rulesync wrote
+ * before are replaced or removed, while the others keep their place and configuration.
+ * A server added by hand under the name of a generated server is replaced by it.
+ */
+export function mergeMcpServers<T>({
+  existingServers,
+  generatedServers,
+  managedServerNames,
+}: {
+  existingServers: Record<string, T>;
+  generatedServers: Record<string, T>;
+  managedServerNames: string[];
+}): Record<string, T> {
+  const foreignServers = Object.entries(existingServers).filter(
+    ([name]) => !managedServerNames.includes(name) && !(name in generatedServers),
+  );
+  return { ...Object.fromEntries(foreignServers), ...generatedServers };
+}
+
 export abstract class ToolMcp extends ToolFile {
   constructor({ ...rest }: ToolMcpParams) {
     super({
@@ -81,4 +111,38 @@ export abstract class ToolMcp extends ToolFile {
   static fromRulesyncMcp(_params: ToolMcpFromRulesyncMcpParams): ToolMcp | Promise<ToolMcp> {
     throw new Error("Please implement this method in the subclass.");
   }
+
+  /**
+   * Merge the content generated for the tool MCP file into its existing content, keeping the
+   * servers and keys rulesync does not manage.
+   * Handles JSON files with their servers under `mcpServers`; override for other formats.
+   */
+  static mergeFileContent(params: ToolMcpMergeFileContentParams): string {
+    return this.mergeJsonFileContent({ ...params, serversKey: "mcpServers" });
+  }
+
+  protected static mergeJsonFileContent({
+    existingFileContent,
+    generatedFileContent,
+    managedServerNames,
+    serversKey,
+  }: ToolMcpMergeFileContentParams & { serversKey: string }): string {
+    const existingJson: unknown = JSON.parse(existingFileContent);
+    const generatedJson: unknown = JSON.parse(generatedFileContent);
+    const existing = isRecord(existingJson) ? existingJson : {};
+    const generated = isRecord(generatedJson) ? generatedJson : {};
+    const existingServers = existing[serversKey];
+    const generatedServers = generated[serversKey];
+
+    const merged = {
+      ...existing,
+      ...generated,
+      [serversKey]: mergeMcpServers({
+        existingServers: isRecord(existingServers) ? existingServers : {},
+        generatedServers: isRecord(generatedServers) ? generatedServers : {},
+        managedServerNames,
+      }),
+    };
+    return JSON.stringify(merged, null, 2);
+  }
 }
@@ -0,0 +1,98 @@
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { RULESYNC_RELATIVE_DIR_PATH } from "../../constants/rulesync-paths.js";
+import { setupTestDirectory } from "../../test-utils/test-directories.js";
+import { ensureDir, writeFileContent } from "../../utils/file.js";
+import { RulesyncMcp } from "./rulesync-mcp.js";
+import { WindsurfMcp } from "./windsurf-mcp.js";
+
+describe("WindsurfMcp", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+    vi.spyOn(process, "cwd").mockReturnValue(testDir);
+  });
+
+  afterEach(async () => {
+    await cleanup();
+    vi.restoreAllMocks();
+  });
+
+  describe("getSettablePaths", () => {
+    it("should return global path", () => {
+      expect(WindsurfMcp.getSettablePaths({ global: true })).toEqual({
+        relativeDirPath: join(".codeium", "windsurf"),
+        relativeFilePath: "mcp_config.json",
+      });
+    });
+
+    it("should throw in project mode", () => {
+      expect(() => WindsurfMcp.getSettablePaths()).toThrow(
+        "WindsurfMcp only supports global mode. Please pass { global: true }.",
+      );
+    });
+  });
+
+  describe("fromRulesyncMcp", () => {
+    it("should convert remote servers to serverUrl and keep other settings", async () => {
+      await ensureDir(join(testDir, ".codeium", "windsurf"));
+      await writeFileContent(
+        join(testDir, ".codeium", "windsurf", "mcp_config.json"),
+        JSON.stringify({ customSetting: true, mcpServers: { old: { command: "old" } } }),
+      );
+      const rulesyncMcp = new RulesyncMcp({
+        baseDir: testDir,
+        relativeDirPath: RULESYNC_RELATIVE_DIR_PATH,
+        relativeFilePath: ".mcp.json",
+        fileContent: JSON.stringify({
+          mcpServers: {
+            local: { type: "stdio", command: "node", args: ["server.js"] },
+            remote: { type: "http", url: "https://example.com/mcp" },
+          },
+        }),
+        validate: true,
+      });
+
+      const windsurfMcp = await WindsurfMcp.fromRulesyncMcp({
+        baseDir: testDir,
+        rulesyncMcp,
+        global: true,
+      });
+
+      expect(JSON.parse(windsurfMcp.getFileContent())).toEqual({
+        customSetting: true,
+        mcpServers: {
+          local: { command: "node", args: ["server.js"] },
+          remote: { serverUrl: "https://example.com/mcp" },
+        },
+      });
+    });
+  });
+
+  describe("toRulesyncMcp", () => {
+    it("should convert serverUrl back to url", () => {
+      const windsurfMcp = new WindsurfMcp({
+        baseDir: testDir,
+        relativeDirPath: join(".codeium", "windsurf"),
+        relativeFilePath: "mcp_config.json",
+        fileContent: JSON.stringify({
+          mcpServers: {
+            local: { command: "node", args: ["server.js"] },
+            remote: { serverUrl: "https://example.com/mcp" },
+          },
+        }),
+        validate: true,
+        global: true,
+      });
+
+      expect(windsurfMcp.toRulesyncMcp().getMcpServers()).toEqual({
+        local: { command: "node", args: ["server.js"] },
+        remote: { url: "https://example.com/mcp" },
+      });
+    });
+  });
+});
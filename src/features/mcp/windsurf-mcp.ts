@@ -0,0 +1,147 @@
+import { join } from "node:path";
+
+import { ValidationResult } from "../../types/ai-file.js";
+import { McpServers } from "../../types/mcp.js";
+import { readFileContentOrNull } from "../../utils/file.js";
+import { isRecord } from "../../utils/type-guards.js";
+import { RulesyncMcp } from "./rulesync-mcp.js";
+import {
+  ToolMcp,
+  ToolMcpForDeletionParams,
+  ToolMcpFromFileParams,
+  ToolMcpFromRulesyncMcpParams,
+  ToolMcpParams,
+  ToolMcpSettablePaths,
+} from "./tool-mcp.js";
+
+/**
+ * Convert Rulesync MCP format to Windsurf MCP format
+ * - url / httpUrl -> serverUrl
+ * - type and transport are dropped: Windsurf infers the transport of a server
+ */
+export function convertToWindsurfFormat(
+  mcpServers: McpServers,
+): Record<string, Record<string, unknown>> {
+  return Object.fromEntries(
+    Object.entries(mcpServers).map(([serverName, serverConfig]) => {
+      const { type: _type, transport: _transport, url, httpUrl, ...rest } = serverConfig;
+      const serverUrl = httpUrl ?? url;
+      return [serverName, { ...rest, ...(serverUrl !== undefined && { serverUrl }) }];
+    }),
+  );
+}
+
+/**
+ * Convert Windsurf MCP format back to Rulesync MCP format
+ * - serverUrl -> url
+ */
+export function convertFromWindsurfFormat(mcpServers: unknown): McpServers {
+  if (!isRecord(mcpServers)) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(mcpServers)
+      .filter((entry): entry is [string, Record<string, unknown>] => isRecord(entry[1]))
+      .map(([serverName, { serverUrl, ...rest }]) => [
+        serverName,
+        { ...rest, ...(typeof serverUrl === "string" && { url: serverUrl }) },
+      ]),
+  );
+}
+
+export class WindsurfMcp extends ToolMcp {
+  private readonly json: Record<string, unknown>;
+
+  constructor(params: ToolMcpParams) {
+    super(params);
+    this.json = JSON.parse(this.fileContent || "{}");
+  }
+
+  getJson(): Record<string, unknown> {
+    return this.json;
+  }
+
+  static getSettablePaths({ global }: { global?: boolean } = {}): ToolMcpSettablePaths {
+    if (!global) {
+      throw new Error("WindsurfMcp only supports global mode. Please pass { global: true }.");
+    }
+    return {
+      relativeDirPath: join(".codeium", "windsurf"),
+      relativeFilePath: "mcp_config.json",
+    };
+  }
+
+  static async fromFile({
+    baseDir = process.cwd(),
+    validate = true,
+    global = false,
+  }: ToolMcpFromFileParams): Promise<WindsurfMcp> {
+    const paths = this.getSettablePaths({ global });
+    const fileContent =
+      (await readFileContentOrNull(join(baseDir, paths.relativeDirPath, paths.relativeFilePath))) ??
+      '{"mcpServers":{}}';
+
+    return new WindsurfMcp({
+      baseDir,
+      relativeDirPath: paths.relativeDirPath,
+      relativeFilePath: paths.relativeFilePath,
+      fileContent,
+      validate,
+      global,
+    });
+  }
+
+  static async fromRulesyncMcp({
+    baseDir = process.cwd(),
+    rulesyncMcp,
+    validate = true,
+    global = false,
+  }: ToolMcpFromRulesyncMcpParams): Promise<WindsurfMcp> {
+    const paths = this.getSettablePaths({ global });
+
+    const fileContent =
+      (await readFileContentOrNull(join(baseDir, paths.relativeDirPath, paths.relativeFilePath))) ??
+      "{}";
+    const json = JSON.parse(fileContent);
+    const newJson = { ...json, mcpServers: convertToWindsurfFormat(rulesyncMcp.getMcpServers()) };
+
+    return new WindsurfMcp({
+      baseDir,
+      relativeDirPath: paths.relativeDirPath,
+      relativeFilePath: paths.relativeFilePath,
+      fileContent: JSON.stringify(newJson, null, 2),
+      validate,
+      global,
+    });
+  }
+
+  toRulesyncMcp(): RulesyncMcp {
+    return this.toRulesyncMcpDefault({
+      fileContent: JSON.stringify(
+        { mcpServers: convertFromWindsurfFormat(this.json.mcpServers) },
+        null,
+        2,
+      ),
+    });
+  }
+
+  validate(): ValidationResult {
+    return { success: true, error: null };
+  }
+
+  static forDeletion({
+    baseDir = process.cwd(),
+    relativeDirPath,
+    relativeFilePath,
+    global = false,
+  }: ToolMcpForDeletionParams): WindsurfMcp {
+    return new WindsurfMcp({
+      baseDir,
+      relativeDirPath,
+      relativeFilePath,
+      fileContent: "{}",
+      validate: false,
+      global,
+    });
+  }
+}
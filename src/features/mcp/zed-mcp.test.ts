@@ -0,0 +1,154 @@
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { RULESYNC_RELATIVE_DIR_PATH } from "../../constants/rulesync-paths.js";
+import { setupTestDirectory } from "../../test-utils/test-directories.js";
+import { ensureDir, writeFileContent } from "../../utils/file.js";
+import { RulesyncMcp } from "./rulesync-mcp.js";
+import { ZedMcp } from "./zed-mcp.js";
+
+describe("ZedMcp", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+    vi.spyOn(process, "cwd").mockReturnValue(testDir);
+  });
+
+  afterEach(async () => {
+    await cleanup();
+    vi.restoreAllMocks();
+  });
+
+  describe("getSettablePaths", () => {
+    it("should return project path", () => {
+      expect(ZedMcp.getSettablePaths()).toEqual({
+        relativeDirPath: ".zed",
+        relativeFilePath: "settings.json",
+      });
+    });
+
+    it("should return global path", () => {
+      expect(ZedMcp.getSettablePaths({ global: true })).toEqual({
+        relativeDirPath: join(".config", "zed"),
+        relativeFilePath: "settings.json",
+      });
+    });
+  });
+
+  describe("fromRulesyncMcp", () => {
+    it("should convert servers to context servers", async () => {
+      const rulesyncMcp = new RulesyncMcp({
+        baseDir: testDir,
+        relativeDirPath: RULESYNC_RELATIVE_DIR_PATH,
+        relativeFilePath: ".mcp.json",
+        fileContent: JSON.stringify({
+          mcpServers: {
+            local: {
+              command: ["npx", "-y", "server"],
+              args: ["--verbose"],
+              env: { TOKEN: "secret" },
+              timeout: 30000,
+            },
+            remote: { type: "http", url: "https://example.com/mcp", disabled: true },
+          },
+        }),
+        validate: true,
+      });
+
+      const zedMcp = await ZedMcp.fromRulesyncMcp({ baseDir: testDir, rulesyncMcp });
+
+      expect(JSON.parse(zedMcp.getFileContent())).toEqual({
+        context_servers: {
+          local: { command: "npx", args: ["-y", "server", "--verbose"], env: { TOKEN: "secret" } },
+          remote: { url: "https://example.com/mcp", enabled: false },
+        },
+      });
+    });
+
+    it("should keep comments and other settings of settings.json", async () => {
+      await ensureDir(join(testDir, ".zed"));
+      await writeFileContent(
+        join(testDir, ".zed", "settings.json"),
+        '{\n  // Project font size\n  "buffer_font_size": 15\n}\n',
+      );
+      const rulesyncMcp = new RulesyncMcp({
+        baseDir: testDir,
+        relativeDirPath: RULESYNC_RELATIVE_DIR_PATH,
+        relativeFilePath: ".mcp.json",
+        fileContent: JSON.stringify({ mcpServers: { api: { command: "node" } } }),
+        validate: true,
+      });
+
+      const zedMcp = await ZedMcp.fromRulesyncMcp({ baseDir: testDir, rulesyncMcp });
+
+      expect(zedMcp.getFileContent()).toContain("// Project font size");
+      expect(zedMcp.getJson()).toEqual({
+        buffer_font_size: 15,
+        context_servers: { api: { command: "node" } },
+      });
+    });
+  });
+
+  describe("toRulesyncMcp", () => {
+    it("should convert context servers, including the legacy command format", () => {
+      const zedMcp = new ZedMcp({
+        baseDir: testDir,
+        relativeDirPath: ".zed",
+        relativeFilePath: "settings.json",
+        fileContent: JSON.stringify({
+          context_servers: {
+            legacy: {
+              source: "custom",
+              command: { path: "node", args: ["server.js"], env: { A: "1" } },
+            },
+            remote: { url: "https://example.com/mcp", enabled: false },
+          },
+        }),
+        validate: true,
+      });
+
+      expect(zedMcp.toRulesyncMcp().getMcpServers()).toEqual({
+        legacy: { command: "node", args: ["server.js"], env: { A: "1" } },
+        remote: { url: "https://example.com/mcp", disabled: true },
+      });
+    });
+  });
+
+  describe("mergeFileContent", () => {
+    it("should keep context servers added by hand and comments", () => {
+      const merged = ZedMcp.mergeFileContent({
+        existingFileContent:
+          '{\n  // My settings\n  "context_servers": {\n    "mine": { "command": "mine" },\n    "old": { "command": "old" }\n  }\n}\n',
+        generatedFileContent: JSON.stringify({ context_servers: { api: { command: "node" } } }),
+        managedServerNames: ["old"],
+      });
+
+      expect(merged).toContain("// My settings");
+      expect(
+        new ZedMcp({
+          baseDir: testDir,
+          relativeDirPath: ".zed",
+          relativeFilePath: "settings.json",
+          fileContent: merged,
+        }).getJson(),
+      ).toEqual({
+        context_servers: { mine: { command: "mine" }, api: { command: "node" } },
+      });
+    });
+  });
+
+  describe("isDeletable", () => {
+    it("should not be deletable", () => {
+      const zedMcp = ZedMcp.forDeletion({
+        baseDir: testDir,
+        relativeDirPath: ".zed",
+        relativeFilePath: "settings.json",
+      });
+
+      expect(zedMcp.isDeletable()).toBe(false);
+    });
+  });
+});
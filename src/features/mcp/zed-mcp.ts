@@ -0,0 +1,222 @@
+import { join } from "node:path";
+
+import { applyEdits, modify, parse as parseJsonc } from "jsonc-parser";
+
+import { ValidationResult } from "../../types/ai-file.js";
+import { McpServers } from "../../types/mcp.js";
+import { readFileContentOrNull } from "../../utils/file.js";
+import { isRecord } from "../../utils/type-guards.js";
+import { RulesyncMcp } from "./rulesync-mcp.js";
+import {
+  ToolMcp,
+  ToolMcpForDeletionParams,
+  ToolMcpFromFileParams,
+  ToolMcpFromRulesyncMcpParams,
+  ToolMcpMergeFileContentParams,
+  ToolMcpParams,
+  ToolMcpSettablePaths,
+  mergeMcpServers,
+} from "./tool-mcp.js";
+
+// Zed keeps MCP servers as "context servers" in settings.json:
+// stdio servers have command/args/env, remote servers url/headers,
+// and "enabled": false instead of "disabled": true
+
+type ZedContextServers = Record<string, Record<string, unknown>>;
+
+/**
+ * Convert Rulesync MCP format to Zed context servers
+ * - command (array) -> command (first element) + args (rest)
+ * - url / httpUrl -> url
+ * - disabled: true -> enabled: false
+ * Fields Zed does not read, such as cwd or timeout, are dropped.
+ */
+function convertToZedFormat(mcpServers: McpServers): ZedContextServers {
+  return Object.fromEntries(
+    Object.entries(mcpServers).map(([serverName, serverConfig]) => {
+      const [command, ...commandArgs] =
+        typeof serverConfig.command === "string"
+          ? [serverConfig.command]
+          : (serverConfig.command ?? []);
+      const args = [...commandArgs, ...(serverConfig.args ?? [])];
+      const url = serverConfig.httpUrl ?? serverConfig.url;
+      const contextServer: Record<string, unknown> = {
+        ...(command !== undefined && { command }),
+        ...(command !== undefined && args.length > 0 && { args }),
+        ...(serverConfig.env && { env: serverConfig.env }),
+        ...(url !== undefined && { url }),
+        ...(serverConfig.headers && { headers: serverConfig.headers }),
+        ...(serverConfig.disabled === true && { enabled: false }),
+      };
+      return [serverName, contextServer];
+    }),
+  );
+}
+
+/**
+ * Convert Zed context servers back to Rulesync MCP format
+ * - command given as { path, args, env }, as in older Zed versions -> command/args/env
+ * - enabled: false -> disabled: true
+ */
+function convertFromZedFormat(contextServers: unknown): McpServers {
+  if (!isRecord(contextServers)) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(contextServers)
+      .filter((entry): entry is [string, Record<string, unknown>] => isRecord(entry[1]))
+      .map(([serverName, { command, enabled, source: _source, ...rest }]) => {
+        const converted: Record<string, unknown> = { ...rest };
+        if (isRecord(command)) {
+          converted.command = command.path;
+          if (command.args !== undefined) converted.args = command.args;
+          if (command.env !== undefined) converted.env = command.env;
+        } else if (command !== undefined) {
+          converted.command = command;
+        }
+        if (enabled === false) {
+          converted.disabled = true;
+        }
+        return [serverName, converted];
+      }),
+  );
+}
+
+/**
+ * Set `context_servers` in the content of settings.json, keeping its comments and other settings.
+ */
+function setContextServers(fileContent: string, contextServers: Record<string, unknown>): string {
+  const edits = modify(fileContent, ["context_servers"], contextServers, {
+    formattingOptions: { tabSize: 2, insertSpaces: true },
+  });
+  return applyEdits(fileContent, edits);
+}
+
+export class ZedMcp extends ToolMcp {
+  private readonly json: Record<string, unknown>;
+
+  constructor(params: ToolMcpParams) {
+    super(params);
+    const json: unknown = parseJsonc(this.fileContent || "{}");
+    this.json = isRecord(json) ? json : {};
+  }
+
+  getJson(): Record<string, unknown> {
+    return this.json;
+  }
+
+  /**
+   * settings.json contains other Zed settings, so it should not be deleted.
+   */
+  override isDeletable(): boolean {
+    return false;
+  }
+
+  static getSettablePaths({ global }: { global?: boolean } = {}): ToolMcpSettablePaths {
+    if (global) {
+      return {
+        relativeDirPath: join(".config", "zed"),
+        relativeFilePath: "settings.json",
+      };
+    }
+    return {
+      relativeDirPath: ".zed",
+      relativeFilePath: "settings.json",
+    };
+  }
+
+  static async fromFile({
+    baseDir = process.cwd(),
+    validate = true,
+    global = false,
+  }: ToolMcpFromFileParams): Promise<ZedMcp> {
+    const paths = this.getSettablePaths({ global });
+    const fileContent =
+      (await readFileContentOrNull(join(baseDir, paths.relativeDirPath, paths.relativeFilePath))) ??
+      '{"context_servers":{}}';
+
+    return new ZedMcp({
+      baseDir,
+      relativeDirPath: paths.relativeDirPath,
+      relativeFilePath: paths.relativeFilePath,
+      fileContent,
+      validate,
+      global,
+    });
+  }
+
+  static async fromRulesyncMcp({
+    baseDir = process.cwd(),
+    rulesyncMcp,
+    validate = true,
+    global = false,
+  }: ToolMcpFromRulesyncMcpParams): Promise<ZedMcp> {
+    const paths = this.getSettablePaths({ global });
+
+    const fileContent =
+      (await readFileContentOrNull(join(baseDir, paths.relativeDirPath, paths.relativeFilePath))) ??
+      "{}";
+
+    return new ZedMcp({
+      baseDir,
+      relativeDirPath: paths.relativeDirPath,
+      relativeFilePath: paths.relativeFilePath,
+      fileContent: setContextServers(fileContent, convertToZedFormat(rulesyncMcp.getMcpServers())),
+      validate,
+      global,
+    });
+  }
+
+  /**
+   * Keep context servers added by hand, and the comments and other settings of settings.json.
+   */
+  static override mergeFileContent({
+    existingFileContent,
+    generatedFileContent,
+    managedServerNames,
+  }: ToolMcpMergeFileContentParams): string {
+    const existingJson: unknown = parseJsonc(existingFileContent);
+    const generatedJson: unknown = parseJsonc(generatedFileContent);
+    const existingServers = isRecord(existingJson) ? existingJson.context_servers : undefined;
+    const generatedServers = isRecord(generatedJson) ? generatedJson.context_servers : undefined;
+
+    return setContextServers(
+      existingFileContent,
+      mergeMcpServers({
+        existingServers: isRecord(existingServers) ? existingServers : {},
+        generatedServers: isRecord(generatedServers) ? generatedServers : {},
+        managedServerNames,
+      }),
+    );
+  }
+
+  toRulesyncMcp(): RulesyncMcp {
+    return this.toRulesyncMcpDefault({
+      fileContent: JSON.stringify(
+        { mcpServers: convertFromZedFormat(this.json.context_servers) },
+        null,
+        2,
+      ),
+    });
+  }
+
+  validate(): ValidationResult {
+    return { success: true, error: null };
+  }
+
+  static forDeletion({
+    baseDir = process.cwd(),
+    relativeDirPath,
+    relativeFilePath,
+    global = false,
+  }: ToolMcpForDeletionParams): ZedMcp {
+    return new ZedMcp({
+      baseDir,
+      relativeDirPath,
+      relativeFilePath,
+      fileContent: "{}",
+      validate: false,
+      global,
+    });
+  }
+}
@@ -1,6 +1,7 @@
 import { join } from "node:path";
 
 import { AiFileParams, ValidationResult } from "../../types/ai-file.js";
+import type { ConversionLoss } from "../../types/conversion-loss.js";
 import { readFileContent } from "../../utils/file.js";
 import { RulesyncRule } from "./rulesync-rule.js";
 import {
@@ -8,6 +9,7 @@ import {
   ToolRuleForDeletionParams,
   ToolRuleFromFileParams,
   ToolRuleFromRulesyncRuleParams,
+  ToolRuleGetConversionLossesParams,
   ToolRuleSettablePaths,
   buildToolPath,
 } from "./tool-rule.js";
@@ -118,6 +120,13 @@ export class AgentsMdRule extends ToolRule {
     return { success: true, error: null };
   }
 
+  static getConversionLosses(params: ToolRuleGetConversionLossesParams): ConversionLoss[] {
+    return this.getConversionLossesDefault({
+      ...params,
+      toolSection: { name: "agentsmd", fields: ["subprojectPath"] },
+    });
+  }
+
   static isTargetedByRulesyncRule(rulesyncRule: RulesyncRule): boolean {
     return this.isTargetedByRulesyncRuleDefault({
       rulesyncRule,
@@ -3,6 +3,7 @@ import { join } from "node:path";
 import { z } from "zod/mini";
 
 import { ValidationResult } from "../../types/ai-file.js";
+import type { ConversionLoss } from "../../types/conversion-loss.js";
 import { formatError } from "../../utils/error.js";
 import { readFileContent, toKebabCaseFilename } from "../../utils/file.js";
 import { parseFrontmatter, stringifyFrontmatter } from "../../utils/frontmatter.js";
@@ -12,6 +13,7 @@ import {
   ToolRuleForDeletionParams,
   ToolRuleFromFileParams,
   ToolRuleFromRulesyncRuleParams,
+  ToolRuleGetConversionLossesParams,
   ToolRuleParams,
   ToolRuleSettablePaths,
   buildToolPath,
@@ -503,6 +505,14 @@ export class AntigravityRule extends ToolRule {
     });
   }
 
+  static getConversionLosses(params: ToolRuleGetConversionLossesParams): ConversionLoss[] {
+    return this.getConversionLossesDefault({
+      ...params,
+      nonRootFields: ["globs"],
+      toolSection: { name: "antigravity", fields: "*" },
+    });
+  }
+
   static isTargetedByRulesyncRule(rulesyncRule: RulesyncRule): boolean {
     return this.isTargetedByRulesyncRuleDefault({
       rulesyncRule,
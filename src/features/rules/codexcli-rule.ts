@@ -1,6 +1,7 @@
 import { join } from "node:path";
 
 import { ValidationResult } from "../../types/ai-file.js";
+import type { ConversionLoss } from "../../types/conversion-loss.js";
 import { readFileContent } from "../../utils/file.js";
 import { RulesyncRule } from "./rulesync-rule.js";
 import {
@@ -8,6 +9,7 @@ import {
   ToolRuleForDeletionParams,
   ToolRuleFromFileParams,
   ToolRuleFromRulesyncRuleParams,
+  ToolRuleGetConversionLossesParams,
   ToolRuleSettablePaths,
   ToolRuleSettablePathsGlobal,
   buildToolPath,
@@ -145,6 +147,13 @@ export class CodexcliRule extends ToolRule {
     });
   }
 
+  static getConversionLosses(params: ToolRuleGetConversionLossesParams): ConversionLoss[] {
+    return this.getConversionLossesDefault({
+      ...params,
+      toolSection: { name: "agentsmd", fields: ["subprojectPath"] },
+    });
+  }
+
   static isTargetedByRulesyncRule(rulesyncRule: RulesyncRule): boolean {
     return this.isTargetedByRulesyncRuleDefault({
       rulesyncRule,
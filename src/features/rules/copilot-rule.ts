@@ -4,6 +4,7 @@ import { z } from "zod/mini";
 
 import { RULESYNC_RULES_RELATIVE_DIR_PATH } from "../../constants/rulesync-paths.js";
 import { ValidationResult } from "../../types/ai-file.js";
+import type { ConversionLoss } from "../../types/conversion-loss.js";
 import { formatError } from "../../utils/error.js";
 import { readFileContent } from "../../utils/file.js";
 import { parseFrontmatter, stringifyFrontmatter } from "../../utils/frontmatter.js";
@@ -13,6 +14,7 @@ import {
   ToolRuleForDeletionParams,
   ToolRuleFromFileParams,
   ToolRuleFromRulesyncRuleParams,
+  ToolRuleGetConversionLossesParams,
   ToolRuleParams,
   ToolRuleSettablePaths,
   ToolRuleSettablePathsGlobal,
@@ -299,6 +301,14 @@ export class CopilotRule extends ToolRule {
     return this.body;
   }
 
+  static getConversionLosses(params: ToolRuleGetConversionLossesParams): ConversionLoss[] {
+    return this.getConversionLossesDefault({
+      ...params,
+      nonRootFields: ["description", "globs"],
+      toolSection: { name: "copilot", fields: ["excludeAgent"] },
+    });
+  }
+
   static isTargetedByRulesyncRule(rulesyncRule: RulesyncRule): boolean {
     return this.isTargetedByRulesyncRuleDefault({
       rulesyncRule,
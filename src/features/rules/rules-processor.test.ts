@@ -2,7 +2,10 @@ import { join } from "node:path";
 
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-import { RULESYNC_RULES_RELATIVE_DIR_PATH } from "../../constants/rulesync-paths.js";
+import {
+  RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH,
+  RULESYNC_RULES_RELATIVE_DIR_PATH,
+} from "../../constants/rulesync-paths.js";
 import { setupTestDirectory } from "../../test-utils/test-directories.js";
 import { ensureDir, readFileContent, writeFileContent } from "../../utils/file.js";
 import { logger } from "../../utils/logger.js";
@@ -237,6 +240,125 @@ describe("RulesProcessor", () => {
     });
   });
 
+  describe("template rendering", () => {
+    it("should render template tags in rule bodies for each target", async () => {
+      const rulesyncRule = new RulesyncRule({
+        baseDir: testDir,
+        relativeDirPath: RULESYNC_RULES_RELATIVE_DIR_PATH,
+        relativeFilePath: "setup.md",
+        frontmatter: { targets: ["*"] },
+        body: [
+          "Use {{vars.packageManager}}.",
+          '{{#if target == "claudecode"}}',
+          "Claude Code only",
+          "{{else}}",
+          "Other tools",
+          "{{/if}}",
+        ].join("\n"),
+      });
+
+      const [claudecodeRule] = await new RulesProcessor({
+        toolTarget: "claudecode",
+        templateVars: { packageManager: "pnpm" },
+      }).convertRulesyncFilesToToolFiles([rulesyncRule]);
+      const [cursorRule] = await new RulesProcessor({
+        toolTarget: "cursor",
+        templateVars: { packageManager: "pnpm" },
+      }).convertRulesyncFilesToToolFiles([rulesyncRule]);
+
+      expect(claudecodeRule?.getFileContent()).toContain("Use pnpm.\nClaude Code only");
+      expect(claudecodeRule?.getFileContent()).not.toContain("Other tools");
+      expect(cursorRule?.getFileContent()).toContain("Use pnpm.\nOther tools");
+      expect(rulesyncRule.getBody()).toContain("{{vars.packageManager}}");
+    });
+
+    it("should report the rule file when a variable is not defined", async () => {
+      const rulesyncRule = new RulesyncRule({
+        baseDir: testDir,
+        relativeDirPath: RULESYNC_RULES_RELATIVE_DIR_PATH,
+        relativeFilePath: "setup.md",
+        frontmatter: { targets: ["*"] },
+        body: "Use {{vars.packageManager}}.",
+      });
+
+      await expect(
+        new RulesProcessor({ toolTarget: "claudecode" }).convertRulesyncFilesToToolFiles([
+          rulesyncRule,
+        ]),
+      ).rejects.toThrow(
+        `Failed to render template in ${join(RULESYNC_RULES_RELATIVE_DIR_PATH, "setup.md")}`,
+      );
+    });
+  });
+
+  describe("getConversionLosses", () => {
+    const createRule = (frontmatter: RulesyncRule["frontmatter"]) =>
+      new RulesyncRule({
+        baseDir: testDir,
+        relativeDirPath: RULESYNC_RULES_RELATIVE_DIR_PATH,
+        relativeFilePath: "typescript.md",
+        frontmatter,
+        body: "Use strict mode",
+      });
+
+    it("should report non-root fields the tool cannot write natively", () => {
+      const rule = createRule({ targets: ["*"], description: "TypeScript", globs: ["**/*.ts"] });
+
+      expect(new RulesProcessor({ toolTarget: "claudecode" }).getConversionLosses([rule])).toEqual([
+        {
+          file: join(RULESYNC_RULES_RELATIVE_DIR_PATH, "typescript.md"),
+          kind: "dropped",
+          item: "description",
+          reason: "claudecode rule files have no description",
+        },
+      ]);
+      expect(new RulesProcessor({ toolTarget: "cursor" }).getConversionLosses([rule])).toEqual([]);
+      expect(new RulesProcessor({ toolTarget: "cline" }).getConversionLosses([rule])).toEqual([
+        expect.objectContaining({ kind: "dropped", item: "description" }),
+        expect.objectContaining({ kind: "dropped", item: "globs" }),
+      ]);
+    });
+
+    it("should report fields listed in the root rule as approximated", () => {
+      const rule = createRule({ targets: ["*"], globs: ["**/*.ts"] });
+
+      expect(new RulesProcessor({ toolTarget: "geminicli" }).getConversionLosses([rule])).toEqual([
+        expect.objectContaining({ kind: "approximated", item: "globs" }),
+      ]);
+    });
+
+    it("should not report fields of root rules", () => {
+      const rule = createRule({ root: true, targets: ["*"], description: "Overview" });
+
+      expect(new RulesProcessor({ toolTarget: "cline" }).getConversionLosses([rule])).toEqual([]);
+    });
+
+    it("should not report sections of other tools", () => {
+      const rule = createRule({
+        targets: ["*"],
+        cursor: { alwaysApply: true },
+        claudecode: { paths: ["src/**"] },
+      });
+
+      expect(new RulesProcessor({ toolTarget: "claudecode" }).getConversionLosses([rule])).toEqual(
+        [],
+      );
+      expect(new RulesProcessor({ toolTarget: "cursor" }).getConversionLosses([rule])).toEqual([]);
+    });
+
+    it("should report non-root rules of tools that only support a root rule", () => {
+      const rules = [createRule({ targets: ["*"] }), createRule({ targets: ["cursor"] })];
+
+      expect(new RulesProcessor({ toolTarget: "replit" }).getConversionLosses(rules)).toEqual([
+        expect.objectContaining({
+          kind: "dropped",
+          item: "rule",
+          reason: "replit only supports a root rule",
+        }),
+      ]);
+    });
+  });
+
   describe("generateReferencesSection", () => {
     it("should generate references section with description and globs for claudecode-legacy", async () => {
       const processor = new RulesProcessor({
@@ -1365,6 +1487,75 @@ targets: ["opencode", "agentsmd"]
     });
   });
 
+  describe("loadRulesyncFiles with includes", () => {
+    it("should resolve @include directives in rule bodies", async () => {
+      await writeFileContent(
+        join(testDir, ".rulesync", "partials", "testing.md"),
+        "Write tests.\n",
+      );
+      await writeFileContent(
+        join(testDir, RULESYNC_RULES_RELATIVE_DIR_PATH, "overview.md"),
+        `---
+root: true
+---
+# Overview
+
+@include ./partials/testing.md`,
+      );
+
+      const processor = new RulesProcessor({ baseDir: testDir, toolTarget: "claudecode" });
+      const [rule] = await processor.loadRulesyncFiles();
+
+      expect((rule as RulesyncRule).getBody()).toBe("# Overview\n\nWrite tests.");
+    });
+
+    it("should not load files in rules/partials as rules", async () => {
+      await writeFileContent(
+        join(testDir, RULESYNC_RULES_RELATIVE_DIR_PATH, "partials", "commits.md"),
+        "Use conventional commits.",
+      );
+      await writeFileContent(
+        join(testDir, RULESYNC_RULES_RELATIVE_DIR_PATH, "overview.md"),
+        `---
+root: true
+---
+@include ./rules/partials/commits.md`,
+      );
+
+      const processor = new RulesProcessor({ baseDir: testDir, toolTarget: "claudecode" });
+      const rules = await processor.loadRulesyncFiles();
+
+      expect(rules.map((rule) => rule.getRelativeFilePath())).toEqual(["overview.md"]);
+      expect((rules[0] as RulesyncRule).getBody()).toBe("Use conventional commits.");
+    });
+  });
+
+  describe("loadRulesyncFiles with curated rules", () => {
+    it("should load curated rules that are not shadowed by local rules", async () => {
+      await writeFileContent(
+        join(testDir, RULESYNC_RULES_RELATIVE_DIR_PATH, "overview.md"),
+        "---\nroot: true\n---\nLocal overview",
+      );
+      await writeFileContent(
+        join(testDir, RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH, "overview.md"),
+        "---\nroot: true\n---\nCurated overview",
+      );
+      await writeFileContent(
+        join(testDir, RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH, "team", "style.md"),
+        "---\nroot: false\n---\nCurated style",
+      );
+
+      const processor = new RulesProcessor({ baseDir: testDir, toolTarget: "claudecode" });
+      const rules = (await processor.loadRulesyncFiles()) as RulesyncRule[];
+
+      expect(rules.map((rule) => [rule.getRelativeDirPath(), rule.getBody()])).toEqual([
+        [RULESYNC_RULES_RELATIVE_DIR_PATH, "Local overview"],
+        [RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH, "Curated style"],
+      ]);
+      expect(rules[1]?.getRelativeFilePath()).toBe(join("team", "style.md"));
+    });
+  });
+
   describe("loadRulesyncFiles warning for missing root rule", () => {
     it("should load nested rulesync rule files", async () => {
       await ensureDir(join(testDir, RULESYNC_RULES_RELATIVE_DIR_PATH, "frontend"));
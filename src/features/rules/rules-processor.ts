@@ -6,16 +6,21 @@ import { z } from "zod/mini";
 import { SKILL_FILE_NAME } from "../../constants/general.js";
 import {
   RULESYNC_COMMANDS_RELATIVE_DIR_PATH,
+  RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH,
   RULESYNC_RULES_RELATIVE_DIR_PATH,
   RULESYNC_SUBAGENTS_RELATIVE_DIR_PATH,
 } from "../../constants/rulesync-paths.js";
+import type { ConversionLoss } from "../../types/conversion-loss.js";
 import { FeatureProcessor } from "../../types/feature-processor.js";
 import { RulesyncFile } from "../../types/rulesync-file.js";
+import type { TemplateVars } from "../../types/template.js";
 import { ToolFile } from "../../types/tool-file.js";
 import { ToolTarget } from "../../types/tool-targets.js";
 import { formatError } from "../../utils/error.js";
 import { checkPathTraversal, findFilesByGlobs } from "../../utils/file.js";
+import { resolveIncludes } from "../../utils/include.js";
 import { logger } from "../../utils/logger.js";
+import { renderTemplate } from "../../utils/template.js";
 import { AgentsmdCommand } from "../commands/agentsmd-command.js";
 import { CommandsProcessor } from "../commands/commands-processor.js";
 import { FactorydroidCommand } from "../commands/factorydroid-command.js";
@@ -48,12 +53,17 @@ import { OpenCodeRule } from "./opencode-rule.js";
 import { QwencodeRule } from "./qwencode-rule.js";
 import { ReplitRule } from "./replit-rule.js";
 import { RooRule } from "./roo-rule.js";
-import { RulesyncRule } from "./rulesync-rule.js";
+import {
+  isRulesyncRulePartialPath,
+  RulesyncRule,
+  type RulesyncRuleFrontmatter,
+} from "./rulesync-rule.js";
 import {
   ToolRule,
   ToolRuleForDeletionParams,
   ToolRuleFromFileParams,
   ToolRuleFromRulesyncRuleParams,
+  ToolRuleGetConversionLossesParams,
   ToolRuleSettablePaths,
   ToolRuleSettablePathsGlobal,
 } from "./tool-rule.js";
@@ -90,6 +100,9 @@ export type RulesProcessorToolTarget = z.infer<typeof RulesProcessorToolTargetSc
 const formatRulePaths = (rules: RulesyncRule[]): string =>
   rules.map((r) => join(r.getRelativeDirPath(), r.getRelativeFilePath())).join(", ");
 
+const isTargetedBy = (targets: RulesyncRuleFrontmatter["targets"], toolTarget: ToolTarget) =>
+  !targets || targets.includes("*") || targets.includes(toolTarget);
+
 /**
  * Rule discovery mode for determining how non-root rules are referenced.
  * - `auto`: Tool auto-discovers rules in a directory, no reference section needed
@@ -155,6 +168,7 @@ type ToolRuleFactory = {
   class: {
     isTargetedByRulesyncRule(rulesyncRule: RulesyncRule): boolean;
     fromRulesyncRule(params: ToolRuleFromRulesyncRuleParams): ToolRule;
+    getConversionLosses(params: ToolRuleGetConversionLossesParams): ConversionLoss[];
     fromFile(params: ToolRuleFromFileParams): Promise<ToolRule>;
     forDeletion(params: ToolRuleForDeletionParams): ToolRule;
     getSettablePaths(options?: {
@@ -471,6 +485,7 @@ export class RulesProcessor extends FeatureProcessor {
   private readonly global: boolean;
   private readonly getFactory: GetFactory;
   private readonly skills?: RulesyncSkill[];
+  private readonly templateVars: TemplateVars;
 
   constructor({
     baseDir = process.cwd(),
@@ -481,6 +496,7 @@ export class RulesProcessor extends FeatureProcessor {
     global = false,
     getFactory = defaultGetFactory,
     skills,
+    templateVars = {},
     dryRun = false,
   }: {
     baseDir?: string;
@@ -491,6 +507,7 @@ export class RulesProcessor extends FeatureProcessor {
     simulateSkills?: boolean;
     getFactory?: GetFactory;
     skills?: RulesyncSkill[];
+    templateVars?: TemplateVars;
     dryRun?: boolean;
   }) {
     super({ baseDir, dryRun });
@@ -507,12 +524,20 @@ export class RulesProcessor extends FeatureProcessor {
     this.simulateSkills = simulateSkills;
     this.getFactory = getFactory;
     this.skills = skills;
+    this.templateVars = templateVars;
   }
 
   async convertRulesyncFilesToToolFiles(rulesyncFiles: RulesyncFile[]): Promise<ToolFile[]> {
-    const rulesyncRules = rulesyncFiles.filter(
-      (file): file is RulesyncRule => file instanceof RulesyncRule,
-    );
+    const rulesyncRules = rulesyncFiles
+      .filter((file): file is RulesyncRule => file instanceof RulesyncRule)
+      .map((rulesyncRule) => {
+        const body = renderTemplate({
+          content: rulesyncRule.getBody(),
+          context: { target: this.toolTarget, global: this.global, vars: this.templateVars },
+          filePath: rulesyncRule.getRelativePathFromCwd(),
+        });
+        return body === rulesyncRule.getBody() ? rulesyncRule : rulesyncRule.withBody(body);
+      });
 
     // Separate localRoot rules from normal rules
     const localRootRules = rulesyncRules.filter((rule) => rule.getFrontmatter().localRoot);
@@ -599,6 +624,54 @@ export class RulesProcessor extends FeatureProcessor {
     return toolRules;
   }
 
+  /**
+   * List the frontmatter fields of the given rules that the tool's rule files cannot represent,
+   * as reported by the tool's rule class. Fields listed in the root rule's reference section instead of the rule's own frontmatter
+   * are reported as approximated.
+   */
+  getConversionLosses(rulesyncFiles: RulesyncFile[]): ConversionLoss[] {
+    const factory = this.getFactory(this.toolTarget);
+    const { meta } = factory;
+    const supportsNonRoot = Boolean(
+      factory.class.getSettablePaths({ global: this.global }).nonRoot,
+    );
+    const isReferencedFromRoot = meta.ruleDiscoveryMode !== "auto";
+
+    const losses: ConversionLoss[] = [];
+    for (const rulesyncRule of rulesyncFiles) {
+      if (!(rulesyncRule instanceof RulesyncRule)) {
+        continue;
+      }
+      const frontmatter = rulesyncRule.getFrontmatter();
+      const file = rulesyncRule.getRelativePathFromCwd();
+      const isRoot = frontmatter.root ?? false;
+
+      if (!isRoot && !supportsNonRoot) {
+        if (isTargetedBy(frontmatter.targets, this.toolTarget)) {
+          losses.push({
+            file,
+            kind: "dropped",
+            item: "rule",
+            reason: `${this.toolTarget} only supports a root rule`,
+          });
+        }
+        continue;
+      }
+      if (!factory.class.isTargetedByRulesyncRule(rulesyncRule)) {
+        continue;
+      }
+
+      losses.push(
+        ...factory.class.getConversionLosses({
+          rulesyncRule,
+          toolTarget: this.toolTarget,
+          referencedFromRoot: isReferencedFromRoot,
+        }),
+      );
+    }
+    return losses;
+  }
+
   private buildSkillList(skillClass: {
     isTargetedByRulesyncSkill: (rulesyncSkill: RulesyncSkill) => boolean;
     getSettablePaths: (options?: { global?: boolean }) => {
@@ -755,18 +828,43 @@ export class RulesProcessor extends FeatureProcessor {
    */
   async loadRulesyncFiles(): Promise<RulesyncFile[]> {
     const rulesyncBaseDir = join(process.cwd(), RULESYNC_RULES_RELATIVE_DIR_PATH);
-    const files = await findFilesByGlobs(join(rulesyncBaseDir, "**", "*.md"));
+    const localFilePaths = (await findFilesByGlobs(join(rulesyncBaseDir, "**", "*.md")))
+      .map((file) => relative(rulesyncBaseDir, file))
+      .filter((relativeFilePath) => !isRulesyncRulePartialPath(relativeFilePath));
+
+    // Rules fetched from sources are used unless a local rule has the same path
+    const curatedBaseDir = join(process.cwd(), RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH);
+    const localFilePathSet = new Set(localFilePaths);
+    const curatedFilePaths = (await findFilesByGlobs(join(curatedBaseDir, "**", "*.md")))
+      .map((file) => relative(curatedBaseDir, file))
+      .filter((relativeFilePath) => !localFilePathSet.has(relativeFilePath));
+
+    const files = [
+      ...localFilePaths.map((relativeFilePath) => ({
+        relativeDirPath: RULESYNC_RULES_RELATIVE_DIR_PATH,
+        relativeFilePath,
+      })),
+      ...curatedFilePaths.map((relativeFilePath) => ({
+        relativeDirPath: RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH,
+        relativeFilePath,
+      })),
+    ];
     logger.debug(`Found ${files.length} rulesync files`);
     const rulesyncRules = await Promise.all(
-      files.map((file) => {
-        const relativeFilePath = relative(rulesyncBaseDir, file);
+      files.map(async ({ relativeDirPath, relativeFilePath }) => {
         checkPathTraversal({
           relativePath: relativeFilePath,
-          intendedRootDir: rulesyncBaseDir,
+          intendedRootDir: join(process.cwd(), relativeDirPath),
         });
-        return RulesyncRule.fromFile({
+        const rule = await RulesyncRule.fromFile({
+          relativeDirPath,
           relativeFilePath,
         });
+        const body = await resolveIncludes({
+          content: rule.getBody(),
+          filePath: rule.getRelativePathFromCwd(),
+        });
+        return body === rule.getBody() ? rule : rule.withBody(body);
       }),
     );
 
@@ -3,6 +3,7 @@ import { join } from "node:path";
 import { z } from "zod/mini";
 
 import {
+  RULESYNC_PARTIALS_DIR_NAME,
   RULESYNC_RELATIVE_DIR_PATH,
   RULESYNC_RULES_RELATIVE_DIR_PATH,
 } from "../../constants/rulesync-paths.js";
@@ -61,6 +62,13 @@ export type RulesyncRuleFrontmatterInput = z.input<typeof RulesyncRuleFrontmatte
 // Output type has targets always present after parsing
 export type RulesyncRuleFrontmatter = z.infer<typeof RulesyncRuleFrontmatterSchema>;
 
+/**
+ * Whether a path relative to `.rulesync/rules/` is in its `partials/` directory.
+ * Partials are only included by other rules and are never generated as rules themselves.
+ */
+export const isRulesyncRulePartialPath = (relativeFilePath: string): boolean =>
+  relativeFilePath.split(/[/\\]/)[0] === RULESYNC_PARTIALS_DIR_NAME;
+
 export type RulesyncRuleParams = Omit<RulesyncFileParams, "fileContent"> & {
   frontmatter: RulesyncRuleFrontmatterInput;
   body: string;
@@ -137,14 +145,11 @@ export class RulesyncRule extends RulesyncFile {
   }
 
   static async fromFile({
+    relativeDirPath = this.getSettablePaths().recommended.relativeDirPath,
     relativeFilePath,
     validate = true,
   }: RulesyncFileFromFileParams): Promise<RulesyncRule> {
-    const filePath = join(
-      process.cwd(),
-      this.getSettablePaths().recommended.relativeDirPath,
-      relativeFilePath,
-    );
+    const filePath = join(process.cwd(), relativeDirPath, relativeFilePath);
 
     // Read file content
     const fileContent = await readFileContent(filePath);
@@ -168,7 +173,7 @@ export class RulesyncRule extends RulesyncFile {
 
     return new RulesyncRule({
       baseDir: process.cwd(),
-      relativeDirPath: this.getSettablePaths().recommended.relativeDirPath,
+      relativeDirPath,
       relativeFilePath,
       frontmatter: validatedFrontmatter,
       body: content.trim(),
@@ -179,4 +184,15 @@ export class RulesyncRule extends RulesyncFile {
   getBody(): string {
     return this.body;
   }
+
+  withBody(newBody: string): RulesyncRule {
+    return new RulesyncRule({
+      baseDir: this.getBaseDir(),
+      relativeDirPath: this.getRelativeDirPath(),
+      relativeFilePath: this.getRelativeFilePath(),
+      frontmatter: this.getFrontmatter(),
+      body: newBody,
+      validate: false,
+    });
+  }
 }
@@ -5,8 +5,10 @@ import {
   RULESYNC_RULES_RELATIVE_DIR_PATH,
 } from "../../constants/rulesync-paths.js";
 import { AiFileFromFileParams, AiFileParams } from "../../types/ai-file.js";
+import type { ConversionLoss } from "../../types/conversion-loss.js";
 import { ToolFile } from "../../types/tool-file.js";
 import { ToolTarget } from "../../types/tool-targets.js";
+import { getToolSectionLosses, type ToolSectionSupport } from "../../utils/conversion-loss.js";
 import { RulesyncRule } from "./rulesync-rule.js";
 
 export type ToolRuleParams = AiFileParams & {
@@ -56,6 +58,17 @@ export type ToolRuleSettablePathsGlobal = {
   nonRoot?: undefined;
 };
 
+export type ToolRuleGetConversionLossesParams = {
+  rulesyncRule: RulesyncRule;
+  toolTarget: ToolTarget;
+  /** Whether non-root rules are listed in the root rule, with their description and globs */
+  referencedFromRoot: boolean;
+};
+
+type NonRootRuleField = "description" | "globs";
+
+const NON_ROOT_RULE_FIELDS: readonly NonRootRuleField[] = ["description", "globs"];
+
 type BuildToolRuleParamsParams = ToolRuleFromRulesyncRuleParams & {
   rootPath?: {
     relativeDirPath: string;
@@ -199,6 +212,61 @@ export abstract class ToolRule extends ToolFile {
     return this.globs;
   }
 
+  /**
+   * List the frontmatter fields of a rulesync rule that the tool's rule files cannot represent.
+   * By default, rule files have neither description nor globs, and no tool-specific section.
+   */
+  static getConversionLosses(params: ToolRuleGetConversionLossesParams): ConversionLoss[] {
+    return this.getConversionLossesDefault(params);
+  }
+
+  /**
+   * @param nonRootFields - Common fields written to non-root rule files
+   * @param toolSection - Tool-specific frontmatter section read from the rulesync rule
+   */
+  protected static getConversionLossesDefault({
+    rulesyncRule,
+    toolTarget,
+    referencedFromRoot,
+    nonRootFields = [],
+    toolSection,
+  }: ToolRuleGetConversionLossesParams & {
+    nonRootFields?: readonly NonRootRuleField[];
+    toolSection?: ToolSectionSupport;
+  }): ConversionLoss[] {
+    const frontmatter = rulesyncRule.getFrontmatter();
+    const file = rulesyncRule.getRelativePathFromCwd();
+    const losses: ConversionLoss[] = [];
+
+    if (!frontmatter.root) {
+      for (const field of NON_ROOT_RULE_FIELDS) {
+        const value = frontmatter[field];
+        const isSet = Array.isArray(value) ? value.length > 0 : value !== undefined;
+        if (!isSet || nonRootFields.includes(field)) {
+          continue;
+        }
+        losses.push(
+          referencedFromRoot
+            ? {
+                file,
+                kind: "approximated",
+                item: field,
+                reason: "Listed in the root rule instead of the rule file",
+              }
+            : {
+                file,
+                kind: "dropped",
+                item: field,
+                reason: `${toolTarget} rule files have no ${field}`,
+              },
+        );
+      }
+    }
+
+    losses.push(...getToolSectionLosses({ file, frontmatter, toolTarget, section: toolSection }));
+    return losses;
+  }
+
   static isTargetedByRulesyncRule(_rulesyncRule: RulesyncRule): boolean {
     throw new Error("Please implement this method in the subclass.");
   }
@@ -154,6 +154,19 @@ export class RulesyncSkill extends AiDir {
     return this.mainFile?.body ?? "";
   }
 
+  withBody(newBody: string): RulesyncSkill {
+    return new RulesyncSkill({
+      baseDir: this.getBaseDir(),
+      relativeDirPath: this.getRelativeDirPath(),
+      dirName: this.getDirName(),
+      frontmatter: this.getFrontmatter(),
+      body: newBody,
+      otherFiles: this.getOtherFiles(),
+      validate: false,
+      global: this.getGlobal(),
+    });
+  }
+
   validate(): ValidationResult {
     const result = RulesyncSkillFrontmatterSchema.safeParse(this.mainFile?.frontmatter);
     if (!result.success) {
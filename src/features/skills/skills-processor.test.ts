@@ -109,6 +109,32 @@ describe("SkillsProcessor", () => {
       expect(claudecodeSkill.getFrontmatter().description).toBe("Test skill description");
     });
 
+    it("should render template tags in the skill body", async () => {
+      processor = new SkillsProcessor({
+        baseDir: testDir,
+        toolTarget: "claudecode",
+        global: true,
+        templateVars: { packageManager: "pnpm" },
+      });
+      const rulesyncSkill = new RulesyncSkill({
+        baseDir: testDir,
+        relativeDirPath: RULESYNC_SKILLS_RELATIVE_DIR_PATH,
+        dirName: "test-skill",
+        frontmatter: {
+          name: "test-skill",
+          description: "Test skill description",
+        },
+        body: "Run {{vars.packageManager}} test{{#if global}} in {{target}}{{/if}}. Keep \\{{literal}}.",
+        validate: false,
+      });
+
+      const toolDirs = await processor.convertRulesyncDirsToToolDirs([rulesyncSkill]);
+
+      expect((toolDirs[0] as ClaudecodeSkill).getBody()).toBe(
+        "Run pnpm test in claudecode. Keep {{literal}}.",
+      );
+    });
+
     it("should filter out non-RulesyncSkill instances", async () => {
       const rulesyncSkill = new RulesyncSkill({
         baseDir: testDir,
@@ -225,6 +251,43 @@ describe("SkillsProcessor", () => {
     });
   });
 
+  describe("getConversionLosses", () => {
+    const createSkill = (codexcli: Record<string, unknown> = { "short-description": "Test" }) =>
+      new RulesyncSkill({
+        baseDir: testDir,
+        relativeDirPath: RULESYNC_SKILLS_RELATIVE_DIR_PATH,
+        dirName: "test-skill",
+        frontmatter: {
+          name: "test-skill",
+          description: "Test skill description",
+          claudecode: { "allowed-tools": ["Bash"] },
+          codexcli,
+        },
+        body: "Test skill content",
+      });
+
+    it("should keep the tool's own section and not report sections of other tools", () => {
+      const processor = new SkillsProcessor({ baseDir: testDir, toolTarget: "claudecode" });
+
+      expect(processor.getConversionLosses([createSkill()])).toEqual([]);
+    });
+
+    it("should report fields of the tool's own section it cannot write", () => {
+      const processor = new SkillsProcessor({ baseDir: testDir, toolTarget: "codexcli" });
+
+      expect(
+        processor.getConversionLosses([createSkill({ "short-description": "Test", icon: "x" })]),
+      ).toEqual([
+        {
+          file: join(RULESYNC_SKILLS_RELATIVE_DIR_PATH, "test-skill", "SKILL.md"),
+          kind: "dropped",
+          item: "codexcli.icon",
+          reason: "Not supported by codexcli",
+        },
+      ]);
+    });
+  });
+
   describe("convertToolDirsToRulesyncDirs", () => {
     let processor: SkillsProcessor;
 
@@ -2,13 +2,18 @@ import { basename, join } from "node:path";
 
 import { z } from "zod/mini";
 
+import { SKILL_FILE_NAME } from "../../constants/general.js";
 import { RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH } from "../../constants/rulesync-paths.js";
 import { AiDir } from "../../types/ai-dir.js";
+import type { ConversionLoss } from "../../types/conversion-loss.js";
 import { DirFeatureProcessor } from "../../types/dir-feature-processor.js";
+import type { TemplateVars } from "../../types/template.js";
 import { ToolTarget } from "../../types/tool-targets.js";
+import { getToolSectionLosses, type ToolSectionSupport } from "../../utils/conversion-loss.js";
 import { formatError } from "../../utils/error.js";
 import { directoryExists, findFilesByGlobs } from "../../utils/file.js";
 import { logger } from "../../utils/logger.js";
+import { renderTemplate } from "../../utils/template.js";
 import { AgentsmdSkill } from "./agentsmd-skill.js";
 import { AgentsSkillsSkill } from "./agentsskills-skill.js";
 import { AntigravitySkill } from "./antigravity-skill.js";
@@ -55,6 +60,8 @@ type ToolSkillFactory = {
     supportsSimulated: boolean;
     /** Whether the tool supports global (user-level) skills */
     supportsGlobal: boolean;
+    /** Tool-specific frontmatter section read by the tool */
+    toolSection?: ToolSectionSupport;
   };
 };
 
@@ -117,14 +124,30 @@ const toolSkillFactories = new Map<SkillsProcessorToolTarget, ToolSkillFactory>(
     "claudecode",
     {
       class: ClaudecodeSkill,
-      meta: { supportsProject: true, supportsSimulated: false, supportsGlobal: true },
+      meta: {
+        supportsProject: true,
+        supportsSimulated: false,
+        supportsGlobal: true,
+        toolSection: {
+          name: "claudecode",
+          fields: ["allowed-tools", "model", "disable-model-invocation"],
+        },
+      },
     },
   ],
   [
     "claudecode-legacy",
     {
       class: ClaudecodeSkill,
-      meta: { supportsProject: true, supportsSimulated: false, supportsGlobal: true },
+      meta: {
+        supportsProject: true,
+        supportsSimulated: false,
+        supportsGlobal: true,
+        toolSection: {
+          name: "claudecode",
+          fields: ["allowed-tools", "model", "disable-model-invocation"],
+        },
+      },
     },
   ],
   [
@@ -138,14 +161,24 @@ const toolSkillFactories = new Map<SkillsProcessorToolTarget, ToolSkillFactory>(
     "codexcli",
     {
       class: CodexCliSkill,
-      meta: { supportsProject: true, supportsSimulated: false, supportsGlobal: true },
+      meta: {
+        supportsProject: true,
+        supportsSimulated: false,
+        supportsGlobal: true,
+        toolSection: { name: "codexcli", fields: ["short-description"] },
+      },
     },
   ],
   [
     "copilot",
     {
       class: CopilotSkill,
-      meta: { supportsProject: true, supportsSimulated: false, supportsGlobal: false },
+      meta: {
+        supportsProject: true,
+        supportsSimulated: false,
+        supportsGlobal: false,
+        toolSection: { name: "copilot", fields: ["license"] },
+      },
     },
   ],
   [
@@ -194,7 +227,12 @@ const toolSkillFactories = new Map<SkillsProcessorToolTarget, ToolSkillFactory>(
     "opencode",
     {
       class: OpenCodeSkill,
-      meta: { supportsProject: true, supportsSimulated: false, supportsGlobal: true },
+      meta: {
+        supportsProject: true,
+        supportsSimulated: false,
+        supportsGlobal: true,
+        toolSection: { name: "opencode", fields: ["allowed-tools"] },
+      },
     },
   ],
   [
@@ -251,18 +289,21 @@ export class SkillsProcessor extends DirFeatureProcessor {
   private readonly toolTarget: SkillsProcessorToolTarget;
   private readonly global: boolean;
   private readonly getFactory: GetFactory;
+  private readonly templateVars: TemplateVars;
 
   constructor({
     baseDir = process.cwd(),
     toolTarget,
     global = false,
     getFactory = defaultGetFactory,
+    templateVars = {},
     dryRun = false,
   }: {
     baseDir?: string;
     toolTarget: ToolTarget;
     global?: boolean;
     getFactory?: GetFactory;
+    templateVars?: TemplateVars;
     dryRun?: boolean;
   }) {
     super({ baseDir, dryRun });
@@ -275,12 +316,20 @@ export class SkillsProcessor extends DirFeatureProcessor {
     this.toolTarget = result.data;
     this.global = global;
     this.getFactory = getFactory;
+    this.templateVars = templateVars;
   }
 
   async convertRulesyncDirsToToolDirs(rulesyncDirs: AiDir[]): Promise<AiDir[]> {
-    const rulesyncSkills = rulesyncDirs.filter(
-      (dir): dir is RulesyncSkill => dir instanceof RulesyncSkill,
-    );
+    const rulesyncSkills = rulesyncDirs
+      .filter((dir): dir is RulesyncSkill => dir instanceof RulesyncSkill)
+      .map((rulesyncSkill) => {
+        const body = renderTemplate({
+          content: rulesyncSkill.getBody(),
+          context: { target: this.toolTarget, global: this.global, vars: this.templateVars },
+          filePath: join(rulesyncSkill.getRelativePathFromCwd(), SKILL_FILE_NAME),
+        });
+        return body === rulesyncSkill.getBody() ? rulesyncSkill : rulesyncSkill.withBody(body);
+      });
 
     const factory = this.getFactory(this.toolTarget);
 
@@ -300,6 +349,44 @@ export class SkillsProcessor extends DirFeatureProcessor {
     return toolSkills;
   }
 
+  /**
+   * List the frontmatter fields of the given skills that the tool's skill files cannot
+   * represent. Simulated skills are reported as approximated as a whole.
+   */
+  getConversionLosses(rulesyncDirs: AiDir[]): ConversionLoss[] {
+    const factory = this.getFactory(this.toolTarget);
+    const { meta } = factory;
+
+    const losses: ConversionLoss[] = [];
+    for (const rulesyncSkill of rulesyncDirs) {
+      if (
+        !(rulesyncSkill instanceof RulesyncSkill) ||
+        !factory.class.isTargetedByRulesyncSkill(rulesyncSkill)
+      ) {
+        continue;
+      }
+      const file = join(rulesyncSkill.getRelativePathFromCwd(), SKILL_FILE_NAME);
+
+      if (meta.supportsSimulated) {
+        losses.push({
+          file,
+          kind: "approximated",
+          item: "skill",
+          reason: `Simulated through the ${this.toolTarget} rules`,
+        });
+      }
+      losses.push(
+        ...getToolSectionLosses({
+          file,
+          frontmatter: rulesyncSkill.getFrontmatter(),
+          toolTarget: this.toolTarget,
+          section: meta.toolSection,
+        }),
+      );
+    }
+    return losses;
+  }
+
   async convertToolDirsToRulesyncDirs(toolDirs: AiDir[]): Promise<AiDir[]> {
     const toolSkills = toolDirs.filter((dir): dir is ToolSkill => dir instanceof ToolSkill);
 
@@ -2,12 +2,13 @@ import { basename, join } from "node:path";
 
 import {
   RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH,
+  RULESYNC_SKILL_OVERLAYS_RELATIVE_DIR_PATH,
   RULESYNC_SKILLS_RELATIVE_DIR_PATH,
 } from "../../constants/rulesync-paths.js";
 import { directoryExists, findFilesByGlobs } from "../../utils/file.js";
 
 /**
- * Returns the set of local skill directory names (excluding `.curated`).
+ * Returns the set of local skill directory names (excluding `.curated` and `.overlays`).
  */
 export async function getLocalSkillDirNames(baseDir: string): Promise<Set<string>> {
   const skillsDir = join(baseDir, RULESYNC_SKILLS_RELATIVE_DIR_PATH);
@@ -20,8 +21,9 @@ export async function getLocalSkillDirNames(baseDir: string): Promise<Set<string
   const dirPaths = await findFilesByGlobs(join(skillsDir, "*"), { type: "dir" });
   for (const dirPath of dirPaths) {
     const name = basename(dirPath);
-    // Skip the .curated directory itself
+    // Skip the .curated and .overlays directories themselves
     if (name === basename(RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH)) continue;
+    if (name === basename(RULESYNC_SKILL_OVERLAYS_RELATIVE_DIR_PATH)) continue;
     names.add(name);
   }
 
@@ -102,10 +102,11 @@ export class RulesyncSubagent extends RulesyncFile {
   }
 
   static async fromFile({
+    relativeDirPath = RULESYNC_SUBAGENTS_RELATIVE_DIR_PATH,
     relativeFilePath,
   }: RulesyncSubagentFromFileParams): Promise<RulesyncSubagent> {
     // Read file content
-    const filePath = join(process.cwd(), RULESYNC_SUBAGENTS_RELATIVE_DIR_PATH, relativeFilePath);
+    const filePath = join(process.cwd(), relativeDirPath, relativeFilePath);
     const fileContent = await readFileContent(filePath);
     const { frontmatter, body: content } = parseFrontmatter(fileContent, filePath);
 
@@ -119,7 +120,7 @@ export class RulesyncSubagent extends RulesyncFile {
 
     return new RulesyncSubagent({
       baseDir: process.cwd(),
-      relativeDirPath: this.getSettablePaths().relativeDirPath,
+      relativeDirPath,
       relativeFilePath: filename,
       frontmatter: result.data,
       body: content.trim(),
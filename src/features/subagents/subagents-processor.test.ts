@@ -2,7 +2,10 @@ import { join } from "node:path";
 
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-import { RULESYNC_SUBAGENTS_RELATIVE_DIR_PATH } from "../../constants/rulesync-paths.js";
+import {
+  RULESYNC_CURATED_SUBAGENTS_RELATIVE_DIR_PATH,
+  RULESYNC_SUBAGENTS_RELATIVE_DIR_PATH,
+} from "../../constants/rulesync-paths.js";
 import { setupTestDirectory } from "../../test-utils/test-directories.js";
 import { ensureDir, writeFileContent } from "../../utils/file.js";
 import { ClaudecodeSubagent } from "./claudecode-subagent.js";
@@ -26,6 +29,9 @@ const createMockGetFactoryThatThrowsUnsupported = () => {
   throw new Error("Unsupported tool target: unsupported");
 };
 
+const createSubagentContent = (description: string) =>
+  ["---", "name: agent", `description: ${description}`, "---", "Body"].join("\n");
+
 describe("SubagentsProcessor", () => {
   let testDir: string;
   let cleanup: () => Promise<void>;
@@ -288,6 +294,47 @@ describe("SubagentsProcessor", () => {
     });
   });
 
+  describe("getConversionLosses", () => {
+    const rulesyncSubagent = () =>
+      new RulesyncSubagent({
+        baseDir: testDir,
+        relativeDirPath: RULESYNC_SUBAGENTS_RELATIVE_DIR_PATH,
+        relativeFilePath: "planner.md",
+        frontmatter: {
+          name: "planner",
+          description: "Plans",
+          targets: ["*"],
+          claudecode: { model: "opus" },
+        },
+        body: "Plan the work",
+      });
+
+    it("should keep the tool's own section", () => {
+      const processor = new SubagentsProcessor({ baseDir: testDir, toolTarget: "claudecode" });
+
+      expect(processor.getConversionLosses([rulesyncSubagent()])).toEqual([]);
+    });
+
+    it("should not report sections of other tools", () => {
+      const processor = new SubagentsProcessor({ baseDir: testDir, toolTarget: "copilot" });
+
+      expect(processor.getConversionLosses([rulesyncSubagent()])).toEqual([]);
+    });
+
+    it("should report simulated subagents as approximated", () => {
+      const processor = new SubagentsProcessor({ baseDir: testDir, toolTarget: "geminicli" });
+
+      expect(processor.getConversionLosses([rulesyncSubagent()])).toEqual([
+        {
+          file: join(RULESYNC_SUBAGENTS_RELATIVE_DIR_PATH, "planner.md"),
+          kind: "approximated",
+          item: "subagent",
+          reason: expect.any(String),
+        },
+      ]);
+    });
+  });
+
   describe("convertToolFilesToRulesyncFiles", () => {
     let processor: SubagentsProcessor;
 
@@ -425,6 +472,30 @@ Claude content`,
       expect(rulesyncFiles).toEqual([]);
     });
 
+    it("should load curated subagents that are not shadowed by local subagents", async () => {
+      await writeFileContent(
+        join(testDir, RULESYNC_SUBAGENTS_RELATIVE_DIR_PATH, "reviewer.md"),
+        createSubagentContent("Local reviewer"),
+      );
+      await writeFileContent(
+        join(testDir, RULESYNC_CURATED_SUBAGENTS_RELATIVE_DIR_PATH, "reviewer.md"),
+        createSubagentContent("Curated reviewer"),
+      );
+      await writeFileContent(
+        join(testDir, RULESYNC_CURATED_SUBAGENTS_RELATIVE_DIR_PATH, "planner.md"),
+        createSubagentContent("Curated planner"),
+      );
+
+      const rulesyncFiles = (await processor.loadRulesyncFiles()) as RulesyncSubagent[];
+
+      expect(
+        rulesyncFiles.map((file) => [file.getRelativeDirPath(), file.getFrontmatter().description]),
+      ).toEqual([
+        [RULESYNC_SUBAGENTS_RELATIVE_DIR_PATH, "Local reviewer"],
+        [RULESYNC_CURATED_SUBAGENTS_RELATIVE_DIR_PATH, "Curated planner"],
+      ]);
+    });
+
     it("should return empty array when no markdown files exist", async () => {
       const subagentsDir = join(testDir, RULESYNC_SUBAGENTS_RELATIVE_DIR_PATH);
       await ensureDir(subagentsDir);
@@ -1,11 +1,14 @@
-import { basename, join } from "node:path";
+import { basename, join, relative } from "node:path";
 
 import { z } from "zod/mini";
 
+import { RULESYNC_CURATED_SUBAGENTS_RELATIVE_DIR_PATH } from "../../constants/rulesync-paths.js";
+import type { ConversionLoss } from "../../types/conversion-loss.js";
 import { FeatureProcessor } from "../../types/feature-processor.js";
 import { RulesyncFile } from "../../types/rulesync-file.js";
 import { ToolFile } from "../../types/tool-file.js";
 import type { ToolTarget } from "../../types/tool-targets.js";
+import { getToolSectionLosses, type ToolSectionSupport } from "../../utils/conversion-loss.js";
 import { formatError } from "../../utils/error.js";
 import { directoryExists, findFilesByGlobs, listDirectoryFiles } from "../../utils/file.js";
 import { logger } from "../../utils/logger.js";
@@ -49,6 +52,8 @@ type ToolSubagentFactory = {
     supportsGlobal: boolean;
     /** File pattern for import (e.g., "*.md", "*.json") */
     filePattern: string;
+    /** Tool-specific frontmatter section read by the tool */
+    toolSection?: ToolSectionSupport;
   };
 };
 
@@ -92,35 +97,60 @@ const toolSubagentFactories = new Map<SubagentsProcessorToolTarget, ToolSubagent
     "claudecode",
     {
       class: ClaudecodeSubagent,
-      meta: { supportsSimulated: false, supportsGlobal: true, filePattern: "*.md" },
+      meta: {
+        supportsSimulated: false,
+        supportsGlobal: true,
+        filePattern: "*.md",
+        toolSection: { name: "claudecode", fields: "*" },
+      },
     },
   ],
   [
     "claudecode-legacy",
     {
       class: ClaudecodeSubagent,
-      meta: { supportsSimulated: false, supportsGlobal: true, filePattern: "*.md" },
+      meta: {
+        supportsSimulated: false,
+        supportsGlobal: true,
+        filePattern: "*.md",
+        toolSection: { name: "claudecode", fields: "*" },
+      },
     },
   ],
   [
     "codexcli",
     {
       class: CodexCliSubagent,
-      meta: { supportsSimulated: false, supportsGlobal: false, filePattern: "*.toml" },
+      meta: {
+        supportsSimulated: false,
+        supportsGlobal: false,
+        filePattern: "*.toml",
+        toolSection: { name: "codexcli", fields: "*" },
+      },
     },
   ],
   [
     "copilot",
     {
       class: CopilotSubagent,
-      meta: { supportsSimulated: false, supportsGlobal: false, filePattern: "*.md" },
+      meta: {
+        supportsSimulated: false,
+        supportsGlobal: false,
+        filePattern: "*.md",
+        toolSection: { name: "copilot", fields: "*" },
+      },
     },
   ],
   [
     "cursor",
     {
       class: CursorSubagent,
-      meta: { supportsSimulated: false, supportsGlobal: true, filePattern: "*.md" },
+      meta: {
+        supportsSimulated: false,
+        supportsGlobal: true,
+        filePattern: "*.md",
+        toolSection: { name: "cursor", fields: "*" },
+      },
     },
   ],
   [
@@ -141,21 +171,36 @@ const toolSubagentFactories = new Map<SubagentsProcessorToolTarget, ToolSubagent
     "junie",
     {
       class: JunieSubagent,
-      meta: { supportsSimulated: false, supportsGlobal: false, filePattern: "*.md" },
+      meta: {
+        supportsSimulated: false,
+        supportsGlobal: false,
+        filePattern: "*.md",
+        toolSection: { name: "junie", fields: "*" },
+      },
     },
   ],
   [
     "kiro",
     {
       class: KiroSubagent,
-      meta: { supportsSimulated: false, supportsGlobal: false, filePattern: "*.json" },
+      meta: {
+        supportsSimulated: false,
+        supportsGlobal: false,
+        filePattern: "*.json",
+        toolSection: { name: "kiro", fields: "*" },
+      },
     },
   ],
   [
     "opencode",
     {
       class: OpenCodeSubagent,
-      meta: { supportsSimulated: false, supportsGlobal: true, filePattern: "*.md" },
+      meta: {
+        supportsSimulated: false,
+        supportsGlobal: true,
+        filePattern: "*.md",
+        toolSection: { name: "opencode", fields: "*" },
+      },
     },
   ],
   [
@@ -200,6 +245,17 @@ export const subagentsProcessorToolTargetsGlobal: ToolTarget[] = allToolTargetKe
   },
 );
 
+/**
+ * List the markdown files directly in a directory, or none when it does not exist.
+ */
+async function listMarkdownFiles(dir: string): Promise<string[]> {
+  if (!(await directoryExists(dir))) {
+    logger.debug(`Rulesync subagents directory not found: ${dir}`);
+    return [];
+  }
+  return (await listDirectoryFiles(dir)).filter((file) => file.endsWith(".md"));
+}
+
 export class SubagentsProcessor extends FeatureProcessor {
   private readonly toolTarget: SubagentsProcessorToolTarget;
   private readonly global: boolean;
@@ -254,6 +310,44 @@ export class SubagentsProcessor extends FeatureProcessor {
     return toolSubagents;
   }
 
+  /**
+   * List the frontmatter fields of the given subagents that the tool's subagent files cannot
+   * represent. Simulated subagents are reported as approximated as a whole.
+   */
+  getConversionLosses(rulesyncFiles: RulesyncFile[]): ConversionLoss[] {
+    const factory = this.getFactory(this.toolTarget);
+    const { meta } = factory;
+
+    const losses: ConversionLoss[] = [];
+    for (const rulesyncSubagent of rulesyncFiles) {
+      if (
+        !(rulesyncSubagent instanceof RulesyncSubagent) ||
+        !factory.class.isTargetedByRulesyncSubagent(rulesyncSubagent)
+      ) {
+        continue;
+      }
+      const file = rulesyncSubagent.getRelativePathFromCwd();
+
+      if (meta.supportsSimulated) {
+        losses.push({
+          file,
+          kind: "approximated",
+          item: "subagent",
+          reason: `Simulated through the ${this.toolTarget} rules`,
+        });
+      }
+      losses.push(
+        ...getToolSectionLosses({
+          file,
+          frontmatter: rulesyncSubagent.getFrontmatter(),
+          toolTarget: this.toolTarget,
+          section: meta.toolSection,
+        }),
+      );
+    }
+    return losses;
+  }
+
   async convertToolFilesToRulesyncFiles(toolFiles: ToolFile[]): Promise<RulesyncFile[]> {
     const toolSubagents = toolFiles.filter(
       (file): file is ToolSubagent => file instanceof ToolSubagent,
@@ -282,33 +376,34 @@ export class SubagentsProcessor extends FeatureProcessor {
    */
   async loadRulesyncFiles(): Promise<RulesyncFile[]> {
     const subagentsDir = join(process.cwd(), RulesyncSubagent.getSettablePaths().relativeDirPath);
+    const curatedDir = join(process.cwd(), RULESYNC_CURATED_SUBAGENTS_RELATIVE_DIR_PATH);
 
-    // Check if directory exists
-    const dirExists = await directoryExists(subagentsDir);
-    if (!dirExists) {
-      logger.debug(`Rulesync subagents directory not found: ${subagentsDir}`);
-      return [];
-    }
-
-    // Read all markdown files from the directory
-    const entries = await listDirectoryFiles(subagentsDir);
-    const mdFiles = entries.filter((file) => file.endsWith(".md"));
+    // Subagents fetched from sources are used unless a local subagent has the same file name
+    const localMdFiles = await listMarkdownFiles(subagentsDir);
+    const curatedMdFiles = (await listMarkdownFiles(curatedDir)).filter(
+      (file) => !localMdFiles.includes(file),
+    );
+    const files = [
+      ...localMdFiles.map((mdFile) => ({ dir: subagentsDir, mdFile })),
+      ...curatedMdFiles.map((mdFile) => ({ dir: curatedDir, mdFile })),
+    ];
 
-    if (mdFiles.length === 0) {
+    if (files.length === 0) {
       logger.debug(`No markdown files found in rulesync subagents directory: ${subagentsDir}`);
       return [];
     }
 
-    logger.debug(`Found ${mdFiles.length} subagent files in ${subagentsDir}`);
+    logger.debug(`Found ${files.length} subagent files in ${subagentsDir}`);
 
     // Parse all files and create RulesyncSubagent instances using fromFilePath
     const rulesyncSubagents: RulesyncSubagent[] = [];
 
-    for (const mdFile of mdFiles) {
-      const filepath = join(subagentsDir, mdFile);
+    for (const { dir, mdFile } of files) {
+      const filepath = join(dir, mdFile);
 
       try {
         const rulesyncSubagent = await RulesyncSubagent.fromFile({
+          relativeDirPath: relative(process.cwd(), dir),
           relativeFilePath: mdFile,
           validate: true,
         });
@@ -43,6 +43,8 @@ const mockGenerateResult: GenerateResult = {
   hooksPaths: [],
   skills: [],
   hasDiff: false,
+  diff: "",
+  deletedPaths: [],
 };
 
 const mockImportResult: ImportResult = {
@@ -106,9 +108,18 @@ describe("generate", () => {
   it("should call core generate and return result", async () => {
     const result = await generate();
 
-    expect(coreGenerate).toHaveBeenCalledWith({ config: mockConfig });
+    expect(coreGenerate).toHaveBeenCalledWith({ config: mockConfig, diff: false });
     expect(result).toEqual(mockGenerateResult);
   });
+
+  it("should pass the diff option to core generate", async () => {
+    await generate({ dryRun: true, diff: true });
+
+    expect(ConfigResolver.resolve).toHaveBeenCalledWith(
+      expect.not.objectContaining({ diff: expect.anything() }),
+    );
+    expect(coreGenerate).toHaveBeenCalledWith({ config: mockConfig, diff: true });
+  });
 });
 
 describe("importFromTool", () => {
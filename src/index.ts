@@ -26,6 +26,7 @@ export type GenerateOptions = {
   simulateSkills?: boolean;
   dryRun?: boolean;
   check?: boolean;
+  diff?: boolean;
 };
 
 export type ImportOptions = {
@@ -38,7 +39,7 @@ export type ImportOptions = {
 };
 
 export async function generate(options: GenerateOptions = {}) {
-  const { silent = true, verbose = false, ...rest } = options;
+  const { silent = true, verbose = false, diff = false, ...rest } = options;
   logger.configure({ verbose, silent });
 
   const config = await ConfigResolver.resolve({
@@ -53,7 +54,7 @@ export async function generate(options: GenerateOptions = {}) {
     }
   }
 
-  return coreGenerate({ config });
+  return coreGenerate({ config, diff });
 }
 
 export async function importFromTool(options: ImportOptions) {
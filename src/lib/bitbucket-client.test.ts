@@ -0,0 +1,174 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { BitbucketClient, BitbucketServerClient } from "./bitbucket-client.js";
+
+function jsonResponse(data: unknown): Response {
+  return new Response(JSON.stringify(data), { status: 200 });
+}
+
+describe("BitbucketClient", () => {
+  const apiUrl = "https://api.bitbucket.org/2.0";
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should use Bearer auth for access tokens and Basic auth for user:secret", async () => {
+    const mockFetch = vi
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ mainbranch: { name: "main" } }))
+      .mockResolvedValueOnce(jsonResponse({ mainbranch: { name: "main" } }));
+
+    expect(
+      await new BitbucketClient({ apiUrl, token: "access" }).getDefaultBranch("ws", "repo"),
+    ).toBe("main");
+    await new BitbucketClient({ apiUrl, token: "me:app-password" }).getDefaultBranch("ws", "repo");
+
+    expect(String(mockFetch.mock.calls[0]?.[0])).toBe(
+      "https://api.bitbucket.org/2.0/repositories/ws/repo",
+    );
+    expect(mockFetch.mock.calls[0]?.[1]?.headers).toEqual({ Authorization: "Bearer access" });
+    expect(mockFetch.mock.calls[1]?.[1]?.headers).toEqual({
+      Authorization: `Basic ${Buffer.from("me:app-password").toString("base64")}`,
+    });
+  });
+
+  it("should resolve a ref to its commit hash", async () => {
+    vi.spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({ hash: "abc" }));
+
+    expect(await new BitbucketClient({ apiUrl }).resolveRefToSha("ws", "repo", "main")).toBe("abc");
+  });
+
+  it("should follow the pages of a directory listing", async () => {
+    const mockFetch = vi
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(
+        jsonResponse({
+          values: [{ type: "commit_file", path: "rules/a.md", size: 3 }],
+          next: "https://api.bitbucket.org/2.0/repositories/ws/repo/src/abc/rules/?page=2",
+        }),
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({ values: [{ type: "commit_directory", path: "rules/shared" }] }),
+      );
+
+    const entries = await new BitbucketClient({ apiUrl }).listDirectory(
+      "ws",
+      "repo",
+      "rules",
+      "abc",
+    );
+
+    expect(entries).toEqual([
+      { name: "a.md", path: "rules/a.md", size: 3, type: "file" },
+      { name: "shared", path: "rules/shared", size: 0, type: "dir" },
+    ]);
+    expect(String(mockFetch.mock.calls[0]?.[0])).toBe(
+      "https://api.bitbucket.org/2.0/repositories/ws/repo/src/abc/rules/?pagelen=100",
+    );
+    expect(String(mockFetch.mock.calls[1]?.[0])).toBe(
+      "https://api.bitbucket.org/2.0/repositories/ws/repo/src/abc/rules/?page=2",
+    );
+  });
+
+  it("should read raw file content", async () => {
+    const mockFetch = vi
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(new Response("# Overview", { status: 200 }));
+
+    expect(
+      await new BitbucketClient({ apiUrl }).getFileContent("ws", "repo", "rules/a.md", "abc"),
+    ).toBe("# Overview");
+    expect(String(mockFetch.mock.calls[0]?.[0])).toBe(
+      "https://api.bitbucket.org/2.0/repositories/ws/repo/src/abc/rules/a.md",
+    );
+  });
+});
+
+describe("BitbucketServerClient", () => {
+  const apiUrl = "https://bitbucket.example.com/rest/api/1.0";
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should get the default branch of a repository in a project", async () => {
+    const mockFetch = vi
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ id: "refs/heads/main", displayId: "main" }));
+
+    expect(await new BitbucketServerClient({ apiUrl }).getDefaultBranch("TEAM", "rules")).toBe(
+      "main",
+    );
+    expect(String(mockFetch.mock.calls[0]?.[0])).toBe(
+      "https://bitbucket.example.com/rest/api/1.0/projects/TEAM/repos/rules/branches/default",
+    );
+  });
+
+  it("should resolve a ref to the latest commit on it", async () => {
+    const mockFetch = vi
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ values: [{ id: "abc" }] }))
+      .mockResolvedValueOnce(jsonResponse({ values: [] }));
+
+    const client = new BitbucketServerClient({ apiUrl });
+
+    expect(await client.resolveRefToSha("TEAM", "rules", "develop")).toBe("abc");
+    expect(String(mockFetch.mock.calls[0]?.[0])).toBe(
+      "https://bitbucket.example.com/rest/api/1.0/projects/TEAM/repos/rules/commits?until=develop&limit=1",
+    );
+    await expect(client.resolveRefToSha("TEAM", "rules", "missing")).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+
+  it("should list directories page by page", async () => {
+    const mockFetch = vi
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(
+        jsonResponse({
+          children: {
+            values: [{ path: { name: "a.md", toString: "a.md" }, type: "FILE", size: 3 }],
+            isLastPage: false,
+            nextPageStart: 1,
+          },
+        }),
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          children: {
+            values: [{ path: { name: "shared", toString: "shared" }, type: "DIRECTORY" }],
+            isLastPage: true,
+          },
+        }),
+      );
+
+    const entries = await new BitbucketServerClient({ apiUrl }).listDirectory(
+      "TEAM",
+      "rules",
+      "rules",
+      "abc",
+    );
+
+    expect(entries).toEqual([
+      { name: "a.md", path: "rules/a.md", size: 3, type: "file" },
+      { name: "shared", path: "rules/shared", size: 0, type: "dir" },
+    ]);
+    expect(String(mockFetch.mock.calls[1]?.[0])).toBe(
+      "https://bitbucket.example.com/rest/api/1.0/projects/TEAM/repos/rules/browse/rules?at=abc&start=1&limit=500",
+    );
+  });
+
+  it("should read raw file content at a ref", async () => {
+    const mockFetch = vi
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(new Response("# Overview", { status: 200 }));
+
+    expect(
+      await new BitbucketServerClient({ apiUrl }).getFileContent("TEAM", "rules", "a.md", "abc"),
+    ).toBe("# Overview");
+    expect(String(mockFetch.mock.calls[0]?.[0])).toBe(
+      "https://bitbucket.example.com/rest/api/1.0/projects/TEAM/repos/rules/raw/a.md?at=abc",
+    );
+  });
+});
@@ -0,0 +1,245 @@
+import { posix } from "node:path";
+
+import { z } from "zod/mini";
+
+import type { GitHubFileType, RemoteFileEntry } from "../types/fetch.js";
+import {
+  GitProviderClientError,
+  RestGitProviderClient,
+  encodeRepositoryPath,
+} from "./git-provider-client.js";
+
+/**
+ * Authenticate with a Bearer access token, or with Basic auth when the token is `user:secret`
+ * (an app password or API token with its user).
+ */
+function getBitbucketAuthHeaders(token: string): Record<string, string> {
+  return token.includes(":")
+    ? { Authorization: `Basic ${Buffer.from(token).toString("base64")}` }
+    : { Authorization: `Bearer ${token}` };
+}
+
+const BitbucketRepositorySchema = z.looseObject({
+  mainbranch: z.looseObject({ name: z.string() }),
+});
+
+const BitbucketCommitSchema = z.looseObject({
+  hash: z.string(),
+});
+
+const BitbucketSourcePageSchema = z.looseObject({
+  values: z.array(
+    z.looseObject({
+      type: z.string(),
+      path: z.string(),
+      size: z.optional(z.number()),
+    }),
+  ),
+  next: z.optional(z.string()),
+});
+
+/**
+ * Client for the Bitbucket Cloud REST API (`https://api.bitbucket.org/2.0`).
+ * The owner of a repository is its workspace.
+ */
+export class BitbucketClient extends RestGitProviderClient {
+  protected readonly providerName = "Bitbucket";
+
+  protected getAuthHeaders(token: string): Record<string, string> {
+    return getBitbucketAuthHeaders(token);
+  }
+
+  async getDefaultBranch(owner: string, repo: string): Promise<string> {
+    const repository = await this.requestJson(
+      this.getRepoEndpoint(owner, repo),
+      BitbucketRepositorySchema,
+    );
+    return repository.mainbranch.name;
+  }
+
+  async resolveRefToSha(owner: string, repo: string, ref: string): Promise<string> {
+    const commit = await this.requestJson(
+      `${this.getRepoEndpoint(owner, repo)}/commit/${encodeURIComponent(ref)}`,
+      BitbucketCommitSchema,
+    );
+    return commit.hash;
+  }
+
+  protected async fetchDirectory(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+  ): Promise<RemoteFileEntry[]> {
+    const commit = ref ?? (await this.getDefaultBranch(owner, repo));
+    const dirPath = path === "." ? "" : `${encodeRepositoryPath(path)}/`;
+
+    const entries: RemoteFileEntry[] = [];
+    let endpoint: string | undefined =
+      `${this.getRepoEndpoint(owner, repo)}/src/${encodeURIComponent(commit)}/${dirPath}`;
+    let query: Record<string, string> = { pagelen: "100" };
+    while (endpoint) {
+      const page: z.infer<typeof BitbucketSourcePageSchema> = await this.requestJson(
+        endpoint,
+        BitbucketSourcePageSchema,
+        query,
+      );
+      for (const value of page.values) {
+        const type: GitHubFileType | undefined =
+          value.type === "commit_directory"
+            ? "dir"
+            : value.type === "commit_file"
+              ? "file"
+              : undefined;
+        if (type) {
+          entries.push({
+            name: posix.basename(value.path),
+            path: value.path,
+            size: value.size ?? 0,
+            type,
+          });
+        }
+      }
+      // The next page is an absolute URL that already carries the query
+      endpoint = page.next;
+      query = {};
+    }
+    return entries;
+  }
+
+  protected async fetchFileContent(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+  ): Promise<string> {
+    const commit = ref ?? (await this.getDefaultBranch(owner, repo));
+    return this.requestText(
+      `${this.getRepoEndpoint(owner, repo)}/src/${encodeURIComponent(commit)}/${encodeRepositoryPath(path)}`,
+      path,
+    );
+  }
+
+  private getRepoEndpoint(owner: string, repo: string): string {
+    return `repositories/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  }
+}
+
+const BitbucketServerBranchSchema = z.looseObject({
+  displayId: z.string(),
+});
+
+const BitbucketServerCommitsSchema = z.looseObject({
+  values: z.array(z.looseObject({ id: z.string() })),
+});
+
+const BitbucketServerBrowseSchema = z.looseObject({
+  children: z.optional(
+    z.looseObject({
+      values: z.array(
+        z.looseObject({
+          path: z.looseObject({ name: z.string(), toString: z.string() }),
+          type: z.string(),
+          size: z.optional(z.number()),
+        }),
+      ),
+      isLastPage: z.boolean(),
+      nextPageStart: z.optional(z.nullable(z.number())),
+    }),
+  ),
+});
+
+const BROWSE_ENTRY_TYPES: Record<string, GitHubFileType> = {
+  FILE: "file",
+  DIRECTORY: "dir",
+  SUBMODULE: "submodule",
+};
+
+/**
+ * Client for the REST API of self-hosted Bitbucket Data Center and Server (`/rest/api/1.0`).
+ * The owner of a repository is its project key.
+ */
+export class BitbucketServerClient extends RestGitProviderClient {
+  protected readonly providerName = "Bitbucket";
+
+  protected getAuthHeaders(token: string): Record<string, string> {
+    return getBitbucketAuthHeaders(token);
+  }
+
+  async getDefaultBranch(owner: string, repo: string): Promise<string> {
+    const branch = await this.requestJson(
+      `${this.getRepoEndpoint(owner, repo)}/branches/default`,
+      BitbucketServerBranchSchema,
+    );
+    return branch.displayId;
+  }
+
+  async resolveRefToSha(owner: string, repo: string, ref: string): Promise<string> {
+    const commits = await this.requestJson(
+      `${this.getRepoEndpoint(owner, repo)}/commits`,
+      BitbucketServerCommitsSchema,
+      { until: ref, limit: "1" },
+    );
+    const sha = commits.values[0]?.id;
+    if (!sha) {
+      throw new GitProviderClientError(`Not found: ref "${ref}" in ${owner}/${repo}`, 404);
+    }
+    return sha;
+  }
+
+  protected async fetchDirectory(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+  ): Promise<RemoteFileEntry[]> {
+    const dirPath = path === "." ? "" : path;
+    const endpoint = `${this.getRepoEndpoint(owner, repo)}/browse/${encodeRepositoryPath(dirPath)}`;
+
+    const entries: RemoteFileEntry[] = [];
+    let start = 0;
+    for (;;) {
+      const { children } = await this.requestJson(endpoint, BitbucketServerBrowseSchema, {
+        at: ref,
+        start: String(start),
+        limit: "500",
+      });
+      // Browsing a file returns its lines instead of children
+      if (!children) {
+        throw new GitProviderClientError(`Path "${path}" is not a directory`);
+      }
+      for (const value of children.values) {
+        const type = BROWSE_ENTRY_TYPES[value.type];
+        if (type) {
+          entries.push({
+            name: value.path.name,
+            path: dirPath ? posix.join(dirPath, value.path.toString) : value.path.toString,
+            size: value.size ?? 0,
+            type,
+          });
+        }
+      }
+      if (children.isLastPage || typeof children.nextPageStart !== "number") {
+        return entries;
+      }
+      start = children.nextPageStart;
+    }
+  }
+
+  protected async fetchFileContent(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+  ): Promise<string> {
+    return this.requestText(
+      `${this.getRepoEndpoint(owner, repo)}/raw/${encodeRepositoryPath(path)}`,
+      path,
+      { at: ref },
+    );
+  }
+
+  private getRepoEndpoint(owner: string, repo: string): string {
+    return `projects/${encodeURIComponent(owner)}/repos/${encodeURIComponent(repo)}`;
+  }
+}
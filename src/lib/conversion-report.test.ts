@@ -0,0 +1,168 @@
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Config, type ConfigParams } from "../config/config.js";
+import {
+  RULESYNC_COMMANDS_RELATIVE_DIR_PATH,
+  RULESYNC_HOOKS_RELATIVE_FILE_PATH,
+  RULESYNC_RULES_RELATIVE_DIR_PATH,
+} from "../constants/rulesync-paths.js";
+import { setupTestDirectory } from "../test-utils/test-directories.js";
+import { writeFileContent } from "../utils/file.js";
+import { buildConversionReport, formatConversionReport } from "./conversion-report.js";
+
+describe("buildConversionReport", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  const createConfig = (overrides: Partial<ConfigParams> = {}) =>
+    new Config({
+      baseDirs: [testDir],
+      targets: ["claudecode", "cursor"],
+      features: ["*"],
+      verbose: false,
+      delete: false,
+      silent: true,
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+    vi.spyOn(process, "cwd").mockReturnValue(testDir);
+    await writeFileContent(
+      join(testDir, RULESYNC_RULES_RELATIVE_DIR_PATH, "overview.md"),
+      "---\nroot: true\n---\n# Overview\n",
+    );
+  });
+
+  afterEach(async () => {
+    await cleanup();
+    vi.restoreAllMocks();
+  });
+
+  it("should collect losses per target and feature", async () => {
+    await writeFileContent(
+      join(testDir, RULESYNC_RULES_RELATIVE_DIR_PATH, "ts.md"),
+      "---\ndescription: TypeScript\nglobs: ['**/*.ts']\ncursor:\n  alwaysApply: true\n---\nA\n",
+    );
+    await writeFileContent(
+      join(testDir, RULESYNC_HOOKS_RELATIVE_FILE_PATH),
+      JSON.stringify({ hooks: { afterFileEdit: [{ command: "format.sh" }] } }),
+    );
+
+    const entries = await buildConversionReport({ config: createConfig() });
+
+    const rulePath = join(RULESYNC_RULES_RELATIVE_DIR_PATH, "ts.md");
+    expect(entries).toEqual([
+      expect.objectContaining({
+        target: "claudecode",
+        feature: "rules",
+        file: rulePath,
+        kind: "dropped",
+        item: "description",
+      }),
+      expect.objectContaining({
+        target: "claudecode",
+        feature: "hooks",
+        file: RULESYNC_HOOKS_RELATIVE_FILE_PATH,
+        item: "hooks.afterFileEdit",
+      }),
+    ]);
+  });
+
+  it("should report features the target does not support", async () => {
+    await writeFileContent(join(testDir, RULESYNC_HOOKS_RELATIVE_FILE_PATH), '{"hooks":{}}');
+
+    const entries = await buildConversionReport({
+      config: createConfig({ targets: ["cline"], features: ["rules", "hooks"] }),
+    });
+
+    expect(entries).toEqual([
+      {
+        target: "cline",
+        feature: "hooks",
+        file: RULESYNC_HOOKS_RELATIVE_FILE_PATH,
+        kind: "dropped",
+        item: "hooks",
+        reason: "cline does not support hooks",
+      },
+    ]);
+  });
+
+  it("should point to the simulate option for simulated features", async () => {
+    await writeFileContent(
+      join(testDir, RULESYNC_COMMANDS_RELATIVE_DIR_PATH, "review.md"),
+      "---\ndescription: Review\n---\nReview\n",
+    );
+
+    const config = createConfig({ targets: ["agentsmd"], features: ["commands"] });
+    expect(await buildConversionReport({ config })).toEqual([
+      expect.objectContaining({
+        item: "commands",
+        reason: "Only generated with --simulate-commands",
+      }),
+    ]);
+
+    const simulated = createConfig({
+      targets: ["agentsmd"],
+      features: ["commands"],
+      simulateCommands: true,
+    });
+    expect(await buildConversionReport({ config: simulated })).toEqual([
+      expect.objectContaining({ kind: "approximated", item: "command" }),
+    ]);
+  });
+
+  it("should skip features without rulesync sources", async () => {
+    const entries = await buildConversionReport({
+      config: createConfig({ targets: ["cline"], features: ["rules", "hooks"] }),
+    });
+
+    expect(entries).toEqual([]);
+  });
+});
+
+describe("formatConversionReport", () => {
+  it("should group entries by target, then by file", () => {
+    const output = formatConversionReport([
+      {
+        target: "claudecode",
+        feature: "rules",
+        file: ".rulesync/rules/a.md",
+        kind: "dropped",
+        item: "description",
+        reason: "claudecode rule files have no description",
+      },
+      {
+        target: "geminicli",
+        feature: "rules",
+        file: ".rulesync/rules/a.md",
+        kind: "approximated",
+        item: "globs",
+        reason: "Listed in the root rule instead of the rule file",
+      },
+      {
+        target: "claudecode",
+        feature: "hooks",
+        file: ".rulesync/hooks.json",
+        kind: "dropped",
+        item: "hooks.afterFileEdit",
+        reason: "claudecode has no afterFileEdit event",
+      },
+    ]);
+
+    expect(output).toBe(
+      [
+        "claudecode:",
+        "  .rulesync/rules/a.md",
+        "    dropped description: claudecode rule files have no description",
+        "  .rulesync/hooks.json",
+        "    dropped hooks.afterFileEdit: claudecode has no afterFileEdit event",
+        "geminicli:",
+        "  .rulesync/rules/a.md",
+        "    approximated globs: Listed in the root rule instead of the rule file",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,200 @@
+import { join } from "node:path";
+
+import type { Config } from "../config/config.js";
+import {
+  RULESYNC_AIIGNORE_RELATIVE_FILE_PATH,
+  RULESYNC_COMMANDS_RELATIVE_DIR_PATH,
+  RULESYNC_HOOKS_RELATIVE_FILE_PATH,
+  RULESYNC_MCP_RELATIVE_FILE_PATH,
+  RULESYNC_RULES_RELATIVE_DIR_PATH,
+  RULESYNC_SKILLS_RELATIVE_DIR_PATH,
+  RULESYNC_SUBAGENTS_RELATIVE_DIR_PATH,
+} from "../constants/rulesync-paths.js";
+import { CommandsProcessor } from "../features/commands/commands-processor.js";
+import { HooksProcessor } from "../features/hooks/hooks-processor.js";
+import { IgnoreProcessor } from "../features/ignore/ignore-processor.js";
+import { McpProcessor } from "../features/mcp/mcp-processor.js";
+import { RulesProcessor } from "../features/rules/rules-processor.js";
+import { SkillsProcessor } from "../features/skills/skills-processor.js";
+import { SubagentsProcessor } from "../features/subagents/subagents-processor.js";
+import type { ConversionLoss } from "../types/conversion-loss.js";
+import type { Feature } from "../types/features.js";
+import { ALL_FEATURES } from "../types/features.js";
+import type { ToolTarget } from "../types/tool-targets.js";
+import { fileExists } from "../utils/file.js";
+
+/**
+ * A conversion loss of a rulesync file for one target and feature.
+ */
+export type ConversionReportEntry = ConversionLoss & {
+  target: ToolTarget;
+  feature: Feature;
+};
+
+/**
+ * Where the rulesync source of each feature lives, relative to the base directory.
+ */
+const FEATURE_SOURCE_PATHS: Record<Feature, string> = {
+  rules: RULESYNC_RULES_RELATIVE_DIR_PATH,
+  ignore: RULESYNC_AIIGNORE_RELATIVE_FILE_PATH,
+  mcp: RULESYNC_MCP_RELATIVE_FILE_PATH,
+  subagents: RULESYNC_SUBAGENTS_RELATIVE_DIR_PATH,
+  commands: RULESYNC_COMMANDS_RELATIVE_DIR_PATH,
+  skills: RULESYNC_SKILLS_RELATIVE_DIR_PATH,
+  hooks: RULESYNC_HOOKS_RELATIVE_FILE_PATH,
+};
+
+function getSupportedTargets(config: Config, feature: Feature): ToolTarget[] {
+  const global = config.getGlobal();
+  switch (feature) {
+    case "rules":
+      return RulesProcessor.getToolTargets({ global });
+    case "ignore":
+      return global ? [] : IgnoreProcessor.getToolTargets();
+    case "mcp":
+      return McpProcessor.getToolTargets({ global });
+    case "subagents":
+      return SubagentsProcessor.getToolTargets({
+        global,
+        includeSimulated: config.getSimulateSubagents(),
+      });
+    case "commands":
+      return CommandsProcessor.getToolTargets({
+        global,
+        includeSimulated: config.getSimulateCommands(),
+      });
+    case "skills":
+      return SkillsProcessor.getToolTargets({
+        global,
+        includeSimulated: config.getSimulateSkills(),
+      });
+    case "hooks":
+      return HooksProcessor.getToolTargets({ global });
+  }
+}
+
+function getSimulatedTargets(feature: Feature): ToolTarget[] {
+  switch (feature) {
+    case "subagents":
+      return SubagentsProcessor.getToolTargetsSimulated();
+    case "commands":
+      return CommandsProcessor.getToolTargetsSimulated();
+    case "skills":
+      return SkillsProcessor.getToolTargetsSimulated();
+    default:
+      return [];
+  }
+}
+
+async function collectLosses({
+  config,
+  feature,
+  toolTarget,
+  baseDir,
+}: {
+  config: Config;
+  feature: Feature;
+  toolTarget: ToolTarget;
+  baseDir: string;
+}): Promise<ConversionLoss[]> {
+  const global = config.getGlobal();
+  switch (feature) {
+    case "rules": {
+      const processor = new RulesProcessor({ baseDir, toolTarget, global });
+      return processor.getConversionLosses(await processor.loadRulesyncFiles());
+    }
+    case "mcp": {
+      const processor = new McpProcessor({ baseDir, toolTarget, global });
+      return processor.getConversionLosses(await processor.loadRulesyncFiles());
+    }
+    case "subagents": {
+      const processor = new SubagentsProcessor({ baseDir, toolTarget, global });
+      return processor.getConversionLosses(await processor.loadRulesyncFiles());
+    }
+    case "commands": {
+      const processor = new CommandsProcessor({ baseDir, toolTarget, global });
+      return processor.getConversionLosses(await processor.loadRulesyncFiles());
+    }
+    case "skills": {
+      const processor = new SkillsProcessor({ baseDir, toolTarget, global });
+      return processor.getConversionLosses(await processor.loadRulesyncDirs());
+    }
+    case "hooks": {
+      const processor = new HooksProcessor({ baseDir, toolTarget, global });
+      return processor.getConversionLosses(await processor.loadRulesyncFiles());
+    }
+    case "ignore":
+      return [];
+  }
+}
+
+/**
+ * Collect every field, hook event and feature of the rulesync files that is dropped or
+ * approximated when generating for the configured targets and features, without writing files.
+ */
+export async function buildConversionReport({
+  config,
+}: {
+  config: Config;
+}): Promise<ConversionReportEntry[]> {
+  const baseDir = process.cwd();
+  const entries: ConversionReportEntry[] = [];
+
+  for (const target of config.getTargets()) {
+    const features = config.getFeatures(target);
+    for (const feature of ALL_FEATURES) {
+      if (!features.includes(feature)) {
+        continue;
+      }
+
+      if (!getSupportedTargets(config, feature).includes(target)) {
+        const file = FEATURE_SOURCE_PATHS[feature];
+        if (!(await fileExists(join(baseDir, file)))) {
+          continue;
+        }
+        const simulateOption = `--simulate-${feature}`;
+        entries.push({
+          target,
+          feature,
+          file,
+          kind: "dropped",
+          item: feature,
+          reason:
+            !config.getGlobal() && getSimulatedTargets(feature).includes(target)
+              ? `Only generated with ${simulateOption}`
+              : `${target} does not support ${feature}${config.getGlobal() ? " in global mode" : ""}`,
+        });
+        continue;
+      }
+
+      const losses = await collectLosses({ config, feature, toolTarget: target, baseDir });
+      entries.push(...losses.map((loss) => ({ target, feature, ...loss })));
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Format report entries grouped by target, then by source file.
+ */
+export function formatConversionReport(entries: ConversionReportEntry[]): string {
+  const byTarget = new Map<ToolTarget, Map<string, ConversionReportEntry[]>>();
+  for (const entry of entries) {
+    const byFile = byTarget.get(entry.target) ?? new Map<string, ConversionReportEntry[]>();
+    byFile.set(entry.file, [...(byFile.get(entry.file) ?? []), entry]);
+    byTarget.set(entry.target, byFile);
+  }
+
+  const lines: string[] = [];
+  for (const [target, byFile] of byTarget) {
+    lines.push(`${target}:`);
+    for (const [file, fileEntries] of byFile) {
+      lines.push(`  ${file}`);
+      for (const entry of fileEntries) {
+        lines.push(`    ${entry.kind} ${entry.item}: ${entry.reason}`);
+      }
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,101 @@
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { RULESYNC_FETCH_BASE_RELATIVE_FILE_PATH } from "../constants/rulesync-paths.js";
+import { setupTestDirectory } from "../test-utils/test-directories.js";
+import { fileExists, readFileContent, writeFileContent } from "../utils/file.js";
+import { FETCH_BASE_VERSION, FetchBaseRecord } from "./fetch-base.js";
+
+vi.mock("../utils/logger.js", () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    success: vi.fn(),
+  },
+}));
+
+const { logger } = await vi.importMock<typeof import("../utils/logger.js")>("../utils/logger.js");
+
+describe("FetchBaseRecord", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+    vi.clearAllMocks();
+  });
+
+  it("should round-trip recorded contents keyed by path relative to the base directory", async () => {
+    const record = await FetchBaseRecord.load({ baseDir: testDir });
+    const filePath = join(testDir, ".rulesync", "rules", "overview.md");
+    expect(record.getContent(filePath)).toBeNull();
+
+    record.record({
+      filePath,
+      source: "owner/repo",
+      sha: "abc",
+      path: "rules/overview.md",
+      feature: "rules",
+      content: "# Overview\n",
+    });
+    await record.save();
+
+    const saved = JSON.parse(
+      await readFileContent(join(testDir, RULESYNC_FETCH_BASE_RELATIVE_FILE_PATH)),
+    );
+    expect(saved).toEqual({
+      version: FETCH_BASE_VERSION,
+      files: {
+        ".rulesync/rules/overview.md": {
+          source: "owner/repo",
+          sha: "abc",
+          path: "rules/overview.md",
+          feature: "rules",
+          content: "# Overview\n",
+        },
+      },
+    });
+    expect((await FetchBaseRecord.load({ baseDir: testDir })).getContent(filePath)).toBe(
+      "# Overview\n",
+    );
+  });
+
+  it("should list and forget the files fetched from a source", async () => {
+    const record = await FetchBaseRecord.load({ baseDir: testDir });
+    const entry = { sha: "abc", feature: "rules" as const, content: "" };
+    record.record({ filePath: join(testDir, "a.md"), source: "owner/a", ...entry });
+    record.record({ filePath: join(testDir, "b.md"), source: "owner/b", ...entry });
+
+    expect(record.getFilesBySource("owner/a")).toEqual([
+      { filePath: join(testDir, "a.md"), source: "owner/a", ...entry },
+    ]);
+
+    record.forget(join(testDir, "a.md"));
+
+    expect(record.getFilesBySource("owner/a")).toEqual([]);
+    expect(record.getContent(join(testDir, "b.md"))).toBe("");
+  });
+
+  it("should not write the record when nothing changed", async () => {
+    const record = await FetchBaseRecord.load({ baseDir: testDir });
+    await record.save();
+
+    expect(await fileExists(join(testDir, RULESYNC_FETCH_BASE_RELATIVE_FILE_PATH))).toBe(false);
+  });
+
+  it("should start fresh with a warning when the record is invalid", async () => {
+    await writeFileContent(join(testDir, RULESYNC_FETCH_BASE_RELATIVE_FILE_PATH), '{"files": 1}');
+
+    const record = await FetchBaseRecord.load({ baseDir: testDir });
+
+    expect(record.getContent(join(testDir, "a.md"))).toBeNull();
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("Invalid fetch base record"));
+  });
+});
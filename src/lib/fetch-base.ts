@@ -0,0 +1,148 @@
+import { join, relative, resolve } from "node:path";
+
+import { isEqual } from "es-toolkit";
+import { z } from "zod/mini";
+
+import { RULESYNC_FETCH_BASE_RELATIVE_FILE_PATH } from "../constants/rulesync-paths.js";
+import { ALL_FEATURES } from "../types/features.js";
+import { fileExists, readFileContent, writeFileContent } from "../utils/file.js";
+import { logger } from "../utils/logger.js";
+
+/** Current base record format version. Bump when the schema changes. */
+export const FETCH_BASE_VERSION = 1;
+
+/**
+ * Schema for the provenance and last-fetched content of a file.
+ * `path` is the path of the file in the source repository; it is absent for files converted from
+ * a tool target, which do not map to a single source file.
+ */
+export const FetchBaseEntrySchema = z.object({
+  source: z.string(),
+  sha: z.string(),
+  path: z.optional(z.string()),
+  feature: z.enum(ALL_FEATURES),
+  content: z.string(),
+});
+export type FetchBaseEntry = z.infer<typeof FetchBaseEntrySchema>;
+
+/**
+ * Schema for the base record file (`.rulesync/.fetch-base.json`).
+ * Keys of `files` are paths relative to the base directory, using forward slashes.
+ */
+export const FetchBaseFileSchema = z.object({
+  version: z.number(),
+  files: z.record(z.string(), FetchBaseEntrySchema),
+});
+export type FetchBaseFile = z.infer<typeof FetchBaseFileSchema>;
+
+/**
+ * Record of where each fetched file came from and its content as it was last fetched, i.e. before
+ * any local edit. The content is the common ancestor when `fetch --conflict merge` merges upstream
+ * changes into a locally edited file; the source finds files removed upstream on `fetch --all`.
+ */
+export class FetchBaseRecord {
+  private readonly baseDir: string;
+  private readonly files: Record<string, FetchBaseEntry>;
+  private dirty = false;
+
+  constructor({
+    baseDir = process.cwd(),
+    files = {},
+  }: {
+    baseDir?: string;
+    files?: Record<string, FetchBaseEntry>;
+  }) {
+    this.baseDir = resolve(baseDir);
+    this.files = { ...files };
+  }
+
+  /**
+   * Load the base record of a base directory.
+   * @returns The parsed record, or an empty record if it doesn't exist or is invalid.
+   */
+  static async load({ baseDir = process.cwd() }: { baseDir?: string }): Promise<FetchBaseRecord> {
+    const recordPath = join(baseDir, RULESYNC_FETCH_BASE_RELATIVE_FILE_PATH);
+
+    if (!(await fileExists(recordPath))) {
+      logger.debug("No fetch base record found, starting fresh.");
+      return new FetchBaseRecord({ baseDir });
+    }
+
+    try {
+      const content = await readFileContent(recordPath);
+      const result = FetchBaseFileSchema.safeParse(JSON.parse(content));
+      if (result.success) {
+        return new FetchBaseRecord({ baseDir, files: result.data.files });
+      }
+      logger.warn(
+        `Invalid fetch base record format (${RULESYNC_FETCH_BASE_RELATIVE_FILE_PATH}). Starting fresh.`,
+      );
+    } catch {
+      logger.warn(
+        `Failed to read fetch base record (${RULESYNC_FETCH_BASE_RELATIVE_FILE_PATH}). Starting fresh.`,
+      );
+    }
+    return new FetchBaseRecord({ baseDir });
+  }
+
+  /**
+   * Write the record to disk. Does nothing when no entry changed since loading.
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+    const recordPath = join(this.baseDir, RULESYNC_FETCH_BASE_RELATIVE_FILE_PATH);
+    const files = Object.fromEntries(
+      Object.entries(this.files).toSorted(([a], [b]) => a.localeCompare(b)),
+    );
+    const record: FetchBaseFile = { version: FETCH_BASE_VERSION, files };
+    await writeFileContent(recordPath, JSON.stringify(record, null, 2) + "\n");
+    this.dirty = false;
+    logger.debug(`Wrote fetch base record to ${recordPath}`);
+  }
+
+  /**
+   * The content of a file as it was last fetched, or null if it was never fetched.
+   */
+  getContent(filePath: string): string | null {
+    return this.files[this.toKey(filePath)]?.content ?? null;
+  }
+
+  /**
+   * Record the content of a file as fetched from a source at a commit.
+   */
+  record({ filePath, ...entry }: { filePath: string } & FetchBaseEntry): void {
+    const key = this.toKey(filePath);
+    if (isEqual(this.files[key], entry)) {
+      return;
+    }
+    this.files[key] = entry;
+    this.dirty = true;
+  }
+
+  /**
+   * Remove a file from the record after it was deleted or is no longer fetched.
+   */
+  forget(filePath: string): void {
+    const key = this.toKey(filePath);
+    if (!(key in this.files)) {
+      return;
+    }
+    delete this.files[key];
+    this.dirty = true;
+  }
+
+  /**
+   * The files last fetched from a source, with their absolute paths.
+   */
+  getFilesBySource(source: string): Array<{ filePath: string } & FetchBaseEntry> {
+    return Object.entries(this.files)
+      .filter(([, entry]) => entry.source === source)
+      .map(([key, entry]) => ({ filePath: join(this.baseDir, key), ...entry }));
+  }
+
+  private toKey(filePath: string): string {
+    return relative(this.baseDir, resolve(filePath)).replaceAll("\\", "/");
+  }
+}
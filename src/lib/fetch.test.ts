@@ -3,6 +3,7 @@ import { join } from "node:path";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import { setupTestDirectory } from "../test-utils/test-directories.js";
+import type { Feature } from "../types/features.js";
 import { ensureDir, fileExists, readFileContent, writeFileContent } from "../utils/file.js";
 import { fetchFiles, formatFetchSummary } from "./fetch.js";
 import { parseSource } from "./source-parser.js";
@@ -19,6 +20,9 @@ vi.mock("./github-client.js", () => ({
     getDefaultBranch(...args: any[]) {
       return mockClientInstance.getDefaultBranch(...args);
     }
+    resolveRefToSha(...args: any[]) {
+      return mockClientInstance.resolveRefToSha(...args);
+    }
     listDirectory(...args: any[]) {
       return mockClientInstance.listDirectory(...args);
     }
@@ -35,6 +39,31 @@ vi.mock("./github-client.js", () => ({
   },
 }));
 
+let giteaClientOptions: unknown;
+
+vi.mock("./gitea-client.js", () => ({
+  GiteaClient: class MockGiteaClient {
+    constructor(options: unknown) {
+      giteaClientOptions = options;
+    }
+    validateRepository(...args: any[]) {
+      return mockClientInstance.validateRepository(...args);
+    }
+    getDefaultBranch(...args: any[]) {
+      return mockClientInstance.getDefaultBranch(...args);
+    }
+    resolveRefToSha(...args: any[]) {
+      return mockClientInstance.resolveRefToSha(...args);
+    }
+    listDirectory(...args: any[]) {
+      return mockClientInstance.listDirectory(...args);
+    }
+    getFileContent(...args: any[]) {
+      return mockClientInstance.getFileContent(...args);
+    }
+  },
+}));
+
 describe("parseSource", () => {
   describe("GitHub URL parsing", () => {
     it("should parse basic GitHub URL", () => {
@@ -245,7 +274,7 @@ describe("parseSource", () => {
 
   describe("unknown provider handling", () => {
     it("should throw error for unknown URL host", () => {
-      expect(() => parseSource("https://bitbucket.org/owner/repo")).toThrow(
+      expect(() => parseSource("https://git.example.com/owner/repo")).toThrow(
         /Unknown Git provider for host/,
       );
     });
@@ -290,6 +319,11 @@ describe("fetchFiles", () => {
     mockClientInstance = {
       validateRepository: vi.fn().mockResolvedValue(true),
       getDefaultBranch: vi.fn().mockResolvedValue("main"),
+      resolveRefToSha: vi
+        .fn()
+        .mockImplementation((_owner: string, _repo: string, ref: string) =>
+          Promise.resolve(`${ref}-sha`),
+        ),
       listDirectory: vi.fn(),
       getFileContent: vi.fn(),
     };
@@ -300,13 +334,44 @@ describe("fetchFiles", () => {
     vi.clearAllMocks();
   });
 
-  it("should throw error for GitLab provider", async () => {
-    await expect(
-      fetchFiles({
-        source: "gitlab:owner/repo",
+  it("should fetch from a self-hosted host with the client of its provider", async () => {
+    process.env["RULESYNC_TOKEN_GIT_EXAMPLE_COM"] = "host-token";
+    mockClientInstance.listDirectory.mockImplementation(
+      (_owner: string, _repo: string, path: string) => {
+        if (path === "rules") {
+          return Promise.resolve([
+            { name: "overview.md", path: "rules/overview.md", type: "file", size: 100 },
+          ]);
+        }
+        return Promise.reject(Object.assign(new Error("Not found"), { statusCode: 404 }));
+      },
+    );
+    mockClientInstance.getFileContent.mockResolvedValue("# Overview");
+
+    try {
+      const summary = await fetchFiles({
+        source: "https://git.example.com/team/rules/src/branch/develop",
         baseDir: testDir,
-      }),
-    ).rejects.toThrow("GitLab is not yet supported");
+        hosts: { "git.example.com": { provider: "gitea" } },
+      });
+
+      expect(giteaClientOptions).toMatchObject({
+        apiUrl: "https://git.example.com/api/v1",
+        token: "host-token",
+      });
+      expect(mockClientInstance.listDirectory).toHaveBeenCalledWith(
+        "team",
+        "rules",
+        "rules",
+        "develop-sha",
+      );
+      expect(summary.created).toBe(1);
+      expect(await readFileContent(join(testDir, ".rulesync", "rules", "overview.md"))).toBe(
+        "# Overview",
+      );
+    } finally {
+      delete process.env["RULESYNC_TOKEN_GIT_EXAMPLE_COM"];
+    }
   });
 
   it("should fetch files from feature directories directly", async () => {
@@ -546,6 +611,168 @@ describe("fetchFiles", () => {
     expect(content).toBe("new content");
   });
 
+  describe("merge strategy", () => {
+    const rulePath = () => join(testDir, ".rulesync", "rules", "overview.md");
+
+    beforeEach(() => {
+      mockClientInstance.listDirectory.mockImplementation(
+        (owner: string, repo: string, path: string) => {
+          if (path === "rules") {
+            return Promise.resolve([
+              { name: "overview.md", path: "rules/overview.md", type: "file", size: 100 },
+            ]);
+          }
+          const error = new Error("Not found");
+          Object.assign(error, { statusCode: 404 });
+          return Promise.reject(error);
+        },
+      );
+    });
+
+    const fetchRules = () =>
+      fetchFiles({
+        source: "owner/repo",
+        options: { conflict: "merge", features: ["rules"] },
+        baseDir: testDir,
+      });
+
+    it("should merge upstream changes into local edits", async () => {
+      mockClientInstance.getFileContent.mockResolvedValueOnce(
+        "---\ndescription: Overview\nglobs: ['**/*']\n---\n# Overview\n\nUse tabs.\n\nBe nice.\n",
+      );
+      await fetchRules();
+      await writeFileContent(
+        rulePath(),
+        "---\ndescription: Our overview\nglobs: ['**/*']\n---\n# Overview\n\nUse spaces.\n\nBe nice.\n",
+      );
+
+      mockClientInstance.getFileContent.mockResolvedValueOnce(
+        "---\ndescription: Overview\nglobs: ['src/**']\n---\n# Overview\n\nUse tabs.\n\nBe kind.\n",
+      );
+      const summary = await fetchRules();
+
+      expect(summary.merged).toBe(1);
+      expect(summary.conflicted).toBe(0);
+      expect(await readFileContent(rulePath())).toBe(
+        "---\ndescription: Our overview\nglobs:\n  - src/**\n---\n# Overview\n\nUse spaces.\n\nBe kind.\n",
+      );
+    });
+
+    it("should write conflict markers when both sides changed the same lines", async () => {
+      mockClientInstance.getFileContent.mockResolvedValueOnce("# Overview\n\nUse tabs.\n");
+      await fetchRules();
+      await writeFileContent(rulePath(), "# Overview\n\nUse spaces.\n");
+
+      mockClientInstance.getFileContent.mockResolvedValueOnce("# Overview\n\nUse 2 spaces.\n");
+      const summary = await fetchRules();
+
+      expect(summary.conflicted).toBe(1);
+      expect(summary.files).toEqual([{ relativePath: "rules/overview.md", status: "conflicted" }]);
+      expect(await readFileContent(rulePath())).toBe(
+        "# Overview\n\n<<<<<<< local\nUse spaces.\n=======\nUse 2 spaces.\n>>>>>>> upstream\n",
+      );
+    });
+
+    it("should record the provenance and content of fetched files", async () => {
+      mockClientInstance.getFileContent.mockResolvedValueOnce("upstream\n");
+      await fetchRules();
+
+      const record = JSON.parse(
+        await readFileContent(join(testDir, ".rulesync", ".fetch-base.json")),
+      );
+      expect(record.files[".rulesync/rules/overview.md"]).toEqual({
+        source: "owner/repo",
+        sha: "main-sha",
+        path: "rules/overview.md",
+        feature: "rules",
+        content: "upstream\n",
+      });
+    });
+  });
+
+  describe("prune", () => {
+    let upstreamRules: string[];
+
+    beforeEach(() => {
+      upstreamRules = ["a.md", "b.md"];
+      mockClientInstance.listDirectory.mockImplementation(
+        (owner: string, repo: string, path: string) => {
+          if (path === "rules") {
+            return Promise.resolve(
+              upstreamRules.map((name) => ({
+                name,
+                path: `rules/${name}`,
+                type: "file",
+                size: 10,
+              })),
+            );
+          }
+          const error = new Error("Not found");
+          Object.assign(error, { statusCode: 404 });
+          return Promise.reject(error);
+        },
+      );
+      mockClientInstance.getFileContent.mockImplementation(
+        (_owner: string, _repo: string, path: string) => Promise.resolve(`${path}\n`),
+      );
+    });
+
+    const fetchRules = (features: Feature[] = ["rules"]) =>
+      fetchFiles({
+        source: "owner/repo",
+        options: { features },
+        baseDir: testDir,
+        prune: true,
+      });
+
+    it("should remove files no longer upstream", async () => {
+      await fetchRules();
+      upstreamRules = ["a.md"];
+
+      const summary = await fetchRules();
+
+      expect(summary.removed).toBe(1);
+      expect(summary.files).toContainEqual({ relativePath: "rules/b.md", status: "removed" });
+      expect(await fileExists(join(testDir, ".rulesync", "rules", "b.md"))).toBe(false);
+      expect(await fileExists(join(testDir, ".rulesync", "rules", "a.md"))).toBe(true);
+    });
+
+    it("should keep locally edited files no longer upstream", async () => {
+      await fetchRules();
+      await writeFileContent(join(testDir, ".rulesync", "rules", "b.md"), "ours\n");
+      upstreamRules = ["a.md"];
+
+      const summary = await fetchRules();
+
+      expect(summary.removed).toBe(0);
+      expect(await readFileContent(join(testDir, ".rulesync", "rules", "b.md"))).toBe("ours\n");
+    });
+
+    it("should not remove files of features that were not fetched", async () => {
+      await fetchRules();
+      upstreamRules = [];
+
+      const summary = await fetchRules(["commands"]);
+
+      expect(summary.removed).toBe(0);
+      expect(await fileExists(join(testDir, ".rulesync", "rules", "b.md"))).toBe(true);
+    });
+
+    it("should not remove files without prune", async () => {
+      await fetchRules();
+      upstreamRules = ["a.md"];
+
+      const summary = await fetchFiles({
+        source: "owner/repo",
+        options: { features: ["rules"] },
+        baseDir: testDir,
+      });
+
+      expect(summary.removed).toBe(0);
+      expect(await fileExists(join(testDir, ".rulesync", "rules", "b.md"))).toBe(true);
+    });
+  });
+
   it("should use custom output directory", async () => {
     mockClientInstance.listDirectory.mockImplementation(
       (owner: string, repo: string, path: string) => {
@@ -601,11 +828,12 @@ describe("fetchFiles", () => {
       baseDir: testDir,
     });
 
+    expect(mockClientInstance.resolveRefToSha).toHaveBeenCalledWith("owner", "repo", "develop");
     expect(mockClientInstance.listDirectory).toHaveBeenCalledWith(
       "owner",
       "repo",
       "rules",
-      "develop",
+      "develop-sha",
     );
   });
 
@@ -960,6 +1188,11 @@ describe("fetchFiles with target option", () => {
     mockClientInstance = {
       validateRepository: vi.fn().mockResolvedValue(true),
       getDefaultBranch: vi.fn().mockResolvedValue("main"),
+      resolveRefToSha: vi
+        .fn()
+        .mockImplementation((_owner: string, _repo: string, ref: string) =>
+          Promise.resolve(`${ref}-sha`),
+        ),
       listDirectory: vi.fn(),
       getFileContent: vi.fn(),
     };
@@ -1320,7 +1553,7 @@ Review the current changes and provide feedback.
 
     // Verify listDirectory was called only once for the shared basePath
     expect(mockClientInstance.listDirectory).toHaveBeenCalledTimes(1);
-    expect(mockClientInstance.listDirectory).toHaveBeenCalledWith("owner", "repo", ".", "main");
+    expect(mockClientInstance.listDirectory).toHaveBeenCalledWith("owner", "repo", ".", "main-sha");
   });
 
   it("should make separate API calls for features with different base paths", async () => {
@@ -1384,12 +1617,12 @@ Review the current changes and provide feedback.
     });
 
     // Verify separate API calls were made for different base paths
-    expect(mockClientInstance.listDirectory).toHaveBeenCalledWith("owner", "repo", ".", "main");
+    expect(mockClientInstance.listDirectory).toHaveBeenCalledWith("owner", "repo", ".", "main-sha");
     expect(mockClientInstance.listDirectory).toHaveBeenCalledWith(
       "owner",
       "repo",
       "subdir",
-      "main",
+      "main-sha",
     );
     expect(mockClientInstance.listDirectory).toHaveBeenCalledTimes(2);
   });
@@ -1408,6 +1641,9 @@ describe("formatFetchSummary", () => {
       created: 1,
       overwritten: 1,
       skipped: 1,
+      merged: 0,
+      conflicted: 0,
+      removed: 0,
     };
 
     const output = formatFetchSummary(summary);
@@ -1429,6 +1665,9 @@ describe("formatFetchSummary", () => {
       created: 0,
       overwritten: 0,
       skipped: 0,
+      merged: 0,
+      conflicted: 0,
+      removed: 0,
     };
 
     const output = formatFetchSummary(summary);
@@ -1436,4 +1675,25 @@ describe("formatFetchSummary", () => {
     expect(output).toContain("Fetched from owner/repo@main:");
     expect(output).toContain("Summary: no files");
   });
+
+  it("should format merged and conflicted files", () => {
+    const output = formatFetchSummary({
+      source: "owner/repo",
+      ref: "main",
+      files: [
+        { relativePath: "rules/a.md", status: "merged" },
+        { relativePath: "rules/b.md", status: "conflicted" },
+      ],
+      created: 0,
+      overwritten: 0,
+      skipped: 0,
+      merged: 1,
+      conflicted: 1,
+      removed: 0,
+    });
+
+    expect(output).toContain("\u2713 rules/a.md (merged)");
+    expect(output).toContain("\u2717 rules/b.md (conflicted - resolve the conflict markers)");
+    expect(output).toContain("Summary: 1 merged, 1 conflicted");
+  });
 });
@@ -1,7 +1,8 @@
-import { join } from "node:path";
+import { join, relative } from "node:path";
 
 import { Semaphore } from "es-toolkit/promise";
 
+import type { GitHost } from "../config/config.js";
 import {
   FETCH_CONCURRENCY_LIMIT,
   MAX_FILE_SIZE,
@@ -23,22 +24,33 @@ import type { FetchTarget } from "../types/fetch-targets.js";
 import type {
   ConflictStrategy,
   FetchFileResult,
+  FetchFileStatus,
   FetchOptions,
   FetchSummary,
-  GitHubFileEntry,
   ParsedSource,
+  RemoteFileEntry,
 } from "../types/fetch.js";
 import type { ToolTarget } from "../types/tool-targets.js";
 import {
   checkPathTraversal,
   createTempDirectory,
   fileExists,
+  readFileContent,
+  readFileContentOrNull,
+  removeFile,
   removeTempDirectory,
   writeFileContent,
 } from "../utils/file.js";
 import { logger } from "../utils/logger.js";
-import { GitHubClient, GitHubClientError } from "./github-client.js";
+import type { MergeResult } from "../utils/merge.js";
+import { mergeMarkdown, mergeText } from "../utils/merge.js";
+import { FetchBaseRecord } from "./fetch-base.js";
+import { createGitProviderClient } from "./git-hosts.js";
+import type { GitProviderClient } from "./git-provider-client.js";
+import { GitProviderClientError } from "./git-provider-client.js";
+import { GitHubClientError } from "./github-client.js";
 import { listDirectoryRecursive, withSemaphore } from "./github-utils.js";
+import { SourceCache } from "./source-cache.js";
 import { parseSource } from "./source-parser.js";
 
 /**
@@ -54,6 +66,15 @@ const FEATURE_PATHS: Record<Feature, string[]> = {
   hooks: [RULESYNC_HOOKS_FILE_NAME],
 };
 
+/**
+ * Features whose markdown files are merged with their frontmatter and body handled separately
+ */
+const MARKDOWN_MERGE_FEATURE_PATHS = [
+  ...FEATURE_PATHS.rules,
+  ...FEATURE_PATHS.commands,
+  ...FEATURE_PATHS.subagents,
+];
+
 /**
  * Check if target is a tool target (not rulesync)
  */
@@ -78,7 +99,17 @@ function validateFileSize(relativePath: string, size: number): void {
  */
 type FeatureConversionResult = {
   converted: number;
-  convertedPaths: string[];
+  convertedFiles: Array<{ feature: Feature; relativePath: string }>;
+};
+
+/**
+ * File of a feature found in the source repository
+ */
+type FeatureFile = {
+  feature: Feature;
+  remotePath: string;
+  relativePath: string;
+  size: number;
 };
 
 /**
@@ -128,7 +159,7 @@ async function processFeatureConversion(params: {
  * @param outputDir - Output directory for rulesync files
  * @param target - Tool target to convert from
  * @param features - Features to convert
- * @returns Number of converted files and their paths
+ * @returns Number of converted files and their paths with their features
  */
 async function convertFetchedFilesToRulesync(params: {
   tempDir: string;
@@ -137,7 +168,7 @@ async function convertFetchedFilesToRulesync(params: {
   features: Feature[];
 }): Promise<FeatureConversionResult> {
   const { tempDir, outputDir, target, features } = params;
-  const convertedPaths: string[] = [];
+  const convertedFiles: FeatureConversionResult["convertedFiles"] = [];
 
   // Feature conversion configurations
   // Each config defines how to get supported targets and create a processor
@@ -196,7 +227,9 @@ async function convertFetchedFilesToRulesync(params: {
     }
     const processor = config.createProcessor();
     const result = await processFeatureConversion({ processor, outputDir });
-    convertedPaths.push(...result.paths);
+    convertedFiles.push(
+      ...result.paths.map((relativePath) => ({ feature: config.feature, relativePath })),
+    );
   }
 
   // Skills conversion is not yet supported in fetch command
@@ -208,7 +241,7 @@ async function convertFetchedFilesToRulesync(params: {
     );
   }
 
-  return { converted: convertedPaths.length, convertedPaths };
+  return { converted: convertedFiles.length, convertedFiles };
 }
 
 /**
@@ -237,7 +270,10 @@ function hasStatusCode(error: unknown): error is { statusCode: number } {
  * Check if error is a 404 "not found" error
  */
 function isNotFoundError(error: unknown): boolean {
-  if (error instanceof GitHubClientError && error.statusCode === 404) {
+  if (
+    (error instanceof GitHubClientError || error instanceof GitProviderClientError) &&
+    error.statusCode === 404
+  ) {
     return true;
   }
   // Also handle plain objects with statusCode property (for test mocks)
@@ -254,6 +290,10 @@ export type FetchParams = {
   source: string;
   options?: FetchOptions;
   baseDir?: string;
+  /** Self-hosted Git hosts from the `gitHosts` config, keyed by host name. */
+  hosts?: Record<string, GitHost>;
+  /** Remove files fetched from this source before that no longer exist upstream. */
+  prune?: boolean;
 };
 
 /**
@@ -265,17 +305,10 @@ export type FetchParams = {
  * converted to rulesync format, and written to the output directory.
  */
 export async function fetchFiles(params: FetchParams): Promise<FetchSummary> {
-  const { source, options = {}, baseDir = process.cwd() } = params;
+  const { source, options = {}, baseDir = process.cwd(), hosts = {}, prune = false } = params;
 
   // Parse source
-  const parsed = parseSource(source);
-
-  // Check if provider is supported
-  if (parsed.provider === "gitlab") {
-    throw new Error(
-      "GitLab is not yet supported. Currently only GitHub repositories are supported.",
-    );
-  }
+  const parsed = parseSource(source, { hosts });
 
   // Resolve options
   const resolvedRef = options.ref ?? parsed.ref;
@@ -291,37 +324,51 @@ export async function fetchFiles(params: FetchParams): Promise<FetchSummary> {
     intendedRootDir: baseDir,
   });
 
-  // Initialize GitHub client
-  const token = GitHubClient.resolveToken(options.token);
-  const client = new GitHubClient({ token });
+  // Initialize the provider's client; contents are read at a commit SHA so that they can be cached
+  const client = createGitProviderClient({
+    parsed,
+    hosts,
+    token: options.token,
+    cache: new SourceCache(),
+  });
 
   // Validate repository
   logger.debug(`Validating repository: ${parsed.owner}/${parsed.repo}`);
   const isValid = await client.validateRepository(parsed.owner, parsed.repo);
   if (!isValid) {
-    throw new GitHubClientError(
-      `Repository not found: ${parsed.owner}/${parsed.repo}. Check the repository name and your access permissions.`,
-      404,
-    );
+    const message = `Repository not found: ${parsed.owner}/${parsed.repo}. Check the repository name and your access permissions.`;
+    throw parsed.provider === "github"
+      ? new GitHubClientError(message, 404)
+      : new GitProviderClientError(message, 404);
   }
 
   // Resolve ref to use
   const ref = resolvedRef ?? (await client.getDefaultBranch(parsed.owner, parsed.repo));
-  logger.debug(`Using ref: ${ref}`);
+  const sha = await client.resolveRefToSha(parsed.owner, parsed.repo, ref);
+  logger.debug(`Using ref: ${ref} (${sha})`);
+
+  // Provenance and last-fetched content of the files fetched before
+  const baseRecord = await FetchBaseRecord.load({ baseDir });
 
   // If target is a tool format, use conversion flow
   if (isToolTarget(target)) {
-    return fetchAndConvertToolFiles({
+    const summary = await fetchAndConvertToolFiles({
       client,
+      source,
       parsed,
       ref,
+      sha,
       resolvedPath,
       enabledFeatures,
       target,
       outputDir,
       baseDir,
       conflictStrategy,
+      baseRecord,
+      prune,
     });
+    await baseRecord.save();
+    return summary;
   }
 
   // Create semaphore for concurrency control
@@ -333,21 +380,16 @@ export async function fetchFiles(params: FetchParams): Promise<FetchSummary> {
     owner: parsed.owner,
     repo: parsed.repo,
     basePath: resolvedPath,
-    ref,
+    ref: sha,
     enabledFeatures,
     semaphore,
   });
 
   if (filesToFetch.length === 0) {
     logger.warn(`No files found matching enabled features: ${enabledFeatures.join(", ")}`);
-    return {
-      source: `${parsed.owner}/${parsed.repo}`,
-      ref,
-      files: [],
-      created: 0,
-      overwritten: 0,
-      skipped: 0,
-    };
+    if (!prune) {
+      return summarizeFetchResults({ parsed, ref, results: [] });
+    }
   }
 
   // Process files in parallel with concurrency control
@@ -367,8 +409,8 @@ export async function fetchFiles(params: FetchParams): Promise<FetchSummary> {
   // Note: Promise.all fails fast - if any promise rejects, others continue running but
   // may have already written files. This behavior is consistent with sequential execution,
   // but the window for partial writes is larger with parallel execution.
-  const results = await Promise.all(
-    filesToFetch.map(async ({ remotePath, relativePath }) => {
+  const results: FetchFileResult[] = await Promise.all(
+    filesToFetch.map(async ({ feature, remotePath, relativePath }) => {
       const localPath = join(outputBasePath, relativePath);
       const exists = await fileExists(localPath);
 
@@ -378,8 +420,28 @@ export async function fetchFiles(params: FetchParams): Promise<FetchSummary> {
       }
 
       const content = await withSemaphore(semaphore, () =>
-        client.getFileContent(parsed.owner, parsed.repo, remotePath, ref),
+        client.getFileContent(parsed.owner, parsed.repo, remotePath, sha),
       );
+      const baseContent = baseRecord.getContent(localPath);
+      // The upstream content is the common ancestor of the next merge, even when this one conflicts
+      baseRecord.record({ filePath: localPath, source, sha, path: remotePath, feature, content });
+
+      if (exists && conflictStrategy === "merge") {
+        const localContent = await readFileContent(localPath);
+        const merged = mergeFetchedFile({
+          relativePath,
+          base: baseContent,
+          local: localContent,
+          upstream: content,
+        });
+        if (merged.content !== localContent) {
+          await writeFileContent(localPath, merged.content);
+        }
+        const status = merged.conflicted ? ("conflicted" as const) : ("merged" as const);
+        logger.debug(`Merged: ${relativePath} (${status})`);
+        return { relativePath, status };
+      }
+
       await writeFileContent(localPath, content);
 
       const status = exists ? ("overwritten" as const) : ("created" as const);
@@ -388,38 +450,126 @@ export async function fetchFiles(params: FetchParams): Promise<FetchSummary> {
     }),
   );
 
-  // Calculate summary
-  const summary: FetchSummary = {
+  if (prune) {
+    results.push(
+      ...(await removeFilesGoneUpstream({
+        baseRecord,
+        source,
+        outputBasePath,
+        upstreamFilePaths: filesToFetch.map(({ relativePath }) =>
+          join(outputBasePath, relativePath),
+        ),
+        enabledFeatures,
+      })),
+    );
+  }
+  await baseRecord.save();
+
+  return summarizeFetchResults({ parsed, ref, results });
+}
+
+function summarizeFetchResults(params: {
+  parsed: ParsedSource;
+  ref: string;
+  results: FetchFileResult[];
+}): FetchSummary {
+  const { parsed, ref, results } = params;
+  const count = (status: FetchFileStatus) => results.filter((r) => r.status === status).length;
+  return {
     source: `${parsed.owner}/${parsed.repo}`,
     ref,
     files: results,
-    created: results.filter((r) => r.status === "created").length,
-    overwritten: results.filter((r) => r.status === "overwritten").length,
-    skipped: results.filter((r) => r.status === "skipped").length,
+    created: count("created"),
+    overwritten: count("overwritten"),
+    skipped: count("skipped"),
+    merged: count("merged"),
+    conflicted: count("conflicted"),
+    removed: count("removed"),
   };
+}
+
+/**
+ * Remove the files of the enabled features fetched from a source into the output directory before,
+ * that are no longer upstream. Files edited since they were fetched are kept, with a warning.
+ */
+async function removeFilesGoneUpstream(params: {
+  baseRecord: FetchBaseRecord;
+  source: string;
+  outputBasePath: string;
+  /** Absolute paths of the files written from the current upstream content. */
+  upstreamFilePaths: string[];
+  enabledFeatures: Feature[];
+}): Promise<FetchFileResult[]> {
+  const { baseRecord, source, outputBasePath, enabledFeatures } = params;
+  const upstreamFilePaths = new Set(params.upstreamFilePaths);
+  const results: FetchFileResult[] = [];
+
+  for (const { filePath, feature, content: fetchedContent } of baseRecord.getFilesBySource(
+    source,
+  )) {
+    const relativePath = relative(outputBasePath, filePath).replaceAll("\\", "/");
+    if (
+      relativePath.startsWith("../") ||
+      upstreamFilePaths.has(filePath) ||
+      !enabledFeatures.includes(feature)
+    ) {
+      continue;
+    }
 
-  return summary;
+    const content = await readFileContentOrNull(filePath);
+    if (content === null) {
+      logger.debug(`Already deleted: ${relativePath}`);
+    } else if (content !== fetchedContent) {
+      logger.warn(
+        `Kept ${relativePath}: it was removed from ${source} but has local changes. Delete it if it is no longer needed.`,
+      );
+    } else {
+      await removeFile(filePath);
+      results.push({ relativePath, status: "removed" });
+      logger.debug(`Removed: ${relativePath} (no longer in ${source})`);
+    }
+    baseRecord.forget(filePath);
+  }
+
+  return results;
+}
+
+/**
+ * Three-way merge of a fetched file into its local version
+ */
+function mergeFetchedFile(params: {
+  relativePath: string;
+  base: string | null;
+  local: string;
+  upstream: string;
+}): MergeResult {
+  const { relativePath, ...versions } = params;
+  const [featurePath] = relativePath.split("/");
+  const isMarkdownFeature =
+    MARKDOWN_MERGE_FEATURE_PATHS.some((path) => path === featurePath) &&
+    relativePath.endsWith(".md");
+  return isMarkdownFeature ? mergeMarkdown(versions) : mergeText(versions);
 }
 
 /**
  * Collect files from feature directories
  */
 async function collectFeatureFiles(params: {
-  client: GitHubClient;
+  client: GitProviderClient;
   owner: string;
   repo: string;
   basePath: string;
   ref: string;
   enabledFeatures: Feature[];
   semaphore: Semaphore;
-}): Promise<Array<{ remotePath: string; relativePath: string; size: number }>> {
+}): Promise<FeatureFile[]> {
   const { client, owner, repo, basePath, ref, enabledFeatures, semaphore } = params;
 
   // Cache directory listing results to avoid duplicate API calls
   // File-based features (ignore, mcp, hooks) all list the same basePath directory
-  const dirCache = new Map<string, Promise<GitHubFileEntry[]>>();
+  const dirCache = new Map<string, Promise<RemoteFileEntry[]>>();
 
-  async function getCachedDirectory(path: string): Promise<GitHubFileEntry[]> {
+  async function getCachedDirectory(path: string): Promise<RemoteFileEntry[]> {
     let promise = dirCache.get(path);
     if (promise === undefined) {
       promise = withSemaphore(semaphore, () => client.listDirectory(owner, repo, path, ref));
@@ -433,10 +583,10 @@ async function collectFeatureFiles(params: {
   );
 
   const results = await Promise.all(
-    tasks.map(async ({ featurePath }) => {
+    tasks.map(async ({ feature, featurePath }) => {
       const fullPath =
         basePath === "." || basePath === "" ? featurePath : join(basePath, featurePath);
-      const collected: Array<{ remotePath: string; relativePath: string; size: number }> = [];
+      const collected: FeatureFile[] = [];
 
       try {
         // Check if it's a file (mcp.json, .aiignore, hooks.json)
@@ -449,6 +599,7 @@ async function collectFeatureFiles(params: {
             const fileEntry = entries.find((e) => e.name === featurePath && e.type === "file");
             if (fileEntry) {
               collected.push({
+                feature,
                 remotePath: fileEntry.path,
                 relativePath: featurePath,
                 size: fileEntry.size,
@@ -481,6 +632,7 @@ async function collectFeatureFiles(params: {
                 : file.path.substring(basePath.length + 1);
 
             collected.push({
+              feature,
               remotePath: file.path,
               relativePath,
               size: file.size,
@@ -508,28 +660,43 @@ async function collectFeatureFiles(params: {
  * Fetch tool-specific files and convert them to rulesync format
  */
 async function fetchAndConvertToolFiles(params: {
-  client: GitHubClient;
+  client: GitProviderClient;
+  source: string;
   parsed: ParsedSource;
   ref: string;
+  /** Commit SHA of `ref`, at which the files are read. */
+  sha: string;
   resolvedPath: string;
   enabledFeatures: Feature[];
   target: ToolTarget;
   outputDir: string;
   baseDir: string;
   conflictStrategy: ConflictStrategy;
+  baseRecord: FetchBaseRecord;
+  prune: boolean;
 }): Promise<FetchSummary> {
   const {
     client,
+    source,
     parsed,
     ref,
+    sha,
     resolvedPath,
     enabledFeatures,
     target,
     outputDir,
     baseDir,
-    conflictStrategy: _conflictStrategy,
+    conflictStrategy,
+    baseRecord,
+    prune,
   } = params;
 
+  if (conflictStrategy === "merge") {
+    logger.warn(
+      `The merge conflict strategy is not supported when fetching from ${target} files. Converted files overwrite existing ones.`,
+    );
+  }
+
   // Create a unique temporary directory
   const tempDir = await createTempDirectory();
   logger.debug(`Created temp directory: ${tempDir}`);
@@ -545,21 +712,16 @@ async function fetchAndConvertToolFiles(params: {
       owner: parsed.owner,
       repo: parsed.repo,
       basePath: resolvedPath,
-      ref,
+      ref: sha,
       enabledFeatures,
       semaphore,
     });
 
     if (filesToFetch.length === 0) {
       logger.warn(`No files found matching enabled features: ${enabledFeatures.join(", ")}`);
-      return {
-        source: `${parsed.owner}/${parsed.repo}`,
-        ref,
-        files: [],
-        created: 0,
-        overwritten: 0,
-        skipped: 0,
-      };
+      if (!prune) {
+        return summarizeFetchResults({ parsed, ref, results: [] });
+      }
     }
 
     // Validate file sizes first
@@ -583,7 +745,7 @@ async function fetchAndConvertToolFiles(params: {
 
         // Fetch file content with concurrency control, then write locally
         const content = await withSemaphore(semaphore, () =>
-          client.getFileContent(parsed.owner, parsed.repo, remotePath, ref),
+          client.getFileContent(parsed.owner, parsed.repo, remotePath, sha),
         );
         await writeFileContent(localPath, content);
         logger.debug(`Fetched to temp: ${toolRelativePath}`);
@@ -592,7 +754,7 @@ async function fetchAndConvertToolFiles(params: {
 
     // Convert fetched files to rulesync format
     const outputBasePath = join(baseDir, outputDir);
-    const { converted, convertedPaths } = await convertFetchedFilesToRulesync({
+    const { converted, convertedFiles } = await convertFetchedFilesToRulesync({
       tempDir,
       outputDir: outputBasePath,
       target,
@@ -600,21 +762,31 @@ async function fetchAndConvertToolFiles(params: {
     });
 
     // Build results based on conversion with actual file paths
-    const results: FetchFileResult[] = convertedPaths.map((relativePath) => ({
-      relativePath,
-      status: "created" as const,
-    }));
+    const results: FetchFileResult[] = [];
+    for (const { feature, relativePath } of convertedFiles) {
+      const filePath = join(outputBasePath, relativePath);
+      const content = await readFileContent(filePath);
+      baseRecord.record({ filePath, source, sha, feature, content });
+      results.push({ relativePath, status: "created" });
+    }
 
     logger.debug(`Converted ${converted} files from ${target} format to rulesync format`);
 
-    return {
-      source: `${parsed.owner}/${parsed.repo}`,
-      ref,
-      files: results,
-      created: results.filter((r) => r.status === "created").length,
-      overwritten: results.filter((r) => r.status === "overwritten").length,
-      skipped: results.filter((r) => r.status === "skipped").length,
-    };
+    if (prune) {
+      results.push(
+        ...(await removeFilesGoneUpstream({
+          baseRecord,
+          source,
+          outputBasePath,
+          upstreamFilePaths: convertedFiles.map(({ relativePath }) =>
+            join(outputBasePath, relativePath),
+          ),
+          enabledFeatures,
+        })),
+      );
+    }
+
+    return summarizeFetchResults({ parsed, ref, results });
   } finally {
     // Clean up temp directory
     await removeTempDirectory(tempDir);
@@ -739,6 +911,15 @@ function mapToToolPath(
   return relativePath;
 }
 
+const FETCH_FILE_STATUS_TEXTS: Record<FetchFileStatus, string> = {
+  created: "(created)",
+  overwritten: "(overwritten)",
+  skipped: "(skipped - already exists)",
+  merged: "(merged)",
+  conflicted: "(conflicted - resolve the conflict markers)",
+  removed: "(removed - no longer upstream)",
+};
+
 /**
  * Format fetch summary for display
  */
@@ -748,13 +929,13 @@ export function formatFetchSummary(summary: FetchSummary): string {
   lines.push(`Fetched from ${summary.source}@${summary.ref}:`);
 
   for (const file of summary.files) {
-    const icon = file.status === "skipped" ? "-" : "\u2713";
-    const statusText =
-      file.status === "created"
-        ? "(created)"
-        : file.status === "overwritten"
-          ? "(overwritten)"
-          : "(skipped - already exists)";
+    const icon =
+      file.status === "skipped" || file.status === "removed"
+        ? "-"
+        : file.status === "conflicted"
+          ? "\u2717"
+          : "\u2713";
+    const statusText = FETCH_FILE_STATUS_TEXTS[file.status];
     lines.push(`  ${icon} ${file.relativePath} ${statusText}`);
   }
 
@@ -762,6 +943,9 @@ export function formatFetchSummary(summary: FetchSummary): string {
   if (summary.created > 0) parts.push(`${summary.created} created`);
   if (summary.overwritten > 0) parts.push(`${summary.overwritten} overwritten`);
   if (summary.skipped > 0) parts.push(`${summary.skipped} skipped`);
+  if (summary.merged > 0) parts.push(`${summary.merged} merged`);
+  if (summary.conflicted > 0) parts.push(`${summary.conflicted} conflicted`);
+  if (summary.removed > 0) parts.push(`${summary.removed} removed`);
 
   lines.push("");
   const summaryText = parts.length > 0 ? parts.join(", ") : "no files";
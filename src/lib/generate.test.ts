@@ -12,6 +12,8 @@ import { SubagentsProcessor } from "../features/subagents/subagents-processor.js
 import { fileExists, readFileContentOrNull } from "../utils/file.js";
 import { logger } from "../utils/logger.js";
 import { checkRulesyncDirExists, generate } from "./generate.js";
+import { GeneratedManifest } from "./generated-manifest.js";
+import { checkCuratedSkillIntegrity } from "./verify.js";
 
 vi.mock("../features/rules/rules-processor.js");
 vi.mock("../features/ignore/ignore-processor.js");
@@ -29,6 +31,9 @@ vi.mock("../utils/file.js", async (importOriginal) => {
     addTrailingNewline: actual.addTrailingNewline,
   };
 });
+vi.mock("./verify.js", () => ({
+  checkCuratedSkillIntegrity: vi.fn(),
+}));
 vi.mock("es-toolkit", () => ({
   intersection: vi.fn(),
 }));
@@ -74,6 +79,10 @@ describe("generate", () => {
     getSimulateCommands: ReturnType<typeof vi.fn>;
     getSimulateSubagents: ReturnType<typeof vi.fn>;
     getSimulateSkills: ReturnType<typeof vi.fn>;
+    getVars: ReturnType<typeof vi.fn>;
+    getIntegrityCheck: ReturnType<typeof vi.fn>;
+    getResolveMcpEnv: ReturnType<typeof vi.fn>;
+    getMergeMcp: ReturnType<typeof vi.fn>;
     isPreviewMode: ReturnType<typeof vi.fn>;
   };
 
@@ -89,6 +98,10 @@ describe("generate", () => {
       getSimulateCommands: vi.fn().mockReturnValue(false),
       getSimulateSubagents: vi.fn().mockReturnValue(false),
       getSimulateSkills: vi.fn().mockReturnValue(false),
+      getVars: vi.fn().mockReturnValue({}),
+      getIntegrityCheck: vi.fn().mockReturnValue("warn"),
+      getResolveMcpEnv: vi.fn().mockReturnValue(false),
+      getMergeMcp: vi.fn().mockReturnValue(false),
       isPreviewMode: vi.fn().mockReturnValue(false),
     };
 
@@ -108,12 +121,12 @@ describe("generate", () => {
     const createMockProcessor = () => ({
       loadToolFiles: vi.fn().mockResolvedValue([]),
       removeAiFiles: vi.fn().mockResolvedValue(undefined),
-      removeOrphanAiFiles: vi.fn().mockResolvedValue(0),
+      removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
       loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
       convertRulesyncFilesToToolFiles: vi
         .fn()
         .mockResolvedValue([createMockAiFile("/path/to/file", "content")]),
-      writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [] }),
+      writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [], changes: [] }),
     });
 
     const createMockSkillsProcessor = () => ({
@@ -121,7 +134,7 @@ describe("generate", () => {
       removeAiDirs: vi.fn().mockResolvedValue(undefined),
       loadRulesyncDirs: vi.fn().mockResolvedValue([]),
       convertRulesyncDirsToToolDirs: vi.fn().mockResolvedValue([]),
-      writeAiDirs: vi.fn().mockResolvedValue({ count: 0, paths: [] }),
+      writeAiDirs: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
     });
 
     vi.mocked(RulesProcessor).mockImplementation(function () {
@@ -167,6 +180,7 @@ describe("generate", () => {
         simulateSkills: false,
         skills: [],
         dryRun: false,
+        templateVars: {},
       });
     });
 
@@ -194,7 +208,7 @@ describe("generate", () => {
         removeAiDirs: vi.fn().mockResolvedValue(undefined),
         loadRulesyncDirs: vi.fn().mockResolvedValue([mockSkill]),
         convertRulesyncDirsToToolDirs: vi.fn().mockResolvedValue([]),
-        writeAiDirs: vi.fn().mockResolvedValue({ count: 1, paths: [] }),
+        writeAiDirs: vi.fn().mockResolvedValue({ count: 1, paths: [], changes: [] }),
       };
       vi.mocked(SkillsProcessor).mockImplementation(function () {
         return mockSkillsProcessor as unknown as SkillsProcessor;
@@ -217,10 +231,10 @@ describe("generate", () => {
       const generatedFiles = [{ tool: "converted", getFilePath: () => "/path/to/converted" }];
       const mockProcessor = {
         loadToolFiles: vi.fn().mockResolvedValue(existingFiles),
-        removeOrphanAiFiles: vi.fn().mockResolvedValue(0),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
         convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue(generatedFiles),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [] }),
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [], changes: [] }),
       };
       vi.mocked(RulesProcessor).mockImplementation(function () {
         return mockProcessor as unknown as RulesProcessor;
@@ -229,7 +243,11 @@ describe("generate", () => {
       await generate({ config: mockConfig as never });
 
       expect(mockProcessor.loadToolFiles).toHaveBeenCalledWith({ forDeletion: true });
-      expect(mockProcessor.removeOrphanAiFiles).toHaveBeenCalledWith(existingFiles, generatedFiles);
+      expect(mockProcessor.removeOrphanAiFiles).toHaveBeenCalledWith(
+        existingFiles,
+        generatedFiles,
+        expect.any(GeneratedManifest),
+      );
     });
 
     it("should not delete files that are regenerated (only orphans)", async () => {
@@ -242,10 +260,10 @@ describe("generate", () => {
       const generatedFiles = [{ tool: "converted", getFilePath: () => samePath }];
       const mockProcessor = {
         loadToolFiles: vi.fn().mockResolvedValue(existingFiles),
-        removeOrphanAiFiles: vi.fn().mockResolvedValue(0),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
         convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue(generatedFiles),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [] }),
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [], changes: [] }),
       };
       vi.mocked(RulesProcessor).mockImplementation(function () {
         return mockProcessor as unknown as RulesProcessor;
@@ -254,7 +272,11 @@ describe("generate", () => {
       await generate({ config: mockConfig as never });
 
       // removeOrphanAiFiles is called with both lists, the actual filtering happens inside
-      expect(mockProcessor.removeOrphanAiFiles).toHaveBeenCalledWith(existingFiles, generatedFiles);
+      expect(mockProcessor.removeOrphanAiFiles).toHaveBeenCalledWith(
+        existingFiles,
+        generatedFiles,
+        expect.any(GeneratedManifest),
+      );
       // Verify writeAiFiles was called first (files are generated before orphan removal)
       const writeCall = mockProcessor.writeAiFiles.mock.invocationCallOrder[0] ?? 0;
       const removeCall = mockProcessor.removeOrphanAiFiles.mock.invocationCallOrder[0] ?? 0;
@@ -322,7 +344,7 @@ describe("generate", () => {
         removeAiFiles: vi.fn().mockResolvedValue(undefined),
         loadRulesyncFiles: vi.fn().mockResolvedValue([]),
         convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([]),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [] }),
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
       };
       vi.mocked(IgnoreProcessor).mockImplementation(function () {
         return mockProcessor as unknown as IgnoreProcessor;
@@ -348,6 +370,9 @@ describe("generate", () => {
         toolTarget: "claudecode",
         global: false,
         dryRun: false,
+        resolveEnv: false,
+        merge: false,
+        manifest: expect.any(GeneratedManifest),
       });
     });
 
@@ -373,6 +398,7 @@ describe("generate", () => {
         toolTarget: "claudecode",
         global: false,
         dryRun: false,
+        templateVars: {},
       });
     });
 
@@ -444,7 +470,7 @@ describe("generate", () => {
         removeAiDirs: vi.fn().mockResolvedValue(undefined),
         loadRulesyncDirs: vi.fn().mockResolvedValue([]),
         convertRulesyncDirsToToolDirs: vi.fn().mockResolvedValue([{ dir: "skill" }]),
-        writeAiDirs: vi.fn().mockResolvedValue({ count: 1, paths: [] }),
+        writeAiDirs: vi.fn().mockResolvedValue({ count: 1, paths: [], changes: [] }),
       };
       vi.mocked(SkillsProcessor).mockImplementation(function () {
         return mockSkillsProcessor as unknown as SkillsProcessor;
@@ -458,6 +484,7 @@ describe("generate", () => {
         toolTarget: "claudecode",
         global: false,
         dryRun: false,
+        templateVars: {},
       });
     });
 
@@ -486,7 +513,7 @@ describe("generate", () => {
         removeAiDirs: vi.fn().mockResolvedValue(undefined),
         loadRulesyncDirs: vi.fn().mockResolvedValue([mockSkill]),
         convertRulesyncDirsToToolDirs: vi.fn().mockResolvedValue([]),
-        writeAiDirs: vi.fn().mockResolvedValue({ count: 1, paths: [] }),
+        writeAiDirs: vi.fn().mockResolvedValue({ count: 1, paths: [], changes: [] }),
       };
       vi.mocked(SkillsProcessor).mockImplementation(function () {
         return mockSkillsProcessor as unknown as SkillsProcessor;
@@ -505,10 +532,10 @@ describe("generate", () => {
       const generatedDirs = [{ dir: "generated-skill", getDirPath: () => "/path/to/generated" }];
       const mockSkillsProcessor = {
         loadToolDirsToDelete: vi.fn().mockResolvedValue(existingDirs),
-        removeOrphanAiDirs: vi.fn().mockResolvedValue(0),
+        removeOrphanAiDirs: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncDirs: vi.fn().mockResolvedValue([]),
         convertRulesyncDirsToToolDirs: vi.fn().mockResolvedValue(generatedDirs),
-        writeAiDirs: vi.fn().mockResolvedValue({ count: 1, paths: [] }),
+        writeAiDirs: vi.fn().mockResolvedValue({ count: 1, paths: [], changes: [] }),
       };
       vi.mocked(SkillsProcessor).mockImplementation(function () {
         return mockSkillsProcessor as unknown as SkillsProcessor;
@@ -520,12 +547,121 @@ describe("generate", () => {
       expect(mockSkillsProcessor.removeOrphanAiDirs).toHaveBeenCalledWith(
         existingDirs,
         generatedDirs,
+        expect.any(GeneratedManifest),
       );
       // Verify writeAiDirs was called first (dirs are generated before orphan removal)
       const writeCall = mockSkillsProcessor.writeAiDirs.mock.invocationCallOrder[0] ?? 0;
       const removeCall = mockSkillsProcessor.removeOrphanAiDirs.mock.invocationCallOrder[0] ?? 0;
       expect(writeCall).toBeLessThan(removeCall);
     });
+
+    it("should check the integrity of curated skills before generating", async () => {
+      mockConfig.getFeatures.mockReturnValue(["skills"]);
+      mockConfig.getIntegrityCheck.mockReturnValue("fail");
+
+      await generate({ config: mockConfig as never, features: ["skills"] });
+
+      expect(checkCuratedSkillIntegrity).toHaveBeenCalledWith({ mode: "fail" });
+    });
+
+    it("should not generate when the integrity check fails", async () => {
+      mockConfig.getFeatures.mockReturnValue(["skills"]);
+      vi.mocked(checkCuratedSkillIntegrity).mockRejectedValueOnce(
+        new Error("Integrity check failed"),
+      );
+
+      await expect(generate({ config: mockConfig as never, features: ["skills"] })).rejects.toThrow(
+        "Integrity check failed",
+      );
+      expect(SkillsProcessor).not.toHaveBeenCalled();
+    });
+
+    it("should not check curated skills when skills are not generated", async () => {
+      mockConfig.getFeatures.mockReturnValue(["rules", "skills"]);
+      await generate({ config: mockConfig as never, features: ["rules"] });
+
+      expect(checkCuratedSkillIntegrity).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("features filter", () => {
+    it("should only generate the given features", async () => {
+      mockConfig.getFeatures.mockReturnValue(["rules", "mcp", "skills"]);
+
+      const result = await generate({ config: mockConfig as never, features: ["mcp"] });
+
+      expect(result.mcpCount).toBe(1);
+      expect(result.rulesCount).toBe(0);
+      expect(McpProcessor).toHaveBeenCalled();
+      expect(RulesProcessor).not.toHaveBeenCalled();
+      expect(SkillsProcessor).not.toHaveBeenCalled();
+    });
+
+    it("should pass the given skills to rules when skills are not generated", async () => {
+      mockConfig.getFeatures.mockReturnValue(["rules", "skills"]);
+      const mockSkill = new RulesyncSkill({
+        baseDir: ".",
+        relativeDirPath: ".rulesync/skills/test",
+        dirName: "test",
+        frontmatter: { name: "test-skill", targets: ["*"], description: "Test skill" },
+        body: "Test skill body",
+      });
+
+      const result = await generate({
+        config: mockConfig as never,
+        features: ["rules"],
+        skills: [mockSkill],
+      });
+
+      expect(SkillsProcessor).not.toHaveBeenCalled();
+      expect(RulesProcessor).toHaveBeenCalledWith(expect.objectContaining({ skills: [mockSkill] }));
+      expect(result.skills).toEqual([mockSkill]);
+    });
+  });
+
+  describe("generated files manifest", () => {
+    it("should load a manifest per base directory and pass it to processors", async () => {
+      mockConfig.getFeatures.mockReturnValue(["rules"]);
+      mockConfig.getBaseDirs.mockReturnValue(["/project/a", "/project/b"]);
+      const loadSpy = vi.spyOn(GeneratedManifest, "load");
+      const mockProcessor = {
+        loadToolFiles: vi.fn().mockResolvedValue([]),
+        loadRulesyncFiles: vi.fn().mockResolvedValue([]),
+        convertRulesyncFilesToToolFiles: vi.fn().mockResolvedValue([]),
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
+      };
+      vi.mocked(RulesProcessor).mockImplementation(function () {
+        return mockProcessor as unknown as RulesProcessor;
+      });
+
+      await generate({ config: mockConfig as never });
+
+      expect(loadSpy).toHaveBeenCalledWith({ baseDir: "/project/a" });
+      expect(loadSpy).toHaveBeenCalledWith({ baseDir: "/project/b" });
+      expect(mockProcessor.writeAiFiles).toHaveBeenCalledWith([], expect.any(GeneratedManifest));
+      loadSpy.mockRestore();
+    });
+
+    it("should save manifests after generating", async () => {
+      mockConfig.getFeatures.mockReturnValue(["rules"]);
+      const saveSpy = vi.spyOn(GeneratedManifest.prototype, "save").mockResolvedValue();
+
+      await generate({ config: mockConfig as never });
+
+      expect(saveSpy).toHaveBeenCalledTimes(1);
+      saveSpy.mockRestore();
+    });
+
+    it("should not save manifests in dry run mode", async () => {
+      mockConfig.getFeatures.mockReturnValue(["rules"]);
+      mockConfig.isPreviewMode.mockReturnValue(true);
+      const saveSpy = vi.spyOn(GeneratedManifest.prototype, "save").mockResolvedValue();
+
+      await generate({ config: mockConfig as never });
+
+      expect(saveSpy).not.toHaveBeenCalled();
+      saveSpy.mockRestore();
+    });
   });
 
   describe("all features combined", () => {
@@ -545,7 +681,7 @@ describe("generate", () => {
         removeAiDirs: vi.fn().mockResolvedValue(undefined),
         loadRulesyncDirs: vi.fn().mockResolvedValue([]),
         convertRulesyncDirsToToolDirs: vi.fn().mockResolvedValue([]),
-        writeAiDirs: vi.fn().mockResolvedValue({ count: 1, paths: [] }),
+        writeAiDirs: vi.fn().mockResolvedValue({ count: 1, paths: [], changes: [] }),
       };
       vi.mocked(SkillsProcessor).mockImplementation(function () {
         return mockSkillsProcessor as unknown as SkillsProcessor;
@@ -712,12 +848,12 @@ describe("generate", () => {
       // Mock processor to return 0 changed files (no diff)
       const mockProcessor = {
         loadToolFiles: vi.fn().mockResolvedValue([]),
-        removeOrphanAiFiles: vi.fn().mockResolvedValue(0),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
         convertRulesyncFilesToToolFiles: vi
           .fn()
           .mockResolvedValue([createMockAiFile("/path/to/file", "content")]),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [] }), // No changes
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }), // No changes
       };
       vi.mocked(RulesProcessor).mockImplementation(function () {
         return mockProcessor as unknown as RulesProcessor;
@@ -736,12 +872,12 @@ describe("generate", () => {
       // Mock processor to return 1 changed file (has diff)
       const mockProcessor = {
         loadToolFiles: vi.fn().mockResolvedValue([]),
-        removeOrphanAiFiles: vi.fn().mockResolvedValue(0),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
         convertRulesyncFilesToToolFiles: vi
           .fn()
           .mockResolvedValue([createMockAiFile("/path/to/file", "content")]),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [] }), // Has changes
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [], changes: [] }), // Has changes
       };
       vi.mocked(RulesProcessor).mockImplementation(function () {
         return mockProcessor as unknown as RulesProcessor;
@@ -760,12 +896,12 @@ describe("generate", () => {
       // Mock processor to return 1 changed file (content differs)
       const mockProcessor = {
         loadToolFiles: vi.fn().mockResolvedValue([]),
-        removeOrphanAiFiles: vi.fn().mockResolvedValue(0),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
         convertRulesyncFilesToToolFiles: vi
           .fn()
           .mockResolvedValue([createMockAiFile("/path/to/file", "new content")]),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [] }), // Has changes (content differs)
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [], changes: [] }), // Has changes (content differs)
       };
       vi.mocked(RulesProcessor).mockImplementation(function () {
         return mockProcessor as unknown as RulesProcessor;
@@ -783,12 +919,12 @@ describe("generate", () => {
       // Mock processor to return 0 changed files (content matches)
       const mockProcessor = {
         loadToolFiles: vi.fn().mockResolvedValue([]),
-        removeOrphanAiFiles: vi.fn().mockResolvedValue(0),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
         convertRulesyncFilesToToolFiles: vi
           .fn()
           .mockResolvedValue([createMockAiFile("/path/to/file", "content")]),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [] }), // No changes (content matches)
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }), // No changes (content matches)
       };
       vi.mocked(RulesProcessor).mockImplementation(function () {
         return mockProcessor as unknown as RulesProcessor;
@@ -806,12 +942,12 @@ describe("generate", () => {
       // Mock processor to return 1 changed file (file doesn't exist)
       const mockProcessor = {
         loadToolFiles: vi.fn().mockResolvedValue([]),
-        removeOrphanAiFiles: vi.fn().mockResolvedValue(0),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
         loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
         convertRulesyncFilesToToolFiles: vi
           .fn()
           .mockResolvedValue([createMockAiFile("/path/to/file", "content")]),
-        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [] }), // Has changes (file doesn't exist)
+        writeAiFiles: vi.fn().mockResolvedValue({ count: 1, paths: [], changes: [] }), // Has changes (file doesn't exist)
       };
       vi.mocked(RulesProcessor).mockImplementation(function () {
         return mockProcessor as unknown as RulesProcessor;
@@ -821,6 +957,75 @@ describe("generate", () => {
 
       expect(result.hasDiff).toBe(true);
     });
+
+    it("should return a unified diff of written and deleted files", async () => {
+      mockConfig.getFeatures.mockReturnValue(["rules"]);
+      mockConfig.getDelete.mockReturnValue(true);
+      mockConfig.isPreviewMode.mockReturnValue(true);
+
+      const mockProcessor = {
+        loadToolFiles: vi.fn().mockResolvedValue([createMockAiFile("/path/to/orphan", "old")]),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({
+          count: 1,
+          paths: ["orphan.md"],
+          changes: [{ path: "orphan.md", oldContent: "old\n", newContent: null }],
+        }),
+        loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
+        convertRulesyncFilesToToolFiles: vi
+          .fn()
+          .mockResolvedValue([createMockAiFile("/path/to/file", "new")]),
+        writeAiFiles: vi.fn().mockResolvedValue({
+          count: 1,
+          paths: ["CLAUDE.md"],
+          changes: [{ path: "CLAUDE.md", oldContent: "old\n", newContent: "new\n" }],
+        }),
+      };
+      vi.mocked(RulesProcessor).mockImplementation(function () {
+        return mockProcessor as unknown as RulesProcessor;
+      });
+
+      const result = await generate({ config: mockConfig as never, diff: true });
+
+      expect(result.diff).toBe(
+        [
+          "--- a/CLAUDE.md",
+          "+++ b/CLAUDE.md",
+          "@@ -1 +1 @@",
+          "-old",
+          "+new",
+          "--- a/orphan.md",
+          "+++ /dev/null",
+          "@@ -1 +0,0 @@",
+          "-old",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("should not format a diff unless requested", async () => {
+      mockConfig.getFeatures.mockReturnValue(["rules"]);
+
+      const mockProcessor = {
+        loadToolFiles: vi.fn().mockResolvedValue([]),
+        removeOrphanAiFiles: vi.fn().mockResolvedValue({ count: 0, paths: [], changes: [] }),
+        loadRulesyncFiles: vi.fn().mockResolvedValue([{ file: "test" }]),
+        convertRulesyncFilesToToolFiles: vi
+          .fn()
+          .mockResolvedValue([createMockAiFile("/path/to/file", "new")]),
+        writeAiFiles: vi.fn().mockResolvedValue({
+          count: 1,
+          paths: ["CLAUDE.md"],
+          changes: [{ path: "CLAUDE.md", oldContent: "old\n", newContent: "new\n" }],
+        }),
+      };
+      vi.mocked(RulesProcessor).mockImplementation(function () {
+        return mockProcessor as unknown as RulesProcessor;
+      });
+
+      const result = await generate({ config: mockConfig as never });
+
+      expect(result.diff).toBeUndefined();
+    });
   });
 
   describe("unsupported target-feature warning", () => {
@@ -17,11 +17,20 @@ import { AiFile } from "../types/ai-file.js";
 import { DirFeatureProcessor } from "../types/dir-feature-processor.js";
 import { FeatureProcessor } from "../types/feature-processor.js";
 import type { Feature } from "../types/features.js";
+import { ALL_FEATURES } from "../types/features.js";
 import type { ToolTarget } from "../types/tool-targets.js";
+import { formatUnifiedDiffs } from "../utils/diff.js";
 import { formatError } from "../utils/error.js";
 import { fileExists } from "../utils/file.js";
 import { logger } from "../utils/logger.js";
-import type { FeatureGenerateResult } from "../utils/result.js";
+import type { FeatureGenerateResult, FileChange } from "../utils/result.js";
+import { GeneratedManifest } from "./generated-manifest.js";
+import { checkCuratedSkillIntegrity } from "./verify.js";
+
+/**
+ * Generated files manifests keyed by base directory.
+ */
+type GeneratedManifests = Map<string, GeneratedManifest>;
 
 export type GenerateResult = {
   rulesCount: number;
@@ -40,75 +49,99 @@ export type GenerateResult = {
   hooksPaths: string[];
   skills: RulesyncSkill[];
   hasDiff: boolean;
+  /**
+   * Unified diff of all written and deleted files, empty when nothing changed.
+   * Only set when requested with `diff: true`.
+   */
+  diff?: string;
+  /**
+   * Paths of files deleted as orphans
+   */
+  deletedPaths: string[];
 };
 
 async function processFeatureGeneration<T extends AiFile>(params: {
   config: Config;
   processor: FeatureProcessor;
   toolFiles: T[];
+  manifest?: GeneratedManifest;
 }): Promise<FeatureGenerateResult> {
-  const { config, processor, toolFiles } = params;
+  const { config, processor, toolFiles, manifest } = params;
 
   let totalCount = 0;
   const allPaths: string[] = [];
+  const allChanges: FileChange[] = [];
   let hasDiff = false;
 
-  const writeResult = await processor.writeAiFiles(toolFiles);
+  const writeResult = await processor.writeAiFiles(toolFiles, manifest);
   totalCount += writeResult.count;
   allPaths.push(...writeResult.paths);
+  allChanges.push(...writeResult.changes);
   if (writeResult.count > 0) hasDiff = true;
 
   if (config.getDelete()) {
     const existingToolFiles = await processor.loadToolFiles({ forDeletion: true });
-    const orphanCount = await processor.removeOrphanAiFiles(existingToolFiles, toolFiles);
-    if (orphanCount > 0) hasDiff = true;
+    const orphanResult = await processor.removeOrphanAiFiles(
+      existingToolFiles,
+      toolFiles,
+      manifest,
+    );
+    allChanges.push(...orphanResult.changes);
+    if (orphanResult.count > 0) hasDiff = true;
   }
 
-  return { count: totalCount, paths: allPaths, hasDiff };
+  return { count: totalCount, paths: allPaths, changes: allChanges, hasDiff };
 }
 
 async function processDirFeatureGeneration(params: {
   config: Config;
   processor: DirFeatureProcessor;
   toolDirs: AiDir[];
+  manifest?: GeneratedManifest;
 }): Promise<FeatureGenerateResult> {
-  const { config, processor, toolDirs } = params;
+  const { config, processor, toolDirs, manifest } = params;
 
   let totalCount = 0;
   const allPaths: string[] = [];
+  const allChanges: FileChange[] = [];
   let hasDiff = false;
 
-  const writeResult = await processor.writeAiDirs(toolDirs);
+  const writeResult = await processor.writeAiDirs(toolDirs, manifest);
   totalCount += writeResult.count;
   allPaths.push(...writeResult.paths);
+  allChanges.push(...writeResult.changes);
   if (writeResult.count > 0) hasDiff = true;
 
   if (config.getDelete()) {
     const existingToolDirs = await processor.loadToolDirsToDelete();
-    const orphanCount = await processor.removeOrphanAiDirs(existingToolDirs, toolDirs);
-    if (orphanCount > 0) hasDiff = true;
+    const orphanResult = await processor.removeOrphanAiDirs(existingToolDirs, toolDirs, manifest);
+    allChanges.push(...orphanResult.changes);
+    if (orphanResult.count > 0) hasDiff = true;
   }
 
-  return { count: totalCount, paths: allPaths, hasDiff };
+  return { count: totalCount, paths: allPaths, changes: allChanges, hasDiff };
 }
 
 // Handle special case for empty rulesync files
 async function processEmptyFeatureGeneration(params: {
   config: Config;
   processor: FeatureProcessor;
+  manifest?: GeneratedManifest;
 }): Promise<FeatureGenerateResult> {
-  const { config, processor } = params;
+  const { config, processor, manifest } = params;
 
   const totalCount = 0;
+  const allChanges: FileChange[] = [];
   let hasDiff = false;
 
   if (config.getDelete()) {
     const existingToolFiles = await processor.loadToolFiles({ forDeletion: true });
-    const orphanCount = await processor.removeOrphanAiFiles(existingToolFiles, []);
-    if (orphanCount > 0) hasDiff = true;
+    const orphanResult = await processor.removeOrphanAiFiles(existingToolFiles, [], manifest);
+    allChanges.push(...orphanResult.changes);
+    if (orphanResult.count > 0) hasDiff = true;
   }
 
-  return { count: totalCount, paths: [], hasDiff };
+  return { count: totalCount, paths: [], changes: allChanges, hasDiff };
 }
 
 function warnUnsupportedTargets(params: {
@@ -131,20 +164,64 @@ export async function checkRulesyncDirExists(params: { baseDir: string }): Promi
   return fileExists(join(params.baseDir, RULESYNC_RELATIVE_DIR_PATH));
 }
 
+const EMPTY_FEATURE_RESULT: FeatureGenerateResult = {
+  count: 0,
+  paths: [],
+  changes: [],
+  hasDiff: false,
+};
+
 /**
  * Generate configuration files for AI tools.
- * @throws Error if generation fails
+ * @param params.features - Limit generation to these features (all by default)
+ * @param params.skills - Skills passed to the rules generation when the skills feature is not generated
+ * @param params.diff - Include a unified diff of the changes in the result
+ * @throws Error if generation fails, or if a curated skill was modified and `integrityCheck` is "fail"
  */
-export async function generate(params: { config: Config }): Promise<GenerateResult> {
-  const { config } = params;
+export async function generate(params: {
+  config: Config;
+  features?: Feature[];
+  skills?: RulesyncSkill[];
+  diff?: boolean;
+}): Promise<GenerateResult> {
+  const { config, features = [...ALL_FEATURES], skills = [], diff = false } = params;
 
-  const ignoreResult = await generateIgnoreCore({ config });
-  const mcpResult = await generateMcpCore({ config });
-  const commandsResult = await generateCommandsCore({ config });
-  const subagentsResult = await generateSubagentsCore({ config });
-  const skillsResult = await generateSkillsCore({ config });
-  const hooksResult = await generateHooksCore({ config });
-  const rulesResult = await generateRulesCore({ config, skills: skillsResult.skills });
+  if (features.includes("skills") && config.getFeatures().includes("skills")) {
+    await checkCuratedSkillIntegrity({ mode: config.getIntegrityCheck() });
+  }
+
+  const manifests: GeneratedManifests = new Map();
+  for (const baseDir of config.getBaseDirs()) {
+    manifests.set(baseDir, await GeneratedManifest.load({ baseDir }));
+  }
+
+  const ignoreResult = features.includes("ignore")
+    ? await generateIgnoreCore({ config, manifests })
+    : EMPTY_FEATURE_RESULT;
+  const mcpResult = features.includes("mcp")
+    ? await generateMcpCore({ config, manifests })
+    : EMPTY_FEATURE_RESULT;
+  const commandsResult = features.includes("commands")
+    ? await generateCommandsCore({ config, manifests })
+    : EMPTY_FEATURE_RESULT;
+  const subagentsResult = features.includes("subagents")
+    ? await generateSubagentsCore({ config, manifests })
+    : EMPTY_FEATURE_RESULT;
+  const skillsResult = features.includes("skills")
+    ? await generateSkillsCore({ config, manifests })
+    : { ...EMPTY_FEATURE_RESULT, skills };
+  const hooksResult = features.includes("hooks")
+    ? await generateHooksCore({ config, manifests })
+    : EMPTY_FEATURE_RESULT;
+  const rulesResult = features.includes("rules")
+    ? await generateRulesCore({ config, manifests, skills: skillsResult.skills })
+    : EMPTY_FEATURE_RESULT;
+
+  if (!config.isPreviewMode()) {
+    for (const manifest of manifests.values()) {
+      await manifest.save();
+    }
+  }
 
   const hasDiff =
     ignoreResult.hasDiff ||
@@ -155,6 +232,16 @@ export async function generate(params: { config: Config }): Promise<GenerateResu
     hooksResult.hasDiff ||
     rulesResult.hasDiff;
 
+  const changes = [
+    ...ignoreResult.changes,
+    ...mcpResult.changes,
+    ...commandsResult.changes,
+    ...subagentsResult.changes,
+    ...skillsResult.changes,
+    ...hooksResult.changes,
+    ...rulesResult.changes,
+  ];
+
   return {
     rulesCount: rulesResult.count,
     rulesPaths: rulesResult.paths,
@@ -172,17 +259,23 @@ export async function generate(params: { config: Config }): Promise<GenerateResu
     hooksPaths: hooksResult.paths,
     skills: skillsResult.skills,
     hasDiff,
+    ...(diff && { diff: formatUnifiedDiffs(changes) }),
+    deletedPaths: changes
+      .filter((change) => change.newContent === null)
+      .map((change) => change.path),
   };
 }
 
 async function generateRulesCore(params: {
   config: Config;
+  manifests: GeneratedManifests;
   skills?: RulesyncSkill[];
 }): Promise<FeatureGenerateResult> {
-  const { config, skills } = params;
+  const { config, manifests, skills } = params;
 
   let totalCount = 0;
   const allPaths: string[] = [];
+  const allChanges: FileChange[] = [];
   let hasDiff = false;
 
   const supportedTargets = RulesProcessor.getToolTargets({ global: config.getGlobal() });
@@ -200,6 +293,7 @@ async function generateRulesCore(params: {
         baseDir: baseDir,
         toolTarget: toolTarget,
         global: config.getGlobal(),
+        templateVars: config.getVars(),
         simulateCommands: config.getSimulateCommands(),
         simulateSubagents: config.getSimulateSubagents(),
         simulateSkills: config.getSimulateSkills(),
@@ -212,21 +306,26 @@ async function generateRulesCore(params: {
 
       const result = await processFeatureGeneration({
         config,
+        manifest: manifests.get(baseDir),
         processor,
         toolFiles,
       });
 
       totalCount += result.count;
       allPaths.push(...result.paths);
+      allChanges.push(...result.changes);
       if (result.hasDiff) hasDiff = true;
     }
   }
 
-  return { count: totalCount, paths: allPaths, hasDiff };
+  return { count: totalCount, paths: allPaths, changes: allChanges, hasDiff };
 }
 
-async function generateIgnoreCore(params: { config: Config }): Promise<FeatureGenerateResult> {
-  const { config } = params;
+async function generateIgnoreCore(params: {
+  config: Config;
+  manifests: GeneratedManifests;
+}): Promise<FeatureGenerateResult> {
+  const { config, manifests } = params;
 
   const supportedIgnoreTargets = IgnoreProcessor.getToolTargets();
   warnUnsupportedTargets({
@@ -236,11 +335,12 @@ async function generateIgnoreCore(params: { config: Config }): Promise<FeatureGe
   });
 
   if (config.getGlobal()) {
-    return { count: 0, paths: [], hasDiff: false };
+    return { count: 0, paths: [], changes: [], hasDiff: false };
   }
 
   let totalCount = 0;
   const allPaths: string[] = [];
+  const allChanges: FileChange[] = [];
   let hasDiff = false;
 
   for (const toolTarget of intersection(config.getTargets(), supportedIgnoreTargets)) {
@@ -264,18 +364,21 @@ async function generateIgnoreCore(params: { config: Config }): Promise<FeatureGe
           const toolFiles = await processor.convertRulesyncFilesToToolFiles(rulesyncFiles);
           result = await processFeatureGeneration({
             config,
+            manifest: manifests.get(baseDir),
             processor,
             toolFiles,
           });
         } else {
           result = await processEmptyFeatureGeneration({
             config,
+            manifest: manifests.get(baseDir),
             processor,
           });
         }
 
         totalCount += result.count;
         allPaths.push(...result.paths);
+        allChanges.push(...result.changes);
         if (result.hasDiff) hasDiff = true;
       } catch (error) {
         logger.warn(
@@ -286,14 +389,18 @@ async function generateIgnoreCore(params: { config: Config }): Promise<FeatureGe
     }
   }
 
-  return { count: totalCount, paths: allPaths, hasDiff };
+  return { count: totalCount, paths: allPaths, changes: allChanges, hasDiff };
 }
 
-async function generateMcpCore(params: { config: Config }): Promise<FeatureGenerateResult> {
-  const { config } = params;
+async function generateMcpCore(params: {
+  config: Config;
+  manifests: GeneratedManifests;
+}): Promise<FeatureGenerateResult> {
+  const { config, manifests } = params;
 
   let totalCount = 0;
   const allPaths: string[] = [];
+  const allChanges: FileChange[] = [];
   let hasDiff = false;
 
   const supportedMcpTargets = McpProcessor.getToolTargets({ global: config.getGlobal() });
@@ -312,6 +419,9 @@ async function generateMcpCore(params: { config: Config }): Promise<FeatureGener
         toolTarget: toolTarget,
         global: config.getGlobal(),
         dryRun: config.isPreviewMode(),
+        resolveEnv: config.getResolveMcpEnv(),
+        merge: config.getMergeMcp(),
+        manifest: manifests.get(baseDir),
       });
 
       const rulesyncFiles = await processor.loadRulesyncFiles();
@@ -319,24 +429,30 @@ async function generateMcpCore(params: { config: Config }): Promise<FeatureGener
 
       const result = await processFeatureGeneration({
         config,
+        manifest: manifests.get(baseDir),
         processor,
         toolFiles,
       });
 
       totalCount += result.count;
       allPaths.push(...result.paths);
+      allChanges.push(...result.changes);
       if (result.hasDiff) hasDiff = true;
     }
   }
 
-  return { count: totalCount, paths: allPaths, hasDiff };
+  return { count: totalCount, paths: allPaths, changes: allChanges, hasDiff };
 }
 
-async function generateCommandsCore(params: { config: Config }): Promise<FeatureGenerateResult> {
-  const { config } = params;
+async function generateCommandsCore(params: {
+  config: Config;
+  manifests: GeneratedManifests;
+}): Promise<FeatureGenerateResult> {
+  const { config, manifests } = params;
 
   let totalCount = 0;
   const allPaths: string[] = [];
+  const allChanges: FileChange[] = [];
   let hasDiff = false;
 
   const supportedCommandsTargets = CommandsProcessor.getToolTargets({
@@ -361,6 +477,7 @@ async function generateCommandsCore(params: { config: Config }): Promise<Feature
         baseDir: baseDir,
         toolTarget: toolTarget,
         global: config.getGlobal(),
+        templateVars: config.getVars(),
         dryRun: config.isPreviewMode(),
       });
 
@@ -369,24 +486,30 @@ async function generateCommandsCore(params: { config: Config }): Promise<Feature
 
       const result = await processFeatureGeneration({
         config,
+        manifest: manifests.get(baseDir),
         processor,
         toolFiles,
       });
 
       totalCount += result.count;
       allPaths.push(...result.paths);
+      allChanges.push(...result.changes);
       if (result.hasDiff) hasDiff = true;
     }
   }
 
-  return { count: totalCount, paths: allPaths, hasDiff };
+  return { count: totalCount, paths: allPaths, changes: allChanges, hasDiff };
 }
 
-async function generateSubagentsCore(params: { config: Config }): Promise<FeatureGenerateResult> {
-  const { config } = params;
+async function generateSubagentsCore(params: {
+  config: Config;
+  manifests: GeneratedManifests;
+}): Promise<FeatureGenerateResult> {
+  const { config, manifests } = params;
 
   let totalCount = 0;
   const allPaths: string[] = [];
+  const allChanges: FileChange[] = [];
   let hasDiff = false;
 
   const supportedSubagentsTargets = SubagentsProcessor.getToolTargets({
@@ -419,26 +542,30 @@ async function generateSubagentsCore(params: { config: Config }): Promise<Featur
 
       const result = await processFeatureGeneration({
         config,
+        manifest: manifests.get(baseDir),
         processor,
         toolFiles,
       });
 
       totalCount += result.count;
       allPaths.push(...result.paths);
+      allChanges.push(...result.changes);
       if (result.hasDiff) hasDiff = true;
     }
   }
 
-  return { count: totalCount, paths: allPaths, hasDiff };
+  return { count: totalCount, paths: allPaths, changes: allChanges, hasDiff };
 }
 
 async function generateSkillsCore(params: {
   config: Config;
+  manifests: GeneratedManifests;
 }): Promise<FeatureGenerateResult & { skills: RulesyncSkill[] }> {
-  const { config } = params;
+  const { config, manifests } = params;
 
   let totalCount = 0;
   const allPaths: string[] = [];
+  const allChanges: FileChange[] = [];
   let hasDiff = false;
   const allSkills: RulesyncSkill[] = [];
 
@@ -464,6 +591,7 @@ async function generateSkillsCore(params: {
         baseDir: baseDir,
         toolTarget: toolTarget,
         global: config.getGlobal(),
+        templateVars: config.getVars(),
         dryRun: config.isPreviewMode(),
       });
 
@@ -479,24 +607,30 @@ async function generateSkillsCore(params: {
 
       const result = await processDirFeatureGeneration({
         config,
+        manifest: manifests.get(baseDir),
         processor,
         toolDirs,
       });
 
       totalCount += result.count;
       allPaths.push(...result.paths);
+      allChanges.push(...result.changes);
       if (result.hasDiff) hasDiff = true;
     }
   }
 
-  return { count: totalCount, paths: allPaths, skills: allSkills, hasDiff };
+  return { count: totalCount, paths: allPaths, changes: allChanges, skills: allSkills, hasDiff };
 }
 
-async function generateHooksCore(params: { config: Config }): Promise<FeatureGenerateResult> {
-  const { config } = params;
+async function generateHooksCore(params: {
+  config: Config;
+  manifests: GeneratedManifests;
+}): Promise<FeatureGenerateResult> {
+  const { config, manifests } = params;
 
   let totalCount = 0;
   const allPaths: string[] = [];
+  const allChanges: FileChange[] = [];
   let hasDiff = false;
 
   const supportedHooksTargets = HooksProcessor.getToolTargets({ global: config.getGlobal() });
@@ -523,12 +657,14 @@ async function generateHooksCore(params: { config: Config }): Promise<FeatureGen
       if (rulesyncFiles.length === 0) {
         result = await processEmptyFeatureGeneration({
           config,
+          manifest: manifests.get(baseDir),
           processor,
         });
       } else {
         const toolFiles = await processor.convertRulesyncFilesToToolFiles(rulesyncFiles);
         result = await processFeatureGeneration({
           config,
+          manifest: manifests.get(baseDir),
           processor,
           toolFiles,
         });
@@ -536,9 +672,10 @@ async function generateHooksCore(params: { config: Config }): Promise<FeatureGen
 
       totalCount += result.count;
       allPaths.push(...result.paths);
+      allChanges.push(...result.changes);
       if (result.hasDiff) hasDiff = true;
     }
   }
 
-  return { count: totalCount, paths: allPaths, hasDiff };
+  return { count: totalCount, paths: allPaths, changes: allChanges, hasDiff };
 }
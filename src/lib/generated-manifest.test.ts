@@ -0,0 +1,219 @@
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { RULESYNC_GENERATED_MANIFEST_RELATIVE_FILE_PATH } from "../constants/rulesync-paths.js";
+import { setupTestDirectory } from "../test-utils/test-directories.js";
+import { fileExists, readFileContent, writeFileContent } from "../utils/file.js";
+import {
+  GENERATED_MANIFEST_VERSION,
+  GeneratedManifest,
+  computeContentHash,
+} from "./generated-manifest.js";
+
+vi.mock("../utils/logger.js", () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    success: vi.fn(),
+  },
+}));
+
+const { logger } = await vi.importMock<typeof import("../utils/logger.js")>("../utils/logger.js");
+
+describe("generated-manifest", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+    vi.spyOn(process, "cwd").mockReturnValue(testDir);
+  });
+
+  afterEach(async () => {
+    await cleanup();
+    vi.clearAllMocks();
+  });
+
+  describe("computeContentHash", () => {
+    it("should return a prefixed sha256 hash", () => {
+      expect(computeContentHash("content\n")).toMatch(/^sha256-[0-9a-f]{64}$/);
+    });
+
+    it("should differ for different content", () => {
+      expect(computeContentHash("a")).not.toBe(computeContentHash("b"));
+    });
+  });
+
+  describe("load", () => {
+    it("should return an empty manifest when the file does not exist", async () => {
+      const manifest = await GeneratedManifest.load({ baseDir: testDir });
+
+      expect(manifest.getFiles()).toEqual({});
+    });
+
+    it("should read entries from an existing manifest", async () => {
+      await writeFileContent(
+        join(testDir, RULESYNC_GENERATED_MANIFEST_RELATIVE_FILE_PATH),
+        JSON.stringify({ version: 1, files: { "CLAUDE.md": { hash: "sha256-abc" } } }),
+      );
+
+      const manifest = await GeneratedManifest.load({ baseDir: testDir });
+
+      expect(manifest.getFiles()).toEqual({ "CLAUDE.md": { hash: "sha256-abc" } });
+      expect(manifest.isGenerated(join(testDir, "CLAUDE.md"))).toBe(true);
+    });
+
+    it("should warn and start fresh when the manifest is invalid", async () => {
+      await writeFileContent(
+        join(testDir, RULESYNC_GENERATED_MANIFEST_RELATIVE_FILE_PATH),
+        JSON.stringify({ files: [] }),
+      );
+
+      const manifest = await GeneratedManifest.load({ baseDir: testDir });
+
+      expect(manifest.getFiles()).toEqual({});
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining("Invalid generated files manifest format"),
+      );
+    });
+
+    it("should warn and start fresh when the manifest is not valid JSON", async () => {
+      await writeFileContent(join(testDir, RULESYNC_GENERATED_MANIFEST_RELATIVE_FILE_PATH), "{");
+
+      const manifest = await GeneratedManifest.load({ baseDir: testDir });
+
+      expect(manifest.getFiles()).toEqual({});
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining("Failed to read generated files manifest"),
+      );
+    });
+  });
+
+  describe("record, isGenerated and isModified", () => {
+    it("should track recorded files by path relative to the base directory", () => {
+      const manifest = new GeneratedManifest({ baseDir: testDir });
+      const filePath = join(testDir, ".claude", "rules", "a.md");
+
+      manifest.record({ filePath, content: "a\n" });
+
+      expect(manifest.getFiles()).toEqual({
+        ".claude/rules/a.md": { hash: computeContentHash("a\n") },
+      });
+      expect(manifest.isGenerated(filePath)).toBe(true);
+      expect(manifest.isGenerated(join(testDir, "other.md"))).toBe(false);
+    });
+
+    it("should resolve relative paths against the current directory", () => {
+      const manifest = new GeneratedManifest({ baseDir: testDir });
+
+      manifest.record({ filePath: ".cursorignore", content: "a\n" });
+
+      expect(manifest.isGenerated(join(testDir, ".cursorignore"))).toBe(true);
+    });
+
+    it("should detect content that differs from the recorded hash", () => {
+      const manifest = new GeneratedManifest({ baseDir: testDir });
+      const filePath = join(testDir, "CLAUDE.md");
+      manifest.record({ filePath, content: "generated\n" });
+
+      expect(manifest.isModified({ filePath, content: "generated\n" })).toBe(false);
+      expect(manifest.isModified({ filePath, content: "edited\n" })).toBe(true);
+    });
+
+    it("should not report files that were never generated as modified", () => {
+      const manifest = new GeneratedManifest({ baseDir: testDir });
+
+      expect(manifest.isModified({ filePath: join(testDir, "a.md"), content: "a" })).toBe(false);
+    });
+
+    it("should remove forgotten files", () => {
+      const manifest = new GeneratedManifest({ baseDir: testDir });
+      const filePath = join(testDir, "CLAUDE.md");
+      manifest.record({ filePath, content: "a\n" });
+
+      manifest.forget(filePath);
+
+      expect(manifest.isGenerated(filePath)).toBe(false);
+    });
+  });
+
+  describe("recordMcpServerNames and getMcpServerNames", () => {
+    it("should keep the server names of a file when its content is recorded", () => {
+      const manifest = new GeneratedManifest({ baseDir: testDir });
+      const filePath = join(testDir, ".vscode", "mcp.json");
+
+      manifest.recordMcpServerNames({ filePath, serverNames: ["github", "context7"] });
+      manifest.record({ filePath, content: "{}\n" });
+
+      expect(manifest.getMcpServerNames(filePath)).toEqual(["context7", "github"]);
+      expect(manifest.getFiles()).toEqual({
+        ".vscode/mcp.json": {
+          hash: computeContentHash("{}\n"),
+          mcpServers: ["context7", "github"],
+        },
+      });
+    });
+
+    it("should return no server names for files without recorded servers", () => {
+      const manifest = new GeneratedManifest({ baseDir: testDir });
+      const filePath = join(testDir, ".vscode", "mcp.json");
+      manifest.record({ filePath, content: "{}\n" });
+
+      expect(manifest.getMcpServerNames(filePath)).toEqual([]);
+      expect(manifest.getMcpServerNames(join(testDir, ".cursor", "mcp.json"))).toEqual([]);
+    });
+
+    it("should not write when the same server names are recorded again", async () => {
+      const filePath = join(testDir, ".vscode", "mcp.json");
+      const manifest = new GeneratedManifest({
+        baseDir: testDir,
+        files: { ".vscode/mcp.json": { hash: "sha256-a", mcpServers: ["github"] } },
+      });
+
+      manifest.recordMcpServerNames({ filePath, serverNames: ["github"] });
+      await manifest.save();
+
+      expect(await fileExists(join(testDir, RULESYNC_GENERATED_MANIFEST_RELATIVE_FILE_PATH))).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("save", () => {
+    it("should write sorted entries to .rulesync/.generated.json", async () => {
+      const manifest = new GeneratedManifest({ baseDir: testDir });
+      manifest.record({ filePath: join(testDir, "b.md"), content: "b\n" });
+      manifest.record({ filePath: join(testDir, "a.md"), content: "a\n" });
+
+      await manifest.save();
+
+      const content = await readFileContent(
+        join(testDir, RULESYNC_GENERATED_MANIFEST_RELATIVE_FILE_PATH),
+      );
+      const parsed = JSON.parse(content);
+      expect(parsed.version).toBe(GENERATED_MANIFEST_VERSION);
+      expect(Object.keys(parsed.files)).toEqual(["a.md", "b.md"]);
+      expect(content.endsWith("\n")).toBe(true);
+
+      const reloaded = await GeneratedManifest.load({ baseDir: testDir });
+      expect(reloaded.getFiles()).toEqual(manifest.getFiles());
+    });
+
+    it("should not write when nothing changed since loading", async () => {
+      const manifest = new GeneratedManifest({
+        baseDir: testDir,
+        files: { "a.md": { hash: computeContentHash("a\n") } },
+      });
+      manifest.record({ filePath: join(testDir, "a.md"), content: "a\n" });
+
+      await manifest.save();
+
+      expect(await fileExists(join(testDir, RULESYNC_GENERATED_MANIFEST_RELATIVE_FILE_PATH))).toBe(
+        false,
+      );
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { createHash } from "node:crypto";
+import { join, relative, resolve } from "node:path";
+
+import { z } from "zod/mini";
+
+import { RULESYNC_GENERATED_MANIFEST_RELATIVE_FILE_PATH } from "../constants/rulesync-paths.js";
+import { fileExists, readFileContent, writeFileContent } from "../utils/file.js";
+import { logger } from "../utils/logger.js";
+
+/** Current manifest format version. Bump when the schema changes. */
+export const GENERATED_MANIFEST_VERSION = 1;
+
+/**
+ * Schema for a single generated file entry.
+ */
+export const GeneratedFileEntrySchema = z.object({
+  hash: z.string(),
+  /** Names of the MCP servers rulesync wrote into a tool MCP file it merges into. */
+  mcpServers: z.optional(z.array(z.string())),
+});
+export type GeneratedFileEntry = z.infer<typeof GeneratedFileEntrySchema>;
+
+/**
+ * Schema for the manifest file (`.rulesync/.generated.json`).
+ * Keys of `files` are paths relative to the base directory, using forward slashes.
+ */
+export const GeneratedManifestFileSchema = z.object({
+  version: z.number(),
+  files: z.record(z.string(), GeneratedFileEntrySchema),
+});
+export type GeneratedManifestFile = z.infer<typeof GeneratedManifestFileSchema>;
+
+/**
+ * Compute a SHA-256 hash of generated file content.
+ */
+export function computeContentHash(content: string): string {
+  return `sha256-${createHash("sha256").update(content).digest("hex")}`;
+}
+
+/**
+ * Record of every file rulesync has generated in a base directory, with content hashes.
+ * Used to delete only files rulesync owns and to detect generated files edited by hand.
+ */
+export class GeneratedManifest {
+  private readonly baseDir: string;
+  private readonly files: Record<string, GeneratedFileEntry>;
+  private dirty = false;
+
+  constructor({
+    baseDir = process.cwd(),
+    files = {},
+  }: {
+    baseDir?: string;
+    files?: Record<string, GeneratedFileEntry>;
+  }) {
+    this.baseDir = resolve(baseDir);
+    this.files = { ...files };
+  }
+
+  /**
+   * Load the manifest of a base directory.
+   * @returns The parsed manifest, or an empty manifest if it doesn't exist or is invalid.
+   */
+  static async load({ baseDir = process.cwd() }: { baseDir?: string }): Promise<GeneratedManifest> {
+    const manifestPath = join(baseDir, RULESYNC_GENERATED_MANIFEST_RELATIVE_FILE_PATH);
+
+    if (!(await fileExists(manifestPath))) {
+      logger.debug("No generated files manifest found, starting fresh.");
+      return new GeneratedManifest({ baseDir });
+    }
+
+    try {
+      const content = await readFileContent(manifestPath);
+      const result = GeneratedManifestFileSchema.safeParse(JSON.parse(content));
+      if (result.success) {
+        return new GeneratedManifest({ baseDir, files: result.data.files });
+      }
+      logger.warn(
+        `Invalid generated files manifest format (${RULESYNC_GENERATED_MANIFEST_RELATIVE_FILE_PATH}). Starting fresh.`,
+      );
+    } catch {
+      logger.warn(
+        `Failed to read generated files manifest (${RULESYNC_GENERATED_MANIFEST_RELATIVE_FILE_PATH}). Starting fresh.`,
+      );
+    }
+    return new GeneratedManifest({ baseDir });
+  }
+
+  /**
+   * Write the manifest to disk. Does nothing when no entry was added or removed since loading.
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+    const manifestPath = join(this.baseDir, RULESYNC_GENERATED_MANIFEST_RELATIVE_FILE_PATH);
+    const files = Object.fromEntries(
+      Object.entries(this.files).toSorted(([a], [b]) => a.localeCompare(b)),
+    );
+    const manifest: GeneratedManifestFile = { version: GENERATED_MANIFEST_VERSION, files };
+    await writeFileContent(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+    this.dirty = false;
+    logger.debug(`Wrote generated files manifest to ${manifestPath}`);
+  }
+
+  /**
+   * Whether the file at the given path was generated by rulesync.
+   */
+  isGenerated(filePath: string): boolean {
+    return this.toKey(filePath) in this.files;
+  }
+
+  /**
+   * Whether a generated file's current content differs from what rulesync last wrote,
+   * i.e. it was edited by hand. Returns false for files that were not generated.
+   */
+  isModified({ filePath, content }: { filePath: string; content: string }): boolean {
+    const entry = this.files[this.toKey(filePath)];
+    return entry !== undefined && entry.hash !== computeContentHash(content);
+  }
+
+  /**
+   * Record a file as generated with the given content.
+   */
+  record({ filePath, content }: { filePath: string; content: string }): void {
+    const key = this.toKey(filePath);
+    const hash = computeContentHash(content);
+    if (this.files[key]?.hash === hash) {
+      return;
+    }
+    this.files[key] = { ...this.files[key], hash };
+    this.dirty = true;
+  }
+
+  /**
+   * The names of the MCP servers rulesync wrote into a merged tool MCP file, which it may
+   * replace or remove. Returns an empty list for files without recorded servers.
+   */
+  getMcpServerNames(filePath: string): string[] {
+    return this.files[this.toKey(filePath)]?.mcpServers ?? [];
+  }
+
+  /**
+   * Record the names of the MCP servers rulesync writes into a merged tool MCP file.
+   * The file itself is recorded by `record` when it is written.
+   */
+  recordMcpServerNames({
+    filePath,
+    serverNames,
+  }: {
+    filePath: string;
+    serverNames: string[];
+  }): void {
+    const key = this.toKey(filePath);
+    const mcpServers = serverNames.toSorted();
+    const entry = this.files[key];
+    if (entry?.mcpServers?.join("\0") === mcpServers.join("\0")) {
+      return;
+    }
+    this.files[key] = { hash: entry?.hash ?? "", mcpServers };
+    this.dirty = true;
+  }
+
+  /**
+   * Remove a file from the manifest after it was deleted.
+   */
+  forget(filePath: string): void {
+    const key = this.toKey(filePath);
+    if (!(key in this.files)) {
+      return;
+    }
+    delete this.files[key];
+    this.dirty = true;
+  }
+
+  getFiles(): Record<string, GeneratedFileEntry> {
+    return { ...this.files };
+  }
+
+  private toKey(filePath: string): string {
+    return relative(this.baseDir, resolve(filePath)).replaceAll("\\", "/");
+  }
+}
@@ -8,10 +8,12 @@ vi.mock("../utils/file.js", () => ({
   createTempDirectory: vi.fn(),
   removeTempDirectory: vi.fn(),
   directoryExists: vi.fn(),
+  fileExists: vi.fn(),
   isSymlink: vi.fn().mockResolvedValue(false),
   listDirectoryFiles: vi.fn(),
   getFileSize: vi.fn(),
   readFileContent: vi.fn(),
+  writeFileContent: vi.fn(),
 }));
 vi.mock("../utils/logger.js", () => ({
   logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
@@ -20,26 +22,39 @@ vi.mock("../utils/logger.js", () => ({
 import {
   createTempDirectory,
   directoryExists,
+  fileExists,
   getFileSize,
   isSymlink,
   listDirectoryFiles,
   readFileContent,
   removeTempDirectory,
+  writeFileContent,
 } from "../utils/file.js";
 import { logger } from "../utils/logger.js";
 import {
   GitClientError,
+  SignatureVerificationError,
   checkGitAvailable,
+  fetchFileAtCommit,
+  fetchRepoFiles,
   fetchSkillFiles,
+  listRemoteTags,
   resetGitCheck,
   resolveDefaultRef,
   resolveRefToSha,
   validateGitUrl,
   validateRef,
+  verifyRefSignature,
 } from "./git-client.js";
 
 const SHA = "a".repeat(40);
 
+// `git rev-parse FETCH_HEAD` reports the requested commit; other git commands print nothing
+const gitCommandOutput = async (_command: string, args: string[]) => ({
+  stdout: args.includes("rev-parse") ? `${SHA}\n` : "",
+  stderr: "",
+});
+
 describe("git-client", () => {
   afterEach(() => {
     vi.clearAllMocks();
@@ -172,9 +187,27 @@ describe("git-client", () => {
     });
   });
 
+  describe("listRemoteTags", () => {
+    it("returns tags with annotated tags resolved to their commit", async () => {
+      const TAG_OBJECT_SHA = "b".repeat(40);
+      mockExecFileAsync.mockResolvedValue({
+        stdout: [
+          `${SHA}\trefs/tags/v1.0.0`,
+          `${TAG_OBJECT_SHA}\trefs/tags/v1.1.0`,
+          `${SHA}\trefs/tags/v1.1.0^{}`,
+          "",
+        ].join("\n"),
+      });
+      expect(await listRemoteTags("https://example.com/repo.git")).toEqual([
+        { name: "v1.0.0", sha: SHA },
+        { name: "v1.1.0", sha: SHA },
+      ]);
+    });
+  });
+
   describe("fetchSkillFiles", () => {
     it("clones, walks, and returns files", async () => {
-      mockExecFileAsync.mockResolvedValue({ stdout: "", stderr: "" });
+      mockExecFileAsync.mockImplementation(gitCommandOutput);
       vi.mocked(createTempDirectory).mockResolvedValue("/tmp/test");
       vi.mocked(removeTempDirectory).mockResolvedValue(undefined);
       vi.mocked(directoryExists).mockImplementation(
@@ -190,15 +223,72 @@ describe("git-client", () => {
 
       const files = await fetchSkillFiles({
         url: "https://example.com/repo.git",
-        ref: "main",
+        sha: SHA,
         skillsPath: "skills",
       });
       expect(files).toEqual([{ relativePath: "skill-a/file.md", content: "# Content", size: 100 }]);
       expect(removeTempDirectory).toHaveBeenCalledWith("/tmp/test");
     });
 
+    it("fetches the resolved commit instead of cloning a branch", async () => {
+      mockExecFileAsync.mockImplementation(gitCommandOutput);
+      vi.mocked(createTempDirectory).mockResolvedValue("/tmp/test");
+      vi.mocked(removeTempDirectory).mockResolvedValue(undefined);
+      vi.mocked(directoryExists).mockResolvedValue(false);
+
+      await fetchSkillFiles({
+        url: "https://example.com/repo.git",
+        sha: SHA,
+        skillsPath: "skills",
+      });
+
+      expect(mockExecFileAsync).toHaveBeenCalledWith(
+        "git",
+        [
+          "-C",
+          "/tmp/test",
+          "fetch",
+          "--depth",
+          "1",
+          "--filter=blob:none",
+          "--",
+          "https://example.com/repo.git",
+          SHA,
+        ],
+        expect.anything(),
+      );
+      expect(mockExecFileAsync).toHaveBeenCalledWith(
+        "git",
+        ["-C", "/tmp/test", "checkout", "--quiet", "FETCH_HEAD^{commit}"],
+        expect.anything(),
+      );
+      expect(mockExecFileAsync.mock.calls.some((c: any[]) => c[1]?.includes("clone"))).toBe(false);
+    });
+
+    it("fails when the fetched object is not the requested SHA", async () => {
+      mockExecFileAsync.mockImplementation(async (_command: string, args: string[]) => ({
+        stdout: args.includes("rev-parse") ? "b".repeat(40) : "",
+        stderr: "",
+      }));
+      vi.mocked(createTempDirectory).mockResolvedValue("/tmp/test");
+      vi.mocked(removeTempDirectory).mockResolvedValue(undefined);
+
+      await expect(
+        fetchSkillFiles({
+          url: "https://example.com/repo.git",
+          sha: SHA,
+          skillsPath: "skills",
+        }),
+      ).rejects.toThrow(
+        `Fetched ${"b".repeat(40)} from https://example.com/repo.git instead of ${SHA}`,
+      );
+      expect(mockExecFileAsync.mock.calls.some((c: any[]) => c[1]?.includes("checkout"))).toBe(
+        false,
+      );
+    });
+
     it("returns empty when skills dir missing", async () => {
-      mockExecFileAsync.mockResolvedValue({ stdout: "" });
+      mockExecFileAsync.mockImplementation(gitCommandOutput);
       vi.mocked(createTempDirectory).mockResolvedValue("/tmp/test");
       vi.mocked(removeTempDirectory).mockResolvedValue(undefined);
       vi.mocked(directoryExists).mockResolvedValue(false);
@@ -206,21 +296,21 @@ describe("git-client", () => {
       expect(
         await fetchSkillFiles({
           url: "https://example.com/repo.git",
-          ref: "main",
+          sha: SHA,
           skillsPath: "skills",
         }),
       ).toEqual([]);
     });
 
     it("passes -- separator before skillsPath in sparse-checkout", async () => {
-      mockExecFileAsync.mockResolvedValue({ stdout: "", stderr: "" });
+      mockExecFileAsync.mockImplementation(gitCommandOutput);
       vi.mocked(createTempDirectory).mockResolvedValue("/tmp/test");
       vi.mocked(removeTempDirectory).mockResolvedValue(undefined);
       vi.mocked(directoryExists).mockResolvedValue(false);
 
       await fetchSkillFiles({
         url: "https://example.com/repo.git",
-        ref: "main",
+        sha: SHA,
         skillsPath: "skills",
       });
 
@@ -239,7 +329,7 @@ describe("git-client", () => {
       await expect(
         fetchSkillFiles({
           url: "https://example.com/repo.git",
-          ref: "main",
+          sha: SHA,
           skillsPath: "skills",
         }),
       ).rejects.toThrow(GitClientError);
@@ -247,7 +337,7 @@ describe("git-client", () => {
     });
 
     it("skips .git directories", async () => {
-      mockExecFileAsync.mockResolvedValue({ stdout: "", stderr: "" });
+      mockExecFileAsync.mockImplementation(gitCommandOutput);
       vi.mocked(createTempDirectory).mockResolvedValue("/tmp/test");
       vi.mocked(removeTempDirectory).mockResolvedValue(undefined);
       vi.mocked(directoryExists).mockImplementation(async (p: string) => p.endsWith("skills"));
@@ -257,7 +347,7 @@ describe("git-client", () => {
 
       const files = await fetchSkillFiles({
         url: "https://example.com/repo.git",
-        ref: "main",
+        sha: SHA,
         skillsPath: "skills",
       });
       expect(files).toHaveLength(1);
@@ -265,7 +355,7 @@ describe("git-client", () => {
     });
 
     it("skips symlinks and warns", async () => {
-      mockExecFileAsync.mockResolvedValue({ stdout: "", stderr: "" });
+      mockExecFileAsync.mockImplementation(gitCommandOutput);
       vi.mocked(createTempDirectory).mockResolvedValue("/tmp/test");
       vi.mocked(removeTempDirectory).mockResolvedValue(undefined);
       vi.mocked(directoryExists).mockImplementation(async (p: string) => p.endsWith("skills"));
@@ -276,7 +366,7 @@ describe("git-client", () => {
 
       const files = await fetchSkillFiles({
         url: "https://example.com/repo.git",
-        ref: "main",
+        sha: SHA,
         skillsPath: "skills",
       });
       expect(files).toHaveLength(1);
@@ -285,7 +375,7 @@ describe("git-client", () => {
     });
 
     it("throws GitClientError at max directory depth", async () => {
-      mockExecFileAsync.mockResolvedValue({ stdout: "", stderr: "" });
+      mockExecFileAsync.mockImplementation(gitCommandOutput);
       vi.mocked(createTempDirectory).mockResolvedValue("/tmp/test");
       vi.mocked(removeTempDirectory).mockResolvedValue(undefined);
       // Every entry is a directory, creating infinite depth
@@ -295,17 +385,238 @@ describe("git-client", () => {
       await expect(
         fetchSkillFiles({
           url: "https://example.com/repo.git",
-          ref: "main",
+          sha: SHA,
           skillsPath: "skills",
         }),
       ).rejects.toThrow(GitClientError);
       await expect(
         fetchSkillFiles({
           url: "https://example.com/repo.git",
-          ref: "main",
+          sha: SHA,
           skillsPath: "skills",
         }),
       ).rejects.toThrow("max depth");
     });
   });
+
+  describe("fetchRepoFiles", () => {
+    it("checks out the directories and files and returns them relative to the repo root", async () => {
+      mockExecFileAsync.mockImplementation(gitCommandOutput);
+      vi.mocked(createTempDirectory).mockResolvedValue("/tmp/test");
+      vi.mocked(removeTempDirectory).mockResolvedValue(undefined);
+      vi.mocked(directoryExists).mockImplementation(async (p: string) => p.endsWith("rules"));
+      vi.mocked(listDirectoryFiles).mockResolvedValue(["style.md"]);
+      vi.mocked(fileExists).mockImplementation(async (p: string) => p.endsWith("mcp.json"));
+      vi.mocked(getFileSize).mockResolvedValue(10);
+      vi.mocked(readFileContent).mockResolvedValue("content");
+
+      const files = await fetchRepoFiles({
+        url: "https://example.com/repo.git",
+        sha: SHA,
+        directories: ["rules"],
+        files: ["mcp.json", "hooks.json"],
+      });
+
+      expect(files).toEqual([
+        { relativePath: "rules/style.md", content: "content", size: 10 },
+        { relativePath: "mcp.json", content: "content", size: 10 },
+      ]);
+      const sparseCall = mockExecFileAsync.mock.calls.find((c: any[]) =>
+        c[1]?.includes("sparse-checkout"),
+      );
+      expect(sparseCall?.[1]).toEqual(["-C", "/tmp/test", "sparse-checkout", "set", "--", "rules"]);
+      expect(removeTempDirectory).toHaveBeenCalledWith("/tmp/test");
+    });
+
+    it("wraps errors in GitClientError", async () => {
+      mockExecFileAsync
+        .mockResolvedValueOnce({ stdout: "git version 2.40.0" })
+        .mockRejectedValueOnce(new Error("clone failed"));
+      vi.mocked(createTempDirectory).mockResolvedValue("/tmp/test");
+      vi.mocked(removeTempDirectory).mockResolvedValue(undefined);
+
+      await expect(
+        fetchRepoFiles({
+          url: "https://example.com/repo.git",
+          sha: SHA,
+          directories: ["rules"],
+          files: [],
+        }),
+      ).rejects.toThrow("Failed to fetch files from https://example.com/repo.git");
+    });
+  });
+
+  describe("fetchFileAtCommit", () => {
+    it("fetches the commit and returns the file content", async () => {
+      mockExecFileAsync.mockResolvedValue({ stdout: '{ "targets": ["cursor"] }' });
+      vi.mocked(createTempDirectory).mockResolvedValue("/tmp/test");
+      vi.mocked(removeTempDirectory).mockResolvedValue(undefined);
+
+      const content = await fetchFileAtCommit({
+        url: "https://example.com/repo.git",
+        sha: SHA,
+        path: "presets/base.jsonc",
+      });
+
+      expect(content).toBe('{ "targets": ["cursor"] }');
+      expect(mockExecFileAsync).toHaveBeenCalledWith(
+        "git",
+        ["-C", "/tmp/test", "fetch", "--depth", "1", "--", "https://example.com/repo.git", SHA],
+        expect.anything(),
+      );
+      expect(mockExecFileAsync).toHaveBeenCalledWith(
+        "git",
+        ["-C", "/tmp/test", "cat-file", "blob", `FETCH_HEAD:presets/base.jsonc`],
+        expect.anything(),
+      );
+      expect(removeTempDirectory).toHaveBeenCalledWith("/tmp/test");
+    });
+
+    it("wraps errors in GitClientError and cleans up", async () => {
+      mockExecFileAsync.mockResolvedValueOnce({ stdout: "git version 2.40.0" });
+      mockExecFileAsync.mockRejectedValue(new Error("fetch failed"));
+      vi.mocked(createTempDirectory).mockResolvedValue("/tmp/test");
+      vi.mocked(removeTempDirectory).mockResolvedValue(undefined);
+
+      await expect(
+        fetchFileAtCommit({ url: "https://example.com/repo.git", sha: SHA, path: "a.jsonc" }),
+      ).rejects.toThrow(GitClientError);
+      expect(removeTempDirectory).toHaveBeenCalledWith("/tmp/test");
+    });
+  });
+
+  describe("verifyRefSignature", () => {
+    const SSH_KEY = "ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIExample";
+    const GPG_FINGERPRINT = "0123456789ABCDEF0123456789ABCDEF01234567";
+    const allowedSigners = [
+      "# Maintainers",
+      `alice@example.com ${SSH_KEY}`,
+      `bob@example.com gpg ${GPG_FINGERPRINT.toLowerCase()}`,
+      "",
+    ].join("\n");
+
+    /**
+     * Answer git commands like a repo whose commit and tag print the given verification output.
+     */
+    function mockGit(output: { commit: string; tag?: string }) {
+      mockExecFileAsync.mockImplementation(async (_file: string, args: string[]) => {
+        if (args.includes("verify-commit")) {
+          return Promise.reject(Object.assign(new Error("failed"), { stderr: output.commit }));
+        }
+        if (args.includes("verify-tag")) {
+          return { stdout: "", stderr: output.tag ?? "" };
+        }
+        if (args.includes("rev-parse")) {
+          return { stdout: `${SHA}\n`, stderr: "" };
+        }
+        if (args.some((arg) => arg.startsWith("refs/tags/")) && output.tag === undefined) {
+          return Promise.reject(new Error("couldn't find remote ref"));
+        }
+        return { stdout: "", stderr: "" };
+      });
+      vi.mocked(createTempDirectory).mockResolvedValue("/tmp/test");
+      vi.mocked(removeTempDirectory).mockResolvedValue(undefined);
+    }
+
+    it("returns the principal of an SSH key in the allowed signers", async () => {
+      mockExecFileAsync.mockImplementation(async (_file: string, args: string[]) => ({
+        stdout: args.includes("rev-parse") ? SHA : "",
+        stderr: args.includes("verify-commit")
+          ? 'Good "git" signature for alice@example.com with ED25519 key SHA256:abc+/=\n'
+          : "",
+      }));
+      vi.mocked(createTempDirectory).mockResolvedValue("/tmp/test");
+
+      await expect(
+        verifyRefSignature({ url: "https://example.com/repo.git", sha: SHA, allowedSigners }),
+      ).resolves.toEqual({ format: "ssh", principal: "alice@example.com", key: "SHA256:abc+/=" });
+      expect(writeFileContent).toHaveBeenCalledWith(
+        "/tmp/test/.git/allowed_signers",
+        `alice@example.com ${SSH_KEY}\n`,
+      );
+      expect(mockExecFileAsync).toHaveBeenCalledWith(
+        "git",
+        [
+          "-C",
+          "/tmp/test",
+          "-c",
+          "gpg.ssh.allowedSignersFile=/tmp/test/.git/allowed_signers",
+          "verify-commit",
+          "--raw",
+          SHA,
+        ],
+        expect.anything(),
+      );
+      expect(removeTempDirectory).toHaveBeenCalledWith("/tmp/test");
+    });
+
+    it("matches GPG signatures by the fingerprint of the signing or primary key", async () => {
+      mockGit({
+        commit: [
+          "[GNUPG:] NEWSIG",
+          "[GNUPG:] GOODSIG 89ABCDEF01234567 Bob <bob@example.com>",
+          `[GNUPG:] VALIDSIG ${"F".repeat(40)} 2026-01-01 1767225600 0 4 0 22 10 00 ${GPG_FINGERPRINT}`,
+        ].join("\n"),
+      });
+
+      await expect(
+        verifyRefSignature({ url: "https://example.com/repo.git", sha: SHA, allowedSigners }),
+      ).resolves.toEqual({ format: "gpg", principal: "bob@example.com", key: GPG_FINGERPRINT });
+    });
+
+    it("falls back to the signed tag of an unsigned commit", async () => {
+      mockGit({
+        commit: "error: no signature found",
+        tag: 'Good "git" signature for alice@example.com with ED25519 key SHA256:tag\n',
+      });
+
+      await expect(
+        verifyRefSignature({
+          url: "https://example.com/repo.git",
+          sha: SHA,
+          tag: "v1.0.0",
+          allowedSigners,
+        }),
+      ).resolves.toEqual({ format: "ssh", principal: "alice@example.com", key: "SHA256:tag" });
+    });
+
+    it("rejects keys that are not allowed signers", async () => {
+      mockGit({
+        commit: 'Good "git" signature with ED25519 key SHA256:other\nNo principal matched.\n',
+      });
+
+      await expect(
+        verifyRefSignature({
+          url: "https://example.com/repo.git",
+          sha: SHA,
+          tag: "main",
+          allowedSigners,
+        }),
+      ).rejects.toThrow(
+        new SignatureVerificationError(
+          `Commit ${SHA} of https://example.com/repo.git is not signed by an allowed signer.`,
+        ),
+      );
+      expect(removeTempDirectory).toHaveBeenCalledWith("/tmp/test");
+    });
+
+    it("rejects GPG signatures from keys that are not listed", async () => {
+      mockGit({
+        commit: [
+          "[GNUPG:] GOODSIG 89ABCDEF01234567 Mallory",
+          `[GNUPG:] VALIDSIG ${"E".repeat(40)} 2026-01-01 1767225600 0 4 0 22 10 00 ${"E".repeat(40)}`,
+        ].join("\n"),
+        tag: "error: no signature found",
+      });
+
+      await expect(
+        verifyRefSignature({
+          url: "https://example.com/repo.git",
+          sha: SHA,
+          tag: "v1.0.0",
+          allowedSigners,
+        }),
+      ).rejects.toThrow(`Neither commit ${SHA} nor tag "v1.0.0"`);
+    });
+  });
 });
@@ -1,16 +1,18 @@
 import { execFile } from "node:child_process";
-import { join } from "node:path";
+import { join, posix } from "node:path";
 import { promisify } from "node:util";
 
 import { MAX_FILE_SIZE } from "../constants/rulesync-paths.js";
 import {
   createTempDirectory,
   directoryExists,
+  fileExists,
   getFileSize,
   isSymlink,
   listDirectoryFiles,
   readFileContent,
   removeTempDirectory,
+  writeFileContent,
 } from "../utils/file.js";
 import { logger } from "../utils/logger.js";
 
@@ -132,41 +134,81 @@ export async function resolveRefToSha(url: string, ref: string): Promise<string>
 }
 
 /**
- * Clone a repo at the given ref and return all files under skillsPath.
- * The `ref` must be a branch or tag name (not a commit SHA) because
- * `git clone --branch` does not accept raw SHAs.
+ * List the tags of a remote repository with the commit SHA each points to.
+ * Annotated tags are resolved to their commit.
+ */
+export async function listRemoteTags(url: string): Promise<Array<{ name: string; sha: string }>> {
+  validateGitUrl(url);
+  await checkGitAvailable();
+  try {
+    const { stdout } = await execFileAsync("git", ["ls-remote", "--tags", "--", url], {
+      timeout: GIT_TIMEOUT_MS,
+    });
+    const tags = new Map<string, string>();
+    for (const match of stdout.matchAll(/^([0-9a-f]{40})\trefs\/tags\/(.+?)(\^\{\})?$/gm)) {
+      const [, sha, name, peeled] = match;
+      // The peeled entry of an annotated tag points to the commit and takes precedence
+      if (sha && name && (peeled || !tags.has(name))) {
+        tags.set(name, sha);
+      }
+    }
+    return [...tags].map(([name, sha]) => ({ name, sha }));
+  } catch (error) {
+    if (error instanceof GitClientError) throw error;
+    throw new GitClientError(`Failed to list tags for ${url}`, error);
+  }
+}
+
+/**
+ * Shallow-fetch a single commit into an empty directory and check out the given paths of it.
+ * A tag object SHA is peeled to the commit it points to. Fails unless the fetched object is
+ * the requested one, because the files are cached under that SHA.
+ */
+async function checkoutCommit(params: {
+  url: string;
+  sha: string;
+  dir: string;
+  sparsePaths: string[];
+}): Promise<void> {
+  const { url, sha, dir, sparsePaths } = params;
+  await execFileAsync("git", ["-C", dir, "init", "--quiet"], { timeout: GIT_TIMEOUT_MS });
+  await execFileAsync(
+    "git",
+    ["-C", dir, "fetch", "--depth", "1", "--filter=blob:none", "--", url, sha],
+    { timeout: GIT_TIMEOUT_MS },
+  );
+  const { stdout } = await execFileAsync("git", ["-C", dir, "rev-parse", "FETCH_HEAD"], {
+    timeout: GIT_TIMEOUT_MS,
+  });
+  const fetchedSha = stdout.trim();
+  if (fetchedSha !== sha) {
+    throw new GitClientError(`Fetched ${fetchedSha} from ${url} instead of ${sha}`);
+  }
+  await execFileAsync("git", ["-C", dir, "sparse-checkout", "set", "--", ...sparsePaths], {
+    timeout: GIT_TIMEOUT_MS,
+  });
+  await execFileAsync("git", ["-C", dir, "checkout", "--quiet", "FETCH_HEAD^{commit}"], {
+    timeout: GIT_TIMEOUT_MS,
+  });
+}
+
+/**
+ * Fetch a single commit of a repo and return all files under skillsPath.
+ * Fetching by SHA instead of by branch or tag name guarantees that the files match the
+ * commit that was resolved, locked and signature-checked, even if the ref has since moved.
  */
 export async function fetchSkillFiles(params: {
   url: string;
-  ref: string;
+  sha: string;
   skillsPath: string;
 }): Promise<Array<{ relativePath: string; content: string; size: number }>> {
-  const { url, ref, skillsPath } = params;
+  const { url, sha, skillsPath } = params;
   validateGitUrl(url);
-  validateRef(ref);
+  validateRef(sha);
   await checkGitAvailable();
   const tmpDir = await createTempDirectory("rulesync-git-");
   try {
-    await execFileAsync(
-      "git",
-      [
-        "clone",
-        "--depth",
-        "1",
-        "--branch",
-        ref,
-        "--no-checkout",
-        "--filter=blob:none",
-        "--",
-        url,
-        tmpDir,
-      ],
-      { timeout: GIT_TIMEOUT_MS },
-    );
-    await execFileAsync("git", ["-C", tmpDir, "sparse-checkout", "set", "--", skillsPath], {
-      timeout: GIT_TIMEOUT_MS,
-    });
-    await execFileAsync("git", ["-C", tmpDir, "checkout"], { timeout: GIT_TIMEOUT_MS });
+    await checkoutCommit({ url, sha, dir: tmpDir, sparsePaths: [skillsPath] });
     const skillsDir = join(tmpDir, skillsPath);
     if (!(await directoryExists(skillsDir))) return [];
     return await walkDirectory(skillsDir, skillsDir);
@@ -178,6 +220,273 @@ export async function fetchSkillFiles(params: {
   }
 }
 
+/**
+ * Fetch a single commit of a repo and return the files in the given directories and the given
+ * files, with paths relative to the repository root. Missing paths are skipped.
+ * Like `fetchSkillFiles`, this fetches by commit SHA.
+ */
+export async function fetchRepoFiles(params: {
+  url: string;
+  sha: string;
+  directories: string[];
+  files: string[];
+}): Promise<Array<{ relativePath: string; content: string; size: number }>> {
+  const { url, sha, directories, files } = params;
+  validateGitUrl(url);
+  validateRef(sha);
+  await checkGitAvailable();
+  const tmpDir = await createTempDirectory("rulesync-git-");
+  try {
+    // Files at the repository root are always checked out in cone mode
+    const sparsePaths = [
+      ...directories,
+      ...files.map((file) => posix.dirname(file)).filter((dir) => dir !== "."),
+    ];
+    await checkoutCommit({ url, sha, dir: tmpDir, sparsePaths });
+
+    const results: Array<{ relativePath: string; content: string; size: number }> = [];
+    for (const directory of directories) {
+      if (await directoryExists(join(tmpDir, directory))) {
+        results.push(...(await walkDirectory(join(tmpDir, directory), tmpDir)));
+      }
+    }
+    for (const file of files) {
+      const fullPath = join(tmpDir, file);
+      if (!(await fileExists(fullPath)) || (await isSymlink(fullPath))) continue;
+      const size = await getFileSize(fullPath);
+      if (size > MAX_FILE_SIZE) {
+        logger.warn(
+          `Skipping file "${fullPath}" (exceeds ${MAX_FILE_SIZE / 1024 / 1024}MB limit).`,
+        );
+        continue;
+      }
+      results.push({ relativePath: file, content: await readFileContent(fullPath), size });
+    }
+    return results;
+  } catch (error) {
+    if (error instanceof GitClientError) throw error;
+    throw new GitClientError(`Failed to fetch files from ${url}`, error);
+  } finally {
+    await removeTempDirectory(tmpDir);
+  }
+}
+
+/**
+ * Fetch a single commit of a repo and return the content of one file in it.
+ * Locked refs stay reproducible even when the branch or tag they were resolved from has moved.
+ */
+export async function fetchFileAtCommit(params: {
+  url: string;
+  sha: string;
+  path: string;
+}): Promise<string> {
+  const { url, sha, path } = params;
+  validateGitUrl(url);
+  validateRef(sha);
+  await checkGitAvailable();
+  const tmpDir = await createTempDirectory("rulesync-git-");
+  try {
+    await execFileAsync("git", ["-C", tmpDir, "init", "--quiet"], { timeout: GIT_TIMEOUT_MS });
+    await execFileAsync("git", ["-C", tmpDir, "fetch", "--depth", "1", "--", url, sha], {
+      timeout: GIT_TIMEOUT_MS,
+    });
+    const { stdout } = await execFileAsync(
+      "git",
+      ["-C", tmpDir, "cat-file", "blob", `FETCH_HEAD:${path}`],
+      { timeout: GIT_TIMEOUT_MS, maxBuffer: MAX_FILE_SIZE },
+    );
+    return stdout;
+  } catch (error) {
+    throw new GitClientError(`Failed to fetch "${path}" at ${sha} from ${url}`, error);
+  } finally {
+    await removeTempDirectory(tmpDir);
+  }
+}
+
+/**
+ * The key that signed a verified commit or tag, as recorded in the lockfile.
+ * `principal` is the identity the key is listed under in the allowed-signers file.
+ */
+export type RefSigner = {
+  format: "ssh" | "gpg";
+  principal: string;
+  key: string;
+};
+
+/**
+ * Error thrown when a commit or tag is unsigned or not signed by an allowed signer.
+ */
+export class SignatureVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SignatureVerificationError";
+  }
+}
+
+/**
+ * Split an allowed-signers file into the lines for `gpg.ssh.allowedSignersFile` and the GPG keys.
+ * SSH keys use the OpenSSH format (`<principals> [options] <keytype> <key>`); GPG keys are listed
+ * as `<principal> gpg <fingerprint>`. Blank lines and `#` comments are ignored.
+ */
+function parseAllowedSigners(content: string): {
+  sshLines: string[];
+  gpgKeys: Array<{ principal: string; fingerprint: string }>;
+} {
+  const sshLines: string[] = [];
+  const gpgKeys: Array<{ principal: string; fingerprint: string }> = [];
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (trimmed === "" || trimmed.startsWith("#")) continue;
+    const [principal, keyType, ...rest] = trimmed.split(/\s+/);
+    if (principal && keyType?.toLowerCase() === "gpg") {
+      gpgKeys.push({ principal, fingerprint: rest.join("").toUpperCase() });
+    } else {
+      sshLines.push(trimmed);
+    }
+  }
+  return { sshLines, gpgKeys };
+}
+
+/**
+ * Run `git verify-commit` or `git verify-tag` and return its output, which git writes to
+ * stderr, whether or not the signature verified.
+ */
+async function runGitVerify(args: string[]): Promise<string> {
+  try {
+    const { stdout, stderr } = await execFileAsync("git", args, { timeout: GIT_TIMEOUT_MS });
+    return `${stdout}${stderr}`;
+  } catch (error) {
+    if (error instanceof Error && "stderr" in error && typeof error.stderr === "string") {
+      return error.stderr;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Find the allowed signer in the output of a `--raw` verification.
+ * An SSH signature is good for a principal only when its key is in the allowed-signers file;
+ * a GPG signature is good when its signing or primary key fingerprint is listed.
+ */
+function findAllowedSigner(
+  output: string,
+  gpgKeys: Array<{ principal: string; fingerprint: string }>,
+): RefSigner | null {
+  const ssh = output.match(/^Good "git" signature for (.+) with \S+ key (SHA256:\S+)$/m);
+  if (ssh?.[1] && ssh[2]) {
+    return { format: "ssh", principal: ssh[1], key: ssh[2] };
+  }
+  if (!/^\[GNUPG:\] GOODSIG /m.test(output)) {
+    return null;
+  }
+  const validSig = output.match(/^\[GNUPG:\] VALIDSIG (.+)$/m)?.[1]?.split(" ") ?? [];
+  const fingerprints = [validSig[0], validSig[9]].filter((value) => value !== undefined);
+  for (const { principal, fingerprint } of gpgKeys) {
+    if (fingerprints.some((value) => value.toUpperCase() === fingerprint)) {
+      return { format: "gpg", principal, key: fingerprint };
+    }
+  }
+  return null;
+}
+
+/**
+ * Verify that a commit, or else the tag it was resolved from, is signed by one of the keys in an
+ * allowed-signers file. SSH signatures are checked against the SSH keys of the file; GPG
+ * signatures are checked by the local GPG keyring and must come from a listed fingerprint.
+ * @returns The signer of the commit or tag
+ * @throws SignatureVerificationError if neither is signed by an allowed signer
+ */
+export async function verifyRefSignature(params: {
+  url: string;
+  sha: string;
+  tag?: string;
+  /** Content of the allowed-signers file. */
+  allowedSigners: string;
+}): Promise<RefSigner> {
+  const { url, sha, tag, allowedSigners } = params;
+  validateGitUrl(url);
+  validateRef(sha);
+  if (tag) {
+    validateRef(tag);
+  }
+  await checkGitAvailable();
+  const { sshLines, gpgKeys } = parseAllowedSigners(allowedSigners);
+  const tmpDir = await createTempDirectory("rulesync-git-");
+  let tagFound = false;
+  try {
+    const allowedSignersFile = join(tmpDir, ".git", "allowed_signers");
+    await execFileAsync("git", ["-C", tmpDir, "init", "--quiet"], { timeout: GIT_TIMEOUT_MS });
+    await writeFileContent(allowedSignersFile, sshLines.map((line) => `${line}\n`).join(""));
+    await execFileAsync("git", ["-C", tmpDir, "fetch", "--depth", "1", "--", url, sha], {
+      timeout: GIT_TIMEOUT_MS,
+    });
+    // An annotated tag resolves to the SHA of the tag object rather than its commit
+    const commit = await peelToCommit(tmpDir, "FETCH_HEAD");
+    const verifyArgs = ["-C", tmpDir, "-c", `gpg.ssh.allowedSignersFile=${allowedSignersFile}`];
+
+    const commitSigner = findAllowedSigner(
+      await runGitVerify([...verifyArgs, "verify-commit", "--raw", commit]),
+      gpgKeys,
+    );
+    if (commitSigner) {
+      return commitSigner;
+    }
+
+    // The ref may be a signed tag of an unsigned commit
+    if (tag && (await fetchTagOfCommit({ tmpDir, url, tag, commit }))) {
+      tagFound = true;
+      const tagSigner = findAllowedSigner(
+        await runGitVerify([...verifyArgs, "verify-tag", "--raw", `refs/tags/${tag}`]),
+        gpgKeys,
+      );
+      if (tagSigner) {
+        return tagSigner;
+      }
+    }
+  } catch (error) {
+    throw new GitClientError(`Failed to verify the signature of ${sha} from ${url}`, error);
+  } finally {
+    await removeTempDirectory(tmpDir);
+  }
+
+  throw new SignatureVerificationError(
+    tagFound
+      ? `Neither commit ${sha} nor tag "${tag}" of ${url} is signed by an allowed signer.`
+      : `Commit ${sha} of ${url} is not signed by an allowed signer.`,
+  );
+}
+
+async function peelToCommit(repoDir: string, rev: string): Promise<string> {
+  const { stdout } = await execFileAsync("git", ["-C", repoDir, "rev-parse", `${rev}^{commit}`], {
+    timeout: GIT_TIMEOUT_MS,
+  });
+  return stdout.trim();
+}
+
+/**
+ * Fetch a tag into a repository and check that it points to the commit.
+ * @returns false if the remote has no such tag or it points elsewhere
+ */
+async function fetchTagOfCommit(params: {
+  tmpDir: string;
+  url: string;
+  tag: string;
+  commit: string;
+}): Promise<boolean> {
+  const { tmpDir, url, tag, commit } = params;
+  try {
+    await execFileAsync(
+      "git",
+      ["-C", tmpDir, "fetch", "--depth", "1", "--", url, `refs/tags/${tag}:refs/tags/${tag}`],
+      { timeout: GIT_TIMEOUT_MS },
+    );
+  } catch {
+    logger.debug(`No tag "${tag}" found in ${url}.`);
+    return false;
+  }
+  return (await peelToCommit(tmpDir, `refs/tags/${tag}`)) === commit;
+}
+
 const MAX_WALK_DEPTH = 20;
 
 async function walkDirectory(
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import type { GitHost } from "../config/config.js";
+import { BitbucketClient, BitbucketServerClient } from "./bitbucket-client.js";
+import {
+  createGitProviderClient,
+  findGitHost,
+  getHostTokenEnvName,
+  resolveGitHostToken,
+} from "./git-hosts.js";
+import { GiteaClient } from "./gitea-client.js";
+import { GitHubClient } from "./github-client.js";
+import { GitLabClient } from "./gitlab-client.js";
+
+describe("git hosts", () => {
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    for (const name of ["GITHUB_TOKEN", "GH_TOKEN", "GITLAB_TOKEN", "GITEA_TOKEN"]) {
+      delete process.env[name];
+    }
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe("getHostTokenEnvName", () => {
+    it("should derive the variable name from the host", () => {
+      expect(getHostTokenEnvName("git.example.com")).toBe("RULESYNC_TOKEN_GIT_EXAMPLE_COM");
+      expect(getHostTokenEnvName("forge-01.corp:8443")).toBe("RULESYNC_TOKEN_FORGE_01_CORP_8443");
+    });
+  });
+
+  describe("findGitHost", () => {
+    it("should match host names case-insensitively", () => {
+      const hosts: Record<string, GitHost> = { "Git.Example.com": { provider: "gitea" } };
+      expect(findGitHost(hosts, "git.example.com")).toEqual({ provider: "gitea" });
+      expect(findGitHost(hosts, "example.com")).toBeUndefined();
+    });
+  });
+
+  describe("resolveGitHostToken", () => {
+    const hosts: Record<string, GitHost> = {
+      "git.example.com": { provider: "gitea", tokenEnv: "FORGE_TOKEN" },
+    };
+    const parsed = { provider: "gitea" as const, host: "git.example.com", owner: "a", repo: "b" };
+
+    it("should prefer the explicit token", () => {
+      process.env["FORGE_TOKEN"] = "env-token";
+      expect(resolveGitHostToken({ parsed, hosts, explicitToken: "explicit" })).toBe("explicit");
+    });
+
+    it("should read the variable named by tokenEnv, then RULESYNC_TOKEN_<HOST>", () => {
+      process.env["RULESYNC_TOKEN_GIT_EXAMPLE_COM"] = "host-token";
+      expect(resolveGitHostToken({ parsed, hosts })).toBe("host-token");
+      process.env["FORGE_TOKEN"] = "forge-token";
+      expect(resolveGitHostToken({ parsed, hosts })).toBe("forge-token");
+    });
+
+    it("should not send provider tokens to self-hosted instances", () => {
+      process.env["GITEA_TOKEN"] = "public-token";
+      expect(resolveGitHostToken({ parsed, hosts })).toBeUndefined();
+      expect(
+        resolveGitHostToken({ parsed: { provider: "gitea", owner: "a", repo: "b" }, hosts }),
+      ).toBe("public-token");
+    });
+
+    it("should not read tokenEnv for public hosts", () => {
+      process.env["FORGE_TOKEN"] = "forge-token";
+      expect(
+        resolveGitHostToken({
+          parsed: { provider: "gitea", owner: "a", repo: "b" },
+          hosts: { "gitea.com": { provider: "gitea", tokenEnv: "FORGE_TOKEN" } },
+        }),
+      ).toBeUndefined();
+    });
+
+    it("should read GITHUB_TOKEN for github.com", () => {
+      process.env["GITHUB_TOKEN"] = "github-token";
+      expect(resolveGitHostToken({ parsed: { provider: "github", owner: "a", repo: "b" } })).toBe(
+        "github-token",
+      );
+    });
+  });
+
+  describe("createGitProviderClient", () => {
+    it("should create the client of each provider", () => {
+      const hosts: Record<string, GitHost> = {
+        "github.example.com": { provider: "github" },
+        "gitlab.example.com": { provider: "gitlab" },
+        "bitbucket.example.com": { provider: "bitbucket" },
+      };
+      const create = (provider: "github" | "gitlab" | "gitea" | "bitbucket", host?: string) =>
+        createGitProviderClient({ parsed: { provider, host, owner: "a", repo: "b" }, hosts });
+
+      expect(create("github")).toBeInstanceOf(GitHubClient);
+      expect(create("github", "github.example.com")).toBeInstanceOf(GitHubClient);
+      expect(create("gitlab", "gitlab.example.com")).toBeInstanceOf(GitLabClient);
+      expect(create("gitea")).toBeInstanceOf(GiteaClient);
+      expect(create("bitbucket")).toBeInstanceOf(BitbucketClient);
+      expect(create("bitbucket", "bitbucket.example.com")).toBeInstanceOf(BitbucketServerClient);
+    });
+
+    it("should reject an apiUrl that does not use HTTPS", () => {
+      expect(() =>
+        createGitProviderClient({
+          parsed: { provider: "gitea", host: "git.example.com", owner: "a", repo: "b" },
+          hosts: { "git.example.com": { provider: "gitea", apiUrl: "http://git.example.com/api" } },
+        }),
+      ).toThrow("API URL must use HTTPS");
+    });
+  });
+});
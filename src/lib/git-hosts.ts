@@ -0,0 +1,117 @@
+import type { GitHost } from "../config/config.js";
+import type { ParsedSource } from "../types/fetch.js";
+import type { GitProvider } from "../types/git-provider.js";
+import { GIT_PROVIDER_DEFAULT_HOSTS } from "../types/git-provider.js";
+import { BitbucketClient, BitbucketServerClient } from "./bitbucket-client.js";
+import type { GitProviderClient } from "./git-provider-client.js";
+import { GiteaClient } from "./gitea-client.js";
+import { GitHubClient } from "./github-client.js";
+import { GitLabClient } from "./gitlab-client.js";
+import type { SourceCache } from "./source-cache.js";
+
+/**
+ * Environment variables read for the token of a provider's public host.
+ * They are never sent to self-hosted instances.
+ */
+const PUBLIC_HOST_TOKEN_ENV_VARS: Record<Exclude<GitProvider, "github">, string[]> = {
+  gitlab: ["GITLAB_TOKEN"],
+  gitea: ["GITEA_TOKEN"],
+  bitbucket: ["BITBUCKET_TOKEN"],
+};
+
+/**
+ * Name of the environment variable holding the token of a host,
+ * e.g. `RULESYNC_TOKEN_GIT_EXAMPLE_COM` for `git.example.com`.
+ */
+export function getHostTokenEnvName(host: string): string {
+  return `RULESYNC_TOKEN_${host.toUpperCase().replace(/[^A-Z0-9]/g, "_")}`;
+}
+
+/**
+ * Find the `gitHosts` entry of a host. Host names are case-insensitive.
+ */
+export function findGitHost(hosts: Record<string, GitHost>, host: string): GitHost | undefined {
+  const normalized = host.toLowerCase();
+  return Object.entries(hosts).find(([name]) => name.toLowerCase() === normalized)?.[1];
+}
+
+/**
+ * Resolve the token for a source, in order of precedence:
+ * 1. the explicit token (`--token`)
+ * 2. the environment variable named by `tokenEnv` of the host in `gitHosts`, for self-hosted
+ *    instances only
+ * 3. `RULESYNC_TOKEN_<HOST>`
+ * 4. the provider's usual variables (`GITHUB_TOKEN`, `GITLAB_TOKEN`, ...), for its public host only
+ */
+export function resolveGitHostToken(params: {
+  parsed: ParsedSource;
+  hosts?: Record<string, GitHost>;
+  explicitToken?: string;
+}): string | undefined {
+  const { parsed, hosts = {}, explicitToken } = params;
+  if (explicitToken) {
+    return explicitToken;
+  }
+
+  const host = parsed.host ?? GIT_PROVIDER_DEFAULT_HOSTS[parsed.provider];
+  const tokenEnv = parsed.host ? findGitHost(hosts, parsed.host)?.tokenEnv : undefined;
+  const hostToken =
+    (tokenEnv ? process.env[tokenEnv] : undefined) ?? process.env[getHostTokenEnvName(host)];
+  if (hostToken) {
+    return hostToken;
+  }
+  if (parsed.host) {
+    return undefined;
+  }
+  if (parsed.provider === "github") {
+    return GitHubClient.resolveToken();
+  }
+  return PUBLIC_HOST_TOKEN_ENV_VARS[parsed.provider]
+    .map((name) => process.env[name])
+    .find((token) => !!token);
+}
+
+/**
+ * Create the API client for the host of a parsed source. Self-hosted instances use the `apiUrl`
+ * of their `gitHosts` entry, or the default API path of their provider on the host.
+ */
+export function createGitProviderClient(params: {
+  parsed: ParsedSource;
+  hosts?: Record<string, GitHost>;
+  token?: string;
+  cache?: SourceCache;
+}): GitProviderClient {
+  const { parsed, hosts = {}, cache } = params;
+  const token = resolveGitHostToken({ parsed, hosts, explicitToken: params.token });
+  const host = parsed.host;
+  const configuredApiUrl = host ? findGitHost(hosts, host)?.apiUrl : undefined;
+
+  switch (parsed.provider) {
+    case "github":
+      return new GitHubClient({
+        token,
+        baseUrl: configuredApiUrl ?? (host ? `https://${host}/api/v3` : undefined),
+        cache,
+      });
+    case "gitlab":
+      return new GitLabClient({
+        apiUrl: configuredApiUrl ?? `https://${host ?? GIT_PROVIDER_DEFAULT_HOSTS.gitlab}/api/v4`,
+        token,
+        cache,
+      });
+    case "gitea":
+      return new GiteaClient({
+        apiUrl: configuredApiUrl ?? `https://${host ?? GIT_PROVIDER_DEFAULT_HOSTS.gitea}/api/v1`,
+        token,
+        cache,
+      });
+    case "bitbucket":
+      return host
+        ? new BitbucketServerClient({
+            apiUrl: configuredApiUrl ?? `https://${host}/rest/api/1.0`,
+            token,
+            cache,
+          })
+        : new BitbucketClient({ apiUrl: "https://api.bitbucket.org/2.0", token, cache });
+  }
+}
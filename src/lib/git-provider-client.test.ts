@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod/mini";
+
+import { MAX_FILE_SIZE } from "../constants/rulesync-paths.js";
+import { setupTestDirectory } from "../test-utils/test-directories.js";
+import type { RemoteFileEntry } from "../types/fetch.js";
+import { RemoteFileEntrySchema } from "../types/fetch.js";
+import { GitProviderClientError, RestGitProviderClient } from "./git-provider-client.js";
+import { SourceCache } from "./source-cache.js";
+
+class TestClient extends RestGitProviderClient {
+  protected readonly providerName = "Test";
+
+  protected getAuthHeaders(token: string): Record<string, string> {
+    return { Authorization: `token ${token}` };
+  }
+
+  async getDefaultBranch(owner: string, repo: string): Promise<string> {
+    await this.request(`repos/${owner}/${repo}`);
+    return "main";
+  }
+
+  async resolveRefToSha(_owner: string, _repo: string, ref: string): Promise<string> {
+    return ref;
+  }
+
+  followPage(url: string): Promise<Response> {
+    return this.request(url);
+  }
+
+  protected fetchDirectory(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+  ): Promise<RemoteFileEntry[]> {
+    return this.requestJson(`repos/${owner}/${repo}/tree/${path}`, z.array(RemoteFileEntrySchema), {
+      ref,
+    });
+  }
+
+  protected fetchFileContent(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+  ): Promise<string> {
+    return this.requestText(`repos/${owner}/${repo}/raw/${path}`, path, { ref });
+  }
+}
+
+describe("RestGitProviderClient", () => {
+  const sha = "0123456789abcdef0123456789abcdef01234567";
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should reject API URLs that do not use HTTPS", () => {
+    expect(() => new TestClient({ apiUrl: "http://git.example.com/api" })).toThrow(
+      "API URL must use HTTPS",
+    );
+  });
+
+  it("should send the token and the query", async () => {
+    const mockFetch = vi
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(new Response("# Rule", { status: 200 }));
+
+    const client = new TestClient({ apiUrl: "https://git.example.com/api/", token: "secret" });
+    const content = await client.getFileContent("team", "repo", "rules/a.md", "main");
+
+    expect(content).toBe("# Rule");
+    const [url, init] = mockFetch.mock.calls[0] ?? [];
+    expect(String(url)).toBe("https://git.example.com/api/repos/team/repo/raw/rules/a.md?ref=main");
+    expect(init?.headers).toEqual({ Authorization: "token secret" });
+  });
+
+  it("should convert error responses with the API's message", async () => {
+    vi.spyOn(global, "fetch").mockResolvedValueOnce(
+      new Response(JSON.stringify({ errors: [{ message: "Repository does not exist" }] }), {
+        status: 404,
+      }),
+    );
+
+    const client = new TestClient({ apiUrl: "https://git.example.com/api" });
+    await expect(client.getDefaultBranch("team", "repo")).rejects.toMatchObject({
+      name: "GitProviderClientError",
+      message: "Not found: Repository does not exist",
+      statusCode: 404,
+    });
+  });
+
+  it("should hint at the token on authentication errors", async () => {
+    vi.spyOn(global, "fetch").mockResolvedValueOnce(
+      new Response(JSON.stringify({ message: "Unauthorized" }), { status: 401 }),
+    );
+
+    const client = new TestClient({ apiUrl: "https://git.example.com/api" });
+    await expect(client.getDefaultBranch("team", "repo")).rejects.toThrow(
+      "Authentication failed: Unauthorized. Check your Test token.",
+    );
+  });
+
+  it("should report missing repositories as invalid", async () => {
+    vi.spyOn(global, "fetch").mockResolvedValueOnce(new Response("", { status: 404 }));
+
+    const client = new TestClient({ apiUrl: "https://git.example.com/api" });
+    expect(await client.validateRepository("team", "repo")).toBe(false);
+  });
+
+  it("should refuse to send the token to another origin", async () => {
+    const mockFetch = vi.spyOn(global, "fetch");
+
+    const client = new TestClient({ apiUrl: "https://git.example.com/api", token: "secret" });
+    await expect(client.followPage("https://evil.example.com/api/next")).rejects.toThrow(
+      GitProviderClientError,
+    );
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("should reject files over the size limit", async () => {
+    vi.spyOn(global, "fetch").mockResolvedValueOnce(
+      new Response("x".repeat(MAX_FILE_SIZE + 1), { status: 200 }),
+    );
+
+    const client = new TestClient({ apiUrl: "https://git.example.com/api" });
+    await expect(client.getFileContent("team", "repo", "big.md", "main")).rejects.toThrow(
+      'File "big.md" exceeds maximum size limit',
+    );
+  });
+
+  describe("with a source cache", () => {
+    let testDir: string;
+    let cleanup: () => Promise<void>;
+
+    beforeEach(async () => {
+      ({ testDir, cleanup } = await setupTestDirectory());
+    });
+
+    afterEach(async () => {
+      await cleanup();
+    });
+
+    it("should serve listings at a commit from the cache", async () => {
+      const entries = [{ name: "a.md", path: "rules/a.md", size: 6, type: "file" }];
+      const mockFetch = vi
+        .spyOn(global, "fetch")
+        .mockResolvedValueOnce(new Response(JSON.stringify(entries), { status: 200 }));
+
+      const client = new TestClient({
+        apiUrl: "https://git.example.com/api",
+        cache: new SourceCache({ cacheDir: testDir }),
+      });
+      const first = await client.listDirectory("team", "repo", "rules", sha);
+      const offlineClient = new TestClient({
+        apiUrl: "https://git.example.com/api",
+        cache: new SourceCache({ cacheDir: testDir, offline: true }),
+      });
+      const second = await offlineClient.listDirectory("team", "repo", "rules", sha);
+
+      expect(first).toEqual(entries);
+      expect(second).toEqual(entries);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should remember files that do not exist", async () => {
+      const mockFetch = vi
+        .spyOn(global, "fetch")
+        .mockResolvedValueOnce(new Response("Not Found", { status: 404 }));
+
+      const client = new TestClient({
+        apiUrl: "https://git.example.com/api",
+        cache: new SourceCache({ cacheDir: testDir }),
+      });
+      await expect(client.getFileContent("team", "repo", "mcp.json", sha)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      await expect(client.getFileContent("team", "repo", "mcp.json", sha)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import { z } from "zod/mini";
+
+import { MAX_FILE_SIZE } from "../constants/rulesync-paths.js";
+import type { RemoteFileEntry } from "../types/fetch.js";
+import { RemoteFileEntrySchema } from "../types/fetch.js";
+import { formatError } from "../utils/error.js";
+import { type SourceCache, rememberOrNotFound } from "./source-cache.js";
+
+/**
+ * Repository operations that `fetch` needs from the API of a Git provider.
+ * `GitHubClient` and the clients of self-hostable providers implement them.
+ */
+export type GitProviderClient = {
+  validateRepository(owner: string, repo: string): Promise<boolean>;
+  getDefaultBranch(owner: string, repo: string): Promise<string>;
+  resolveRefToSha(owner: string, repo: string, ref: string): Promise<string>;
+  listDirectory(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+  ): Promise<RemoteFileEntry[]>;
+  getFileContent(owner: string, repo: string, path: string, ref?: string): Promise<string>;
+};
+
+/**
+ * Error class for API errors of Git providers other than GitHub
+ */
+export class GitProviderClientError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode?: number,
+  ) {
+    super(message);
+    this.name = "GitProviderClientError";
+  }
+}
+
+export type GitProviderClientOptions = {
+  /** Base URL of the REST API, e.g. `https://git.example.com/api/v1`. */
+  apiUrl: string;
+  token?: string;
+  /** Cache for directory listings and file contents at commit SHAs. */
+  cache?: SourceCache;
+};
+
+const isNotFoundError = (error: unknown): boolean =>
+  error instanceof GitProviderClientError && error.statusCode === 404;
+
+const createNotFoundError = (path: string): GitProviderClientError =>
+  new GitProviderClientError(`Not found: ${path}`, 404);
+
+/**
+ * Encode each segment of a repository path for use in a URL path.
+ */
+export function encodeRepositoryPath(path: string): string {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
+
+/**
+ * Base class of the REST API clients of Git providers. Subclasses map the repository operations
+ * to the provider's endpoints; this class sends the requests, converts HTTP errors and reads
+ * listings and file contents at commit SHAs through the cache.
+ */
+export abstract class RestGitProviderClient implements GitProviderClient {
+  protected readonly apiUrl: string;
+  protected readonly token: string | undefined;
+  private readonly cache: SourceCache | undefined;
+
+  /** Name of the provider in error messages. */
+  protected abstract readonly providerName: string;
+
+  constructor(options: GitProviderClientOptions) {
+    // A token must never be sent over plain HTTP
+    if (!options.apiUrl.startsWith("https://")) {
+      throw new GitProviderClientError(`API URL must use HTTPS: ${options.apiUrl}`);
+    }
+    this.apiUrl = options.apiUrl.replace(/\/+$/, "");
+    this.token = options.token;
+    this.cache = options.cache;
+  }
+
+  abstract getDefaultBranch(owner: string, repo: string): Promise<string>;
+
+  abstract resolveRefToSha(owner: string, repo: string, ref: string): Promise<string>;
+
+  protected abstract fetchDirectory(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+  ): Promise<RemoteFileEntry[]>;
+
+  protected abstract fetchFileContent(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+  ): Promise<string>;
+
+  /** Headers that authenticate a request with the token. */
+  protected abstract getAuthHeaders(token: string): Record<string, string>;
+
+  /**
+   * Validate that a repository exists and is accessible
+   */
+  async validateRepository(owner: string, repo: string): Promise<boolean> {
+    try {
+      await this.getDefaultBranch(owner, repo);
+      return true;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List contents of a directory in a repository
+   */
+  async listDirectory(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+  ): Promise<RemoteFileEntry[]> {
+    if (this.cache && ref) {
+      return rememberOrNotFound(this.cache, {
+        sha: ref,
+        kind: "listing",
+        path,
+        schema: z.array(RemoteFileEntrySchema),
+        fetch: () => this.fetchDirectory(owner, repo, path, ref),
+        isNotFound: isNotFoundError,
+        notFoundError: createNotFoundError,
+      });
+    }
+    return this.fetchDirectory(owner, repo, path, ref);
+  }
+
+  /**
+   * Get raw file content from a repository
+   */
+  async getFileContent(owner: string, repo: string, path: string, ref?: string): Promise<string> {
+    if (this.cache && ref) {
+      return rememberOrNotFound(this.cache, {
+        sha: ref,
+        kind: "content",
+        path,
+        schema: z.string(),
+        fetch: () => this.fetchFileContent(owner, repo, path, ref),
+        isNotFound: isNotFoundError,
+        notFoundError: createNotFoundError,
+      });
+    }
+    return this.fetchFileContent(owner, repo, path, ref);
+  }
+
+  /**
+   * Send a GET request to an endpoint of the API, or to an absolute URL on the same origin such
+   * as the next page of a listing.
+   */
+  protected async request(
+    endpoint: string,
+    query: Record<string, string | undefined> = {},
+  ): Promise<Response> {
+    const url = new URL(endpoint.startsWith("https://") ? endpoint : `${this.apiUrl}/${endpoint}`);
+    if (url.origin !== new URL(this.apiUrl).origin) {
+      throw new GitProviderClientError(`Refusing to follow ${url.href} outside ${this.apiUrl}`);
+    }
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) {
+        url.searchParams.set(key, value);
+      }
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: this.token ? this.getAuthHeaders(this.token) : {},
+        redirect: "error",
+      });
+    } catch (error) {
+      throw new GitProviderClientError(
+        `Failed to reach the ${this.providerName} API at ${url.origin}: ${formatError(error)}`,
+      );
+    }
+    if (!response.ok) {
+      const apiMessage = await readErrorMessage(response);
+      throw new GitProviderClientError(
+        this.getErrorMessage(response.status, apiMessage ?? `HTTP ${response.status}`),
+        response.status,
+      );
+    }
+    return response;
+  }
+
+  protected async requestJson<T>(
+    endpoint: string,
+    schema: z.ZodMiniType<T>,
+    query?: Record<string, string | undefined>,
+  ): Promise<T> {
+    const response = await this.request(endpoint, query);
+    const parsed = schema.safeParse(await response.json());
+    if (!parsed.success) {
+      throw new GitProviderClientError(
+        `Invalid ${this.providerName} API response for ${endpoint}: ${formatError(parsed.error)}`,
+      );
+    }
+    return parsed.data;
+  }
+
+  protected async requestText(
+    endpoint: string,
+    path: string,
+    query?: Record<string, string | undefined>,
+  ): Promise<string> {
+    const response = await this.request(endpoint, query);
+    const size = Number(response.headers.get("content-length") ?? 0);
+    const content = size > MAX_FILE_SIZE ? "" : await response.text();
+    if (size > MAX_FILE_SIZE || Buffer.byteLength(content) > MAX_FILE_SIZE) {
+      throw new GitProviderClientError(
+        `File "${path}" exceeds maximum size limit of ${MAX_FILE_SIZE / 1024 / 1024}MB`,
+      );
+    }
+    return content;
+  }
+
+  /**
+   * Get human-readable error message for HTTP status codes
+   */
+  private getErrorMessage(statusCode: number, baseMessage: string): string {
+    switch (statusCode) {
+      case 401:
+        return `Authentication failed: ${baseMessage}. Check your ${this.providerName} token.`;
+      case 403:
+        return `Access forbidden: ${baseMessage}. Check repository permissions.`;
+      case 404:
+        return `Not found: ${baseMessage}`;
+      default:
+        return `${this.providerName} API error: ${baseMessage}`;
+    }
+  }
+}
+
+const ErrorResponseSchemas = [
+  // GitHub-style APIs (Gitea, GitLab)
+  z.pipe(
+    z.looseObject({ message: z.string() }),
+    z.transform((data) => data.message),
+  ),
+  // Bitbucket Cloud
+  z.pipe(
+    z.looseObject({ error: z.looseObject({ message: z.string() }) }),
+    z.transform((data) => data.error.message),
+  ),
+  // Bitbucket Data Center
+  z.pipe(
+    z.looseObject({ errors: z.array(z.looseObject({ message: z.string() })) }),
+    z.transform((data) => data.errors[0]?.message),
+  ),
+];
+
+/**
+ * Extract the message of an error response, falling back to the start of its body.
+ */
+async function readErrorMessage(response: Response): Promise<string | undefined> {
+  const body = (await response.text().catch(() => "")).trim();
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    return body ? body.slice(0, 200) : undefined;
+  }
+  for (const schema of ErrorResponseSchemas) {
+    const parsed = schema.safeParse(json);
+    if (parsed.success && parsed.data) {
+      return parsed.data;
+    }
+  }
+  return body.slice(0, 200);
+}
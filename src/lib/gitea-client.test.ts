@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { GiteaClient } from "./gitea-client.js";
+
+function jsonResponse(data: unknown): Response {
+  return new Response(JSON.stringify(data), { status: 200 });
+}
+
+describe("GiteaClient", () => {
+  const apiUrl = "https://git.example.com/api/v1";
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should authenticate with the token scheme", async () => {
+    const mockFetch = vi
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ default_branch: "trunk" }));
+
+    const client = new GiteaClient({ apiUrl, token: "secret" });
+
+    expect(await client.getDefaultBranch("team", "rules")).toBe("trunk");
+    const [url, init] = mockFetch.mock.calls[0] ?? [];
+    expect(String(url)).toBe("https://git.example.com/api/v1/repos/team/rules");
+    expect(init?.headers).toEqual({ Authorization: "token secret" });
+  });
+
+  it("should resolve a ref to its commit SHA", async () => {
+    const mockFetch = vi.spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({ sha: "abc" }));
+
+    const client = new GiteaClient({ apiUrl });
+
+    expect(await client.resolveRefToSha("team", "rules", "release/v1")).toBe("abc");
+    expect(String(mockFetch.mock.calls[0]?.[0])).toBe(
+      "https://git.example.com/api/v1/repos/team/rules/git/commits/release%2Fv1",
+    );
+  });
+
+  it("should list the root directory", async () => {
+    const mockFetch = vi.spyOn(global, "fetch").mockResolvedValueOnce(
+      jsonResponse([
+        { name: "rules", path: "rules", sha: "1", size: 0, type: "dir" },
+        { name: "mcp.json", path: "mcp.json", sha: "2", size: 42, type: "file" },
+      ]),
+    );
+
+    const client = new GiteaClient({ apiUrl });
+    const entries = await client.listDirectory("team", "rules", ".", "abc");
+
+    expect(entries).toEqual([
+      { name: "rules", path: "rules", size: 0, type: "dir" },
+      { name: "mcp.json", path: "mcp.json", size: 42, type: "file" },
+    ]);
+    expect(String(mockFetch.mock.calls[0]?.[0])).toBe(
+      "https://git.example.com/api/v1/repos/team/rules/contents/?ref=abc",
+    );
+  });
+
+  it("should fail to list a file", async () => {
+    vi.spyOn(global, "fetch").mockResolvedValueOnce(
+      jsonResponse({ name: "mcp.json", path: "mcp.json", sha: "2", size: 42, type: "file" }),
+    );
+
+    const client = new GiteaClient({ apiUrl });
+
+    await expect(client.listDirectory("team", "rules", "mcp.json", "abc")).rejects.toThrow(
+      'Path "mcp.json" is not a directory',
+    );
+  });
+
+  it("should read raw file content", async () => {
+    const mockFetch = vi
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(new Response("# Overview", { status: 200 }));
+
+    const client = new GiteaClient({ apiUrl });
+
+    expect(await client.getFileContent("team", "rules", "rules/my rule.md", "abc")).toBe(
+      "# Overview",
+    );
+    expect(String(mockFetch.mock.calls[0]?.[0])).toBe(
+      "https://git.example.com/api/v1/repos/team/rules/raw/rules/my%20rule.md?ref=abc",
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import { z } from "zod/mini";
+
+import type { RemoteFileEntry } from "../types/fetch.js";
+import { GitHubFileTypeSchema } from "../types/fetch.js";
+import {
+  GitProviderClientError,
+  RestGitProviderClient,
+  encodeRepositoryPath,
+} from "./git-provider-client.js";
+
+const GiteaRepoInfoSchema = z.looseObject({
+  default_branch: z.string(),
+});
+
+const GiteaCommitSchema = z.looseObject({
+  sha: z.string(),
+});
+
+const GiteaContentsEntrySchema = z.looseObject({
+  name: z.string(),
+  path: z.string(),
+  size: z.number(),
+  type: GitHubFileTypeSchema,
+});
+
+/**
+ * Client for the API of Gitea and Forgejo (`/api/v1`), including Codeberg and gitea.com
+ */
+export class GiteaClient extends RestGitProviderClient {
+  protected readonly providerName = "Gitea";
+
+  protected getAuthHeaders(token: string): Record<string, string> {
+    return { Authorization: `token ${token}` };
+  }
+
+  async getDefaultBranch(owner: string, repo: string): Promise<string> {
+    const info = await this.requestJson(this.getRepoEndpoint(owner, repo), GiteaRepoInfoSchema);
+    return info.default_branch;
+  }
+
+  async resolveRefToSha(owner: string, repo: string, ref: string): Promise<string> {
+    const commit = await this.requestJson(
+      `${this.getRepoEndpoint(owner, repo)}/git/commits/${encodeURIComponent(ref)}`,
+      GiteaCommitSchema,
+    );
+    return commit.sha;
+  }
+
+  protected async fetchDirectory(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+  ): Promise<RemoteFileEntry[]> {
+    const contentsPath = path === "." ? "" : encodeRepositoryPath(path);
+    const data = await this.requestJson(
+      `${this.getRepoEndpoint(owner, repo)}/contents/${contentsPath}`,
+      z.unknown(),
+      { ref },
+    );
+    // The API returns a single object for files, and an array for directories
+    if (!Array.isArray(data)) {
+      throw new GitProviderClientError(`Path "${path}" is not a directory`);
+    }
+
+    const entries: RemoteFileEntry[] = [];
+    for (const item of data) {
+      const parsed = GiteaContentsEntrySchema.safeParse(item);
+      if (parsed.success) {
+        const { name, path: entryPath, size, type } = parsed.data;
+        entries.push({ name, path: entryPath, size, type });
+      }
+    }
+    return entries;
+  }
+
+  protected async fetchFileContent(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+  ): Promise<string> {
+    return this.requestText(
+      `${this.getRepoEndpoint(owner, repo)}/raw/${encodeRepositoryPath(path)}`,
+      path,
+      { ref },
+    );
+  }
+
+  private getRepoEndpoint(owner: string, repo: string): string {
+    return `repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  }
+}
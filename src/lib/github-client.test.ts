@@ -1,7 +1,9 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
+import { setupTestDirectory } from "../test-utils/test-directories.js";
 import { logger } from "../utils/logger.js";
 import { GitHubClient, GitHubClientError, logGitHubAuthHints } from "./github-client.js";
+import { SourceCache } from "./source-cache.js";
 
 vi.mock("../utils/logger.js");
 
@@ -107,6 +109,31 @@ describe("GitHubClient", () => {
     });
   });
 
+  describe("listTags", () => {
+    it("should return tag names with their commit SHAs", async () => {
+      const mockFetch = vi.spyOn(global, "fetch").mockResolvedValueOnce(
+        new Response(
+          JSON.stringify([
+            { name: "v1.4.2", commit: { sha: "abc123" } },
+            { name: "v1.4.1", commit: { sha: "def456" } },
+          ]),
+          { status: 200, headers: { "Content-Type": "application/json" } },
+        ),
+      );
+
+      const client = new GitHubClient();
+
+      expect(await client.listTags("owner", "repo")).toEqual([
+        { name: "v1.4.2", sha: "abc123" },
+        { name: "v1.4.1", sha: "def456" },
+      ]);
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.github.com/repos/owner/repo/tags?per_page=100",
+        expect.anything(),
+      );
+    });
+  });
+
   describe("listDirectory", () => {
     it("should return directory contents", async () => {
       const mockContents = [
@@ -198,6 +225,67 @@ describe("GitHubClient", () => {
     });
   });
 
+  describe("with a source cache", () => {
+    const sha = "0123456789abcdef0123456789abcdef01234567";
+    let testDir: string;
+    let cleanup: () => Promise<void>;
+
+    beforeEach(async () => {
+      ({ testDir, cleanup } = await setupTestDirectory());
+    });
+
+    afterEach(async () => {
+      await cleanup();
+    });
+
+    it("should serve file contents at a commit from the cache", async () => {
+      const mockFetch = vi
+        .spyOn(global, "fetch")
+        .mockResolvedValueOnce(new Response("# Rule", { status: 200 }));
+
+      const client = new GitHubClient({ cache: new SourceCache({ cacheDir: testDir }) });
+      const first = await client.getFileContent("owner", "repo", "rules/a.md", sha);
+      const offlineClient = new GitHubClient({
+        cache: new SourceCache({ cacheDir: testDir, offline: true }),
+      });
+      const second = await offlineClient.getFileContent("owner", "repo", "rules/a.md", sha);
+
+      expect(first).toBe("# Rule");
+      expect(second).toBe("# Rule");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should remember directories that do not exist", async () => {
+      const mockFetch = vi
+        .spyOn(global, "fetch")
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify({ message: "Not Found" }), { status: 404 }),
+        );
+
+      const client = new GitHubClient({ cache: new SourceCache({ cacheDir: testDir }) });
+      await expect(client.listDirectory("owner", "repo", "rules", sha)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      await expect(client.listDirectory("owner", "repo", "rules", sha)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not cache branch names", async () => {
+      const mockFetch = vi
+        .spyOn(global, "fetch")
+        .mockImplementation(() => Promise.resolve(new Response("# Rule", { status: 200 })));
+
+      const client = new GitHubClient({ cache: new SourceCache({ cacheDir: testDir }) });
+      await client.getFileContent("owner", "repo", "rules/a.md", "main");
+      await client.getFileContent("owner", "repo", "rules/a.md", "main");
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe("validateRepository", () => {
     it("should return true for existing repository", async () => {
       vi.spyOn(global, "fetch").mockResolvedValueOnce(
@@ -1,5 +1,6 @@
 import { RequestError } from "@octokit/request-error";
 import { Octokit } from "@octokit/rest";
+import { z } from "zod/mini";
 
 import { MAX_FILE_SIZE } from "../constants/rulesync-paths.js";
 import type {
@@ -16,6 +17,7 @@ import {
 } from "../types/fetch.js";
 import { formatError } from "../utils/error.js";
 import { logger } from "../utils/logger.js";
+import { type SourceCache, rememberOrNotFound } from "./source-cache.js";
 
 /**
  * Error class for GitHub API errors
@@ -46,20 +48,33 @@ export function logGitHubAuthHints(error: GitHubClientError): void {
   }
 }
 
+export type GitHubClientOptions = GitHubClientConfig & {
+  /** Cache for directory listings and file contents at commit SHAs. */
+  cache?: SourceCache;
+};
+
+const isGitHubNotFoundError = (error: unknown): boolean =>
+  error instanceof GitHubClientError && error.statusCode === 404;
+
+const createGitHubNotFoundError = (path: string): GitHubClientError =>
+  new GitHubClientError(`Not found: ${path}`, 404);
+
 /**
  * Client for interacting with GitHub API using Octokit SDK
  */
 export class GitHubClient {
   private readonly octokit: Octokit;
   private readonly hasToken: boolean;
+  private readonly cache: SourceCache | undefined;
 
-  constructor(config: GitHubClientConfig = {}) {
+  constructor(config: GitHubClientOptions = {}) {
     // Validate custom baseUrl uses HTTPS to prevent token exposure
     if (config.baseUrl && !config.baseUrl.startsWith("https://")) {
       throw new GitHubClientError("GitHub API base URL must use HTTPS");
     }
 
     this.hasToken = !!config.token;
+    this.cache = config.cache;
     this.octokit = new Octokit({
       auth: config.token,
       baseUrl: config.baseUrl,
@@ -110,6 +125,26 @@ export class GitHubClient {
     repo: string,
     path: string,
     ref?: string,
+  ): Promise<GitHubFileEntry[]> {
+    if (this.cache && ref) {
+      return rememberOrNotFound(this.cache, {
+        sha: ref,
+        kind: "listing",
+        path,
+        schema: z.array(GitHubFileEntrySchema),
+        fetch: () => this.fetchDirectory(owner, repo, path, ref),
+        isNotFound: isGitHubNotFoundError,
+        notFoundError: createGitHubNotFoundError,
+      });
+    }
+    return this.fetchDirectory(owner, repo, path, ref);
+  }
+
+  private async fetchDirectory(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
   ): Promise<GitHubFileEntry[]> {
     try {
       const { data } = await this.octokit.repos.getContent({
@@ -141,6 +176,26 @@ export class GitHubClient {
    * Get raw file content from a repository
    */
   async getFileContent(owner: string, repo: string, path: string, ref?: string): Promise<string> {
+    if (this.cache && ref) {
+      return rememberOrNotFound(this.cache, {
+        sha: ref,
+        kind: "content",
+        path,
+        schema: z.string(),
+        fetch: () => this.fetchFileContent(owner, repo, path, ref),
+        isNotFound: isGitHubNotFoundError,
+        notFoundError: createGitHubNotFoundError,
+      });
+    }
+    return this.fetchFileContent(owner, repo, path, ref);
+  }
+
+  private async fetchFileContent(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+  ): Promise<string> {
     try {
       const { data } = await this.octokit.repos.getContent({
         owner,
@@ -244,6 +299,22 @@ export class GitHubClient {
     }
   }
 
+  /**
+   * List the tags of a repository with the commit SHA each points to.
+   */
+  async listTags(owner: string, repo: string): Promise<Array<{ name: string; sha: string }>> {
+    try {
+      const tags = await this.octokit.paginate(this.octokit.repos.listTags, {
+        owner,
+        repo,
+        per_page: 100,
+      });
+      return tags.map((tag) => ({ name: tag.name, sha: tag.commit.sha }));
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
   /**
    * Get the latest release from a repository
    */
@@ -1,7 +1,7 @@
 import { Semaphore } from "es-toolkit/promise";
 
-import type { GitHubFileEntry } from "../types/fetch.js";
-import type { GitHubClient } from "./github-client.js";
+import type { RemoteFileEntry } from "../types/fetch.js";
+import type { GitProviderClient } from "./git-provider-client.js";
 
 const MAX_RECURSION_DEPTH = 15;
 
@@ -19,17 +19,17 @@ export async function withSemaphore<T>(semaphore: Semaphore, fn: () => Promise<T
 }
 
 /**
- * Recursively list all files in a GitHub directory.
+ * Recursively list all files in a repository directory.
  */
 export async function listDirectoryRecursive(params: {
-  client: GitHubClient;
+  client: Pick<GitProviderClient, "listDirectory">;
   owner: string;
   repo: string;
   path: string;
   ref?: string;
   depth?: number;
   semaphore: Semaphore;
-}): Promise<GitHubFileEntry[]> {
+}): Promise<RemoteFileEntry[]> {
   const { client, owner, repo, path, ref, depth = 0, semaphore } = params;
 
   if (depth > MAX_RECURSION_DEPTH) {
@@ -43,8 +43,8 @@ export async function listDirectoryRecursive(params: {
     client.listDirectory(owner, repo, path, ref),
   );
 
-  const files: GitHubFileEntry[] = [];
-  const directories: GitHubFileEntry[] = [];
+  const files: RemoteFileEntry[] = [];
+  const directories: RemoteFileEntry[] = [];
 
   for (const entry of entries) {
     if (entry.type === "file") {
@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { GitLabClient } from "./gitlab-client.js";
+
+function jsonResponse(data: unknown): Response {
+  return new Response(JSON.stringify(data), { status: 200 });
+}
+
+describe("GitLabClient", () => {
+  const apiUrl = "https://gitlab.example.com/api/v4";
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should address projects in subgroups by their full path", async () => {
+    const mockFetch = vi
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ default_branch: "main" }));
+
+    const client = new GitLabClient({ apiUrl, token: "secret" });
+
+    expect(await client.getDefaultBranch("group/sub", "rules")).toBe("main");
+    const [url, init] = mockFetch.mock.calls[0] ?? [];
+    expect(String(url)).toBe("https://gitlab.example.com/api/v4/projects/group%2Fsub%2Frules");
+    expect(init?.headers).toEqual({ "PRIVATE-TOKEN": "secret" });
+  });
+
+  it("should resolve a ref to its commit SHA", async () => {
+    vi.spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({ id: "abc" }));
+
+    const client = new GitLabClient({ apiUrl });
+
+    expect(await client.resolveRefToSha("group", "rules", "v1.0.0")).toBe("abc");
+  });
+
+  it("should list all pages of a directory", async () => {
+    const firstPage = Array.from({ length: 100 }, (_, i) => ({
+      name: `rule-${i}.md`,
+      path: `rules/rule-${i}.md`,
+      type: "blob",
+    }));
+    const mockFetch = vi
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse(firstPage))
+      .mockResolvedValueOnce(
+        jsonResponse([{ name: "shared", path: "rules/shared", type: "tree" }]),
+      );
+
+    const client = new GitLabClient({ apiUrl });
+    const entries = await client.listDirectory("group", "rules", "rules", "abc");
+
+    expect(entries).toHaveLength(101);
+    expect(entries[0]).toEqual({
+      name: "rule-0.md",
+      path: "rules/rule-0.md",
+      size: 0,
+      type: "file",
+    });
+    expect(entries[100]).toEqual({ name: "shared", path: "rules/shared", size: 0, type: "dir" });
+    expect(String(mockFetch.mock.calls[1]?.[0])).toBe(
+      "https://gitlab.example.com/api/v4/projects/group%2Frules/repository/tree?path=rules&ref=abc&per_page=100&page=2",
+    );
+  });
+
+  it("should read raw file content", async () => {
+    const mockFetch = vi
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(new Response("# Overview", { status: 200 }));
+
+    const client = new GitLabClient({ apiUrl });
+
+    expect(await client.getFileContent("group", "rules", "rules/overview.md", "abc")).toBe(
+      "# Overview",
+    );
+    expect(String(mockFetch.mock.calls[0]?.[0])).toBe(
+      "https://gitlab.example.com/api/v4/projects/group%2Frules/repository/files/rules%2Foverview.md/raw?ref=abc",
+    );
+  });
+});
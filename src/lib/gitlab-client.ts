@@ -0,0 +1,107 @@
+import { z } from "zod/mini";
+
+import type { GitHubFileType, RemoteFileEntry } from "../types/fetch.js";
+import { RestGitProviderClient } from "./git-provider-client.js";
+
+const GitLabProjectSchema = z.looseObject({
+  default_branch: z.string(),
+});
+
+const GitLabCommitSchema = z.looseObject({
+  id: z.string(),
+});
+
+const GitLabTreeEntrySchema = z.looseObject({
+  name: z.string(),
+  path: z.string(),
+  type: z.enum(["tree", "blob", "commit"]),
+});
+
+const TREE_ENTRY_TYPES: Record<z.infer<typeof GitLabTreeEntrySchema>["type"], GitHubFileType> = {
+  tree: "dir",
+  blob: "file",
+  commit: "submodule",
+};
+
+const TREE_PAGE_SIZE = 100;
+
+/**
+ * Client for the GitLab REST API (`/api/v4`) of gitlab.com and self-managed instances.
+ * Projects in subgroups are addressed by their full path, split into owner and repo.
+ */
+export class GitLabClient extends RestGitProviderClient {
+  protected readonly providerName = "GitLab";
+
+  protected getAuthHeaders(token: string): Record<string, string> {
+    return { "PRIVATE-TOKEN": token };
+  }
+
+  async getDefaultBranch(owner: string, repo: string): Promise<string> {
+    const project = await this.requestJson(
+      this.getProjectEndpoint(owner, repo),
+      GitLabProjectSchema,
+    );
+    return project.default_branch;
+  }
+
+  async resolveRefToSha(owner: string, repo: string, ref: string): Promise<string> {
+    const commit = await this.requestJson(
+      `${this.getProjectEndpoint(owner, repo)}/repository/commits/${encodeURIComponent(ref)}`,
+      GitLabCommitSchema,
+    );
+    return commit.id;
+  }
+
+  /**
+   * The tree API does not report file sizes, so entries have a size of 0; the size of each file
+   * is checked when its content is read.
+   */
+  protected async fetchDirectory(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+  ): Promise<RemoteFileEntry[]> {
+    const entries: RemoteFileEntry[] = [];
+    for (let page = 1; ; page++) {
+      const tree = await this.requestJson(
+        `${this.getProjectEndpoint(owner, repo)}/repository/tree`,
+        z.array(GitLabTreeEntrySchema),
+        {
+          path: path === "." ? undefined : path,
+          ref,
+          per_page: String(TREE_PAGE_SIZE),
+          page: String(page),
+        },
+      );
+      for (const entry of tree) {
+        entries.push({
+          name: entry.name,
+          path: entry.path,
+          size: 0,
+          type: TREE_ENTRY_TYPES[entry.type],
+        });
+      }
+      if (tree.length < TREE_PAGE_SIZE) {
+        return entries;
+      }
+    }
+  }
+
+  protected async fetchFileContent(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string,
+  ): Promise<string> {
+    return this.requestText(
+      `${this.getProjectEndpoint(owner, repo)}/repository/files/${encodeURIComponent(path)}/raw`,
+      path,
+      { ref },
+    );
+  }
+
+  private getProjectEndpoint(owner: string, repo: string): string {
+    return `projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+  }
+}
@@ -0,0 +1,207 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { writeMcpStandInServer } from "../test-utils/mcp-stand-in-server.js";
+import { setupTestDirectory } from "../test-utils/test-directories.js";
+import type { McpServers } from "../types/mcp.js";
+import { type McpServerCheck, checkMcpServers, formatMcpServerChecks } from "./mcp-check.js";
+
+describe("checkMcpServers", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+  let standInPath: string;
+
+  const standIn = (overrides: Partial<McpServers[string]> = {}): McpServers[string] => ({
+    type: "stdio",
+    command: process.execPath,
+    args: [standInPath],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+    standInPath = await writeMcpStandInServer(testDir);
+  });
+
+  afterEach(async () => {
+    await cleanup();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("should report the version and tools of a working server", async () => {
+    const results = await checkMcpServers({
+      mcpServers: { standin: standIn({ enabledTools: ["echo"], disabledTools: ["env"] }) },
+      version: "1.0.0",
+    });
+
+    expect(results).toEqual([
+      {
+        serverName: "standin",
+        transport: "stdio",
+        status: "ok",
+        serverInfo: { name: "stand-in", version: "1.0.0" },
+        tools: ["echo", "env"],
+      },
+    ]);
+  });
+
+  it("should report tools in enabledTools and disabledTools that the server does not have", async () => {
+    const [result] = await checkMcpServers({
+      mcpServers: { standin: standIn({ enabledTools: ["echo", "search"], disabledTools: ["x"] }) },
+      version: "1.0.0",
+    });
+
+    expect(result?.status).toBe("invalid");
+    expect(result?.error).toBe(
+      "enabledTools lists tools the server does not have: search; disabledTools lists tools the server does not have: x",
+    );
+  });
+
+  it("should stop listing tools when the server repeats a cursor", async () => {
+    vi.spyOn(Client.prototype, "listTools").mockResolvedValue({
+      tools: [{ name: "echo", inputSchema: { type: "object" } }],
+      nextCursor: "next",
+    });
+
+    const [result] = await checkMcpServers({
+      mcpServers: { standin: standIn() },
+      version: "1.0.0",
+    });
+
+    expect(result?.status).toBe("failed");
+    expect(result?.error).toBe('Error: Server returned the cursor "next" twice');
+  });
+
+  it("should keep the result of a server that fails to close", async () => {
+    const close = Client.prototype.close;
+    vi.spyOn(Client.prototype, "close").mockImplementation(async function (this: Client) {
+      await close.call(this);
+      throw new Error("Close failed");
+    });
+
+    const [result] = await checkMcpServers({
+      mcpServers: { standin: standIn() },
+      version: "1.0.0",
+    });
+
+    expect(result?.status).toBe("ok");
+  });
+
+  it("should report a missing command", async () => {
+    const [result] = await checkMcpServers({
+      mcpServers: { missing: { type: "stdio", command: "rulesync-missing-mcp-server" } },
+      version: "1.0.0",
+    });
+
+    expect(result?.status).toBe("failed");
+    expect(result?.error).toContain("ENOENT");
+  });
+
+  it("should report the stderr of a server that exits", async () => {
+    const [result] = await checkMcpServers({
+      mcpServers: {
+        crashing: {
+          type: "stdio",
+          command: process.execPath,
+          args: ["-e", "console.error('unknown option --bad'); process.exit(1)", "--", "--bad"],
+        },
+      },
+      version: "1.0.0",
+    });
+
+    expect(result?.status).toBe("failed");
+    expect(result?.stderr).toBe("unknown option --bad");
+  });
+
+  it("should time out a server that does not answer", async () => {
+    const [result] = await checkMcpServers({
+      mcpServers: {
+        silent: {
+          type: "stdio",
+          command: process.execPath,
+          args: ["-e", "setInterval(() => {}, 1000)"],
+        },
+      },
+      timeoutMs: 200,
+      version: "1.0.0",
+    });
+
+    expect(result).toMatchObject({ status: "failed", error: "No response within 200ms" });
+  });
+
+  it("should start servers with their env and cwd, resolving env placeholders", async () => {
+    vi.stubEnv("STAND_IN_TOKEN", "secret");
+
+    const [resolved, unset] = await checkMcpServers({
+      mcpServers: {
+        resolved: standIn({ cwd: testDir, env: { STAND_IN_VALUE: "${env:STAND_IN_TOKEN}" } }),
+        unset: standIn({ env: { STAND_IN_VALUE: "${env:RULESYNC_UNSET_TOKEN}" } }),
+      },
+      version: "1.0.0",
+    });
+
+    expect(resolved?.status).toBe("ok");
+    expect(unset).toMatchObject({
+      status: "failed",
+      error:
+        "McpEnvPlaceholderError: Environment variable RULESYNC_UNSET_TOKEN used by mcpServers.unset.env is not set.",
+    });
+  });
+
+  it("should probe the URL of remote servers and skip disabled servers", async () => {
+    const results = await checkMcpServers({
+      mcpServers: {
+        remote: { type: "http", url: "http://127.0.0.1:1/mcp" },
+        legacy: { type: "sse", url: "http://127.0.0.1:1/sse" },
+        off: standIn({ disabled: true }),
+        empty: {},
+      },
+      version: "1.0.0",
+    });
+
+    expect(
+      results.map(({ serverName, transport, status }) => [serverName, transport, status]),
+    ).toEqual([
+      ["remote", "http", "failed"],
+      ["legacy", "sse", "failed"],
+      ["off", "stdio", "disabled"],
+      ["empty", undefined, "failed"],
+    ]);
+    expect(results[3]?.error).toBe(
+      'McpTransportError: MCP server "empty" has neither a command nor a URL.',
+    );
+  });
+});
+
+describe("formatMcpServerChecks", () => {
+  it("should format a table followed by the problems", () => {
+    const results: McpServerCheck[] = [
+      {
+        serverName: "standin",
+        transport: "stdio",
+        status: "ok",
+        serverInfo: { name: "stand-in", version: "1.0.0" },
+        tools: ["echo", "env"],
+      },
+      {
+        serverName: "crashing",
+        transport: "stdio",
+        status: "failed",
+        error: "MCP error -32000: Connection closed",
+        stderr: "unknown option --bad",
+      },
+    ];
+
+    expect(formatMcpServerChecks(results)).toBe(
+      [
+        "Server    Transport  Status  Version         Tools",
+        "standin   stdio      ok      stand-in@1.0.0  echo, env",
+        "crashing  stdio      failed  -               -",
+        "",
+        "crashing: MCP error -32000: Connection closed",
+        "  unknown option --bad",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,183 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+import { translateEnvPlaceholders } from "../features/mcp/mcp-env-placeholders.js";
+import {
+  type McpTransportType,
+  createMcpClientTransport,
+  getMcpTransportType,
+  listAllPages,
+} from "../mcp/transport.js";
+import type { McpServers } from "../types/mcp.js";
+import { formatError } from "../utils/error.js";
+
+/** Time a server has to answer the initialize handshake and each `tools/list` request. */
+export const DEFAULT_MCP_CHECK_TIMEOUT_MS = 10_000;
+
+/** Number of trailing stderr lines kept from a stdio server that failed. */
+const STDERR_TAIL_LINES = 5;
+
+/**
+ * - `ok`: the server answered the handshake and lists every tool its config refers to
+ * - `invalid`: the server answered, but `enabledTools` or `disabledTools` names a tool it lacks
+ * - `failed`: the server could not be started or reached, or did not answer in time
+ * - `disabled`: the server is disabled and was not started
+ */
+export type McpServerCheckStatus = "ok" | "invalid" | "failed" | "disabled";
+
+export type McpServerCheck = {
+  serverName: string;
+  transport?: McpTransportType;
+  status: McpServerCheckStatus;
+  /** Name and version the server reported in the initialize handshake. */
+  serverInfo?: { name: string; version: string };
+  tools?: string[];
+  error?: string;
+  /** Last lines a stdio server wrote to stderr before it failed. */
+  stderr?: string;
+};
+
+/**
+ * Find the entries of `enabledTools` and `disabledTools` that are not tools of the server.
+ * @returns A description of the unknown entries, or null when there are none
+ */
+function findUnknownTools(server: McpServers[string], tools: string[]): string | null {
+  const problems = (["enabledTools", "disabledTools"] as const).flatMap((field) => {
+    const unknown = (server[field] ?? []).filter((name) => !tools.includes(name));
+    return unknown.length > 0
+      ? [`${field} lists tools the server does not have: ${unknown.join(", ")}`]
+      : [];
+  });
+  return problems.length > 0 ? problems.join("; ") : null;
+}
+
+function formatCheckError(error: unknown, timeoutMs: number): string {
+  if (error instanceof McpError && error.code === ErrorCode.RequestTimeout) {
+    return `No response within ${timeoutMs}ms`;
+  }
+  // Network errors of fetch only say "fetch failed"; the reason is in the cause
+  if (error instanceof Error && error.cause instanceof Error) {
+    return `${formatError(error)} (${error.cause.message})`;
+  }
+  return formatError(error);
+}
+
+async function checkMcpServer({
+  serverName,
+  server,
+  timeoutMs,
+  version,
+}: {
+  serverName: string;
+  server: McpServers[string];
+  timeoutMs: number;
+  version: string;
+}): Promise<McpServerCheck> {
+  const transport = getMcpTransportType(server) ?? undefined;
+  if (server.disabled) {
+    return { serverName, transport, status: "disabled" };
+  }
+
+  const client = new Client({ name: "rulesync", version });
+  let stderr = "";
+  try {
+    const resolved = translateEnvPlaceholders({
+      mcpServers: { [serverName]: server },
+      syntax: null,
+      toolTarget: "rulesync",
+      resolveEnv: true,
+    }).mcpServers[serverName];
+    const clientTransport = createMcpClientTransport({
+      serverName,
+      server: resolved ?? server,
+      stderr: "pipe",
+    });
+    if (clientTransport instanceof StdioClientTransport) {
+      clientTransport.stderr?.on("data", (chunk: Buffer) => {
+        stderr += chunk.toString();
+      });
+    }
+
+    await client.connect(clientTransport, { timeout: timeoutMs });
+    const serverInfo = client.getServerVersion();
+    const tools = await listAllPages(async (cursor) => {
+      const page = await client.listTools({ cursor }, { timeout: timeoutMs });
+      return { items: page.tools.map(({ name }) => name), nextCursor: page.nextCursor };
+    });
+
+    const unknownTools = findUnknownTools(server, tools);
+    return {
+      serverName,
+      transport,
+      status: unknownTools ? "invalid" : "ok",
+      serverInfo: serverInfo && { name: serverInfo.name, version: serverInfo.version },
+      tools,
+      ...(unknownTools && { error: unknownTools }),
+    };
+  } catch (error) {
+    const stderrTail = stderr.trimEnd().split("\n").slice(-STDERR_TAIL_LINES).join("\n");
+    return {
+      serverName,
+      transport,
+      status: "failed",
+      error: formatCheckError(error, timeoutMs),
+      ...(stderrTail && { stderr: stderrTail }),
+    };
+  } finally {
+    // A failure to close must not replace the result, nor reject the check of every server
+    await client.close().catch(() => {});
+  }
+}
+
+/**
+ * Start or reach each server the way a tool would, perform the initialize handshake and list
+ * its tools. Servers are checked concurrently and failures are reported per server.
+ */
+export async function checkMcpServers({
+  mcpServers,
+  timeoutMs = DEFAULT_MCP_CHECK_TIMEOUT_MS,
+  version,
+}: {
+  mcpServers: McpServers;
+  timeoutMs?: number;
+  version: string;
+}): Promise<McpServerCheck[]> {
+  return Promise.all(
+    Object.entries(mcpServers).map(([serverName, server]) =>
+      checkMcpServer({ serverName, server, timeoutMs, version }),
+    ),
+  );
+}
+
+export function formatMcpServerChecks(results: McpServerCheck[]): string {
+  const rows = [
+    ["Server", "Transport", "Status", "Version", "Tools"],
+    ...results.map((result) => [
+      result.serverName,
+      result.transport ?? "-",
+      result.status,
+      result.serverInfo ? `${result.serverInfo.name}@${result.serverInfo.version}` : "-",
+      result.tools ? result.tools.join(", ") || "(none)" : "-",
+    ]),
+  ];
+  const widths = rows[0]?.map((_, column) =>
+    Math.max(...rows.map((row) => row[column]?.length ?? 0)),
+  );
+  const table = rows.map((row) =>
+    row
+      .map((cell, column) => cell.padEnd(widths?.[column] ?? 0))
+      .join("  ")
+      .trimEnd(),
+  );
+
+  const problems = results.flatMap((result) =>
+    result.error
+      ? [
+          `${result.serverName}: ${result.error}`,
+          ...(result.stderr?.split("\n").map((line) => `  ${line}`) ?? []),
+        ]
+      : [],
+  );
+  return [...table, ...(problems.length > 0 ? ["", ...problems] : [])].join("\n");
+}
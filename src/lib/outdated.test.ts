@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { resolveDefaultRef, resolveRefToSha } from "./git-client.js";
+import { checkOutdatedSources, formatOutdatedSources } from "./outdated.js";
+import { readSnapshotSource } from "./source-snapshot.js";
+import { readLockFile } from "./sources-lock.js";
+
+let mockClientInstance: any;
+
+vi.mock("./github-client.js", () => ({
+  GitHubClient: class MockGitHubClient {
+    static resolveToken = vi.fn().mockReturnValue(undefined);
+
+    getDefaultBranch(...args: any[]) {
+      return mockClientInstance.getDefaultBranch(...args);
+    }
+    resolveRefToSha(...args: any[]) {
+      return mockClientInstance.resolveRefToSha(...args);
+    }
+    listTags(...args: any[]) {
+      return mockClientInstance.listTags(...args);
+    }
+  },
+}));
+
+vi.mock("./git-client.js", () => ({
+  listRemoteTags: vi.fn(),
+  resolveDefaultRef: vi.fn(),
+  resolveRefToSha: vi.fn(),
+}));
+
+vi.mock("./source-snapshot.js", () => ({
+  readSnapshotSource: vi.fn(),
+}));
+
+vi.mock("./sources-lock.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./sources-lock.js")>();
+  return { ...actual, readLockFile: vi.fn() };
+});
+
+const OLD_SHA = "a".repeat(40);
+const NEW_SHA = "b".repeat(40);
+
+describe("checkOutdatedSources", () => {
+  beforeEach(() => {
+    mockClientInstance = {
+      getDefaultBranch: vi.fn().mockResolvedValue("main"),
+      resolveRefToSha: vi.fn().mockResolvedValue(NEW_SHA),
+      listTags: vi.fn().mockResolvedValue([]),
+    };
+    vi.mocked(readLockFile).mockResolvedValue({
+      lockfileVersion: 1,
+      sources: {
+        "org/repo": { requestedRef: "v1", resolvedRef: OLD_SHA, skills: {} },
+        "org/current": { requestedRef: "main", resolvedRef: NEW_SHA, skills: {} },
+        "../shared": { resolvedRef: "sha256-old", skills: {} },
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should compare locked refs with the tip of the requested refs", async () => {
+    const results = await checkOutdatedSources({
+      sources: [
+        { source: "https://github.com/org/repo" },
+        { source: "org/current" },
+        { source: "org/new" },
+      ],
+      baseDir: "/project",
+    });
+
+    expect(results).toEqual([
+      {
+        source: "https://github.com/org/repo",
+        requestedRef: "v1",
+        lockedRef: OLD_SHA,
+        latestRef: NEW_SHA,
+        status: "outdated",
+      },
+      {
+        source: "org/current",
+        requestedRef: "main",
+        lockedRef: NEW_SHA,
+        latestRef: NEW_SHA,
+        status: "up-to-date",
+      },
+      {
+        source: "org/new",
+        requestedRef: "main",
+        lockedRef: undefined,
+        latestRef: NEW_SHA,
+        status: "not-installed",
+      },
+    ]);
+    // The requested ref recorded in the lockfile is checked
+    expect(mockClientInstance.resolveRefToSha).toHaveBeenCalledWith("org", "repo", "v1");
+  });
+
+  it("should check git, local and GitLab sources", async () => {
+    vi.mocked(resolveDefaultRef).mockResolvedValue({ ref: "main", sha: NEW_SHA });
+    vi.mocked(readSnapshotSource).mockResolvedValue({
+      files: [],
+      skillsPath: "skills",
+      integrity: "sha256-old",
+    });
+
+    const results = await checkOutdatedSources({
+      sources: [
+        { source: "file:///repo", transport: "git" },
+        { source: "../shared", transport: "local" },
+        { source: "https://gitlab.com/org/repo" },
+      ],
+      baseDir: "/project",
+    });
+
+    expect(results.map((result) => result.status)).toEqual([
+      "not-installed",
+      "up-to-date",
+      "unsupported",
+    ]);
+    expect(resolveRefToSha).not.toHaveBeenCalled();
+  });
+
+  it("should check semver ranges against the highest matching tag", async () => {
+    vi.mocked(readLockFile).mockResolvedValue({
+      lockfileVersion: 1,
+      sources: {
+        "org/repo@^1.4": {
+          requestedRef: "^1.4",
+          resolvedTag: "v1.4.2",
+          resolvedRef: OLD_SHA,
+          skills: {},
+        },
+      },
+    });
+    mockClientInstance.listTags.mockResolvedValue([
+      { name: "v1.4.2", sha: OLD_SHA },
+      { name: "v1.5.0", sha: NEW_SHA },
+      { name: "v2.0.0", sha: "c".repeat(40) },
+    ]);
+
+    const results = await checkOutdatedSources({
+      sources: [{ source: "org/repo@^1.4" }],
+      baseDir: "/project",
+    });
+
+    expect(results).toEqual([
+      {
+        source: "org/repo@^1.4",
+        requestedRef: "^1.4",
+        lockedRef: OLD_SHA,
+        lockedTag: "v1.4.2",
+        latestRef: NEW_SHA,
+        latestTag: "v1.5.0",
+        status: "outdated",
+      },
+    ]);
+    expect(formatOutdatedSources(results)).toContain("^1.4  v1.4.2  v1.5.0  outdated");
+  });
+
+  it("should report sources that could not be checked", async () => {
+    mockClientInstance.resolveRefToSha.mockRejectedValue(new Error("Not Found"));
+
+    const results = await checkOutdatedSources({
+      sources: [{ source: "org/repo" }],
+      baseDir: "/project",
+    });
+
+    expect(results).toEqual([
+      { source: "org/repo", lockedRef: OLD_SHA, status: "error", error: "Not Found" },
+    ]);
+  });
+});
+
+describe("formatOutdatedSources", () => {
+  it("should align columns and abbreviate refs", () => {
+    expect(
+      formatOutdatedSources([
+        {
+          source: "org/repo",
+          requestedRef: "main",
+          lockedRef: OLD_SHA,
+          latestRef: NEW_SHA,
+          status: "outdated",
+        },
+        {
+          source: "../shared",
+          lockedRef: `sha256-${"c".repeat(64)}`,
+          status: "error",
+          error: "Not Found",
+        },
+      ]),
+    ).toBe(
+      [
+        "Source     Ref   Locked               Latest        Status",
+        "org/repo   main  aaaaaaaaaaaa         bbbbbbbbbbbb  outdated",
+        "../shared  -     sha256-cccccccccccc  -             error: Not Found",
+      ].join("\n"),
+    );
+  });
+});
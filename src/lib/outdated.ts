@@ -0,0 +1,179 @@
+import type { SourceEntry } from "../config/config.js";
+import { isSemverRange, selectSemverTag } from "../utils/semver.js";
+import { listRemoteTags, resolveDefaultRef, resolveRefToSha } from "./git-client.js";
+import { GitHubClient } from "./github-client.js";
+import { parseSource } from "./source-parser.js";
+import { readSnapshotSource } from "./source-snapshot.js";
+import { type SourcesLock, getLockedSource, readLockFile } from "./sources-lock.js";
+
+export type OutdatedSourceStatus =
+  | "up-to-date"
+  | "outdated"
+  | "not-installed"
+  | "unsupported"
+  | "error";
+
+export type OutdatedSource = {
+  source: string;
+  /** Branch, tag or semver range the source tracks. Absent for local and tarball sources. */
+  requestedRef?: string;
+  /** Commit SHA, or content hash for local and tarball sources, recorded in the lockfile. */
+  lockedRef?: string;
+  /** Tag recorded in the lockfile for a semver range. */
+  lockedTag?: string;
+  /** Current commit SHA of `requestedRef`, or current content hash. */
+  latestRef?: string;
+  /** Highest tag currently satisfying a semver range. */
+  latestTag?: string;
+  status: OutdatedSourceStatus;
+  error?: string;
+};
+
+type LatestRef = { requestedRef?: string; latestRef: string; latestTag?: string };
+
+/**
+ * Compare the locked ref of each declared source with the current tip of the ref it tracks,
+ * without fetching or changing anything. Failures are reported per source.
+ */
+export async function checkOutdatedSources({
+  sources,
+  baseDir = process.cwd(),
+  token,
+}: {
+  sources: SourceEntry[];
+  baseDir?: string;
+  token?: string;
+}): Promise<OutdatedSource[]> {
+  const lock = await readLockFile({ baseDir });
+  const client = new GitHubClient({ token: GitHubClient.resolveToken(token) });
+
+  const results: OutdatedSource[] = [];
+  for (const sourceEntry of sources) {
+    const locked = getLockedSource(lock, sourceEntry.source);
+    const lockedRef = locked?.resolvedRef;
+    try {
+      const latest = await resolveLatestRef({ sourceEntry, lock, client, baseDir });
+      if (!latest) {
+        results.push({ source: sourceEntry.source, lockedRef, status: "unsupported" });
+        continue;
+      }
+      results.push({
+        source: sourceEntry.source,
+        ...latest,
+        lockedRef,
+        lockedTag: locked?.resolvedTag,
+        status: !lockedRef
+          ? "not-installed"
+          : lockedRef === latest.latestRef
+            ? "up-to-date"
+            : "outdated",
+      });
+    } catch (error) {
+      results.push({
+        source: sourceEntry.source,
+        lockedRef,
+        status: "error",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return results;
+}
+
+/**
+ * Resolve the ref a source tracks the same way `install --update` does, except that the
+ * requested ref recorded in the lockfile takes precedence unless a different semver range is
+ * configured. Returns null for GitLab sources.
+ */
+async function resolveLatestRef(params: {
+  sourceEntry: SourceEntry;
+  lock: SourcesLock;
+  client: GitHubClient;
+  baseDir: string;
+}): Promise<LatestRef | null> {
+  const { sourceEntry, lock, client, baseDir } = params;
+  const lockedRequestedRef = getLockedSource(lock, sourceEntry.source)?.requestedRef;
+  const transport = sourceEntry.transport ?? "github";
+
+  if (transport === "local" || transport === "tarball") {
+    const { integrity } = await readSnapshotSource({ sourceEntry, baseDir });
+    return { latestRef: integrity };
+  }
+
+  if (transport === "git") {
+    const url = sourceEntry.source;
+    const range = sourceEntry.ref && isSemverRange(sourceEntry.ref) ? sourceEntry.ref : undefined;
+    const requestedRef = range ?? lockedRequestedRef ?? sourceEntry.ref;
+    if (requestedRef && isSemverRange(requestedRef)) {
+      return selectLatestTag(requestedRef, await listRemoteTags(url));
+    }
+    if (!requestedRef) {
+      const def = await resolveDefaultRef(url);
+      return { requestedRef: def.ref, latestRef: def.sha };
+    }
+    return { requestedRef, latestRef: await resolveRefToSha(url, requestedRef) };
+  }
+
+  const parsed = parseSource(sourceEntry.source);
+  if (parsed.provider !== "github") {
+    return null;
+  }
+  const range = parsed.ref && isSemverRange(parsed.ref) ? parsed.ref : undefined;
+  const requestedRef =
+    range ??
+    lockedRequestedRef ??
+    parsed.ref ??
+    (await client.getDefaultBranch(parsed.owner, parsed.repo));
+  if (isSemverRange(requestedRef)) {
+    return selectLatestTag(requestedRef, await client.listTags(parsed.owner, parsed.repo));
+  }
+  return {
+    requestedRef,
+    latestRef: await client.resolveRefToSha(parsed.owner, parsed.repo, requestedRef),
+  };
+}
+
+function selectLatestTag(range: string, tags: Array<{ name: string; sha: string }>): LatestRef {
+  const { tag } = selectSemverTag(tags, range);
+  if (!tag) {
+    throw new Error(`No tag satisfies the range "${range}"`);
+  }
+  return { requestedRef: range, latestRef: tag.sha, latestTag: tag.name };
+}
+
+/**
+ * Format outdated check results as a table with abbreviated refs.
+ */
+export function formatOutdatedSources(results: OutdatedSource[]): string {
+  const rows = [
+    ["Source", "Ref", "Locked", "Latest", "Status"],
+    ...results.map((result) => [
+      result.source,
+      result.requestedRef ?? "-",
+      result.lockedTag ?? (result.lockedRef ? abbreviateRef(result.lockedRef) : "-"),
+      result.latestTag ?? (result.latestRef ? abbreviateRef(result.latestRef) : "-"),
+      result.error ? `${result.status}: ${result.error}` : result.status,
+    ]),
+  ];
+  const widths = rows[0]?.map((_, column) =>
+    Math.max(...rows.map((row) => row[column]?.length ?? 0)),
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths?.[column] ?? 0))
+        .join("  ")
+        .trimEnd(),
+    )
+    .join("\n");
+}
+
+function abbreviateRef(ref: string): string {
+  if (/^[0-9a-f]{40}$/i.test(ref)) {
+    return ref.slice(0, 12);
+  }
+  if (ref.startsWith("sha256-")) {
+    return ref.slice(0, "sha256-".length + 12);
+  }
+  return ref;
+}
@@ -0,0 +1,159 @@
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { RULESYNC_SKILL_OVERLAYS_RELATIVE_DIR_PATH } from "../constants/rulesync-paths.js";
+import { setupTestDirectory } from "../test-utils/test-directories.js";
+import { ensureDir, writeFileContent } from "../utils/file.js";
+import { SkillOverlayError, applySkillOverlay, readSkillOverlay } from "./skill-overlays.js";
+
+vi.mock("../utils/logger.js", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const skillPatch = [
+  "--- a/SKILL.md",
+  "+++ b/SKILL.md",
+  "@@ -1,2 +1,2 @@",
+  " # My Skill",
+  "-Run npm test.",
+  "+Run pnpm test.",
+  "",
+].join("\n");
+
+describe("readSkillOverlay", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it("should return null when the skill has no overlay", async () => {
+    expect(await readSkillOverlay({ baseDir: testDir, skillName: "my-skill" })).toBeNull();
+
+    await ensureDir(join(testDir, RULESYNC_SKILL_OVERLAYS_RELATIVE_DIR_PATH, "my-skill"));
+    expect(await readSkillOverlay({ baseDir: testDir, skillName: "my-skill" })).toBeNull();
+  });
+
+  it("should split patches from overlay files", async () => {
+    const overlayDir = join(testDir, RULESYNC_SKILL_OVERLAYS_RELATIVE_DIR_PATH, "my-skill");
+    await writeFileContent(join(overlayDir, "b.diff"), "b");
+    await writeFileContent(join(overlayDir, "a.patch"), "a");
+    await writeFileContent(join(overlayDir, "scripts", "run.sh"), "echo hi");
+    await writeFileContent(join(overlayDir, "scripts", "fix.patch"), "not a patch");
+
+    const overlay = await readSkillOverlay({ baseDir: testDir, skillName: "my-skill" });
+
+    expect(overlay?.patches).toEqual([
+      { name: "a.patch", content: "a" },
+      { name: "b.diff", content: "b" },
+    ]);
+    expect(overlay?.files).toEqual(
+      expect.arrayContaining([
+        { relativePath: "scripts/run.sh", content: "echo hi" },
+        { relativePath: "scripts/fix.patch", content: "not a patch" },
+      ]),
+    );
+    expect(overlay?.integrity).toMatch(/^sha256-/);
+  });
+
+  it("should change the integrity when the overlay changes", async () => {
+    const patchPath = join(
+      testDir,
+      RULESYNC_SKILL_OVERLAYS_RELATIVE_DIR_PATH,
+      "my-skill",
+      "a.patch",
+    );
+    await writeFileContent(patchPath, "a");
+    const before = await readSkillOverlay({ baseDir: testDir, skillName: "my-skill" });
+    await writeFileContent(patchPath, "b");
+    const after = await readSkillOverlay({ baseDir: testDir, skillName: "my-skill" });
+
+    expect(after?.integrity).not.toBe(before?.integrity);
+  });
+});
+
+describe("applySkillOverlay", () => {
+  const files = [
+    { path: "SKILL.md", content: "# My Skill\nRun npm test.\n" },
+    { path: "scripts/run.sh", content: "npm test\n" },
+  ];
+
+  it("should apply patches, then overlay files", () => {
+    const result = applySkillOverlay({
+      skillName: "my-skill",
+      sourceKey: "org/repo",
+      files,
+      overlay: {
+        patches: [{ name: "test.patch", content: skillPatch }],
+        files: [{ relativePath: "scripts/run.sh", content: "pnpm test\n" }],
+        integrity: "sha256-overlay",
+      },
+    });
+
+    expect(result).toEqual([
+      { path: "SKILL.md", content: "# My Skill\nRun pnpm test.\n" },
+      { path: "scripts/run.sh", content: "pnpm test\n" },
+    ]);
+  });
+
+  it("should add and delete files", () => {
+    const patch = [
+      "--- /dev/null",
+      "+++ b/NOTES.md",
+      "@@ -0,0 +1 @@",
+      "+Notes",
+      "--- a/scripts/run.sh",
+      "+++ /dev/null",
+      "@@ -1 +0,0 @@",
+      "-npm test",
+      "",
+    ].join("\n");
+
+    const result = applySkillOverlay({
+      skillName: "my-skill",
+      sourceKey: "org/repo",
+      files,
+      overlay: { patches: [{ name: "a.patch", content: patch }], files: [], integrity: "x" },
+    });
+
+    expect(result.map((file) => file.path)).toEqual(["SKILL.md", "NOTES.md"]);
+  });
+
+  it("should throw when a patch no longer applies", () => {
+    expect(() =>
+      applySkillOverlay({
+        skillName: "my-skill",
+        sourceKey: "org/repo",
+        files: [{ path: "SKILL.md", content: "# My Skill\nRun yarn test.\n" }],
+        overlay: {
+          patches: [{ name: "test.patch", content: skillPatch }],
+          files: [],
+          integrity: "x",
+        },
+      }),
+    ).toThrow(SkillOverlayError);
+  });
+
+  it("should throw when a patch targets a missing file", () => {
+    expect(() =>
+      applySkillOverlay({
+        skillName: "my-skill",
+        sourceKey: "org/repo",
+        files: [],
+        overlay: {
+          patches: [{ name: "test.patch", content: skillPatch }],
+          files: [],
+          integrity: "x",
+        },
+      }),
+    ).toThrow(
+      /no longer applies to "SKILL\.md" of skill "my-skill" from org\/repo: the file to patch does not exist/,
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import { join } from "node:path";
+
+import { RULESYNC_SKILL_OVERLAYS_RELATIVE_DIR_PATH } from "../constants/rulesync-paths.js";
+import { applyFilePatch, parseUnifiedDiff } from "../utils/diff.js";
+import { formatError } from "../utils/error.js";
+import { directoryExists } from "../utils/file.js";
+import { readDirectoryFiles } from "./source-snapshot.js";
+import { computeSkillIntegrity } from "./sources-lock.js";
+
+/** Files at the top of an overlay directory with these extensions are applied as patches. */
+const PATCH_FILE_EXTENSIONS = [".patch", ".diff"];
+
+/**
+ * Thrown when the overlay of a curated skill cannot be applied, typically because a patch no
+ * longer matches the skill after an upstream update.
+ */
+export class SkillOverlayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SkillOverlayError";
+  }
+}
+
+/**
+ * Local changes to a curated skill, kept in `.rulesync/skills/.overlays/<name>/` so that they
+ * survive re-installs.
+ */
+export type SkillOverlay = {
+  /** Unified diffs applied to the fetched skill, in file name order. */
+  patches: Array<{ name: string; content: string }>;
+  /** Files added to the skill or replacing its files, relative to the skill directory. */
+  files: Array<{ relativePath: string; content: string }>;
+  /** Hash of the overlay directory, recorded in the lockfile. */
+  integrity: string;
+};
+
+/**
+ * Read the overlay of a curated skill. Returns null when the skill has no overlay.
+ */
+export async function readSkillOverlay(params: {
+  baseDir: string;
+  skillName: string;
+}): Promise<SkillOverlay | null> {
+  const overlayDir = join(
+    params.baseDir,
+    RULESYNC_SKILL_OVERLAYS_RELATIVE_DIR_PATH,
+    params.skillName,
+  );
+  if (!(await directoryExists(overlayDir))) {
+    return null;
+  }
+  const overlayFiles = await readDirectoryFiles(overlayDir);
+  if (overlayFiles.length === 0) {
+    return null;
+  }
+
+  return {
+    patches: overlayFiles
+      .filter((file) => isPatch(file.relativePath))
+      .map((file) => ({ name: file.relativePath, content: file.content }))
+      .toSorted((a, b) => a.name.localeCompare(b.name)),
+    files: overlayFiles.filter((file) => !isPatch(file.relativePath)),
+    integrity: computeSkillIntegrity(
+      overlayFiles.map((file) => ({ path: file.relativePath, content: file.content })),
+    ),
+  };
+}
+
+function isPatch(relativePath: string): boolean {
+  return (
+    !relativePath.includes("/") && PATCH_FILE_EXTENSIONS.some((ext) => relativePath.endsWith(ext))
+  );
+}
+
+/**
+ * Apply an overlay to the files of a fetched skill: first its patches, then its files.
+ * Throws `SkillOverlayError` when a patch is invalid or does not apply.
+ */
+export function applySkillOverlay(params: {
+  skillName: string;
+  sourceKey: string;
+  files: Array<{ path: string; content: string }>;
+  overlay: SkillOverlay;
+}): Array<{ path: string; content: string }> {
+  const { skillName, sourceKey, overlay } = params;
+  const contents = new Map(params.files.map((file) => [file.path, file.content]));
+
+  for (const patch of overlay.patches) {
+    const patchPath = join(RULESYNC_SKILL_OVERLAYS_RELATIVE_DIR_PATH, skillName, patch.name);
+    let filePatches;
+    try {
+      filePatches = parseUnifiedDiff(patch.content);
+    } catch (error) {
+      throw new SkillOverlayError(`Invalid patch ${patchPath}: ${formatError(error)}`);
+    }
+
+    for (const filePatch of filePatches) {
+      const path = filePatch.newPath ?? filePatch.oldPath ?? "";
+      let patched: string | null;
+      try {
+        patched = applyFilePatch(
+          filePatch.oldPath === null ? null : (contents.get(filePatch.oldPath) ?? null),
+          filePatch,
+        );
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new SkillOverlayError(
+          `Patch ${patchPath} no longer applies to "${path}" of skill "${skillName}" from ${sourceKey}: ${reason}. Update or remove the patch.`,
+        );
+      }
+      if (filePatch.oldPath !== null && filePatch.oldPath !== filePatch.newPath) {
+        contents.delete(filePatch.oldPath);
+      }
+      if (filePatch.newPath !== null && patched !== null) {
+        contents.set(filePatch.newPath, patched);
+      }
+    }
+  }
+
+  for (const file of overlay.files) {
+    contents.set(file.relativePath, file.content);
+  }
+  return [...contents].map(([path, content]) => ({ path, content }));
+}
@@ -0,0 +1,186 @@
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod/mini";
+
+import { setupTestDirectory } from "../test-utils/test-directories.js";
+import { directoryExists, findFilesByGlobs, writeFileContent } from "../utils/file.js";
+import { OfflineSourceError, pruneSourceCache, SourceCache } from "./source-cache.js";
+
+vi.mock("../utils/logger.js", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const SHA = "0123456789abcdef0123456789abcdef01234567";
+const OTHER_SHA = "fedcba9876543210fedcba9876543210fedcba98";
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("SourceCache", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+    vi.clearAllMocks();
+  });
+
+  it("should fetch once and serve later lookups from the cache", async () => {
+    const cache = new SourceCache({ cacheDir: testDir });
+    const fetch = vi.fn().mockResolvedValue("# Rule");
+
+    const first = await cache.remember({
+      sha: SHA,
+      kind: "content",
+      path: "rules/a.md",
+      schema: z.string(),
+      fetch,
+    });
+    const second = await new SourceCache({ cacheDir: testDir }).remember({
+      sha: SHA,
+      kind: "content",
+      path: "rules/a.md",
+      schema: z.string(),
+      fetch,
+    });
+
+    expect(first).toBe("# Rule");
+    expect(second).toBe("# Rule");
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(await findFilesByGlobs(join(testDir, SHA, "content", "*.json"))).toHaveLength(1);
+  });
+
+  it("should cache paths that do not exist", async () => {
+    const cache = new SourceCache({ cacheDir: testDir });
+    const fetch = vi.fn().mockResolvedValue(null);
+
+    await cache.remember({ sha: SHA, kind: "listing", path: "x", schema: z.string(), fetch });
+    const result = await cache.remember({
+      sha: SHA,
+      kind: "listing",
+      path: "x",
+      schema: z.string(),
+      fetch,
+    });
+
+    expect(result).toBeNull();
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not cache refs that are not commit SHAs", async () => {
+    const cache = new SourceCache({ cacheDir: testDir });
+    const fetch = vi.fn().mockResolvedValue("# Rule");
+
+    await cache.remember({ sha: "main", kind: "content", path: "a", schema: z.string(), fetch });
+    await cache.remember({ sha: "main", kind: "content", path: "a", schema: z.string(), fetch });
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(await directoryExists(join(testDir, "main"))).toBe(false);
+  });
+
+  it("should refetch entries that do not match the schema", async () => {
+    const cache = new SourceCache({ cacheDir: testDir });
+    await cache.remember({
+      sha: SHA,
+      kind: "content",
+      path: "a",
+      schema: z.number(),
+      fetch: () => Promise.resolve(1),
+    });
+
+    const result = await cache.remember({
+      sha: SHA,
+      kind: "content",
+      path: "a",
+      schema: z.string(),
+      fetch: () => Promise.resolve("# Rule"),
+    });
+
+    expect(result).toBe("# Rule");
+  });
+
+  describe("offline", () => {
+    it("should serve cached entries without fetching", async () => {
+      await new SourceCache({ cacheDir: testDir }).remember({
+        sha: SHA,
+        kind: "content",
+        path: "a",
+        schema: z.string(),
+        fetch: () => Promise.resolve("# Rule"),
+      });
+      const fetch = vi.fn();
+
+      const result = await new SourceCache({ cacheDir: testDir, offline: true }).remember({
+        sha: SHA,
+        kind: "content",
+        path: "a",
+        schema: z.string(),
+        fetch,
+      });
+
+      expect(result).toBe("# Rule");
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it("should throw for entries that are not cached", async () => {
+      const cache = new SourceCache({ cacheDir: testDir, offline: true });
+      const fetch = vi.fn();
+
+      await expect(
+        cache.remember({ sha: SHA, kind: "content", path: "a", schema: z.string(), fetch }),
+      ).rejects.toThrow(OfflineSourceError);
+      await expect(
+        cache.remember({ sha: "main", kind: "content", path: "a", schema: z.string(), fetch }),
+      ).rejects.toThrow('Cannot fetch "a" at "main" offline: only commits are cached.');
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe("pruneSourceCache", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it("should remove stale entries and empty commit directories", async () => {
+    await writeFileContent(join(testDir, SHA, "content", "a.json"), "{}");
+    await writeFileContent(join(testDir, SHA, "listing", "b.json"), "{}");
+    await writeFileContent(join(testDir, OTHER_SHA, "content", "c.json"), "{}");
+
+    const result = await pruneSourceCache({
+      maxAgeDays: 30,
+      cacheDir: testDir,
+      now: new Date(Date.now() + 31 * DAY),
+    });
+
+    expect(result).toEqual({ removedCount: 3, remainingCount: 0 });
+    expect(await directoryExists(join(testDir, SHA))).toBe(false);
+    expect(await directoryExists(join(testDir, OTHER_SHA))).toBe(false);
+  });
+
+  it("should keep recently used entries", async () => {
+    await writeFileContent(join(testDir, SHA, "content", "a.json"), "{}");
+
+    const result = await pruneSourceCache({ maxAgeDays: 30, cacheDir: testDir });
+
+    expect(result).toEqual({ removedCount: 0, remainingCount: 1 });
+    expect(await directoryExists(join(testDir, SHA))).toBe(true);
+  });
+
+  it("should do nothing when the cache does not exist", async () => {
+    expect(await pruneSourceCache({ maxAgeDays: 0, cacheDir: join(testDir, "missing") })).toEqual({
+      removedCount: 0,
+      remainingCount: 0,
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { createHash } from "node:crypto";
+import { join } from "node:path";
+
+import { z } from "zod/mini";
+
+import { formatError } from "../utils/error.js";
+import {
+  directoryExists,
+  findFilesByGlobs,
+  getFileModifiedTime,
+  getHomeDirectory,
+  listDirectoryFiles,
+  readFileContent,
+  removeDirectory,
+  removeFile,
+  touchFile,
+  writeFileContent,
+} from "../utils/file.js";
+import { logger } from "../utils/logger.js";
+
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{40}$/;
+
+/**
+ * What a cache entry holds: a directory listing, the content of one file, or the files under
+ * one or more paths.
+ */
+export type SourceCacheEntryKind = "listing" | "content" | "files";
+
+/**
+ * Thrown when a source cannot be installed without network access: its ref is not locked,
+ * or the files at the locked commit are not in the cache.
+ */
+export class OfflineSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OfflineSourceError";
+  }
+}
+
+/**
+ * Directory of the source cache shared by all projects: `$XDG_CACHE_HOME/rulesync/sources`,
+ * or `~/.cache/rulesync/sources`.
+ */
+export function getSourceCacheDir(): string {
+  const cacheHome = process.env["XDG_CACHE_HOME"] || join(getHomeDirectory(), ".cache");
+  return join(cacheHome, "rulesync", "sources");
+}
+
+/**
+ * Content-addressed cache of files fetched from sources, keyed by commit SHA and path.
+ * The contents of a path at a commit never change, so entries never need to be refreshed.
+ * Refs that are not commit SHAs are never cached.
+ */
+export class SourceCache {
+  private readonly offline: boolean;
+  private cacheDir: string | undefined;
+
+  constructor(params: { cacheDir?: string; offline?: boolean } = {}) {
+    this.cacheDir = params.cacheDir;
+    this.offline = params.offline ?? false;
+  }
+
+  isOffline(): boolean {
+    return this.offline;
+  }
+
+  getCacheDir(): string {
+    this.cacheDir ??= getSourceCacheDir();
+    return this.cacheDir;
+  }
+
+  /**
+   * Return the cached value of a path at a commit, or fetch and cache it. `fetch` must read the
+   * path at `sha` itself, not at a branch or tag that pointed to it. `null` records that
+   * the path does not exist. When offline, a missing entry throws `OfflineSourceError`.
+   */
+  async remember<T>(params: {
+    sha: string;
+    kind: SourceCacheEntryKind;
+    path: string;
+    schema: z.ZodMiniType<T>;
+    fetch: () => Promise<T | null>;
+  }): Promise<T | null> {
+    const { sha, kind, path, schema, fetch } = params;
+    if (!COMMIT_SHA_PATTERN.test(sha)) {
+      if (this.offline) {
+        throw new OfflineSourceError(
+          `Cannot fetch "${path}" at "${sha}" offline: only commits are cached.`,
+        );
+      }
+      return fetch();
+    }
+
+    const entryPath = this.getEntryPath({ sha, kind, path });
+    const cached = await readEntry(entryPath, schema);
+    if (cached) {
+      logger.debug(`Using cached ${kind} of "${path}" at ${sha}`);
+      await touchFile(entryPath).catch(() => undefined);
+      return cached.value;
+    }
+    if (this.offline) {
+      throw new OfflineSourceError(
+        `"${path}" at ${sha} is not in the source cache (${this.getCacheDir()}). Run without --offline to fetch it.`,
+      );
+    }
+
+    const value = await fetch();
+    try {
+      await writeFileContent(entryPath, JSON.stringify({ path, value }));
+    } catch (error) {
+      logger.debug(`Failed to cache "${path}" at ${sha}: ${formatError(error)}`);
+    }
+    return value;
+  }
+
+  private getEntryPath(params: { sha: string; kind: SourceCacheEntryKind; path: string }): string {
+    const key = createHash("sha256").update(params.path).digest("hex");
+    return join(this.getCacheDir(), params.sha, params.kind, `${key}.json`);
+  }
+}
+
+/**
+ * Read a listing or file content at a commit through the cache. Paths that do not exist are
+ * cached too, and fail with the error of `notFoundError` like the API would.
+ */
+export async function rememberOrNotFound<T>(
+  cache: SourceCache,
+  params: {
+    sha: string;
+    kind: "listing" | "content";
+    path: string;
+    schema: z.ZodMiniType<T>;
+    fetch: () => Promise<T>;
+    /** Whether an error of `fetch` means that the path does not exist. */
+    isNotFound: (error: unknown) => boolean;
+    notFoundError: (path: string) => Error;
+  },
+): Promise<T> {
+  const { fetch, isNotFound, notFoundError, ...entry } = params;
+  const value = await cache.remember({
+    ...entry,
+    fetch: async () => {
+      try {
+        return await fetch();
+      } catch (error) {
+        if (isNotFound(error)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+  });
+  if (value === null) {
+    throw notFoundError(params.path);
+  }
+  return value;
+}
+
+async function readEntry<T>(
+  entryPath: string,
+  schema: z.ZodMiniType<T>,
+): Promise<{ value: T | null } | null> {
+  try {
+    const result = z
+      .object({ path: z.string(), value: z.nullable(schema) })
+      .safeParse(JSON.parse(await readFileContent(entryPath)));
+    return result.success ? { value: result.data.value } : null;
+  } catch {
+    return null;
+  }
+}
+
+export type PruneSourceCacheResult = {
+  removedCount: number;
+  remainingCount: number;
+};
+
+/**
+ * Remove the cache entries that have not been used for more than `maxAgeDays` days, and the
+ * commit directories left empty.
+ */
+export async function pruneSourceCache(params: {
+  maxAgeDays: number;
+  cacheDir?: string;
+  now?: Date;
+}): Promise<PruneSourceCacheResult> {
+  const { maxAgeDays, cacheDir = getSourceCacheDir(), now = new Date() } = params;
+  if (!(await directoryExists(cacheDir))) {
+    return { removedCount: 0, remainingCount: 0 };
+  }
+
+  const cutoff = now.getTime() - maxAgeDays * 24 * 60 * 60 * 1000;
+  let removedCount = 0;
+  let remainingCount = 0;
+  for (const entryPath of await findFilesByGlobs(join(cacheDir, "*", "*", "*.json"), {
+    type: "file",
+  })) {
+    if ((await getFileModifiedTime(entryPath)).getTime() <= cutoff) {
+      await removeFile(entryPath);
+      removedCount++;
+    } else {
+      remainingCount++;
+    }
+  }
+
+  for (const sha of await listDirectoryFiles(cacheDir)) {
+    const shaDir = join(cacheDir, sha);
+    if (!(await directoryExists(shaDir))) continue;
+    const kinds = await listDirectoryFiles(shaDir);
+    const hasEntries = await Promise.all(
+      kinds.map(async (kind) => (await listDirectoryFiles(join(shaDir, kind))).length > 0),
+    );
+    if (!hasEntries.includes(true)) {
+      await removeDirectory(shaDir);
+    }
+  }
+  return { removedCount, remainingCount };
+}
@@ -0,0 +1,205 @@
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  RULESYNC_CURATED_MCP_RELATIVE_FILE_PATH,
+  RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH,
+  RULESYNC_CURATED_SUBAGENTS_RELATIVE_DIR_PATH,
+} from "../constants/rulesync-paths.js";
+import { setupTestDirectory } from "../test-utils/test-directories.js";
+import { fileExists, readFileContent, writeFileContent } from "../utils/file.js";
+import { logger } from "../utils/logger.js";
+import {
+  checkLockedSourceFeaturesExist,
+  createInMemorySourceReader,
+  createSourceFeatureItemNames,
+  fetchSourceFeatures,
+  getSourceFeaturePaths,
+} from "./source-features.js";
+
+vi.mock("../utils/logger.js", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const reader = createInMemorySourceReader([
+  { relativePath: "rules/style.md", content: "# Style" },
+  { relativePath: "rules/team/review.md", content: "# Review" },
+  { relativePath: "rules/notes.txt", content: "ignored" },
+  { relativePath: "subagents/planner.md", content: "# Planner" },
+  { relativePath: "subagents/nested/helper.md", content: "# Helper" },
+  {
+    relativePath: "mcp.json",
+    content: JSON.stringify({
+      mcpServers: { github: { command: "gh-mcp" }, linear: { command: "linear-mcp" } },
+    }),
+  },
+]);
+
+describe("getSourceFeaturePaths", () => {
+  it("should list the directories and files of the selected features", () => {
+    expect(
+      getSourceFeaturePaths({ source: "org/repo", rules: ["*"], commands: [], hooks: ["*"] }),
+    ).toEqual({ directories: ["rules"], files: ["hooks.json"] });
+  });
+});
+
+describe("fetchSourceFeatures", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+    vi.clearAllMocks();
+  });
+
+  it("should write the selected items to their curated locations and lock them", async () => {
+    const { lockedFeatures, fetchedItemCounts } = await fetchSourceFeatures({
+      sourceEntry: { source: "org/repo", rules: ["*"], subagents: ["*"], mcp: ["github"] },
+      sourceKey: "org/repo",
+      reader,
+      baseDir: testDir,
+      locked: undefined,
+      resolvedSha: "sha",
+      alreadyFetchedItems: createSourceFeatureItemNames(),
+    });
+
+    expect(fetchedItemCounts).toEqual({ rules: 2, subagents: 1, mcp: 1 });
+    expect(Object.keys(lockedFeatures.rules ?? {})).toEqual(["style", "team/review"]);
+    expect(lockedFeatures.mcp?.github?.integrity).toMatch(/^sha256-/);
+    expect(
+      await readFileContent(
+        join(testDir, RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH, "team", "review.md"),
+      ),
+    ).toBe("# Review");
+    // Subagents are flat files
+    expect(
+      await fileExists(
+        join(testDir, RULESYNC_CURATED_SUBAGENTS_RELATIVE_DIR_PATH, "nested", "helper.md"),
+      ),
+    ).toBe(false);
+    expect(
+      JSON.parse(await readFileContent(join(testDir, RULESYNC_CURATED_MCP_RELATIVE_FILE_PATH))),
+    ).toEqual({ mcpServers: { github: { command: "gh-mcp" } } });
+  });
+
+  it("should skip items already fetched from an earlier source", async () => {
+    const alreadyFetchedItems = createSourceFeatureItemNames();
+    alreadyFetchedItems.rules.add("style");
+
+    const { lockedFeatures } = await fetchSourceFeatures({
+      sourceEntry: { source: "org/other", rules: ["*"] },
+      sourceKey: "org/other",
+      reader,
+      baseDir: testDir,
+      locked: undefined,
+      resolvedSha: "sha",
+      alreadyFetchedItems,
+    });
+
+    expect(Object.keys(lockedFeatures.rules ?? {})).toEqual(["team/review"]);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Skipping duplicate rule "style" from org/other: already fetched from another source.',
+    );
+  });
+
+  it("should replace items previously fetched from the same source only", async () => {
+    const curatedMcpPath = join(testDir, RULESYNC_CURATED_MCP_RELATIVE_FILE_PATH);
+    await writeFileContent(
+      curatedMcpPath,
+      JSON.stringify({ mcpServers: { old: { command: "old" }, other: { command: "other" } } }),
+    );
+    await writeFileContent(
+      join(testDir, RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH, "old.md"),
+      "Old",
+    );
+
+    const { lockedFeatures } = await fetchSourceFeatures({
+      sourceEntry: { source: "org/repo", mcp: ["linear"] },
+      sourceKey: "org/repo",
+      reader,
+      baseDir: testDir,
+      locked: {
+        resolvedRef: "sha",
+        skills: {},
+        rules: { old: { integrity: "sha256-old" } },
+        mcp: { old: { integrity: "sha256-old" } },
+      },
+      resolvedSha: "sha",
+      alreadyFetchedItems: createSourceFeatureItemNames(),
+    });
+
+    expect(lockedFeatures).toEqual({ mcp: { linear: { integrity: expect.any(String) } } });
+    expect(JSON.parse(await readFileContent(curatedMcpPath))).toEqual({
+      mcpServers: { other: { command: "other" }, linear: { command: "linear-mcp" } },
+    });
+    // Rules are no longer selected, so the previously fetched rule is removed
+    expect(
+      await fileExists(join(testDir, RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH, "old.md")),
+    ).toBe(false);
+  });
+
+  it("should fail for an invalid JSON file in the source", async () => {
+    await expect(
+      fetchSourceFeatures({
+        sourceEntry: { source: "org/repo", hooks: ["*"] },
+        sourceKey: "org/repo",
+        reader: createInMemorySourceReader([{ relativePath: "hooks.json", content: "{" }]),
+        baseDir: testDir,
+        locked: undefined,
+        resolvedSha: "sha",
+        alreadyFetchedItems: createSourceFeatureItemNames(),
+      }),
+    ).rejects.toThrow("Invalid hooks.json in org/repo");
+  });
+});
+
+describe("checkLockedSourceFeaturesExist", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it("should check that locked items exist and selected features are locked", async () => {
+    await writeFileContent(join(testDir, RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH, "style.md"), "");
+    const locked = {
+      resolvedRef: "sha",
+      skills: {},
+      rules: { style: { integrity: "sha256-style" } },
+    };
+
+    expect(
+      await checkLockedSourceFeaturesExist({
+        baseDir: testDir,
+        sourceEntry: { source: "org/repo", rules: ["*"] },
+        locked,
+      }),
+    ).toBe(true);
+    // A newly selected feature has not been fetched yet
+    expect(
+      await checkLockedSourceFeaturesExist({
+        baseDir: testDir,
+        sourceEntry: { source: "org/repo", rules: ["*"], mcp: ["*"] },
+        locked,
+      }),
+    ).toBe(false);
+    // A deselected feature still has curated items to remove
+    expect(
+      await checkLockedSourceFeaturesExist({
+        baseDir: testDir,
+        sourceEntry: { source: "org/repo" },
+        locked,
+      }),
+    ).toBe(false);
+  });
+});
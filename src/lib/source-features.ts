@@ -0,0 +1,376 @@
+import { join } from "node:path";
+
+import type { SourceEntry } from "../config/config.js";
+import {
+  RULESYNC_CURATED_COMMANDS_RELATIVE_DIR_PATH,
+  RULESYNC_CURATED_HOOKS_RELATIVE_FILE_PATH,
+  RULESYNC_CURATED_MCP_RELATIVE_FILE_PATH,
+  RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH,
+  RULESYNC_CURATED_SUBAGENTS_RELATIVE_DIR_PATH,
+} from "../constants/rulesync-paths.js";
+import { RulesyncMcpConfigSchema } from "../features/mcp/rulesync-mcp.js";
+import { HooksConfigSchema } from "../types/hooks.js";
+import { formatError } from "../utils/error.js";
+import {
+  checkPathTraversal,
+  fileExists,
+  readFileContentOrNull,
+  removeFile,
+  writeFileContent,
+} from "../utils/file.js";
+import { logger } from "../utils/logger.js";
+import { type LockedItem, type LockedSource, computeSkillIntegrity } from "./sources-lock.js";
+
+/**
+ * Features other than skills that declarative sources can provide.
+ */
+export const SOURCE_FEATURES = ["rules", "commands", "subagents", "mcp", "hooks"] as const;
+export type SourceFeature = (typeof SOURCE_FEATURES)[number];
+
+type SourceFeatureDefinition =
+  | {
+      /** Markdown files in a directory, one item per file. */
+      kind: "files";
+      remotePath: string;
+      curatedPath: string;
+      label: string;
+      /** Whether files in subdirectories are items too. */
+      nested: boolean;
+    }
+  | {
+      /** Entries of a record in a JSON file, one item per key. */
+      kind: "json";
+      remotePath: string;
+      curatedPath: string;
+      label: string;
+      parse: (json: unknown) => Record<string, unknown>;
+      wrap: (items: Record<string, unknown>) => unknown;
+    };
+
+/**
+ * Where each feature is found in a source repository and where it is written to in the project.
+ */
+export const SOURCE_FEATURE_DEFINITIONS: Record<SourceFeature, SourceFeatureDefinition> = {
+  rules: {
+    kind: "files",
+    remotePath: "rules",
+    curatedPath: RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH,
+    label: "rule",
+    nested: true,
+  },
+  commands: {
+    kind: "files",
+    remotePath: "commands",
+    curatedPath: RULESYNC_CURATED_COMMANDS_RELATIVE_DIR_PATH,
+    label: "command",
+    nested: true,
+  },
+  subagents: {
+    kind: "files",
+    remotePath: "subagents",
+    curatedPath: RULESYNC_CURATED_SUBAGENTS_RELATIVE_DIR_PATH,
+    label: "subagent",
+    nested: false,
+  },
+  mcp: {
+    kind: "json",
+    remotePath: "mcp.json",
+    curatedPath: RULESYNC_CURATED_MCP_RELATIVE_FILE_PATH,
+    label: "MCP server",
+    parse: (json) => RulesyncMcpConfigSchema.parse(json).mcpServers,
+    wrap: (items) => ({ mcpServers: items }),
+  },
+  hooks: {
+    kind: "json",
+    remotePath: "hooks.json",
+    curatedPath: RULESYNC_CURATED_HOOKS_RELATIVE_FILE_PATH,
+    label: "hook event",
+    parse: (json) => HooksConfigSchema.parse(json).hooks,
+    wrap: (items) => ({ version: 1, hooks: items }),
+  },
+};
+
+/**
+ * Reads the files of one source at its resolved commit. Paths are relative to the repository root.
+ */
+export type SourceReader = {
+  /** All files under a directory, with paths relative to that directory. Empty when missing. */
+  readDirectory(path: string): Promise<Array<{ relativePath: string; content: string }>>;
+  /** The content of a file, or null when missing. */
+  readFile(path: string): Promise<string | null>;
+};
+
+export type LockedSourceFeatures = Partial<Record<SourceFeature, Record<string, LockedItem>>>;
+
+export type SourceFeatureItemNames = Record<SourceFeature, Set<string>>;
+
+export function createSourceFeatureItemNames(): SourceFeatureItemNames {
+  return {
+    rules: new Set(),
+    commands: new Set(),
+    subagents: new Set(),
+    mcp: new Set(),
+    hooks: new Set(),
+  };
+}
+
+/**
+ * Features a source entry selects. Unlike skills, other features are only fetched when selected.
+ */
+export function getSelectedSourceFeatures(sourceEntry: SourceEntry): SourceFeature[] {
+  return SOURCE_FEATURES.filter((feature) => (sourceEntry[feature]?.length ?? 0) > 0);
+}
+
+/**
+ * Directories and files a source entry needs from its repository, for transports that
+ * fetch everything up front.
+ */
+export function getSourceFeaturePaths(sourceEntry: SourceEntry): {
+  directories: string[];
+  files: string[];
+} {
+  const definitions = getSelectedSourceFeatures(sourceEntry).map(
+    (feature) => SOURCE_FEATURE_DEFINITIONS[feature],
+  );
+  return {
+    directories: definitions.filter((d) => d.kind === "files").map((d) => d.remotePath),
+    files: definitions.filter((d) => d.kind === "json").map((d) => d.remotePath),
+  };
+}
+
+/**
+ * Create a reader over files already fetched from a source, with paths relative to the
+ * repository root.
+ */
+export function createInMemorySourceReader(
+  files: Array<{ relativePath: string; content: string }>,
+): SourceReader {
+  const normalized = files.map((file) => ({
+    ...file,
+    relativePath: file.relativePath.replaceAll("\\", "/"),
+  }));
+  return {
+    readDirectory: async (path) =>
+      normalized
+        .filter((file) => file.relativePath.startsWith(`${path}/`))
+        .map((file) => ({
+          relativePath: file.relativePath.substring(path.length + 1),
+          content: file.content,
+        })),
+    readFile: async (path) =>
+      normalized.find((file) => file.relativePath === path)?.content ?? null,
+  };
+}
+
+/**
+ * Check that the curated items recorded for a source still exist on disk, and that
+ * the lockfile covers exactly the features the source selects.
+ */
+export async function checkLockedSourceFeaturesExist(params: {
+  baseDir: string;
+  sourceEntry: SourceEntry;
+  locked: LockedSource;
+}): Promise<boolean> {
+  const { baseDir, sourceEntry, locked } = params;
+  const selected = new Set(getSelectedSourceFeatures(sourceEntry));
+
+  for (const feature of SOURCE_FEATURES) {
+    const lockedItems = locked[feature];
+    if (!selected.has(feature)) {
+      if (lockedItems && Object.keys(lockedItems).length > 0) return false;
+      continue;
+    }
+    if (!lockedItems) return false;
+
+    const definition = SOURCE_FEATURE_DEFINITIONS[feature];
+    const names = Object.keys(lockedItems);
+    if (definition.kind === "files") {
+      for (const name of names) {
+        if (!(await fileExists(join(baseDir, definition.curatedPath, `${name}.md`)))) return false;
+      }
+    } else if (names.length > 0) {
+      const curated = await readCuratedItems({ baseDir, definition });
+      if (names.some((name) => !(name in curated))) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Record the items locked for a source as fetched, so later sources do not fetch them again.
+ */
+export function addLockedSourceFeatureItems(
+  itemNames: SourceFeatureItemNames,
+  locked: LockedSource,
+): void {
+  for (const feature of SOURCE_FEATURES) {
+    for (const name of Object.keys(locked[feature] ?? {})) {
+      itemNames[feature].add(name);
+    }
+  }
+}
+
+/**
+ * Fetch the rules, commands, subagents, MCP servers and hook events a source entry selects
+ * into their curated locations, replacing what was previously fetched from the same source.
+ * Items already fetched from an earlier source are skipped (first-declared wins).
+ */
+export async function fetchSourceFeatures(params: {
+  sourceEntry: SourceEntry;
+  sourceKey: string;
+  reader: SourceReader;
+  baseDir: string;
+  locked: LockedSource | undefined;
+  resolvedSha: string;
+  alreadyFetchedItems: SourceFeatureItemNames;
+}): Promise<{
+  lockedFeatures: LockedSourceFeatures;
+  fetchedItemCounts: Partial<Record<SourceFeature, number>>;
+}> {
+  const { sourceEntry, sourceKey, reader, baseDir, locked, resolvedSha, alreadyFetchedItems } =
+    params;
+  const selected = getSelectedSourceFeatures(sourceEntry);
+  const lockedFeatures: LockedSourceFeatures = {};
+  const fetchedItemCounts: Partial<Record<SourceFeature, number>> = {};
+
+  for (const feature of SOURCE_FEATURES) {
+    const definition = SOURCE_FEATURE_DEFINITIONS[feature];
+    const previousNames = Object.keys(locked?.[feature] ?? {});
+    const filter = sourceEntry[feature] ?? [];
+    const isSelected = selected.includes(feature);
+
+    const remoteItems = isSelected
+      ? await readRemoteItems({ reader, definition, sourceKey })
+      : new Map<string, string>();
+    const items = new Map<string, string>();
+    for (const [name, content] of remoteItems) {
+      if (!filter.includes("*") && !filter.includes(name)) continue;
+      if (alreadyFetchedItems[feature].has(name)) {
+        logger.warn(
+          `Skipping duplicate ${definition.label} "${name}" from ${sourceKey}: already fetched from another source.`,
+        );
+        continue;
+      }
+      items.set(name, content);
+    }
+
+    await writeCuratedItems({ baseDir, definition, previousNames, items });
+
+    if (!isSelected) {
+      continue;
+    }
+    const lockedItems: Record<string, LockedItem> = {};
+    for (const [name, content] of items) {
+      const integrity = computeSkillIntegrity([{ path: name, content }]);
+      const lockedIntegrity = locked?.[feature]?.[name]?.integrity;
+      if (lockedIntegrity && lockedIntegrity !== integrity && resolvedSha === locked?.resolvedRef) {
+        logger.warn(
+          `Integrity mismatch for ${definition.label} "${name}" from ${sourceKey}: expected "${lockedIntegrity}", got "${integrity}". Content may have been tampered with.`,
+        );
+      }
+      lockedItems[name] = { integrity };
+      alreadyFetchedItems[feature].add(name);
+    }
+    lockedFeatures[feature] = lockedItems;
+    fetchedItemCounts[feature] = items.size;
+
+    const names = [...items.keys()];
+    logger.info(
+      `Fetched ${names.length} ${definition.label}(s) from ${sourceKey}: ${names.join(", ") || "(none)"}`,
+    );
+  }
+
+  return { lockedFeatures, fetchedItemCounts };
+}
+
+/**
+ * Read the items of one feature from a source, keyed by name. File items are named by their
+ * path without the `.md` extension; JSON items keep their serialized value as content.
+ */
+async function readRemoteItems(params: {
+  reader: SourceReader;
+  definition: SourceFeatureDefinition;
+  sourceKey: string;
+}): Promise<Map<string, string>> {
+  const { reader, definition, sourceKey } = params;
+  const items = new Map<string, string>();
+
+  if (definition.kind === "files") {
+    for (const file of await reader.readDirectory(definition.remotePath)) {
+      const relativePath = file.relativePath.replaceAll("\\", "/");
+      if (!relativePath.endsWith(".md")) continue;
+      if (!definition.nested && relativePath.includes("/")) continue;
+      if (relativePath.split("/").some((segment) => segment === ".." || segment.startsWith("."))) {
+        logger.warn(
+          `Skipping ${definition.label} "${relativePath}" from ${sourceKey}: invalid path.`,
+        );
+        continue;
+      }
+      items.set(relativePath.slice(0, -".md".length), file.content);
+    }
+    return items;
+  }
+
+  const content = await reader.readFile(definition.remotePath);
+  if (content === null) {
+    logger.warn(`No ${definition.remotePath} found in ${sourceKey}. Skipping.`);
+    return items;
+  }
+  let entries: Record<string, unknown>;
+  try {
+    entries = definition.parse(JSON.parse(content));
+  } catch (error) {
+    throw new Error(`Invalid ${definition.remotePath} in ${sourceKey}: ${formatError(error)}`, {
+      cause: error,
+    });
+  }
+  for (const [name, value] of Object.entries(entries)) {
+    items.set(name, JSON.stringify(value));
+  }
+  return items;
+}
+
+async function readCuratedItems(params: {
+  baseDir: string;
+  definition: Extract<SourceFeatureDefinition, { kind: "json" }>;
+}): Promise<Record<string, unknown>> {
+  const content = await readFileContentOrNull(join(params.baseDir, params.definition.curatedPath));
+  return content === null ? {} : params.definition.parse(JSON.parse(content));
+}
+
+/**
+ * Replace the items previously fetched from a source with the newly fetched ones.
+ */
+async function writeCuratedItems(params: {
+  baseDir: string;
+  definition: SourceFeatureDefinition;
+  previousNames: string[];
+  items: Map<string, string>;
+}): Promise<void> {
+  const { baseDir, definition, previousNames, items } = params;
+  if (previousNames.length === 0 && items.size === 0) {
+    return;
+  }
+
+  const curatedPath = join(baseDir, definition.curatedPath);
+  if (definition.kind === "files") {
+    for (const name of previousNames) {
+      checkPathTraversal({ relativePath: `${name}.md`, intendedRootDir: curatedPath });
+      await removeFile(join(curatedPath, `${name}.md`));
+    }
+    for (const [name, content] of items) {
+      checkPathTraversal({ relativePath: `${name}.md`, intendedRootDir: curatedPath });
+      await writeFileContent(join(curatedPath, `${name}.md`), content);
+    }
+    return;
+  }
+
+  const curated = await readCuratedItems({ baseDir, definition });
+  for (const name of previousNames) {
+    delete curated[name];
+  }
+  for (const [name, content] of items) {
+    curated[name] = JSON.parse(content);
+  }
+  await writeFileContent(curatedPath, JSON.stringify(definition.wrap(curated), null, 2) + "\n");
+}
@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
 
+import type { GitHost } from "../config/config.js";
 import { parseSource } from "./source-parser.js";
 
 describe("parseSource", () => {
@@ -100,6 +101,99 @@ describe("parseSource", () => {
     });
   });
 
+  describe("Gitea and Bitbucket URL parsing", () => {
+    it("should parse gitea.com URL with /src/branch/ref/path", () => {
+      const result = parseSource("https://gitea.com/owner/repo/src/branch/main/packages/shared");
+      expect(result).toEqual({
+        provider: "gitea",
+        owner: "owner",
+        repo: "repo",
+        ref: "main",
+        path: "packages/shared",
+      });
+    });
+
+    it("should parse bitbucket.org URL with /src/ref/path", () => {
+      const result = parseSource("https://bitbucket.org/workspace/repo/src/v1.0.0/rules");
+      expect(result).toEqual({
+        provider: "bitbucket",
+        owner: "workspace",
+        repo: "repo",
+        ref: "v1.0.0",
+        path: "rules",
+      });
+    });
+  });
+
+  describe("self-hosted hosts", () => {
+    const hosts: Record<string, GitHost> = {
+      "git.example.com": { provider: "gitea" },
+      "GitLab.Example.com": { provider: "gitlab" },
+      "bitbucket.example.com": { provider: "bitbucket" },
+    };
+
+    it("should parse URL of a configured host", () => {
+      const result = parseSource("https://git.example.com/team/skills/src/tag/v2/shared", {
+        hosts,
+      });
+      expect(result).toEqual({
+        provider: "gitea",
+        host: "git.example.com",
+        owner: "team",
+        repo: "skills",
+        ref: "v2",
+        path: "shared",
+      });
+    });
+
+    it("should parse GitLab URL with subgroups and /-/tree/ref/path", () => {
+      const result = parseSource("https://gitlab.example.com/group/sub/repo/-/tree/main/rules", {
+        hosts,
+      });
+      expect(result).toEqual({
+        provider: "gitlab",
+        host: "gitlab.example.com",
+        owner: "group/sub",
+        repo: "repo",
+        ref: "main",
+        path: "rules",
+      });
+    });
+
+    it("should parse Bitbucket Data Center URL with ?at=ref", () => {
+      const result = parseSource(
+        "https://bitbucket.example.com/projects/TEAM/repos/skills/browse/rules?at=refs%2Fheads%2Fdevelop",
+        { hosts },
+      );
+      expect(result).toEqual({
+        provider: "bitbucket",
+        host: "bitbucket.example.com",
+        owner: "TEAM",
+        repo: "skills",
+        ref: "develop",
+        path: "rules",
+      });
+    });
+
+    it("should parse host prefix of a configured host", () => {
+      const result = parseSource("git.example.com:team/skills@v1:shared", { hosts });
+      expect(result).toEqual({
+        provider: "gitea",
+        host: "git.example.com",
+        owner: "team",
+        repo: "skills",
+        ref: "v1",
+        path: "shared",
+      });
+    });
+
+    it("should not treat unconfigured hosts as providers", () => {
+      expect(() => parseSource("https://git.example.com/team/skills")).toThrow(
+        /Map self-hosted instances to a provider with "gitHosts"/,
+      );
+    });
+  });
+
   describe("prefix format parsing", () => {
     it("should parse github:owner/repo", () => {
       const result = parseSource("github:owner/repo");
@@ -119,6 +213,20 @@ describe("parseSource", () => {
       });
     });
 
+    it("should parse gitea:owner/repo and bitbucket:workspace/repo", () => {
+      expect(parseSource("gitea:owner/repo")).toEqual({
+        provider: "gitea",
+        owner: "owner",
+        repo: "repo",
+      });
+      expect(parseSource("bitbucket:workspace/repo@main")).toEqual({
+        provider: "bitbucket",
+        owner: "workspace",
+        repo: "repo",
+        ref: "main",
+      });
+    });
+
     it("should parse github:owner/repo@ref", () => {
       const result = parseSource("github:owner/repo@v1.0.0");
       expect(result).toEqual({
@@ -212,7 +320,7 @@ describe("parseSource", () => {
 
   describe("unknown provider handling", () => {
     it("should throw error for unknown URL host", () => {
-      expect(() => parseSource("https://bitbucket.org/owner/repo")).toThrow(
+      expect(() => parseSource("https://git.example.com/owner/repo")).toThrow(
         /Unknown Git provider for host/,
       );
     });
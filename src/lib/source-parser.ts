@@ -1,24 +1,39 @@
+import type { GitHost } from "../config/config.js";
 import type { ParsedSource } from "../types/fetch.js";
 import type { GitProvider } from "../types/git-provider.js";
 import { ALL_GIT_PROVIDERS } from "../types/git-provider.js";
 
 const GITHUB_HOSTS = new Set(["github.com", "www.github.com"]);
 const GITLAB_HOSTS = new Set(["gitlab.com", "www.gitlab.com"]);
+const GITEA_HOSTS = new Set(["gitea.com"]);
+const BITBUCKET_HOSTS = new Set(["bitbucket.org", "www.bitbucket.org"]);
+
+export type ParseSourceOptions = {
+  /** Self-hosted Git hosts from the `gitHosts` config, keyed by host name. */
+  hosts?: Record<string, GitHost>;
+};
 
 /**
  * Parse source specification into components
  * Supports:
- * - URL format: https://github.com/owner/repo, https://gitlab.com/owner/repo
- * - Prefix format: github:owner/repo, gitlab:owner/repo
+ * - URL format: https://github.com/owner/repo, https://gitlab.com/owner/repo,
+ *   https://gitea.com/owner/repo, https://bitbucket.org/workspace/repo
+ * - URL of a self-hosted instance listed in `hosts`: https://git.example.com/owner/repo
+ * - Prefix format: github:owner/repo, gitlab:owner/repo, gitea:owner/repo, bitbucket:workspace/repo
+ * - Host prefix of a self-hosted instance listed in `hosts`: git.example.com:owner/repo
  * - Shorthand format: owner/repo (defaults to GitHub)
  * - With ref: owner/repo@ref
  * - With path: owner/repo:path
  * - Combined: owner/repo@ref:path
  */
-export function parseSource(source: string): ParsedSource {
+export function parseSource(source: string, options: ParseSourceOptions = {}): ParsedSource {
+  const hosts = new Map(
+    Object.entries(options.hosts ?? {}).map(([host, config]) => [host.toLowerCase(), config]),
+  );
+
   // Handle full URL format (https://...)
   if (source.startsWith("http://") || source.startsWith("https://")) {
-    return parseUrl(source);
+    return parseUrl(source, hosts);
   }
 
   // Handle prefix format (github:owner/repo, gitlab:owner/repo)
@@ -33,6 +48,13 @@ export function parseSource(source: string): ParsedSource {
       return { provider, ...parseShorthand(rest) };
     }
 
+    // Check if prefix is a self-hosted instance
+    const host = prefix.toLowerCase();
+    const hostConfig = hosts.get(host);
+    if (hostConfig) {
+      return { provider: hostConfig.provider, host, ...parseShorthand(rest) };
+    }
+
     // If prefix is not a known provider, treat the whole thing as shorthand
     // This handles cases like owner/repo:path where "owner/repo" contains no provider prefix
     return { provider: "github", ...parseShorthand(source) };
@@ -45,49 +67,128 @@ export function parseSource(source: string): ParsedSource {
 /**
  * Parse URL format into components
  */
-function parseUrl(url: string): ParsedSource {
+function parseUrl(url: string, hosts: Map<string, GitHost>): ParsedSource {
   const urlObj = new URL(url);
-  const host = urlObj.hostname.toLowerCase();
-
-  let provider: GitProvider;
-  if (GITHUB_HOSTS.has(host)) {
-    provider = "github";
-  } else if (GITLAB_HOSTS.has(host)) {
-    provider = "gitlab";
-  } else {
+  const host = urlObj.host.toLowerCase();
+
+  const hostConfig = hosts.get(host);
+  const provider = hostConfig?.provider ?? getPublicHostProvider(urlObj.hostname.toLowerCase());
+  if (!provider) {
     throw new Error(
-      `Unknown Git provider for host: ${host}. Supported providers: ${ALL_GIT_PROVIDERS.join(", ")}`,
+      `Unknown Git provider for host: ${host}. Supported providers: ${ALL_GIT_PROVIDERS.join(", ")}. Map self-hosted instances to a provider with "gitHosts" in rulesync.jsonc.`,
     );
   }
 
   // Split by path segments
   const segments = urlObj.pathname.split("/").filter(Boolean);
+  const location = parseUrlPath(provider, segments, urlObj.searchParams);
 
-  if (segments.length < 2) {
+  if (!location) {
     throw new Error(`Invalid ${provider} URL: ${url}. Expected format: https://${host}/owner/repo`);
   }
 
-  const owner = segments[0];
-  const repo = segments[1]?.replace(/\.git$/, "");
+  return {
+    provider,
+    ...(hostConfig ? { host } : {}),
+    ...location,
+  };
+}
+
+/**
+ * Whether a host is the public host of a provider, such as `github.com`. A port is ignored.
+ */
+export function isPublicGitHost(host: string): boolean {
+  return getPublicHostProvider(host.toLowerCase().replace(/:\d+$/, "")) !== undefined;
+}
+
+function getPublicHostProvider(hostname: string): GitProvider | undefined {
+  if (GITHUB_HOSTS.has(hostname)) return "github";
+  if (GITLAB_HOSTS.has(hostname)) return "gitlab";
+  if (GITEA_HOSTS.has(hostname)) return "gitea";
+  if (BITBUCKET_HOSTS.has(hostname)) return "bitbucket";
+  return undefined;
+}
+
+/**
+ * Parse the path of a repository URL, following the layout of the provider's web UI:
+ * - GitHub: /owner/repo/tree/ref/path or /owner/repo/blob/ref/path
+ * - GitLab: /group/subgroup/repo/-/tree/ref/path
+ * - Gitea: /owner/repo/src/branch/ref/path (also tag/ and commit/)
+ * - Bitbucket Cloud: /workspace/repo/src/ref/path
+ * - Bitbucket Data Center: /projects/KEY/repos/repo/browse/path?at=ref
+ */
+function parseUrlPath(
+  provider: GitProvider,
+  segments: string[],
+  searchParams: URLSearchParams,
+): Omit<ParsedSource, "provider" | "host"> | null {
+  if (provider === "bitbucket" && segments[0] === "projects" && segments[2] === "repos") {
+    const owner = segments[1];
+    const repo = segments[3]?.replace(/\.git$/, "");
+    if (!owner || !repo) return null;
+    const at = searchParams.get("at") ?? undefined;
+    const ref = at?.replace(/^refs\/(heads|tags)\//, "");
+    if (segments[4] === "browse") {
+      const path = segments.length > 5 ? segments.slice(5).join("/") : undefined;
+      return { owner, repo, ref, path };
+    }
+    return ref ? { owner, repo, ref } : { owner, repo };
+  }
+
+  // GitLab separates the project from the page with "/-/", and projects may be in subgroups
+  const separatorIndex = provider === "gitlab" ? segments.indexOf("-") : -1;
+  if (separatorIndex !== -1) {
+    const project = segments.slice(0, separatorIndex);
+    const page = segments.slice(separatorIndex + 1);
+    if (project.length < 2) return null;
+    const location = {
+      owner: project.slice(0, -1).join("/"),
+      repo: (project.at(-1) ?? "").replace(/\.git$/, ""),
+    };
+    if (page[0] === "tree" || page[0] === "blob") {
+      return {
+        ...location,
+        ref: page[1],
+        path: page.length > 2 ? page.slice(2).join("/") : undefined,
+      };
+    }
+    return location;
+  }
+
+  if (segments.length < 2) return null;
+
+  const owner = segments[0] ?? "";
+  const repo = (segments[1] ?? "").replace(/\.git$/, "");
 
   // Check for /tree/ref/path or /blob/ref/path pattern
   if (segments.length > 2 && (segments[2] === "tree" || segments[2] === "blob")) {
     const ref = segments[3];
     const path = segments.length > 4 ? segments.slice(4).join("/") : undefined;
+    return { owner, repo, ref, path };
+  }
+
+  // Check for /src/ref/path, and Gitea's /src/branch/ref/path
+  if (
+    segments.length > 2 &&
+    segments[2] === "src" &&
+    (provider === "gitea" || provider === "bitbucket")
+  ) {
+    const refIndex =
+      provider === "gitea" && ["branch", "tag", "commit"].includes(segments[3] ?? "") ? 4 : 3;
+    const ref = segments[refIndex];
+    const path =
+      segments.length > refIndex + 1 ? segments.slice(refIndex + 1).join("/") : undefined;
+    return { owner, repo, ref, path };
+  }
+
+  if (provider === "gitlab" && segments.length > 2) {
     return {
-      provider,
-      owner: owner ?? "",
-      repo: repo ?? "",
-      ref,
-      path,
+      owner: segments.slice(0, -1).join("/"),
+      repo: (segments.at(-1) ?? "").replace(/\.git$/, ""),
     };
   }
 
-  return {
-    provider,
-    owner: owner ?? "",
-    repo: repo ?? "",
-  };
+  return { owner, repo };
 }
 
 /**
@@ -0,0 +1,198 @@
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { gzipSync } from "node:zlib";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { setupTestDirectory } from "../test-utils/test-directories.js";
+import { writeFileBuffer, writeFileContent } from "../utils/file.js";
+import {
+  SourceSnapshotError,
+  readLocalSourceFiles,
+  readSnapshotSource,
+  readTarballSourceFiles,
+  resolveSourcePath,
+} from "./source-snapshot.js";
+
+vi.mock("../utils/logger.js", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+type TarEntry = { name: string; content?: string; type?: string };
+
+function createTarball(entries: TarEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+  for (const { name, content = "", type = "0" } of entries) {
+    const data = Buffer.from(content, "utf-8");
+    const header = Buffer.alloc(512);
+    header.write(name, 0, 100, "utf-8");
+    header.write(data.length.toString(8).padStart(11, "0"), 124, 12, "ascii");
+    header.write(type, 156, 1, "ascii");
+    header.write("ustar", 257, 6, "ascii");
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return gzipSync(Buffer.concat(blocks));
+}
+
+describe("resolveSourcePath", () => {
+  it("should resolve relative paths against the base directory", () => {
+    expect(resolveSourcePath("../shared", "/work/project")).toBe(join("/work", "shared"));
+  });
+
+  it("should convert file URLs to paths", () => {
+    expect(resolveSourcePath(pathToFileURL("/tmp/config.tar.gz").href, "/work")).toBe(
+      join("/tmp", "config.tar.gz"),
+    );
+  });
+
+  it("should reject other URLs", () => {
+    expect(() => resolveSourcePath("https://example.com/config.tar.gz", "/work")).toThrow(
+      SourceSnapshotError,
+    );
+  });
+});
+
+describe("readLocalSourceFiles", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it("should read the files under the given paths", async () => {
+    const sourceDir = join(testDir, "shared");
+    await writeFileContent(join(sourceDir, "skills", "my-skill", "SKILL.md"), "# My Skill");
+    await writeFileContent(join(sourceDir, "mcp.json"), "{}");
+    await writeFileContent(join(sourceDir, "README.md"), "ignored");
+
+    const files = await readLocalSourceFiles({
+      source: "shared",
+      baseDir: testDir,
+      paths: ["skills", "mcp.json", "rules"],
+    });
+
+    expect(files).toEqual([
+      { relativePath: "skills/my-skill/SKILL.md", content: "# My Skill" },
+      { relativePath: "mcp.json", content: "{}" },
+    ]);
+  });
+
+  it("should fail when the directory does not exist", async () => {
+    await expect(
+      readLocalSourceFiles({ source: "missing", baseDir: testDir, paths: ["skills"] }),
+    ).rejects.toThrow("does not exist");
+  });
+});
+
+describe("readTarballSourceFiles", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it("should read the files under the given paths", async () => {
+    await writeFileBuffer(
+      join(testDir, "config.tar.gz"),
+      createTarball([
+        { name: "skills/", type: "5" },
+        { name: "skills/my-skill/SKILL.md", content: "# My Skill" },
+        { name: "./rules/style.md", content: "# Style" },
+        { name: "skills/my-skill/link.md", type: "2" },
+        { name: "README.md", content: "ignored" },
+      ]),
+    );
+
+    const files = await readTarballSourceFiles({
+      source: "config.tar.gz",
+      baseDir: testDir,
+      paths: ["skills", "rules"],
+    });
+
+    expect(files).toEqual([
+      { relativePath: "skills/my-skill/SKILL.md", content: "# My Skill" },
+      { relativePath: "rules/style.md", content: "# Style" },
+    ]);
+  });
+
+  it("should strip a single top-level directory", async () => {
+    const archivePath = join(testDir, "config.tar.gz");
+    await writeFileBuffer(
+      archivePath,
+      createTarball([{ name: "config-1.0.0/skills/my-skill/SKILL.md", content: "# My Skill" }]),
+    );
+
+    const files = await readTarballSourceFiles({
+      source: pathToFileURL(archivePath).href,
+      baseDir: testDir,
+      paths: ["skills"],
+    });
+
+    expect(files).toEqual([{ relativePath: "skills/my-skill/SKILL.md", content: "# My Skill" }]);
+  });
+
+  it("should skip entries that escape the archive root", async () => {
+    await writeFileBuffer(
+      join(testDir, "config.tar.gz"),
+      createTarball([
+        { name: "skills/../../evil.md", content: "evil" },
+        { name: "skills/ok/SKILL.md", content: "ok" },
+      ]),
+    );
+
+    const files = await readTarballSourceFiles({
+      source: "config.tar.gz",
+      baseDir: testDir,
+      paths: ["skills"],
+    });
+
+    expect(files.map((file) => file.relativePath)).toEqual(["skills/ok/SKILL.md"]);
+  });
+
+  it("should fail for a file that is not a gzip archive", async () => {
+    await writeFileContent(join(testDir, "config.tar.gz"), "not an archive");
+
+    await expect(
+      readTarballSourceFiles({ source: "config.tar.gz", baseDir: testDir, paths: ["skills"] }),
+    ).rejects.toThrow(SourceSnapshotError);
+  });
+});
+
+describe("readSnapshotSource", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it("should read the selected features and hash the contents", async () => {
+    const sourceDir = join(testDir, "shared");
+    await writeFileContent(join(sourceDir, "skills", "my-skill", "SKILL.md"), "# My Skill");
+    await writeFileContent(join(sourceDir, "rules", "style.md"), "# Style");
+
+    const sourceEntry = { source: "shared", transport: "local" as const, skills: [], rules: ["*"] };
+    const first = await readSnapshotSource({ sourceEntry, baseDir: testDir });
+    expect(first.files).toEqual([{ relativePath: "rules/style.md", content: "# Style" }]);
+    expect(first.integrity).toMatch(/^sha256-/);
+
+    await writeFileContent(join(sourceDir, "rules", "style.md"), "# Changed");
+    const second = await readSnapshotSource({ sourceEntry, baseDir: testDir });
+    expect(second.integrity).not.toBe(first.integrity);
+  });
+});
@@ -0,0 +1,276 @@
+import { isAbsolute, join, posix, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+import { gunzip } from "node:zlib";
+
+import type { SourceEntry } from "../config/config.js";
+import { MAX_FILE_SIZE } from "../constants/rulesync-paths.js";
+import {
+  directoryExists,
+  fileExists,
+  getFileSize,
+  isSymlink,
+  listDirectoryFiles,
+  readFileBuffer,
+  readFileContent,
+} from "../utils/file.js";
+import { logger } from "../utils/logger.js";
+import { getSourceFeaturePaths } from "./source-features.js";
+import { computeSkillIntegrity } from "./sources-lock.js";
+
+const gunzipAsync = promisify(gunzip);
+
+const MAX_WALK_DEPTH = 20;
+const MAX_ARCHIVE_SIZE = 100 * 1024 * 1024; // 100MB
+const TAR_BLOCK_SIZE = 512;
+
+export type SnapshotFile = { relativePath: string; content: string };
+
+export class SourceSnapshotError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = "SourceSnapshotError";
+  }
+}
+
+/**
+ * Resolve the path of a local or tarball source. Relative paths are resolved against `baseDir`,
+ * and `file://` URLs are converted to paths. Other URLs are rejected.
+ */
+export function resolveSourcePath(source: string, baseDir: string): string {
+  if (source.startsWith("file://")) {
+    return fileURLToPath(source);
+  }
+  if (/^[a-z][a-z\d+.-]*:\/\//i.test(source)) {
+    throw new SourceSnapshotError(
+      `Unsupported URL "${source}": local and tarball sources must be a path or a file:// URL`,
+    );
+  }
+  return isAbsolute(source) ? source : resolve(baseDir, source);
+}
+
+/**
+ * Read the files a local or tarball source entry provides: its skills directory, unless no
+ * skills are selected, and the locations of the selected features. The returned integrity hash
+ * of these files identifies the contents of the source.
+ */
+export async function readSnapshotSource(params: {
+  sourceEntry: SourceEntry;
+  baseDir: string;
+}): Promise<{ files: SnapshotFile[]; skillsPath: string; integrity: string }> {
+  const { sourceEntry, baseDir } = params;
+  const skillsPath = sourceEntry.path ?? "skills";
+  const featurePaths = getSourceFeaturePaths(sourceEntry);
+  const readFiles =
+    sourceEntry.transport === "tarball" ? readTarballSourceFiles : readLocalSourceFiles;
+  const files = await readFiles({
+    source: sourceEntry.source,
+    baseDir,
+    paths: [
+      ...((sourceEntry.skills ?? ["*"]).length > 0 ? [skillsPath] : []),
+      ...featurePaths.directories,
+      ...featurePaths.files,
+    ],
+  });
+  const integrity = computeSkillIntegrity(
+    files.map((file) => ({ path: file.relativePath, content: file.content })),
+  );
+  return { files, skillsPath, integrity };
+}
+
+/**
+ * Read the files of a local directory source under the given paths (directories or files
+ * relative to the source root). Missing paths are skipped.
+ */
+export async function readLocalSourceFiles(params: {
+  source: string;
+  baseDir: string;
+  paths: string[];
+}): Promise<SnapshotFile[]> {
+  const rootDir = resolveSourcePath(params.source, params.baseDir);
+  if (!(await directoryExists(rootDir))) {
+    throw new SourceSnapshotError(`Local source directory "${rootDir}" does not exist`);
+  }
+
+  const results: SnapshotFile[] = [];
+  for (const path of params.paths) {
+    const fullPath = join(rootDir, path);
+    if (await isSymlink(fullPath)) {
+      logger.warn(`Skipping symlink "${fullPath}".`);
+    } else if (await directoryExists(fullPath)) {
+      results.push(...(await walkDirectory(fullPath, path, 0)));
+    } else if (await fileExists(fullPath)) {
+      const file = await readSnapshotFile(fullPath, path);
+      if (file) results.push(file);
+    }
+  }
+  return results;
+}
+
+/**
+ * Read the files of a `.tar.gz` source under the given paths (directories or files relative
+ * to the archive root). When nothing matches and every entry is inside a single top-level
+ * directory, as in archives of a repository, that directory is used as the root.
+ * Symlinks and other special entries are skipped.
+ */
+export async function readTarballSourceFiles(params: {
+  source: string;
+  baseDir: string;
+  paths: string[];
+}): Promise<SnapshotFile[]> {
+  const archivePath = resolveSourcePath(params.source, params.baseDir);
+  if (!(await fileExists(archivePath))) {
+    throw new SourceSnapshotError(`Tarball "${archivePath}" does not exist`);
+  }
+
+  let entries: SnapshotFile[];
+  try {
+    const archive = await gunzipAsync(await readFileBuffer(archivePath), {
+      maxOutputLength: MAX_ARCHIVE_SIZE,
+    });
+    entries = parseTar(archive);
+  } catch (error) {
+    if (error instanceof SourceSnapshotError) throw error;
+    throw new SourceSnapshotError(`Failed to read tarball "${archivePath}"`, error);
+  }
+
+  const matchesPaths = (relativePath: string) =>
+    params.paths.some((path) => relativePath === path || relativePath.startsWith(`${path}/`));
+  if (!entries.some((entry) => matchesPaths(entry.relativePath))) {
+    const topLevel = new Set(entries.map((entry) => entry.relativePath.split("/")[0]));
+    const [rootDir] = topLevel;
+    if (topLevel.size === 1 && entries.every((entry) => entry.relativePath.includes("/"))) {
+      entries = entries.map((entry) => ({
+        ...entry,
+        relativePath: entry.relativePath.substring(`${rootDir}/`.length),
+      }));
+    }
+  }
+  return entries.filter((entry) => matchesPaths(entry.relativePath));
+}
+
+/**
+ * Read the files under a directory, with paths relative to it. Symlinks and files over the size
+ * limit are skipped, as when reading a local source.
+ */
+export async function readDirectoryFiles(dir: string): Promise<SnapshotFile[]> {
+  return walkDirectory(dir, "", 0);
+}
+
+async function walkDirectory(
+  dir: string,
+  relativeDir: string,
+  depth: number,
+): Promise<SnapshotFile[]> {
+  if (depth > MAX_WALK_DEPTH) {
+    throw new SourceSnapshotError(
+      `Directory tree exceeds max depth of ${MAX_WALK_DEPTH}: "${dir}". Aborting to prevent resource exhaustion.`,
+    );
+  }
+  const results: SnapshotFile[] = [];
+  for (const name of await listDirectoryFiles(dir)) {
+    const fullPath = join(dir, name);
+    const relativePath = posix.join(relativeDir, name);
+    if (await isSymlink(fullPath)) {
+      logger.warn(`Skipping symlink "${fullPath}".`);
+      continue;
+    }
+    if (await directoryExists(fullPath)) {
+      results.push(...(await walkDirectory(fullPath, relativePath, depth + 1)));
+      continue;
+    }
+    const file = await readSnapshotFile(fullPath, relativePath);
+    if (file) results.push(file);
+  }
+  return results;
+}
+
+async function readSnapshotFile(
+  fullPath: string,
+  relativePath: string,
+): Promise<SnapshotFile | null> {
+  const size = await getFileSize(fullPath);
+  if (size > MAX_FILE_SIZE) {
+    logger.warn(
+      `Skipping file "${fullPath}" (${(size / 1024 / 1024).toFixed(2)}MB exceeds ${MAX_FILE_SIZE / 1024 / 1024}MB limit).`,
+    );
+    return null;
+  }
+  return { relativePath, content: await readFileContent(fullPath) };
+}
+
+/**
+ * Parse the regular files of an uncompressed tar archive (ustar, pax and GNU long names).
+ */
+function parseTar(archive: Buffer): SnapshotFile[] {
+  const files: SnapshotFile[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + TAR_BLOCK_SIZE <= archive.length) {
+    const header = archive.subarray(offset, offset + TAR_BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const size = Number.parseInt(readTarString(header, 124, 12).trim() || "0", 8);
+    if (!Number.isSafeInteger(size) || size < 0) {
+      throw new SourceSnapshotError(`Invalid tar entry size at offset ${offset}`);
+    }
+    const dataStart = offset + TAR_BLOCK_SIZE;
+    const data = archive.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+    const type = String.fromCharCode(header[156] ?? 0);
+    if (type === "L") {
+      longName = readTarString(data, 0, data.length);
+      continue;
+    }
+    if (type === "x") {
+      longName = parsePaxPath(data.toString("utf-8")) ?? longName;
+      continue;
+    }
+
+    const prefix = readTarString(header, 257, 6) === "ustar" ? readTarString(header, 345, 155) : "";
+    const name = readTarString(header, 0, 100);
+    const rawPath = longName ?? (prefix ? `${prefix}/${name}` : name);
+    longName = undefined;
+
+    if (type !== "0" && type !== "\0" && type !== "7") {
+      if (type === "1" || type === "2") {
+        logger.warn(`Skipping link "${rawPath}" in tarball.`);
+      }
+      continue;
+    }
+
+    const relativePath = posix.normalize(rawPath.replace(/^(\.\/)+/, ""));
+    if (relativePath.startsWith("/") || relativePath.split("/").includes("..")) {
+      logger.warn(`Skipping tar entry with invalid path "${rawPath}".`);
+      continue;
+    }
+    if (size > MAX_FILE_SIZE) {
+      logger.warn(
+        `Skipping file "${relativePath}" (${(size / 1024 / 1024).toFixed(2)}MB exceeds ${MAX_FILE_SIZE / 1024 / 1024}MB limit).`,
+      );
+      continue;
+    }
+    files.push({ relativePath, content: data.toString("utf-8") });
+  }
+  return files;
+}
+
+function readTarString(buffer: Buffer, start: number, length: number): string {
+  const field = buffer.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString("utf-8");
+}
+
+function parsePaxPath(records: string): string | undefined {
+  for (const record of records.split("\n")) {
+    const match = /^\d+ path=(.*)$/.exec(record);
+    if (match) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
@@ -12,29 +12,71 @@ export const LOCKFILE_VERSION = 1;
 
 /**
  * Schema for a single locked skill entry with content integrity.
+ * For a skill with an overlay, `integrity` is the hash of the skill with the overlay applied.
  */
 export const LockedSkillSchema = z.object({
   integrity: z.string(),
+  /** Hash of the overlay applied to the skill from `.rulesync/skills/.overlays/<name>/`. */
+  overlay: optional(z.string()),
 });
 export type LockedSkill = z.infer<typeof LockedSkillSchema>;
 
+/**
+ * Schema for a single locked rule, command, subagent, MCP server or hook event
+ * with content integrity.
+ */
+export const LockedItemSchema = z.object({
+  integrity: z.string(),
+});
+export type LockedItem = z.infer<typeof LockedItemSchema>;
+
+/**
+ * Schema for the key that signed the locked commit or tag of a source with `requireSignature`.
+ * `key` is the SHA256 fingerprint of an SSH key or the fingerprint of a GPG key.
+ */
+export const LockedSignerSchema = z.object({
+  format: z.enum(["ssh", "gpg"]),
+  principal: z.string(),
+  key: z.string(),
+});
+export type LockedSigner = z.infer<typeof LockedSignerSchema>;
+
 /**
  * Schema for a single locked source entry.
  */
 export const LockedSourceSchema = z.object({
   requestedRef: optional(z.string()),
+  /** Tag selected for a semver range `requestedRef`; `resolvedRef` is its commit SHA. */
+  resolvedTag: optional(z.string()),
   resolvedRef: z.string(),
   resolvedAt: optional(z.string()),
   skills: z.record(z.string(), LockedSkillSchema),
+  rules: optional(z.record(z.string(), LockedItemSchema)),
+  commands: optional(z.record(z.string(), LockedItemSchema)),
+  subagents: optional(z.record(z.string(), LockedItemSchema)),
+  mcp: optional(z.record(z.string(), LockedItemSchema)),
+  hooks: optional(z.record(z.string(), LockedItemSchema)),
+  signer: optional(LockedSignerSchema),
 });
 export type LockedSource = z.infer<typeof LockedSourceSchema>;
 
+/**
+ * Schema for a single locked config preset (a git source in `extends`).
+ */
+export const LockedPresetSchema = z.object({
+  requestedRef: optional(z.string()),
+  resolvedRef: z.string(),
+  resolvedAt: optional(z.string()),
+});
+export type LockedPreset = z.infer<typeof LockedPresetSchema>;
+
 /**
  * Schema for the full lockfile (current version).
  */
 export const SourcesLockSchema = z.object({
   lockfileVersion: z.number(),
   sources: z.record(z.string(), LockedSourceSchema),
+  presets: optional(z.record(z.string(), LockedPresetSchema)),
 });
 export type SourcesLock = z.infer<typeof SourcesLockSchema>;
 
@@ -221,7 +263,7 @@ export function setLockedSource(
     }
   }
   return {
-    lockfileVersion: lock.lockfileVersion,
+    ...lock,
     sources: {
       ...filteredSources,
       [normalized]: entry,
@@ -2,7 +2,12 @@ import { join } from "node:path";
 
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-import { RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH } from "../constants/rulesync-paths.js";
+import {
+  RULESYNC_ALLOWED_SIGNERS_RELATIVE_FILE_PATH,
+  RULESYNC_CURATED_MCP_RELATIVE_FILE_PATH,
+  RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH,
+  RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH,
+} from "../constants/rulesync-paths.js";
 import { setupTestDirectory } from "../test-utils/test-directories.js";
 import {
   directoryExists,
@@ -10,7 +15,9 @@ import {
   removeDirectory,
   writeFileContent,
 } from "../utils/file.js";
+import { readSkillOverlay } from "./skill-overlays.js";
 import { resolveAndFetchSources } from "./sources.js";
+import { verifyCuratedSkills } from "./verify.js";
 
 let mockClientInstance: any;
 
@@ -30,6 +37,9 @@ vi.mock("./github-client.js", () => ({
     resolveRefToSha(...args: any[]) {
       return mockClientInstance.resolveRefToSha(...args);
     }
+    listTags(...args: any[]) {
+      return mockClientInstance.listTags(...args);
+    }
   },
   GitHubClientError: class GitHubClientError extends Error {
     statusCode?: number;
@@ -79,6 +89,28 @@ vi.mock("./git-client.js", () => ({
   resolveDefaultRef: vi.fn(),
   resolveRefToSha: vi.fn(),
   fetchSkillFiles: vi.fn(),
+  fetchRepoFiles: vi.fn(),
+  listRemoteTags: vi.fn(),
+  verifyRefSignature: vi.fn(),
+  SignatureVerificationError: class SignatureVerificationError extends Error {
+    constructor(message: string) {
+      super(message);
+      this.name = "SignatureVerificationError";
+    }
+  },
+}));
+
+vi.mock("./source-snapshot.js", () => ({
+  readSnapshotSource: vi.fn(),
+}));
+
+vi.mock("./skill-overlays.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./skill-overlays.js")>();
+  return { ...actual, readSkillOverlay: vi.fn() };
+});
+
+vi.mock("./verify.js", () => ({
+  verifyCuratedSkills: vi.fn(),
 }));
 
 vi.mock("./sources-lock.js", async (importOriginal) => {
@@ -103,6 +135,7 @@ describe("resolveAndFetchSources", () => {
       resolveRefToSha: vi.fn().mockResolvedValue("abc123def456"),
       listDirectory: vi.fn().mockResolvedValue([]),
       getFileContent: vi.fn().mockResolvedValue("file content"),
+      listTags: vi.fn().mockResolvedValue([]),
     };
 
     // Default: no curated dir, no local skills
@@ -110,6 +143,7 @@ describe("resolveAndFetchSources", () => {
     vi.mocked(findFilesByGlobs).mockResolvedValue([]);
     vi.mocked(removeDirectory).mockResolvedValue(undefined);
     vi.mocked(writeFileContent).mockResolvedValue(undefined);
+    vi.mocked(readSkillOverlay).mockResolvedValue(null);
   });
 
   afterEach(async () => {
@@ -123,7 +157,7 @@ describe("resolveAndFetchSources", () => {
       baseDir: testDir,
     });
 
-    expect(result).toEqual({ fetchedSkillCount: 0, sourcesProcessed: 0 });
+    expect(result).toEqual({ fetchedSkillCount: 0, fetchedItemCounts: {}, sourcesProcessed: 0 });
   });
 
   it("should skip fetching when skipSources is true", async () => {
@@ -133,7 +167,7 @@ describe("resolveAndFetchSources", () => {
       options: { skipSources: true },
     });
 
-    expect(result).toEqual({ fetchedSkillCount: 0, sourcesProcessed: 0 });
+    expect(result).toEqual({ fetchedSkillCount: 0, fetchedItemCounts: {}, sourcesProcessed: 0 });
     expect(mockClientInstance.getDefaultBranch).not.toHaveBeenCalled();
   });
 
@@ -244,6 +278,124 @@ describe("resolveAndFetchSources", () => {
     expect(writeFileContent).toHaveBeenCalledWith(expectedFilePath, "# My Skill\nContent here.");
   });
 
+  describe("skill overlays", () => {
+    const skillPatch = [
+      "--- a/SKILL.md",
+      "+++ b/SKILL.md",
+      "@@ -1,2 +1,2 @@",
+      " # My Skill",
+      "-Run npm test.",
+      "+Run pnpm test.",
+      "",
+    ].join("\n");
+
+    beforeEach(() => {
+      mockClientInstance.listDirectory.mockImplementation(
+        async (_owner: string, _repo: string, path: string) => {
+          if (path === "skills") {
+            return [{ name: "my-skill", path: "skills/my-skill", type: "dir" }];
+          }
+          if (path === "skills/my-skill") {
+            return [
+              { name: "SKILL.md", path: "skills/my-skill/SKILL.md", type: "file", size: 100 },
+            ];
+          }
+          return [];
+        },
+      );
+      mockClientInstance.getFileContent.mockResolvedValue("# My Skill\nRun npm test.\n");
+    });
+
+    it("should apply the overlay of a skill and lock its hash", async () => {
+      const { readLockFile, writeLockFile } = await import("./sources-lock.js");
+      vi.mocked(readLockFile).mockResolvedValueOnce({ lockfileVersion: 1, sources: {} });
+      vi.mocked(readSkillOverlay).mockResolvedValue({
+        patches: [{ name: "test-command.patch", content: skillPatch }],
+        files: [{ relativePath: "NOTES.md", content: "Local notes" }],
+        integrity: "sha256-overlay",
+      });
+
+      await resolveAndFetchSources({
+        sources: [{ source: "https://github.com/org/repo" }],
+        baseDir: testDir,
+      });
+
+      const skillDir = join(testDir, RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH, "my-skill");
+      expect(readSkillOverlay).toHaveBeenCalledWith({ baseDir: testDir, skillName: "my-skill" });
+      expect(writeFileContent).toHaveBeenCalledWith(
+        join(skillDir, "SKILL.md"),
+        "# My Skill\nRun pnpm test.\n",
+      );
+      expect(writeFileContent).toHaveBeenCalledWith(join(skillDir, "NOTES.md"), "Local notes");
+      expect(writeLockFile).toHaveBeenCalledWith(
+        expect.objectContaining({
+          lock: expect.objectContaining({
+            sources: {
+              "org/repo": expect.objectContaining({
+                skills: {
+                  "my-skill": {
+                    integrity: expect.stringMatching(/^sha256-/),
+                    overlay: "sha256-overlay",
+                  },
+                },
+              }),
+            },
+          }),
+        }),
+      );
+    });
+
+    it("should fail when a patch no longer applies", async () => {
+      mockClientInstance.getFileContent.mockResolvedValue("# My Skill\nRun yarn test.\n");
+      vi.mocked(readSkillOverlay).mockResolvedValue({
+        patches: [{ name: "test-command.patch", content: skillPatch }],
+        files: [],
+        integrity: "sha256-overlay",
+      });
+
+      await expect(
+        resolveAndFetchSources({
+          sources: [{ source: "https://github.com/org/repo" }],
+          baseDir: testDir,
+        }),
+      ).rejects.toThrow(
+        `Patch ${join(".rulesync", "skills", ".overlays", "my-skill", "test-command.patch")} no longer applies to "SKILL.md" of skill "my-skill" from https://github.com/org/repo`,
+      );
+      expect(writeFileContent).not.toHaveBeenCalled();
+    });
+
+    it("should re-fetch locked skills when their overlay changed", async () => {
+      const { readLockFile } = await import("./sources-lock.js");
+      const curatedDir = join(testDir, RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH);
+      vi.mocked(readLockFile).mockResolvedValueOnce({
+        lockfileVersion: 1,
+        sources: {
+          "https://github.com/org/repo": {
+            resolvedRef: "locked-sha-123",
+            skills: { "my-skill": { integrity: "sha256-old", overlay: "sha256-old-overlay" } },
+          },
+        },
+      });
+      vi.mocked(directoryExists).mockImplementation(
+        async (path: string) => path === join(curatedDir, "my-skill"),
+      );
+      vi.mocked(readSkillOverlay).mockResolvedValue({
+        patches: [{ name: "test-command.patch", content: skillPatch }],
+        files: [],
+        integrity: "sha256-overlay",
+      });
+
+      const result = await resolveAndFetchSources({
+        sources: [{ source: "https://github.com/org/repo" }],
+        baseDir: testDir,
+      });
+
+      expect(mockClientInstance.resolveRefToSha).not.toHaveBeenCalled();
+      expect(result.fetchedSkillCount).toBe(1);
+      expect(logger.warn).not.toHaveBeenCalledWith(expect.stringContaining("Integrity mismatch"));
+    });
+  });
+
   it("should skip skills that exist locally", async () => {
     // Local skill "my-skill" exists
     vi.mocked(directoryExists).mockImplementation(async (path: string) => {
@@ -384,6 +536,99 @@ describe("resolveAndFetchSources", () => {
     expect(result.fetchedSkillCount).toBe(1);
   });
 
+  it("should re-resolve only the sources given in updateSourceKeys", async () => {
+    const { readLockFile, writeLockFile } = await import("./sources-lock.js");
+    vi.mocked(readLockFile).mockResolvedValue({
+      lockfileVersion: 1,
+      sources: {
+        "org/repo": { requestedRef: "main", resolvedRef: "old-sha", skills: {} },
+        "org/other": { requestedRef: "main", resolvedRef: "other-sha", skills: {} },
+      },
+    });
+
+    await resolveAndFetchSources({
+      sources: [{ source: "https://github.com/org/repo" }, { source: "org/other" }],
+      baseDir: testDir,
+      options: { updateSourceKeys: ["org/repo"] },
+    });
+
+    expect(mockClientInstance.resolveRefToSha).toHaveBeenCalledTimes(1);
+    expect(mockClientInstance.resolveRefToSha).toHaveBeenCalledWith("org", "repo", "main");
+    const writtenLock = vi.mocked(writeLockFile).mock.calls[0]?.[0].lock;
+    expect(writtenLock?.sources["org/repo"]?.resolvedRef).toBe("abc123def456");
+    expect(writtenLock?.sources["org/other"]?.resolvedRef).toBe("other-sha");
+  });
+
+  it("should throw when updateSourceKeys contains an undeclared source", async () => {
+    await expect(
+      resolveAndFetchSources({
+        sources: [{ source: "org/repo" }],
+        baseDir: testDir,
+        options: { updateSourceKeys: ["org/missing"] },
+      }),
+    ).rejects.toThrow("Cannot update unknown source(s): org/missing. Declared sources: org/repo");
+  });
+
+  it("should re-fetch modified skills from the locked ref when repairing", async () => {
+    const { readLockFile } = await import("./sources-lock.js");
+    const curatedDir = join(testDir, RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH);
+    vi.mocked(readLockFile).mockResolvedValue({
+      lockfileVersion: 1,
+      sources: {
+        "org/repo": {
+          requestedRef: "main",
+          resolvedRef: "locked-sha",
+          skills: { "my-skill": { integrity: "sha256-locked" } },
+        },
+      },
+    });
+    vi.mocked(verifyCuratedSkills).mockResolvedValue({
+      checkedCount: 1,
+      issues: [
+        {
+          source: "org/repo",
+          skill: "my-skill",
+          status: "modified",
+          expected: "sha256-locked",
+          actual: "sha256-changed",
+        },
+      ],
+    });
+    const removed = new Set<string>();
+    vi.mocked(removeDirectory).mockImplementation(async (path: string) => {
+      removed.add(path);
+    });
+    vi.mocked(directoryExists).mockImplementation(async (path: string) => !removed.has(path));
+    mockClientInstance.listDirectory.mockImplementation(
+      async (_owner: string, _repo: string, path: string) => {
+        if (path === "skills") {
+          return [{ name: "my-skill", path: "skills/my-skill", type: "dir" }];
+        }
+        if (path === "skills/my-skill") {
+          return [{ name: "SKILL.md", path: "skills/my-skill/SKILL.md", type: "file", size: 100 }];
+        }
+        return [];
+      },
+    );
+
+    const result = await resolveAndFetchSources({
+      sources: [{ source: "org/repo" }],
+      baseDir: testDir,
+      options: { repair: true },
+    });
+
+    expect(verifyCuratedSkills).toHaveBeenCalledWith({ baseDir: testDir });
+    expect(removeDirectory).toHaveBeenCalledWith(join(curatedDir, "my-skill"));
+    expect(mockClientInstance.resolveRefToSha).not.toHaveBeenCalled();
+    expect(mockClientInstance.getFileContent).toHaveBeenCalledWith(
+      "org",
+      "repo",
+      "skills/my-skill/SKILL.md",
+      "locked-sha",
+    );
+    expect(result.fetchedSkillCount).toBe(1);
+  });
+
   it("should continue processing other sources when one source fails", async () => {
     let resolveCallCount = 0;
     mockClientInstance.resolveRefToSha.mockImplementation(async () => {
@@ -616,7 +861,7 @@ describe("resolveAndFetchSources", () => {
       options: { frozen: true },
     });
 
-    expect(result).toEqual({ fetchedSkillCount: 1, sourcesProcessed: 1 });
+    expect(result).toEqual({ fetchedSkillCount: 1, fetchedItemCounts: {}, sourcesProcessed: 1 });
     expect(mockClientInstance.getDefaultBranch).not.toHaveBeenCalled();
     expect(mockClientInstance.resolveRefToSha).not.toHaveBeenCalled();
     expect(writeLockFile).not.toHaveBeenCalled();
@@ -729,6 +974,79 @@ describe("resolveAndFetchSources", () => {
     expect(sourceEntry?.skills["remote-skill"]).toBeDefined();
   });
 
+  describe("offline", () => {
+    const lockedSha = "0123456789abcdef0123456789abcdef01234567";
+    let originalCacheHome: string | undefined;
+
+    beforeEach(() => {
+      originalCacheHome = process.env["XDG_CACHE_HOME"];
+      process.env["XDG_CACHE_HOME"] = testDir;
+    });
+
+    afterEach(() => {
+      if (originalCacheHome === undefined) {
+        delete process.env["XDG_CACHE_HOME"];
+      } else {
+        process.env["XDG_CACHE_HOME"] = originalCacheHome;
+      }
+    });
+
+    it("should refuse to update sources", async () => {
+      await expect(
+        resolveAndFetchSources({
+          sources: [{ source: "https://github.com/org/repo" }],
+          baseDir: testDir,
+          options: { offline: true, updateSources: true },
+        }),
+      ).rejects.toThrow("Cannot update sources offline");
+    });
+
+    it("should fail fast for sources that are not locked", async () => {
+      const { readLockFile } = await import("./sources-lock.js");
+      vi.mocked(readLockFile).mockResolvedValueOnce({ lockfileVersion: 1, sources: {} });
+
+      await expect(
+        resolveAndFetchSources({
+          sources: [
+            { source: "https://github.com/org/repo" },
+            { source: "https://github.com/org/other" },
+          ],
+          baseDir: testDir,
+          options: { offline: true },
+        }),
+      ).rejects.toThrow(
+        `Cannot resolve the ref of "https://github.com/org/repo" offline: the lockfile has no matching entry.`,
+      );
+      expect(mockClientInstance.resolveRefToSha).not.toHaveBeenCalled();
+      expect(mockClientInstance.getDefaultBranch).not.toHaveBeenCalled();
+    });
+
+    it("should fail fast when locked git files are not in the cache", async () => {
+      const { readLockFile } = await import("./sources-lock.js");
+      const { fetchSkillFiles } = await import("./git-client.js");
+      const url = "https://dev.azure.com/org/project/_git/repo";
+      vi.mocked(readLockFile).mockResolvedValueOnce({
+        lockfileVersion: 1,
+        sources: {
+          [url]: {
+            requestedRef: "main",
+            resolvedRef: lockedSha,
+            skills: { "my-skill": { integrity: "sha256-abc" } },
+          },
+        },
+      });
+
+      await expect(
+        resolveAndFetchSources({
+          sources: [{ source: url, transport: "git" }],
+          baseDir: testDir,
+          options: { offline: true },
+        }),
+      ).rejects.toThrow(`"skills" at ${lockedSha} is not in the source cache`);
+      expect(fetchSkillFiles).not.toHaveBeenCalled();
+    });
+  });
+
   it("should fetch skills via git transport", async () => {
     const { resolveDefaultRef, fetchSkillFiles } = await import("./git-client.js");
     vi.mocked(resolveDefaultRef).mockResolvedValue({ ref: "main", sha: "abc123def456" });
@@ -749,6 +1067,36 @@ describe("resolveAndFetchSources", () => {
     );
   });
 
+  it("should fetch git files at the locked commit even if the branch has moved", async () => {
+    const { readLockFile } = await import("./sources-lock.js");
+    const { resolveRefToSha, fetchSkillFiles } = await import("./git-client.js");
+    const url = "https://dev.azure.com/org/project/_git/repo";
+    vi.mocked(readLockFile).mockResolvedValueOnce({
+      lockfileVersion: 1,
+      sources: {
+        [url]: {
+          requestedRef: "main",
+          resolvedRef: "locked-sha",
+          skills: { "my-skill": { integrity: "sha256-abc" } },
+        },
+      },
+    });
+    vi.mocked(resolveRefToSha).mockResolvedValue("moved-sha");
+    vi.mocked(fetchSkillFiles).mockResolvedValue([]);
+
+    await resolveAndFetchSources({
+      sources: [{ source: url, transport: "git" }],
+      baseDir: testDir,
+      options: { frozen: true },
+    });
+
+    expect(vi.mocked(fetchSkillFiles)).toHaveBeenCalledWith({
+      url,
+      sha: "locked-sha",
+      skillsPath: "skills",
+    });
+  });
+
   it("should use explicit ref and path for git transport", async () => {
     const { resolveRefToSha, fetchSkillFiles } = await import("./git-client.js");
     vi.mocked(resolveRefToSha).mockResolvedValue("def456abc789");
@@ -766,8 +1114,384 @@ describe("resolveAndFetchSources", () => {
     expect(vi.mocked(resolveRefToSha)).toHaveBeenCalledWith("file:///local/clone", "develop");
     expect(vi.mocked(fetchSkillFiles)).toHaveBeenCalledWith({
       url: "file:///local/clone",
-      ref: "develop",
+      sha: "def456abc789",
       skillsPath: "exports/skills",
     });
   });
+
+  it("should fetch selected rules and MCP servers and lock them", async () => {
+    const { writeLockFile } = await import("./sources-lock.js");
+    const { GitHubClientError } = await import("./github-client.js");
+    mockClientInstance.listDirectory.mockImplementation(
+      async (_owner: string, _repo: string, path: string) => {
+        if (path === "rules") {
+          return [
+            { name: "style.md", path: "rules/style.md", type: "file", size: 10 },
+            { name: "other.md", path: "rules/other.md", type: "file", size: 10 },
+          ];
+        }
+        throw new GitHubClientError("Not Found", 404);
+      },
+    );
+    mockClientInstance.getFileContent.mockImplementation(
+      async (_owner: string, _repo: string, path: string) => {
+        if (path === "mcp.json") {
+          return JSON.stringify({ mcpServers: { github: { command: "gh-mcp" } } });
+        }
+        return `content of ${path}`;
+      },
+    );
+
+    const result = await resolveAndFetchSources({
+      sources: [{ source: "https://github.com/org/repo", rules: ["style"], mcp: ["*"] }],
+      baseDir: testDir,
+    });
+
+    expect(result.fetchedSkillCount).toBe(0);
+    expect(result.fetchedItemCounts).toEqual({ rules: 1, mcp: 1 });
+    expect(writeFileContent).toHaveBeenCalledWith(
+      join(testDir, RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH, "style.md"),
+      "content of rules/style.md",
+    );
+    expect(writeFileContent).not.toHaveBeenCalledWith(
+      join(testDir, RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH, "other.md"),
+      expect.anything(),
+    );
+    expect(writeFileContent).toHaveBeenCalledWith(
+      join(testDir, RULESYNC_CURATED_MCP_RELATIVE_FILE_PATH),
+      expect.stringContaining('"gh-mcp"'),
+    );
+
+    const writtenLock = vi.mocked(writeLockFile).mock.calls[0]?.[0].lock;
+    const sourceEntry = writtenLock?.sources["org/repo"];
+    expect(Object.keys(sourceEntry?.rules ?? {})).toEqual(["style"]);
+    expect(sourceEntry?.mcp?.github?.integrity).toMatch(/^sha256-/);
+  });
+
+  it("should re-fetch when a selected feature is missing from the lockfile", async () => {
+    const { readLockFile } = await import("./sources-lock.js");
+    vi.mocked(readLockFile).mockResolvedValue({
+      lockfileVersion: 1,
+      sources: {
+        "https://github.com/org/repo": { resolvedRef: "locked-sha-123", skills: {} },
+      },
+    });
+
+    await resolveAndFetchSources({
+      sources: [{ source: "https://github.com/org/repo", skills: [], commands: ["*"] }],
+      baseDir: testDir,
+    });
+
+    expect(mockClientInstance.listDirectory).toHaveBeenCalledWith(
+      "org",
+      "repo",
+      "commands",
+      "locked-sha-123",
+    );
+    // Skills are not listed when the selector is empty
+    expect(mockClientInstance.listDirectory).not.toHaveBeenCalledWith(
+      "org",
+      "repo",
+      "skills",
+      expect.anything(),
+    );
+  });
+
+  it("should fetch selected features via git transport", async () => {
+    const { resolveDefaultRef, fetchSkillFiles, fetchRepoFiles } = await import("./git-client.js");
+    vi.mocked(resolveDefaultRef).mockResolvedValue({ ref: "main", sha: "abc123def456" });
+    vi.mocked(fetchSkillFiles).mockResolvedValue([]);
+    vi.mocked(fetchRepoFiles).mockResolvedValue([
+      { relativePath: "rules/nested/style.md", content: "# Style", size: 7 },
+    ]);
+
+    const result = await resolveAndFetchSources({
+      sources: [{ source: "file:///local/clone", transport: "git", rules: ["*"], hooks: ["*"] }],
+      baseDir: testDir,
+    });
+
+    expect(vi.mocked(fetchRepoFiles)).toHaveBeenCalledWith({
+      url: "file:///local/clone",
+      sha: "abc123def456",
+      directories: ["rules"],
+      files: ["hooks.json"],
+    });
+    expect(result.fetchedItemCounts).toEqual({ rules: 1, hooks: 0 });
+    expect(writeFileContent).toHaveBeenCalledWith(
+      join(testDir, RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH, "nested", "style.md"),
+      "# Style",
+    );
+  });
+
+  it("should fetch skills and features from a local directory and lock their integrity", async () => {
+    const { writeLockFile } = await import("./sources-lock.js");
+    const { readSnapshotSource } = await import("./source-snapshot.js");
+    vi.mocked(readSnapshotSource).mockResolvedValue({
+      files: [
+        { relativePath: "skills/my-skill/SKILL.md", content: "# My Skill" },
+        { relativePath: "rules/style.md", content: "# Style" },
+      ],
+      skillsPath: "skills",
+      integrity: "sha256-contents",
+    });
+
+    const result = await resolveAndFetchSources({
+      sources: [{ source: "../shared-ai-config", transport: "local", rules: ["*"] }],
+      baseDir: testDir,
+    });
+
+    expect(result.fetchedSkillCount).toBe(1);
+    expect(result.fetchedItemCounts).toEqual({ rules: 1 });
+    expect(writeFileContent).toHaveBeenCalledWith(
+      join(testDir, RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH, "my-skill", "SKILL.md"),
+      "# My Skill",
+    );
+    expect(writeFileContent).toHaveBeenCalledWith(
+      join(testDir, RULESYNC_CURATED_RULES_RELATIVE_DIR_PATH, "style.md"),
+      "# Style",
+    );
+
+    const writtenLock = vi.mocked(writeLockFile).mock.calls[0]?.[0].lock;
+    const sourceEntry = writtenLock?.sources["../shared-ai-config"];
+    expect(sourceEntry?.requestedRef).toBeUndefined();
+    expect(sourceEntry?.resolvedRef).toBe("sha256-contents");
+    expect(Object.keys(sourceEntry?.skills ?? {})).toEqual(["my-skill"]);
+  });
+
+  it("should read skills from the path of a tarball source", async () => {
+    const { readSnapshotSource } = await import("./source-snapshot.js");
+    vi.mocked(readSnapshotSource).mockResolvedValue({
+      files: [{ relativePath: "exports/skills/my-skill/SKILL.md", content: "# From Tarball" }],
+      skillsPath: "exports/skills",
+      integrity: "sha256-contents",
+    });
+
+    const result = await resolveAndFetchSources({
+      sources: [
+        { source: "file:///tmp/config.tar.gz", transport: "tarball", path: "exports/skills" },
+      ],
+      baseDir: testDir,
+    });
+
+    expect(result.fetchedSkillCount).toBe(1);
+    expect(writeFileContent).toHaveBeenCalledWith(
+      join(testDir, RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH, "my-skill", "SKILL.md"),
+      "# From Tarball",
+    );
+  });
+
+  it("should fail in frozen mode when a local source changed since it was locked", async () => {
+    const { readLockFile, writeLockFile } = await import("./sources-lock.js");
+    const { readSnapshotSource } = await import("./source-snapshot.js");
+    vi.mocked(readLockFile).mockResolvedValue({
+      lockfileVersion: 1,
+      sources: {
+        "../shared-ai-config": {
+          resolvedRef: "sha256-old",
+          skills: { "my-skill": { integrity: "sha256-skill" } },
+        },
+      },
+    });
+    vi.mocked(readSnapshotSource).mockResolvedValue({
+      files: [{ relativePath: "skills/my-skill/SKILL.md", content: "# Changed" }],
+      skillsPath: "skills",
+      integrity: "sha256-new",
+    });
+
+    const result = await resolveAndFetchSources({
+      sources: [{ source: "../shared-ai-config", transport: "local" }],
+      baseDir: testDir,
+      options: { frozen: true },
+    });
+
+    expect(result.fetchedSkillCount).toBe(0);
+    expect(writeFileContent).not.toHaveBeenCalled();
+    expect(writeLockFile).not.toHaveBeenCalled();
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'contents of "../shared-ai-config" changed since the lockfile was written',
+      ),
+    );
+  });
+
+  it("should resolve a semver range to the highest matching tag and lock both", async () => {
+    const { writeLockFile } = await import("./sources-lock.js");
+    mockClientInstance.listTags.mockResolvedValue([
+      { name: "v2.0.0", sha: "sha-200" },
+      { name: "v1.5.1", sha: "sha-151" },
+      { name: "v1.4.2", sha: "sha-142" },
+    ]);
+
+    await resolveAndFetchSources({
+      sources: [{ source: "org/repo@^1.4" }],
+      baseDir: testDir,
+    });
+
+    expect(mockClientInstance.resolveRefToSha).not.toHaveBeenCalled();
+    expect(mockClientInstance.listDirectory).toHaveBeenCalledWith(
+      "org",
+      "repo",
+      "skills",
+      "sha-151",
+    );
+    const writtenLock = vi.mocked(writeLockFile).mock.calls[0]?.[0].lock;
+    expect(writtenLock?.sources["org/repo@^1.4"]).toMatchObject({
+      requestedRef: "^1.4",
+      resolvedTag: "v1.5.1",
+      resolvedRef: "sha-151",
+    });
+    expect(logger.info).toHaveBeenCalledWith(
+      'org/repo@^1.4 has a newer tag v2.0.0 outside the range "^1.4" (using v1.5.1).',
+    );
+  });
+
+  it("should re-resolve a semver range that changed since it was locked", async () => {
+    const { readLockFile } = await import("./sources-lock.js");
+    vi.mocked(readLockFile).mockResolvedValue({
+      lockfileVersion: 1,
+      sources: {
+        "file:///local/clone": {
+          requestedRef: "^1.4",
+          resolvedTag: "v1.4.2",
+          resolvedRef: "sha-142",
+          skills: {},
+        },
+      },
+    });
+    const { listRemoteTags, fetchSkillFiles } = await import("./git-client.js");
+    vi.mocked(listRemoteTags).mockResolvedValue([
+      { name: "v1.4.2", sha: "sha-142" },
+      { name: "v2.1.0", sha: "sha-210" },
+    ]);
+    vi.mocked(fetchSkillFiles).mockResolvedValue([]);
+
+    await resolveAndFetchSources({
+      sources: [{ source: "file:///local/clone", transport: "git", ref: "^2" }],
+      baseDir: testDir,
+    });
+
+    expect(vi.mocked(fetchSkillFiles)).toHaveBeenCalledWith({
+      url: "file:///local/clone",
+      sha: "sha-210",
+      skillsPath: "skills",
+    });
+  });
+
+  it("should fail when no tag satisfies the semver range", async () => {
+    mockClientInstance.listTags.mockResolvedValue([{ name: "v2.0.0", sha: "sha-200" }]);
+
+    const result = await resolveAndFetchSources({
+      sources: [{ source: "org/repo@~1.4" }],
+      baseDir: testDir,
+    });
+
+    expect(result.fetchedSkillCount).toBe(0);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Failed to fetch source "org/repo@~1.4": Error: No tag of org/repo@~1.4 satisfies the range "~1.4".',
+    );
+  });
+
+  describe("signed sources", () => {
+    const allowedSigners = "alice@example.com ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIExample\n";
+    const signer = { format: "ssh" as const, principal: "alice@example.com", key: "SHA256:abc" };
+
+    beforeEach(async () => {
+      const { readLockFile } = await import("./sources-lock.js");
+      vi.mocked(readLockFile).mockResolvedValue({ lockfileVersion: 1, sources: {} });
+      const actual = await vi.importActual<typeof import("../utils/file.js")>("../utils/file.js");
+      await actual.writeFileContent(
+        join(testDir, RULESYNC_ALLOWED_SIGNERS_RELATIVE_FILE_PATH),
+        allowedSigners,
+      );
+    });
+
+    it("should verify the resolved commit and lock its signer", async () => {
+      const { writeLockFile } = await import("./sources-lock.js");
+      const { resolveRefToSha, fetchSkillFiles, verifyRefSignature } =
+        await import("./git-client.js");
+      vi.mocked(resolveRefToSha).mockResolvedValue("def456abc789");
+      vi.mocked(fetchSkillFiles).mockResolvedValue([]);
+      vi.mocked(verifyRefSignature).mockResolvedValue(signer);
+
+      await resolveAndFetchSources({
+        sources: [
+          { source: "file:///local/clone", transport: "git", ref: "v1", requireSignature: true },
+        ],
+        baseDir: testDir,
+      });
+
+      expect(verifyRefSignature).toHaveBeenCalledWith({
+        url: "file:///local/clone",
+        sha: "def456abc789",
+        tag: "v1",
+        allowedSigners,
+      });
+      const writtenLock = vi.mocked(writeLockFile).mock.calls[0]?.[0].lock;
+      expect(writtenLock?.sources["file:///local/clone"]?.signer).toEqual(signer);
+    });
+
+    it("should refuse to install a source that is not signed by an allowed signer", async () => {
+      const { fetchSkillFiles, resolveDefaultRef, verifyRefSignature, SignatureVerificationError } =
+        await import("./git-client.js");
+      vi.mocked(resolveDefaultRef).mockResolvedValue({ ref: "main", sha: "abc123def456" });
+      vi.mocked(verifyRefSignature).mockRejectedValue(
+        new SignatureVerificationError("Commit abc123def456 is not signed by an allowed signer."),
+      );
+
+      await expect(
+        resolveAndFetchSources({
+          sources: [{ source: "file:///local/clone", transport: "git", requireSignature: true }],
+          baseDir: testDir,
+        }),
+      ).rejects.toThrow("Commit abc123def456 is not signed by an allowed signer.");
+      expect(fetchSkillFiles).not.toHaveBeenCalled();
+    });
+
+    it("should verify GitHub sources through their clone URL", async () => {
+      const { verifyRefSignature } = await import("./git-client.js");
+      vi.mocked(verifyRefSignature).mockResolvedValue(signer);
+
+      await resolveAndFetchSources({
+        sources: [{ source: "org/repo", requireSignature: true }],
+        baseDir: testDir,
+        options: { allowedSigners: RULESYNC_ALLOWED_SIGNERS_RELATIVE_FILE_PATH },
+      });
+
+      expect(verifyRefSignature).toHaveBeenCalledWith({
+        url: "https://github.com/org/repo.git",
+        sha: "abc123def456",
+        tag: "main",
+        allowedSigners,
+      });
+    });
+
+    it("should reuse the signer locked for the same commit", async () => {
+      const { readLockFile } = await import("./sources-lock.js");
+      const { verifyRefSignature } = await import("./git-client.js");
+      vi.mocked(readLockFile).mockResolvedValue({
+        lockfileVersion: 1,
+        sources: {
+          "org/repo": { requestedRef: "main", resolvedRef: "locked-sha", skills: {}, signer },
+        },
+      });
+
+      await resolveAndFetchSources({
+        sources: [{ source: "org/repo", requireSignature: true }],
+        baseDir: testDir,
+      });
+
+      expect(verifyRefSignature).not.toHaveBeenCalled();
+      expect(mockClientInstance.listDirectory).not.toHaveBeenCalled();
+    });
+
+    it("should fail when the allowed-signers file does not exist", async () => {
+      await expect(
+        resolveAndFetchSources({
+          sources: [{ source: "org/repo", requireSignature: true }],
+          baseDir: testDir,
+          options: { allowedSigners: "missing_signers" },
+        }),
+      ).rejects.toThrow('the allowed-signers file "missing_signers" does not exist');
+    });
+  });
 });
@@ -1,11 +1,13 @@
 import { join, resolve, sep } from "node:path";
 
 import { Semaphore } from "es-toolkit/promise";
+import { z } from "zod/mini";
 
 import type { SourceEntry } from "../config/config.js";
 import {
   FETCH_CONCURRENCY_LIMIT,
   MAX_FILE_SIZE,
+  RULESYNC_ALLOWED_SIGNERS_RELATIVE_FILE_PATH,
   RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH,
 } from "../constants/rulesync-paths.js";
 import { getLocalSkillDirNames } from "../features/skills/skills-utils.js";
@@ -13,19 +15,47 @@ import { formatError } from "../utils/error.js";
 import {
   checkPathTraversal,
   directoryExists,
+  readFileContentOrNull,
   removeDirectory,
   writeFileContent,
 } from "../utils/file.js";
 import { logger } from "../utils/logger.js";
-import { fetchSkillFiles, resolveDefaultRef, resolveRefToSha, validateRef } from "./git-client.js";
+import { isSemverRange, selectSemverTag } from "../utils/semver.js";
+import {
+  SignatureVerificationError,
+  fetchRepoFiles,
+  fetchSkillFiles,
+  listRemoteTags,
+  resolveDefaultRef,
+  resolveRefToSha,
+  validateRef,
+  verifyRefSignature,
+} from "./git-client.js";
 import { GitHubClient, GitHubClientError, logGitHubAuthHints } from "./github-client.js";
 import { listDirectoryRecursive, withSemaphore } from "./github-utils.js";
+import { SkillOverlayError, applySkillOverlay, readSkillOverlay } from "./skill-overlays.js";
+import { OfflineSourceError, SourceCache } from "./source-cache.js";
+import {
+  SOURCE_FEATURES,
+  type SourceFeature,
+  type SourceFeatureItemNames,
+  type SourceReader,
+  addLockedSourceFeatureItems,
+  checkLockedSourceFeaturesExist,
+  createInMemorySourceReader,
+  createSourceFeatureItemNames,
+  fetchSourceFeatures,
+  getSelectedSourceFeatures,
+  getSourceFeaturePaths,
+} from "./source-features.js";
 import { parseSource } from "./source-parser.js";
+import { readSnapshotSource } from "./source-snapshot.js";
 import {
+  type LockedSigner,
   type LockedSkill,
+  type LockedSource,
   type SourcesLock,
   computeSkillIntegrity,
-  createEmptyLock,
   getLockedSkillNames,
   getLockedSource,
   normalizeSourceKey,
@@ -33,26 +63,48 @@ import {
   setLockedSource,
   writeLockFile,
 } from "./sources-lock.js";
+import { verifyCuratedSkills } from "./verify.js";
 
 export type ResolveAndFetchSourcesOptions = {
   /** Force re-resolve all refs, ignoring the lockfile. */
   updateSources?: boolean;
+  /** Re-resolve only the refs of these sources, keeping the other lockfile entries. */
+  updateSourceKeys?: string[];
   /** Skip fetching entirely (use what's already on disk). */
   skipSources?: boolean;
   /** Fail if lockfile is missing or doesn't match sources (for CI). */
   frozen?: boolean;
+  /** Re-fetch curated skills whose contents no longer match their lockfile integrity. */
+  repair?: boolean;
+  /** Only use locked refs and the source cache; fail instead of accessing the network. */
+  offline?: boolean;
   /** GitHub token for private repositories. */
   token?: string;
+  /** Path of the allowed-signers file for sources with `requireSignature`, relative to baseDir. */
+  allowedSigners?: string;
 };
 
 export type ResolveAndFetchSourcesResult = {
   fetchedSkillCount: number;
+  /** Number of fetched rules, commands, subagents, MCP servers and hook events. */
+  fetchedItemCounts: Partial<Record<SourceFeature, number>>;
   sourcesProcessed: number;
 };
 
+const RepoFilesSchema = z.array(
+  z.object({ relativePath: z.string(), content: z.string(), size: z.number() }),
+);
+
+type FetchSourceResult = {
+  skillCount: number;
+  fetchedSkillNames: string[];
+  fetchedItemCounts: Partial<Record<SourceFeature, number>>;
+  updatedLock: SourcesLock;
+};
+
 /**
- * Resolve declared sources, fetch remote skills into .rulesync/skills/.curated/,
- * and update the lockfile.
+ * Resolve declared sources, fetch remote skills into .rulesync/skills/.curated/
+ * and the other selected features into their curated locations, and update the lockfile.
  */
 export async function resolveAndFetchSources(params: {
   sources: SourceEntry[];
@@ -62,17 +114,18 @@ export async function resolveAndFetchSources(params: {
   const { sources, baseDir, options = {} } = params;
 
   if (sources.length === 0) {
-    return { fetchedSkillCount: 0, sourcesProcessed: 0 };
+    return { fetchedSkillCount: 0, fetchedItemCounts: {}, sourcesProcessed: 0 };
   }
 
   if (options.skipSources) {
     logger.info("Skipping source fetching.");
-    return { fetchedSkillCount: 0, sourcesProcessed: 0 };
+    return { fetchedSkillCount: 0, fetchedItemCounts: {}, sourcesProcessed: 0 };
   }
 
   // Read existing lockfile
+  // Presets are resolved by the config resolver, so they are kept when updating sources
   let lock: SourcesLock = options.updateSources
-    ? createEmptyLock()
+    ? { ...(await readLockFile({ baseDir })), sources: {} }
     : await readLockFile({ baseDir });
 
   // Frozen mode: validate lockfile covers all declared sources.
@@ -93,31 +146,77 @@ export async function resolveAndFetchSources(params: {
     }
   }
 
+  if (options.offline && (options.updateSources || (options.updateSourceKeys ?? []).length > 0)) {
+    throw new Error("Cannot update sources offline: re-resolving refs requires network access.");
+  }
+
+  const updateSourceKeys = new Set((options.updateSourceKeys ?? []).map(normalizeSourceKey));
+  const unknownKeys = (options.updateSourceKeys ?? []).filter(
+    (key) =>
+      !sources.some((source) => normalizeSourceKey(source.source) === normalizeSourceKey(key)),
+  );
+  if (unknownKeys.length > 0) {
+    throw new Error(
+      `Cannot update unknown source(s): ${unknownKeys.join(", ")}. Declared sources: ${sources.map((source) => source.source).join(", ")}`,
+    );
+  }
+
+  // Modified skills are removed so that they are fetched again like missing ones
+  if (options.repair) {
+    await removeModifiedCuratedSkills(baseDir);
+  }
+
+  const allowedSigners = await readAllowedSigners({
+    sources,
+    baseDir,
+    allowedSignersPath: options.allowedSigners ?? RULESYNC_ALLOWED_SIGNERS_RELATIVE_FILE_PATH,
+  });
+
   const originalLockJson = JSON.stringify(lock);
 
   // Resolve GitHub token
   const token = GitHubClient.resolveToken(options.token);
-  const client = new GitHubClient({ token });
+  const cache = new SourceCache({ offline: options.offline });
+  const client = new GitHubClient({ token, cache });
 
   // Determine local skills (in .rulesync/skills/ but not in .curated/)
   const localSkillNames = await getLocalSkillDirNames(baseDir);
 
   let totalSkillCount = 0;
   const allFetchedSkillNames = new Set<string>();
+  const allFetchedItems = createSourceFeatureItemNames();
+  const totalItemCounts: Partial<Record<SourceFeature, number>> = {};
 
   for (const sourceEntry of sources) {
     try {
       const transport = sourceEntry.transport ?? "github";
-      let result: { skillCount: number; fetchedSkillNames: string[]; updatedLock: SourcesLock };
-      if (transport === "git") {
+      const updateSources =
+        (options.updateSources ?? false) ||
+        updateSourceKeys.has(normalizeSourceKey(sourceEntry.source));
+      let result: FetchSourceResult;
+      if (transport === "local" || transport === "tarball") {
+        result = await fetchSourceFromSnapshot({
+          sourceEntry,
+          baseDir,
+          lock,
+          localSkillNames,
+          alreadyFetchedSkillNames: allFetchedSkillNames,
+          alreadyFetchedItems: allFetchedItems,
+          updateSources,
+          frozen: options.frozen ?? false,
+        });
+      } else if (transport === "git") {
         result = await fetchSourceViaGit({
           sourceEntry,
           baseDir,
           lock,
           localSkillNames,
           alreadyFetchedSkillNames: allFetchedSkillNames,
-          updateSources: options.updateSources ?? false,
+          alreadyFetchedItems: allFetchedItems,
+          updateSources,
           frozen: options.frozen ?? false,
+          cache,
+          allowedSigners,
         });
       } else {
         result = await fetchSource({
@@ -127,17 +226,35 @@ export async function resolveAndFetchSources(params: {
           lock,
           localSkillNames,
           alreadyFetchedSkillNames: allFetchedSkillNames,
-          updateSources: options.updateSources ?? false,
+          alreadyFetchedItems: allFetchedItems,
+          updateSources,
+          offline: options.offline ?? false,
+          allowedSigners,
         });
       }
-      const { skillCount, fetchedSkillNames, updatedLock } = result;
+      const { skillCount, fetchedSkillNames, fetchedItemCounts, updatedLock } = result;
 
       lock = updatedLock;
       totalSkillCount += skillCount;
       for (const name of fetchedSkillNames) {
         allFetchedSkillNames.add(name);
       }
+      for (const feature of SOURCE_FEATURES) {
+        const count = fetchedItemCounts[feature];
+        if (count !== undefined) {
+          totalItemCounts[feature] = (totalItemCounts[feature] ?? 0) + count;
+        }
+      }
     } catch (error) {
+      // Offline installs stop at the first source that would need the network, overlays that
+      // no longer apply must be fixed before installing, and unsigned refs are never skipped over
+      if (
+        error instanceof OfflineSourceError ||
+        error instanceof SkillOverlayError ||
+        error instanceof SignatureVerificationError
+      ) {
+        throw error;
+      }
       logger.error(`Failed to fetch source "${sourceEntry.source}": ${formatError(error)}`);
       if (error instanceof GitHubClientError) {
         logGitHubAuthHints(error);
@@ -155,7 +272,7 @@ export async function resolveAndFetchSources(params: {
       logger.debug(`Pruned stale lockfile entry: ${key}`);
     }
   }
-  lock = { lockfileVersion: lock.lockfileVersion, sources: prunedSources };
+  lock = { ...lock, sources: prunedSources };
 
   // Only write lockfile if it has changed (and not in frozen mode)
   if (!options.frozen && JSON.stringify(lock) !== originalLockJson) {
@@ -164,7 +281,28 @@ export async function resolveAndFetchSources(params: {
     logger.debug("Lockfile unchanged, skipping write.");
   }
 
-  return { fetchedSkillCount: totalSkillCount, sourcesProcessed: sources.length };
+  return {
+    fetchedSkillCount: totalSkillCount,
+    fetchedItemCounts: totalItemCounts,
+    sourcesProcessed: sources.length,
+  };
+}
+
+/**
+ * Remove the curated skills whose contents no longer match the integrity recorded in the lockfile.
+ */
+async function removeModifiedCuratedSkills(baseDir: string): Promise<void> {
+  const { issues } = await verifyCuratedSkills({ baseDir });
+  const curatedDir = join(baseDir, RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH);
+  const base = resolve(curatedDir);
+  for (const issue of issues) {
+    const dir = join(curatedDir, issue.skill);
+    if (issue.status !== "modified" || !resolve(dir).startsWith(base + sep)) {
+      continue;
+    }
+    logger.info(`Repairing skill "${issue.skill}" from ${issue.source}.`);
+    await removeDirectory(dir);
+  }
 }
 
 /**
@@ -180,6 +318,55 @@ async function checkLockedSkillsExist(curatedDir: string, skillNames: string[]):
   return true;
 }
 
+/**
+ * Check that the overlays of the locked skills of a source are those they were installed with.
+ */
+async function checkLockedSkillOverlaysUnchanged(params: {
+  baseDir: string;
+  locked: LockedSource;
+}): Promise<boolean> {
+  for (const [skillName, lockedSkill] of Object.entries(params.locked.skills)) {
+    const overlay = await readSkillOverlay({ baseDir: params.baseDir, skillName });
+    if (overlay?.integrity !== lockedSkill.overlay) {
+      logger.debug(`Overlay of skill "${skillName}" changed since it was installed.`);
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Apply the overlay of a skill, if it has one, and write the skill to the curated directory.
+ * Returns the lockfile entry of the skill, with the integrity of the files as written.
+ */
+async function writeCuratedSkill(params: {
+  baseDir: string;
+  skillName: string;
+  sourceKey: string;
+  files: Array<{ path: string; content: string }>;
+}): Promise<LockedSkill> {
+  const { baseDir, skillName, sourceKey } = params;
+  const skillDir = join(baseDir, RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH, skillName);
+  const overlay = await readSkillOverlay({ baseDir, skillName });
+  const files = overlay
+    ? applySkillOverlay({ skillName, sourceKey, files: params.files, overlay })
+    : params.files;
+
+  for (const file of files) {
+    checkPathTraversal({ relativePath: file.path, intendedRootDir: skillDir });
+  }
+  for (const file of files) {
+    await writeFileContent(join(skillDir, file.path), file.content);
+  }
+  if (overlay) {
+    logger.debug(`Applied overlay to skill "${skillName}" from ${sourceKey}.`);
+  }
+  return {
+    integrity: computeSkillIntegrity(files),
+    ...(overlay ? { overlay: overlay.integrity } : {}),
+  };
+}
+
 /**
  * Fetch skills from a single source entry.
  */
@@ -190,21 +377,31 @@ async function fetchSource(params: {
   lock: SourcesLock;
   localSkillNames: Set<string>;
   alreadyFetchedSkillNames: Set<string>;
+  alreadyFetchedItems: SourceFeatureItemNames;
   updateSources: boolean;
-}): Promise<{
-  skillCount: number;
-  fetchedSkillNames: string[];
-  updatedLock: SourcesLock;
-}> {
-  const { sourceEntry, client, baseDir, localSkillNames, alreadyFetchedSkillNames, updateSources } =
-    params;
+  offline: boolean;
+  allowedSigners: string | null;
+}): Promise<FetchSourceResult> {
+  const {
+    sourceEntry,
+    client,
+    baseDir,
+    localSkillNames,
+    alreadyFetchedSkillNames,
+    alreadyFetchedItems,
+    updateSources,
+    offline,
+    allowedSigners,
+  } = params;
   let { lock } = params;
 
   const parsed = parseSource(sourceEntry.source);
 
-  if (parsed.provider === "gitlab") {
-    logger.warn(`GitLab sources are not yet supported. Skipping "${sourceEntry.source}".`);
-    return { skillCount: 0, fetchedSkillNames: [], updatedLock: lock };
+  if (parsed.provider !== "github") {
+    logger.warn(
+      `${parsed.provider} sources can only be installed with the git transport. Skipping "${sourceEntry.source}"; set "transport": "git" to install it.`,
+    );
+    return { skillCount: 0, fetchedSkillNames: [], fetchedItemCounts: {}, updatedLock: lock };
   }
 
   const sourceKey = sourceEntry.source;
@@ -215,13 +412,30 @@ async function fetchSource(params: {
   let ref: string;
   let resolvedSha: string;
   let requestedRef: string | undefined;
+  let resolvedTag: string | undefined;
+  const range = parsed.ref && isSemverRange(parsed.ref) ? parsed.ref : undefined;
 
-  if (locked && !updateSources) {
+  // A semver range that differs from the locked one is resolved again
+  if (locked && !updateSources && (!range || locked.requestedRef === range)) {
     // Use the locked SHA for deterministic fetching
     ref = locked.resolvedRef;
     resolvedSha = locked.resolvedRef;
     requestedRef = locked.requestedRef;
+    resolvedTag = locked.resolvedTag;
     logger.debug(`Using locked ref for ${sourceKey}: ${resolvedSha}`);
+  } else if (offline) {
+    throw createOfflineResolveError(sourceKey);
+  } else if (range) {
+    const tag = selectSourceTag({
+      sourceKey,
+      range,
+      tags: await client.listTags(parsed.owner, parsed.repo),
+    });
+    requestedRef = range;
+    resolvedTag = tag.name;
+    resolvedSha = tag.sha;
+    ref = resolvedSha;
+    logger.debug(`Resolved ${sourceKey} range "${range}" to tag ${tag.name}: ${resolvedSha}`);
   } else {
     // Resolve the ref (or default branch) to a SHA
     requestedRef = parsed.ref ?? (await client.getDefaultBranch(parsed.owner, parsed.repo));
@@ -230,16 +444,31 @@ async function fetchSource(params: {
     logger.debug(`Resolved ${sourceKey} ref "${requestedRef}" to SHA: ${resolvedSha}`);
   }
 
+  const signer = await verifySourceSignature({
+    sourceEntry,
+    url: `https://github.com/${parsed.owner}/${parsed.repo}.git`,
+    sha: resolvedSha,
+    tag: resolvedTag ?? requestedRef,
+    locked,
+    allowedSigners,
+    offline,
+  });
+
   const curatedDir = join(baseDir, RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH);
 
-  // Skip re-fetch if SHA matches lockfile and curated skills exist on disk
-  if (locked && resolvedSha === locked.resolvedRef && !updateSources) {
-    const allExist = await checkLockedSkillsExist(curatedDir, lockedSkillNames);
+  // Skip re-fetch if SHA matches lockfile and curated skills and other items exist on disk
+  if (locked && resolvedSha === locked.resolvedRef && signer === locked.signer && !updateSources) {
+    const allExist =
+      (await checkLockedSkillsExist(curatedDir, lockedSkillNames)) &&
+      (await checkLockedSkillOverlaysUnchanged({ baseDir, locked })) &&
+      (await checkLockedSourceFeaturesExist({ baseDir, sourceEntry, locked }));
     if (allExist) {
       logger.debug(`SHA unchanged for ${sourceKey}, skipping re-fetch.`);
+      addLockedSourceFeatureItems(alreadyFetchedItems, locked);
       return {
         skillCount: 0,
         fetchedSkillNames: lockedSkillNames,
+        fetchedItemCounts: {},
         updatedLock: lock,
       };
     }
@@ -252,20 +481,27 @@ async function fetchSource(params: {
   // List the skills/ directory in the remote repo.
   // If a path is given in the source URL, it points directly to the skills directory.
   // Otherwise, look for "skills/" at the repo root.
+  // Sources that only provide other features can opt out of skills with an empty selector.
   const skillsBasePath = parsed.path ?? "skills";
-  let remoteSkillDirs: Array<{ name: string; path: string }>;
+  const hasFeatures = getSelectedSourceFeatures(sourceEntry).length > 0;
+  let remoteSkillDirs: Array<{ name: string; path: string }> = [];
 
   try {
-    const entries = await client.listDirectory(parsed.owner, parsed.repo, skillsBasePath, ref);
-    remoteSkillDirs = entries
-      .filter((e) => e.type === "dir")
-      .map((e) => ({ name: e.name, path: e.path }));
+    if (skillFilter.length > 0) {
+      const entries = await client.listDirectory(parsed.owner, parsed.repo, skillsBasePath, ref);
+      remoteSkillDirs = entries
+        .filter((e) => e.type === "dir")
+        .map((e) => ({ name: e.name, path: e.path }));
+    }
   } catch (error) {
     if (error instanceof GitHubClientError && error.statusCode === 404) {
       logger.warn(`No skills/ directory found in ${sourceKey}. Skipping.`);
-      return { skillCount: 0, fetchedSkillNames: [], updatedLock: lock };
+      if (!hasFeatures) {
+        return { skillCount: 0, fetchedSkillNames: [], fetchedItemCounts: {}, updatedLock: lock };
+      }
+    } else {
+      throw error;
     }
-    throw error;
   }
 
   // Filter skills by name
@@ -344,13 +580,12 @@ async function fetchSource(params: {
       return true;
     });
 
-    // Fetch all file contents and compute integrity hash
+    // Fetch all file contents
     const skillFiles: Array<{ path: string; content: string }> = [];
 
     for (const file of files) {
       // Calculate relative path within the skill directory
       const relativeToSkill = file.path.substring(skillDir.path.length + 1);
-      const localFilePath = join(curatedDir, skillDir.name, relativeToSkill);
 
       // Validate path to prevent traversal attacks
       checkPathTraversal({
@@ -361,11 +596,16 @@ async function fetchSource(params: {
       const content = await withSemaphore(semaphore, () =>
         client.getFileContent(parsed.owner, parsed.repo, file.path, ref),
       );
-      await writeFileContent(localFilePath, content);
       skillFiles.push({ path: relativeToSkill, content });
     }
 
-    const integrity = computeSkillIntegrity(skillFiles);
+    const lockedSkill = await writeCuratedSkill({
+      baseDir,
+      skillName: skillDir.name,
+      sourceKey,
+      files: skillFiles,
+    });
+    const { integrity } = lockedSkill;
 
     // Verify integrity against lockfile hash when available
     const lockedSkillEntry = locked?.skills[skillDir.name];
@@ -373,6 +613,7 @@ async function fetchSource(params: {
       lockedSkillEntry &&
       lockedSkillEntry.integrity &&
       lockedSkillEntry.integrity !== integrity &&
+      lockedSkillEntry.overlay === lockedSkill.overlay &&
       resolvedSha === locked?.resolvedRef
     ) {
       logger.warn(
@@ -380,12 +621,28 @@ async function fetchSource(params: {
       );
     }
 
-    fetchedSkills[skillDir.name] = { integrity };
+    fetchedSkills[skillDir.name] = lockedSkill;
     logger.debug(`Fetched skill "${skillDir.name}" from ${sourceKey}`);
   }
 
   const fetchedNames = Object.keys(fetchedSkills);
 
+  const { lockedFeatures, fetchedItemCounts } = await fetchSourceFeatures({
+    sourceEntry,
+    sourceKey,
+    reader: createGitHubSourceReader({
+      client,
+      owner: parsed.owner,
+      repo: parsed.repo,
+      ref,
+      semaphore,
+    }),
+    baseDir,
+    locked,
+    resolvedSha,
+    alreadyFetchedItems,
+  });
+
   // Merge newly fetched skills with existing locked skills that were skipped
   // (due to local precedence, already-fetched, etc.) to prevent overwriting their entries
   const mergedSkills: Record<string, LockedSkill> = { ...fetchedSkills };
@@ -400,9 +657,12 @@ async function fetchSource(params: {
   // Update lockfile entry
   lock = setLockedSource(lock, sourceKey, {
     requestedRef,
+    resolvedTag,
     resolvedRef: resolvedSha,
     resolvedAt: new Date().toISOString(),
     skills: mergedSkills,
+    ...lockedFeatures,
+    signer,
   });
 
   logger.info(
@@ -412,10 +672,143 @@ async function fetchSource(params: {
   return {
     skillCount: fetchedNames.length,
     fetchedSkillNames: fetchedNames,
+    fetchedItemCounts,
     updatedLock: lock,
   };
 }
 
+/**
+ * Read the allowed-signers file when a source requires a signature.
+ * @returns The content of the file, or null when no source requires a signature
+ */
+async function readAllowedSigners(params: {
+  sources: SourceEntry[];
+  baseDir: string;
+  allowedSignersPath: string;
+}): Promise<string | null> {
+  const { sources, baseDir, allowedSignersPath } = params;
+  if (!sources.some((source) => source.requireSignature)) {
+    return null;
+  }
+  const content = await readFileContentOrNull(join(baseDir, allowedSignersPath));
+  if (content === null) {
+    throw new SignatureVerificationError(
+      `Sources require a signature, but the allowed-signers file "${allowedSignersPath}" does not exist. Create it or set "allowedSigners" in rulesync.jsonc.`,
+    );
+  }
+  return content;
+}
+
+/**
+ * Verify that the resolved commit or tag of a source with `requireSignature` is signed by an
+ * allowed signer. The signer locked for the same commit is reused without verifying again.
+ * @returns The signer to lock, or undefined when the source does not require a signature
+ */
+async function verifySourceSignature(params: {
+  sourceEntry: SourceEntry;
+  url: string;
+  sha: string;
+  tag: string | undefined;
+  locked: LockedSource | undefined;
+  allowedSigners: string | null;
+  offline: boolean;
+}): Promise<LockedSigner | undefined> {
+  const { sourceEntry, url, sha, tag, locked, allowedSigners, offline } = params;
+  if (!sourceEntry.requireSignature || allowedSigners === null) {
+    return undefined;
+  }
+  if (locked?.signer && locked.resolvedRef === sha) {
+    return locked.signer;
+  }
+  if (offline) {
+    throw new OfflineSourceError(
+      `Cannot verify the signature of "${sourceEntry.source}" offline: the lockfile has no signer for ${sha}. Run 'rulesync install' without --offline first.`,
+    );
+  }
+  const signer = await verifyRefSignature({ url, sha, tag, allowedSigners });
+  logger.info(
+    `Verified ${sourceEntry.source} at ${sha}: signed by ${signer.principal} (${signer.format} key ${signer.key}).`,
+  );
+  return signer;
+}
+
+function createOfflineResolveError(sourceKey: string): OfflineSourceError {
+  return new OfflineSourceError(
+    `Cannot resolve the ref of "${sourceKey}" offline: the lockfile has no matching entry. Run 'rulesync install' without --offline first.`,
+  );
+}
+
+/**
+ * Select the highest tag of a source satisfying a semver range, and report when a newer tag
+ * exists outside the range.
+ */
+function selectSourceTag(params: {
+  sourceKey: string;
+  range: string;
+  tags: Array<{ name: string; sha: string }>;
+}): { name: string; sha: string } {
+  const { sourceKey, range, tags } = params;
+  const { tag, newerTag } = selectSemverTag(tags, range);
+  if (!tag) {
+    throw new Error(`No tag of ${sourceKey} satisfies the range "${range}".`);
+  }
+  if (newerTag) {
+    logger.info(
+      `${sourceKey} has a newer tag ${newerTag.name} outside the range "${range}" (using ${tag.name}).`,
+    );
+  }
+  return tag;
+}
+
+async function ignoreNotFound<T>(fn: () => Promise<T>, fallback: T): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    if (error instanceof GitHubClientError && error.statusCode === 404) {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read source files through the GitHub API. Missing paths read as empty or null.
+ */
+function createGitHubSourceReader(params: {
+  client: GitHubClient;
+  owner: string;
+  repo: string;
+  ref: string;
+  semaphore: Semaphore;
+}): SourceReader {
+  const { client, owner, repo, ref, semaphore } = params;
+  return {
+    readDirectory: (path) =>
+      ignoreNotFound(async () => {
+        const files = await listDirectoryRecursive({ client, owner, repo, path, ref, semaphore });
+        const results: Array<{ relativePath: string; content: string }> = [];
+        for (const file of files) {
+          if (file.size > MAX_FILE_SIZE) {
+            logger.warn(
+              `Skipping file "${file.path}" (${(file.size / 1024 / 1024).toFixed(2)}MB exceeds ${MAX_FILE_SIZE / 1024 / 1024}MB limit).`,
+            );
+            continue;
+          }
+          const content = await withSemaphore(semaphore, () =>
+            client.getFileContent(owner, repo, file.path, ref),
+          );
+          results.push({ relativePath: file.path.substring(path.length + 1), content });
+        }
+        return results;
+      }, []),
+    readFile: (path) =>
+      ignoreNotFound(
+        () => withSemaphore(semaphore, () => client.getFileContent(owner, repo, path, ref)),
+        null,
+      ),
+  };
+}
+
 /**
  * Fetch skills from a single source using git CLI (works with any git remote).
  */
@@ -425,11 +818,23 @@ async function fetchSourceViaGit(params: {
   lock: SourcesLock;
   localSkillNames: Set<string>;
   alreadyFetchedSkillNames: Set<string>;
+  alreadyFetchedItems: SourceFeatureItemNames;
   updateSources: boolean;
   frozen: boolean;
-}): Promise<{ skillCount: number; fetchedSkillNames: string[]; updatedLock: SourcesLock }> {
-  const { sourceEntry, baseDir, localSkillNames, alreadyFetchedSkillNames, updateSources, frozen } =
-    params;
+  cache: SourceCache;
+  allowedSigners: string | null;
+}): Promise<FetchSourceResult> {
+  const {
+    sourceEntry,
+    baseDir,
+    localSkillNames,
+    alreadyFetchedSkillNames,
+    alreadyFetchedItems,
+    updateSources,
+    frozen,
+    cache,
+    allowedSigners,
+  } = params;
   let { lock } = params;
   const url = sourceEntry.source;
   const locked = getLockedSource(lock, url);
@@ -437,13 +842,25 @@ async function fetchSourceViaGit(params: {
 
   let resolvedSha: string;
   let requestedRef: string | undefined;
-  if (locked && !updateSources) {
+  let resolvedTag: string | undefined;
+  const range = sourceEntry.ref && isSemverRange(sourceEntry.ref) ? sourceEntry.ref : undefined;
+  // A semver range that differs from the locked one is resolved again
+  if (locked && !updateSources && (!range || locked.requestedRef === range)) {
     resolvedSha = locked.resolvedRef;
     requestedRef = locked.requestedRef;
+    resolvedTag = locked.resolvedTag;
     // Validate locked ref before passing to git commands
-    if (requestedRef) {
-      validateRef(requestedRef);
+    const lockedRef = resolvedTag ?? requestedRef;
+    if (lockedRef) {
+      validateRef(lockedRef);
     }
+  } else if (cache.isOffline()) {
+    throw createOfflineResolveError(url);
+  } else if (range) {
+    const tag = selectSourceTag({ sourceKey: url, range, tags: await listRemoteTags(url) });
+    requestedRef = range;
+    resolvedTag = tag.name;
+    resolvedSha = tag.sha;
   } else if (sourceEntry.ref) {
     requestedRef = sourceEntry.ref;
     resolvedSha = await resolveRefToSha(url, requestedRef);
@@ -453,10 +870,30 @@ async function fetchSourceViaGit(params: {
     resolvedSha = def.sha;
   }
 
+  const signer = await verifySourceSignature({
+    sourceEntry,
+    url,
+    sha: resolvedSha,
+    tag: resolvedTag ?? requestedRef,
+    locked,
+    allowedSigners,
+    offline: cache.isOffline(),
+  });
+
   const curatedDir = join(baseDir, RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH);
-  if (locked && resolvedSha === locked.resolvedRef && !updateSources) {
-    if (await checkLockedSkillsExist(curatedDir, lockedSkillNames)) {
-      return { skillCount: 0, fetchedSkillNames: lockedSkillNames, updatedLock: lock };
+  if (locked && resolvedSha === locked.resolvedRef && signer === locked.signer && !updateSources) {
+    if (
+      (await checkLockedSkillsExist(curatedDir, lockedSkillNames)) &&
+      (await checkLockedSkillOverlaysUnchanged({ baseDir, locked })) &&
+      (await checkLockedSourceFeaturesExist({ baseDir, sourceEntry, locked }))
+    ) {
+      addLockedSourceFeatureItems(alreadyFetchedItems, locked);
+      return {
+        skillCount: 0,
+        fetchedSkillNames: lockedSkillNames,
+        fetchedItemCounts: {},
+        updatedLock: lock,
+      };
     }
   }
 
@@ -467,19 +904,228 @@ async function fetchSourceViaGit(params: {
         `Frozen install failed: lockfile entry for "${url}" is missing requestedRef. Run 'rulesync install' to update the lockfile.`,
       );
     }
+    if (cache.isOffline()) {
+      throw createOfflineResolveError(url);
+    }
     const def = await resolveDefaultRef(url);
     requestedRef = def.ref;
     resolvedSha = def.sha;
   }
 
   const skillFilter = sourceEntry.skills ?? ["*"];
-  const isWildcard = skillFilter.length === 1 && skillFilter[0] === "*";
-  const remoteFiles = await fetchSkillFiles({
-    url,
-    ref: requestedRef,
-    skillsPath: sourceEntry.path ?? "skills",
+  const skillsPath = sourceEntry.path ?? "skills";
+  const remoteFiles =
+    skillFilter.length > 0
+      ? ((await cache.remember({
+          sha: resolvedSha,
+          kind: "files",
+          path: skillsPath,
+          schema: RepoFilesSchema,
+          fetch: () => fetchSkillFiles({ url, sha: resolvedSha, skillsPath }),
+        })) ?? [])
+      : [];
+
+  const fetchedSkills = await writeCuratedSkills({
+    files: remoteFiles,
+    sourceKey: url,
+    skillFilter,
+    baseDir,
+    locked,
+    resolvedSha,
+    localSkillNames,
+    alreadyFetchedSkillNames,
+  });
+  const fetchedNames = Object.keys(fetchedSkills);
+
+  const featurePaths = getSourceFeaturePaths(sourceEntry);
+  const featureFiles =
+    featurePaths.directories.length > 0 || featurePaths.files.length > 0
+      ? ((await cache.remember({
+          sha: resolvedSha,
+          kind: "files",
+          path: [...featurePaths.directories, ...featurePaths.files].join("\n"),
+          schema: RepoFilesSchema,
+          fetch: () => fetchRepoFiles({ url, sha: resolvedSha, ...featurePaths }),
+        })) ?? [])
+      : [];
+  const { lockedFeatures, fetchedItemCounts } = await fetchSourceFeatures({
+    sourceEntry,
+    sourceKey: url,
+    reader: createInMemorySourceReader(featureFiles),
+    baseDir,
+    locked,
+    resolvedSha,
+    alreadyFetchedItems,
+  });
+
+  const mergedSkills: Record<string, LockedSkill> = { ...fetchedSkills };
+  if (locked) {
+    for (const [k, v] of Object.entries(locked.skills)) {
+      if (!(k in mergedSkills)) mergedSkills[k] = v;
+    }
+  }
+
+  lock = setLockedSource(lock, url, {
+    requestedRef,
+    resolvedTag,
+    resolvedRef: resolvedSha,
+    resolvedAt: new Date().toISOString(),
+    skills: mergedSkills,
+    ...lockedFeatures,
+    signer,
+  });
+
+  logger.info(
+    `Fetched ${fetchedNames.length} skill(s) from ${url}: ${fetchedNames.join(", ") || "(none)"}`,
+  );
+  return {
+    skillCount: fetchedNames.length,
+    fetchedSkillNames: fetchedNames,
+    fetchedItemCounts,
+    updatedLock: lock,
+  };
+}
+
+/**
+ * Fetch skills and other features from a local directory or a `.tar.gz` file. These sources
+ * have no commits, so the lockfile records an integrity hash of their contents as `resolvedRef`.
+ */
+async function fetchSourceFromSnapshot(params: {
+  sourceEntry: SourceEntry;
+  baseDir: string;
+  lock: SourcesLock;
+  localSkillNames: Set<string>;
+  alreadyFetchedSkillNames: Set<string>;
+  alreadyFetchedItems: SourceFeatureItemNames;
+  updateSources: boolean;
+  frozen: boolean;
+}): Promise<FetchSourceResult> {
+  const {
+    sourceEntry,
+    baseDir,
+    localSkillNames,
+    alreadyFetchedSkillNames,
+    alreadyFetchedItems,
+    updateSources,
+    frozen,
+  } = params;
+  let { lock } = params;
+  const sourceKey = sourceEntry.source;
+  const locked = getLockedSource(lock, sourceKey);
+  const lockedSkillNames = locked ? getLockedSkillNames(locked) : [];
+
+  if (sourceEntry.requireSignature) {
+    throw new SignatureVerificationError(
+      `"${sourceKey}" requires a signature, but ${sourceEntry.transport} sources have no commits to verify.`,
+    );
+  }
+
+  const { files, skillsPath, integrity } = await readSnapshotSource({ sourceEntry, baseDir });
+
+  if (locked && integrity !== locked.resolvedRef && frozen) {
+    throw new Error(
+      `Frozen install failed: contents of "${sourceKey}" changed since the lockfile was written (expected "${locked.resolvedRef}", got "${integrity}"). Run 'rulesync install' to update the lockfile.`,
+    );
+  }
+
+  const curatedDir = join(baseDir, RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH);
+  if (locked && integrity === locked.resolvedRef && !updateSources) {
+    if (
+      (await checkLockedSkillsExist(curatedDir, lockedSkillNames)) &&
+      (await checkLockedSkillOverlaysUnchanged({ baseDir, locked })) &&
+      (await checkLockedSourceFeaturesExist({ baseDir, sourceEntry, locked }))
+    ) {
+      addLockedSourceFeatureItems(alreadyFetchedItems, locked);
+      return {
+        skillCount: 0,
+        fetchedSkillNames: lockedSkillNames,
+        fetchedItemCounts: {},
+        updatedLock: lock,
+      };
+    }
+  }
+
+  const fetchedSkills = await writeCuratedSkills({
+    files: files
+      .filter((file) => file.relativePath.startsWith(`${skillsPath}/`))
+      .map((file) => ({
+        relativePath: file.relativePath.substring(skillsPath.length + 1),
+        content: file.content,
+      })),
+    sourceKey,
+    skillFilter: sourceEntry.skills ?? ["*"],
+    baseDir,
+    locked,
+    resolvedSha: integrity,
+    localSkillNames,
+    alreadyFetchedSkillNames,
+  });
+  const fetchedNames = Object.keys(fetchedSkills);
+
+  const { lockedFeatures, fetchedItemCounts } = await fetchSourceFeatures({
+    sourceEntry,
+    sourceKey,
+    reader: createInMemorySourceReader(files),
+    baseDir,
+    locked,
+    resolvedSha: integrity,
+    alreadyFetchedItems,
   });
 
+  const mergedSkills: Record<string, LockedSkill> = { ...fetchedSkills };
+  if (locked) {
+    for (const [k, v] of Object.entries(locked.skills)) {
+      if (!(k in mergedSkills)) mergedSkills[k] = v;
+    }
+  }
+
+  lock = setLockedSource(lock, sourceKey, {
+    resolvedRef: integrity,
+    resolvedAt: new Date().toISOString(),
+    skills: mergedSkills,
+    ...lockedFeatures,
+  });
+
+  logger.info(
+    `Fetched ${fetchedNames.length} skill(s) from ${sourceKey}: ${fetchedNames.join(", ") || "(none)"}`,
+  );
+  return {
+    skillCount: fetchedNames.length,
+    fetchedSkillNames: fetchedNames,
+    fetchedItemCounts,
+    updatedLock: lock,
+  };
+}
+
+/**
+ * Write the skills in `files`, listed relative to the skills directory of a source, to the
+ * curated directory, replacing the skills previously fetched from the same source.
+ * Local skills and skills already fetched from an earlier source are skipped.
+ */
+async function writeCuratedSkills(params: {
+  files: Array<{ relativePath: string; content: string }>;
+  sourceKey: string;
+  skillFilter: string[];
+  baseDir: string;
+  locked: LockedSource | undefined;
+  resolvedSha: string;
+  localSkillNames: Set<string>;
+  alreadyFetchedSkillNames: Set<string>;
+}): Promise<Record<string, LockedSkill>> {
+  const {
+    files: remoteFiles,
+    sourceKey: url,
+    skillFilter,
+    baseDir,
+    locked,
+    resolvedSha,
+    localSkillNames,
+    alreadyFetchedSkillNames,
+  } = params;
+  const curatedDir = join(baseDir, RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH);
+  const lockedSkillNames = locked ? getLockedSkillNames(locked) : [];
+  const isWildcard = skillFilter.length === 1 && skillFilter[0] === "*";
+
   // Group files by skill directory (first path component)
   const skillFileMap = new Map<string, Array<{ relativePath: string; content: string }>>();
   for (const file of remoteFiles) {
@@ -526,46 +1172,25 @@ async function fetchSourceViaGit(params: {
       continue;
     }
 
-    const files = skillFileMap.get(skillName) ?? [];
-    const written: Array<{ path: string; content: string }> = [];
-    for (const file of files) {
-      checkPathTraversal({
-        relativePath: file.relativePath,
-        intendedRootDir: join(curatedDir, skillName),
-      });
-      await writeFileContent(join(curatedDir, skillName, file.relativePath), file.content);
-      written.push({ path: file.relativePath, content: file.content });
-    }
-
-    const integrity = computeSkillIntegrity(written);
+    const lockedSkill = await writeCuratedSkill({
+      baseDir,
+      skillName,
+      sourceKey: url,
+      files: (skillFileMap.get(skillName) ?? []).map((file) => ({
+        path: file.relativePath,
+        content: file.content,
+      })),
+    });
     const lockedSkillEntry = locked?.skills[skillName];
     if (
       lockedSkillEntry?.integrity &&
-      lockedSkillEntry.integrity !== integrity &&
+      lockedSkillEntry.integrity !== lockedSkill.integrity &&
+      lockedSkillEntry.overlay === lockedSkill.overlay &&
       resolvedSha === locked?.resolvedRef
     ) {
       logger.warn(`Integrity mismatch for skill "${skillName}" from ${url}.`);
     }
-    fetchedSkills[skillName] = { integrity };
+    fetchedSkills[skillName] = lockedSkill;
   }
-
-  const fetchedNames = Object.keys(fetchedSkills);
-  const mergedSkills: Record<string, LockedSkill> = { ...fetchedSkills };
-  if (locked) {
-    for (const [k, v] of Object.entries(locked.skills)) {
-      if (!(k in mergedSkills)) mergedSkills[k] = v;
-    }
-  }
-
-  lock = setLockedSource(lock, url, {
-    requestedRef,
-    resolvedRef: resolvedSha,
-    resolvedAt: new Date().toISOString(),
-    skills: mergedSkills,
-  });
-
-  logger.info(
-    `Fetched ${fetchedNames.length} skill(s) from ${url}: ${fetchedNames.join(", ") || "(none)"}`,
-  );
-  return { skillCount: fetchedNames.length, fetchedSkillNames: fetchedNames, updatedLock: lock };
+  return fetchedSkills;
 }
@@ -0,0 +1,291 @@
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Config, type ConfigParams } from "../config/config.js";
+import {
+  RULESYNC_COMMANDS_RELATIVE_DIR_PATH,
+  RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH,
+  RULESYNC_HOOKS_RELATIVE_FILE_PATH,
+  RULESYNC_MCP_RELATIVE_FILE_PATH,
+  RULESYNC_RULES_RELATIVE_DIR_PATH,
+  RULESYNC_SKILLS_RELATIVE_DIR_PATH,
+  RULESYNC_SUBAGENTS_RELATIVE_DIR_PATH,
+} from "../constants/rulesync-paths.js";
+import { setupTestDirectory } from "../test-utils/test-directories.js";
+import { writeFileContent } from "../utils/file.js";
+import { validate } from "./validate.js";
+
+describe("validate", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  const createConfig = (overrides: Partial<ConfigParams> = {}) =>
+    new Config({
+      baseDirs: [testDir],
+      targets: ["claudecode", "copilot"],
+      features: ["*"],
+      verbose: false,
+      delete: false,
+      silent: true,
+      ...overrides,
+    });
+
+  const writeRule = (name: string, content: string) =>
+    writeFileContent(join(testDir, RULESYNC_RULES_RELATIVE_DIR_PATH, name), content);
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+    vi.spyOn(process, "cwd").mockReturnValue(testDir);
+  });
+
+  afterEach(async () => {
+    await cleanup();
+    vi.restoreAllMocks();
+  });
+
+  it("should report no issues for a valid tree", async () => {
+    await writeRule("overview.md", "---\nroot: true\ntargets: ['*']\n---\n# Overview\n");
+    await writeFileContent(
+      join(testDir, RULESYNC_COMMANDS_RELATIVE_DIR_PATH, "review.md"),
+      "---\ndescription: Review\n---\nReview the code\n",
+    );
+    await writeFileContent(
+      join(testDir, RULESYNC_MCP_RELATIVE_FILE_PATH),
+      JSON.stringify({ mcpServers: { serena: { command: "serena" } } }),
+    );
+
+    const result = await validate({ config: createConfig() });
+
+    expect(result.issues).toEqual([]);
+    expect(result.errorCount).toBe(0);
+    expect(result.files).toEqual([
+      ".rulesync/commands/review.md",
+      ".rulesync/mcp.json",
+      ".rulesync/rules/overview.md",
+    ]);
+  });
+
+  it("should collect schema errors from every file with their location", async () => {
+    await writeRule("a.md", "---\nroot: false\ndescription: 3\n---\nA\n");
+    await writeFileContent(
+      join(testDir, RULESYNC_SUBAGENTS_RELATIVE_DIR_PATH, "planner.md"),
+      "---\ndescription: Plans\n---\nPlan\n",
+    );
+
+    const result = await validate({ config: createConfig() });
+
+    expect(result.issues).toEqual([
+      expect.objectContaining({
+        severity: "error",
+        rule: "schema",
+        file: ".rulesync/rules/a.md",
+        line: 3,
+        column: 1,
+        message: expect.stringContaining("description:"),
+      }),
+      expect.objectContaining({
+        severity: "error",
+        rule: "schema",
+        file: ".rulesync/subagents/planner.md",
+        line: 1,
+        message: expect.stringContaining("name:"),
+      }),
+    ]);
+    expect(result.errorCount).toBe(2);
+  });
+
+  it("should report frontmatter and JSON syntax errors with their line", async () => {
+    await writeRule("broken.md", "---\na: 1\nb: - x\n---\nBody\n");
+    await writeFileContent(join(testDir, RULESYNC_MCP_RELATIVE_FILE_PATH), '{\n  "a": 1,\n}\n');
+
+    const result = await validate({ config: createConfig() });
+
+    expect(result.issues).toEqual([
+      expect.objectContaining({
+        rule: "parse",
+        file: ".rulesync/mcp.json",
+        line: 3,
+        column: 1,
+        message: "Invalid JSON: PropertyNameExpected",
+      }),
+      expect.objectContaining({ rule: "parse", file: ".rulesync/rules/broken.md", line: 3 }),
+    ]);
+  });
+
+  it("should report unknown targets instead of a generic schema error", async () => {
+    await writeRule("a.md", "---\ntargets:\n  - claudecode\n  - unknown-tool\n---\nA\n");
+    await writeFileContent(
+      join(testDir, RULESYNC_MCP_RELATIVE_FILE_PATH),
+      JSON.stringify({ mcpServers: { a: { command: "a", targets: ["nope"] } } }, null, 2),
+    );
+
+    const result = await validate({ config: createConfig() });
+
+    expect(result.issues).toEqual([
+      expect.objectContaining({
+        rule: "unknown-target",
+        file: ".rulesync/mcp.json",
+        line: 5,
+        message: expect.stringContaining('Unknown target "nope" in mcpServers.a.targets'),
+      }),
+      expect.objectContaining({
+        rule: "unknown-target",
+        file: ".rulesync/rules/a.md",
+        line: 4,
+        column: 3,
+        message: expect.stringContaining('Unknown target "unknown-tool" in targets'),
+      }),
+    ]);
+  });
+
+  it("should warn about globs that match no file", async () => {
+    await writeFileContent(join(testDir, "src", "index.ts"), "");
+    await writeRule(
+      "a.md",
+      "---\nglobs:\n  - src/**/*.ts\n  - lib/**/*.js\n  - '!src/**/*.test.ts'\n---\nA\n",
+    );
+
+    const result = await validate({ config: createConfig() });
+
+    expect(result.issues).toEqual([
+      {
+        severity: "warning",
+        rule: "unmatched-glob",
+        file: ".rulesync/rules/a.md",
+        line: 4,
+        column: 3,
+        message: 'Glob "lib/**/*.js" does not match any file',
+      },
+    ]);
+    expect(result.errorCount).toBe(0);
+    expect(result.warningCount).toBe(1);
+  });
+
+  it("should report root rules that apply to the same target", async () => {
+    await writeRule("a.md", "---\nroot: true\n---\nA\n");
+    await writeRule("b.md", "---\nroot: true\ntargets: ['copilot']\n---\nB\n");
+    await writeRule("c.md", "---\nroot: true\ntargets: ['cursor']\n---\nC\n");
+
+    const result = await validate({ config: createConfig() });
+
+    expect(result.issues).toEqual([
+      expect.objectContaining({
+        rule: "multiple-root-rules",
+        file: ".rulesync/rules/a.md",
+        line: 2,
+        message: expect.stringContaining(
+          "Multiple root rules (.rulesync/rules/a.md, .rulesync/rules/b.md) apply to copilot.",
+        ),
+      }),
+      expect.objectContaining({ rule: "multiple-root-rules", file: ".rulesync/rules/b.md" }),
+    ]);
+  });
+
+  it("should not validate partials in rules/partials as rules", async () => {
+    await writeRule("overview.md", "---\nroot: true\n---\n@include ./rules/partials/a.md\n");
+    await writeRule("partials/a.md", "---\nroot: true\ntargets: 1\n---\nA\n");
+
+    const result = await validate({ config: createConfig() });
+
+    expect(result.issues).toEqual([]);
+  });
+
+  it("should only report root rule conflicts for targets that generate rules", async () => {
+    await writeRule("a.md", "---\nroot: true\n---\nA\n");
+    await writeRule("b.md", "---\nroot: true\n---\nB\n");
+
+    const result = await validate({
+      config: createConfig({ features: { claudecode: ["mcp"], copilot: ["mcp"] } }),
+    });
+
+    expect(result.issues).toEqual([]);
+  });
+
+  it("should report duplicate skill names, including curated skills", async () => {
+    const skill = "---\nname: shared\ndescription: A skill\n---\nBody\n";
+    await writeFileContent(
+      join(testDir, RULESYNC_SKILLS_RELATIVE_DIR_PATH, "a", "SKILL.md"),
+      skill,
+    );
+    await writeFileContent(
+      join(testDir, RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH, "b", "SKILL.md"),
+      skill,
+    );
+    // Shadowed by the local skill "a", so never generated
+    await writeFileContent(
+      join(testDir, RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH, "a", "SKILL.md"),
+      skill,
+    );
+
+    const result = await validate({ config: createConfig() });
+
+    expect(result.issues).toEqual([
+      expect.objectContaining({
+        rule: "duplicate-skill-name",
+        file: ".rulesync/skills/.curated/b/SKILL.md",
+        line: 2,
+        message: 'Skill name "shared" is also used by .rulesync/skills/a/SKILL.md',
+      }),
+      expect.objectContaining({
+        rule: "duplicate-skill-name",
+        file: ".rulesync/skills/a/SKILL.md",
+        message: 'Skill name "shared" is also used by .rulesync/skills/.curated/b/SKILL.md',
+      }),
+    ]);
+  });
+
+  it("should report skill directories without SKILL.md", async () => {
+    await writeFileContent(join(testDir, RULESYNC_SKILLS_RELATIVE_DIR_PATH, "a", "notes.md"), "");
+
+    const result = await validate({ config: createConfig() });
+
+    expect(result.issues).toEqual([
+      expect.objectContaining({ severity: "error", file: ".rulesync/skills/a" }),
+    ]);
+  });
+
+  it("should warn about hook events no configured target supports", async () => {
+    await writeFileContent(
+      join(testDir, RULESYNC_HOOKS_RELATIVE_FILE_PATH),
+      JSON.stringify(
+        {
+          hooks: {
+            sessionStart: [{ command: "a" }],
+            afterTabFileEdit: [{ command: "b" }],
+          },
+          copilot: { hooks: { notification: [{ command: "c" }] } },
+        },
+        null,
+        2,
+      ),
+    );
+
+    const result = await validate({ config: createConfig() });
+
+    expect(result.issues).toEqual([
+      expect.objectContaining({
+        severity: "warning",
+        rule: "unsupported-hook-event",
+        line: 8,
+        message: expect.stringContaining('Hook event "afterTabFileEdit" is not supported'),
+      }),
+      expect.objectContaining({
+        rule: "unsupported-hook-event",
+        line: 16,
+        message: expect.stringContaining('Hook event "notification" is not supported'),
+      }),
+    ]);
+  });
+
+  it("should not check hook events when no target generates hooks", async () => {
+    await writeFileContent(
+      join(testDir, RULESYNC_HOOKS_RELATIVE_FILE_PATH),
+      JSON.stringify({ hooks: { afterTabFileEdit: [{ command: "b" }] } }),
+    );
+
+    const result = await validate({ config: createConfig({ features: ["rules"] }) });
+
+    expect(result.issues).toEqual([]);
+  });
+});
@@ -0,0 +1,694 @@
+import { basename, join, relative } from "node:path";
+
+import { type ParseError, parse as parseJsonc, printParseErrorCode } from "jsonc-parser";
+import type { z } from "zod/mini";
+
+import type { Config } from "../config/config.js";
+import { SKILL_FILE_NAME } from "../constants/general.js";
+import {
+  RULESYNC_AIIGNORE_RELATIVE_FILE_PATH,
+  RULESYNC_COMMANDS_RELATIVE_DIR_PATH,
+  RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH,
+  RULESYNC_HOOKS_RELATIVE_FILE_PATH,
+  RULESYNC_IGNORE_RELATIVE_FILE_PATH,
+  RULESYNC_MCP_RELATIVE_FILE_PATH,
+  RULESYNC_RELATIVE_DIR_PATH,
+  RULESYNC_RULES_RELATIVE_DIR_PATH,
+  RULESYNC_SKILLS_RELATIVE_DIR_PATH,
+  RULESYNC_SUBAGENTS_RELATIVE_DIR_PATH,
+} from "../constants/rulesync-paths.js";
+import { RulesyncCommandFrontmatterSchema } from "../features/commands/rulesync-command.js";
+import { HooksProcessor } from "../features/hooks/hooks-processor.js";
+import { RulesyncMcpConfigSchema } from "../features/mcp/rulesync-mcp.js";
+import {
+  isRulesyncRulePartialPath,
+  RulesyncRuleFrontmatterSchema,
+} from "../features/rules/rulesync-rule.js";
+import type { RulesyncRuleFrontmatter } from "../features/rules/rulesync-rule.js";
+import { RulesyncSkillFrontmatterSchema } from "../features/skills/rulesync-skill.js";
+import { getLocalSkillDirNames } from "../features/skills/skills-utils.js";
+import { RulesyncSubagentFrontmatterSchema } from "../features/subagents/rulesync-subagent.js";
+import { HooksConfigSchema } from "../types/hooks.js";
+import type { HooksConfig } from "../types/hooks.js";
+import type { ToolTarget } from "../types/tool-targets.js";
+import { ALL_TOOL_TARGETS_WITH_WILDCARD } from "../types/tool-targets.js";
+import { formatError } from "../utils/error.js";
+import { directoryExists, fileExists, findFilesByGlobs, readFileContent } from "../utils/file.js";
+import { parseFrontmatter } from "../utils/frontmatter.js";
+import { isRecord } from "../utils/type-guards.js";
+
+export type ValidationSeverity = "error" | "warning";
+
+/**
+ * Identifier of the check that reported an issue.
+ */
+export type ValidationRule =
+  | "parse"
+  | "schema"
+  | "unknown-target"
+  | "unmatched-glob"
+  | "unsupported-hook-event"
+  | "duplicate-skill-name"
+  | "multiple-root-rules";
+
+export type ValidationIssue = {
+  severity: ValidationSeverity;
+  rule: ValidationRule;
+  /** Path relative to the project root, using forward slashes */
+  file: string;
+  /** 1-based line number, when the issue can be located */
+  line?: number;
+  /** 1-based column number, when the issue can be located */
+  column?: number;
+  message: string;
+};
+
+export type ValidateResult = {
+  /** Paths of the files that were checked, relative to the project root */
+  files: string[];
+  issues: ValidationIssue[];
+  errorCount: number;
+  warningCount: number;
+};
+
+type SourceLocation = { line: number; column: number };
+
+type SourceFile = {
+  /** Path relative to the project root, using forward slashes */
+  path: string;
+  content: string;
+  /** Offsets of the region that object paths are looked up in (the frontmatter for Markdown) */
+  start: number;
+  end: number;
+};
+
+type ParsedRule = { file: SourceFile; frontmatter: RulesyncRuleFrontmatter };
+
+const KNOWN_TARGETS: readonly string[] = ALL_TOOL_TARGETS_WITH_WILDCARD;
+
+function toPosixPath(path: string): string {
+  return path.replaceAll("\\", "/");
+}
+
+function escapeRegExp(value: string): string {
+  return value.replaceAll(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function getLocation(content: string, offset: number): SourceLocation {
+  const before = content.slice(0, offset);
+  const line = before.split("\n").length;
+  return { line, column: offset - before.lastIndexOf("\n") };
+}
+
+/**
+ * Find the position of a value in a YAML frontmatter or JSON document from its object path.
+ * Falls back to the deepest key that could be found, or to the start of the region.
+ */
+function locatePath(file: SourceFile, path: ReadonlyArray<PropertyKey>): SourceLocation {
+  let offset = file.start;
+  for (const segment of path) {
+    if (typeof segment === "string") {
+      const pattern = new RegExp(`(?:^|[\\s{,-])(["']?)${escapeRegExp(segment)}\\1[ \\t]*:`, "gm");
+      pattern.lastIndex = offset;
+      const match = pattern.exec(file.content);
+      if (!match || match.index >= file.end) {
+        break;
+      }
+      offset = match.index + match[0].length - match[0].trimStart().length;
+      continue;
+    }
+    if (typeof segment === "number") {
+      // Only YAML block sequences have one item per line; inline arrays stay on the key
+      const lineEnd = file.content.indexOf("\n", offset);
+      const restOfLine = file.content.slice(file.content.indexOf(":", offset) + 1, lineEnd);
+      if (lineEnd === -1 || restOfLine.trim() !== "") {
+        break;
+      }
+      const itemPattern = /\n[ \t]*-[ \t]/g;
+      itemPattern.lastIndex = lineEnd;
+      let itemOffset: number | null = null;
+      for (let index = 0; index <= segment; index++) {
+        const match = itemPattern.exec(file.content);
+        if (!match || match.index >= file.end) {
+          itemOffset = null;
+          break;
+        }
+        itemOffset = match.index + match[0].indexOf("-");
+      }
+      if (itemOffset === null) {
+        break;
+      }
+      offset = itemOffset;
+      continue;
+    }
+    break;
+  }
+  return getLocation(file.content, offset);
+}
+
+function getYamlErrorDetails(error: unknown): { reason: string; location: SourceLocation } | null {
+  const cause = error instanceof Error ? error.cause : undefined;
+  if (
+    typeof cause !== "object" ||
+    cause === null ||
+    !("mark" in cause) ||
+    typeof cause.mark !== "object" ||
+    cause.mark === null ||
+    !("line" in cause.mark) ||
+    !("column" in cause.mark) ||
+    typeof cause.mark.line !== "number" ||
+    typeof cause.mark.column !== "number"
+  ) {
+    return null;
+  }
+  const reason = "reason" in cause && typeof cause.reason === "string" ? cause.reason : "";
+  // The frontmatter passed to the YAML parser starts on the opening `---` line
+  return {
+    reason: reason || formatError(error),
+    location: { line: cause.mark.line + 1, column: cause.mark.column + 1 },
+  };
+}
+
+/**
+ * Collects validation issues for the files of one `.rulesync` tree.
+ */
+class Validator {
+  readonly files: string[] = [];
+  readonly issues: ValidationIssue[] = [];
+  private readonly baseDir: string;
+
+  constructor({ baseDir }: { baseDir: string }) {
+    this.baseDir = baseDir;
+  }
+
+  report(params: Omit<ValidationIssue, "line" | "column"> & { location?: SourceLocation }): void {
+    const { location, ...issue } = params;
+    this.issues.push({ ...issue, ...location });
+  }
+
+  async readSourceFile(absolutePath: string): Promise<SourceFile> {
+    const path = toPosixPath(relative(this.baseDir, absolutePath));
+    const content = await readFileContent(absolutePath);
+    this.files.push(path);
+    return { path, content, start: 0, end: content.length };
+  }
+
+  /**
+   * Report schema issues, with unknown target names reported separately.
+   * @returns The parsed data, or null when it doesn't match the schema.
+   */
+  checkSchema<T>({
+    file,
+    schema,
+    data,
+    targetPaths = [["targets"]],
+  }: {
+    file: SourceFile;
+    schema: z.ZodMiniType<T>;
+    data: unknown;
+    targetPaths?: Array<Array<string>>;
+  }): T | null {
+    const reportedTargetPaths = targetPaths.filter((targetPath) =>
+      this.checkTargets({ file, data, path: targetPath }),
+    );
+
+    const result = schema.safeParse(data);
+    if (result.success) {
+      return result.data;
+    }
+
+    for (const issue of result.error.issues) {
+      const alreadyReported = reportedTargetPaths.some((targetPath) =>
+        targetPath.every((segment, index) => issue.path[index] === segment),
+      );
+      if (alreadyReported) {
+        continue;
+      }
+      const field = issue.path.map(String).join(".");
+      this.report({
+        severity: "error",
+        rule: "schema",
+        file: file.path,
+        location: locatePath(file, issue.path),
+        message: field ? `${field}: ${issue.message}` : issue.message,
+      });
+    }
+    return null;
+  }
+
+  /**
+   * Report target names that are not known to rulesync.
+   * @returns Whether any unknown target was reported.
+   */
+  private checkTargets({
+    file,
+    data,
+    path,
+  }: {
+    file: SourceFile;
+    data: unknown;
+    path: string[];
+  }): boolean {
+    let value: unknown = data;
+    for (const segment of path) {
+      if (typeof value !== "object" || value === null || !(segment in value)) {
+        return false;
+      }
+      value = Reflect.get(value, segment);
+    }
+    if (!Array.isArray(value)) {
+      return false;
+    }
+
+    let reported = false;
+    for (const [index, target] of value.entries()) {
+      if (typeof target === "string" && KNOWN_TARGETS.includes(target)) {
+        continue;
+      }
+      this.report({
+        severity: "error",
+        rule: "unknown-target",
+        file: file.path,
+        location: locatePath(file, [...path, index]),
+        message: `Unknown target "${String(target)}" in ${path.join(".")}. Valid targets: ${KNOWN_TARGETS.join(", ")}`,
+      });
+      reported = true;
+    }
+    return reported;
+  }
+
+  /**
+   * Read a Markdown file and validate its frontmatter.
+   * @returns The file and its parsed frontmatter, or null when it is invalid.
+   */
+  async checkMarkdownFile<T>({
+    absolutePath,
+    schema,
+  }: {
+    absolutePath: string;
+    schema: z.ZodMiniType<T>;
+  }): Promise<{ file: SourceFile; frontmatter: T } | null> {
+    const file = await this.readSourceFile(absolutePath);
+
+    let frontmatter: Record<string, unknown>;
+    try {
+      ({ frontmatter } = parseFrontmatter(file.content, file.path));
+    } catch (error) {
+      const details = getYamlErrorDetails(error);
+      this.report({
+        severity: "error",
+        rule: "parse",
+        file: file.path,
+        location: details?.location,
+        message: `Invalid frontmatter: ${details?.reason ?? formatError(error)}`,
+      });
+      return null;
+    }
+
+    // Object paths are looked up in the frontmatter only, never in the body
+    const openingLength = file.content.indexOf("\n") + 1;
+    const closingMatch = file.content.startsWith("---")
+      ? /^---[ \t]*$/m.exec(file.content.slice(openingLength))
+      : null;
+    const frontmatterFile: SourceFile = {
+      ...file,
+      end: closingMatch ? openingLength + closingMatch.index : 0,
+    };
+
+    const parsed = this.checkSchema({ file: frontmatterFile, schema, data: frontmatter });
+    return parsed === null ? null : { file: frontmatterFile, frontmatter: parsed };
+  }
+
+  /**
+   * Read a JSON file and validate it.
+   * @returns The file and its parsed content, or null when it is invalid.
+   */
+  async checkJsonFile<T>({
+    absolutePath,
+    schema,
+    targetPaths,
+  }: {
+    absolutePath: string;
+    schema: z.ZodMiniType<T>;
+    targetPaths?: (data: unknown) => Array<Array<string>>;
+  }): Promise<{ file: SourceFile; json: T } | null> {
+    const file = await this.readSourceFile(absolutePath);
+
+    const errors: ParseError[] = [];
+    const data: unknown = parseJsonc(file.content, errors, {
+      disallowComments: true,
+      allowTrailingComma: false,
+    });
+    const [error] = errors;
+    if (error) {
+      this.report({
+        severity: "error",
+        rule: "parse",
+        file: file.path,
+        location: getLocation(file.content, error.offset),
+        message: `Invalid JSON: ${printParseErrorCode(error.error)}`,
+      });
+      return null;
+    }
+
+    const json = this.checkSchema({ file, schema, data, targetPaths: targetPaths?.(data) });
+    return json === null ? null : { file, json };
+  }
+}
+
+async function validateRules({
+  validator,
+  baseDir,
+}: {
+  validator: Validator;
+  baseDir: string;
+}): Promise<ParsedRule[]> {
+  const rulesDir = join(baseDir, RULESYNC_RULES_RELATIVE_DIR_PATH);
+  const rulePaths = (await findFilesByGlobs(join(rulesDir, "**", "*.md"), { type: "file" })).filter(
+    (rulePath) => !isRulesyncRulePartialPath(relative(rulesDir, rulePath)),
+  );
+
+  const rules: ParsedRule[] = [];
+  for (const rulePath of rulePaths) {
+    const result = await validator.checkMarkdownFile({
+      absolutePath: rulePath,
+      schema: RulesyncRuleFrontmatterSchema,
+    });
+    if (!result) {
+      continue;
+    }
+    rules.push({ file: result.file, frontmatter: result.frontmatter });
+
+    for (const [index, glob] of (result.frontmatter.globs ?? []).entries()) {
+      if (glob.startsWith("!")) {
+        continue;
+      }
+      const matches = await findFilesByGlobs(join(baseDir, glob), { type: "file" });
+      if (matches.length === 0) {
+        validator.report({
+          severity: "warning",
+          rule: "unmatched-glob",
+          file: result.file.path,
+          location: locatePath(result.file, ["globs", index]),
+          message: `Glob "${glob}" does not match any file`,
+        });
+      }
+    }
+  }
+  return rules;
+}
+
+/**
+ * Report targets that more than one `root: true` rule applies to, grouped by the conflicting rules.
+ */
+function validateRootRules({
+  validator,
+  rules,
+  targets,
+}: {
+  validator: Validator;
+  rules: ParsedRule[];
+  targets: ToolTarget[];
+}): void {
+  const rootRules = rules.filter((rule) => rule.frontmatter.root);
+  const targetsByConflict = new Map<string, { rules: ParsedRule[]; targets: ToolTarget[] }>();
+
+  for (const target of targets) {
+    const conflictingRules = rootRules.filter(
+      (rule) => rule.frontmatter.targets.includes("*") || rule.frontmatter.targets.includes(target),
+    );
+    if (conflictingRules.length <= 1) {
+      continue;
+    }
+    const key = conflictingRules.map((rule) => rule.file.path).join("\n");
+    const conflict = targetsByConflict.get(key) ?? { rules: conflictingRules, targets: [] };
+    conflict.targets.push(target);
+    targetsByConflict.set(key, conflict);
+  }
+
+  for (const { rules: conflictingRules, targets: conflictTargets } of targetsByConflict.values()) {
+    const paths = conflictingRules.map((rule) => rule.file.path);
+    for (const rule of conflictingRules) {
+      validator.report({
+        severity: "error",
+        rule: "multiple-root-rules",
+        file: rule.file.path,
+        location: locatePath(rule.file, ["root"]),
+        message: `Multiple root rules (${paths.join(", ")}) apply to ${conflictTargets.join(", ")}. Only one rule per target may set "root: true".`,
+      });
+    }
+  }
+}
+
+async function validateCommandsAndSubagents({
+  validator,
+  baseDir,
+}: {
+  validator: Validator;
+  baseDir: string;
+}): Promise<void> {
+  const commandPaths = await findFilesByGlobs(
+    join(baseDir, RULESYNC_COMMANDS_RELATIVE_DIR_PATH, "**", "*.md"),
+    { type: "file" },
+  );
+  for (const commandPath of commandPaths) {
+    await validator.checkMarkdownFile({
+      absolutePath: commandPath,
+      schema: RulesyncCommandFrontmatterSchema,
+    });
+  }
+
+  const subagentPaths = await findFilesByGlobs(
+    join(baseDir, RULESYNC_SUBAGENTS_RELATIVE_DIR_PATH, "*.md"),
+    { type: "file" },
+  );
+  for (const subagentPath of subagentPaths) {
+    await validator.checkMarkdownFile({
+      absolutePath: subagentPath,
+      schema: RulesyncSubagentFrontmatterSchema,
+    });
+  }
+}
+
+async function validateSkills({
+  validator,
+  baseDir,
+}: {
+  validator: Validator;
+  baseDir: string;
+}): Promise<void> {
+  const localDirNames = await getLocalSkillDirNames(baseDir);
+  const skillDirPaths = [...localDirNames].map((dirName) =>
+    join(baseDir, RULESYNC_SKILLS_RELATIVE_DIR_PATH, dirName),
+  );
+
+  // Curated skills shadowed by a local skill of the same directory name are never generated
+  const curatedDirPath = join(baseDir, RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH);
+  if (await directoryExists(curatedDirPath)) {
+    const curatedDirPaths = await findFilesByGlobs(join(curatedDirPath, "*"), { type: "dir" });
+    skillDirPaths.push(...curatedDirPaths.filter((path) => !localDirNames.has(basename(path))));
+  }
+
+  const filesByName = new Map<string, Array<{ file: SourceFile; path: string }>>();
+  for (const skillDirPath of skillDirPaths) {
+    const skillFilePath = join(skillDirPath, SKILL_FILE_NAME);
+    if (!(await fileExists(skillFilePath))) {
+      validator.report({
+        severity: "error",
+        rule: "parse",
+        file: toPosixPath(relative(baseDir, skillDirPath)),
+        message: `${SKILL_FILE_NAME} not found in skill directory`,
+      });
+      continue;
+    }
+
+    const result = await validator.checkMarkdownFile({
+      absolutePath: skillFilePath,
+      schema: RulesyncSkillFrontmatterSchema,
+    });
+    if (!result) {
+      continue;
+    }
+    const entries = filesByName.get(result.frontmatter.name) ?? [];
+    entries.push({ file: result.file, path: result.file.path });
+    filesByName.set(result.frontmatter.name, entries);
+  }
+
+  for (const [name, entries] of filesByName) {
+    if (entries.length <= 1) {
+      continue;
+    }
+    for (const { file } of entries) {
+      const others = entries.filter((entry) => entry.file !== file).map((entry) => entry.path);
+      validator.report({
+        severity: "error",
+        rule: "duplicate-skill-name",
+        file: file.path,
+        location: locatePath(file, ["name"]),
+        message: `Skill name "${name}" is also used by ${others.join(", ")}`,
+      });
+    }
+  }
+}
+
+async function validateMcp({
+  validator,
+  baseDir,
+}: {
+  validator: Validator;
+  baseDir: string;
+}): Promise<void> {
+  const mcpPaths = [
+    join(baseDir, RULESYNC_MCP_RELATIVE_FILE_PATH),
+    join(baseDir, RULESYNC_RELATIVE_DIR_PATH, ".mcp.json"),
+  ];
+  for (const mcpPath of mcpPaths) {
+    if (!(await fileExists(mcpPath))) {
+      continue;
+    }
+    await validator.checkJsonFile({
+      absolutePath: mcpPath,
+      schema: RulesyncMcpConfigSchema,
+      targetPaths: (data) => {
+        const servers = isRecord(data) ? data.mcpServers : undefined;
+        if (!isRecord(servers)) {
+          return [];
+        }
+        return Object.keys(servers).map((name) => ["mcpServers", name, "targets"]);
+      },
+    });
+    // The legacy path is only used when the recommended one doesn't exist
+    return;
+  }
+}
+
+/**
+ * Report hook events that none of the targets generating hooks supports.
+ */
+async function validateHooks({
+  validator,
+  baseDir,
+  hooksTargets,
+  global,
+}: {
+  validator: Validator;
+  baseDir: string;
+  hooksTargets: ToolTarget[];
+  global: boolean;
+}): Promise<void> {
+  const hooksPath = join(baseDir, RULESYNC_HOOKS_RELATIVE_FILE_PATH);
+  if (!(await fileExists(hooksPath))) {
+    return;
+  }
+  const result = await validator.checkJsonFile({
+    absolutePath: hooksPath,
+    schema: HooksConfigSchema,
+  });
+  if (!result || hooksTargets.length === 0) {
+    return;
+  }
+
+  const supportedTargets = HooksProcessor.getToolTargets({ global });
+  const isSupported = (target: ToolTarget, event: string): boolean =>
+    supportedTargets.includes(target) &&
+    HooksProcessor.getSupportedEvents(target).some((supportedEvent) => supportedEvent === event);
+
+  const reportUnsupported = ({
+    hooks,
+    path,
+    targets,
+  }: {
+    hooks: Record<string, unknown>;
+    path: string[];
+    targets: ToolTarget[];
+  }): void => {
+    for (const event of Object.keys(hooks)) {
+      if (targets.some((target) => isSupported(target, event))) {
+        continue;
+      }
+      validator.report({
+        severity: "warning",
+        rule: "unsupported-hook-event",
+        file: result.file.path,
+        location: locatePath(result.file, [...path, event]),
+        message: `Hook event "${event}" is not supported by any configured target (${targets.join(", ")}) and will be skipped`,
+      });
+    }
+  };
+
+  const config: HooksConfig = result.json;
+  reportUnsupported({ hooks: config.hooks, path: ["hooks"], targets: hooksTargets });
+  for (const target of hooksTargets) {
+    const override: unknown = Reflect.get(config, target);
+    const overrideHooks: unknown =
+      typeof override === "object" && override !== null && "hooks" in override
+        ? override.hooks
+        : undefined;
+    if (isRecord(overrideHooks)) {
+      reportUnsupported({ hooks: overrideHooks, path: [target, "hooks"], targets: [target] });
+    }
+  }
+}
+
+async function validateIgnore({
+  validator,
+  baseDir,
+}: {
+  validator: Validator;
+  baseDir: string;
+}): Promise<void> {
+  for (const ignorePath of [
+    join(baseDir, RULESYNC_AIIGNORE_RELATIVE_FILE_PATH),
+    join(baseDir, RULESYNC_IGNORE_RELATIVE_FILE_PATH),
+  ]) {
+    if (await fileExists(ignorePath)) {
+      await validator.readSourceFile(ignorePath);
+      return;
+    }
+  }
+}
+
+/**
+ * Validate every rulesync source file of the project and report schema errors and
+ * semantic problems, without generating anything.
+ * Source files are read from the current working directory.
+ *
+ * @param params.config - Resolved configuration; its targets and features decide which semantic checks apply
+ * @returns Issues sorted by file and position
+ */
+export async function validate({ config }: { config: Config }): Promise<ValidateResult> {
+  const baseDir = process.cwd();
+  const validator = new Validator({ baseDir });
+  const targets = config.getTargets();
+  const global = config.getGlobal();
+
+  const rules = await validateRules({ validator, baseDir });
+  validateRootRules({
+    validator,
+    rules,
+    targets: targets.filter((target) => config.getFeatures(target).includes("rules")),
+  });
+  await validateCommandsAndSubagents({ validator, baseDir });
+  await validateSkills({ validator, baseDir });
+  await validateMcp({ validator, baseDir });
+  await validateHooks({
+    validator,
+    baseDir,
+    hooksTargets: targets.filter((target) => config.getFeatures(target).includes("hooks")),
+    global,
+  });
+  await validateIgnore({ validator, baseDir });
+
+  const issues = validator.issues.toSorted(
+    (a, b) =>
+      a.file.localeCompare(b.file) ||
+      (a.line ?? 0) - (b.line ?? 0) ||
+      (a.column ?? 0) - (b.column ?? 0),
+  );
+  return {
+    files: validator.files.toSorted(),
+    issues,
+    errorCount: issues.filter((issue) => issue.severity === "error").length,
+    warningCount: issues.filter((issue) => issue.severity === "warning").length,
+  };
+}
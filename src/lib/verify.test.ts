@@ -0,0 +1,176 @@
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH } from "../constants/rulesync-paths.js";
+import { setupTestDirectory } from "../test-utils/test-directories.js";
+import { writeFileContent } from "../utils/file.js";
+import { logger } from "../utils/logger.js";
+import { computeSkillIntegrity, writeLockFile } from "./sources-lock.js";
+import {
+  checkCuratedSkillIntegrity,
+  formatCuratedSkillIssue,
+  verifyCuratedSkills,
+} from "./verify.js";
+
+vi.mock("../utils/logger.js", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const skillIntegrity = computeSkillIntegrity([
+  { path: "SKILL.md", content: "# My Skill" },
+  { path: "scripts/run.sh", content: "echo hi" },
+]);
+
+describe("verifyCuratedSkills", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+    await writeLockFile({
+      baseDir: testDir,
+      lock: {
+        lockfileVersion: 1,
+        sources: {
+          "org/repo": {
+            resolvedRef: "abc123",
+            skills: {
+              "my-skill": { integrity: skillIntegrity },
+              "legacy-skill": { integrity: "" },
+            },
+          },
+        },
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await cleanup();
+    vi.clearAllMocks();
+  });
+
+  async function writeSkill(skillMd: string): Promise<void> {
+    const skillDir = join(testDir, RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH, "my-skill");
+    await writeFileContent(join(skillDir, "SKILL.md"), skillMd);
+    await writeFileContent(join(skillDir, "scripts", "run.sh"), "echo hi");
+  }
+
+  it("should report no issues when skills match the lockfile", async () => {
+    await writeSkill("# My Skill");
+
+    const result = await verifyCuratedSkills({ baseDir: testDir });
+
+    expect(result).toEqual({ checkedCount: 1, issues: [] });
+  });
+
+  it("should report modified skills", async () => {
+    await writeSkill("# Tampered");
+
+    const { issues } = await verifyCuratedSkills({ baseDir: testDir });
+
+    expect(issues).toEqual([
+      {
+        source: "org/repo",
+        skill: "my-skill",
+        status: "modified",
+        expected: skillIntegrity,
+        actual: expect.stringMatching(/^sha256-/),
+      },
+    ]);
+    expect(issues[0]?.actual).not.toBe(skillIntegrity);
+  });
+
+  it("should report missing skills", async () => {
+    const { issues } = await verifyCuratedSkills({ baseDir: testDir });
+
+    expect(issues).toEqual([
+      { source: "org/repo", skill: "my-skill", status: "missing", expected: skillIntegrity },
+    ]);
+  });
+
+  it("should report nothing without a lockfile", async () => {
+    const { testDir: emptyDir, cleanup: cleanupEmpty } = await setupTestDirectory();
+    try {
+      expect(await verifyCuratedSkills({ baseDir: emptyDir })).toEqual({
+        checkedCount: 0,
+        issues: [],
+      });
+    } finally {
+      await cleanupEmpty();
+    }
+  });
+});
+
+describe("formatCuratedSkillIssue", () => {
+  it("should describe missing and modified skills", () => {
+    expect(
+      formatCuratedSkillIssue({
+        source: "org/repo",
+        skill: "my-skill",
+        status: "missing",
+        expected: "sha256-a",
+      }),
+    ).toBe('Skill "my-skill" from org/repo is missing');
+    expect(
+      formatCuratedSkillIssue({
+        source: "org/repo",
+        skill: "my-skill",
+        status: "modified",
+        expected: "sha256-a",
+        actual: "sha256-b",
+      }),
+    ).toBe('Skill "my-skill" from org/repo was modified (expected "sha256-a", got "sha256-b")');
+  });
+});
+
+describe("checkCuratedSkillIntegrity", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+    await writeLockFile({
+      baseDir: testDir,
+      lock: {
+        lockfileVersion: 1,
+        sources: {
+          "org/repo": {
+            resolvedRef: "abc123",
+            skills: {
+              "my-skill": { integrity: skillIntegrity },
+              "missing-skill": { integrity: skillIntegrity },
+            },
+          },
+        },
+      },
+    });
+    await writeFileContent(
+      join(testDir, RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH, "my-skill", "SKILL.md"),
+      "# Tampered",
+    );
+  });
+
+  afterEach(async () => {
+    await cleanup();
+    vi.clearAllMocks();
+  });
+
+  it("should warn about modified skills in warn mode", async () => {
+    await checkCuratedSkillIntegrity({ mode: "warn", baseDir: testDir });
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Skill "my-skill" from org/repo was modified'),
+    );
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining("Run 'rulesync install --repair'"),
+    );
+    expect(logger.warn).not.toHaveBeenCalledWith(expect.stringContaining("missing-skill"));
+  });
+
+  it("should throw for modified skills in fail mode", async () => {
+    await expect(checkCuratedSkillIntegrity({ mode: "fail", baseDir: testDir })).rejects.toThrow(
+      'Integrity check failed for 1 curated skill(s):\n  - Skill "my-skill" from org/repo was modified',
+    );
+  });
+});
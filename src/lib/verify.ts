@@ -0,0 +1,101 @@
+import { join } from "node:path";
+
+import type { IntegrityCheckMode } from "../config/config.js";
+import { RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH } from "../constants/rulesync-paths.js";
+import { directoryExists } from "../utils/file.js";
+import { logger } from "../utils/logger.js";
+import { readDirectoryFiles } from "./source-snapshot.js";
+import { computeSkillIntegrity, readLockFile } from "./sources-lock.js";
+
+export type CuratedSkillIssue = {
+  /** Lockfile key of the source the skill was fetched from. */
+  source: string;
+  skill: string;
+  status: "missing" | "modified";
+  /** Integrity hash recorded in the lockfile. */
+  expected: string;
+  /** Integrity hash of the skill on disk. Absent when the skill is missing. */
+  actual?: string;
+};
+
+export type VerifyCuratedSkillsResult = {
+  checkedCount: number;
+  issues: CuratedSkillIssue[];
+};
+
+/**
+ * Recompute the integrity hash of each curated skill in `.rulesync/skills/.curated/` and compare
+ * it with the hash recorded in the lockfile. Skills locked without a hash (migrated from a
+ * legacy lockfile) are not checked.
+ */
+export async function verifyCuratedSkills({
+  baseDir = process.cwd(),
+}: {
+  baseDir?: string;
+} = {}): Promise<VerifyCuratedSkillsResult> {
+  const lock = await readLockFile({ baseDir });
+  const curatedDir = join(baseDir, RULESYNC_CURATED_SKILLS_RELATIVE_DIR_PATH);
+
+  let checkedCount = 0;
+  const issues: CuratedSkillIssue[] = [];
+  for (const [source, locked] of Object.entries(lock.sources)) {
+    for (const [skill, { integrity: expected }] of Object.entries(locked.skills)) {
+      if (!expected) {
+        logger.debug(`Skipping skill "${skill}" from ${source}: no integrity hash in lockfile.`);
+        continue;
+      }
+      checkedCount++;
+
+      const skillDir = join(curatedDir, skill);
+      if (!(await directoryExists(skillDir))) {
+        issues.push({ source, skill, status: "missing", expected });
+        continue;
+      }
+
+      const files = await readDirectoryFiles(skillDir);
+      const actual = computeSkillIntegrity(
+        files.map((file) => ({ path: file.relativePath, content: file.content })),
+      );
+      if (actual !== expected) {
+        issues.push({ source, skill, status: "modified", expected, actual });
+      }
+    }
+  }
+  return { checkedCount, issues };
+}
+
+/**
+ * Describe an integrity issue of a curated skill in one line.
+ */
+export function formatCuratedSkillIssue(issue: CuratedSkillIssue): string {
+  return issue.status === "missing"
+    ? `Skill "${issue.skill}" from ${issue.source} is missing`
+    : `Skill "${issue.skill}" from ${issue.source} was modified (expected "${issue.expected}", got "${issue.actual}")`;
+}
+
+/**
+ * Verify the curated skills before generating from them. Depending on `mode`, modified skills are
+ * logged as warnings or fail with an error listing them. Missing skills are left alone, since
+ * curated skills are not committed and may not be installed yet.
+ */
+export async function checkCuratedSkillIntegrity(params: {
+  mode: IntegrityCheckMode;
+  baseDir?: string;
+}): Promise<void> {
+  const { issues: allIssues } = await verifyCuratedSkills({ baseDir: params.baseDir });
+  const issues = allIssues.filter((issue) => issue.status === "modified");
+  if (issues.length === 0) {
+    return;
+  }
+
+  const hint = "Run 'rulesync install --repair' to restore them from the locked refs.";
+  if (params.mode === "fail") {
+    throw new Error(
+      `Integrity check failed for ${issues.length} curated skill(s):\n${issues.map((issue) => `  - ${formatCuratedSkillIssue(issue)}`).join("\n")}\n${hint}`,
+    );
+  }
+  for (const issue of issues) {
+    logger.warn(`${formatCuratedSkillIssue(issue)}.`);
+  }
+  logger.warn(`${issues.length} curated skill(s) do not match rulesync.lock. ${hint}`);
+}
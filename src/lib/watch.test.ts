@@ -0,0 +1,181 @@
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  RULESYNC_CONFIG_RELATIVE_FILE_PATH,
+  RULESYNC_CURATED_HOOKS_RELATIVE_FILE_PATH,
+  RULESYNC_CURATED_MCP_RELATIVE_FILE_PATH,
+  RULESYNC_FETCH_BASE_RELATIVE_FILE_PATH,
+  RULESYNC_GENERATED_MANIFEST_RELATIVE_FILE_PATH,
+  RULESYNC_IGNORE_RELATIVE_FILE_PATH,
+  RULESYNC_LOCAL_CONFIG_RELATIVE_FILE_PATH,
+  RULESYNC_MCP_RELATIVE_FILE_PATH,
+  RULESYNC_PARTIALS_RELATIVE_DIR_PATH,
+  RULESYNC_RULES_RELATIVE_DIR_PATH,
+  RULESYNC_SKILLS_RELATIVE_DIR_PATH,
+} from "../constants/rulesync-paths.js";
+import { setupTestDirectory } from "../test-utils/test-directories.js";
+import { ALL_FEATURES } from "../types/features.js";
+import { ensureDir, writeFileContent } from "../utils/file.js";
+import { getWatchChangeScope, watchRulesyncSources } from "./watch.js";
+
+describe("getWatchChangeScope", () => {
+  it("should map rule changes to the rules feature", () => {
+    expect(getWatchChangeScope([join(RULESYNC_RULES_RELATIVE_DIR_PATH, "overview.md")])).toEqual({
+      features: ["rules"],
+      reloadConfig: false,
+    });
+  });
+
+  it("should regenerate rules when partials change", () => {
+    expect(getWatchChangeScope([join(RULESYNC_PARTIALS_RELATIVE_DIR_PATH, "testing.md")])).toEqual({
+      features: ["rules"],
+      reloadConfig: false,
+    });
+  });
+
+  it("should regenerate MCP and hooks when curated files change", () => {
+    expect(
+      getWatchChangeScope([
+        RULESYNC_CURATED_MCP_RELATIVE_FILE_PATH,
+        RULESYNC_CURATED_HOOKS_RELATIVE_FILE_PATH,
+      ]),
+    ).toEqual({ features: ["mcp", "hooks"], reloadConfig: false });
+  });
+
+  it("should regenerate rules when skills change", () => {
+    expect(
+      getWatchChangeScope([join(RULESYNC_SKILLS_RELATIVE_DIR_PATH, "my-skill", "SKILL.md")]),
+    ).toEqual({ features: ["rules", "skills"], reloadConfig: false });
+  });
+
+  it("should merge features of multiple changes in canonical order", () => {
+    expect(
+      getWatchChangeScope([
+        RULESYNC_MCP_RELATIVE_FILE_PATH,
+        join(RULESYNC_RULES_RELATIVE_DIR_PATH, "a.md"),
+      ]),
+    ).toEqual({ features: ["rules", "mcp"], reloadConfig: false });
+  });
+
+  it("should reload config and regenerate everything when config files change", () => {
+    for (const configFile of [
+      RULESYNC_CONFIG_RELATIVE_FILE_PATH,
+      RULESYNC_LOCAL_CONFIG_RELATIVE_FILE_PATH,
+    ]) {
+      expect(getWatchChangeScope([configFile])).toEqual({
+        features: [...ALL_FEATURES],
+        reloadConfig: true,
+      });
+    }
+  });
+
+  it("should ignore changes to the generated files manifest and the fetch base record", () => {
+    expect(
+      getWatchChangeScope([
+        RULESYNC_GENERATED_MANIFEST_RELATIVE_FILE_PATH,
+        RULESYNC_FETCH_BASE_RELATIVE_FILE_PATH,
+      ]),
+    ).toEqual({
+      features: [],
+      reloadConfig: false,
+    });
+  });
+
+  it("should regenerate everything for unknown paths under .rulesync", () => {
+    expect(getWatchChangeScope([join(".rulesync", "unknown.txt")])).toEqual({
+      features: [...ALL_FEATURES],
+      reloadConfig: false,
+    });
+  });
+
+  it("should not confuse paths sharing a prefix", () => {
+    expect(getWatchChangeScope([`${RULESYNC_RULES_RELATIVE_DIR_PATH}-backup`]).features).toEqual([
+      ...ALL_FEATURES,
+    ]);
+  });
+});
+
+describe("watchRulesyncSources", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+  let stop: (() => void) | undefined;
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+    vi.spyOn(process, "cwd").mockReturnValue(testDir);
+    await ensureDir(join(testDir, RULESYNC_RULES_RELATIVE_DIR_PATH));
+  });
+
+  afterEach(async () => {
+    stop?.();
+    stop = undefined;
+    await cleanup();
+  });
+
+  it("should report changed paths under .rulesync once after debouncing", async () => {
+    const onChange = vi.fn();
+    stop = await watchRulesyncSources({ baseDir: testDir, debounceMs: 50, onChange });
+
+    await writeFileContent(join(testDir, RULESYNC_RULES_RELATIVE_DIR_PATH, "a.md"), "a");
+    await writeFileContent(join(testDir, RULESYNC_RULES_RELATIVE_DIR_PATH, "b.md"), "b");
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalled(), { timeout: 2000 });
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange.mock.calls[0]?.[0]).toEqual(
+      expect.arrayContaining([
+        join(RULESYNC_RULES_RELATIVE_DIR_PATH, "a.md"),
+        join(RULESYNC_RULES_RELATIVE_DIR_PATH, "b.md"),
+      ]),
+    );
+  });
+
+  it("should report config file changes and ignore other files in the project root", async () => {
+    const onChange = vi.fn();
+    stop = await watchRulesyncSources({ baseDir: testDir, debounceMs: 50, onChange });
+
+    await writeFileContent(join(testDir, "README.md"), "readme");
+    await writeFileContent(join(testDir, RULESYNC_LOCAL_CONFIG_RELATIVE_FILE_PATH), "{}");
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalled(), { timeout: 2000 });
+    expect(onChange.mock.calls[0]?.[0]).toEqual([RULESYNC_LOCAL_CONFIG_RELATIVE_FILE_PATH]);
+  });
+
+  it("should watch the local config next to the config file and .rulesyncignore in the project root", async () => {
+    await ensureDir(join(testDir, "config"));
+    const onChange = vi.fn();
+    stop = await watchRulesyncSources({
+      baseDir: testDir,
+      configPath: join("config", RULESYNC_CONFIG_RELATIVE_FILE_PATH),
+      debounceMs: 50,
+      onChange,
+    });
+
+    await writeFileContent(join(testDir, RULESYNC_LOCAL_CONFIG_RELATIVE_FILE_PATH), "{}");
+    await writeFileContent(join(testDir, "config", RULESYNC_IGNORE_RELATIVE_FILE_PATH), "a");
+    await writeFileContent(join(testDir, "config", RULESYNC_LOCAL_CONFIG_RELATIVE_FILE_PATH), "{}");
+    await writeFileContent(join(testDir, RULESYNC_IGNORE_RELATIVE_FILE_PATH), "b");
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalled(), { timeout: 2000 });
+    expect(onChange.mock.calls[0]?.[0]).toEqual([
+      RULESYNC_LOCAL_CONFIG_RELATIVE_FILE_PATH,
+      RULESYNC_IGNORE_RELATIVE_FILE_PATH,
+    ]);
+  });
+
+  it("should stop reporting changes once stopped", async () => {
+    const onChange = vi.fn();
+    const stopWatching = await watchRulesyncSources({
+      baseDir: testDir,
+      debounceMs: 50,
+      onChange,
+    });
+    stopWatching();
+
+    await writeFileContent(join(testDir, RULESYNC_RULES_RELATIVE_DIR_PATH, "a.md"), "a");
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
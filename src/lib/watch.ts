@@ -0,0 +1,171 @@
+import { dirname, join, resolve, sep } from "node:path";
+
+import { debounce } from "es-toolkit";
+
+import {
+  RULESYNC_AIIGNORE_RELATIVE_FILE_PATH,
+  RULESYNC_COMMANDS_RELATIVE_DIR_PATH,
+  RULESYNC_CONFIG_RELATIVE_FILE_PATH,
+  RULESYNC_CURATED_HOOKS_RELATIVE_FILE_PATH,
+  RULESYNC_CURATED_MCP_RELATIVE_FILE_PATH,
+  RULESYNC_FETCH_BASE_RELATIVE_FILE_PATH,
+  RULESYNC_GENERATED_MANIFEST_RELATIVE_FILE_PATH,
+  RULESYNC_HOOKS_RELATIVE_FILE_PATH,
+  RULESYNC_IGNORE_RELATIVE_FILE_PATH,
+  RULESYNC_LOCAL_CONFIG_RELATIVE_FILE_PATH,
+  RULESYNC_MCP_RELATIVE_FILE_PATH,
+  RULESYNC_PARTIALS_RELATIVE_DIR_PATH,
+  RULESYNC_RELATIVE_DIR_PATH,
+  RULESYNC_RULES_RELATIVE_DIR_PATH,
+  RULESYNC_SKILLS_RELATIVE_DIR_PATH,
+  RULESYNC_SUBAGENTS_RELATIVE_DIR_PATH,
+} from "../constants/rulesync-paths.js";
+import type { Feature } from "../types/features.js";
+import { ALL_FEATURES } from "../types/features.js";
+import { directoryExists, watchDirectory } from "../utils/file.js";
+
+/** Delay after the last change before regenerating, so that bursts of saves trigger one run. */
+export const DEFAULT_WATCH_DEBOUNCE_MS = 300;
+
+/**
+ * Features affected by a set of changed paths, and whether the configuration must be reloaded.
+ */
+export type WatchChangeScope = {
+  features: Feature[];
+  reloadConfig: boolean;
+};
+
+/**
+ * Features whose source files live under each path, most specific first.
+ * The rules output lists skills, so skill changes also regenerate rules.
+ */
+const FEATURES_BY_SOURCE_PATH: Array<{ path: string; features: Feature[] }> = [
+  { path: RULESYNC_RULES_RELATIVE_DIR_PATH, features: ["rules"] },
+  { path: RULESYNC_PARTIALS_RELATIVE_DIR_PATH, features: ["rules"] },
+  { path: RULESYNC_COMMANDS_RELATIVE_DIR_PATH, features: ["commands"] },
+  { path: RULESYNC_SUBAGENTS_RELATIVE_DIR_PATH, features: ["subagents"] },
+  { path: RULESYNC_SKILLS_RELATIVE_DIR_PATH, features: ["skills", "rules"] },
+  { path: RULESYNC_MCP_RELATIVE_FILE_PATH, features: ["mcp"] },
+  { path: RULESYNC_HOOKS_RELATIVE_FILE_PATH, features: ["hooks"] },
+  { path: RULESYNC_CURATED_MCP_RELATIVE_FILE_PATH, features: ["mcp"] },
+  { path: RULESYNC_CURATED_HOOKS_RELATIVE_FILE_PATH, features: ["hooks"] },
+  { path: RULESYNC_AIIGNORE_RELATIVE_FILE_PATH, features: ["ignore"] },
+  { path: RULESYNC_IGNORE_RELATIVE_FILE_PATH, features: ["ignore"] },
+];
+
+const CONFIG_FILE_NAMES = [
+  RULESYNC_CONFIG_RELATIVE_FILE_PATH,
+  RULESYNC_LOCAL_CONFIG_RELATIVE_FILE_PATH,
+];
+
+/**
+ * Determine which features must be regenerated for paths changed relative to the project root.
+ * Changes to the configuration files affect every feature; changes rulesync makes itself
+ * (the generated files manifest) are ignored.
+ */
+export function getWatchChangeScope(changedPaths: string[]): WatchChangeScope {
+  const features = new Set<Feature>();
+  let reloadConfig = false;
+
+  for (const changedPath of changedPaths) {
+    if (CONFIG_FILE_NAMES.includes(changedPath)) {
+      reloadConfig = true;
+      continue;
+    }
+    if (
+      changedPath === RULESYNC_GENERATED_MANIFEST_RELATIVE_FILE_PATH ||
+      changedPath === RULESYNC_FETCH_BASE_RELATIVE_FILE_PATH
+    ) {
+      continue;
+    }
+    const entry = FEATURES_BY_SOURCE_PATH.find(
+      ({ path }) => changedPath === path || changedPath.startsWith(`${path}${sep}`),
+    );
+    for (const feature of entry?.features ?? ALL_FEATURES) {
+      features.add(feature);
+    }
+  }
+
+  return {
+    features: reloadConfig ? [...ALL_FEATURES] : ALL_FEATURES.filter((f) => features.has(f)),
+    reloadConfig,
+  };
+}
+
+/**
+ * Watch `.rulesync/**` and the configuration files, and call `onChange` with the paths
+ * changed (relative to the project root) once no further change happened for `debounceMs`.
+ * Returns a function that stops watching.
+ */
+export async function watchRulesyncSources({
+  baseDir = process.cwd(),
+  configPath = RULESYNC_CONFIG_RELATIVE_FILE_PATH,
+  debounceMs = DEFAULT_WATCH_DEBOUNCE_MS,
+  onChange,
+}: {
+  baseDir?: string;
+  configPath?: string;
+  debounceMs?: number;
+  onChange: (changedPaths: string[]) => void;
+}): Promise<() => void> {
+  const pendingPaths = new Set<string>();
+  const flush = debounce(() => {
+    const changedPaths = [...pendingPaths];
+    pendingPaths.clear();
+    onChange(changedPaths);
+  }, debounceMs);
+
+  const stopFunctions: Array<() => void> = [];
+
+  const rulesyncDirPath = join(baseDir, RULESYNC_RELATIVE_DIR_PATH);
+  if (await directoryExists(rulesyncDirPath)) {
+    stopFunctions.push(
+      watchDirectory({
+        dirPath: rulesyncDirPath,
+        recursive: true,
+        onChange: (relativePath) => {
+          pendingPaths.add(join(RULESYNC_RELATIVE_DIR_PATH, relativePath));
+          flush();
+        },
+      }),
+    );
+  }
+
+  // Config files are watched through their directory so that they can be created or replaced.
+  // The local config is read next to the config file, and `.rulesyncignore` from the project root
+  const configDirPath = resolve(baseDir, dirname(configPath));
+  const configFiles = [
+    { filePath: resolve(baseDir, configPath), changedPath: RULESYNC_CONFIG_RELATIVE_FILE_PATH },
+    {
+      filePath: join(configDirPath, RULESYNC_LOCAL_CONFIG_RELATIVE_FILE_PATH),
+      changedPath: RULESYNC_LOCAL_CONFIG_RELATIVE_FILE_PATH,
+    },
+    {
+      filePath: resolve(baseDir, RULESYNC_IGNORE_RELATIVE_FILE_PATH),
+      changedPath: RULESYNC_IGNORE_RELATIVE_FILE_PATH,
+    },
+  ];
+  for (const dirPath of new Set(configFiles.map(({ filePath }) => dirname(filePath)))) {
+    stopFunctions.push(
+      watchDirectory({
+        dirPath,
+        onChange: (relativePath) => {
+          const configFile = configFiles.find(
+            ({ filePath }) => filePath === join(dirPath, relativePath),
+          );
+          if (configFile) {
+            pendingPaths.add(configFile.changedPath);
+            flush();
+          }
+        },
+      }),
+    );
+  }
+
+  return () => {
+    flush.cancel();
+    for (const stop of stopFunctions) {
+      stop();
+    }
+  };
+}
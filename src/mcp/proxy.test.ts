@@ -0,0 +1,241 @@
+import { join } from "node:path";
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { RULESYNC_MCP_RELATIVE_FILE_PATH } from "../constants/rulesync-paths.js";
+import { writeMcpStandInServer } from "../test-utils/mcp-stand-in-server.js";
+import { setupTestDirectory } from "../test-utils/test-directories.js";
+import type { McpServers } from "../types/mcp.js";
+import { writeFileContent } from "../utils/file.js";
+import { McpProxy, loadExposedMcpServers } from "./proxy.js";
+import { RULESYNC_MCP_PROXY_ENV } from "./transport.js";
+
+describe("McpProxy", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+  let standInPath: string;
+  let proxy: McpProxy | undefined;
+
+  const standIn = (overrides: Partial<McpServers[string]> = {}): McpServers[string] => ({
+    type: "stdio",
+    command: process.execPath,
+    args: [standInPath],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+    vi.spyOn(process, "cwd").mockReturnValue(testDir);
+    standInPath = await writeMcpStandInServer(testDir);
+  });
+
+  afterEach(async () => {
+    await proxy?.close();
+    proxy = undefined;
+    await cleanup();
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  describe("getDefinitions", () => {
+    it("should re-export the tools of each server under namespaced names", async () => {
+      proxy = await McpProxy.connect({
+        mcpServers: { first: standIn(), second: standIn() },
+        version: "1.0.0",
+      });
+
+      const { tools } = await proxy.getDefinitions();
+
+      expect(tools.map(({ name }) => name)).toEqual([
+        "first__echo",
+        "first__env",
+        "second__echo",
+        "second__env",
+      ]);
+      expect(tools[0]?.description).toBe("Echo the text");
+    });
+
+    it("should forward tool calls to the server they came from", async () => {
+      proxy = await McpProxy.connect({ mcpServers: { first: standIn() }, version: "1.0.0" });
+      const { tools } = await proxy.getDefinitions();
+      const echo = tools.find(({ name }) => name === "first__echo");
+
+      const result = await echo?.execute({ text: "hello" }, {} as any);
+
+      expect(result).toEqual({
+        content: [{ type: "text", text: "echo: hello" }],
+        isError: undefined,
+      });
+    });
+
+    it("should start stdio servers with their env and return structured content as text", async () => {
+      proxy = await McpProxy.connect({
+        mcpServers: { first: standIn({ env: { STAND_IN_VALUE: "from-config" } }) },
+        version: "1.0.0",
+      });
+      const { tools } = await proxy.getDefinitions();
+      const env = tools.find(({ name }) => name === "first__env");
+
+      const result = await env?.execute(undefined, {} as any);
+
+      expect(result).toEqual({
+        content: [{ type: "text", text: '{"value":"from-config"}' }],
+        isError: undefined,
+      });
+    });
+
+    it("should describe tool parameters with the JSON Schema of the server", async () => {
+      proxy = await McpProxy.connect({ mcpServers: { first: standIn() }, version: "1.0.0" });
+      const { tools } = await proxy.getDefinitions();
+      const { toJSONSchema } = await import("zod/v4/core");
+      const parameters = tools[0]?.parameters;
+
+      expect(parameters && toJSONSchema(parameters)).toMatchObject({
+        type: "object",
+        properties: { text: { type: "string" } },
+        required: ["text"],
+      });
+    });
+
+    it("should filter tools with enabledTools and disabledTools", async () => {
+      proxy = await McpProxy.connect({
+        mcpServers: {
+          first: standIn({ enabledTools: ["echo"] }),
+          second: standIn({ disabledTools: ["echo"] }),
+        },
+        version: "1.0.0",
+      });
+
+      const { tools } = await proxy.getDefinitions();
+
+      expect(tools.map(({ name }) => name)).toEqual(["first__echo", "second__env"]);
+    });
+
+    it("should re-export resources, resource templates and prompts", async () => {
+      proxy = await McpProxy.connect({ mcpServers: { first: standIn() }, version: "1.0.0" });
+
+      const { resources, resourceTemplates, prompts } = await proxy.getDefinitions();
+
+      expect(resources.map(({ name, uri }) => ({ name, uri }))).toEqual([
+        { name: "first__readme", uri: "stand-in://readme" },
+      ]);
+      expect(await resources[0]?.load()).toEqual([
+        {
+          uri: "stand-in://readme",
+          mimeType: "text/plain",
+          text: "content of stand-in://readme",
+        },
+      ]);
+
+      expect(resourceTemplates[0]?.name).toBe("first__docs");
+      expect(resourceTemplates[0]?.arguments).toEqual([{ name: "page", required: true }]);
+      expect(await resourceTemplates[0]?.load({ page: "intro" })).toEqual([
+        {
+          uri: "stand-in://docs/intro",
+          mimeType: "text/plain",
+          text: "content of stand-in://docs/intro",
+        },
+      ]);
+
+      expect(prompts[0]?.name).toBe("first__review");
+      expect(await prompts[0]?.load({ file: "a.ts" })).toEqual({
+        messages: [{ role: "user", content: { type: "text", text: "Review a.ts" } }],
+      });
+    });
+
+    it("should skip servers that fail to list their tools", async () => {
+      proxy = await McpProxy.connect({
+        mcpServers: { crashed: standIn(), first: standIn() },
+        version: "1.0.0",
+      });
+      vi.spyOn(Client.prototype, "listTools").mockRejectedValueOnce(new Error("Connection closed"));
+
+      const { tools, resources } = await proxy.getDefinitions();
+
+      expect(tools.map(({ name }) => name)).toEqual(["first__echo", "first__env"]);
+      expect(resources.map(({ name }) => name)).toEqual(["first__readme"]);
+    });
+
+    it("should skip a resource whose URI another server already has", async () => {
+      proxy = await McpProxy.connect({
+        mcpServers: { first: standIn(), second: standIn() },
+        version: "1.0.0",
+      });
+
+      const { resources } = await proxy.getDefinitions();
+
+      expect(resources.map(({ name }) => name)).toEqual(["first__readme"]);
+    });
+  });
+
+  describe("connect", () => {
+    it("should skip servers that fail to start", async () => {
+      proxy = await McpProxy.connect({
+        mcpServers: {
+          broken: { type: "stdio", command: join(testDir, "missing-server") },
+          remote: { type: "http" },
+          first: standIn(),
+        },
+        version: "1.0.0",
+      });
+
+      expect(proxy.getServerNames()).toEqual(["first"]);
+    });
+  });
+
+  describe("loadExposedMcpServers", () => {
+    it("should load the exposed servers that are not disabled, with their env resolved", async () => {
+      vi.stubEnv("STAND_IN_TOKEN", "secret");
+      await writeFileContent(
+        join(testDir, RULESYNC_MCP_RELATIVE_FILE_PATH),
+        JSON.stringify({
+          mcpServers: {
+            exposed: {
+              ...standIn({ env: { TOKEN: "${env:STAND_IN_TOKEN}" } }),
+              exposed: true,
+              targets: ["claudecode"],
+            },
+            disabled: { ...standIn(), exposed: true, disabled: true },
+            direct: { ...standIn(), env: { TOKEN: "${env:UNSET_TOKEN}" } },
+          },
+        }),
+      );
+
+      const mcpServers = await loadExposedMcpServers();
+
+      expect(mcpServers).toEqual({ exposed: standIn({ env: { TOKEN: "secret" } }) });
+    });
+
+    it("should skip servers whose env placeholders cannot be resolved", async () => {
+      vi.stubEnv("STAND_IN_TOKEN", "secret");
+      await writeFileContent(
+        join(testDir, RULESYNC_MCP_RELATIVE_FILE_PATH),
+        JSON.stringify({
+          mcpServers: {
+            unresolved: { ...standIn({ env: { TOKEN: "${env:UNSET_TOKEN}" } }), exposed: true },
+            resolved: { ...standIn({ env: { TOKEN: "${env:STAND_IN_TOKEN}" } }), exposed: true },
+          },
+        }),
+      );
+
+      const mcpServers = await loadExposedMcpServers();
+
+      expect(mcpServers).toEqual({ resolved: standIn({ env: { TOKEN: "secret" } }) });
+    });
+
+    it("should load nothing without an MCP file", async () => {
+      expect(await loadExposedMcpServers()).toEqual({});
+    });
+
+    it("should load nothing in a server spawned by the proxy", async () => {
+      vi.stubEnv(RULESYNC_MCP_PROXY_ENV, "1");
+      await writeFileContent(
+        join(testDir, RULESYNC_MCP_RELATIVE_FILE_PATH),
+        JSON.stringify({ mcpServers: { exposed: { ...standIn(), exposed: true } } }),
+      );
+
+      expect(await loadExposedMcpServers()).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,366 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import type {
+  CallToolResult,
+  Prompt as UpstreamPrompt,
+  ReadResourceResult,
+  Resource as UpstreamResource,
+  ResourceTemplate as UpstreamResourceTemplate,
+  Tool as UpstreamTool,
+} from "@modelcontextprotocol/sdk/types.js";
+import type {
+  Content,
+  ContentResult,
+  FastMCP,
+  FastMCPSessionAuth,
+  InputPrompt,
+  Resource,
+  ResourceResult,
+  ResourceTemplate,
+  Tool,
+} from "fastmcp";
+import { z } from "zod/mini";
+
+import { translateEnvPlaceholders } from "../features/mcp/mcp-env-placeholders.js";
+import { RulesyncMcp } from "../features/mcp/rulesync-mcp.js";
+import type { McpServers } from "../types/mcp.js";
+import { formatError } from "../utils/error.js";
+import { logger } from "../utils/logger.js";
+import { RULESYNC_MCP_PROXY_ENV, createMcpClientTransport, listAllPages } from "./transport.js";
+
+/**
+ * Separates the server name from the name of a proxied tool, prompt or resource.
+ */
+export const PROXY_NAME_SEPARATOR = "__";
+
+type McpServer = McpServers[string];
+
+type Upstream = {
+  serverName: string;
+  server: McpServer;
+  client: Client;
+};
+
+type ProxyDefinitions = {
+  tools: Tool<FastMCPSessionAuth, ProxyToolParameters>[];
+  resources: Resource<FastMCPSessionAuth>[];
+  resourceTemplates: ResourceTemplate<FastMCPSessionAuth>[];
+  prompts: InputPrompt<FastMCPSessionAuth>[];
+};
+
+/**
+ * Load the servers marked `exposed: true` in `.rulesync/mcp.json` and the servers fetched from
+ * declarative sources, with their `${env:NAME}` placeholders replaced by their values. A server
+ * whose placeholders cannot be resolved is skipped with a warning so that the others stay
+ * reachable.
+ * @returns The exposed servers, or none when this process was spawned by a proxy
+ */
+export async function loadExposedMcpServers(): Promise<McpServers> {
+  if (process.env[RULESYNC_MCP_PROXY_ENV]) {
+    return {};
+  }
+
+  const rulesyncMcp = await RulesyncMcp.fromFileWithCurated({});
+  if (!rulesyncMcp) {
+    return {};
+  }
+
+  const mcpServers: McpServers = {};
+  for (const [serverName, server] of Object.entries(rulesyncMcp.getExposedMcpServers())) {
+    try {
+      Object.assign(
+        mcpServers,
+        translateEnvPlaceholders({
+          mcpServers: { [serverName]: server },
+          syntax: null,
+          toolTarget: "rulesync",
+          resolveEnv: true,
+        }).mcpServers,
+      );
+    } catch (error) {
+      logger.warn(`Skipped MCP server "${serverName}": ${formatError(error)}`);
+    }
+  }
+  return mcpServers;
+}
+
+/**
+ * Accept any arguments, and describe them with the JSON Schema of the upstream tool, which
+ * validates them itself. The schema is registered as metadata so that FastMCP lists it as is.
+ */
+function toParameters(inputSchema: UpstreamTool["inputSchema"]) {
+  return z.optional(z.looseObject({})).register(z.globalRegistry, inputSchema);
+}
+
+type ProxyToolParameters = ReturnType<typeof toParameters>;
+
+function toContent(content: CallToolResult["content"][number]): Content {
+  switch (content.type) {
+    case "text":
+      return { type: "text", text: content.text };
+    case "image":
+      return { type: "image", data: content.data, mimeType: content.mimeType };
+    case "audio":
+      return { type: "audio", data: content.data, mimeType: content.mimeType };
+    case "resource": {
+      const { uri, mimeType } = content.resource;
+      const resource =
+        "text" in content.resource
+          ? { uri, mimeType, text: content.resource.text }
+          : { uri, mimeType, blob: content.resource.blob };
+      return { type: "resource", resource };
+    }
+    case "resource_link": {
+      const { uri, name, title, description, mimeType } = content;
+      return { type: "resource_link", uri, name, title, description, mimeType };
+    }
+  }
+}
+
+/**
+ * Convert the result of an upstream tool call to the content FastMCP returns. Structured content
+ * without a text representation is returned as JSON text.
+ */
+function toContentResult(result: CallToolResult): ContentResult {
+  const content = result.content.map(toContent);
+  if (content.length === 0 && result.structuredContent !== undefined) {
+    content.push({ type: "text", text: JSON.stringify(result.structuredContent) });
+  }
+  return { content, isError: result.isError };
+}
+
+function toResourceResults({ contents }: ReadResourceResult): ResourceResult[] {
+  return contents.map((content) =>
+    "text" in content
+      ? { uri: content.uri, mimeType: content.mimeType, text: content.text }
+      : { uri: content.uri, mimeType: content.mimeType, blob: content.blob },
+  );
+}
+
+/**
+ * Aggregates the servers marked `exposed: true`: connects to each of them and re-exports their
+ * tools, resources and prompts from the Rulesync MCP server, named `<server>__<name>`. Resources
+ * keep their URIs so that links between them still resolve. `enabledTools` and `disabledTools`
+ * of a server filter the tools re-exported.
+ */
+export class McpProxy {
+  private readonly upstreams: Upstream[];
+
+  private constructor(upstreams: Upstream[]) {
+    this.upstreams = upstreams;
+  }
+
+  /**
+   * Connect to the given servers. A server that fails to start is skipped with a warning so that
+   * the others stay reachable.
+   */
+  static async connect({
+    mcpServers,
+    version,
+  }: {
+    mcpServers: McpServers;
+    version: string;
+  }): Promise<McpProxy> {
+    const upstreams = await Promise.all(
+      Object.entries(mcpServers).map(async ([serverName, server]): Promise<Upstream | null> => {
+        const client = new Client({ name: "rulesync", version });
+        try {
+          await client.connect(createMcpClientTransport({ serverName, server }));
+          logger.debug(`Connected to exposed MCP server "${serverName}"`);
+          return { serverName, server, client };
+        } catch (error) {
+          logger.warn(`Failed to connect to MCP server "${serverName}": ${formatError(error)}`);
+          await client.close();
+          return null;
+        }
+      }),
+    );
+    return new McpProxy(upstreams.filter((upstream) => upstream !== null));
+  }
+
+  getServerNames(): string[] {
+    return this.upstreams.map(({ serverName }) => serverName);
+  }
+
+  /**
+   * List the tools, resources, resource templates and prompts of every connected server, as
+   * definitions that forward each call to the server they came from. A server that fails to list
+   * them is skipped with a warning so that the others stay reachable.
+   */
+  async getDefinitions(): Promise<ProxyDefinitions> {
+    const definitions: ProxyDefinitions = {
+      tools: [],
+      resources: [],
+      resourceTemplates: [],
+      prompts: [],
+    };
+    const resourceUris = new Set<string>();
+
+    for (const upstream of this.upstreams) {
+      let upstreamDefinitions: ProxyDefinitions;
+      try {
+        upstreamDefinitions = await this.listDefinitions(upstream);
+      } catch (error) {
+        logger.warn(
+          `Skipped MCP server "${upstream.serverName}": failed to list its tools, resources and prompts: ${formatError(error)}`,
+        );
+        continue;
+      }
+
+      definitions.tools.push(...upstreamDefinitions.tools);
+      for (const resource of upstreamDefinitions.resources) {
+        if (resourceUris.has(resource.uri)) {
+          logger.warn(
+            `Skipped resource ${resource.uri} of MCP server "${upstream.serverName}": another exposed server has a resource with the same URI.`,
+          );
+          continue;
+        }
+        resourceUris.add(resource.uri);
+        definitions.resources.push(resource);
+      }
+      definitions.resourceTemplates.push(...upstreamDefinitions.resourceTemplates);
+      definitions.prompts.push(...upstreamDefinitions.prompts);
+    }
+
+    return definitions;
+  }
+
+  private async listDefinitions(upstream: Upstream): Promise<ProxyDefinitions> {
+    const definitions: ProxyDefinitions = {
+      tools: [],
+      resources: [],
+      resourceTemplates: [],
+      prompts: [],
+    };
+    const capabilities = upstream.client.getServerCapabilities() ?? {};
+    if (capabilities.tools) {
+      const tools = await listAllPages(async (cursor) => {
+        const { tools: items, nextCursor } = await upstream.client.listTools({ cursor });
+        return { items, nextCursor };
+      });
+      const { enabledTools, disabledTools } = upstream.server;
+      definitions.tools.push(
+        ...tools
+          .filter(
+            ({ name }) =>
+              (!enabledTools || enabledTools.includes(name)) && !disabledTools?.includes(name),
+          )
+          .map((tool) => this.proxyTool(upstream, tool)),
+      );
+    }
+    if (capabilities.resources) {
+      const resources = await listAllPages(async (cursor) => {
+        const { resources: items, nextCursor } = await upstream.client.listResources({ cursor });
+        return { items, nextCursor };
+      });
+      definitions.resources.push(
+        ...resources.map((resource) => this.proxyResource(upstream, resource)),
+      );
+      const templates = await listAllPages(async (cursor) => {
+        const { resourceTemplates: items, nextCursor } =
+          await upstream.client.listResourceTemplates({ cursor });
+        return { items, nextCursor };
+      });
+      definitions.resourceTemplates.push(
+        ...templates.map((template) => this.proxyResourceTemplate(upstream, template)),
+      );
+    }
+    if (capabilities.prompts) {
+      const prompts = await listAllPages(async (cursor) => {
+        const { prompts: items, nextCursor } = await upstream.client.listPrompts({ cursor });
+        return { items, nextCursor };
+      });
+      definitions.prompts.push(...prompts.map((prompt) => this.proxyPrompt(upstream, prompt)));
+    }
+
+    return definitions;
+  }
+
+  /**
+   * Add the definitions of every connected server to a FastMCP server.
+   */
+  async addTo(server: FastMCP): Promise<void> {
+    const { tools, resources, resourceTemplates, prompts } = await this.getDefinitions();
+    server.addTools(tools);
+    server.addResources(resources);
+    server.addResourceTemplates(resourceTemplates);
+    server.addPrompts(prompts);
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.upstreams.map(({ client }) => client.close()));
+  }
+
+  private proxyTool(
+    { serverName, client }: Upstream,
+    tool: UpstreamTool,
+  ): Tool<FastMCPSessionAuth, ProxyToolParameters> {
+    return {
+      name: `${serverName}${PROXY_NAME_SEPARATOR}${tool.name}`,
+      description: tool.description,
+      annotations: tool.annotations,
+      parameters: toParameters(tool.inputSchema),
+      execute: async (args) => {
+        const result = await client.callTool({ name: tool.name, arguments: args });
+        // eslint-disable-next-line no-type-assertion/no-type-assertion
+        return toContentResult(result as CallToolResult);
+      },
+    };
+  }
+
+  private proxyResource(
+    { serverName, client }: Upstream,
+    resource: UpstreamResource,
+  ): Resource<FastMCPSessionAuth> {
+    return {
+      uri: resource.uri,
+      name: `${serverName}${PROXY_NAME_SEPARATOR}${resource.name}`,
+      description: resource.description,
+      mimeType: resource.mimeType,
+      load: async () => toResourceResults(await client.readResource({ uri: resource.uri })),
+    };
+  }
+
+  private proxyResourceTemplate(
+    { serverName, client }: Upstream,
+    template: UpstreamResourceTemplate,
+  ): ResourceTemplate<FastMCPSessionAuth> {
+    const uriTemplate = new UriTemplate(template.uriTemplate);
+    return {
+      uriTemplate: template.uriTemplate,
+      name: `${serverName}${PROXY_NAME_SEPARATOR}${template.name}`,
+      description: template.description,
+      mimeType: template.mimeType,
+      arguments: uriTemplate.variableNames.map((name) => ({ name, required: true })),
+      load: async (args) =>
+        toResourceResults(await client.readResource({ uri: uriTemplate.expand(args) })),
+    };
+  }
+
+  private proxyPrompt(
+    { serverName, client }: Upstream,
+    prompt: UpstreamPrompt,
+  ): InputPrompt<FastMCPSessionAuth> {
+    return {
+      name: `${serverName}${PROXY_NAME_SEPARATOR}${prompt.name}`,
+      description: prompt.description,
+      arguments: prompt.arguments?.map(({ name, description, required }) => ({
+        name,
+        description,
+        required,
+      })),
+      load: async (args) => {
+        const promptArguments = Object.fromEntries(
+          Object.entries(args).filter(
+            (entry): entry is [string, string] => typeof entry[1] === "string",
+          ),
+        );
+        const { messages } = await client.getPrompt({
+          name: prompt.name,
+          arguments: promptArguments,
+        });
+        return { messages };
+      },
+    };
+  }
+}
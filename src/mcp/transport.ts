@@ -0,0 +1,116 @@
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+
+import type { McpServers } from "../types/mcp.js";
+
+/**
+ * Set for the servers spawned by rulesync, so that an exposed `rulesync mcp` does not proxy
+ * itself again.
+ */
+export const RULESYNC_MCP_PROXY_ENV = "RULESYNC_MCP_PROXY";
+
+export type McpTransportType = "stdio" | "http" | "sse";
+
+export class McpTransportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "McpTransportError";
+  }
+}
+
+/**
+ * The transport rulesync uses to reach a server: stdio when it has a command, otherwise
+ * streamable HTTP, or SSE when `type` is `sse` and it has no `httpUrl`.
+ * @returns The transport type, or null when the server has neither a command nor a URL
+ */
+export function getMcpTransportType(server: McpServers[string]): McpTransportType | null {
+  const type = server.type ?? server.transport;
+  if (server.command !== undefined && type !== "sse" && type !== "http") {
+    return "stdio";
+  }
+  if (server.httpUrl !== undefined) {
+    return "http";
+  }
+  if (server.url !== undefined) {
+    return type === "sse" ? "sse" : "http";
+  }
+  return null;
+}
+
+/**
+ * Create a client transport to a server. Stdio servers are spawned with the environment of this
+ * process and their `env`, in their `cwd`. Their stderr is inherited unless `stderr` is "pipe",
+ * in which case the caller must read it from the transport.
+ * @throws McpTransportError if the server has neither a command nor a URL
+ */
+export function createMcpClientTransport({
+  serverName,
+  server,
+  stderr = "inherit",
+}: {
+  serverName: string;
+  server: McpServers[string];
+  stderr?: "inherit" | "pipe";
+}): Transport {
+  const transportType = getMcpTransportType(server);
+  const requestInit = server.headers ? { headers: server.headers } : undefined;
+
+  switch (transportType) {
+    case "stdio": {
+      const [command = "", ...commandArgs] =
+        typeof server.command === "string" ? [server.command] : (server.command ?? []);
+      const env = Object.fromEntries(
+        Object.entries(process.env).filter(
+          (entry): entry is [string, string] => entry[1] !== undefined,
+        ),
+      );
+      return new StdioClientTransport({
+        command,
+        args: [...commandArgs, ...(server.args ?? [])],
+        env: { ...env, ...server.env, [RULESYNC_MCP_PROXY_ENV]: "1" },
+        cwd: server.cwd,
+        stderr,
+      });
+    }
+    case "http":
+      return new StreamableHTTPClientTransport(new URL(server.httpUrl ?? server.url ?? ""), {
+        requestInit,
+      });
+    case "sse":
+      return new SSEClientTransport(new URL(server.url ?? ""), { requestInit });
+    case null:
+      throw new McpTransportError(`MCP server "${serverName}" has neither a command nor a URL.`);
+  }
+}
+
+/** Number of pages read from a paginated list request before giving up on the server. */
+const MAX_MCP_LIST_PAGES = 100;
+
+/**
+ * Collect the items of every page of a paginated MCP list request.
+ * Throws when the server repeats a cursor or keeps returning pages, which would never end.
+ */
+export async function listAllPages<T>(
+  listPage: (cursor: string | undefined) => Promise<{ items: T[]; nextCursor?: string }>,
+): Promise<T[]> {
+  const items: T[] = [];
+  const cursors = new Set<string>();
+  let cursor: string | undefined;
+  do {
+    if (cursors.size >= MAX_MCP_LIST_PAGES) {
+      throw new Error(`Server returned more than ${MAX_MCP_LIST_PAGES} pages`);
+    }
+    const page = await listPage(cursor);
+    items.push(...page.items);
+    cursor = page.nextCursor;
+    if (cursor !== undefined) {
+      if (cursors.has(cursor)) {
+        throw new Error(`Server returned the cursor "${cursor}" twice`);
+      }
+      cursors.add(cursor);
+    }
+  } while (cursor !== undefined);
+  return items;
+}
@@ -0,0 +1,71 @@
+import { join } from "node:path";
+
+import { writeFileContent } from "../utils/file.js";
+
+/**
+ * Source of a stdio MCP server standing in for a configured server: it has the tools `echo` and
+ * `env` (which returns `STAND_IN_VALUE`), a resource, a resource template and a prompt.
+ */
+const MCP_STAND_IN_SERVER_SOURCE = `
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+
+const server = new Server(
+  { name: "stand-in", version: "1.0.0" },
+  { capabilities: { tools: {}, resources: {}, prompts: {} } },
+);
+const inputSchema = {
+  type: "object",
+  properties: { text: { type: "string" } },
+  required: ["text"],
+};
+server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  tools: [
+    { name: "echo", description: "Echo the text", inputSchema },
+    { name: "env", description: "Read STAND_IN_VALUE", inputSchema: { type: "object" } },
+  ],
+}));
+server.setRequestHandler(CallToolRequestSchema, async ({ params }) =>
+  params.name === "echo"
+    ? { content: [{ type: "text", text: "echo: " + params.arguments.text, annotations: {} }] }
+    : { content: [], structuredContent: { value: process.env.STAND_IN_VALUE ?? null } },
+);
+server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+  resources: [{ uri: "stand-in://readme", name: "readme", mimeType: "text/plain" }],
+}));
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+  resourceTemplates: [{ uriTemplate: "stand-in://docs/{page}", name: "docs" }],
+}));
+server.setRequestHandler(ReadResourceRequestSchema, async ({ params }) => ({
+  contents: [{ uri: params.uri, mimeType: "text/plain", text: "content of " + params.uri }],
+}));
+server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+  prompts: [{ name: "review", arguments: [{ name: "file", required: true }] }],
+}));
+server.setRequestHandler(GetPromptRequestSchema, async ({ params }) => ({
+  messages: [
+    { role: "user", content: { type: "text", text: "Review " + params.arguments.file } },
+  ],
+}));
+await server.connect(new StdioServerTransport());
+`;
+
+/**
+ * Write the stand-in MCP server into a test directory, where it resolves the MCP SDK of this
+ * repository.
+ * @returns The path of the script, to run with `process.execPath`
+ */
+export async function writeMcpStandInServer(dir: string): Promise<string> {
+  const filePath = join(dir, "stand-in.mjs");
+  await writeFileContent(filePath, MCP_STAND_IN_SERVER_SOURCE);
+  return filePath;
+}
@@ -0,0 +1,19 @@
+/**
+ * How a rulesync item is affected when converted to a tool's format.
+ * - "dropped": the item does not reach the generated files at all
+ * - "approximated": the item is kept, but in a different form (e.g. listed in the root file
+ *   instead of the tool's native frontmatter)
+ */
+export type ConversionLossKind = "dropped" | "approximated";
+
+/**
+ * A single field, hook event or feature of a rulesync file that a tool target cannot represent.
+ */
+export type ConversionLoss = {
+  /** Path of the rulesync source file, relative to the base directory */
+  file: string;
+  kind: ConversionLossKind;
+  /** The affected item, e.g. `globs`, `cursor.alwaysApply` or `hooks.afterFileEdit` */
+  item: string;
+  reason: string;
+};
@@ -1,12 +1,17 @@
+import { join } from "node:path";
+
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
+import { GeneratedManifest } from "../lib/generated-manifest.js";
 import { setupTestDirectory } from "../test-utils/test-directories.js";
 import {
   ensureDir,
   readFileContentOrNull,
   removeDirectory,
+  removeFile,
   writeFileContent,
 } from "../utils/file.js";
+import { logger } from "../utils/logger.js";
 import { AiDir, AiDirFile } from "./ai-dir.js";
 import { DirFeatureProcessor } from "./dir-feature-processor.js";
 
@@ -16,6 +21,7 @@ vi.mock("../utils/file.js", async () => {
     ...actual,
     readFileContentOrNull: vi.fn().mockResolvedValue(null),
     removeDirectory: vi.fn(),
+    removeFile: vi.fn(),
     ensureDir: vi.fn(),
     writeFileContent: vi.fn(),
   };
@@ -78,7 +84,7 @@ describe("DirFeatureProcessor", () => {
 
       const generatedDirs = [createMockDir("/path/to/kept")];
 
-      const count = await processor.removeOrphanAiDirs(existingDirs, generatedDirs);
+      const { count } = await processor.removeOrphanAiDirs(existingDirs, generatedDirs);
 
       expect(count).toBe(2);
       expect(removeDirectory).toHaveBeenCalledTimes(2);
@@ -93,7 +99,7 @@ describe("DirFeatureProcessor", () => {
 
       const generatedDirs = [createMockDir("/path/to/dir1"), createMockDir("/path/to/dir2")];
 
-      const count = await processor.removeOrphanAiDirs(existingDirs, generatedDirs);
+      const { count } = await processor.removeOrphanAiDirs(existingDirs, generatedDirs);
 
       expect(count).toBe(0);
       expect(removeDirectory).not.toHaveBeenCalled();
@@ -106,7 +112,7 @@ describe("DirFeatureProcessor", () => {
 
       const generatedDirs: AiDir[] = [];
 
-      const count = await processor.removeOrphanAiDirs(existingDirs, generatedDirs);
+      const { count } = await processor.removeOrphanAiDirs(existingDirs, generatedDirs);
 
       expect(count).toBe(2);
       expect(removeDirectory).toHaveBeenCalledTimes(2);
@@ -125,12 +131,41 @@ describe("DirFeatureProcessor", () => {
 
       const generatedDirs = [createMockDir("/path/to/kept")];
 
-      const count = await processor.removeOrphanAiDirs(existingDirs, generatedDirs);
+      const { count } = await processor.removeOrphanAiDirs(existingDirs, generatedDirs);
 
       expect(count).toBe(2);
       expect(removeDirectory).not.toHaveBeenCalled();
     });
 
+    it("should return the content of files in removed dirs as changes", async () => {
+      vi.mocked(readFileContentOrNull).mockResolvedValue("orphan content\n");
+      const processor = new TestDirProcessor({ baseDir: testDir, dryRun: true });
+
+      const actual = await vi.importActual<typeof import("../utils/file.js")>("../utils/file.js");
+      const orphanDir = join(testDir, ".claude", "skills", "orphan");
+      await actual.writeFileContent(join(orphanDir, "SKILL.md"), "orphan content\n");
+      const existingDirs = [
+        {
+          getDirPath: () => orphanDir,
+          getRelativePathFromCwd: () => join(".claude", "skills", "orphan"),
+        } as unknown as AiDir,
+      ];
+
+      const result = await processor.removeOrphanAiDirs(existingDirs, []);
+
+      expect(result).toEqual({
+        count: 1,
+        paths: [join(".claude", "skills", "orphan")],
+        changes: [
+          {
+            path: join(".claude", "skills", "orphan", "SKILL.md"),
+            oldContent: "orphan content\n",
+            newContent: null,
+          },
+        ],
+      });
+    });
+
     it("should not remove any dirs when existing is empty", async () => {
       const processor = new TestDirProcessor({ baseDir: testDir });
 
@@ -141,6 +176,87 @@ describe("DirFeatureProcessor", () => {
 
       expect(removeDirectory).not.toHaveBeenCalled();
     });
+
+    describe("with a generated files manifest", () => {
+      const relativeDir = join(".claude", "skills", "orphan");
+      let orphanDir: string;
+      let existingDirs: AiDir[];
+
+      beforeEach(async () => {
+        const actual = await vi.importActual<typeof import("../utils/file.js")>("../utils/file.js");
+        orphanDir = join(testDir, relativeDir);
+        await actual.writeFileContent(join(orphanDir, "SKILL.md"), "generated\n");
+        await actual.writeFileContent(join(orphanDir, "notes.md"), "hand-written\n");
+        existingDirs = [
+          {
+            getDirPath: () => orphanDir,
+            getRelativePathFromCwd: () => relativeDir,
+          } as unknown as AiDir,
+        ];
+        vi.mocked(readFileContentOrNull).mockImplementation(async (filePath) =>
+          filePath.endsWith("SKILL.md") ? "generated\n" : "hand-written\n",
+        );
+      });
+
+      it("should remove the whole dir when all files were generated", async () => {
+        const processor = new TestDirProcessor({ baseDir: testDir });
+        const manifest = new GeneratedManifest({ baseDir: testDir });
+        manifest.record({ filePath: join(orphanDir, "SKILL.md"), content: "generated\n" });
+        manifest.record({ filePath: join(orphanDir, "notes.md"), content: "hand-written\n" });
+
+        const result = await processor.removeOrphanAiDirs(existingDirs, [], manifest);
+
+        expect(result.count).toBe(1);
+        expect(result.paths).toEqual([relativeDir]);
+        expect(removeDirectory).toHaveBeenCalledWith(orphanDir);
+        expect(manifest.getFiles()).toEqual({});
+      });
+
+      it("should only remove generated files and keep hand-written ones", async () => {
+        const processor = new TestDirProcessor({ baseDir: testDir });
+        const manifest = new GeneratedManifest({ baseDir: testDir });
+        manifest.record({ filePath: join(orphanDir, "SKILL.md"), content: "generated\n" });
+
+        const result = await processor.removeOrphanAiDirs(existingDirs, [], manifest);
+
+        expect(result).toEqual({
+          count: 1,
+          paths: [join(relativeDir, "SKILL.md")],
+          changes: [
+            { path: join(relativeDir, "SKILL.md"), oldContent: "generated\n", newContent: null },
+          ],
+        });
+        expect(removeDirectory).not.toHaveBeenCalled();
+        expect(removeFile).toHaveBeenCalledTimes(1);
+        expect(removeFile).toHaveBeenCalledWith(join(orphanDir, "SKILL.md"));
+      });
+
+      it("should keep dirs that contain no generated files", async () => {
+        const processor = new TestDirProcessor({ baseDir: testDir });
+        const manifest = new GeneratedManifest({ baseDir: testDir });
+
+        const result = await processor.removeOrphanAiDirs(existingDirs, [], manifest);
+
+        expect(result).toEqual({ count: 0, paths: [], changes: [] });
+        expect(removeDirectory).not.toHaveBeenCalled();
+        expect(removeFile).not.toHaveBeenCalled();
+      });
+
+      it("should keep generated files edited by hand and warn", async () => {
+        const warnSpy = vi.spyOn(logger, "warn");
+        const processor = new TestDirProcessor({ baseDir: testDir });
+        const manifest = new GeneratedManifest({ baseDir: testDir });
+        manifest.record({ filePath: join(orphanDir, "SKILL.md"), content: "previous\n" });
+
+        const result = await processor.removeOrphanAiDirs(existingDirs, [], manifest);
+
+        expect(result.count).toBe(0);
+        expect(removeFile).not.toHaveBeenCalled();
+        expect(warnSpy).toHaveBeenCalledWith(
+          `${join(relativeDir, "SKILL.md")} was edited by hand since it was last generated. Skipping deletion.`,
+        );
+      });
+    });
   });
 
   describe("writeAiDirs", () => {
@@ -178,6 +294,10 @@ describe("DirFeatureProcessor", () => {
       expect(result).toEqual({
         count: 2,
         paths: ["/path/to/dir1/SKILL.md", "/path/to/dir2/SKILL.md"],
+        changes: [
+          { path: "/path/to/dir1/SKILL.md", oldContent: null, newContent: "body1\n" },
+          { path: "/path/to/dir2/SKILL.md", oldContent: null, newContent: "body2\n" },
+        ],
       });
       expect(ensureDir).toHaveBeenCalledTimes(2);
       expect(writeFileContent).toHaveBeenCalledTimes(2);
@@ -191,7 +311,7 @@ describe("DirFeatureProcessor", () => {
 
       const result = await processor.writeAiDirs(dirs);
 
-      expect(result).toEqual({ count: 0, paths: [] });
+      expect(result).toEqual({ count: 0, paths: [], changes: [] });
       expect(ensureDir).not.toHaveBeenCalled();
       expect(writeFileContent).not.toHaveBeenCalled();
     });
@@ -208,7 +328,13 @@ describe("DirFeatureProcessor", () => {
 
       const result = await processor.writeAiDirs(dirs);
 
-      expect(result).toEqual({ count: 1, paths: ["/path/to/dir1/extra.txt"] });
+      expect(result).toEqual({
+        count: 1,
+        paths: ["/path/to/dir1/extra.txt"],
+        changes: [
+          { path: "/path/to/dir1/extra.txt", oldContent: null, newContent: "other content\n" },
+        ],
+      });
       expect(ensureDir).toHaveBeenCalledTimes(1);
       expect(writeFileContent).toHaveBeenCalledTimes(1);
     });
@@ -224,15 +350,51 @@ describe("DirFeatureProcessor", () => {
 
       const result = await processor.writeAiDirs(dirs);
 
-      expect(result).toEqual({
-        count: 2,
-        paths: ["/path/to/dir1/SKILL.md", "/path/to/dir2/SKILL.md"],
-      });
+      expect(result.count).toBe(2);
+      expect(result.paths).toEqual(["/path/to/dir1/SKILL.md", "/path/to/dir2/SKILL.md"]);
       expect(ensureDir).not.toHaveBeenCalled();
       expect(writeFileContent).not.toHaveBeenCalled();
     });
   });
 
+  describe("writeAiDirs with a generated files manifest", () => {
+    it("should record every file of every dir", async () => {
+      vi.mocked(readFileContentOrNull).mockResolvedValue(null);
+      const processor = new TestDirProcessor({ baseDir: testDir });
+      const manifest = new GeneratedManifest({ baseDir: "/path" });
+      const dir = {
+        getDirPath: () => "/path/to/dir1",
+        getMainFile: () => ({ name: "SKILL.md", body: "body1", frontmatter: {} }),
+        getOtherFiles: () => [
+          { relativeFilePathToDirPath: "extra.txt", fileBuffer: Buffer.from("extra") },
+        ],
+        getRelativePathFromCwd: () => "/path/to/dir1",
+      } as unknown as AiDir;
+
+      await processor.writeAiDirs([dir], manifest);
+
+      expect(Object.keys(manifest.getFiles())).toEqual(["to/dir1/SKILL.md", "to/dir1/extra.txt"]);
+    });
+
+    it("should not record files in dry-run mode", async () => {
+      vi.mocked(readFileContentOrNull).mockResolvedValue(null);
+      const processor = new TestDirProcessor({ baseDir: testDir, dryRun: true });
+      const manifest = new GeneratedManifest({ baseDir: "/path" });
+      const dir = {
+        getDirPath: () => "/path/to/dir1",
+        getMainFile: () => ({ name: "SKILL.md", body: "body1", frontmatter: {} }),
+        getOtherFiles: () => [
+          { relativeFilePathToDirPath: "extra.txt", fileBuffer: Buffer.from("extra") },
+        ],
+        getRelativePathFromCwd: () => "/path/to/dir1",
+      } as unknown as AiDir;
+
+      await processor.writeAiDirs([dir], manifest);
+
+      expect(manifest.getFiles()).toEqual({});
+    });
+  });
+
   describe("removeAiDirs", () => {
     it("should remove all dirs", async () => {
       const processor = new TestDirProcessor({ baseDir: testDir });
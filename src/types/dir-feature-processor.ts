@@ -1,15 +1,18 @@
-import { join } from "node:path";
+import { join, relative } from "node:path";
 
+import type { GeneratedManifest } from "../lib/generated-manifest.js";
 import {
   addTrailingNewline,
   ensureDir,
+  findFilesByGlobs,
   readFileContentOrNull,
   removeDirectory,
+  removeFile,
   writeFileContent,
 } from "../utils/file.js";
 import { stringifyFrontmatter } from "../utils/frontmatter.js";
 import { logger } from "../utils/logger.js";
-import type { WriteResult } from "../utils/result.js";
+import type { FileChange, WriteResult } from "../utils/result.js";
 import { AiDir, AiDirFile } from "./ai-dir.js";
 import { ToolTarget } from "./tool-targets.js";
 
@@ -44,17 +47,20 @@ export abstract class DirFeatureProcessor {
   /**
    * Once converted to rulesync/tool dirs, write them to the filesystem.
    * Returns the number of directories written.
+   * When a manifest is given, every file is recorded in it as generated, except in dry-run mode.
    *
    * Note: This method uses directory-level change detection. If any file within
    * a directory has changed, ALL files in that directory are rewritten. This is
    * an intentional design decision to ensure consistency within directory units.
    */
-  async writeAiDirs(aiDirs: AiDir[]): Promise<WriteResult> {
+  async writeAiDirs(aiDirs: AiDir[], manifest?: GeneratedManifest): Promise<WriteResult> {
     let changedCount = 0;
     const changedPaths: string[] = [];
+    const changes: FileChange[] = [];
     for (const aiDir of aiDirs) {
       const dirPath = aiDir.getDirPath();
-      let dirHasChanges = false;
+      const relativeDir = aiDir.getRelativePathFromCwd();
+      const dirChanges: FileChange[] = [];
 
       // Compute content for main file
       const mainFile = aiDir.getMainFile();
@@ -64,8 +70,22 @@ export abstract class DirFeatureProcessor {
         const content = stringifyFrontmatter(mainFile.body, mainFile.frontmatter);
         mainFileContent = addTrailingNewline(content);
         const existingContent = await readFileContentOrNull(mainFilePath);
+        this.warnIfEditedByHand({
+          filePath: mainFilePath,
+          relativePath: join(relativeDir, mainFile.name),
+          existingContent,
+          content: mainFileContent,
+          manifest,
+        });
+        if (!this.dryRun) {
+          manifest?.record({ filePath: mainFilePath, content: mainFileContent });
+        }
         if (existingContent !== mainFileContent) {
-          dirHasChanges = true;
+          dirChanges.push({
+            path: join(relativeDir, mainFile.name),
+            oldContent: existingContent,
+            newContent: mainFileContent,
+          });
         }
       }
 
@@ -75,20 +95,31 @@ export abstract class DirFeatureProcessor {
       for (const file of otherFiles) {
         const contentWithNewline = addTrailingNewline(file.fileBuffer.toString("utf-8"));
         otherFileContents.push(contentWithNewline);
-        if (!dirHasChanges) {
-          const filePath = join(dirPath, file.relativeFilePathToDirPath);
-          const existingContent = await readFileContentOrNull(filePath);
-          if (existingContent !== contentWithNewline) {
-            dirHasChanges = true;
-          }
+        const filePath = join(dirPath, file.relativeFilePathToDirPath);
+        const existingContent = await readFileContentOrNull(filePath);
+        this.warnIfEditedByHand({
+          filePath,
+          relativePath: join(relativeDir, file.relativeFilePathToDirPath),
+          existingContent,
+          content: contentWithNewline,
+          manifest,
+        });
+        if (!this.dryRun) {
+          manifest?.record({ filePath, content: contentWithNewline });
+        }
+        if (existingContent !== contentWithNewline) {
+          dirChanges.push({
+            path: join(relativeDir, file.relativeFilePathToDirPath),
+            oldContent: existingContent,
+            newContent: contentWithNewline,
+          });
         }
       }
 
-      if (!dirHasChanges) {
+      if (dirChanges.length === 0) {
         continue;
       }
 
-      const relativeDir = aiDir.getRelativePathFromCwd();
       if (this.dryRun) {
         logger.info(`[DRY RUN] Would create directory: ${dirPath}`);
         if (mainFile) {
@@ -125,9 +156,10 @@ export abstract class DirFeatureProcessor {
         }
       }
       changedCount++;
+      changes.push(...dirChanges);
     }
 
-    return { count: changedCount, paths: changedPaths };
+    return { count: changedCount, paths: changedPaths, changes };
   }
 
   async removeAiDirs(aiDirs: AiDir[]): Promise<void> {
@@ -139,20 +171,108 @@ export abstract class DirFeatureProcessor {
   /**
    * Remove orphan directories that exist in the tool directory but not in the generated directories.
    * This only deletes directories that are no longer in the rulesync source, not directories that will be overwritten.
+   * When a manifest is given, only files rulesync previously generated are deleted: generated files
+   * edited by hand are kept with a warning, and a directory is removed as a whole only when it
+   * contains nothing else.
+   * Returns the count and paths of directories removed, and the content changes of the files within them.
    */
-  async removeOrphanAiDirs(existingDirs: AiDir[], generatedDirs: AiDir[]): Promise<number> {
+  async removeOrphanAiDirs(
+    existingDirs: AiDir[],
+    generatedDirs: AiDir[],
+    manifest?: GeneratedManifest,
+  ): Promise<WriteResult> {
     const generatedPaths = new Set(generatedDirs.map((d) => d.getDirPath()));
     const orphanDirs = existingDirs.filter((d) => !generatedPaths.has(d.getDirPath()));
+    let removedCount = 0;
+    const removedPaths: string[] = [];
+    const changes: FileChange[] = [];
 
     for (const aiDir of orphanDirs) {
       const dirPath = aiDir.getDirPath();
-      if (this.dryRun) {
-        logger.info(`[DRY RUN] Would delete directory: ${dirPath}`);
+      const relativeDir = aiDir.getRelativePathFromCwd();
+      const filePaths = await findFilesByGlobs(join(dirPath, "**", "*"), { type: "file" });
+
+      // Capture the contents before deletion so that the removal can be shown as a diff
+      const dirChanges: Array<FileChange & { filePath: string }> = [];
+      for (const filePath of filePaths) {
+        if (manifest && !manifest.isGenerated(filePath)) {
+          continue;
+        }
+        const existingContent = await readFileContentOrNull(filePath);
+        const relativePath = join(relativeDir, relative(dirPath, filePath));
+        if (
+          existingContent !== null &&
+          manifest?.isModified({ filePath, content: existingContent })
+        ) {
+          logger.warn(
+            `${relativePath} was edited by hand since it was last generated. Skipping deletion.`,
+          );
+          continue;
+        }
+        dirChanges.push({
+          filePath,
+          path: relativePath,
+          oldContent: existingContent,
+          newContent: null,
+        });
+      }
+
+      if (manifest && dirChanges.length === 0) {
+        logger.debug(`Keeping ${dirPath}: not generated by rulesync`);
+        continue;
+      }
+
+      // Without a manifest, or when every file is owned by rulesync, the directory goes as a whole
+      const removeWholeDir = !manifest || dirChanges.length === filePaths.length;
+      if (removeWholeDir) {
+        if (this.dryRun) {
+          logger.info(`[DRY RUN] Would delete directory: ${dirPath}`);
+        } else {
+          await removeDirectory(dirPath);
+        }
+        removedPaths.push(relativeDir);
       } else {
-        await removeDirectory(dirPath);
+        for (const { filePath, path } of dirChanges) {
+          if (this.dryRun) {
+            logger.info(`[DRY RUN] Would delete: ${filePath}`);
+          } else {
+            await removeFile(filePath);
+          }
+          removedPaths.push(path);
+        }
       }
+
+      for (const { filePath, ...change } of dirChanges) {
+        if (!this.dryRun) {
+          manifest?.forget(filePath);
+        }
+        changes.push(change);
+      }
+      removedCount++;
     }
 
-    return orphanDirs.length;
+    return { count: removedCount, paths: removedPaths, changes };
+  }
+
+  private warnIfEditedByHand({
+    filePath,
+    relativePath,
+    existingContent,
+    content,
+    manifest,
+  }: {
+    filePath: string;
+    relativePath: string;
+    existingContent: string | null;
+    content: string;
+    manifest?: GeneratedManifest;
+  }): void {
+    if (
+      existingContent !== null &&
+      existingContent !== content &&
+      manifest?.isModified({ filePath, content: existingContent })
+    ) {
+      logger.warn(`${relativePath} was edited by hand since it was last generated. Overwriting.`);
+    }
   }
 }
@@ -1,7 +1,9 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
+import { GeneratedManifest } from "../lib/generated-manifest.js";
 import { setupTestDirectory } from "../test-utils/test-directories.js";
 import { readFileContentOrNull, removeFile, writeFileContent } from "../utils/file.js";
+import { logger } from "../utils/logger.js";
 import { AiFile } from "./ai-file.js";
 import { FeatureProcessor } from "./feature-processor.js";
 import { RulesyncFile } from "./rulesync-file.js";
@@ -69,7 +71,7 @@ describe("FeatureProcessor", () => {
 
       const generatedFiles = [createMockFile("/path/to/kept.md")];
 
-      const count = await processor.removeOrphanAiFiles(existingFiles, generatedFiles);
+      const { count } = await processor.removeOrphanAiFiles(existingFiles, generatedFiles);
 
       expect(count).toBe(2);
       expect(removeFile).toHaveBeenCalledTimes(2);
@@ -90,7 +92,7 @@ describe("FeatureProcessor", () => {
         createMockFile("/path/to/file2.md"),
       ];
 
-      const count = await processor.removeOrphanAiFiles(existingFiles, generatedFiles);
+      const { count } = await processor.removeOrphanAiFiles(existingFiles, generatedFiles);
 
       expect(count).toBe(0);
       expect(removeFile).not.toHaveBeenCalled();
@@ -106,7 +108,7 @@ describe("FeatureProcessor", () => {
 
       const generatedFiles: AiFile[] = [];
 
-      const count = await processor.removeOrphanAiFiles(existingFiles, generatedFiles);
+      const { count } = await processor.removeOrphanAiFiles(existingFiles, generatedFiles);
 
       expect(count).toBe(2);
       expect(removeFile).toHaveBeenCalledTimes(2);
@@ -125,12 +127,28 @@ describe("FeatureProcessor", () => {
 
       const generatedFiles = [createMockFile("/path/to/kept.md")];
 
-      const count = await processor.removeOrphanAiFiles(existingFiles, generatedFiles);
+      const { count } = await processor.removeOrphanAiFiles(existingFiles, generatedFiles);
 
       expect(count).toBe(2);
       expect(removeFile).not.toHaveBeenCalled();
     });
 
+    it("should return the content of removed files as changes", async () => {
+      vi.mocked(readFileContentOrNull).mockResolvedValue("orphan content\n");
+      const processor = new TestProcessor({ baseDir: testDir, dryRun: true });
+
+      const result = await processor.removeOrphanAiFiles(
+        [createMockFile("/path/to/orphan.md")],
+        [],
+      );
+
+      expect(result).toEqual({
+        count: 1,
+        paths: ["/path/to/orphan.md"],
+        changes: [{ path: "/path/to/orphan.md", oldContent: "orphan content\n", newContent: null }],
+      });
+    });
+
     it("should not remove any files when existing is empty", async () => {
       const processor = new TestProcessor({ baseDir: testDir });
 
@@ -141,6 +159,48 @@ describe("FeatureProcessor", () => {
 
       expect(removeFile).not.toHaveBeenCalled();
     });
+
+    describe("with a generated files manifest", () => {
+      it("should only remove files previously generated by rulesync", async () => {
+        vi.mocked(readFileContentOrNull).mockResolvedValue("content\n");
+        const processor = new TestProcessor({ baseDir: testDir });
+        const manifest = new GeneratedManifest({ baseDir: "/path" });
+        manifest.record({ filePath: "/path/to/generated.md", content: "content\n" });
+
+        const result = await processor.removeOrphanAiFiles(
+          [createMockFile("/path/to/generated.md"), createMockFile("/path/to/hand-written.md")],
+          [],
+          manifest,
+        );
+
+        expect(result.count).toBe(1);
+        expect(result.paths).toEqual(["/path/to/generated.md"]);
+        expect(removeFile).toHaveBeenCalledTimes(1);
+        expect(removeFile).toHaveBeenCalledWith("/path/to/generated.md");
+        expect(manifest.isGenerated("/path/to/generated.md")).toBe(false);
+      });
+
+      it("should keep generated files edited by hand and warn", async () => {
+        vi.mocked(readFileContentOrNull).mockResolvedValue("edited\n");
+        const warnSpy = vi.spyOn(logger, "warn");
+        const processor = new TestProcessor({ baseDir: testDir });
+        const manifest = new GeneratedManifest({ baseDir: "/path" });
+        manifest.record({ filePath: "/path/to/generated.md", content: "content\n" });
+
+        const result = await processor.removeOrphanAiFiles(
+          [createMockFile("/path/to/generated.md")],
+          [],
+          manifest,
+        );
+
+        expect(result.count).toBe(0);
+        expect(removeFile).not.toHaveBeenCalled();
+        expect(manifest.isGenerated("/path/to/generated.md")).toBe(true);
+        expect(warnSpy).toHaveBeenCalledWith(
+          "/path/to/generated.md was edited by hand since it was last generated. Skipping deletion.",
+        );
+      });
+    });
   });
 
   describe("writeAiFiles", () => {
@@ -152,7 +212,14 @@ describe("FeatureProcessor", () => {
 
       const result = await processor.writeAiFiles(files);
 
-      expect(result).toEqual({ count: 2, paths: ["/path/to/file1.md", "/path/to/file2.md"] });
+      expect(result).toEqual({
+        count: 2,
+        paths: ["/path/to/file1.md", "/path/to/file2.md"],
+        changes: [
+          { path: "/path/to/file1.md", oldContent: null, newContent: "content\n" },
+          { path: "/path/to/file2.md", oldContent: null, newContent: "content\n" },
+        ],
+      });
       expect(writeFileContent).toHaveBeenCalledTimes(2);
     });
 
@@ -164,7 +231,7 @@ describe("FeatureProcessor", () => {
 
       const result = await processor.writeAiFiles(files);
 
-      expect(result).toEqual({ count: 0, paths: [] });
+      expect(result).toEqual({ count: 0, paths: [], changes: [] });
       expect(writeFileContent).not.toHaveBeenCalled();
     });
 
@@ -178,7 +245,11 @@ describe("FeatureProcessor", () => {
 
       const result = await processor.writeAiFiles(files);
 
-      expect(result).toEqual({ count: 1, paths: ["/path/to/file2.md"] });
+      expect(result).toEqual({
+        count: 1,
+        paths: ["/path/to/file2.md"],
+        changes: [{ path: "/path/to/file2.md", oldContent: null, newContent: "content\n" }],
+      });
       expect(writeFileContent).toHaveBeenCalledTimes(1);
     });
 
@@ -190,11 +261,64 @@ describe("FeatureProcessor", () => {
 
       const result = await processor.writeAiFiles(files);
 
-      expect(result).toEqual({ count: 2, paths: ["/path/to/file1.md", "/path/to/file2.md"] });
+      expect(result.count).toBe(2);
+      expect(result.paths).toEqual(["/path/to/file1.md", "/path/to/file2.md"]);
       expect(writeFileContent).not.toHaveBeenCalled();
     });
   });
 
+  describe("writeAiFiles with a generated files manifest", () => {
+    it("should record every file including unchanged ones", async () => {
+      vi.mocked(readFileContentOrNull)
+        .mockResolvedValueOnce("content\n") // file1: unchanged
+        .mockResolvedValueOnce(null); // file2: new
+      const processor = new TestProcessor({ baseDir: testDir });
+      const manifest = new GeneratedManifest({ baseDir: "/path" });
+
+      await processor.writeAiFiles(
+        [createMockFile("/path/to/file1.md"), createMockFile("/path/to/file2.md")],
+        manifest,
+      );
+
+      expect(Object.keys(manifest.getFiles())).toEqual(["to/file1.md", "to/file2.md"]);
+    });
+
+    it("should warn when overwriting a generated file edited by hand", async () => {
+      vi.mocked(readFileContentOrNull).mockResolvedValue("edited\n");
+      const warnSpy = vi.spyOn(logger, "warn");
+      const processor = new TestProcessor({ baseDir: testDir });
+      const manifest = new GeneratedManifest({ baseDir: "/path" });
+      manifest.record({ filePath: "/path/to/file1.md", content: "previous\n" });
+
+      const result = await processor.writeAiFiles([createMockFile("/path/to/file1.md")], manifest);
+
+      expect(result.count).toBe(1);
+      expect(writeFileContent).toHaveBeenCalledWith("/path/to/file1.md", "content\n");
+      expect(warnSpy).toHaveBeenCalledWith(
+        "/path/to/file1.md was edited by hand since it was last generated. Overwriting.",
+      );
+      expect(manifest.isModified({ filePath: "/path/to/file1.md", content: "content\n" })).toBe(
+        false,
+      );
+    });
+
+    it("should not record files in dry-run mode, so that later writers of a file do not warn", async () => {
+      vi.mocked(readFileContentOrNull).mockResolvedValue("previous\n");
+      const warnSpy = vi.spyOn(logger, "warn");
+      const processor = new TestProcessor({ baseDir: testDir, dryRun: true });
+      const manifest = new GeneratedManifest({ baseDir: "/path" });
+      manifest.record({ filePath: "/path/to/file1.md", content: "previous\n" });
+
+      await processor.writeAiFiles([createMockFile("/path/to/file1.md")], manifest);
+      await processor.writeAiFiles([createMockFile("/path/to/file1.md")], manifest);
+
+      expect(warnSpy).not.toHaveBeenCalled();
+      expect(manifest.isModified({ filePath: "/path/to/file1.md", content: "previous\n" })).toBe(
+        false,
+      );
+    });
+  });
+
   describe("removeAiFiles", () => {
     it("should remove all files", async () => {
       const processor = new TestProcessor({ baseDir: testDir });
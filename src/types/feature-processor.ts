@@ -1,3 +1,4 @@
+import type { GeneratedManifest } from "../lib/generated-manifest.js";
 import {
   addTrailingNewline,
   readFileContentOrNull,
@@ -5,7 +6,7 @@ import {
   writeFileContent,
 } from "../utils/file.js";
 import { logger } from "../utils/logger.js";
-import type { WriteResult } from "../utils/result.js";
+import type { FileChange, WriteResult } from "../utils/result.js";
 import { AiFile } from "./ai-file.js";
 import { RulesyncFile } from "./rulesync-file.js";
 import { ToolFile } from "./tool-file.js";
@@ -39,20 +40,35 @@ export abstract class FeatureProcessor {
 
   /**
    * Once converted to rulesync/tool files, write them to the filesystem.
-   * Returns the count and paths of files written.
+   * Returns the count, paths and content changes of files written.
+   * When a manifest is given, every file is recorded in it as generated, except in dry-run mode.
    */
-  async writeAiFiles(aiFiles: AiFile[]): Promise<WriteResult> {
+  async writeAiFiles(aiFiles: AiFile[], manifest?: GeneratedManifest): Promise<WriteResult> {
     let changedCount = 0;
     const changedPaths: string[] = [];
+    const changes: FileChange[] = [];
     for (const aiFile of aiFiles) {
       const filePath = aiFile.getFilePath();
       const contentWithNewline = addTrailingNewline(aiFile.getFileContent());
       const existingContent = await readFileContentOrNull(filePath);
+      const editedByHand =
+        existingContent !== null && manifest?.isModified({ filePath, content: existingContent });
+      // A dry run leaves the files as they are, so the manifest must keep matching them for the
+      // features that write the same file later in the run
+      if (!this.dryRun) {
+        manifest?.record({ filePath, content: contentWithNewline });
+      }
 
       if (existingContent === contentWithNewline) {
         continue;
       }
 
+      if (editedByHand) {
+        logger.warn(
+          `${aiFile.getRelativePathFromCwd()} was edited by hand since it was last generated. Overwriting.`,
+        );
+      }
+
       if (this.dryRun) {
         logger.info(`[DRY RUN] Would write: ${filePath}`);
       } else {
@@ -60,9 +76,14 @@ export abstract class FeatureProcessor {
       }
       changedCount++;
       changedPaths.push(aiFile.getRelativePathFromCwd());
+      changes.push({
+        path: aiFile.getRelativePathFromCwd(),
+        oldContent: existingContent,
+        newContent: contentWithNewline,
+      });
     }
 
-    return { count: changedCount, paths: changedPaths };
+    return { count: changedCount, paths: changedPaths, changes };
   }
 
   async removeAiFiles(aiFiles: AiFile[]): Promise<void> {
@@ -74,20 +95,51 @@ export abstract class FeatureProcessor {
   /**
    * Remove orphan files that exist in the tool directory but not in the generated files.
    * This only deletes files that are no longer in the rulesync source, not files that will be overwritten.
+   * When a manifest is given, only files rulesync previously generated are deleted, and generated
+   * files edited by hand since then are kept with a warning.
+   * Returns the count, paths and content changes of files removed.
    */
-  async removeOrphanAiFiles(existingFiles: AiFile[], generatedFiles: AiFile[]): Promise<number> {
+  async removeOrphanAiFiles(
+    existingFiles: AiFile[],
+    generatedFiles: AiFile[],
+    manifest?: GeneratedManifest,
+  ): Promise<WriteResult> {
     const generatedPaths = new Set(generatedFiles.map((f) => f.getFilePath()));
     const orphanFiles = existingFiles.filter((f) => !generatedPaths.has(f.getFilePath()));
+    const removedPaths: string[] = [];
+    const changes: FileChange[] = [];
 
     for (const aiFile of orphanFiles) {
       const filePath = aiFile.getFilePath();
+      if (manifest && !manifest.isGenerated(filePath)) {
+        logger.debug(`Keeping ${filePath}: not generated by rulesync`);
+        continue;
+      }
+      // Capture the content before deletion so that the removal can be shown as a diff
+      const existingContent = await readFileContentOrNull(filePath);
+      if (
+        existingContent !== null &&
+        manifest?.isModified({ filePath, content: existingContent })
+      ) {
+        logger.warn(
+          `${aiFile.getRelativePathFromCwd()} was edited by hand since it was last generated. Skipping deletion.`,
+        );
+        continue;
+      }
       if (this.dryRun) {
         logger.info(`[DRY RUN] Would delete: ${filePath}`);
       } else {
         await removeFile(filePath);
+        manifest?.forget(filePath);
       }
+      removedPaths.push(aiFile.getRelativePathFromCwd());
+      changes.push({
+        path: aiFile.getRelativePathFromCwd(),
+        oldContent: existingContent,
+        newContent: null,
+      });
     }
 
-    return orphanFiles.length;
+    return { count: removedPaths.length, paths: removedPaths, changes };
   }
 }
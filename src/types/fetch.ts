@@ -5,9 +5,11 @@ import { FetchTargetSchema } from "./fetch-targets.js";
 import type { GitProvider } from "./git-provider.js";
 
 /**
- * Conflict resolution strategies for fetch command
+ * Conflict resolution strategies for fetch command.
+ * `merge` merges upstream changes into locally edited files, using the content recorded at the
+ * last fetch as the common ancestor.
  */
-export const ConflictStrategySchema = z.enum(["skip", "overwrite"]);
+export const ConflictStrategySchema = z.enum(["skip", "overwrite", "merge"]);
 export type ConflictStrategy = z.infer<typeof ConflictStrategySchema>;
 
 /**
@@ -29,11 +31,24 @@ export const GitHubFileEntrySchema = z.looseObject({
 });
 export type GitHubFileEntry = z.infer<typeof GitHubFileEntrySchema>;
 
+/**
+ * File/directory entry of a directory listing, common to all Git providers
+ */
+export const RemoteFileEntrySchema = z.object({
+  name: z.string(),
+  path: z.string(),
+  size: z.number(),
+  type: GitHubFileTypeSchema,
+});
+export type RemoteFileEntry = z.infer<typeof RemoteFileEntrySchema>;
+
 /**
  * Parsed source specification for fetch command
  */
 export type ParsedSource = {
   provider: GitProvider;
+  /** Host of a self-hosted instance. Absent for the provider's public host. */
+  host?: string;
   owner: string;
   repo: string;
   ref?: string;
@@ -59,7 +74,14 @@ export type FetchOptions = z.infer<typeof FetchOptionsSchema>;
 /**
  * Result status for a single file fetch operation
  */
-export const FetchFileStatusSchema = z.enum(["created", "overwritten", "skipped"]);
+export const FetchFileStatusSchema = z.enum([
+  "created",
+  "overwritten",
+  "skipped",
+  "merged",
+  "conflicted",
+  "removed",
+]);
 export type FetchFileStatus = z.infer<typeof FetchFileStatusSchema>;
 
 /**
@@ -80,6 +102,9 @@ export type FetchSummary = {
   created: number;
   overwritten: number;
   skipped: number;
+  merged: number;
+  conflicted: number;
+  removed: number;
 };
 
 /**
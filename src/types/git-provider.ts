@@ -3,8 +3,18 @@ import { z } from "zod/mini";
 /**
  * Supported Git providers for fetch command
  */
-export const ALL_GIT_PROVIDERS = ["github", "gitlab"] as const;
+export const ALL_GIT_PROVIDERS = ["github", "gitlab", "gitea", "bitbucket"] as const;
 
 export const GitProviderSchema = z.enum(ALL_GIT_PROVIDERS);
 
 export type GitProvider = z.infer<typeof GitProviderSchema>;
+
+/**
+ * Public host of each provider, used for sources without a host such as `gitea:owner/repo`
+ */
+export const GIT_PROVIDER_DEFAULT_HOSTS: Record<GitProvider, string> = {
+  github: "github.com",
+  gitlab: "gitlab.com",
+  gitea: "gitea.com",
+  bitbucket: "bitbucket.org",
+};
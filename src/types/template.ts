@@ -0,0 +1,15 @@
+import type { ToolTarget } from "./tool-targets.js";
+
+/**
+ * Values of the `vars` config option, available in bodies as `{{vars.<name>}}`.
+ */
+export type TemplateVars = Record<string, string | number | boolean>;
+
+/**
+ * Values a body is rendered with for one target.
+ */
+export type TemplateContext = {
+  target: ToolTarget;
+  global: boolean;
+  vars: TemplateVars;
+};
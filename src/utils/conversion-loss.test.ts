@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+
+import { getToolSectionLosses } from "./conversion-loss.js";
+
+describe("getToolSectionLosses", () => {
+  const file = ".rulesync/rules/a.md";
+
+  it("should not report sections of other tools", () => {
+    expect(
+      getToolSectionLosses({
+        file,
+        frontmatter: { description: "A", cursor: { alwaysApply: true, globs: "*.ts" } },
+        toolTarget: "claudecode",
+        section: { name: "claudecode", fields: ["paths"] },
+      }),
+    ).toEqual([]);
+  });
+
+  it("should report every field of the section of a tool that reads none", () => {
+    expect(
+      getToolSectionLosses({
+        file,
+        frontmatter: { cline: { mode: "act" } },
+        toolTarget: "cline",
+      }),
+    ).toEqual([{ file, kind: "dropped", item: "cline.mode", reason: "Not supported by cline" }]);
+  });
+
+  it("should keep the supported fields of the tool's own section", () => {
+    expect(
+      getToolSectionLosses({
+        file,
+        frontmatter: { claudecode: { paths: ["src/**"], model: "opus" } },
+        toolTarget: "claudecode",
+        section: { name: "claudecode", fields: ["paths"] },
+      }),
+    ).toEqual([
+      { file, kind: "dropped", item: "claudecode.model", reason: "Not supported by claudecode" },
+    ]);
+  });
+
+  it("should keep every field of a passed-through section", () => {
+    expect(
+      getToolSectionLosses({
+        file,
+        frontmatter: { agentsmd: { subprojectPath: "packages/a" } },
+        toolTarget: "codexcli",
+        section: { name: "agentsmd", fields: "*" },
+      }),
+    ).toEqual([]);
+  });
+
+  it("should report the section named after the target when the tool reads another one", () => {
+    expect(
+      getToolSectionLosses({
+        file,
+        frontmatter: { codexcli: { foo: "bar" } },
+        toolTarget: "codexcli",
+        section: { name: "agentsmd", fields: ["subprojectPath"] },
+      }),
+    ).toEqual([
+      { file, kind: "dropped", item: "codexcli.foo", reason: "Not supported by codexcli" },
+    ]);
+  });
+
+  it("should ignore keys that are not tool sections", () => {
+    expect(
+      getToolSectionLosses({
+        file,
+        frontmatter: { targets: ["*"], globs: ["**/*"], cursor: "not a section" },
+        toolTarget: "claudecode",
+      }),
+    ).toEqual([]);
+  });
+});
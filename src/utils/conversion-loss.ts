@@ -0,0 +1,52 @@
+import type { ConversionLoss } from "../types/conversion-loss.js";
+import { ALL_TOOL_TARGETS } from "../types/tool-targets.js";
+import { isRecord } from "./type-guards.js";
+
+const TOOL_TARGET_NAMES: ReadonlySet<string> = new Set(ALL_TOOL_TARGETS);
+
+/**
+ * A tool-specific frontmatter section (e.g. `cursor:`) read by a tool, and which of its fields
+ * reach the generated files. `"*"` means the whole section is passed through.
+ */
+export type ToolSectionSupport = {
+  name: string;
+  fields: "*" | readonly string[];
+};
+
+/**
+ * Collect the fields of the tool's own frontmatter sections that do not reach the files of
+ * `toolTarget`. Sections of other tools are meant for those tools, so they are not losses.
+ */
+export function getToolSectionLosses({
+  file,
+  frontmatter,
+  toolTarget,
+  section,
+}: {
+  file: string;
+  frontmatter: Record<string, unknown>;
+  toolTarget: string;
+  section?: ToolSectionSupport;
+}): ConversionLoss[] {
+  const losses: ConversionLoss[] = [];
+  for (const [name, value] of Object.entries(frontmatter)) {
+    const isOwnSection = name === section?.name || name === toolTarget;
+    if (!TOOL_TARGET_NAMES.has(name) || !isRecord(value) || !isOwnSection) {
+      continue;
+    }
+    for (const field of Object.keys(value)) {
+      const isSupported =
+        name === section?.name && (section.fields === "*" || section.fields.includes(field));
+      if (isSupported) {
+        continue;
+      }
+      losses.push({
+        file,
+        kind: "dropped",
+        item: `${name}.${field}`,
+        reason: `Not supported by ${toolTarget}`,
+      });
+    }
+  }
+  return losses;
+}
@@ -0,0 +1,227 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  applyFilePatch,
+  diffLines,
+  formatUnifiedDiff,
+  formatUnifiedDiffs,
+  parseUnifiedDiff,
+} from "./diff.js";
+
+describe("diffLines", () => {
+  it("should find the shortest edit script", () => {
+    const oldLines = ["a", "b", "c", "a", "b", "b", "a"];
+    const newLines = ["c", "b", "a", "b", "a", "c"];
+
+    const ops = diffLines(oldLines, newLines);
+
+    expect(ops.filter((op) => op.type !== "insert").map((op) => op.line)).toEqual(oldLines);
+    expect(ops.filter((op) => op.type !== "delete").map((op) => op.line)).toEqual(newLines);
+    expect(ops.filter((op) => op.type !== "equal")).toHaveLength(5);
+  });
+
+  it("should handle large created and replaced files", () => {
+    const lines = Array.from({ length: 20000 }, (_, i) => `line${i}\n`);
+    const replaced = lines.map((line, i) => (i % 100 === 0 ? `changed${i}\n` : line));
+
+    expect(diffLines([], lines).every((op) => op.type === "insert")).toBe(true);
+    expect(diffLines(lines, replaced).filter((op) => op.type !== "equal")).toHaveLength(400);
+  });
+});
+
+describe("formatUnifiedDiff", () => {
+  it("should return an empty string when contents are identical", () => {
+    expect(formatUnifiedDiff({ path: "a.md", oldContent: "same\n", newContent: "same\n" })).toBe(
+      "",
+    );
+  });
+
+  it("should format a modified line", () => {
+    const diff = formatUnifiedDiff({
+      path: "CLAUDE.md",
+      oldContent: "line1\nline2\nline3\n",
+      newContent: "line1\nchanged\nline3\n",
+    });
+
+    expect(diff).toBe(
+      [
+        "--- a/CLAUDE.md",
+        "+++ b/CLAUDE.md",
+        "@@ -1,3 +1,3 @@",
+        " line1",
+        "-line2",
+        "+changed",
+        " line3",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should format a created file", () => {
+    const diff = formatUnifiedDiff({ path: "new.md", oldContent: null, newContent: "a\nb\n" });
+
+    expect(diff).toBe(
+      ["--- /dev/null", "+++ b/new.md", "@@ -0,0 +1,2 @@", "+a", "+b", ""].join("\n"),
+    );
+  });
+
+  it("should format a deleted file", () => {
+    const diff = formatUnifiedDiff({ path: "old.md", oldContent: "a\n", newContent: null });
+
+    expect(diff).toBe(["--- a/old.md", "+++ /dev/null", "@@ -1 +0,0 @@", "-a", ""].join("\n"));
+  });
+
+  it("should mark lines without a trailing newline", () => {
+    const diff = formatUnifiedDiff({ path: "a.md", oldContent: "a", newContent: "a\n" });
+
+    expect(diff).toBe(
+      [
+        "--- a/a.md",
+        "+++ b/a.md",
+        "@@ -1 +1 @@",
+        "-a",
+        "\\ No newline at end of file",
+        "+a",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should split distant changes into separate hunks", () => {
+    const oldLines = Array.from({ length: 20 }, (_, i) => `line${i + 1}`);
+    const newLines = [...oldLines];
+    newLines[1] = "changed2";
+    newLines[17] = "changed18";
+
+    const diff = formatUnifiedDiff({
+      path: "a.md",
+      oldContent: `${oldLines.join("\n")}\n`,
+      newContent: `${newLines.join("\n")}\n`,
+    });
+
+    const hunkHeaders = diff.split("\n").filter((line) => line.startsWith("@@"));
+    expect(hunkHeaders).toEqual(["@@ -1,5 +1,5 @@", "@@ -15,6 +15,6 @@"]);
+  });
+
+  it("should normalize backslashes in paths", () => {
+    const diff = formatUnifiedDiff({
+      path: ".claude\\CLAUDE.md",
+      oldContent: "a\n",
+      newContent: "b\n",
+    });
+
+    expect(diff.startsWith("--- a/.claude/CLAUDE.md\n+++ b/.claude/CLAUDE.md\n")).toBe(true);
+  });
+});
+
+describe("formatUnifiedDiffs", () => {
+  it("should concatenate diffs and skip unchanged files", () => {
+    const diff = formatUnifiedDiffs([
+      { path: "a.md", oldContent: null, newContent: "a\n" },
+      { path: "b.md", oldContent: "b\n", newContent: "b\n" },
+      { path: "c.md", oldContent: "c\n", newContent: null },
+    ]);
+
+    expect(diff).toBe(
+      [
+        "--- /dev/null",
+        "+++ b/a.md",
+        "@@ -0,0 +1 @@",
+        "+a",
+        "--- a/c.md",
+        "+++ /dev/null",
+        "@@ -1 +0,0 @@",
+        "-c",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should return an empty string for no changes", () => {
+    expect(formatUnifiedDiffs([])).toBe("");
+  });
+});
+
+describe("parseUnifiedDiff and applyFilePatch", () => {
+  const longContent = Array.from({ length: 20 }, (_, i) => `line${i + 1}\n`).join("");
+
+  it.each([
+    { name: "a modified line", oldContent: "a\nb\nc\n", newContent: "a\nchanged\nc\n" },
+    { name: "a created file", oldContent: null, newContent: "a\nb\n" },
+    { name: "a deleted file", oldContent: "a\nb\n", newContent: null },
+    { name: "a missing trailing newline", oldContent: "a\nb", newContent: "a\nc" },
+    {
+      name: "distant changes",
+      oldContent: longContent,
+      newContent: longContent.replace("line2\n", "two\n").replace("line19\n", ""),
+    },
+  ])("should round-trip $name", ({ oldContent, newContent }) => {
+    const patches = parseUnifiedDiff(formatUnifiedDiff({ path: "a.md", oldContent, newContent }));
+
+    expect(patches).toHaveLength(1);
+    expect(applyFilePatch(oldContent, patches[0]!)).toBe(newContent);
+  });
+
+  it("should parse git diff headers and strip path prefixes", () => {
+    const patches = parseUnifiedDiff(
+      [
+        "diff --git a/SKILL.md b/SKILL.md",
+        "index 1234567..89abcde 100644",
+        "--- a/SKILL.md",
+        "+++ b/SKILL.md",
+        "@@ -1 +1 @@",
+        "-old",
+        "+new",
+        "diff --git a/scripts/run.sh b/scripts/run.sh",
+        "--- a/scripts/run.sh\t2024-01-01 00:00:00",
+        "+++ b/scripts/run.sh\t2024-01-01 00:00:00",
+        "@@ -1 +1,2 @@",
+        " echo hi",
+        "+echo bye",
+        "",
+      ].join("\n"),
+    );
+
+    expect(patches.map((patch) => [patch.oldPath, patch.newPath])).toEqual([
+      ["SKILL.md", "SKILL.md"],
+      ["scripts/run.sh", "scripts/run.sh"],
+    ]);
+    expect(applyFilePatch("echo hi\n", patches[1]!)).toBe("echo hi\necho bye\n");
+  });
+
+  it("should apply hunks that moved", () => {
+    const [patch] = parseUnifiedDiff(
+      formatUnifiedDiff({ path: "a.md", oldContent: "a\nb\nc\n", newContent: "a\nB\nc\n" }),
+    );
+
+    expect(applyFilePatch("intro\n\na\nb\nc\n", patch!)).toBe("intro\n\na\nB\nc\n");
+  });
+
+  it("should throw when a hunk does not match", () => {
+    const [patch] = parseUnifiedDiff(
+      formatUnifiedDiff({ path: "a.md", oldContent: "a\nb\nc\n", newContent: "a\nB\nc\n" }),
+    );
+
+    expect(() => applyFilePatch("a\nx\nc\n", patch!)).toThrow(
+      "hunk 1 (@@ -1,3 +1,3 @@) does not match",
+    );
+  });
+
+  it("should throw when the patched file does or does not exist as expected", () => {
+    const [create] = parseUnifiedDiff(
+      formatUnifiedDiff({ path: "a.md", oldContent: null, newContent: "a\n" }),
+    );
+    const [modify] = parseUnifiedDiff(
+      formatUnifiedDiff({ path: "a.md", oldContent: "a\n", newContent: "b\n" }),
+    );
+
+    expect(() => applyFilePatch("a\n", create!)).toThrow("already exists");
+    expect(() => applyFilePatch(null, modify!)).toThrow("does not exist");
+  });
+
+  it("should throw for truncated hunks", () => {
+    expect(() => parseUnifiedDiff("--- a/a.md\n+++ b/a.md\n@@ -1,2 +1,2 @@\n a\n")).toThrow(
+      'Hunk "@@ -1,2 +1,2 @@" ends before all its lines were read',
+    );
+  });
+});
@@ -0,0 +1,435 @@
+import type { FileChange } from "./result.js";
+
+/** Number of unchanged lines shown around each change, same as `git diff`. */
+const DEFAULT_CONTEXT_LINES = 3;
+
+export type DiffOp = {
+  type: "equal" | "delete" | "insert";
+  line: string;
+};
+
+/**
+ * Split content into lines, keeping the line terminators so that a missing
+ * trailing newline is detected as a change.
+ */
+export function splitLines(content: string | null): string[] {
+  if (!content) {
+    return [];
+  }
+  return content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+type Point = { x: number; y: number };
+
+/** The part of the old (x) and new (y) lines that is being compared. */
+type Box = { left: number; top: number; right: number; bottom: number };
+
+/**
+ * Compute the shortest edit script between two line arrays using the linear space variant of
+ * Myers' O(ND) algorithm, so that large files can be compared without keeping every step.
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  diffBox({
+    a: oldLines,
+    b: newLines,
+    box: { left: 0, top: 0, right: oldLines.length, bottom: newLines.length },
+    ops,
+  });
+  return ops;
+}
+
+function diffBox(params: { a: string[]; b: string[]; box: Box; ops: DiffOp[] }): void {
+  const { a, b, box, ops } = params;
+  let { left, top, right, bottom } = box;
+
+  // Trim the common prefix and suffix to keep the search space small
+  while (left < right && top < bottom && a[left] === b[top]) {
+    ops.push({ type: "equal", line: a[left] ?? "" });
+    left++;
+    top++;
+  }
+  let suffix = 0;
+  while (
+    left < right - suffix &&
+    top < bottom - suffix &&
+    a[right - 1 - suffix] === b[bottom - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  right -= suffix;
+  bottom -= suffix;
+
+  if (left === right) {
+    // Pure insertion, such as a created file
+    for (let y = top; y < bottom; y++) {
+      ops.push({ type: "insert", line: b[y] ?? "" });
+    }
+  } else if (top === bottom) {
+    // Pure deletion, such as a deleted file
+    for (let x = left; x < right; x++) {
+      ops.push({ type: "delete", line: a[x] ?? "" });
+    }
+  } else {
+    const [start, end] = findMiddleSnake({ a, b, box: { left, top, right, bottom } });
+    diffBox({ a, b, box: { left, top, right: start.x, bottom: start.y }, ops });
+    walkSnake({ a, b, start, end, ops });
+    diffBox({ a, b, box: { left: end.x, top: end.y, right, bottom }, ops });
+  }
+
+  for (let x = right; x < right + suffix; x++) {
+    ops.push({ type: "equal", line: a[x] ?? "" });
+  }
+}
+
+/**
+ * Find the middle snake of the shortest edit script of the box: an edit of at most one line
+ * followed or preceded by unchanged lines, found by searching from both corners until the
+ * searches meet.
+ */
+function findMiddleSnake(params: { a: string[]; b: string[]; box: Box }): [Point, Point] {
+  const { a, b, box } = params;
+  const delta = box.right - box.left - (box.bottom - box.top);
+  const max = Math.ceil((box.right - box.left + box.bottom - box.top) / 2);
+  const offset = max + 1;
+
+  // vf[k + offset] holds the furthest x reached on diagonal k from the top left corner,
+  // vb[c + offset] the furthest y reached on diagonal c from the bottom right corner
+  const vf = Array.from<number>({ length: 2 * max + 3 }).fill(0);
+  const vb = Array.from<number>({ length: 2 * max + 3 }).fill(0);
+  vf[1 + offset] = box.left;
+  vb[1 + offset] = box.bottom;
+  const at = (v: number[], index: number): number => v[index + offset] ?? 0;
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = d; k >= -d; k -= 2) {
+      const down = k === -d || (k !== d && at(vf, k - 1) < at(vf, k + 1));
+      const px = down ? at(vf, k + 1) : at(vf, k - 1);
+      let x = down ? px : px + 1;
+      let y = box.top + (x - box.left) - k;
+      const py = d === 0 || !down ? y : y - 1;
+      while (x < box.right && y < box.bottom && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      vf[k + offset] = x;
+      const c = k - delta;
+      if (delta % 2 !== 0 && c >= -(d - 1) && c <= d - 1 && y >= at(vb, c)) {
+        return [
+          { x: px, y: py },
+          { x, y },
+        ];
+      }
+    }
+
+    for (let c = d; c >= -d; c -= 2) {
+      const up = c === -d || (c !== d && at(vb, c - 1) > at(vb, c + 1));
+      const py = up ? at(vb, c + 1) : at(vb, c - 1);
+      let y = up ? py : py - 1;
+      const k = c + delta;
+      let x = box.left + (y - box.top) + k;
+      const px = d === 0 || !up ? x : x + 1;
+      while (x > box.left && y > box.top && a[x - 1] === b[y - 1]) {
+        x--;
+        y--;
+      }
+      vb[c + offset] = y;
+      if (delta % 2 === 0 && k >= -d && k <= d && x <= at(vf, k)) {
+        return [
+          { x, y },
+          { x: px, y: py },
+        ];
+      }
+    }
+  }
+
+  throw new Error("The forward and backward searches of the diff did not meet");
+}
+
+/**
+ * Add the edits of a middle snake: unchanged lines around at most one inserted or deleted line.
+ */
+function walkSnake(params: {
+  a: string[];
+  b: string[];
+  start: Point;
+  end: Point;
+  ops: DiffOp[];
+}): void {
+  const { a, b, start, end, ops } = params;
+  let { x, y } = start;
+  while (x < end.x && y < end.y && a[x] === b[y]) {
+    ops.push({ type: "equal", line: a[x] ?? "" });
+    x++;
+    y++;
+  }
+  if (end.x - x > end.y - y) {
+    ops.push({ type: "delete", line: a[x] ?? "" });
+    x++;
+  } else if (end.x - x < end.y - y) {
+    ops.push({ type: "insert", line: b[y] ?? "" });
+    y++;
+  }
+  while (x < end.x && y < end.y) {
+    ops.push({ type: "equal", line: a[x] ?? "" });
+    x++;
+    y++;
+  }
+}
+
+function formatRange(start: number, count: number): string {
+  if (count === 1) {
+    return `${start}`;
+  }
+  // An empty range points at the line before the change
+  return count === 0 ? `${start - 1},0` : `${start},${count}`;
+}
+
+function formatLine(prefix: string, line: string): string {
+  if (line.endsWith("\n")) {
+    return `${prefix}${line}`;
+  }
+  return `${prefix}${line}\n\\ No newline at end of file\n`;
+}
+
+/**
+ * Create a unified diff (as produced by `git diff`) for a single file change.
+ * Returns an empty string when the contents are identical.
+ *
+ * @example
+ * formatUnifiedDiff({ path: "CLAUDE.md", oldContent: "a\n", newContent: "b\n" });
+ * // --- a/CLAUDE.md
+ * // +++ b/CLAUDE.md
+ * // @@ -1 +1 @@
+ * // -a
+ * // +b
+ */
+export function formatUnifiedDiff(
+  change: FileChange,
+  { context = DEFAULT_CONTEXT_LINES }: { context?: number } = {},
+): string {
+  const ops = diffLines(splitLines(change.oldContent), splitLines(change.newContent));
+  const changedIndexes = ops.flatMap((op, i) => (op.type === "equal" ? [] : [i]));
+  if (changedIndexes.length === 0) {
+    return "";
+  }
+
+  const path = change.path.replaceAll("\\", "/");
+  const lines: string[] = [
+    change.oldContent === null ? "--- /dev/null\n" : `--- a/${path}\n`,
+    change.newContent === null ? "+++ /dev/null\n" : `+++ b/${path}\n`,
+  ];
+
+  // Group changes into hunks, merging those separated by at most 2 * context unchanged lines
+  const hunks: Array<{ start: number; end: number }> = [];
+  for (const index of changedIndexes) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(ops.length, index + context + 1);
+    const last = hunks.at(-1);
+    if (last && start <= last.end) {
+      last.end = end;
+    } else {
+      hunks.push({ start, end });
+    }
+  }
+
+  // Line numbers (1-based) of the first op in the old and new files
+  let oldLineNumber = 1;
+  let newLineNumber = 1;
+  let cursor = 0;
+  for (const hunk of hunks) {
+    for (; cursor < hunk.start; cursor++) {
+      const op = ops[cursor];
+      if (op?.type !== "insert") oldLineNumber++;
+      if (op?.type !== "delete") newLineNumber++;
+    }
+
+    const hunkOps = ops.slice(hunk.start, hunk.end);
+    const oldCount = hunkOps.filter((op) => op.type !== "insert").length;
+    const newCount = hunkOps.filter((op) => op.type !== "delete").length;
+    lines.push(
+      `@@ -${formatRange(oldLineNumber, oldCount)} +${formatRange(newLineNumber, newCount)} @@\n`,
+    );
+    for (const op of hunkOps) {
+      const prefix = op.type === "equal" ? " " : op.type === "delete" ? "-" : "+";
+      lines.push(formatLine(prefix, op.line));
+    }
+  }
+
+  return lines.join("");
+}
+
+/**
+ * Create a unified diff for multiple file changes, concatenated in the given order.
+ */
+export function formatUnifiedDiffs(changes: FileChange[]): string {
+  return changes.map((change) => formatUnifiedDiff(change)).join("");
+}
+
+/**
+ * The changes to a single file in a unified diff.
+ */
+export type FilePatch = {
+  /** Path before the change, without the `a/` prefix, or null if the patch creates the file. */
+  oldPath: string | null;
+  /** Path after the change, without the `b/` prefix, or null if the patch deletes the file. */
+  newPath: string | null;
+  hunks: PatchHunk[];
+};
+
+type PatchHunk = {
+  header: string;
+  /** 1-based line of the old file the hunk starts at (the line before it for an empty range). */
+  oldStart: number;
+  ops: DiffOp[];
+};
+
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+function parsePatchPath(line: string, prefix: string): string | null {
+  // Drop the optional timestamp after a tab, as written by `diff -u`
+  const path = line.slice(4).replace(/\n$/, "").split("\t")[0]?.trim() ?? "";
+  if (path === "/dev/null") {
+    return null;
+  }
+  return path.startsWith(prefix) ? path.slice(prefix.length) : path;
+}
+
+/**
+ * Parse a unified diff, as produced by `git diff` or `diff -u`, into per-file patches.
+ * Lines outside of the file headers and hunks (such as `diff --git` or `index` lines) are ignored.
+ */
+export function parseUnifiedDiff(diff: string): FilePatch[] {
+  const lines = splitLines(diff);
+  const patches: FilePatch[] = [];
+  let current: FilePatch | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i] ?? "";
+    if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      current = {
+        oldPath: parsePatchPath(line, "a/"),
+        newPath: parsePatchPath(lines[i + 1] ?? "", "b/"),
+        hunks: [],
+      };
+      patches.push(current);
+      i++;
+      continue;
+    }
+
+    const match = HUNK_HEADER_PATTERN.exec(line);
+    if (!match) {
+      continue;
+    }
+    if (!current) {
+      throw new Error(`Hunk "${line.trim()}" is not preceded by file headers`);
+    }
+
+    const hunk: PatchHunk = { header: line.trim(), oldStart: Number(match[1]), ops: [] };
+    let oldRemaining = match[2] === undefined ? 1 : Number(match[2]);
+    let newRemaining = match[4] === undefined ? 1 : Number(match[4]);
+    while (oldRemaining > 0 || newRemaining > 0) {
+      i++;
+      const hunkLine = lines[i];
+      if (hunkLine === undefined) {
+        throw new Error(`Hunk "${hunk.header}" ends before all its lines were read`);
+      }
+      if (hunkLine.startsWith("\\")) {
+        stripLastLineTerminator(hunk.ops);
+        continue;
+      }
+      // Some editors strip the space of empty context lines
+      const marker = hunkLine === "\n" ? " " : hunkLine[0];
+      const content = hunkLine === "\n" ? "\n" : hunkLine.slice(1);
+      if (marker === " " && oldRemaining > 0 && newRemaining > 0) {
+        hunk.ops.push({ type: "equal", line: content });
+        oldRemaining--;
+        newRemaining--;
+      } else if (marker === "-" && oldRemaining > 0) {
+        hunk.ops.push({ type: "delete", line: content });
+        oldRemaining--;
+      } else if (marker === "+" && newRemaining > 0) {
+        hunk.ops.push({ type: "insert", line: content });
+        newRemaining--;
+      } else {
+        throw new Error(`Unexpected line in hunk "${hunk.header}": ${hunkLine.trimEnd()}`);
+      }
+    }
+    // A marker for the last line of the hunk follows it
+    if (lines[i + 1]?.startsWith("\\")) {
+      stripLastLineTerminator(hunk.ops);
+      i++;
+    }
+    current.hunks.push(hunk);
+  }
+
+  return patches;
+}
+
+function stripLastLineTerminator(ops: DiffOp[]): void {
+  const last = ops.at(-1);
+  if (last) {
+    last.line = last.line.replace(/\n$/, "");
+  }
+}
+
+/**
+ * Apply a file patch to the content of the file, or null if the file does not exist.
+ * Returns null when the patch deletes the file. Each hunk must match the file exactly, but may
+ * have moved up or down, as with `git apply`. Throws when a hunk does not match.
+ */
+export function applyFilePatch(content: string | null, patch: FilePatch): string | null {
+  if (patch.oldPath === null && content !== null) {
+    throw new Error("the patch creates a file that already exists");
+  }
+  if (patch.oldPath !== null && content === null) {
+    throw new Error("the file to patch does not exist");
+  }
+
+  const oldLines = splitLines(content);
+  const result: string[] = [];
+  let cursor = 0;
+  for (const [index, hunk] of patch.hunks.entries()) {
+    const expected = hunk.ops.filter((op) => op.type !== "insert").map((op) => op.line);
+    const position = findHunkPosition({
+      lines: oldLines,
+      expected,
+      // An empty range starts after the given line
+      preferred: expected.length === 0 ? hunk.oldStart : hunk.oldStart - 1,
+      min: cursor,
+    });
+    if (position === undefined) {
+      throw new Error(`hunk ${index + 1} (${hunk.header}) does not match`);
+    }
+    result.push(...oldLines.slice(cursor, position));
+    result.push(...hunk.ops.filter((op) => op.type !== "delete").map((op) => op.line));
+    cursor = position + expected.length;
+  }
+  result.push(...oldLines.slice(cursor));
+
+  return patch.newPath === null ? null : result.join("");
+}
+
+/**
+ * Find where `expected` occurs in `lines` at or after `min`, closest to `preferred`.
+ */
+function findHunkPosition(params: {
+  lines: string[];
+  expected: string[];
+  preferred: number;
+  min: number;
+}): number | undefined {
+  const { lines, expected, preferred, min } = params;
+  const max = lines.length - expected.length;
+  const matchesAt = (position: number): boolean =>
+    expected.every((line, i) => lines[position + i] === line);
+
+  for (let offset = 0; preferred - offset >= min || preferred + offset <= max; offset++) {
+    for (const position of offset === 0 ? [preferred] : [preferred - offset, preferred + offset]) {
+      if (position >= min && position <= max && matchesAt(position)) {
+        return position;
+      }
+    }
+  }
+  return undefined;
+}
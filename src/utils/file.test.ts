@@ -1,3 +1,4 @@
+import { symlink } from "node:fs/promises";
 import { join, resolve } from "node:path";
 
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
@@ -10,6 +11,7 @@ import { setupTestDirectory } from "../test-utils/test-directories.js";
 import {
   addTrailingNewline,
   checkPathTraversal,
+  checkRealPathTraversal,
   createPathResolver,
   directoryExists,
   ensureDir,
@@ -833,4 +835,30 @@ describe("file utilities", () => {
       ).toThrow("Path traversal detected");
     });
   });
+
+  describe("checkRealPathTraversal", () => {
+    it("should allow files inside the root", async () => {
+      await writeFileContent(join(testDir, "root", "sub", "foo.md"), "foo");
+
+      await expect(
+        checkRealPathTraversal({
+          filePath: join(testDir, "root", "sub", "foo.md"),
+          intendedRootDir: join(testDir, "root"),
+        }),
+      ).resolves.toBeUndefined();
+    });
+
+    it("should reject symlinks that point outside the root", async () => {
+      await writeFileContent(join(testDir, "secret.md"), "secret");
+      await ensureDir(join(testDir, "root"));
+      await symlink(join(testDir, "secret.md"), join(testDir, "root", "link.md"));
+
+      await expect(
+        checkRealPathTraversal({
+          filePath: join(testDir, "root", "link.md"),
+          intendedRootDir: join(testDir, "root"),
+        }),
+      ).rejects.toThrow("Path traversal detected");
+    });
+  });
 });
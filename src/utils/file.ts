@@ -1,6 +1,18 @@
-import { lstat, mkdir, mkdtemp, readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { watch } from "node:fs";
+import {
+  lstat,
+  mkdir,
+  mkdtemp,
+  readdir,
+  readFile,
+  realpath,
+  rm,
+  stat,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
 import os from "node:os";
-import { dirname, join, relative, resolve } from "node:path";
+import { dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
 
 import { kebabCase } from "es-toolkit";
 import { globbySync } from "globby";
@@ -50,6 +62,27 @@ export function checkPathTraversal({
   }
 }
 
+/**
+ * Check that an existing file stays inside a root directory once symlinks are followed.
+ * `checkPathTraversal` only checks the path, so a symlink inside the root could point outside it.
+ */
+export async function checkRealPathTraversal({
+  filePath,
+  intendedRootDir,
+}: {
+  filePath: string;
+  intendedRootDir: string;
+}): Promise<void> {
+  const [realFilePath, realRootDir] = await Promise.all([
+    realpath(filePath),
+    realpath(intendedRootDir),
+  ]);
+  const rel = relative(realRootDir, realFilePath);
+  if (rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+    throw new Error(`Path traversal detected: ${filePath} resolves to ${realFilePath}`);
+  }
+}
+
 /**
  * Resolves a path relative to a base directory, handling both absolute and relative paths
  * Includes protection against path traversal attacks
@@ -175,6 +208,25 @@ export async function getFileSize(filepath: string): Promise<number> {
   }
 }
 
+export async function getFileModifiedTime(filepath: string): Promise<Date> {
+  try {
+    const stats = await stat(filepath);
+    return stats.mtime;
+  } catch (error) {
+    throw new Error(`Failed to get modification time for "${filepath}": ${formatError(error)}`, {
+      cause: error,
+    });
+  }
+}
+
+/**
+ * Set the access and modification times of a file to now.
+ */
+export async function touchFile(filepath: string): Promise<void> {
+  const now = new Date();
+  await utimes(filepath, now, now);
+}
+
 export async function isSymlink(filepath: string): Promise<boolean> {
   try {
     const stats = await lstat(filepath);
@@ -334,3 +386,28 @@ export async function removeTempDirectory(tempDir: string): Promise<void> {
     logger.debug(`Failed to clean up temp directory: ${tempDir}`);
   }
 }
+
+/**
+ * Watch a directory for changes and call the listener with the path of each changed entry,
+ * relative to the directory. Returns a function that stops watching.
+ */
+export function watchDirectory({
+  dirPath,
+  recursive = false,
+  onChange,
+}: {
+  dirPath: string;
+  recursive?: boolean;
+  onChange: (relativePath: string) => void;
+}): () => void {
+  logger.debug(`Watching directory: ${dirPath}`);
+  const watcher = watch(dirPath, { recursive }, (_eventType, filename) => {
+    if (filename) {
+      onChange(filename.toString());
+    }
+  });
+  watcher.on("error", (error) => {
+    logger.warn(`Failed to watch ${dirPath}: ${formatError(error)}`);
+  });
+  return () => watcher.close();
+}
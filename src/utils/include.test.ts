@@ -0,0 +1,79 @@
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { setupTestDirectory } from "../test-utils/test-directories.js";
+import { writeFileContent } from "./file.js";
+import { resolveIncludes } from "./include.js";
+
+describe("resolveIncludes", () => {
+  let testDir: string;
+  let cleanup: () => Promise<void>;
+
+  const writePartial = (relativePath: string, content: string) =>
+    writeFileContent(join(testDir, ".rulesync", relativePath), content);
+
+  const resolve = (content: string) =>
+    resolveIncludes({ content, baseDir: testDir, filePath: join(".rulesync", "rules", "a.md") });
+
+  beforeEach(async () => {
+    ({ testDir, cleanup } = await setupTestDirectory());
+    vi.spyOn(process, "cwd").mockReturnValue(testDir);
+  });
+
+  afterEach(async () => {
+    await cleanup();
+    vi.restoreAllMocks();
+  });
+
+  it("should return content without directives unchanged", async () => {
+    expect(await resolve("# Rule\n\nNo includes here.")).toBe("# Rule\n\nNo includes here.");
+  });
+
+  it("should replace directive lines with the included files relative to .rulesync", async () => {
+    await writePartial("partials/testing.md", "Write tests first.\n");
+    await writePartial("partials/commits.md", "Use conventional commits.");
+
+    expect(
+      await resolve(
+        "# Rule\n\n@include ./partials/testing.md\n  @include partials/commits.md\nDone",
+      ),
+    ).toBe("# Rule\n\nWrite tests first.\nUse conventional commits.\nDone");
+  });
+
+  it("should resolve nested includes", async () => {
+    await writePartial("partials/all.md", "All:\n@include ./partials/testing.md");
+    await writePartial("partials/testing.md", "Write tests first.");
+
+    expect(await resolve("@include ./partials/all.md")).toBe("All:\nWrite tests first.");
+  });
+
+  it("should keep directives that are not on their own line or are in code blocks", async () => {
+    const content =
+      "Use `@include ./partials/x.md` to include.\n```md\n@include ./partials/x.md\n```";
+
+    expect(await resolve(content)).toBe(content);
+  });
+
+  it("should detect circular includes", async () => {
+    await writePartial("partials/a.md", "@include ./partials/b.md");
+    await writePartial("partials/b.md", "@include partials/a.md");
+
+    await expect(resolve("@include ./partials/a.md")).rejects.toThrow(
+      `Circular @include detected: ${join(".rulesync", "rules", "a.md")} -> ${join(".rulesync", "partials", "a.md")} -> ${join(".rulesync", "partials", "b.md")} -> ${join(".rulesync", "partials", "a.md")}`,
+    );
+  });
+
+  it("should reject paths outside .rulesync", async () => {
+    await expect(resolve("@include ../secrets.md")).rejects.toThrow(
+      `Failed to resolve includes in ${join(".rulesync", "rules", "a.md")}: Path traversal detected: ../secrets.md`,
+    );
+    await expect(resolve("@include /etc/passwd")).rejects.toThrow("Path traversal detected");
+  });
+
+  it("should fail for missing files", async () => {
+    await expect(resolve("@include ./partials/missing.md")).rejects.toThrow(
+      `Included file ${join(".rulesync", "partials", "missing.md")} does not exist`,
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import { join, normalize } from "node:path";
+
+import { RULESYNC_RELATIVE_DIR_PATH } from "../constants/rulesync-paths.js";
+import { checkPathTraversal, checkRealPathTraversal, fileExists, readFileContent } from "./file.js";
+
+/**
+ * Matches an `@include <path>` directive on a line of its own.
+ */
+const INCLUDE_PATTERN = /^[ \t]*@include[ \t]+(\S+)[ \t]*\r?$/;
+
+const FENCE_PATTERN = /^[ \t]*(```|~~~)/;
+
+/**
+ * Replace `@include <path>` lines in a rule body with the contents of the included files.
+ * Paths are resolved relative to `.rulesync/` and must stay inside it, also once symlinks are
+ * followed. Included files can include other files; circular includes are reported. Directives
+ * inside fenced code blocks are kept as they are.
+ */
+export async function resolveIncludes({
+  content,
+  baseDir = process.cwd(),
+  filePath,
+}: {
+  content: string;
+  baseDir?: string;
+  filePath: string;
+}): Promise<string> {
+  if (!content.includes("@include")) {
+    return content;
+  }
+  try {
+    return await expandIncludes({ content, baseDir, chain: [filePath] });
+  } catch (error) {
+    throw new Error(
+      `Failed to resolve includes in ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error },
+    );
+  }
+}
+
+async function expandIncludes({
+  content,
+  baseDir,
+  chain,
+}: {
+  content: string;
+  baseDir: string;
+  chain: string[];
+}): Promise<string> {
+  const rulesyncDir = join(baseDir, RULESYNC_RELATIVE_DIR_PATH);
+  const lines: string[] = [];
+  let inFence = false;
+
+  for (const line of content.split("\n")) {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+    }
+    const includePath = inFence ? undefined : INCLUDE_PATTERN.exec(line)?.[1];
+    if (includePath === undefined) {
+      lines.push(line);
+      continue;
+    }
+
+    checkPathTraversal({ relativePath: includePath, intendedRootDir: rulesyncDir });
+    const relativePath = join(RULESYNC_RELATIVE_DIR_PATH, normalize(includePath));
+    if (chain.includes(relativePath)) {
+      throw new Error(`Circular @include detected: ${[...chain, relativePath].join(" -> ")}`);
+    }
+    const absolutePath = join(baseDir, relativePath);
+    if (!(await fileExists(absolutePath))) {
+      throw new Error(`Included file ${relativePath} does not exist`);
+    }
+    await checkRealPathTraversal({ filePath: absolutePath, intendedRootDir: rulesyncDir });
+
+    const included = await readFileContent(absolutePath);
+    lines.push(
+      await expandIncludes({
+        content: included.replace(/\r?\n$/, ""),
+        baseDir,
+        chain: [...chain, relativePath],
+      }),
+    );
+  }
+  return lines.join("\n");
+}
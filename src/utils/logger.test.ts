@@ -10,6 +10,7 @@ vi.mock("consola", () => {
     warn: vi.fn(),
     error: vi.fn(),
     withDefaults: vi.fn(() => mockConsola),
+    create: vi.fn(() => mockConsola),
   };
   return { consola: mockConsola };
 });
@@ -6,17 +6,35 @@ import { isEnvTest } from "./vitest.js";
 class Logger {
   private _verbose = false;
   private _silent = false;
-  private console = consola.withDefaults({
+  private _stderr = false;
+  private stdoutConsole = consola.withDefaults({
     tag: "rulesync",
   });
+  private stderrConsole = consola.create({ stdout: process.stderr }).withDefaults({
+    tag: "rulesync",
+  });
+
+  private get console() {
+    return this._stderr ? this.stderrConsole : this.stdoutConsole;
+  }
 
   /**
    * Configure logger with verbose and silent mode settings.
    * Handles conflicting flags where silent takes precedence.
    * @param verbose - Enable verbose logging
    * @param silent - Enable silent mode (suppresses all output except errors)
+   * @param stderr - Write all logs to stderr, keeping stdout for the output of `print`
    */
-  configure({ verbose, silent }: { verbose: boolean; silent: boolean }): void {
+  configure({
+    verbose,
+    silent,
+    stderr = false,
+  }: {
+    verbose: boolean;
+    silent: boolean;
+    stderr?: boolean;
+  }): void {
+    this._stderr = stderr;
     if (verbose && silent) {
       // Temporarily disable silent to show this warning
       this._silent = false;
@@ -57,6 +75,12 @@ class Logger {
     this.console.error(message, ...args);
   }
 
+  // Raw output without prefix, for content meant to be copied or piped (always shown unless silent)
+  print(message: string): void {
+    if (isEnvTest() || this._silent) return;
+    process.stdout.write(message.endsWith("\n") ? message : `${message}\n`);
+  }
+
   // Debug level (shown only in verbose mode)
   debug(message: string, ...args: unknown[]): void {
     if (isEnvTest() || this._silent) return;
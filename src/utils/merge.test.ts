@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+
+import { mergeMarkdown, mergeText } from "./merge.js";
+
+describe("mergeText", () => {
+  it("should take the side that changed", () => {
+    expect(mergeText({ base: "a\n", local: "a\n", upstream: "b\n" })).toEqual({
+      content: "b\n",
+      conflicted: false,
+    });
+    expect(mergeText({ base: "a\n", local: "b\n", upstream: "a\n" })).toEqual({
+      content: "b\n",
+      conflicted: false,
+    });
+  });
+
+  it("should combine changes to different lines", () => {
+    const result = mergeText({
+      base: "one\ntwo\nthree\nfour\n",
+      local: "ONE\ntwo\nthree\nfour\n",
+      upstream: "one\ntwo\nthree\nfour\nfive\n",
+    });
+
+    expect(result).toEqual({ content: "ONE\ntwo\nthree\nfour\nfive\n", conflicted: false });
+  });
+
+  it("should accept the same change made on both sides", () => {
+    const result = mergeText({
+      base: "one\ntwo\nthree\n",
+      local: "one\n2\nthree\nlocal\n",
+      upstream: "one\n2\nthree\n",
+    });
+
+    expect(result).toEqual({ content: "one\n2\nthree\nlocal\n", conflicted: false });
+  });
+
+  it("should mark overlapping changes as a conflict", () => {
+    const result = mergeText({
+      base: "one\ntwo\nthree",
+      local: "one\nlocal\nthree",
+      upstream: "one\nupstream\nthree",
+    });
+
+    expect(result).toEqual({
+      content: "one\n<<<<<<< local\nlocal\n=======\nupstream\n>>>>>>> upstream\nthree",
+      conflicted: true,
+    });
+  });
+
+  it("should add a newline before a marker following a last line without one", () => {
+    const result = mergeText({ base: "a\nb", local: "a\nc", upstream: "a\nd" });
+
+    expect(result).toEqual({
+      content: "a\n<<<<<<< local\nc\n=======\nd\n>>>>>>> upstream\n",
+      conflicted: true,
+    });
+  });
+
+  it("should conflict on the whole file without a common ancestor", () => {
+    expect(mergeText({ base: null, local: "a\n", upstream: "b\n" })).toEqual({
+      content: "<<<<<<< local\na\n=======\nb\n>>>>>>> upstream\n",
+      conflicted: true,
+    });
+  });
+});
+
+describe("mergeMarkdown", () => {
+  it("should merge frontmatter keys and body lines separately", () => {
+    const result = mergeMarkdown({
+      base: "---\ndescription: a\ntargets: ['*']\n---\nbody\n",
+      local: "---\ndescription: local\ntargets: ['*']\n---\nbody\nlocal\n",
+      upstream: "---\ndescription: a\ntargets: ['claudecode']\n---\nupstream\nbody\n",
+    });
+
+    expect(result).toEqual({
+      content: "---\ndescription: local\ntargets:\n  - claudecode\n---\nupstream\nbody\nlocal\n",
+      conflicted: false,
+    });
+  });
+
+  it("should keep the local frontmatter as written when upstream did not change it", () => {
+    const result = mergeMarkdown({
+      base: "---\ntargets: ['*']\n---\nbody\n",
+      local: "---\ntargets: ['*'] # all tools\n---\nbody\n",
+      upstream: "---\ntargets: ['*']\n---\nbody\nmore\n",
+    });
+
+    expect(result).toEqual({
+      content: "---\ntargets: ['*'] # all tools\n---\nbody\nmore\n",
+      conflicted: false,
+    });
+  });
+
+  it("should mark frontmatter keys changed on both sides as a conflict", () => {
+    const result = mergeMarkdown({
+      base: "---\ndescription: a\nroot: false\n---\nbody\n",
+      local: "---\ndescription: local\nroot: false\n---\nbody\n",
+      upstream: "---\ndescription: upstream\nroot: true\n---\nbody\n",
+    });
+
+    expect(result).toEqual({
+      content:
+        "---\nroot: true\n<<<<<<< local\ndescription: local\n=======\ndescription: upstream\n>>>>>>> upstream\n---\nbody\n",
+      conflicted: true,
+    });
+  });
+
+  it("should fall back to a line merge when frontmatter is invalid", () => {
+    const result = mergeMarkdown({
+      base: "---\na: [\n---\nbody\n",
+      local: "---\na: [\n---\nlocal\n",
+      upstream: "---\nb: [\n---\nbody\n",
+    });
+
+    expect(result).toEqual({ content: "---\nb: [\n---\nlocal\n", conflicted: false });
+  });
+});
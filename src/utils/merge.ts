@@ -0,0 +1,243 @@
+import { isEqual } from "es-toolkit";
+import { dump } from "js-yaml";
+
+import { diffLines, splitLines } from "./diff.js";
+import { parseFrontmatter } from "./frontmatter.js";
+
+const CONFLICT_MARKER_LOCAL = "<<<<<<< local";
+const CONFLICT_MARKER_SEPARATOR = "=======";
+const CONFLICT_MARKER_UPSTREAM = ">>>>>>> upstream";
+
+/**
+ * Result of a three-way merge. When `conflicted` is true, `content` holds conflict markers
+ * around each change that could not be merged.
+ */
+export type MergeResult = {
+  content: string;
+  conflicted: boolean;
+};
+
+type MergeParams = {
+  /** Content both sides started from, or null when there is no common ancestor. */
+  base: string | null;
+  local: string;
+  upstream: string;
+};
+
+/**
+ * Map each line of `base` to the index of the same line in `other`, for lines kept unchanged.
+ */
+function matchLines(base: string[], other: string[]): Map<number, number> {
+  const matches = new Map<number, number>();
+  let baseIndex = 0;
+  let otherIndex = 0;
+  for (const op of diffLines(base, other)) {
+    if (op.type === "equal") {
+      matches.set(baseIndex, otherIndex);
+    }
+    if (op.type !== "insert") {
+      baseIndex++;
+    }
+    if (op.type !== "delete") {
+      otherIndex++;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Terminate the last line so that a conflict marker after it starts on its own line.
+ */
+function withTrailingNewline(lines: string[]): string[] {
+  return lines.map((line, i) =>
+    i === lines.length - 1 && !line.endsWith("\n") ? `${line}\n` : line,
+  );
+}
+
+function pushConflict(output: string[], local: string[], upstream: string[]): void {
+  output.push(
+    `${CONFLICT_MARKER_LOCAL}\n`,
+    ...withTrailingNewline(local),
+    `${CONFLICT_MARKER_SEPARATOR}\n`,
+    ...withTrailingNewline(upstream),
+    `${CONFLICT_MARKER_UPSTREAM}\n`,
+  );
+}
+
+/**
+ * Merge the changes made to `base` on both sides line by line, like `git merge-file`.
+ * Changes to different lines are combined; overlapping changes that differ are a conflict.
+ *
+ * @example
+ * mergeText({ base: "a\nb\n", local: "A\nb\n", upstream: "a\nB\n" });
+ * // { content: "A\nB\n", conflicted: false }
+ */
+export function mergeText({ base, local, upstream }: MergeParams): MergeResult {
+  if (local === upstream || upstream === base) {
+    return { content: local, conflicted: false };
+  }
+  if (local === base) {
+    return { content: upstream, conflicted: false };
+  }
+
+  const baseLines = splitLines(base);
+  const localLines = splitLines(local);
+  const upstreamLines = splitLines(upstream);
+  const localMatches = matchLines(baseLines, localLines);
+  const upstreamMatches = matchLines(baseLines, upstreamLines);
+
+  const output: string[] = [];
+  let conflicted = false;
+  let baseStart = 0;
+  let localStart = 0;
+  let upstreamStart = 0;
+
+  // Walk the base lines kept on both sides; the hunks between them changed on at least one side
+  for (let baseIndex = 0; baseIndex <= baseLines.length; baseIndex++) {
+    const atEnd = baseIndex === baseLines.length;
+    const localIndex = atEnd ? localLines.length : localMatches.get(baseIndex);
+    const upstreamIndex = atEnd ? upstreamLines.length : upstreamMatches.get(baseIndex);
+    if (localIndex === undefined || upstreamIndex === undefined) {
+      continue;
+    }
+
+    const baseHunk = baseLines.slice(baseStart, baseIndex);
+    const localHunk = localLines.slice(localStart, localIndex);
+    const upstreamHunk = upstreamLines.slice(upstreamStart, upstreamIndex);
+    if (isEqual(localHunk, baseHunk) || isEqual(localHunk, upstreamHunk)) {
+      output.push(...upstreamHunk);
+    } else if (isEqual(upstreamHunk, baseHunk)) {
+      output.push(...localHunk);
+    } else {
+      pushConflict(output, localHunk, upstreamHunk);
+      conflicted = true;
+    }
+
+    if (!atEnd) {
+      output.push(baseLines[baseIndex] ?? "");
+    }
+    baseStart = baseIndex + 1;
+    localStart = localIndex + 1;
+    upstreamStart = upstreamIndex + 1;
+  }
+
+  return { content: output.join(""), conflicted };
+}
+
+type FrontmatterDocument = {
+  frontmatter: Record<string, unknown>;
+  /** The frontmatter block as written, including its delimiters. */
+  rawFrontmatter: string;
+  body: string;
+};
+
+function splitFrontmatterDocument(content: string): FrontmatterDocument {
+  const { frontmatter, body } = parseFrontmatter(content);
+  const rawFrontmatter = content.endsWith(body)
+    ? content.slice(0, content.length - body.length)
+    : "";
+  return { frontmatter, rawFrontmatter, body };
+}
+
+function dumpYaml(values: Record<string, unknown>): string {
+  return Object.keys(values).length > 0 ? dump(values) : "";
+}
+
+/**
+ * Merge the YAML frontmatter of three versions key by key. A key changed on one side takes that
+ * side's value; a key changed differently on both sides is a conflict.
+ */
+function mergeFrontmatter(
+  base: FrontmatterDocument | null,
+  local: FrontmatterDocument,
+  upstream: FrontmatterDocument,
+): MergeResult {
+  const merged: Record<string, unknown> = {};
+  const conflictingKeys: string[] = [];
+  const keys = new Set([
+    ...Object.keys(local.frontmatter),
+    ...Object.keys(upstream.frontmatter),
+    ...Object.keys(base?.frontmatter ?? {}),
+  ]);
+
+  for (const key of keys) {
+    const baseValue = base?.frontmatter[key];
+    const localValue = local.frontmatter[key];
+    const upstreamValue = upstream.frontmatter[key];
+    let value: unknown;
+    if (isEqual(localValue, upstreamValue) || isEqual(upstreamValue, baseValue)) {
+      value = localValue;
+    } else if (isEqual(localValue, baseValue)) {
+      value = upstreamValue;
+    } else {
+      conflictingKeys.push(key);
+      continue;
+    }
+    if (value !== undefined) {
+      merged[key] = value;
+    }
+  }
+
+  if (conflictingKeys.length === 0) {
+    // Keep the original formatting of a side when the merge did not change its frontmatter
+    if (isEqual(merged, local.frontmatter)) {
+      return { content: local.rawFrontmatter, conflicted: false };
+    }
+    if (isEqual(merged, upstream.frontmatter)) {
+      return { content: upstream.rawFrontmatter, conflicted: false };
+    }
+    const content = Object.keys(merged).length > 0 ? `---\n${dumpYaml(merged)}---\n` : "";
+    return { content, conflicted: false };
+  }
+
+  const pick = (values: Record<string, unknown>) =>
+    Object.fromEntries(
+      conflictingKeys.filter((key) => values[key] !== undefined).map((key) => [key, values[key]]),
+    );
+  const output: string[] = ["---\n", dumpYaml(merged)];
+  pushConflict(
+    output,
+    splitLines(dumpYaml(pick(local.frontmatter))),
+    splitLines(dumpYaml(pick(upstream.frontmatter))),
+  );
+  output.push("---\n");
+  return { content: output.join(""), conflicted: true };
+}
+
+/**
+ * Three-way merge of a markdown file with YAML frontmatter. The frontmatter is merged key by key
+ * and the body line by line, so that edits to different keys or paragraphs are combined.
+ * Falls back to a line merge of the whole file when a version has invalid frontmatter.
+ */
+export function mergeMarkdown({ base, local, upstream }: MergeParams): MergeResult {
+  if (local === upstream || upstream === base) {
+    return { content: local, conflicted: false };
+  }
+  if (local === base) {
+    return { content: upstream, conflicted: false };
+  }
+
+  let documents: [FrontmatterDocument | null, FrontmatterDocument, FrontmatterDocument];
+  try {
+    documents = [
+      base === null ? null : splitFrontmatterDocument(base),
+      splitFrontmatterDocument(local),
+      splitFrontmatterDocument(upstream),
+    ];
+  } catch {
+    return mergeText({ base, local, upstream });
+  }
+  const [baseDocument, localDocument, upstreamDocument] = documents;
+
+  const frontmatter = mergeFrontmatter(baseDocument, localDocument, upstreamDocument);
+  const body = mergeText({
+    base: baseDocument?.body ?? null,
+    local: localDocument.body,
+    upstream: upstreamDocument.body,
+  });
+
+  return {
+    content: frontmatter.content + body.content,
+    conflicted: frontmatter.conflicted || body.conflicted,
+  };
+}
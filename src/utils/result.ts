@@ -1,9 +1,28 @@
 /**
- * Result of writing AI files, including both count and file paths
+ * A single file change with its content before and after the operation
+ */
+export type FileChange = {
+  /**
+   * @example ".claude/CLAUDE.md"
+   */
+  path: string;
+  /**
+   * Existing content, or null if the file does not exist yet
+   */
+  oldContent: string | null;
+  /**
+   * Content after the operation, or null if the file is deleted
+   */
+  newContent: string | null;
+};
+
+/**
+ * Result of writing or removing AI files, including count, file paths and content changes
  */
 export type WriteResult = {
   count: number;
   paths: string[];
+  changes: FileChange[];
 };
 
 /**
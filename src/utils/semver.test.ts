@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+
+import { isSemverRange, isValidSemverRange, selectSemverTag } from "./semver.js";
+
+const TAGS = [
+  "v1.3.9",
+  "v1.4.0",
+  "v1.4.2",
+  "v1.5.0-beta.1",
+  "v1.5.0",
+  "v2.0.0",
+  "v2.0.1",
+  "v2.1.0",
+  "0.4.1",
+  "0.4.7",
+  "latest",
+].map((name) => ({ name }));
+
+describe("isSemverRange", () => {
+  it("should detect ranges and leave literal refs alone", () => {
+    expect(isSemverRange("^1.4")).toBe(true);
+    expect(isSemverRange("~2.0.0")).toBe(true);
+    expect(isSemverRange(">=1.2.0 <2.0.0")).toBe(true);
+    expect(isSemverRange("1.x || 2.x")).toBe(true);
+    expect(isSemverRange("v1.4.2")).toBe(false);
+    expect(isSemverRange("1.x")).toBe(false);
+    expect(isSemverRange("main")).toBe(false);
+  });
+});
+
+describe("isValidSemverRange", () => {
+  it("should reject ranges that cannot be parsed", () => {
+    expect(isValidSemverRange("^1.4")).toBe(true);
+    expect(isValidSemverRange("^main")).toBe(false);
+    expect(isValidSemverRange(">=1.0.0 ||")).toBe(false);
+  });
+});
+
+describe("selectSemverTag", () => {
+  it.each([
+    ["^1.4", "v1.5.0"],
+    ["~1.4", "v1.4.2"],
+    ["~2.0.0", "v2.0.1"],
+    ["^0.4", "0.4.7"],
+    ["^0.4.1", "0.4.7"],
+    [">=1.4.0 <1.5.0", "v1.4.2"],
+    [">= 1.4 < 2", "v1.5.0"],
+    [">1.4", "v2.1.0"],
+    ["<=1.4", "v1.4.2"],
+    ["=v1.4.0", "v1.4.0"],
+    ["^3 || ~1.3", "v1.3.9"],
+    ["^1.x", "v1.5.0"],
+  ])("should select the highest tag satisfying %s", (range, expected) => {
+    expect(selectSemverTag(TAGS, range).tag?.name).toBe(expected);
+  });
+
+  it("should only select prereleases named by the range", () => {
+    expect(selectSemverTag(TAGS, "^1.5.0-beta.0 <1.5.0").tag?.name).toBe("v1.5.0-beta.1");
+    expect(selectSemverTag([{ name: "v1.5.0-beta.1" }], "^1.4").tag).toBeUndefined();
+  });
+
+  it("should report the newest tag outside the range", () => {
+    expect(selectSemverTag(TAGS, "^1.4")).toEqual({
+      tag: { name: "v1.5.0" },
+      newerTag: { name: "v2.1.0" },
+    });
+    expect(selectSemverTag(TAGS, "^2")).toEqual({ tag: { name: "v2.1.0" }, newerTag: undefined });
+  });
+
+  it("should throw for an invalid range", () => {
+    expect(() => selectSemverTag(TAGS, "^main")).toThrow('Invalid semver range "^main"');
+  });
+});
@@ -0,0 +1,262 @@
+type SemverVersion = {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+};
+
+type ComparatorOperator = "<" | "<=" | ">" | ">=" | "=";
+
+type Comparator = { operator: ComparatorOperator; version: SemverVersion };
+
+/**
+ * A version with missing or wildcard (`x`, `X`, `*`) parts, as written in a range.
+ */
+type PartialVersion = {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  prerelease: string[];
+};
+
+const VERSION_PATTERN =
+  /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+const PARTIAL_VERSION_PATTERN =
+  /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/;
+
+const COMPARATOR_PATTERN = /^(\^|~|<=|>=|<|>|=)?\s*(\S+)$/;
+
+/**
+ * Whether a ref is meant as a semver range rather than a branch, tag or commit.
+ * Ranges start with an operator (`^1.4`, `~2.0.0`, `>=1.2.0 <2.0.0`) or combine sets with `||`,
+ * none of which can appear in a git ref name.
+ */
+export function isSemverRange(ref: string): boolean {
+  return /^\s*(\^|~|[<>]=?|=)/.test(ref) || ref.includes("||");
+}
+
+/**
+ * Check that a semver range can be parsed.
+ */
+export function isValidSemverRange(range: string): boolean {
+  try {
+    parseSemverRange(range);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Select the highest tag satisfying a semver range. Tag names may have a `v` prefix; tags that
+ * are not versions are ignored. Also returns the highest stable tag that is newer than the
+ * selected one, which lies outside the range.
+ */
+export function selectSemverTag<T extends { name: string }>(
+  tags: T[],
+  range: string,
+): { tag: T | undefined; newerTag: T | undefined } {
+  const sets = parseSemverRange(range);
+  const versions = tags
+    .flatMap((tag) => {
+      const version = parseVersion(tag.name);
+      return version ? [{ tag, version }] : [];
+    })
+    .toSorted((a, b) => compareVersions(b.version, a.version));
+
+  const selected = versions.find(({ version }) =>
+    sets.some((comparators) => satisfiesComparators(version, comparators)),
+  );
+  const newest = versions.find(({ version }) => version.prerelease.length === 0);
+  const newerTag =
+    selected && newest && compareVersions(newest.version, selected.version) > 0
+      ? newest.tag
+      : undefined;
+  return { tag: selected?.tag, newerTag };
+}
+
+function parseVersion(value: string): SemverVersion | null {
+  const match = VERSION_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4]?.split(".") ?? [],
+  };
+}
+
+function compareVersions(a: SemverVersion, b: SemverVersion): number {
+  const order = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (order !== 0) {
+    return Math.sign(order);
+  }
+  // A version without prerelease is higher than the same version with one
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const left = a.prerelease[i];
+    const right = b.prerelease[i];
+    if (left === undefined || right === undefined) {
+      return left === undefined ? -1 : 1;
+    }
+    if (left === right) {
+      continue;
+    }
+    const leftIsNumber = /^\d+$/.test(left);
+    const rightIsNumber = /^\d+$/.test(right);
+    if (leftIsNumber && rightIsNumber) {
+      return Number(left) > Number(right) ? 1 : -1;
+    }
+    if (leftIsNumber !== rightIsNumber) {
+      return leftIsNumber ? -1 : 1;
+    }
+    return left > right ? 1 : -1;
+  }
+  return 0;
+}
+
+/**
+ * Parse a range into sets of comparators, any of which a version must satisfy entirely.
+ */
+function parseSemverRange(range: string): Comparator[][] {
+  const sets = range.split("||").map((set) => {
+    const parts = set
+      .trim()
+      .replace(/(\^|~|<=|>=|<|>|=)\s+/g, "$1")
+      .split(/\s+/);
+    return parts.flatMap((part) => {
+      const match = COMPARATOR_PATTERN.exec(part);
+      const partial = match?.[2] ? parsePartialVersion(match[2]) : null;
+      if (!match || !partial) {
+        throw new Error(`Invalid semver range "${range}"`);
+      }
+      return toComparators(match[1] ?? "", partial);
+    });
+  });
+  if (sets.some((set) => set.length === 0)) {
+    throw new Error(`Invalid semver range "${range}"`);
+  }
+  return sets;
+}
+
+function parsePartialVersion(value: string): PartialVersion | null {
+  const match = PARTIAL_VERSION_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+  const major = parseVersionPart(match[1]);
+  const minor = major === undefined ? undefined : parseVersionPart(match[2]);
+  const patch = minor === undefined ? undefined : parseVersionPart(match[3]);
+  return { major, minor, patch, prerelease: match[4]?.split(".") ?? [] };
+}
+
+function parseVersionPart(part: string | undefined): number | undefined {
+  return part === undefined || /^[xX*]$/.test(part) ? undefined : Number(part);
+}
+
+function createVersion(
+  major: number,
+  minor = 0,
+  patch = 0,
+  prerelease: string[] = [],
+): SemverVersion {
+  return { major, minor, patch, prerelease };
+}
+
+/**
+ * Translate one range term, such as `^1.4` or `<=2`, into plain comparators.
+ */
+function toComparators(operator: string, partial: PartialVersion): Comparator[] {
+  const { major, minor, patch, prerelease } = partial;
+  if (major === undefined) {
+    // `*`, `x` and their comparisons match any version
+    return operator === "<" || operator === ">"
+      ? [{ operator: "<", version: createVersion(0, 0, 0, ["0"]) }]
+      : [{ operator: ">=", version: createVersion(0) }];
+  }
+  const lower = createVersion(major, minor, patch, prerelease);
+  const isComplete = minor !== undefined && patch !== undefined;
+
+  switch (operator) {
+    case "^": {
+      const upper =
+        major > 0 || minor === undefined
+          ? createVersion(major + 1)
+          : minor > 0 || patch === undefined
+            ? createVersion(0, minor + 1)
+            : createVersion(0, 0, patch + 1);
+      return [
+        { operator: ">=", version: lower },
+        { operator: "<", version: upper },
+      ];
+    }
+    case "~":
+      return [
+        { operator: ">=", version: lower },
+        { operator: "<", version: nextPartialVersion(major, minor) },
+      ];
+    case ">":
+      return [
+        isComplete
+          ? { operator: ">", version: lower }
+          : { operator: ">=", version: nextPartialVersion(major, minor) },
+      ];
+    case "<=":
+      return [
+        isComplete
+          ? { operator: "<=", version: lower }
+          : { operator: "<", version: nextPartialVersion(major, minor) },
+      ];
+    case ">=":
+    case "<":
+      return [{ operator, version: lower }];
+    default:
+      return isComplete
+        ? [{ operator: "=", version: lower }]
+        : [
+            { operator: ">=", version: lower },
+            { operator: "<", version: nextPartialVersion(major, minor) },
+          ];
+  }
+}
+
+/**
+ * The first version after every version matching a partial version, e.g. `2.0.0` for `1`.
+ */
+function nextPartialVersion(major: number, minor: number | undefined): SemverVersion {
+  return minor === undefined ? createVersion(major + 1) : createVersion(major, minor + 1);
+}
+
+function satisfiesComparators(version: SemverVersion, comparators: Comparator[]): boolean {
+  const matches = comparators.every(({ operator, version: bound }) => {
+    const order = compareVersions(version, bound);
+    switch (operator) {
+      case "<":
+        return order < 0;
+      case "<=":
+        return order <= 0;
+      case ">":
+        return order > 0;
+      case ">=":
+        return order >= 0;
+      case "=":
+        return order === 0;
+    }
+  });
+  if (!matches || version.prerelease.length === 0) {
+    return matches;
+  }
+  // Prereleases only match when the range names a prerelease of the same version
+  return comparators.some(
+    ({ version: bound }) =>
+      bound.prerelease.length > 0 &&
+      bound.major === version.major &&
+      bound.minor === version.minor &&
+      bound.patch === version.patch,
+  );
+}
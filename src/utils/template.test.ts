@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+
+import type { TemplateContext } from "../types/template.js";
+import { renderTemplate } from "./template.js";
+
+const context: TemplateContext = {
+  target: "claudecode",
+  global: false,
+  vars: { packageManager: "pnpm", nodeVersion: 22, strict: true },
+};
+
+const render = (content: string, overrides: Partial<TemplateContext> = {}) =>
+  renderTemplate({ content, context: { ...context, ...overrides }, filePath: "rule.md" });
+
+describe("renderTemplate", () => {
+  describe("values", () => {
+    it("should return content without tags unchanged", () => {
+      expect(render("No tags here")).toBe("No tags here");
+    });
+
+    it("should replace target, global and vars", () => {
+      expect(
+        render(
+          "{{target}} {{ global }} {{vars.packageManager}} {{vars.nodeVersion}} {{vars.strict}}",
+        ),
+      ).toBe("claudecode false pnpm 22 true");
+    });
+
+    it("should keep unknown tags and escaped braces as literal text", () => {
+      expect(render("${{ github.ref }} {{name}} \\{{target}}")).toBe(
+        "${{ github.ref }} {{name}} {{target}}",
+      );
+    });
+
+    it("should fail for undefined variables and list the defined ones", () => {
+      expect(() => render("{{vars.missing}}")).toThrow(
+        'Failed to render template in rule.md: Variable "missing" is not defined in vars. Defined variables: packageManager, nodeVersion, strict',
+      );
+      expect(() => render("{{vars.missing}}", { vars: {} })).toThrow("Defined variables: (none)");
+    });
+  });
+
+  describe("conditionals", () => {
+    it("should keep the branch matching the target", () => {
+      const content = '{{#if target == "claudecode"}}Claude{{else}}Other{{/if}}';
+
+      expect(render(content)).toBe("Claude");
+      expect(render(content, { target: "cursor" })).toBe("Other");
+    });
+
+    it("should support !=, !, && and || with && binding tighter", () => {
+      expect(render('{{#if target != "cursor"}}yes{{/if}}')).toBe("yes");
+      expect(render("{{#if !global}}local{{/if}}")).toBe("local");
+      expect(render("{{#if global && vars.strict}}yes{{else}}no{{/if}}")).toBe("no");
+      expect(
+        render('{{#if target == "cursor" || vars.strict && vars.nodeVersion == 22}}yes{{/if}}'),
+      ).toBe("yes");
+      expect(render("{{#if vars.strict == true}}yes{{/if}}")).toBe("yes");
+    });
+
+    it("should render nested blocks", () => {
+      expect(
+        render("{{#if vars.strict}}A{{#if global}}B{{else}}C{{/if}}D{{else}}E{{/if}}", {
+          global: true,
+        }),
+      ).toBe("ABD");
+    });
+
+    it("should remove block tags on their own line together with the line", () => {
+      const content = [
+        "# Setup",
+        "",
+        '{{#if target == "cursor"}}',
+        "Cursor only",
+        "  {{else}}",
+        "Everyone else",
+        "{{/if}}",
+        "Done",
+      ].join("\n");
+
+      expect(render(content)).toBe("# Setup\n\nEveryone else\nDone");
+    });
+
+    it("should report unbalanced blocks", () => {
+      expect(() => render("{{#if global}}open")).toThrow(
+        "{{#if global}} is not closed with {{/if}}",
+      );
+      expect(() => render("{{/if}}")).toThrow("{{/if}} without a matching {{#if}}");
+      expect(() => render("{{else}}")).toThrow("{{else}} without a matching {{#if}}");
+      expect(() => render("{{#if}}x{{/if}}")).toThrow("Missing condition in {{#if}}");
+    });
+
+    it("should report invalid conditions", () => {
+      expect(() => render("{{#if target ==}}x{{/if}}")).toThrow("Missing operand");
+      expect(() => render("{{#if target target}}x{{/if}}")).toThrow(
+        'Invalid condition "target target"',
+      );
+      expect(() => render("{{#if name}}x{{/if}}")).toThrow('Unknown name "name"');
+    });
+  });
+});
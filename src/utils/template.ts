@@ -0,0 +1,303 @@
+import type { TemplateContext } from "../types/template.js";
+
+type TemplateToken =
+  | { type: "text"; value: string }
+  | { type: "var"; name: string; raw: string }
+  | { type: "if"; expression: string; raw: string }
+  | { type: "else"; raw: string }
+  | { type: "endif"; raw: string };
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "var"; name: string; raw: string }
+  | {
+      type: "if";
+      expression: string;
+      raw: string;
+      consequent: TemplateNode[];
+      alternate: TemplateNode[];
+    };
+
+type TemplateValue = string | number | boolean;
+
+/**
+ * Matches an escaped `\{{`, or a tag this templating understands. Other `{{...}}`, such as
+ * `${{ github.ref }}` in a workflow sample, are not tags and are kept as they are.
+ */
+const TAG_PATTERN =
+  /\\\{\{|\{\{\s*(#if\b[^}]*|else|\/if|target|global|vars\.[A-Za-z_][\w-]*)\s*\}\}/g;
+
+const EXPRESSION_TOKEN_PATTERN =
+  /\s*(\|\||&&|==|!=|!|"[^"]*"|'[^']*'|-?\d+(?:\.\d+)?|[A-Za-z_][\w.-]*)\s*/y;
+
+const BLOCK_TAG_TYPES = new Set(["if", "else", "endif"]);
+
+/**
+ * Render the template tags of a rule, command or skill body for one target:
+ * - `{{target}}`, `{{global}}` and `{{vars.<name>}}` are replaced by their values
+ * - `{{#if <condition>}}...{{else}}...{{/if}}` keeps the branch matching the condition
+ * - `\{{` is output as a literal `{{`
+ *
+ * Conditions compare `target`, `global`, `vars.<name>`, strings, numbers and booleans with
+ * `==` and `!=`, and can be negated with `!` and combined with `&&` and `||`.
+ * Block tags on a line of their own are removed together with the line.
+ */
+export function renderTemplate({
+  content,
+  context,
+  filePath,
+}: {
+  content: string;
+  context: TemplateContext;
+  filePath: string;
+}): string {
+  if (!content.includes("{{")) {
+    return content;
+  }
+  try {
+    const nodes = parseTemplate(trimStandaloneBlockTags(tokenizeTemplate(content)));
+    return renderNodes(nodes, context);
+  } catch (error) {
+    throw new Error(
+      `Failed to render template in ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error },
+    );
+  }
+}
+
+function tokenizeTemplate(content: string): TemplateToken[] {
+  const tokens: TemplateToken[] = [];
+  let lastIndex = 0;
+  for (const match of content.matchAll(TAG_PATTERN)) {
+    const [raw, tag] = match;
+    tokens.push({ type: "text", value: content.slice(lastIndex, match.index) });
+    lastIndex = match.index + raw.length;
+
+    if (tag === undefined) {
+      // Escaped braces
+      tokens.push({ type: "text", value: "{{" });
+    } else if (tag.startsWith("#if")) {
+      tokens.push({ type: "if", expression: tag.slice("#if".length).trim(), raw });
+    } else if (tag === "else") {
+      tokens.push({ type: "else", raw });
+    } else if (tag === "/if") {
+      tokens.push({ type: "endif", raw });
+    } else {
+      tokens.push({ type: "var", name: tag, raw });
+    }
+  }
+  tokens.push({ type: "text", value: content.slice(lastIndex) });
+  return tokens;
+}
+
+/**
+ * Remove block tags that are alone on their line together with that line,
+ * so conditional blocks do not leave blank lines behind.
+ */
+function trimStandaloneBlockTags(tokens: TemplateToken[]): TemplateToken[] {
+  // Decide on the original text first, since a text token can sit between two tags
+  const standaloneIndexes = [...tokens.keys()].filter((index) => {
+    const token = tokens[index];
+    const previous = tokens[index - 1];
+    const next = tokens[index + 1];
+    if (!token || !BLOCK_TAG_TYPES.has(token.type)) {
+      return false;
+    }
+    if (previous?.type !== "text" || next?.type !== "text") {
+      return false;
+    }
+    const isLineStart =
+      /\n[ \t]*$/.test(previous.value) || (index === 1 && /^[ \t]*$/.test(previous.value));
+    return isLineStart && /^[ \t]*(\r?\n|$)/.test(next.value);
+  });
+
+  const result = tokens.map((token) => ({ ...token }));
+  for (const index of standaloneIndexes) {
+    const previous = result[index - 1];
+    const next = result[index + 1];
+    if (previous?.type === "text" && next?.type === "text") {
+      previous.value = previous.value.replace(/[ \t]*$/, "");
+      next.value = next.value.replace(/^[ \t]*(\r?\n)?/, "");
+    }
+  }
+  return result;
+}
+
+function parseTemplate(tokens: TemplateToken[]): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: Extract<TemplateNode, { type: "if" }>; inElse: boolean }> = [];
+  const currentNodes = (): TemplateNode[] => {
+    const top = stack.at(-1);
+    if (!top) {
+      return root;
+    }
+    return top.inElse ? top.node.alternate : top.node.consequent;
+  };
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case "text":
+        if (token.value !== "") {
+          currentNodes().push(token);
+        }
+        break;
+      case "var":
+        currentNodes().push(token);
+        break;
+      case "if": {
+        if (token.expression === "") {
+          throw new Error(`Missing condition in ${token.raw}`);
+        }
+        const node: Extract<TemplateNode, { type: "if" }> = {
+          type: "if",
+          expression: token.expression,
+          raw: token.raw,
+          consequent: [],
+          alternate: [],
+        };
+        currentNodes().push(node);
+        stack.push({ node, inElse: false });
+        break;
+      }
+      case "else": {
+        const top = stack.at(-1);
+        if (!top || top.inElse) {
+          throw new Error(`${token.raw} without a matching {{#if}}`);
+        }
+        top.inElse = true;
+        break;
+      }
+      case "endif":
+        if (!stack.pop()) {
+          throw new Error(`${token.raw} without a matching {{#if}}`);
+        }
+        break;
+    }
+  }
+
+  const unclosed = stack.at(-1);
+  if (unclosed) {
+    throw new Error(`${unclosed.node.raw} is not closed with {{/if}}`);
+  }
+  return root;
+}
+
+function renderNodes(nodes: TemplateNode[], context: TemplateContext): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.value;
+        case "var":
+          return String(resolveValue(node.name, context));
+        case "if":
+          return renderNodes(
+            evaluateCondition(node.expression, context) ? node.consequent : node.alternate,
+            context,
+          );
+      }
+    })
+    .join("");
+}
+
+function resolveValue(name: string, context: TemplateContext): TemplateValue {
+  if (name === "target") {
+    return context.target;
+  }
+  if (name === "global") {
+    return context.global;
+  }
+  if (name.startsWith("vars.")) {
+    const varName = name.slice("vars.".length);
+    const value = context.vars[varName];
+    if (value === undefined) {
+      const defined = Object.keys(context.vars);
+      throw new Error(
+        `Variable "${varName}" is not defined in vars. Defined variables: ${defined.length > 0 ? defined.join(", ") : "(none)"}`,
+      );
+    }
+    return value;
+  }
+  throw new Error(`Unknown name "${name}". Use target, global or vars.<name>`);
+}
+
+function tokenizeExpression(expression: string): string[] {
+  const tokens: string[] = [];
+  EXPRESSION_TOKEN_PATTERN.lastIndex = 0;
+  while (EXPRESSION_TOKEN_PATTERN.lastIndex < expression.length) {
+    const match = EXPRESSION_TOKEN_PATTERN.exec(expression);
+    if (!match?.[1]) {
+      throw new Error(`Invalid condition "${expression}"`);
+    }
+    tokens.push(match[1]);
+  }
+  return tokens;
+}
+
+function parseOperand(token: string | undefined, context: TemplateContext): TemplateValue {
+  if (token === undefined) {
+    throw new Error("Missing operand");
+  }
+  if (/^(".*"|'.*')$/.test(token)) {
+    return token.slice(1, -1);
+  }
+  if (/^-?\d/.test(token)) {
+    return Number(token);
+  }
+  if (token === "true" || token === "false") {
+    return token === "true";
+  }
+  if (["==", "!=", "!", "&&", "||"].includes(token)) {
+    throw new Error(`Unexpected "${token}"`);
+  }
+  return resolveValue(token, context);
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  return typeof value === "string" ? value !== "" : Boolean(value);
+}
+
+/**
+ * Evaluate a condition. `&&` binds tighter than `||`; parentheses are not supported.
+ */
+function evaluateCondition(expression: string, context: TemplateContext): boolean {
+  const tokens = tokenizeExpression(expression);
+  let position = 0;
+
+  const evaluateComparison = (): boolean => {
+    let negate = false;
+    while (tokens[position] === "!") {
+      negate = !negate;
+      position++;
+    }
+    const left = parseOperand(tokens[position++], context);
+    const operator = tokens[position];
+    if (operator !== "==" && operator !== "!=") {
+      return negate !== isTruthy(left);
+    }
+    position++;
+    const right = parseOperand(tokens[position++], context);
+    const equal = String(left) === String(right);
+    return negate !== (operator === "==" ? equal : !equal);
+  };
+
+  const evaluateAnd = (): boolean => {
+    let result = evaluateComparison();
+    while (tokens[position] === "&&") {
+      position++;
+      // Evaluate every operand so that unknown names are always reported
+      result = evaluateComparison() && result;
+    }
+    return result;
+  };
+
+  let result = evaluateAnd();
+  while (tokens[position] === "||") {
+    position++;
+    result = evaluateAnd() || result;
+  }
+  if (position < tokens.length) {
+    throw new Error(`Invalid condition "${expression}"`);
+  }
+  return result;
+}